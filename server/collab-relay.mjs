@@ -0,0 +1,333 @@
+/**
+ * @fileoverview 实时协作中继服务器（参考实现）
+ * @description 实现 WebSocketCollaborationTransport 的中继协议：按令牌和资源划分房间，
+ * 把协作消息转发给同一房间的其他成员，并保存房间内的操作历史供新加入者回放。
+ * 只依赖 Node 内置模块（自带最小的 WebSocket 实现），适合团队在局域网或一台小服务器上自行部署。
+ *
+ * 启动：
+ *   npm run collab-relay
+ *
+ * 环境变量：
+ *   PORT               监听端口，默认 8788
+ *   RELAY_TOKENS       允许访问的令牌，逗号分隔；为空时接受任意令牌
+ *   RELAY_MAX_MESSAGE  单条消息上限（字节），默认 16MB
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+const DEFAULT_PORT = 8788;
+const DEFAULT_MAX_MESSAGE = 16 * 1024 * 1024;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// ==================== 房间 ====================
+
+/**
+ * 创建中继中心
+ *
+ * 每个连接先通过 join 加入资源房间；operation 消息追加到房间历史，sync_request 由中继
+ * 直接以 sync_response 回放历史，其余消息原样转发给房间内的其他连接。
+ * 房间最后一个成员离开后释放，历史一并清除（章节正文本身由各端保存和同步）。
+ */
+export function createRelayHub() {
+  /** @type {Map<string, { clients: Set<any>, history: any[] }>} */
+  const rooms = new Map();
+
+  const roomKey = (space, message) => `${space}\u0000${message.resourceType}:${message.resourceId}`;
+
+  const broadcast = (key, message, except) => {
+    const room = rooms.get(key);
+    if (!room) return;
+    const text = JSON.stringify(message);
+    room.clients.forEach((client) => {
+      if (client !== except) client.send(text);
+    });
+  };
+
+  const leaveRoom = (client, key, message) => {
+    const room = rooms.get(key);
+    if (!room || !room.clients.delete(client)) return;
+    client.rooms.delete(key);
+    broadcast(key, message, client);
+    if (room.clients.size === 0) rooms.delete(key);
+  };
+
+  /**
+   * 接入一个连接
+   *
+   * @param {string} space - 令牌，不同令牌的房间互不可见
+   * @param {(text: string) => void} send - 向该连接发送文本
+   */
+  const connect = (space, send) => {
+    const client = { send, rooms: new Map() };
+
+    const receive = (text) => {
+      let message;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        return;
+      }
+      if (
+        !message ||
+        typeof message.type !== 'string' ||
+        typeof message.senderId !== 'string' ||
+        typeof message.resourceType !== 'string' ||
+        typeof message.resourceId !== 'string'
+      ) {
+        return;
+      }
+
+      const key = roomKey(space, message);
+      switch (message.type) {
+        case 'join': {
+          if (!rooms.has(key)) rooms.set(key, { clients: new Set(), history: [] });
+          rooms.get(key).clients.add(client);
+          client.rooms.set(key, message.senderId);
+          broadcast(key, message, client);
+          return;
+        }
+        case 'leave':
+          leaveRoom(client, key, message);
+          return;
+        case 'operation': {
+          const room = rooms.get(key);
+          const operations = message.data?.operations;
+          if (room && Array.isArray(operations)) room.history.push(...operations);
+          broadcast(key, message, client);
+          return;
+        }
+        case 'sync_request': {
+          const history = rooms.get(key)?.history ?? [];
+          client.send(JSON.stringify({
+            type: 'sync_response',
+            senderId: 'relay',
+            resourceType: message.resourceType,
+            resourceId: message.resourceId,
+            data: { operations: history, version: history.length },
+            timestamp: Date.now(),
+          }));
+          return;
+        }
+        default:
+          broadcast(key, message, client);
+      }
+    };
+
+    // 连接断开：替该连接向所在房间广播 leave
+    const close = () => {
+      [...client.rooms].forEach(([key, userId]) => {
+        const [, resource] = key.split('\u0000');
+        const separator = resource.indexOf(':');
+        leaveRoom(client, key, {
+          type: 'leave',
+          senderId: userId,
+          resourceType: resource.slice(0, separator),
+          resourceId: resource.slice(separator + 1),
+          data: { userId },
+          timestamp: Date.now(),
+        });
+      });
+    };
+
+    return { receive, close };
+  };
+
+  const stats = () => ({
+    rooms: rooms.size,
+    clients: [...rooms.values()].reduce((sum, room) => sum + room.clients.size, 0),
+  });
+
+  return { connect, stats };
+}
+
+// ==================== WebSocket 帧 ====================
+
+/**
+ * 编码一个不分片、不加掩码的服务端帧
+ *
+ * @param {Buffer} payload
+ * @param {number} [opcode] - 1 文本，8 关闭，9 ping，10 pong
+ */
+export function encodeFrame(payload, opcode = 0x1) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * 创建帧解码器：喂入 TCP 数据块，返回其中完整的消息（分片会合并）
+ *
+ * @param {number} [maxMessage] - 单条消息上限，超出时抛出错误
+ * @returns {(chunk: Buffer) => { opcode: number, payload: Buffer }[]}
+ */
+export function createFrameDecoder(maxMessage = DEFAULT_MAX_MESSAGE) {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentOpcode = 0;
+
+  return (chunk) => {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    const messages = [];
+
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffer.length < 4) break;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) break;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > maxMessage) {
+        throw new Error('消息过大');
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) break;
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= buffer[maskOffset + (i % 4)];
+        }
+      }
+      buffer = buffer.subarray(offset + length);
+
+      if (opcode >= 0x8) {
+        messages.push({ opcode, payload });
+      } else if (opcode === 0x0) {
+        fragments.push(payload);
+        if (fin) {
+          messages.push({ opcode: fragmentOpcode, payload: Buffer.concat(fragments) });
+          fragments = [];
+        }
+      } else if (fin) {
+        messages.push({ opcode, payload });
+      } else {
+        fragmentOpcode = opcode;
+        fragments = [payload];
+      }
+    }
+
+    return messages;
+  };
+}
+
+// ==================== HTTP / WebSocket 服务 ====================
+
+/**
+ * 创建中继服务
+ *
+ * @param {{ hub: ReturnType<typeof createRelayHub>, tokens?: string[], maxMessage?: number }} options
+ */
+export function createRelayServer({ hub, tokens, maxMessage = DEFAULT_MAX_MESSAGE }) {
+  const server = createServer((req, res) => {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8', 'Access-Control-Allow-Origin': '*' });
+      res.end(JSON.stringify({ ok: true, ...hub.stats() }));
+      return;
+    }
+    res.writeHead(426, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('请使用 WebSocket 连接');
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const token = url.searchParams.get('token') ?? '';
+    const key = req.headers['sec-websocket-key'];
+    const reject = (status, text) => {
+      socket.end(`HTTP/1.1 ${status} ${text}\r\nConnection: close\r\n\r\n`);
+    };
+
+    if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+      reject(400, 'Bad Request');
+      return;
+    }
+    if (!token || (tokens?.length && !tokens.includes(token))) {
+      reject(401, 'Unauthorized');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    const connection = hub.connect(token, (text) => {
+      if (!socket.destroyed) socket.write(encodeFrame(Buffer.from(text, 'utf-8')));
+    });
+    const decode = createFrameDecoder(maxMessage);
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      connection.close();
+    };
+
+    socket.on('data', (chunk) => {
+      let frames;
+      try {
+        frames = decode(chunk);
+      } catch {
+        socket.end(encodeFrame(Buffer.from([0x03, 0xf1]), 0x8)); // 1009 消息过大
+        close();
+        return;
+      }
+      frames.forEach(({ opcode, payload }) => {
+        if (opcode === 0x1) {
+          connection.receive(payload.toString('utf-8'));
+        } else if (opcode === 0x8) {
+          socket.end(encodeFrame(payload.subarray(0, 2), 0x8));
+          close();
+        } else if (opcode === 0x9) {
+          socket.write(encodeFrame(payload, 0xa));
+        }
+      });
+    });
+    socket.on('close', close);
+    socket.on('error', close);
+  });
+
+  return server;
+}
+
+// 直接运行时启动服务
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  const tokens = (process.env.RELAY_TOKENS ?? '').split(',').map(t => t.trim()).filter(Boolean);
+  const maxMessage = Number(process.env.RELAY_MAX_MESSAGE) || DEFAULT_MAX_MESSAGE;
+
+  const server = createRelayServer({ hub: createRelayHub(), tokens, maxMessage });
+  server.listen(port, () => {
+    console.log(`[CollabRelay] 已启动: ws://localhost:${port}`);
+    if (tokens.length === 0) {
+      console.warn('[CollabRelay] 未设置 RELAY_TOKENS，任意令牌均可连接（每个令牌独立的房间空间）');
+    }
+  });
+}
@@ -0,0 +1,241 @@
+/**
+ * @fileoverview 自建同步服务器（参考实现）
+ * @description 实现 RestSyncTransport 的推送/拉取协议，数据按令牌分空间保存在一个 JSON 文件中。
+ * 只依赖 Node 内置模块，适合团队在局域网或一台小服务器上自行部署。
+ *
+ * 启动：
+ *   npm run sync-server
+ *
+ * 环境变量：
+ *   PORT            监听端口，默认 8787
+ *   SYNC_DATA_FILE  数据文件路径，默认 ./sync-data.json
+ *   SYNC_TOKENS     允许访问的令牌，逗号分隔；为空时接受任意令牌
+ *   SYNC_MAX_BODY   单次请求体上限（字节），默认 50MB
+ */
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_MAX_BODY = 50 * 1024 * 1024;
+
+// ==================== 存储 ====================
+
+/**
+ * 创建记录存储
+ *
+ * 每个空间（令牌）是一张 key → 记录 的表。写入时间由单调递增的时钟生成，
+ * 保证同一毫秒内的写入不会被以该毫秒为 since 的拉取漏掉。
+ *
+ * @param {{ file?: string, now?: () => number }} [options]
+ */
+export function createSyncStore(options = {}) {
+  const now = options.now ?? Date.now;
+  /** @type {Map<string, Map<string, any>>} */
+  const spaces = new Map();
+  let lastTick = 0;
+
+  if (options.file && existsSync(options.file)) {
+    const saved = JSON.parse(readFileSync(options.file, 'utf-8'));
+    for (const [space, records] of Object.entries(saved.spaces ?? {})) {
+      spaces.set(space, new Map(Object.entries(records)));
+    }
+    lastTick = saved.lastTick ?? 0;
+  }
+
+  const tick = () => {
+    lastTick = Math.max(now(), lastTick + 1);
+    return lastTick;
+  };
+
+  const getSpace = (space) => {
+    if (!spaces.has(space)) spaces.set(space, new Map());
+    return spaces.get(space);
+  };
+
+  const persist = () => {
+    if (!options.file) return;
+    const data = { lastTick, spaces: {} };
+    for (const [space, records] of spaces) {
+      data.spaces[space] = Object.fromEntries(records);
+    }
+    const tmp = `${options.file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data));
+    renameSync(tmp, options.file);
+  };
+
+  /**
+   * 应用一批变更，baseRevision 与服务端修订号不一致的变更返回冲突（附带服务端记录）
+   */
+  const push = (space, changes, deviceId) => {
+    const records = getSpace(space);
+    const results = changes.map((change) => {
+      const current = records.get(change.key);
+      const currentRevision = current?.revision ?? 0;
+      if (current && (change.baseRevision ?? 0) !== currentRevision) {
+        return { key: change.key, status: 'conflict', record: current };
+      }
+
+      const deleted = change.operation === 'delete';
+      const record = {
+        key: change.key,
+        revision: currentRevision + 1,
+        data: deleted ? null : change.data,
+        updatedAt: new Date(tick()).toISOString(),
+      };
+      if (deleted) record.deleted = true;
+      if (deviceId) record.deviceId = deviceId;
+      records.set(change.key, record);
+      return { key: change.key, status: 'applied', record };
+    });
+
+    if (results.some(r => r.status === 'applied')) persist();
+    return { results, serverTime: new Date(tick()).toISOString() };
+  };
+
+  /**
+   * 返回 since 之后写入的记录
+   */
+  const pull = (space, since) => {
+    const sinceTime = since ? Date.parse(since) : Number.NEGATIVE_INFINITY;
+    const records = [...getSpace(space).values()]
+      .filter(record => Date.parse(record.updatedAt) > sinceTime)
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+    return { records, serverTime: new Date(tick()).toISOString() };
+  };
+
+  return { push, pull };
+}
+
+// ==================== 请求处理 ====================
+
+const isValidChange = (change) =>
+  change &&
+  typeof change.key === 'string' &&
+  change.key.length > 0 &&
+  ['create', 'update', 'delete'].includes(change.operation) &&
+  (change.baseRevision === undefined || Number.isInteger(change.baseRevision));
+
+const error = (status, code, message) => ({ status, body: { error: { code, message } } });
+
+/**
+ * 处理一次同步请求（与传输方式无关，便于测试）
+ *
+ * @param {ReturnType<typeof createSyncStore>} store
+ * @param {{ method: string, url: string, headers: Record<string, string | undefined>, body?: string }} request
+ * @param {{ tokens?: string[] }} [options]
+ * @returns {{ status: number, body: unknown }}
+ */
+export function handleSyncRequest(store, request, options = {}) {
+  const url = new URL(request.url, 'http://localhost');
+  const method = request.method.toUpperCase();
+
+  if (url.pathname === '/health' && method === 'GET') {
+    return { status: 200, body: { ok: true } };
+  }
+
+  const token = request.headers['authorization']?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return error(401, 'unauthorized', '缺少访问令牌');
+  }
+  if (options.tokens?.length && !options.tokens.includes(token)) {
+    return error(401, 'unauthorized', '访问令牌无效');
+  }
+  const deviceId = request.headers['x-device-id'];
+
+  if (url.pathname === '/sync/pull' && method === 'GET') {
+    const since = url.searchParams.get('since') ?? undefined;
+    if (since && Number.isNaN(Date.parse(since))) {
+      return error(400, 'invalid_request', 'since 不是有效的时间');
+    }
+    return { status: 200, body: store.pull(token, since) };
+  }
+
+  if (url.pathname === '/sync/push' && method === 'POST') {
+    let payload;
+    try {
+      payload = JSON.parse(request.body ?? '{}');
+    } catch {
+      return error(400, 'invalid_request', '请求体不是有效的 JSON');
+    }
+    if (!Array.isArray(payload.changes) || !payload.changes.every(isValidChange)) {
+      return error(400, 'invalid_request', 'changes 格式不正确');
+    }
+    return { status: 200, body: store.push(token, payload.changes, deviceId) };
+  }
+
+  return error(404, 'not_found', `未知接口 ${method} ${url.pathname}`);
+}
+
+// ==================== HTTP 服务 ====================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Device-Id',
+  'Access-Control-Max-Age': '86400',
+};
+
+/**
+ * 创建 HTTP 服务
+ *
+ * @param {{ store: ReturnType<typeof createSyncStore>, tokens?: string[], maxBody?: number }} options
+ */
+export function createSyncServer({ store, tokens, maxBody = DEFAULT_MAX_BODY }) {
+  return createServer((req, res) => {
+    const send = (status, body) => {
+      res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      if (res.headersSent) return;
+      size += chunk.length;
+      if (size > maxBody) {
+        send(413, { error: { code: 'payload_too_large', message: '请求体过大' } });
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (res.headersSent) return;
+      try {
+        const { status, body } = handleSyncRequest(
+          store,
+          { method: req.method ?? 'GET', url: req.url ?? '/', headers: req.headers, body: Buffer.concat(chunks).toString('utf-8') },
+          { tokens }
+        );
+        send(status, body);
+      } catch (err) {
+        console.error('[SyncServer] 请求处理失败:', err);
+        send(500, { error: { code: 'internal_error', message: '服务器内部错误' } });
+      }
+    });
+  });
+}
+
+// 直接运行时启动服务
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  const file = process.env.SYNC_DATA_FILE || './sync-data.json';
+  const tokens = (process.env.SYNC_TOKENS ?? '').split(',').map(t => t.trim()).filter(Boolean);
+  const maxBody = Number(process.env.SYNC_MAX_BODY) || DEFAULT_MAX_BODY;
+
+  const server = createSyncServer({ store: createSyncStore({ file }), tokens, maxBody });
+  server.listen(port, () => {
+    console.log(`[SyncServer] 已启动: http://localhost:${port}，数据文件 ${file}`);
+    if (tokens.length === 0) {
+      console.warn('[SyncServer] 未设置 SYNC_TOKENS，任意令牌均可访问（每个令牌独立的数据空间）');
+    }
+  });
+}
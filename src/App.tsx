@@ -18,10 +18,18 @@ import { OfflineIndicator } from './components/ui/ProgressModal';
 import { SessionExpiryWarning } from './components/ui/SessionExpiryWarning';
 import { BackupReminder } from './components/ui/BackupReminder';
 import SearchModal from './components/ui/SearchModal';
-import { usePersistentState, useOnlineStatus, useSearch } from './hooks';
+import { usePersistentState, useOnlineStatus, useSearch, useNovelSync, useScheduledBackup } from './hooks';
 import { ViewState, User, Theme, Novel, ActivityEntry, InviteRecord, PromptEntry, ShortWork, StoredUser, LoginHistoryEntry, LOGIN_MAX_ATTEMPTS, LOGIN_LOCKOUT_MINUTES } from './types';
 import { createId, createInviteCode, hashPassword, verifyPassword, passwordNeedsUpgrade } from './utils';
 import { defaultPrompts } from './data/defaultPrompts';
+import { isMembershipMode, MEMBERSHIP_API_CONFIG } from './config/apiConfig';
+import { membershipClient } from './services/membership/MembershipClient';
+import type { MembershipSession } from './services/membership/MembershipClient';
+import { mergeNovelLists } from './services/sync/novelMerge';
+import { aclService } from './services/acl/AclService';
+import { ragService } from './services/rag/RagService';
+import { NovelMemoryService } from './services/memory/NovelMemoryService';
+import { CodexExtractionService } from './services/codex/CodexExtractionService';
 import { Search, Moon, Sun } from 'lucide-react';
 
 // 检查用户是否被锁定
@@ -37,6 +45,9 @@ const isUserLocked = (user: StoredUser): { isLocked: boolean; remainingMinutes:
   return { isLocked: true, remainingMinutes };
 };
 
+// 多个标签页同时编辑作品时按章节和设定合并，而不是后保存的覆盖先保存的
+const NOVELS_STORAGE_OPTIONS = { merge: mergeNovelLists };
+
 function App() {
   const [currentView, setCurrentView] = useState<ViewState>(ViewState.DASHBOARD);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
@@ -49,13 +60,21 @@ function App() {
 
   const [users, setUsers] = usePersistentState<StoredUser[]>('tiandao_users', []);
   const [sessionId, setSessionId] = usePersistentState<string | null>('tiandao_session_id', null);
-  const [novels, setNovels] = usePersistentState<Novel[]>('tiandao_novels', []);
+  // 会员后端签发的会话，随本地会话保存；localUserId 为换取令牌时登录的本地用户
+  const [membershipSession, setMembershipSession] = usePersistentState<(MembershipSession & { localUserId: string }) | null>('tiandao_membership_session', null);
+  const [novels, setNovels] = usePersistentState<Novel[]>('tiandao_novels', [], NOVELS_STORAGE_OPTIONS);
   const [activityLog, setActivityLog] = usePersistentState<ActivityEntry[]>('tiandao_activity_log', []);
   const [prompts, setPrompts] = usePersistentState<PromptEntry[]>('tiandao_prompts', defaultPrompts);
   const [invites, setInvites] = usePersistentState<InviteRecord[]>('tiandao_invites', []);
   const [shortWorks, setShortWorks] = usePersistentState<ShortWork[]>('tiandao_short_works', []);
   const [theme, setTheme] = usePersistentState<Theme>('tiandao_theme', 'light');
 
+  // 多设备同步（未配置同步服务器时不生效）
+  useNovelSync(novels, setNovels);
+
+  // 定时本地备份（未开启时不生效）
+  useScheduledBackup();
+
   // 搜索功能
   const {
     isOpen: isSearchOpen,
@@ -100,6 +119,9 @@ function App() {
 
   const deleteNovel = useCallback((novelId: string) => {
     setNovels(prev => prev.filter(n => n.id !== novelId));
+    ragService.deleteNovelMemory(novelId).catch(error => console.error('清除检索索引失败:', error));
+    NovelMemoryService.remove(novelId);
+    CodexExtractionService.removeState(novelId);
     if (selectedNovelId === novelId) {
       setSelectedNovelId(null);
     }
@@ -124,6 +146,7 @@ function App() {
     const rememberMe = localStorage.getItem('tiandao_remember_me') === 'true';
     if (!rememberMe && sessionId) {
       setSessionId(null);
+      setMembershipSession(null);
     }
     // 仅在应用启动时检查一次
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -153,15 +176,20 @@ function App() {
   }, []);
 
   const recordActivity = useCallback((entry: Omit<ActivityEntry, 'id' | 'createdAt'> & { createdAt?: string }) => {
+    // 会员模式下积分以服务端扣费为准：功能组件上报的 ai_call 不再扣分和计次，改由扣费事件记录
+    const chargedByServer = entry.type === 'ai_call' && !entry.metadata?.membership && isMembershipMode();
     const fullEntry: ActivityEntry = {
       id: createId(),
       createdAt: entry.createdAt || new Date().toISOString(),
       ...entry,
+      deltaPoints: chargedByServer ? undefined : entry.deltaPoints,
     };
     setActivityLog(prev => [fullEntry, ...prev].slice(0, 300));
     if (user) {
-      const nextPoints = (user.points ?? 0) + (entry.deltaPoints ?? 0);
-      const nextAiCalls = entry.type === 'ai_call' ? (user.aiCalls ?? 0) + 1 : (user.aiCalls ?? 0);
+      const nextPoints = typeof entry.metadata?.balance === 'number'
+        ? entry.metadata.balance
+        : (user.points ?? 0) + (fullEntry.deltaPoints ?? 0);
+      const nextAiCalls = entry.type === 'ai_call' && !chargedByServer ? (user.aiCalls ?? 0) + 1 : (user.aiCalls ?? 0);
       const nextWords = entry.metadata?.words
         ? (user.totalWords ?? 0) + entry.metadata.words
         : user.totalWords;
@@ -173,6 +201,44 @@ function App() {
     }
   }, [setActivityLog, updateUser, user]);
 
+  // 会员模式：使用当前用户登录时换取的会话令牌（不是用户 ID），登录后同步服务端积分余额
+  const membershipToken = user && membershipSession?.localUserId === user.id ? membershipSession.token : null;
+  useEffect(() => {
+    membershipClient.setAuthToken(membershipToken);
+    if (!user || !membershipToken || !isMembershipMode()) return;
+    membershipClient.getAccount()
+      .then(account => updateUser(user.id, { points: account.points }))
+      .catch(error => console.warn('[Membership] 同步积分余额失败:', error));
+    // 仅在切换用户或令牌时同步
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id, membershipToken]);
+
+  // 会员模式：登录时用同一账号向会员后端换取会话令牌，失败时不影响本地登录，调用会员服务时提示重新登录
+  const startMembershipSession = useCallback((localUserId: string, email: string, password: string) => {
+    setMembershipSession(null);
+    if (!isMembershipMode()) return;
+    membershipClient.createSession(email, password)
+      .then(session => setMembershipSession({ ...session, localUserId }))
+      .catch(error => console.warn('[Membership] 获取会员会话失败:', error));
+  }, [setMembershipSession]);
+
+  // 会员模式：每次扣费写入 ai_call 活动记录，积分余额以服务端返回为准
+  useEffect(() => membershipClient.onCharge((charge) => {
+    const modelName = MEMBERSHIP_API_CONFIG.models.find(m => m.id === charge.model)?.name ?? charge.model;
+    recordActivity({
+      type: 'ai_call',
+      description: `会员 AI 调用 · ${modelName}`,
+      deltaPoints: -charge.pointsCharged,
+      metadata: {
+        membership: true,
+        model: charge.model,
+        balance: charge.balance,
+        feature: charge.feature,
+        novelId: charge.novelId,
+      },
+    });
+  }), [recordActivity]);
+
   const handleAuthenticate = useCallback(async (payload: AuthPayload) => {
     setAuthError(null);
     setLockoutInfo(null);
@@ -215,6 +281,7 @@ function App() {
       };
       setUsers(prev => [...prev, newUser]);
       setSessionId(newUser.id);
+      startMembershipSession(newUser.id, newUser.email, payload.password);
       setIsAuthModalOpen(false);
       recordActivity({ type: 'general', description: '注册成功，系统赠送积分', deltaPoints: 100 });
       return;
@@ -284,6 +351,7 @@ function App() {
 
     updateUser(existing.id, successUpdates);
     setSessionId(existing.id);
+    startMembershipSession(existing.id, existing.email, payload.password);
     setIsAuthModalOpen(false);
 
     // 如果用户选择"记住我"，可以延长会话时间（这里只是记录，实际逻辑需要SessionService支持）
@@ -292,7 +360,7 @@ function App() {
     } else {
       localStorage.removeItem('tiandao_remember_me');
     }
-  }, [recordActivity, setSessionId, setUsers, updateUser, users]);
+  }, [recordActivity, setSessionId, setUsers, updateUser, users, startMembershipSession]);
 
   // 处理密码重置请求
   const handlePasswordReset = useCallback(async (email: string) => {
@@ -359,6 +427,7 @@ function App() {
 
   const handleLogout = () => {
     setSessionId(null);
+    setMembershipSession(null);
   };
 
   const ownedNovels = useMemo(() => {
@@ -366,6 +435,38 @@ function App() {
     return novels.filter(n => !n.ownerId || n.ownerId === user.id);
   }, [novels, user]);
 
+  // 授权变化时递增，使共享作品列表重新计算
+  const [aclVersion, setAclVersion] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+    aclService.init(user.id);
+    const refresh = () => setAclVersion(v => v + 1);
+    const unsubscribes = (['granted', 'revoked', 'updated', 'expired'] as const).map(type => aclService.on(type, refresh));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [user?.id]);
+
+  // 自己的作品登记为所有者，之后才能分享给其他账号
+  useEffect(() => {
+    if (!user) return;
+    novels.forEach(n => {
+      if (n.ownerId === user.id) aclService.ensureOwner('novel', n.id, user.id);
+    });
+  }, [novels, user?.id]);
+
+  // 自己的作品加上其他账号分享给自己的作品
+  const accessibleNovels = useMemo(() => {
+    if (!user) return [];
+    return novels.filter(n =>
+      !n.ownerId || n.ownerId === user.id || aclService.getPermissions(user.id, 'novel', n.id).includes('read')
+    );
+  }, [novels, user, aclVersion]);
+
+  const shareableUsers = useMemo(
+    () => users.map(({ id, name, email }) => ({ id, name, email })),
+    [users]
+  );
+
   const userInvites = useMemo(() => {
     if (!user) return [];
     return invites.filter(inv => inv.ownerId === user.id);
@@ -448,18 +549,20 @@ function App() {
         return (
           <NovelManager
             onNavigate={setCurrentView}
-            novels={ownedNovels}
+            novels={accessibleNovels}
             onSaveNovel={handleSaveNovel}
             onNovelClick={handleNovelClick}
             onCreateNovel={handleCreateNovel}
             onDeleteNovel={deleteNovel}
             isAuthenticated={!!user}
+            currentUserId={user?.id}
+            users={shareableUsers}
           />
         );
       case ViewState.SHORT_NOVEL:
         return <ShortNovel onSaveWork={handleShortWorksChange} works={userShortWorks} onRecordActivity={recordActivity} />;
       case ViewState.LONG_NOVEL:
-        return <LongNovelEditor novel={selectedNovel} onUpdateNovel={(updates) => selectedNovelId && updateNovel(selectedNovelId, updates)} onBack={() => setCurrentView(ViewState.NOVEL_MANAGER)} onRecordActivity={recordActivity} prompts={prompts} />;
+        return <LongNovelEditor novel={selectedNovel} onUpdateNovel={(updates) => selectedNovelId && updateNovel(selectedNovelId, updates)} onBack={() => setCurrentView(ViewState.NOVEL_MANAGER)} onRecordActivity={recordActivity} prompts={prompts} currentUserId={selectedNovel?.ownerId ? user?.id : undefined} currentUserName={user?.name} />;
       case ViewState.BOOK_BREAKER:
         return <BookBreaker onRecordActivity={recordActivity} />;
       case ViewState.PROMPTS:
@@ -468,7 +571,7 @@ function App() {
         return <MemberCenter user={user} activityLog={activityLog} onPlanChange={(plan) => user && updateUser(user.id, { plan })} onNavigateToSettings={() => setCurrentView(ViewState.SETTINGS)} />;
       case ViewState.INVITE:
         return <InviteManager user={user} invites={userInvites} onInvitesChange={handleInvitesChange} />;
-      case ViewState.SETTINGS: return <Settings user={user} storedUser={storedUser} theme={theme} onThemeChange={setTheme} onPasswordChange={handlePasswordChange} />;
+      case ViewState.SETTINGS: return <Settings user={user} storedUser={storedUser} theme={theme} onThemeChange={setTheme} onPasswordChange={handlePasswordChange} novels={novels} onRestoreNovels={setNovels} />;
       default: return null;
     }
   };
@@ -1,6 +1,8 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { ActivityEntry } from '../../../types';
 import { generateCreativeContentStream } from '../../../services/api/gemini';
+import { countWords, DEFAULT_WORD_COUNT_MODE } from '../../../utils/wordCount';
+import { useToast } from '../../ui/Toast';
 
 const ANALYSIS_TYPES = [
   {
@@ -34,10 +36,13 @@ interface BookBreakerProps {
 }
 
 const BookBreaker: React.FC<BookBreakerProps> = ({ onRecordActivity }) => {
+  const toast = useToast();
   const [inputType, setInputType] = useState<'text' | 'file'>('text');
   const [inputText, setInputText] = useState('');
   const [selectedType, setSelectedType] = useState(ANALYSIS_TYPES[0].id);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isInterrupted, setIsInterrupted] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
   const [result, setResult] = useState('');
   const [fileName, setFileName] = useState('');
 
@@ -46,7 +51,9 @@ const BookBreaker: React.FC<BookBreakerProps> = ({ onRecordActivity }) => {
   const handleAnalyze = async () => {
     if (!inputText.trim()) return;
     setIsAnalyzing(true);
+    setIsInterrupted(false);
     setResult('');
+    abortRef.current = new AbortController();
 
     const typeLabel = ANALYSIS_TYPES.find(t => t.id === selectedType)?.label;
 
@@ -63,19 +70,31 @@ const BookBreaker: React.FC<BookBreakerProps> = ({ onRecordActivity }) => {
     ${inputText.slice(0, 10000)} ${inputText.length > 10000 ? '...(文本过长已截断)' : ''}
     `;
 
-    await generateCreativeContentStream(prompt, (chunk) => {
-      setResult(prev => prev + chunk);
-    });
+    try {
+      const { interrupted } = await generateCreativeContentStream(prompt, (chunk) => {
+        setResult(prev => prev + chunk);
+      }, undefined, { signal: abortRef.current.signal, usage: { feature: 'book_breaker' } });
+      setIsInterrupted(interrupted);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '分析失败，请稍后重试');
+      return;
+    } finally {
+      abortRef.current = null;
+      setIsAnalyzing(false);
+    }
 
-    setIsAnalyzing(false);
     onRecordActivity?.({
       type: 'ai_call',
       description: `拆书助手完成一次${typeLabel}`,
       deltaPoints: -1,
-      metadata: { words: inputText.length }
+      metadata: { words: countWords(inputText, DEFAULT_WORD_COUNT_MODE) }
     });
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -158,11 +177,10 @@ const BookBreaker: React.FC<BookBreakerProps> = ({ onRecordActivity }) => {
             )}
 
             <button
-              onClick={handleAnalyze}
-              disabled={isAnalyzing}
+              onClick={isAnalyzing ? handleStop : handleAnalyze}
               className="w-full py-3.5 bg-gradient-to-r from-pink-500 to-rose-500 hover:from-pink-600 hover:to-rose-600 text-white font-bold rounded-xl shadow-lg shadow-pink-200 dark:shadow-none transition-all flex items-center justify-center gap-2 disabled:opacity-70 disabled:cursor-not-allowed active:scale-[0.98] mt-4"
             >
-              {isAnalyzing ? '智能拆解中...' : '开始分析'}
+              {isAnalyzing ? '智能拆解中...（点击停止）' : '开始分析'}
             </button>
           </div>
         </div>
@@ -172,6 +190,7 @@ const BookBreaker: React.FC<BookBreakerProps> = ({ onRecordActivity }) => {
             <span className="text-sm font-bold text-slate-700 dark:text-slate-200 flex items-center gap-2">
               分析结果
               {result && <span className="text-xs font-normal text-slate-400 dark:text-slate-500 bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-full">AI 生成</span>}
+              {isInterrupted && <span className="text-xs font-normal text-amber-600 bg-amber-50 dark:bg-amber-900/30 px-2 py-0.5 rounded-full">已中断</span>}
             </span>
           </div>
 
@@ -8,6 +8,7 @@ interface CreativeManagementModalProps {
   type: ManagementType;
   isOpen: boolean;
   onClose: () => void;
+  novelId?: string;
   novelTitle?: string;
   novelDescription?: string;
   // 人物相关
@@ -55,6 +56,7 @@ const CreativeManagementModal: React.FC<CreativeManagementModalProps> = ({
   type,
   isOpen,
   onClose,
+  novelId,
   novelTitle,
   novelDescription,
   characters,
@@ -310,7 +312,7 @@ const CreativeManagementModal: React.FC<CreativeManagementModalProps> = ({
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setCharForm(prev => ({ ...prev, appearance: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -348,7 +350,7 @@ const CreativeManagementModal: React.FC<CreativeManagementModalProps> = ({
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setCharForm(prev => ({ ...prev, personality: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -391,7 +393,7 @@ const CreativeManagementModal: React.FC<CreativeManagementModalProps> = ({
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setCharForm(prev => ({ ...prev, description: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -434,7 +436,7 @@ const CreativeManagementModal: React.FC<CreativeManagementModalProps> = ({
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setCharForm(prev => ({ ...prev, background: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -471,7 +473,7 @@ const CreativeManagementModal: React.FC<CreativeManagementModalProps> = ({
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setWorldForm(prev => ({ ...prev, geography: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -509,7 +511,7 @@ const CreativeManagementModal: React.FC<CreativeManagementModalProps> = ({
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setWorldForm(prev => ({ ...prev, history: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -547,7 +549,7 @@ const CreativeManagementModal: React.FC<CreativeManagementModalProps> = ({
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setWorldForm(prev => ({ ...prev, culture: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -584,7 +586,7 @@ const CreativeManagementModal: React.FC<CreativeManagementModalProps> = ({
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setWorldForm(prev => ({ ...prev, magicSystem: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -624,7 +626,7 @@ const CreativeManagementModal: React.FC<CreativeManagementModalProps> = ({
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setWorldForm(prev => ({ ...prev, content: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -670,7 +672,7 @@ ${relatedChars ? `相关人物：${relatedChars}` : ''}
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setEventForm(prev => ({ ...prev, description: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -707,7 +709,7 @@ ${relatedChars ? `相关人物：${relatedChars}` : ''}
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setEventForm(prev => ({ ...prev, keyEvent: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
@@ -745,7 +747,7 @@ ${relatedChars ? `相关人物：${relatedChars}` : ''}
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setRefForm(prev => ({ ...prev, content: result }));
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
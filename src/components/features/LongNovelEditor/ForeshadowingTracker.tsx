@@ -10,6 +10,7 @@ interface ForeshadowingTrackerProps {
   onUpdateForeshadowings: (items: Foreshadowing[]) => void;
   chapters: Chapter[];
   characters: Character[];
+  novelId?: string;
   novelTitle?: string;
   novelDescription?: string;
 }
@@ -35,6 +36,7 @@ const ForeshadowingTracker: React.FC<ForeshadowingTrackerProps> = ({
   onUpdateForeshadowings,
   chapters,
   characters,
+  novelId,
   novelTitle,
   novelDescription,
 }) => {
@@ -231,7 +233,7 @@ ${chapters.slice(0, 10).map((ch, i) => `${i + 1}. ${ch.title}`).join('\n')}
       let result = '';
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
-      }, 'gemini-2.0-flash', { temperature: 0.8 });
+      }, 'gemini-2.0-flash', { temperature: 0.8, usage: { feature: 'outline', novelId } });
 
       alert('AI 分析建议：\n\n' + result);
     } catch (error) {
@@ -240,7 +242,7 @@ ${chapters.slice(0, 10).map((ch, i) => `${i + 1}. ${ch.title}`).join('\n')}
     } finally {
       setIsAiGenerating(false);
     }
-  }, [novelTitle, novelDescription, foreshadowings, chapters]);
+  }, [novelId, novelTitle, novelDescription, foreshadowings, chapters]);
 
   // AI 生成伏笔建议
   const aiSuggestForeshadowing = useCallback(async () => {
@@ -266,7 +268,7 @@ ${characters.slice(0, 5).map(c => `- ${c.name}（${c.role}）`).join('\n') || '
       let result = '';
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
 
       // 解析并添加伏笔
       const lines = result.split('\n').filter(line => line.includes('【'));
@@ -304,7 +306,7 @@ ${characters.slice(0, 5).map(c => `- ${c.name}（${c.role}）`).join('\n') || '
     } finally {
       setIsAiGenerating(false);
     }
-  }, [novelTitle, novelDescription, characters, foreshadowings, onUpdateForeshadowings]);
+  }, [novelId, novelTitle, novelDescription, characters, foreshadowings, onUpdateForeshadowings]);
 
   // 获取章节名称
   const getChapterName = useCallback((chapterId?: string) => {
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import { OutlineNode, Chapter, Volume } from '../../../types';
 import { generateCreativeContentStream } from '../../../services/api/gemini';
+import { OutlineChapterLinkService } from '../../../services/outline/OutlineChapterLinkService';
 import { createOutlineId } from '../../../utils/id';
 
 interface OutlineManagerProps {
@@ -10,6 +11,7 @@ interface OutlineManagerProps {
   onUpdateOutlineNodes: (nodes: OutlineNode[]) => void;
   chapters: Chapter[];
   volumes: Volume[];
+  novelId?: string;
   novelTitle?: string;
   novelDescription?: string;
 }
@@ -36,6 +38,7 @@ const OutlineManager: React.FC<OutlineManagerProps> = ({
   onUpdateOutlineNodes,
   chapters,
   volumes,
+  novelId,
   novelTitle,
   novelDescription,
 }) => {
@@ -193,6 +196,21 @@ const OutlineManager: React.FC<OutlineManagerProps> = ({
     }
   }, [outlineNodes, selectedNodeId, onUpdateOutlineNodes, resetForm]);
 
+  // 用章节摘要回写关联节点
+  const handleSyncSummaries = useCallback(() => {
+    const updated = OutlineChapterLinkService.syncChapterSummaries(outlineNodes, chapters);
+    if (updated === outlineNodes) {
+      alert('没有可回写的节点：只会更新已关联章节、内容为空或未被手动修改过的章节节点');
+      return;
+    }
+    onUpdateOutlineNodes(updated);
+
+    const selected = updated.find(n => n.id === selectedNodeId);
+    if (selected) {
+      setForm(prev => ({ ...prev, content: selected.content }));
+    }
+  }, [outlineNodes, chapters, selectedNodeId, onUpdateOutlineNodes]);
+
   // 移动节点
   const handleMove = useCallback((nodeId: string, direction: 'up' | 'down') => {
     const node = outlineNodes.find(n => n.id === nodeId);
@@ -250,7 +268,7 @@ ${existingOutline ? `已有大纲：\n${existingOutline}\n` : ''}
       let result = '';
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId } });
 
       // 解析生成的大纲
       const lines = result.split('\n').filter(line => line.trim());
@@ -327,7 +345,7 @@ ${existingOutline ? `已有大纲：\n${existingOutline}\n` : ''}
     } finally {
       setIsAiGenerating(false);
     }
-  }, [novelTitle, novelDescription, outlineNodes, onUpdateOutlineNodes]);
+  }, [novelId, novelTitle, novelDescription, outlineNodes, onUpdateOutlineNodes]);
 
   // 渲染节点树
   const renderNode = (node: OutlineNode, level: number = 0): React.ReactNode => {
@@ -475,12 +493,21 @@ ${existingOutline ? `已有大纲：\n${existingOutline}\n` : ''}
           <div className="w-[400px] border-r border-slate-100 flex flex-col bg-slate-50/50">
             <div className="p-4 border-b border-slate-100 flex items-center justify-between">
               <span className="font-semibold text-slate-700">大纲结构</span>
-              <button
-                onClick={() => handleStartAdd()}
-                className="px-3 py-1.5 bg-slate-900 text-white text-xs rounded-lg hover:bg-slate-800 transition-colors"
-              >
-                + 添加根节点
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleSyncSummaries}
+                  className="px-3 py-1.5 border border-slate-200 text-slate-600 text-xs rounded-lg hover:bg-white transition-colors"
+                  title="用已关联章节的 AI 摘要填写章节节点内容"
+                >
+                  摘要回写
+                </button>
+                <button
+                  onClick={() => handleStartAdd()}
+                  className="px-3 py-1.5 bg-slate-900 text-white text-xs rounded-lg hover:bg-slate-800 transition-colors"
+                >
+                  + 添加根节点
+                </button>
+              </div>
             </div>
             <div className="flex-1 overflow-y-auto p-3 space-y-1">
               {rootNodes.length === 0 ? (
@@ -92,6 +92,8 @@ const AIAssistantChat: React.FC = () => {
     setShowAiSettings,
     setSelectedModel,
     setIsStreaming,
+    beginAiGeneration,
+    stopAiGeneration,
     setTemperature,
     setMaxTokens,
     setWebSearchEnabled,
@@ -372,6 +374,7 @@ const AIAssistantChat: React.FC = () => {
     const text = chatInput.trim();
     setChatInput('');
     setIsStreaming(true);
+    const signal = beginAiGeneration();
 
     let sessionId = currentSessionId;
     let updatedSessions = [...aiSessions];
@@ -427,7 +430,8 @@ const AIAssistantChat: React.FC = () => {
     // RAG 记忆检索
     if (ragEnabled && novel?.id) {
       try {
-        const ragResults = ragService.searchContext(text, novel.id, 5);
+        await ragService.indexNovel(novel.id, novel.chapters, { signal });
+        const ragResults = await ragService.searchContext(text, novel.id, 5);
         if (ragResults.length > 0) {
           ragContext = ragService.formatContextForPrompt(ragResults);
           console.log('[AI助手] RAG 检索到', ragResults.length, '条相关记忆');
@@ -462,12 +466,14 @@ const AIAssistantChat: React.FC = () => {
     const options: GenerateOptions = {
       temperature,
       maxTokens: maxTokens,
-      systemInstruction: systemPrompt
+      systemInstruction: systemPrompt,
+      signal,
+      usage: { feature: 'chat', novelId: novel?.id },
     };
 
     try {
       let content = '';
-      await generateCreativeContentStream(finalPrompt, (chunk) => {
+      const { interrupted } = await generateCreativeContentStream(finalPrompt, (chunk) => {
         content += chunk;
         setAiSessions(prev => prev.map(s => {
           if (s.id === sessionId) {
@@ -481,14 +487,29 @@ const AIAssistantChat: React.FC = () => {
           return s;
         }));
       }, selectedModel, options);
+
+      if (interrupted) {
+        setAiSessions(prev => prev.map(s => {
+          if (s.id === sessionId) {
+            return {
+              ...s,
+              messages: s.messages.map((m, idx) =>
+                idx === s.messages.length - 1 ? { ...m, interrupted: true } : m
+              ),
+            };
+          }
+          return s;
+        }));
+      }
     } catch (error) {
       console.error('AI 生成失败:', error);
+      const message = error instanceof Error ? error.message : '生成失败，请稍后重试。';
       setAiSessions(prev => prev.map(s => {
         if (s.id === sessionId) {
           return {
             ...s,
             messages: s.messages.map((m, idx) =>
-              idx === s.messages.length - 1 ? { ...m, content: '抱歉，生成失败，请稍后重试。' } : m
+              idx === s.messages.length - 1 && !m.content ? { ...m, content: `抱歉，${message}` } : m
             ),
           };
         }
@@ -497,7 +518,7 @@ const AIAssistantChat: React.FC = () => {
     } finally {
       setIsStreaming(false);
     }
-  }, [chatInput, isStreaming, currentSessionId, aiSessions, selectedModel, temperature, maxTokens, webSearchEnabled, ragEnabled, novel, buildSystemPrompt, setChatInput, setIsStreaming, setCurrentSessionId, setAiSessions, setIsSearching]);
+  }, [chatInput, isStreaming, currentSessionId, aiSessions, selectedModel, temperature, maxTokens, webSearchEnabled, ragEnabled, novel, buildSystemPrompt, setChatInput, setIsStreaming, beginAiGeneration, setCurrentSessionId, setAiSessions, setIsSearching]);
 
   return (
     <div className="flex-1 flex flex-col relative overflow-hidden">
@@ -600,6 +621,9 @@ const AIAssistantChat: React.FC = () => {
             >
               <div className={`text-[10px] ${msg.role === 'ai' ? themeClasses.textMuted : 'text-[#97BC62]'} mb-1`}>{msg.createdAt}</div>
               <div className="whitespace-pre-wrap">{msg.content}</div>
+              {msg.interrupted && (
+                <div className="mt-1 text-[10px] text-amber-600">（已中断）</div>
+              )}
               {/* AI 消息显示操作按钮 */}
               {msg.role === 'ai' && msg.content && msg.id !== 'init' && (
                 <div className={`flex items-center gap-2 mt-3 pt-2 border-t ${themeClasses.border}`}>
@@ -926,28 +950,29 @@ const AIAssistantChat: React.FC = () => {
         />
         <div className={`flex items-center justify-between text-xs ${themeClasses.textMuted}`}>
           <span>{chatInput.length} / 8000 字</span>
-          <button
-            className="px-4 py-1.5 rounded-xl bg-[#2C5F2D] text-white text-xs font-medium hover:bg-[#1E4620] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
-            onClick={sendMessage}
-            disabled={isStreaming || !chatInput.trim()}
-          >
-            {isStreaming ? (
-              <>
-                <svg className="w-3.5 h-3.5 animate-spin" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                </svg>
-                生成中
-              </>
-            ) : (
-              <>
-                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                </svg>
-                发送
-              </>
-            )}
-          </button>
+          {isStreaming ? (
+            <button
+              className="px-4 py-1.5 rounded-xl bg-rose-600 text-white text-xs font-medium hover:bg-rose-700 transition-colors flex items-center gap-1.5"
+              onClick={stopAiGeneration}
+              title="停止生成，已生成的内容会保留"
+            >
+              <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+                <rect x="6" y="6" width="12" height="12" rx="2" />
+              </svg>
+              停止
+            </button>
+          ) : (
+            <button
+              className="px-4 py-1.5 rounded-xl bg-[#2C5F2D] text-white text-xs font-medium hover:bg-[#1E4620] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+              onClick={sendMessage}
+              disabled={!chatInput.trim()}
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+              发送
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -28,6 +28,8 @@ interface ChapterItemProps {
   onDuplicate: () => void;
   onDelete: () => void;
   onRename: (title: string) => void;
+  /** 不能删除时的原因 */
+  deleteDisabledReason?: string | null;
 }
 
 const ChapterItem = memo<ChapterItemProps>(({
@@ -52,6 +54,7 @@ const ChapterItem = memo<ChapterItemProps>(({
   onDuplicate,
   onDelete,
   onRename,
+  deleteDisabledReason,
 }) => {
   const handleRenameComplete = useCallback(() => {
     if (editingChapterTitle.trim()) {
@@ -175,9 +178,10 @@ const ChapterItem = memo<ChapterItemProps>(({
                 </svg>
               </button>
               <button
-                className="p-1 hover:bg-rose-100 text-rose-500 rounded"
+                className="p-1 hover:bg-rose-100 text-rose-500 rounded disabled:opacity-40 disabled:hover:bg-transparent"
                 onClick={(e) => { e.stopPropagation(); onDelete(); }}
-                title="删除"
+                disabled={!!deleteDisabledReason}
+                title={deleteDisabledReason ?? '删除'}
               >
                 <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -214,6 +218,7 @@ const ChapterSidebar: React.FC<ChapterSidebarProps> = ({
     moveChapterToVolume,
     duplicateChapter,
     renameChapter,
+    permissions,
   } = useEditorContext();
 
   const {
@@ -280,6 +285,7 @@ const ChapterSidebar: React.FC<ChapterSidebarProps> = ({
       onDuplicate={() => duplicateChapter(chapter.id)}
       onDelete={() => deleteChapter(chapter.id)}
       onRename={(title) => renameChapter(chapter.id, title)}
+      deleteDisabledReason={permissions.explain('deleteChapter')}
     />
   ), [
     selectedChapterId,
@@ -300,6 +306,7 @@ const ChapterSidebar: React.FC<ChapterSidebarProps> = ({
     duplicateChapter,
     deleteChapter,
     renameChapter,
+    permissions,
   ]);
 
   return (
@@ -424,12 +431,13 @@ const ChapterSidebar: React.FC<ChapterSidebarProps> = ({
                         </svg>
                       </button>
                       <button
-                        className="p-1 hover:bg-rose-100 text-rose-500 rounded"
+                        className="p-1 hover:bg-rose-100 text-rose-500 rounded disabled:opacity-40 disabled:hover:bg-transparent"
                         onClick={(e) => {
                           e.stopPropagation();
                           deleteVolume(volume.id);
                         }}
-                        title="删除卷"
+                        disabled={!permissions.can('deleteChapter')}
+                        title={permissions.explain('deleteChapter') ?? '删除卷'}
                       >
                         <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -0,0 +1,187 @@
+import React, { memo, useMemo, useState } from 'react';
+import type { CodexProposal, Novel } from '../../../../types';
+import { CodexExtractionService, type CodexScanProgress } from '../../../../services/codex/CodexExtractionService';
+import type { ThemeClasses } from '../context/EditorContext';
+
+type ProposalFilter = 'all' | 'character' | 'location' | 'item' | 'event';
+
+interface CodexReviewPanelProps {
+  /** 设定取编辑器中的最新值，批准前的对比以此为准 */
+  novel: Novel;
+  themeClasses: ThemeClasses;
+  /** 正在扫描时的进度 */
+  progress: CodexScanProgress | null;
+  lastError: string | null;
+  /** 扫描指定章节（不传则为未扫描或已修改的章节） */
+  onScan: (chapterIds?: string[]) => void;
+  onStop: () => void;
+  onApprove: (proposalId: string) => void;
+  onReject: (proposalId: string) => void;
+  onClose: () => void;
+}
+
+const FILTERS: Array<{ id: ProposalFilter; label: string; kinds: CodexProposal['change']['kind'][] }> = [
+  { id: 'all', label: '全部', kinds: [] },
+  { id: 'character', label: '人物', kinds: ['character', 'traits', 'relation'] },
+  { id: 'location', label: '地点', kinds: ['location'] },
+  { id: 'item', label: '道具', kinds: ['item', 'owner'] },
+  { id: 'event', label: '事件', kinds: ['event'] },
+];
+
+const buttonClass = (themeClasses: ThemeClasses) =>
+  `px-2.5 py-1 rounded-lg text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62] disabled:opacity-40`;
+
+interface ProposalCardProps {
+  novel: Novel;
+  proposal: CodexProposal;
+  themeClasses: ThemeClasses;
+  onApprove: () => void;
+  onReject: () => void;
+}
+
+/**
+ * 单条建议：修改前后对比、出现章节和原文依据
+ */
+const ProposalCard: React.FC<ProposalCardProps> = ({ novel, proposal, themeClasses, onApprove, onReject }) => {
+  const { title, fields } = CodexExtractionService.describe(novel, proposal);
+  const blocked = CodexExtractionService.explainBlocked(novel, proposal);
+  const chapterIndex = (novel.chapters ?? []).findIndex(c => c.id === proposal.chapterId);
+
+  return (
+    <div className={`px-3 py-2 rounded-xl border text-sm ${themeClasses.border}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className={`font-medium ${themeClasses.text}`}>
+          {title}
+          <span className={`ml-1 text-xs ${themeClasses.textMuted}`}>
+            [{proposal.source === 'ai' ? 'AI' : '规则'}] {chapterIndex >= 0 ? `首次出现于第${chapterIndex + 1}章` : '章节已删除'}
+          </span>
+        </span>
+        <div className="flex gap-1.5 shrink-0">
+          <button className={buttonClass(themeClasses)} onClick={onApprove} disabled={Boolean(blocked)} title={blocked ?? undefined}>
+            批准
+          </button>
+          <button className={buttonClass(themeClasses)} onClick={onReject}>
+            忽略
+          </button>
+        </div>
+      </div>
+      {fields.length > 0 && (
+        <dl className="mt-1 space-y-0.5 text-xs">
+          {fields.map(field => (
+            <div key={field.label} className="flex gap-2">
+              <dt className={`shrink-0 ${themeClasses.textMuted}`}>{field.label}</dt>
+              <dd className={themeClasses.text}>
+                {field.before !== undefined && (
+                  <>
+                    <span className="line-through text-red-500">{field.before}</span>
+                    <span className={`mx-1 ${themeClasses.textMuted}`}>→</span>
+                  </>
+                )}
+                <span className={field.before !== undefined ? 'text-green-600' : undefined}>{field.after}</span>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {proposal.evidence && <p className={`mt-1 text-xs italic ${themeClasses.textMuted}`}>「{proposal.evidence}」</p>}
+      {blocked && <p className="mt-1 text-xs text-amber-600">{blocked}</p>}
+    </div>
+  );
+};
+
+/**
+ * 设定提取审阅
+ *
+ * 扫描章节后得到的新人物、新特征、新地点、道具易主、关系变化和事件逐条列出，
+ * 作者批准后才写入设定；忽略的建议之后不会再次提出。
+ */
+const CodexReviewPanel: React.FC<CodexReviewPanelProps> = ({
+  novel,
+  themeClasses,
+  progress,
+  lastError,
+  onScan,
+  onStop,
+  onApprove,
+  onReject,
+  onClose,
+}) => {
+  const [filter, setFilter] = useState<ProposalFilter>('all');
+
+  const proposals = useMemo(() => {
+    const order = new Map((novel.chapters ?? []).map((c, i) => [c.id, i]));
+    return [...(novel.codexProposals ?? [])].sort(
+      (a, b) => (order.get(a.chapterId) ?? Infinity) - (order.get(b.chapterId) ?? Infinity)
+    );
+  }, [novel.codexProposals, novel.chapters]);
+  const kinds = FILTERS.find(f => f.id === filter)!.kinds;
+  const visible = kinds.length > 0 ? proposals.filter(p => kinds.includes(p.change.kind)) : proposals;
+  // 扫描状态保存在本地，扫描进度变化时重新读取
+  const pendingChapters = useMemo(() => CodexExtractionService.getChaptersToScan(novel), [novel, progress]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className={`w-[560px] max-h-[85vh] flex flex-col rounded-2xl shadow-xl border ${themeClasses.card} ${themeClasses.border}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={`px-4 py-3 border-b ${themeClasses.border} flex items-center justify-between`}>
+          <div>
+            <h3 className={`font-semibold ${themeClasses.text}`}>设定提取</h3>
+            <p className={`text-xs ${themeClasses.textMuted}`}>
+              {progress
+                ? `正在扫描「${progress.chapter.title}」（${progress.current}/${progress.total}）`
+                : `${proposals.length} 条待审建议，${pendingChapters.length} 章未扫描或已修改`}
+            </p>
+          </div>
+          <button onClick={onClose} className={`p-1.5 text-lg leading-none ${themeClasses.textMuted}`}>×</button>
+        </div>
+        <div className={`px-4 py-2 border-b ${themeClasses.border} flex items-center gap-2 flex-wrap`}>
+          {FILTERS.map(f => (
+            <button
+              key={f.id}
+              className={`${buttonClass(themeClasses)} ${filter === f.id ? 'border-[#97BC62] text-[#97BC62]' : ''}`}
+              onClick={() => setFilter(f.id)}
+            >
+              {f.label}
+            </button>
+          ))}
+          {progress ? (
+            <button className={`${buttonClass(themeClasses)} ml-auto`} onClick={onStop}>
+              停止
+            </button>
+          ) : (
+            <button
+              className={`${buttonClass(themeClasses)} ml-auto`}
+              onClick={() => onScan()}
+              disabled={pendingChapters.length === 0}
+            >
+              扫描章节（{pendingChapters.length}）
+            </button>
+          )}
+        </div>
+        {lastError && (
+          <p className="px-4 py-2 text-xs text-red-500">设定提取失败：{lastError}</p>
+        )}
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {visible.length > 0
+            ? visible.map(proposal => (
+              <ProposalCard
+                key={proposal.id}
+                novel={novel}
+                proposal={proposal}
+                themeClasses={themeClasses}
+                onApprove={() => onApprove(proposal.id)}
+                onReject={() => onReject(proposal.id)}
+              />
+            ))
+            : <p className={`text-sm text-center py-6 ${themeClasses.textMuted}`}>
+              {proposals.length > 0 ? '该分类下没有待审建议' : '没有待审建议，扫描章节后在这里逐条审阅'}
+            </p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default memo(CodexReviewPanel);
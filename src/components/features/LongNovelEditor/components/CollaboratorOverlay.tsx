@@ -0,0 +1,116 @@
+import React, { memo, useMemo } from 'react';
+import { useCollaboratorCursors, useCollaboratorSelections } from '../../../../hooks/useCollaboration';
+import { toTextOffset } from '../../../../services/collaboration/CollaborationService';
+
+interface CollaboratorOverlayProps {
+  chapterId: string;
+  content: string;
+  /** 与 textarea 相同的字体样式，保证换行位置一致 */
+  textStyle: React.CSSProperties;
+  /** textarea 的滚动位置 */
+  scrollTop: number;
+  /** textarea 的滚动条宽度，镜像层需要让出同样的宽度 */
+  scrollbarWidth: number;
+}
+
+interface Segment {
+  text: string;
+  /** 覆盖该段文字的选区颜色 */
+  color?: string;
+  /** 该段之前的协作者光标 */
+  carets: { userId: string; username: string; color: string }[];
+}
+
+/**
+ * 协作者光标与选区
+ *
+ * 叠在 textarea 上的透明镜像层：文字与 textarea 排版一致但不可见，
+ * 只显示其他作者的选区底色和带名字的光标。
+ */
+const CollaboratorOverlay: React.FC<CollaboratorOverlayProps> = ({
+  chapterId,
+  content,
+  textStyle,
+  scrollTop,
+  scrollbarWidth,
+}) => {
+  const cursors = useCollaboratorCursors(chapterId);
+  const selections = useCollaboratorSelections(chapterId);
+
+  const segments = useMemo<Segment[]>(() => {
+    const ranges = selections
+      .map(({ selection, color }) => {
+        const a = toTextOffset(content, selection.start);
+        const b = toTextOffset(content, selection.end);
+        return { start: Math.min(a, b), end: Math.max(a, b), color };
+      })
+      .filter(range => range.end > range.start);
+    const carets = cursors.map(({ userId, username, color, cursor }) => ({
+      userId,
+      username,
+      color,
+      offset: toTextOffset(content, cursor),
+    }));
+
+    const boundaries = [...new Set([
+      0,
+      content.length,
+      ...ranges.flatMap(range => [range.start, range.end]),
+      ...carets.map(caret => caret.offset),
+    ])].sort((a, b) => a - b);
+
+    const result: Segment[] = [];
+    boundaries.forEach((start, i) => {
+      const end = boundaries[i + 1] ?? start;
+      result.push({
+        text: content.slice(start, end),
+        color: ranges.find(range => range.start <= start && range.end >= end && end > start)?.color,
+        carets: carets.filter(caret => caret.offset === start),
+      });
+    });
+    return result;
+  }, [content, cursors, selections]);
+
+  if (cursors.length === 0 && selections.length === 0) return null;
+
+  return (
+    <div
+      className="absolute inset-0 overflow-hidden pointer-events-none"
+      style={{ right: scrollbarWidth }}
+      aria-hidden
+    >
+      <div
+        className="p-6 text-base leading-relaxed whitespace-pre-wrap break-words text-transparent"
+        style={{ ...textStyle, transform: `translateY(${-scrollTop}px)` }}
+      >
+        {segments.map((segment, i) => (
+          <React.Fragment key={i}>
+            {segment.carets.map(caret => (
+              <span
+                key={caret.userId}
+                className="relative inline-block w-0 align-baseline"
+                style={{ borderLeft: `2px solid ${caret.color}`, height: '1.2em', marginLeft: -1 }}
+              >
+                <span
+                  className="absolute left-0 -top-4 px-1 rounded text-[10px] leading-4 text-white whitespace-nowrap"
+                  style={{ backgroundColor: caret.color }}
+                >
+                  {caret.username}
+                </span>
+              </span>
+            ))}
+            {segment.color ? (
+              <span style={{ backgroundColor: `${segment.color}40` }}>{segment.text}</span>
+            ) : (
+              segment.text
+            )}
+          </React.Fragment>
+        ))}
+        {/* 末尾换行需要占位，否则镜像层比 textarea 少一行 */}
+        {'\u200b'}
+      </div>
+    </div>
+  );
+};
+
+export default memo(CollaboratorOverlay);
@@ -0,0 +1,112 @@
+import React, { memo, useLayoutEffect, useMemo, useRef } from 'react';
+
+export interface CommentRange {
+  id: string;
+  start: number;
+  end: number;
+}
+
+interface CommentHighlightsProps {
+  content: string;
+  ranges: CommentRange[];
+  /** 当前选中的批注，底色加深 */
+  activeId?: string | null;
+  /** 与 textarea 相同的字体样式，保证换行位置一致 */
+  textStyle: React.CSSProperties;
+  /** textarea 的滚动位置 */
+  scrollTop: number;
+  /** textarea 的滚动条宽度，镜像层需要让出同样的宽度 */
+  scrollbarWidth: number;
+  /** 各批注起点相对正文顶部的高度，供批注栏对齐 */
+  onMeasure: (tops: Record<string, number>) => void;
+}
+
+interface Segment {
+  text: string;
+  /** 覆盖该段文字的批注 */
+  ids: string[];
+  /** 从该段开始的批注 */
+  starts: string[];
+}
+
+/**
+ * 批注底色
+ *
+ * 叠在 textarea 上的透明镜像层：文字与 textarea 排版一致但不可见，
+ * 只显示被批注文字的底色，并测量每条批注在正文中的高度。
+ */
+const CommentHighlights: React.FC<CommentHighlightsProps> = ({
+  content,
+  ranges,
+  activeId,
+  textStyle,
+  scrollTop,
+  scrollbarWidth,
+  onMeasure,
+}) => {
+  const mirrorRef = useRef<HTMLDivElement>(null);
+
+  const segments = useMemo<Segment[]>(() => {
+    const boundaries = [...new Set([
+      0,
+      content.length,
+      ...ranges.flatMap(range => [range.start, range.end]),
+    ])].sort((a, b) => a - b);
+
+    return boundaries.map((start, i) => {
+      const end = boundaries[i + 1] ?? start;
+      return {
+        text: content.slice(start, end),
+        ids: ranges.filter(range => range.start <= start && range.end >= end && end > start).map(range => range.id),
+        starts: ranges.filter(range => range.start === start).map(range => range.id),
+      };
+    });
+  }, [content, ranges]);
+
+  useLayoutEffect(() => {
+    const mirror = mirrorRef.current;
+    if (!mirror) return;
+    const tops: Record<string, number> = {};
+    mirror.querySelectorAll<HTMLElement>('[data-comment-start]').forEach(marker => {
+      tops[marker.dataset.commentStart!] = marker.offsetTop;
+    });
+    onMeasure(tops);
+  }, [segments, textStyle, scrollbarWidth, onMeasure]);
+
+  return (
+    <div
+      className="absolute inset-0 overflow-hidden pointer-events-none"
+      style={{ right: scrollbarWidth }}
+      aria-hidden
+    >
+      <div
+        ref={mirrorRef}
+        className="relative p-6 text-base leading-relaxed whitespace-pre-wrap break-words text-transparent"
+        style={{ ...textStyle, transform: `translateY(${-scrollTop}px)` }}
+      >
+        {segments.map((segment, i) => (
+          <React.Fragment key={i}>
+            {segment.starts.map(id => (
+              <span key={id} data-comment-start={id} className="inline-block w-0" />
+            ))}
+            {segment.ids.length > 0 ? (
+              <span
+                className={`rounded-sm border-b-2 border-amber-400 ${
+                  activeId && segment.ids.includes(activeId) ? 'bg-amber-300/60' : 'bg-amber-200/40'
+                }`}
+              >
+                {segment.text}
+              </span>
+            ) : (
+              segment.text
+            )}
+          </React.Fragment>
+        ))}
+        {/* 末尾换行需要占位，否则镜像层比 textarea 少一行 */}
+        {'\u200b'}
+      </div>
+    </div>
+  );
+};
+
+export default memo(CommentHighlights);
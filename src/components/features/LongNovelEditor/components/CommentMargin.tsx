@@ -0,0 +1,379 @@
+import React, { memo, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { ChapterComment } from '../../../../types';
+import type {
+  CommentAuthor,
+  CommentFilter,
+  CommentThread,
+  MentionCandidate,
+  ResolvedAnchor,
+} from '../../../../services/comment/CommentService';
+import type { ThemeClasses } from '../context/EditorContext';
+
+export interface LocatedThread extends CommentThread {
+  position: ResolvedAnchor;
+}
+
+/** 新批注草稿在批注栏中的 id */
+export const DRAFT_ID = '__draft__';
+
+interface CommentMarginProps {
+  threads: LocatedThread[];
+  /** 正在撰写的新批注 */
+  draft: { quote: string } | null;
+  /** 各批注起点相对正文顶部的高度 */
+  tops: Record<string, number>;
+  /** textarea 的滚动位置 */
+  scrollTop: number;
+  activeId: string | null;
+  onActivate: (id: string | null) => void;
+  filter: CommentFilter;
+  onFilterChange: (filter: CommentFilter) => void;
+  authors: CommentAuthor[];
+  currentUser: CommentAuthor;
+  candidates: MentionCandidate[];
+  /** 能否发表批注和回复 */
+  canComment: boolean;
+  /** 能否解决、删除他人的批注 */
+  canModerate: boolean;
+  themeClasses: ThemeClasses;
+  onSubmitDraft: (content: string) => void;
+  onCancelDraft: () => void;
+  onReply: (root: ChapterComment, content: string) => void;
+  onResolve: (root: ChapterComment, resolved: boolean) => void;
+  onDelete: (comment: ChapterComment) => void;
+}
+
+/** 批注卡片之间的最小间距 */
+const CARD_GAP = 8;
+
+/** 未测量到高度时的估计值 */
+const ESTIMATED_CARD_HEIGHT = 96;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 高亮批注中的 @
+ */
+const MentionText: React.FC<{ text: string; candidates: MentionCandidate[] }> = ({ text, candidates }) => {
+  const parts = useMemo(() => {
+    const names = candidates.map(candidate => candidate.username).filter(Boolean)
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp);
+    if (names.length === 0) return [text];
+    return text.split(new RegExp(`([@＠](?:${names.join('|')}))`, 'g'));
+  }, [text, candidates]);
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1
+          ? <span key={i} className="text-[#2C5F2D] dark:text-[#97BC62] font-medium">{part}</span>
+          : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+/**
+ * 批注输入框，输入 @ 时提示可以提到的人
+ */
+const CommentComposer: React.FC<{
+  placeholder: string;
+  submitLabel: string;
+  candidates: MentionCandidate[];
+  themeClasses: ThemeClasses;
+  autoFocus?: boolean;
+  onSubmit: (content: string) => void;
+  onCancel?: () => void;
+}> = ({ placeholder, submitLabel, candidates, themeClasses, autoFocus, onSubmit, onCancel }) => {
+  const [text, setText] = useState('');
+  const query = /[@＠]([^\s@＠]*)$/.exec(text);
+  const suggestions = query
+    ? candidates.filter(candidate => candidate.username.startsWith(query[1])).slice(0, 5)
+    : [];
+
+  const submit = () => {
+    if (!text.trim()) return;
+    onSubmit(text);
+    setText('');
+  };
+
+  return (
+    <div className="space-y-1.5" onClick={e => e.stopPropagation()}>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submit();
+          if (e.key === 'Escape') onCancel?.();
+        }}
+        autoFocus={autoFocus}
+        rows={2}
+        placeholder={placeholder}
+        className={`w-full px-2 py-1.5 text-xs rounded-lg border resize-none focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 ${themeClasses.input} ${themeClasses.border}`}
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map(candidate => (
+            <button
+              key={candidate.userId}
+              onClick={() => setText(text.slice(0, query!.index + 1) + candidate.username + ' ')}
+              className="px-1.5 py-0.5 rounded text-[11px] bg-[#2C5F2D]/10 text-[#2C5F2D] dark:text-[#97BC62] hover:bg-[#2C5F2D]/20"
+            >
+              @{candidate.username}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-1.5">
+        {onCancel && (
+          <button onClick={onCancel} className={`px-2 py-1 text-[11px] rounded ${themeClasses.textMuted} hover:underline`}>
+            取消
+          </button>
+        )}
+        <button
+          onClick={submit}
+          disabled={!text.trim()}
+          className="px-2 py-1 text-[11px] rounded bg-[#2C5F2D] text-white hover:bg-[#1E4620] disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 批注栏
+ *
+ * 位于正文右侧，每条批注与被批注的文字对齐；相互重叠时依次下移。
+ * 原文已被删除的批注集中列在顶部。
+ */
+const CommentMargin: React.FC<CommentMarginProps> = ({
+  threads,
+  draft,
+  tops,
+  scrollTop,
+  activeId,
+  onActivate,
+  filter,
+  onFilterChange,
+  authors,
+  currentUser,
+  candidates,
+  canComment,
+  canModerate,
+  themeClasses,
+  onSubmitDraft,
+  onCancelDraft,
+  onReply,
+  onResolve,
+  onDelete,
+}) => {
+  const cardRefs = useRef(new Map<string, HTMLDivElement>());
+  const [heights, setHeights] = useState<Record<string, number>>({});
+  const [showDetached, setShowDetached] = useState(false);
+
+  const anchored = useMemo(() => threads.filter(thread => !thread.position.detached), [threads]);
+  const detached = useMemo(() => threads.filter(thread => thread.position.detached), [threads]);
+
+  // 卡片按被批注文字的位置排列，重叠时下移；选中的卡片尽量与原文对齐
+  const layout = useMemo(() => {
+    const ids = [...anchored.map(thread => thread.root.id), ...(draft ? [DRAFT_ID] : [])]
+      .filter(id => tops[id] !== undefined)
+      .sort((a, b) => tops[a] - tops[b]);
+    const positions: Record<string, number> = {};
+    let bottom = -Infinity;
+    ids.forEach(id => {
+      const top = Math.max(tops[id], bottom + CARD_GAP);
+      positions[id] = top;
+      bottom = top + (heights[id] ?? ESTIMATED_CARD_HEIGHT);
+    });
+    const focus = draft ? DRAFT_ID : activeId;
+    if (focus && positions[focus] !== undefined) {
+      const offset = positions[focus] - tops[focus];
+      ids.forEach(id => { positions[id] -= offset; });
+    }
+    return positions;
+  }, [anchored, draft, tops, heights, activeId]);
+
+  useLayoutEffect(() => {
+    const next: Record<string, number> = {};
+    cardRefs.current.forEach((el, id) => { next[id] = el.offsetHeight; });
+    setHeights(prev => {
+      const same = Object.keys(next).length === Object.keys(prev).length
+        && Object.keys(next).every(id => prev[id] === next[id]);
+      return same ? prev : next;
+    });
+  });
+
+  const cardRef = (id: string) => (el: HTMLDivElement | null) => {
+    if (el) cardRefs.current.set(id, el);
+    else cardRefs.current.delete(id);
+  };
+
+  const canManage = (comment: ChapterComment) => canModerate || comment.authorId === currentUser.id;
+
+  const renderComment = (comment: ChapterComment) => (
+    <div key={comment.id} className="group space-y-0.5">
+      <div className="flex items-center gap-1.5 text-[11px]">
+        <span className={`font-medium ${themeClasses.text}`}>{comment.authorName}</span>
+        <span className={themeClasses.textMuted}>{formatTime(comment.createdAt)}</span>
+        {canManage(comment) && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onDelete(comment); }}
+            className="ml-auto opacity-0 group-hover:opacity-100 text-rose-500 hover:underline"
+          >
+            删除
+          </button>
+        )}
+      </div>
+      <p className={`text-xs whitespace-pre-wrap break-words ${themeClasses.text}`}>
+        <MentionText text={comment.content} candidates={candidates} />
+      </p>
+    </div>
+  );
+
+  const renderThread = (thread: LocatedThread) => {
+    const { root, replies, position } = thread;
+    const active = activeId === root.id;
+    return (
+      <div
+        onClick={() => onActivate(active ? null : root.id)}
+        className={`rounded-xl border p-2.5 space-y-2 cursor-pointer transition-shadow ${themeClasses.card} ${
+          active ? 'border-amber-400 shadow-md' : themeClasses.border
+        } ${root.resolved ? 'opacity-70' : ''}`}
+      >
+        <p className={`text-[11px] truncate border-l-2 border-amber-400 pl-1.5 ${themeClasses.textMuted}`}>
+          {position.detached ? `原文已删除：${root.anchor?.quote}` : position.quote}
+        </p>
+        {renderComment(root)}
+        {replies.length > 0 && (
+          <div className={`space-y-1.5 pl-2 border-l ${themeClasses.border}`}>
+            {(active ? replies : replies.slice(-1)).map(renderComment)}
+            {!active && replies.length > 1 && (
+              <p className={`text-[11px] ${themeClasses.textMuted}`}>共 {replies.length} 条回复</p>
+            )}
+          </div>
+        )}
+        {active && (
+          <div className="space-y-1.5">
+            {canComment && !root.resolved && (
+              <CommentComposer
+                placeholder="回复，输入 @ 提到协作者"
+                submitLabel="回复"
+                candidates={candidates}
+                themeClasses={themeClasses}
+                onSubmit={(content) => onReply(root, content)}
+              />
+            )}
+            {canManage(root) && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onResolve(root, !root.resolved); }}
+                className="text-[11px] text-[#2C5F2D] dark:text-[#97BC62] hover:underline"
+              >
+                {root.resolved ? '重新打开' : '标记为已解决'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const selectClass = `px-1.5 py-1 rounded-lg border text-[11px] ${themeClasses.input} ${themeClasses.border}`;
+
+  return (
+    <aside className={`w-72 flex-shrink-0 border-l flex flex-col ${themeClasses.border}`}>
+      <div className={`px-3 py-2 border-b space-y-1.5 ${themeClasses.border}`}>
+        <div className="flex items-center gap-1.5">
+          <select
+            value={filter.status ?? 'open'}
+            onChange={(e) => onFilterChange({ ...filter, status: e.target.value as CommentFilter['status'] })}
+            className={selectClass}
+          >
+            <option value="open">未解决</option>
+            <option value="resolved">已解决</option>
+            <option value="all">全部</option>
+          </select>
+          <select
+            value={filter.authorId ?? ''}
+            onChange={(e) => onFilterChange({ ...filter, authorId: e.target.value || undefined })}
+            className={`flex-1 min-w-0 ${selectClass}`}
+          >
+            <option value="">所有作者</option>
+            {authors.map(author => (
+              <option key={author.id} value={author.id}>{author.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onFilterChange({ ...filter, mentionedUserId: filter.mentionedUserId ? undefined : currentUser.id })}
+            className={`px-1.5 py-1 rounded-lg border text-[11px] ${
+              filter.mentionedUserId ? 'border-[#2C5F2D] text-[#2C5F2D] dark:text-[#97BC62]' : `${themeClasses.border} ${themeClasses.textMuted}`
+            }`}
+            title="只看提到我的批注"
+          >
+            @我
+          </button>
+        </div>
+        {detached.length > 0 && (
+          <button
+            onClick={() => setShowDetached(!showDetached)}
+            className={`text-[11px] ${themeClasses.textMuted} hover:underline`}
+          >
+            {showDetached ? '收起' : '展开'}原文已删除的批注（{detached.length}）
+          </button>
+        )}
+        {showDetached && (
+          <div className="max-h-60 overflow-y-auto space-y-2">
+            {detached.map(thread => <React.Fragment key={thread.root.id}>{renderThread(thread)}</React.Fragment>)}
+          </div>
+        )}
+      </div>
+
+      <div className="relative flex-1 overflow-hidden">
+        {threads.length === 0 && !draft && (
+          <p className={`p-4 text-xs text-center ${themeClasses.textMuted}`}>
+            {canComment ? '选中正文后点击「批注」添加' : '暂无批注'}
+          </p>
+        )}
+        {draft && (
+          <div
+            ref={cardRef(DRAFT_ID)}
+            className={`absolute left-2 right-2 rounded-xl border border-amber-400 p-2.5 space-y-2 shadow-md ${themeClasses.card}`}
+            style={{ top: (layout[DRAFT_ID] ?? 0) - scrollTop }}
+          >
+            <p className={`text-[11px] truncate border-l-2 border-amber-400 pl-1.5 ${themeClasses.textMuted}`}>{draft.quote}</p>
+            <CommentComposer
+              placeholder="写下批注，输入 @ 提到协作者（Ctrl+Enter 发送）"
+              submitLabel="批注"
+              candidates={candidates}
+              themeClasses={themeClasses}
+              autoFocus
+              onSubmit={onSubmitDraft}
+              onCancel={onCancelDraft}
+            />
+          </div>
+        )}
+        {anchored.map(thread => (
+          <div
+            key={thread.root.id}
+            ref={cardRef(thread.root.id)}
+            className="absolute left-2 right-2"
+            style={{
+              top: (layout[thread.root.id] ?? 0) - scrollTop,
+              visibility: layout[thread.root.id] === undefined ? 'hidden' : undefined,
+            }}
+          >
+            {renderThread(thread)}
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default memo(CommentMargin);
@@ -119,6 +119,8 @@ const MindMapView: React.FC = () => {
     setIsAiGenerating,
     aiGeneratingType,
     setAiGeneratingType,
+    beginAiGeneration,
+    stopAiGeneration,
     characters,
     worldviews,
     showAiMindMapDialog,
@@ -276,6 +278,7 @@ const MindMapView: React.FC = () => {
     setShowAiMindMapDialog(false);
     setIsAiGenerating(true);
     setAiGeneratingType('mindmap');
+    const signal = beginAiGeneration();
 
     const context = buildCreativeContext();
     const currentNodePath = selectedNode.title;
@@ -301,11 +304,14 @@ ${userDirection ? `4. 重点围绕用户指定的方向进行扩展` : ''}
 
     try {
       let result = '';
-      await generateCreativeContentStream(prompt, (chunk) => {
+      const { interrupted } = await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
-      }, 'gemini-2.0-flash', { temperature: 0.8 });
+      }, 'gemini-2.0-flash', { temperature: 0.8, signal, usage: { feature: 'outline', novelId: novel?.id } });
 
-      const newTitles = result.split('\n')
+      const lines = result.split('\n');
+      // 中止时最后一行可能不完整，只保留已生成完的标题
+      if (interrupted) lines.pop();
+      const newTitles = lines
         .map(line => line.trim())
         .filter(line => line.length > 0 && line.length <= 20);
 
@@ -336,7 +342,7 @@ ${userDirection ? `4. 重点围绕用户指定的方向进行扩展` : ''}
       setIsAiGenerating(false);
       setAiGeneratingType(null);
     }
-  }, [currentMap, selectedNode, selectedNodeId, isAiGenerating, novel?.title, aiMindMapPrompt, buildCreativeContext, updateMindMap, onRecordActivity, setIsAiGenerating, setAiGeneratingType, setShowAiMindMapDialog]);
+  }, [currentMap, selectedNode, selectedNodeId, isAiGenerating, novel?.id, novel?.title, aiMindMapPrompt, buildCreativeContext, updateMindMap, onRecordActivity, setIsAiGenerating, setAiGeneratingType, setShowAiMindMapDialog, beginAiGeneration]);
 
   // 渲染思维导图节点
   const renderMindMapNode = (node: MindMapNode, level: number = 0, isLast: boolean = true, parentPath: boolean[] = []): React.ReactNode => {
@@ -532,6 +538,15 @@ ${userDirection ? `4. 重点围绕用户指定的方向进行扩展` : ''}
                 </>
               )}
             </button>
+            {isAiGenerating && aiGeneratingType === 'mindmap' && (
+              <button
+                className="px-4 py-2 rounded-xl bg-rose-600 text-white text-xs"
+                onClick={stopAiGeneration}
+                title="停止生成，已生成完的节点会保留"
+              >
+                停止生成
+              </button>
+            )}
             <button
               className="px-4 py-2 rounded-xl border border-slate-200 text-xs hover:bg-slate-50 transition-colors disabled:opacity-40"
               onClick={addChildNode}
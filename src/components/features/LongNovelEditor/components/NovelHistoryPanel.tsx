@@ -0,0 +1,114 @@
+import React, { memo } from 'react';
+import type { JournalEntry } from '../../../../services/history/CommandJournal';
+import type { ThemeClasses } from '../context/EditorContext';
+
+interface NovelHistoryPanelProps {
+  entries: readonly JournalEntry[];
+  /** 已生效的条目数 */
+  position: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** 批量操作进行中，暂不能撤销 */
+  inTransaction: boolean;
+  themeClasses: ThemeClasses;
+  onUndo: () => void;
+  onRedo: () => void;
+  /** 跳转到第 position 条之后的状态，0 为会话开始时 */
+  onJumpTo: (position: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * 操作历史
+ *
+ * 列出本次会话对作品的修改（最新的在上），点击任意一条回到该条完成后的状态；
+ * 被撤销的条目变灰，可以重做，在此之后有新的修改时被丢弃。
+ */
+const NovelHistoryPanel: React.FC<NovelHistoryPanelProps> = ({
+  entries,
+  position,
+  canUndo,
+  canRedo,
+  inTransaction,
+  themeClasses,
+  onUndo,
+  onRedo,
+  onJumpTo,
+  onClose,
+}) => (
+  <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+    <div
+      className={`w-[420px] max-h-[80vh] flex flex-col rounded-2xl shadow-xl border ${themeClasses.card} ${themeClasses.border}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className={`px-4 py-3 border-b ${themeClasses.border} flex items-center justify-between`}>
+        <div>
+          <h3 className={`font-semibold ${themeClasses.text}`}>操作历史</h3>
+          <p className={`text-xs ${themeClasses.textMuted}`}>
+            {inTransaction ? '批量操作进行中，完成后可撤销' : `本次会话 ${entries.length} 条修改`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62] disabled:opacity-40`}
+          >
+            撤销
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62] disabled:opacity-40`}
+          >
+            重做
+          </button>
+          <button onClick={onClose} className={`p-1.5 text-lg leading-none ${themeClasses.textMuted}`}>×</button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-1">
+        {[...entries].reverse().map((entry, reversedIndex) => {
+          const index = entries.length - 1 - reversedIndex;
+          const undone = index >= position;
+          const current = index === position - 1;
+          return (
+            <button
+              key={entry.id}
+              onClick={() => onJumpTo(index + 1)}
+              disabled={inTransaction || current}
+              className={`w-full text-left px-3 py-2 rounded-xl border text-sm transition-colors ${
+                current ? 'border-[#2C5F2D] bg-[#F0F7F0] dark:bg-[#2C5F2D]/10' : `${themeClasses.border} hover:border-[#97BC62]`
+              } ${undone ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className={`${themeClasses.text} ${undone ? 'line-through' : ''}`}>
+                  {entry.transaction && <span className="mr-1 text-xs text-[#2C5F2D]">[批量]</span>}
+                  {entry.label}
+                </span>
+                <span className={`text-xs ${themeClasses.textMuted}`}>{formatTime(entry.updatedAt)}</span>
+              </div>
+              {entry.commandCount > 1 && (
+                <p className={`text-xs mt-0.5 ${themeClasses.textMuted}`}>包含 {entry.commandCount} 次修改</p>
+              )}
+            </button>
+          );
+        })}
+        <button
+          onClick={() => onJumpTo(0)}
+          disabled={inTransaction || position === 0}
+          className={`w-full text-left px-3 py-2 rounded-xl border text-sm transition-colors ${
+            position === 0 ? 'border-[#2C5F2D] bg-[#F0F7F0] dark:bg-[#2C5F2D]/10' : `${themeClasses.border} hover:border-[#97BC62]`
+          }`}
+        >
+          <span className={themeClasses.textMuted}>会话开始</span>
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default memo(NovelHistoryPanel);
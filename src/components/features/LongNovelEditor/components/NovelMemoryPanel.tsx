@@ -0,0 +1,362 @@
+import React, { memo, useState } from 'react';
+import type { Novel } from '../../../../types';
+import {
+  MAX_RECENT_CHAPTERS,
+  MIN_RECENT_CHAPTERS,
+  NovelMemoryService,
+  type ChapterMemoryPatch,
+  type NovelMemory,
+} from '../../../../services/memory/NovelMemoryService';
+import type { LongTermMemory, PlotPoint, RecentMemory } from '../../../../utils/layeredMemorySystem';
+import type { ThemeClasses } from '../context/EditorContext';
+
+interface NovelMemoryPanelProps {
+  novel: Novel;
+  memory: NovelMemory;
+  themeClasses: ThemeClasses;
+  /** 保存作者修改后的记忆 */
+  onChange: (memory: NovelMemory) => void;
+  onClose: () => void;
+}
+
+type MemoryTab = 'recent' | 'longterm' | 'core';
+
+const PLOT_TYPE_LABELS: Record<PlotPoint['type'], string> = {
+  setup: '铺垫',
+  conflict: '冲突',
+  climax: '高潮',
+  resolution: '收束',
+  twist: '转折',
+};
+
+const ROLE_LABELS = {
+  protagonist: '主角',
+  antagonist: '反派',
+  supporting: '配角',
+  minor: '次要',
+} as const;
+
+const buttonClass = (themeClasses: ThemeClasses) =>
+  `px-2.5 py-1 rounded-lg text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62] disabled:opacity-40`;
+
+const splitList = (text: string) => text.split(/[，,、\n]+/).map(item => item.trim()).filter(Boolean);
+const splitLines = (text: string) => text.split('\n').map(item => item.trim()).filter(Boolean);
+
+interface ChapterMemoryCardProps {
+  entry: RecentMemory | LongTermMemory;
+  themeClasses: ThemeClasses;
+  onSave: (patch: ChapterMemoryPatch) => void;
+  onReset: () => void;
+}
+
+/**
+ * 单章记忆：查看、修改，或放弃修改重新从正文提取
+ */
+const ChapterMemoryCard: React.FC<ChapterMemoryCardProps> = ({ entry, themeClasses, onSave, onReset }) => {
+  const [editing, setEditing] = useState(false);
+  const [summary, setSummary] = useState(entry.summary);
+  const isRecent = 'keyEvents' in entry;
+  const [tags, setTags] = useState(isRecent ? entry.characters.join('、') : entry.keywords.join('、'));
+  const [places, setPlaces] = useState(isRecent ? entry.locations.join('、') : '');
+  const [events, setEvents] = useState(isRecent ? entry.keyEvents.join('\n') : '');
+
+  const startEditing = () => {
+    setSummary(entry.summary);
+    setTags(isRecent ? entry.characters.join('、') : entry.keywords.join('、'));
+    setPlaces(isRecent ? entry.locations.join('、') : '');
+    setEvents(isRecent ? entry.keyEvents.join('\n') : '');
+    setEditing(true);
+  };
+
+  const save = () => {
+    onSave(isRecent
+      ? { summary: summary.trim(), characters: splitList(tags), locations: splitList(places), keyEvents: splitLines(events) }
+      : { summary: summary.trim(), keywords: splitList(tags) });
+    setEditing(false);
+  };
+
+  const details = isRecent
+    ? [
+      entry.characters.length > 0 && `人物：${entry.characters.join('、')}`,
+      entry.locations.length > 0 && `地点：${entry.locations.join('、')}`,
+      entry.keyEvents.length > 0 && `事件：${entry.keyEvents.join('；')}`,
+    ].filter(Boolean)
+    : [entry.keywords.length > 0 && `关键词：${entry.keywords.join('、')}`, `重要性：${entry.importance}`].filter(Boolean);
+
+  return (
+    <div className={`px-3 py-2 rounded-xl border text-sm ${themeClasses.border}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className={`font-medium ${themeClasses.text}`}>
+          {entry.chapterTitle || `第${entry.chapterNumber}章`}
+          {entry.edited && <span className="ml-1 text-xs text-[#2C5F2D]">[已修订]</span>}
+        </span>
+        {!editing && (
+          <div className="flex gap-1.5 shrink-0">
+            {entry.edited && (
+              <button className={buttonClass(themeClasses)} onClick={onReset} title="放弃修改，从正文重新提取">
+                恢复自动
+              </button>
+            )}
+            <button className={buttonClass(themeClasses)} onClick={startEditing}>修改</button>
+          </div>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            rows={3}
+            placeholder="本章摘要"
+            className={`w-full px-2 py-1.5 rounded-lg border text-sm ${themeClasses.input}`}
+          />
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder={isRecent ? '出场人物，用顿号分隔' : '关键词，用顿号分隔'}
+            className={`w-full px-2 py-1.5 rounded-lg border text-xs ${themeClasses.input}`}
+          />
+          {isRecent && (
+            <>
+              <input
+                value={places}
+                onChange={(e) => setPlaces(e.target.value)}
+                placeholder="地点，用顿号分隔"
+                className={`w-full px-2 py-1.5 rounded-lg border text-xs ${themeClasses.input}`}
+              />
+              <textarea
+                value={events}
+                onChange={(e) => setEvents(e.target.value)}
+                rows={2}
+                placeholder="关键事件，每行一个"
+                className={`w-full px-2 py-1.5 rounded-lg border text-xs ${themeClasses.input}`}
+              />
+            </>
+          )}
+          <div className="flex justify-end gap-1.5">
+            <button className={buttonClass(themeClasses)} onClick={() => setEditing(false)}>取消</button>
+            <button className={buttonClass(themeClasses)} onClick={save}>保存</button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <p className={`mt-1 whitespace-pre-wrap ${themeClasses.text}`}>{entry.summary || '（无摘要）'}</p>
+          {details.length > 0 && <p className={`mt-1 text-xs ${themeClasses.textMuted}`}>{details.join(' · ')}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * AI 记忆
+ *
+ * 查看和修正续写时提供给 AI 的分层记忆：近期章节摘要、归档的长期记忆，
+ * 以及主线剧情、力量体系等核心设定。修改过的章节记忆不会被自动更新覆盖。
+ */
+const NovelMemoryPanel: React.FC<NovelMemoryPanelProps> = ({ novel, memory, themeClasses, onChange, onClose }) => {
+  const [tab, setTab] = useState<MemoryTab>('recent');
+  const { powerSystem, mainPlot, characters, worldSettings } = memory.core;
+  const [levels, setLevels] = useState(powerSystem.levels.join('\n'));
+  const [rules, setRules] = useState(powerSystem.rules.join('\n'));
+  const [limitations, setLimitations] = useState(powerSystem.limitations.join('\n'));
+  const [plotChapter, setPlotChapter] = useState(1);
+  const [plotType, setPlotType] = useState<PlotPoint['type']>('setup');
+  const [plotDescription, setPlotDescription] = useState('');
+
+  const saveChapter = (chapterId: string | undefined, patch: ChapterMemoryPatch) => {
+    if (chapterId) onChange(NovelMemoryService.updateChapterMemory(memory, chapterId, patch));
+  };
+  const resetChapter = (chapterId: string | undefined) => {
+    if (chapterId) onChange(NovelMemoryService.resetChapterMemory(novel, memory, chapterId));
+  };
+
+  const savePowerSystem = () => {
+    onChange(NovelMemoryService.updateCore(memory, {
+      powerSystem: { levels: splitLines(levels), rules: splitLines(rules), limitations: splitLines(limitations) },
+    }));
+  };
+
+  const addPlotPoint = () => {
+    if (!plotDescription.trim()) return;
+    onChange(NovelMemoryService.updateCore(memory, {
+      mainPlot: [
+        ...mainPlot,
+        { chapterNumber: plotChapter, type: plotType, description: plotDescription.trim(), relatedCharacters: [], importance: 80 },
+      ],
+    }));
+    setPlotDescription('');
+  };
+
+  const removePlotPoint = (index: number) => {
+    onChange(NovelMemoryService.updateCore(memory, { mainPlot: mainPlot.filter((_, i) => i !== index) }));
+  };
+
+  const tabs: Array<{ id: MemoryTab; label: string }> = [
+    { id: 'recent', label: `近期（${memory.recent.length}）` },
+    { id: 'longterm', label: `长期（${memory.longterm.length}）` },
+    { id: 'core', label: '核心设定' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className={`w-[560px] max-h-[85vh] flex flex-col rounded-2xl shadow-xl border ${themeClasses.card} ${themeClasses.border}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={`px-4 py-3 border-b ${themeClasses.border} flex items-center justify-between`}>
+          <div>
+            <h3 className={`font-semibold ${themeClasses.text}`}>AI 记忆</h3>
+            <p className={`text-xs ${themeClasses.textMuted}`}>续写时提供给 AI 的前情，保存章节后自动更新，可在这里修正</p>
+          </div>
+          <button onClick={onClose} className={`p-1.5 text-lg leading-none ${themeClasses.textMuted}`}>×</button>
+        </div>
+
+        <div className={`px-4 pt-3 flex gap-2 border-b ${themeClasses.border}`}>
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`px-3 py-1.5 text-xs border-b-2 transition-colors ${
+                tab === t.id ? 'border-[#2C5F2D] text-[#2C5F2D]' : `border-transparent ${themeClasses.textMuted}`
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {tab === 'recent' && (
+            memory.recent.length > 0
+              ? memory.recent.map(entry => (
+                <ChapterMemoryCard
+                  key={`${entry.chapterId}-${entry.contentHash}-${entry.edited}`}
+                  entry={entry}
+                  themeClasses={themeClasses}
+                  onSave={(patch) => saveChapter(entry.chapterId, patch)}
+                  onReset={() => resetChapter(entry.chapterId)}
+                />
+              ))
+              : <p className={`text-sm text-center py-6 ${themeClasses.textMuted}`}>还没有章节记忆，写完章节后会自动生成</p>
+          )}
+
+          {tab === 'longterm' && (
+            memory.longterm.length > 0
+              ? [...memory.longterm].reverse().map(entry => (
+                <ChapterMemoryCard
+                  key={`${entry.chapterId}-${entry.contentHash}-${entry.edited}`}
+                  entry={entry}
+                  themeClasses={themeClasses}
+                  onSave={(patch) => saveChapter(entry.chapterId, patch)}
+                  onReset={() => resetChapter(entry.chapterId)}
+                />
+              ))
+              : <p className={`text-sm text-center py-6 ${themeClasses.textMuted}`}>
+                超过 {memory.maxRecentChapters} 章后，较早的章节会归档到这里
+              </p>
+          )}
+
+          {tab === 'core' && (
+            <div className="space-y-4 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <label className={themeClasses.text}>近期记忆保留章节数</label>
+                <input
+                  type="number"
+                  min={MIN_RECENT_CHAPTERS}
+                  max={MAX_RECENT_CHAPTERS}
+                  value={memory.maxRecentChapters}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (value) onChange(NovelMemoryService.setMaxRecentChapters(novel, memory, value));
+                  }}
+                  className={`w-20 px-2 py-1 rounded-lg border text-xs ${themeClasses.input}`}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <p className={`font-medium ${themeClasses.text}`}>力量体系</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {[
+                    { label: '境界（从低到高）', value: levels, set: setLevels },
+                    { label: '规则', value: rules, set: setRules },
+                    { label: '限制', value: limitations, set: setLimitations },
+                  ].map(field => (
+                    <textarea
+                      key={field.label}
+                      value={field.value}
+                      onChange={(e) => field.set(e.target.value)}
+                      rows={4}
+                      placeholder={`${field.label}，每行一个`}
+                      className={`w-full px-2 py-1.5 rounded-lg border text-xs ${themeClasses.input}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-end">
+                  <button className={buttonClass(themeClasses)} onClick={savePowerSystem}>保存力量体系</button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <p className={`font-medium ${themeClasses.text}`}>主线剧情</p>
+                {mainPlot.map((point, index) => (
+                  <div key={`${point.chapterNumber}-${index}`} className={`flex items-center gap-2 px-3 py-1.5 rounded-xl border ${themeClasses.border}`}>
+                    <span className={`text-xs shrink-0 ${themeClasses.textMuted}`}>
+                      第{point.chapterNumber}章 · {PLOT_TYPE_LABELS[point.type]}
+                    </span>
+                    <span className={`flex-1 ${themeClasses.text}`}>{point.description}</span>
+                    <button className={`text-xs ${themeClasses.textMuted} hover:text-red-500`} onClick={() => removePlotPoint(index)}>删除</button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={plotChapter}
+                    onChange={(e) => setPlotChapter(Math.max(1, Number(e.target.value) || 1))}
+                    className={`w-16 px-2 py-1 rounded-lg border text-xs ${themeClasses.input}`}
+                    title="章节"
+                  />
+                  <select
+                    value={plotType}
+                    onChange={(e) => setPlotType(e.target.value as PlotPoint['type'])}
+                    className={`px-2 py-1 rounded-lg border text-xs ${themeClasses.input}`}
+                  >
+                    {Object.entries(PLOT_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={plotDescription}
+                    onChange={(e) => setPlotDescription(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addPlotPoint()}
+                    placeholder="剧情节点"
+                    className={`flex-1 px-2 py-1 rounded-lg border text-xs ${themeClasses.input}`}
+                  />
+                  <button className={buttonClass(themeClasses)} onClick={addPlotPoint} disabled={!plotDescription.trim()}>添加</button>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <p className={`font-medium ${themeClasses.text}`}>人物与世界设定</p>
+                <p className={`text-xs ${themeClasses.textMuted}`}>与创作管理中的人物、世界观同步，请在那里修改</p>
+                {characters.map(character => (
+                  <p key={character.name} className={`text-xs ${themeClasses.text}`}>
+                    {character.name}（{ROLE_LABELS[character.role]}）
+                    {character.firstAppearance > 0 && <span className={themeClasses.textMuted}> · 第{character.firstAppearance}章出场</span>}
+                  </p>
+                ))}
+                {worldSettings.map(setting => (
+                  <p key={setting.name} className={`text-xs ${themeClasses.text}`}>{setting.name}</p>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default memo(NovelMemoryPanel);
@@ -0,0 +1,180 @@
+import React, { memo, useMemo, useState } from 'react';
+import type { Chapter } from '../../../../types';
+import { ChapterSummaryService, MIN_SUMMARY_CHARS, type StorySoFarEntry } from '../../../../services/summary/ChapterSummaryService';
+import type { ThemeClasses } from '../context/EditorContext';
+
+interface StorySoFarPanelProps {
+  chapters: Chapter[];
+  /** 默认回顾到的章节（当前章节） */
+  currentChapterId: string | null;
+  themeClasses: ThemeClasses;
+  /** 正在生成摘要的章节 */
+  runningChapterId: string | null;
+  lastError: string | null;
+  /** 为指定章节（不传则为所有需要的章节）生成摘要 */
+  onGenerate: (chapterIds?: string[]) => void;
+  onClose: () => void;
+}
+
+const buttonClass = (themeClasses: ThemeClasses) =>
+  `px-2.5 py-1 rounded-lg text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62] disabled:opacity-40`;
+
+interface StoryEntryCardProps {
+  entry: StorySoFarEntry;
+  detailed: boolean;
+  running: boolean;
+  themeClasses: ThemeClasses;
+  onGenerate: () => void;
+}
+
+/**
+ * 单章回顾：摘要、关键信息和生成状态
+ */
+const StoryEntryCard: React.FC<StoryEntryCardProps> = ({ entry, detailed, running, themeClasses, onGenerate }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { chapter, chapterNumber, summary, stale } = entry;
+  const tooShort = !ChapterSummaryService.canSummarize(chapter);
+  const showDetailed = detailed || expanded;
+
+  let status: string | null = null;
+  if (running) status = '生成中…';
+  else if (stale) status = '正文已修改，等待更新';
+  else if (!summary) status = tooShort ? `正文不足 ${MIN_SUMMARY_CHARS} 字，暂不生成` : '尚未生成';
+
+  const details = summary
+    ? [
+      summary.keyCharacters.length > 0 && `人物：${summary.keyCharacters.join('、')}`,
+      summary.keyLocations.length > 0 && `地点：${summary.keyLocations.join('、')}`,
+      summary.plotTags.length > 0 && `标签：${summary.plotTags.join('、')}`,
+      summary.emotionalTone && `基调：${summary.emotionalTone}`,
+    ].filter(Boolean)
+    : [];
+
+  return (
+    <div className={`px-3 py-2 rounded-xl border text-sm ${themeClasses.border}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className={`font-medium ${themeClasses.text}`}>
+          第{chapterNumber}章 {chapter.title}
+          {status && <span className={`ml-1 text-xs ${themeClasses.textMuted}`}>[{status}]</span>}
+        </span>
+        <div className="flex gap-1.5 shrink-0">
+          {summary && !detailed && (
+            <button className={buttonClass(themeClasses)} onClick={() => setExpanded(v => !v)}>
+              {expanded ? '收起' : '详细'}
+            </button>
+          )}
+          {!tooShort && (
+            <button className={buttonClass(themeClasses)} onClick={onGenerate} disabled={running}>
+              {summary ? '重新生成' : '生成'}
+            </button>
+          )}
+        </div>
+      </div>
+      {summary && (
+        <>
+          <p className={`mt-1 whitespace-pre-wrap ${themeClasses.text}`}>{showDetailed ? summary.detailed : summary.brief}</p>
+          {showDetailed && summary.keyEvents.length > 0 && (
+            <ul className={`mt-1 list-disc pl-5 text-xs ${themeClasses.textMuted}`}>
+              {summary.keyEvents.map((event, i) => <li key={i}>{event}</li>)}
+            </ul>
+          )}
+          {details.length > 0 && <p className={`mt-1 text-xs ${themeClasses.textMuted}`}>{details.join(' · ')}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * 前情回顾
+ *
+ * 按章节顺序展示 AI 生成的章节摘要，回顾到当前章节为止（可切换为全书）。
+ * 正文改动后摘要会标记为过期，并在后台重新生成。
+ */
+const StorySoFarPanel: React.FC<StorySoFarPanelProps> = ({
+  chapters,
+  currentChapterId,
+  themeClasses,
+  runningChapterId,
+  lastError,
+  onGenerate,
+  onClose,
+}) => {
+  const [detailed, setDetailed] = useState(false);
+  const [wholeBook, setWholeBook] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const currentIndex = chapters.findIndex(c => c.id === currentChapterId);
+  const uptoIndex = wholeBook || currentIndex < 0 ? chapters.length - 1 : currentIndex;
+  const entries = useMemo(() => ChapterSummaryService.getStorySoFar(chapters, uptoIndex), [chapters, uptoIndex]);
+  const summarized = entries.filter(entry => entry.summary).length;
+  const pending = entries.filter(entry => ChapterSummaryService.needsSummary(entry.chapter));
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(ChapterSummaryService.formatStorySoFar(entries, detailed));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('复制前情回顾失败:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className={`w-[560px] max-h-[85vh] flex flex-col rounded-2xl shadow-xl border ${themeClasses.card} ${themeClasses.border}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={`px-4 py-3 border-b ${themeClasses.border} flex items-center justify-between`}>
+          <div>
+            <h3 className={`font-semibold ${themeClasses.text}`}>前情回顾</h3>
+            <p className={`text-xs ${themeClasses.textMuted}`}>
+              {wholeBook || currentIndex < 0 ? '全书' : `截至第${currentIndex + 1}章`}，{entries.length} 章中 {summarized} 章已有摘要
+            </p>
+          </div>
+          <button onClick={onClose} className={`p-1.5 text-lg leading-none ${themeClasses.textMuted}`}>×</button>
+        </div>
+        <div className={`px-4 py-2 border-b ${themeClasses.border} flex items-center gap-2 flex-wrap`}>
+          <button className={buttonClass(themeClasses)} onClick={() => setDetailed(v => !v)}>
+            {detailed ? '简要' : '详细'}
+          </button>
+          {currentIndex >= 0 && currentIndex < chapters.length - 1 && (
+            <button className={buttonClass(themeClasses)} onClick={() => setWholeBook(v => !v)}>
+              {wholeBook ? '只看到当前章' : '全书'}
+            </button>
+          )}
+          <button className={buttonClass(themeClasses)} onClick={copy} disabled={summarized === 0}>
+            {copied ? '已复制' : '复制'}
+          </button>
+          <button
+            className={`${buttonClass(themeClasses)} ml-auto`}
+            onClick={() => onGenerate(pending.map(entry => entry.chapter.id))}
+            disabled={pending.length === 0 || Boolean(runningChapterId)}
+          >
+            {runningChapterId ? '生成中…' : `生成缺少的摘要（${pending.length}）`}
+          </button>
+        </div>
+        {lastError && (
+          <p className="px-4 py-2 text-xs text-red-500">摘要生成失败：{lastError}</p>
+        )}
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {entries.length > 0
+            ? entries.map(entry => (
+              <StoryEntryCard
+                key={entry.chapter.id}
+                entry={entry}
+                detailed={detailed}
+                running={runningChapterId === entry.chapter.id}
+                themeClasses={themeClasses}
+                onGenerate={() => onGenerate([entry.chapter.id])}
+              />
+            ))
+            : <p className={`text-sm text-center py-6 ${themeClasses.textMuted}`}>还没有章节</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default memo(StorySoFarPanel);
@@ -0,0 +1,198 @@
+import React, { memo, useMemo, useState } from 'react';
+import type { ChapterSuggestion } from '../../../../types';
+import type { LocatedSuggestion } from '../../../../services/suggestion/SuggestionService';
+import type { ThemeClasses } from '../context/EditorContext';
+
+interface SuggestionReviewProps {
+  content: string;
+  /** 本章的建议，按位置排序 */
+  suggestions: LocatedSuggestion[];
+  /** 与 textarea 相同的字体样式 */
+  textStyle: React.CSSProperties;
+  themeClasses: ThemeClasses;
+  currentUserId: string;
+  /** 能否接受建议（需要编辑正文的权限） */
+  canAccept: boolean;
+  /** 不能接受时的原因 */
+  acceptDisabledReason?: string | null;
+  onAccept: (id: string) => void;
+  onReject: (id: string) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const KIND_LABELS = { insert: '插入', delete: '删除', replace: '替换' } as const;
+
+/**
+ * 修订审阅
+ *
+ * 以只读方式显示正文，建议就地标出（删除的文字划线、插入的文字加底色），
+ * 点击某处修订后逐条接受或拒绝。已过时或与其他建议重叠、无法就地显示的建议列在正文下方。
+ */
+const SuggestionReview: React.FC<SuggestionReviewProps> = ({
+  content,
+  suggestions,
+  textStyle,
+  themeClasses,
+  currentUserId,
+  canAccept,
+  acceptDisabledReason,
+  onAccept,
+  onReject,
+  onAcceptAll,
+  onRejectAll,
+  onClose,
+}) => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  // 就地显示的建议互不重叠；同一位置的多处插入依次显示
+  const { inline, others } = useMemo(() => {
+    const inline: LocatedSuggestion[] = [];
+    const others: LocatedSuggestion[] = [];
+    let cursor = 0;
+    suggestions.forEach(item => {
+      if (!item.stale && item.start >= cursor) {
+        inline.push(item);
+        cursor = item.end;
+      } else {
+        others.push(item);
+      }
+    });
+    return { inline, others };
+  }, [suggestions]);
+
+  const active = suggestions.find(item => item.suggestion.id === activeId) ?? null;
+  const canReject = (suggestion: ChapterSuggestion) => canAccept || suggestion.authorId === currentUserId;
+
+  const describe = (suggestion: ChapterSuggestion) =>
+    `${suggestion.authorName}${suggestion.label ? ` · ${suggestion.label}` : ''} · ${formatTime(suggestion.createdAt)}`;
+
+  const renderChange = (suggestion: ChapterSuggestion) => (
+    <>
+      {suggestion.anchor.quote && <del className="text-rose-600">{suggestion.anchor.quote}</del>}
+      {suggestion.anchor.quote && suggestion.text && ' → '}
+      {suggestion.text && <span className="text-emerald-700 dark:text-emerald-300">{suggestion.text}</span>}
+    </>
+  );
+
+  const actions = (item: LocatedSuggestion) => (
+    <div className="flex items-center gap-2 flex-shrink-0">
+      <button
+        onClick={() => { onAccept(item.suggestion.id); setActiveId(null); }}
+        disabled={!canAccept || item.stale}
+        title={item.stale ? '原文已被改写，只能拒绝' : acceptDisabledReason ?? undefined}
+        className="px-2.5 py-1 text-xs rounded-lg bg-[#2C5F2D] text-white hover:bg-[#1E4620] disabled:opacity-50"
+      >
+        接受
+      </button>
+      <button
+        onClick={() => { onReject(item.suggestion.id); setActiveId(null); }}
+        disabled={!canReject(item.suggestion)}
+        title={canReject(item.suggestion) ? undefined : acceptDisabledReason ?? undefined}
+        className={`px-2.5 py-1 text-xs rounded-lg border ${themeClasses.border} hover:border-rose-400 disabled:opacity-50`}
+      >
+        {item.suggestion.authorId === currentUserId && !canAccept ? '撤回' : '拒绝'}
+      </button>
+    </div>
+  );
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  inline.forEach(item => {
+    const { suggestion } = item;
+    const isActive = suggestion.id === activeId;
+    segments.push(content.slice(cursor, item.start));
+    segments.push(
+      <span
+        key={suggestion.id}
+        onClick={() => setActiveId(isActive ? null : suggestion.id)}
+        title={describe(suggestion)}
+        className={`cursor-pointer rounded-sm ${isActive ? 'ring-2 ring-[#97BC62]' : ''}`}
+      >
+        {item.end > item.start && (
+          <del className="bg-rose-100 dark:bg-rose-900/40 text-rose-700 dark:text-rose-300">
+            {content.slice(item.start, item.end)}
+          </del>
+        )}
+        {suggestion.text && (
+          <ins className="no-underline bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 border-b-2 border-emerald-400">
+            {suggestion.text}
+          </ins>
+        )}
+      </span>
+    );
+    cursor = item.end;
+  });
+  segments.push(content.slice(cursor));
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className={`px-6 py-2 border-b ${themeClasses.border} flex items-center gap-3 text-xs`}>
+        <span className={themeClasses.text}>{suggestions.length} 条修订建议</span>
+        <span className={themeClasses.textMuted}>点击正文中标出的修订逐条处理</span>
+        <div className="flex-1" />
+        <button
+          onClick={onAcceptAll}
+          disabled={!canAccept || inline.length === 0}
+          title={acceptDisabledReason ?? undefined}
+          className="px-2.5 py-1 rounded-lg bg-[#2C5F2D] text-white hover:bg-[#1E4620] disabled:opacity-50"
+        >
+          全部接受
+        </button>
+        <button
+          onClick={onRejectAll}
+          disabled={!canAccept}
+          title={acceptDisabledReason ?? undefined}
+          className={`px-2.5 py-1 rounded-lg border ${themeClasses.border} hover:border-rose-400 disabled:opacity-50`}
+        >
+          全部拒绝
+        </button>
+        <button onClick={onClose} className={`px-2.5 py-1 rounded-lg ${themeClasses.textMuted} hover:underline`}>
+          返回编辑
+        </button>
+      </div>
+
+      {active && (
+        <div className={`px-6 py-2 border-b ${themeClasses.border} ${themeClasses.card} flex items-center gap-3 text-xs`}>
+          <div className="flex-1 min-w-0">
+            <p className={themeClasses.textMuted}>{KIND_LABELS[active.kind]} · {describe(active.suggestion)}</p>
+            <p className={`truncate ${themeClasses.text}`}>{renderChange(active.suggestion)}</p>
+          </div>
+          {actions(active)}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        <div
+          className={`p-6 text-base leading-relaxed whitespace-pre-wrap break-words ${themeClasses.text}`}
+          style={textStyle}
+        >
+          {segments}
+        </div>
+
+        {others.length > 0 && (
+          <div className={`mx-6 mb-6 rounded-xl border ${themeClasses.border} divide-y divide-slate-200 dark:divide-slate-700`}>
+            <p className={`px-3 py-2 text-xs font-medium ${themeClasses.textMuted}`}>无法在正文中标出的建议</p>
+            {others.map(item => (
+              <div key={item.suggestion.id} className="px-3 py-2 flex items-center gap-3 text-xs">
+                <div className="flex-1 min-w-0">
+                  <p className={themeClasses.textMuted}>
+                    {item.stale ? '原文已被改写' : '与其他建议重叠'} · {describe(item.suggestion)}
+                  </p>
+                  <p className={`truncate ${themeClasses.text}`}>{renderChange(item.suggestion)}</p>
+                </div>
+                {actions(item)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default memo(SuggestionReview);
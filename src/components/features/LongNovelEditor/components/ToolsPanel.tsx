@@ -1,10 +1,17 @@
 import React, { useRef, useCallback, useMemo, useEffect, useState } from 'react';
 import { useEditorStore, SearchResult, CreativeManagementTab } from '../store/editorStore';
 import { useEditorContext } from '../context/EditorContext';
-import { Chapter, Novel, WritingGoal, WritingRecord, ChapterTemplate } from '../../../../types';
-import { createChapterId } from '../../../../utils/id';
+import { Novel, Chapter, WritingGoal, WritingRecord, ChapterTemplate } from '../../../../types';
 import { escapeHtml, isNovel, safeParseJson } from '../../../../utils';
 import { generateCreativeContentStream, GenerateOptions } from '../../../../services/api/gemini';
+import { UsageService } from '../../../../services/usage/UsageService';
+import { SuggestionService } from '../../../../services/suggestion/SuggestionService';
+import { VersionService } from '../../../../services/version/VersionService';
+import { countWords, sumWordCount } from '../../../../utils/wordCount';
+import { importService, createNovelStructure, type ManuscriptImportResult, type ManuscriptSource } from '../../../../services/import/ImportService';
+import ImportPreviewModal from '../../../ui/ImportPreviewModal';
+import VersionHistoryPanel from '../../../ui/VersionHistoryPanel';
+import { ApiError, ErrorCode } from '../../../../utils/errors';
 import AnalysisPanel from './AnalysisPanel';
 
 // 格式化番茄钟时间
@@ -15,7 +22,7 @@ const formatPomodoroTime = (seconds: number): string => {
 };
 
 const ToolsPanel: React.FC = () => {
-  const { themeClasses, effectiveTheme, chapters, currentChapter, onUpdateNovel, novel } = useEditorContext();
+  const { themeClasses, effectiveTheme, chapters, currentChapter, onUpdateNovel, novel, wordCountMode, permissions, currentUser, history } = useEditorContext();
 
   const {
     characters,
@@ -79,6 +86,8 @@ const ToolsPanel: React.FC = () => {
     setBatchPolishProgress,
     isBatchPolishing,
     setIsBatchPolishing,
+    beginAiGeneration,
+    stopAiGeneration,
     batchPolishPaused,
     setBatchPolishPaused,
     // Diff 对比编辑器
@@ -185,30 +194,36 @@ const ToolsPanel: React.FC = () => {
     if (!chapter) return;
     const newContent = chapter.content.slice(0, result.index) + replaceText + chapter.content.slice(result.index + searchText.length);
     const updatedChapters = chapters.map(c =>
-      c.id === chapter.id ? { ...c, content: newContent, wordCount: newContent.length } : c
+      c.id === chapter.id ? { ...c, content: newContent, wordCount: countWords(newContent, wordCountMode) } : c
     );
-    onUpdateNovel({ chapters: updatedChapters, wordCount: updatedChapters.reduce((sum, ch) => sum + ch.wordCount, 0) });
+    onUpdateNovel({ chapters: updatedChapters, wordCount: sumWordCount(updatedChapters) });
     performSearch();
-  }, [searchResults, currentSearchIndex, chapters, searchText, replaceText, onUpdateNovel, performSearch]);
+  }, [searchResults, currentSearchIndex, chapters, searchText, replaceText, wordCountMode, onUpdateNovel, performSearch]);
 
   // 替换所有结果
   const replaceAllResults = useCallback(() => {
     if (searchResults.length === 0) return;
     if (!window.confirm(`确定要替换所有 ${searchResults.length} 个结果吗？`)) return;
-    let updatedChapters = [...chapters];
     const searchIn = searchScope === 'current' && currentChapter
       ? [currentChapter]
       : chapters;
+    let updatedChapters = VersionService.snapshotChapters(
+      chapters,
+      searchIn.filter(chapter => chapter.content.includes(searchText)).map(chapter => chapter.id),
+      { trigger: 'batch', note: '全部替换前', wordCountMode }
+    );
     searchIn.forEach(chapter => {
       const newContent = chapter.content.split(searchText).join(replaceText);
       updatedChapters = updatedChapters.map(c =>
-        c.id === chapter.id ? { ...c, content: newContent, wordCount: newContent.length } : c
+        c.id === chapter.id ? { ...c, content: newContent, wordCount: countWords(newContent, wordCountMode) } : c
       );
     });
-    onUpdateNovel({ chapters: updatedChapters, wordCount: updatedChapters.reduce((sum, ch) => sum + ch.wordCount, 0) });
+    history.journal.begin(`全部替换「${searchText}」`);
+    onUpdateNovel({ chapters: updatedChapters, wordCount: sumWordCount(updatedChapters) });
+    history.journal.commit();
     setSearchResults([]);
     setCurrentSearchIndex(0);
-  }, [searchResults, chapters, searchScope, currentChapter, searchText, replaceText, onUpdateNovel, setSearchResults, setCurrentSearchIndex]);
+  }, [searchResults, chapters, searchScope, currentChapter, searchText, replaceText, wordCountMode, onUpdateNovel, history.journal, setSearchResults, setCurrentSearchIndex]);
 
   // 跳转到搜索结果
   const goToSearchResult = useCallback((index: number) => {
@@ -320,14 +335,14 @@ const ToolsPanel: React.FC = () => {
     if (!template) return;
     if (!window.confirm('应用模板将覆盖当前章节内容，是否继续？')) return;
     const updatedChapters = chapters.map(c =>
-      c.id === currentChapter.id ? { ...c, content: template.content, wordCount: template.content.length } : c
+      c.id === currentChapter.id ? { ...c, content: template.content, wordCount: countWords(template.content, wordCountMode) } : c
     );
-    onUpdateNovel({ chapters: updatedChapters, wordCount: updatedChapters.reduce((sum, ch) => sum + ch.wordCount, 0) });
-  }, [currentChapter, chapterTemplates, chapters, onUpdateNovel]);
+    onUpdateNovel({ chapters: updatedChapters, wordCount: sumWordCount(updatedChapters) });
+  }, [currentChapter, chapterTemplates, chapters, wordCountMode, onUpdateNovel]);
 
   // 统计相关
   const getTotalStats = useMemo(() => {
-    const totalWords = chapters.reduce((sum, ch) => sum + ch.wordCount, 0);
+    const totalWords = sumWordCount(chapters);
     const totalDays = writingRecords.length;
     const avgDaily = totalDays > 0 ? Math.round(writingRecords.reduce((sum, r) => sum + r.wordsWritten, 0) / totalDays) : 0;
     const maxDaily = writingRecords.length > 0 ? Math.max(...writingRecords.map(r => r.wordsWritten)) : 0;
@@ -358,95 +373,164 @@ const ToolsPanel: React.FC = () => {
     alert('敏感词检测功能开发中...\n将检测可能存在问题的敏感词汇');
   }, []);
 
-  // 文件导入
-  const handleFileImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files || files.length === 0) return;
-    Array.from(files as FileList).forEach((file: File) => {
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        const content = ev.target?.result as string;
-        const title = file.name.replace(/\.(txt|md)$/, '');
-        const newChapter: Chapter = {
-          id: createChapterId(),
-          title,
-          content,
-          wordCount: content.length,
-        };
-        const updatedChapters = [...chapters, newChapter];
-        onUpdateNovel({ chapters: updatedChapters, wordCount: updatedChapters.reduce((sum, ch) => sum + ch.wordCount, 0) });
-      };
-      reader.readAsText(file);
-    });
+  // 文件导入：读取全部文件后预览拆分结果，确认后一次性追加卷和章节
+  const [importSources, setImportSources] = useState<ManuscriptSource[] | null>(null);
+
+  const handleFileImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
     e.target.value = '';
-  }, [chapters, onUpdateNovel]);
+    if (files.length === 0) return;
+    try {
+      setImportSources(await Promise.all(files.map(file => importService.read(file))));
+    } catch (error) {
+      alert(`导入失败：${error instanceof Error ? error.message : '无法读取文件'}`);
+    }
+  }, []);
+
+  const confirmFileImport = useCallback((result: ManuscriptImportResult) => {
+    const existingVolumes = novel?.volumes ?? [];
+    const { volumes, chapters: newChapters } = createNovelStructure(result, existingVolumes.length, wordCountMode);
+    const updatedChapters = [...chapters, ...newChapters];
+    onUpdateNovel({
+      chapters: updatedChapters,
+      ...(volumes.length > 0 && { volumes: [...existingVolumes, ...volumes] }),
+      wordCount: sumWordCount(updatedChapters),
+    });
+    setImportSources(null);
+  }, [novel?.volumes, chapters, wordCountMode, onUpdateNovel]);
 
   // 批量精修功能
   const [batchPolishChapters, setBatchPolishChapters] = useState<string[]>([]);
+  // 精修结果记为修订建议，而不是直接覆盖章节
+  const [polishAsSuggestions, setPolishAsSuggestions] = useState(false);
   const batchPolishAbortRef = useRef<boolean>(false);
+  // 批量精修是长时间的异步操作，写入时需要最新的作品
+  const novelRef = useRef(novel);
+  novelRef.current = novel;
 
   const startBatchPolish = useCallback(async () => {
+    const deniedReason = permissions.explain('aiBatch');
+    if (deniedReason) {
+      alert(deniedReason);
+      return;
+    }
     if (batchPolishChapters.length === 0) {
       alert('请先选择要精修的章节');
       return;
     }
 
+    const chaptersToPolish = chapters.filter(c => batchPolishChapters.includes(c.id));
+
+    // 按章节字数估算本次批量精修的费用（输出约与原文等长）
+    const budget = UsageService.checkBudget({
+      novelId: novel?.id,
+      estimatedCost: UsageService.estimateBatchCost(
+        chaptersToPolish.map(c => ({ prompt: c.content, expectedOutputTokens: UsageService.estimateTokens(c.content) }))
+      ),
+    });
+    if (!budget.allowed) {
+      alert(`${budget.message}，已取消批量精修。`);
+      return;
+    }
+    if (budget.exceeded && !window.confirm(`${budget.message}，是否继续？`)) {
+      return;
+    }
+
     setIsBatchPolishing(true);
     setBatchPolishPaused(false);
     batchPolishAbortRef.current = false;
+    const signal = beginAiGeneration();
 
-    const chaptersToPolish = chapters.filter(c => batchPolishChapters.includes(c.id));
-    let updatedChapters = [...chapters];
+    let budgetMessage = '';
 
-    for (let i = 0; i < chaptersToPolish.length; i++) {
-      if (batchPolishAbortRef.current) break;
+    // 整个批量精修记为一条操作历史，可以一次撤销；期间作者的编辑单独记录，撤销精修时不会撤回
+    await history.journal.transaction('批量精修', async () => {
+      for (let i = 0; i < chaptersToPolish.length; i++) {
+        if (batchPolishAbortRef.current) break;
 
-      // 检查暂停状态
-      while (useEditorStore.getState().batchPolishPaused && !batchPolishAbortRef.current) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
-      if (batchPolishAbortRef.current) break;
-
-      const chapter = chaptersToPolish[i];
-      setBatchPolishProgress({
-        current: i + 1,
-        total: chaptersToPolish.length,
-        currentChapter: chapter.title
-      });
+        // 检查暂停状态
+        while (useEditorStore.getState().batchPolishPaused && !batchPolishAbortRef.current) {
+          await new Promise(resolve => setTimeout(resolve, 500));
+        }
+        if (batchPolishAbortRef.current) break;
+
+        // 以最新的正文为准，作者可能在精修期间修改或删除了章节
+        const chapter = novelRef.current?.chapters?.find(c => c.id === chaptersToPolish[i].id);
+        if (!chapter) continue;
+        setBatchPolishProgress({
+          current: i + 1,
+          total: chaptersToPolish.length,
+          currentChapter: chapter.title
+        });
 
-      if (!chapter.content.trim()) continue;
+        if (!chapter.content.trim()) continue;
 
-      const prompt = `请对以下小说章节内容进行精修润色，保持原意和人物性格，提升文笔质量，使表达更加生动流畅。只输出修改后的内容，不要输出任何解释：
+        const prompt = `请对以下小说章节内容进行精修润色，保持原意和人物性格，提升文笔质量，使表达更加生动流畅。只输出修改后的内容，不要输出任何解释：
 
 ${chapter.content}`;
 
-      try {
-        let polishedContent = '';
-        await generateCreativeContentStream(prompt, (chunk) => {
-          polishedContent += chunk;
-        }, selectedModel, { temperature });
-
-        if (polishedContent.trim()) {
-          updatedChapters = updatedChapters.map(c =>
-            c.id === chapter.id ? { ...c, content: polishedContent, wordCount: polishedContent.length } : c
-          );
+        try {
+          let polishedContent = '';
+          const { interrupted } = await generateCreativeContentStream(prompt, (chunk) => {
+            polishedContent += chunk;
+          }, selectedModel, { temperature, signal, usage: { feature: 'refinement', novelId: novel?.id } });
+
+          // 中途停止时不用半截精修结果覆盖原章节
+          if (interrupted) break;
+          if (!polishedContent.trim()) continue;
+
+          // 每章节完成后在最新的作品上写入，不覆盖作者同时进行的编辑
+          const latest = novelRef.current;
+          if (polishAsSuggestions) {
+            const suggestions = [...(latest?.suggestions ?? []), ...SuggestionService.createFromRevision({
+              chapterId: chapter.id,
+              content: chapter.content,
+              revised: polishedContent,
+              author: currentUser,
+              source: 'ai',
+              label: '批量精修',
+            })];
+            history.journal.include(() => onUpdateNovel({ suggestions }));
+          } else {
+            // 直接覆盖正文时，先为原正文留一个版本
+            const updatedChapters = (latest?.chapters ?? []).map(c =>
+              c.id === chapter.id
+                ? {
+                  ...VersionService.snapshot(c, { trigger: 'batch', note: '批量精修前', wordCountMode }),
+                  content: polishedContent,
+                  wordCount: countWords(polishedContent, wordCountMode),
+                }
+                : c
+            );
+            history.journal.include(() => onUpdateNovel({
+              chapters: updatedChapters,
+              wordCount: sumWordCount(updatedChapters)
+            }));
+          }
+        } catch (error) {
+          console.error(`章节 "${chapter.title}" 精修失败:`, error);
+          // 运行中超出预算时停止后续章节
+          if (error instanceof ApiError && error.code === ErrorCode.API_QUOTA_EXCEEDED) {
+            budgetMessage = error.message;
+            break;
+          }
         }
-      } catch (error) {
-        console.error(`章节 "${chapter.title}" 精修失败:`, error);
       }
+    }, { background: true });
 
-      // 每章节完成后更新
-      onUpdateNovel({
-        chapters: updatedChapters,
-        wordCount: updatedChapters.reduce((sum, ch) => sum + ch.wordCount, 0)
-      });
-    }
-
+    const stopped = batchPolishAbortRef.current || signal.aborted;
+    const saved = polishAsSuggestions ? '已完成的章节已生成修订建议' : '已完成的章节已保存';
     setIsBatchPolishing(false);
     setBatchPolishProgress(null);
     setBatchPolishChapters([]);
-    alert('批量精修完成！');
-  }, [batchPolishChapters, chapters, selectedModel, temperature, onUpdateNovel, setIsBatchPolishing, setBatchPolishPaused, setBatchPolishProgress]);
+    if (budgetMessage) {
+      alert(`${budgetMessage}，批量精修已停止，${saved}。`);
+    } else if (stopped) {
+      alert(`批量精修已停止，${saved}。`);
+    } else {
+      alert(polishAsSuggestions ? '批量精修完成！修改已记为修订建议，请在各章审阅。' : '批量精修完成！');
+    }
+  }, [novel?.id, permissions, currentUser, history.journal, batchPolishChapters, polishAsSuggestions, chapters, selectedModel, temperature, wordCountMode, onUpdateNovel, setIsBatchPolishing, setBatchPolishPaused, setBatchPolishProgress, beginAiGeneration]);
 
   const toggleBatchPolishChapter = useCallback((chapterId: string) => {
     setBatchPolishChapters(prev =>
@@ -470,9 +554,10 @@ ${chapter.content}`;
 
   const stopBatchPolish = useCallback(() => {
     batchPolishAbortRef.current = true;
+    stopAiGeneration();
     setIsBatchPolishing(false);
     setBatchPolishProgress(null);
-  }, [setIsBatchPolishing, setBatchPolishProgress]);
+  }, [stopAiGeneration, setIsBatchPolishing, setBatchPolishProgress]);
 
   // Diff 对比编辑器功能
   const startDiffRewrite = useCallback(async () => {
@@ -495,29 +580,30 @@ ${currentChapter.content}`;
       await generateCreativeContentStream(prompt, (chunk) => {
         rewrittenContent += chunk;
         setDiffRewrittenContent(rewrittenContent);
-      }, selectedModel, { temperature });
+      }, selectedModel, { temperature, usage: { feature: 'refinement', novelId: novel?.id } });
     } catch (error) {
       console.error('改写失败:', error);
       alert('改写失败，请重试');
     } finally {
       setIsDiffProcessing(false);
     }
-  }, [currentChapter, selectedModel, temperature, setDiffOriginalContent, setDiffRewrittenContent, setShowDiffEditor, setIsDiffProcessing]);
+  }, [novel?.id, currentChapter, selectedModel, temperature, setDiffOriginalContent, setDiffRewrittenContent, setShowDiffEditor, setIsDiffProcessing]);
 
   const applyDiffRewrite = useCallback(() => {
     if (!currentChapter || !diffRewrittenContent.trim()) return;
 
+    const saved = VersionService.snapshot(currentChapter, { trigger: 'ai', note: 'AI 改写前', wordCountMode });
     const updatedChapters = chapters.map(c =>
-      c.id === currentChapter.id ? { ...c, content: diffRewrittenContent, wordCount: diffRewrittenContent.length } : c
+      c.id === currentChapter.id ? { ...saved, content: diffRewrittenContent, wordCount: countWords(diffRewrittenContent, wordCountMode) } : c
     );
     onUpdateNovel({
       chapters: updatedChapters,
-      wordCount: updatedChapters.reduce((sum, ch) => sum + ch.wordCount, 0)
+      wordCount: sumWordCount(updatedChapters)
     });
     setShowDiffEditor(false);
     setDiffOriginalContent('');
     setDiffRewrittenContent('');
-  }, [currentChapter, diffRewrittenContent, chapters, onUpdateNovel, setShowDiffEditor, setDiffOriginalContent, setDiffRewrittenContent]);
+  }, [currentChapter, diffRewrittenContent, chapters, wordCountMode, onUpdateNovel, setShowDiffEditor, setDiffOriginalContent, setDiffRewrittenContent]);
 
   const closeDiffEditor = useCallback(() => {
     setShowDiffEditor(false);
@@ -525,6 +611,34 @@ ${currentChapter.content}`;
     setDiffRewrittenContent('');
   }, [setShowDiffEditor, setDiffOriginalContent, setDiffRewrittenContent]);
 
+  // 版本历史
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const chapterVersions = useMemo(() => VersionService.resolveAll(currentChapter?.versions), [currentChapter?.versions]);
+
+  const saveCurrentChapter = useCallback((chapter: Chapter) => {
+    const updatedChapters = chapters.map(c => (c.id === chapter.id ? chapter : c));
+    onUpdateNovel({ chapters: updatedChapters, wordCount: sumWordCount(updatedChapters) });
+  }, [chapters, onUpdateNovel]);
+
+  const saveChapterVersion = useCallback((note?: string) => {
+    if (!currentChapter) return;
+    saveCurrentChapter(VersionService.snapshot(currentChapter, { trigger: 'manual', note, milestone: !!note, wordCountMode }));
+  }, [currentChapter, wordCountMode, saveCurrentChapter]);
+
+  const restoreChapterVersion = useCallback((versionId: string) => {
+    if (!currentChapter) return;
+    const restored = VersionService.restore(currentChapter, versionId, wordCountMode);
+    if (restored) saveCurrentChapter(restored);
+    setSelectedVersionId(null);
+  }, [currentChapter, wordCountMode, saveCurrentChapter]);
+
+  const deleteChapterVersion = useCallback((versionId: string) => {
+    if (!currentChapter) return;
+    saveCurrentChapter({ ...currentChapter, versions: VersionService.remove(currentChapter.versions ?? [], versionId) });
+    if (selectedVersionId === versionId) setSelectedVersionId(null);
+  }, [currentChapter, selectedVersionId, saveCurrentChapter]);
+
   // 番茄钟
   const pomodoroRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -688,7 +802,9 @@ ${currentChapter.content}`;
             <button
               key={item.key}
               onClick={() => setCreativeModalType(item.key as CreativeManagementTab)}
-              className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50`}
+              disabled={!permissions.can('editCodex')}
+              title={permissions.explain('editCodex') ?? undefined}
+              className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50 disabled:opacity-50`}
             >
               <p className={`text-xs ${themeClasses.textMuted}`}>{item.label}</p>
               <p className="text-xl font-semibold mt-1">{item.count}</p>
@@ -705,7 +821,9 @@ ${currentChapter.content}`;
         <div className="grid grid-cols-2 gap-3">
           <button
             onClick={() => setShowOutlineManager(true)}
-            className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50`}
+            disabled={!permissions.can('editCodex')}
+            title={permissions.explain('editCodex') ?? undefined}
+            className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50 disabled:opacity-50`}
           >
             <div className="flex items-center gap-2 mb-1">
               <span>📋</span>
@@ -715,7 +833,9 @@ ${currentChapter.content}`;
           </button>
           <button
             onClick={() => setShowForeshadowingTracker(true)}
-            className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50`}
+            disabled={!permissions.can('editCodex')}
+            title={permissions.explain('editCodex') ?? undefined}
+            className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50 disabled:opacity-50`}
           >
             <div className="flex items-center gap-2 mb-1">
               <span>🌱</span>
@@ -942,30 +1062,37 @@ ${currentChapter.content}`;
           <p className={`text-sm font-semibold ${themeClasses.text}`}>导出工具</p>
           <span className={`text-xs ${themeClasses.textMuted}`}>导出当前章节</span>
         </div>
+        {!permissions.can('export') && (
+          <p className="text-xs text-amber-600 dark:text-amber-400">{permissions.explain('export')}</p>
+        )}
         <button
           onClick={exportToTXT}
-          className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
+          disabled={!permissions.can('export')}
+          className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors disabled:opacity-50`}
         >
           <span className={themeClasses.textMuted}>📄</span>
           导出为 TXT
         </button>
         <button
           onClick={exportToMarkdown}
-          className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
+          disabled={!permissions.can('export')}
+          className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors disabled:opacity-50`}
         >
           <span className={themeClasses.textMuted}>📝</span>
           导出为 Markdown
         </button>
         <button
           onClick={exportToWord}
-          className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
+          disabled={!permissions.can('export')}
+          className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors disabled:opacity-50`}
         >
           <span className={themeClasses.textMuted}>📘</span>
           导出为 Word
         </button>
         <button
           onClick={exportToPDF}
-          className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
+          disabled={!permissions.can('export')}
+          className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors disabled:opacity-50`}
         >
           <span className={themeClasses.textMuted}>📕</span>
           导出为 PDF
@@ -975,13 +1102,15 @@ ${currentChapter.content}`;
           <div className="flex gap-2">
             <button
               onClick={() => exportAllChapters('txt')}
-              className={`flex-1 px-3 py-1.5 rounded-xl border ${themeClasses.border} text-xs hover:border-[#97BC62]`}
+              disabled={!permissions.can('export')}
+              className={`flex-1 px-3 py-1.5 rounded-xl border ${themeClasses.border} text-xs hover:border-[#97BC62] disabled:opacity-50`}
             >
               全部 TXT
             </button>
             <button
               onClick={() => exportAllChapters('md')}
-              className={`flex-1 px-3 py-1.5 rounded-xl border ${themeClasses.border} text-xs hover:border-[#97BC62]`}
+              disabled={!permissions.can('export')}
+              className={`flex-1 px-3 py-1.5 rounded-xl border ${themeClasses.border} text-xs hover:border-[#97BC62] disabled:opacity-50`}
             >
               全部 Markdown
             </button>
@@ -997,7 +1126,9 @@ ${currentChapter.content}`;
         <div className="grid grid-cols-2 gap-3">
           <button
             onClick={() => setShowLocationManager(true)}
-            className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50`}
+            disabled={!permissions.can('editCodex')}
+            title={permissions.explain('editCodex') ?? undefined}
+            className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50 disabled:opacity-50`}
           >
             <div className="flex items-center gap-2 mb-1">
               <span>🏔️</span>
@@ -1007,7 +1138,9 @@ ${currentChapter.content}`;
           </button>
           <button
             onClick={() => setShowItemManager(true)}
-            className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50`}
+            disabled={!permissions.can('editCodex')}
+            title={permissions.explain('editCodex') ?? undefined}
+            className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50 disabled:opacity-50`}
           >
             <div className="flex items-center gap-2 mb-1">
               <span>⚔️</span>
@@ -1122,6 +1255,45 @@ ${currentChapter.content}`;
         )}
       </section>
 
+      {/* 版本历史 */}
+      <section className={`space-y-3 rounded-2xl border ${themeClasses.card} ${themeClasses.border} p-4`}>
+        <div className="flex items-center justify-between">
+          <div>
+            <p className={`text-sm font-semibold ${themeClasses.text}`}>版本历史</p>
+            <p className={`text-xs ${themeClasses.textMuted}`}>
+              {currentChapter ? `当前章节 ${chapterVersions.length} 个版本` : '请先选择章节'}
+            </p>
+          </div>
+          <button
+            className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62]`}
+            onClick={() => setShowVersionHistory(true)}
+            disabled={!currentChapter}
+          >
+            查看
+          </button>
+        </div>
+        <p className={`text-[10px] ${themeClasses.textMuted}`}>
+          AI 写入和批量操作前、会话结束时自动保存；24 小时内全部保留，一周内每小时一个，更早的每天一个
+        </p>
+      </section>
+
+      {showVersionHistory && currentChapter && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowVersionHistory(false)}>
+          <div className="w-[480px] h-[80vh] rounded-2xl overflow-hidden shadow-xl" onClick={(e) => e.stopPropagation()}>
+            <VersionHistoryPanel
+              versions={chapterVersions}
+              selectedVersionId={selectedVersionId}
+              currentContent={currentChapter.content}
+              onSelectVersion={setSelectedVersionId}
+              onRestoreVersion={restoreChapterVersion}
+              onDeleteVersion={deleteChapterVersion}
+              onSaveVersion={saveChapterVersion}
+              onClose={() => setShowVersionHistory(false)}
+            />
+          </div>
+        </div>
+      )}
+
       {/* AI 角色对话生成 */}
       <section className={`space-y-3 rounded-2xl border ${themeClasses.card} ${themeClasses.border} p-4`}>
         <div className="flex items-center justify-between">
@@ -1226,9 +1398,21 @@ ${currentChapter.content}`;
                     </label>
                   ))}
                 </div>
+                <label className={`flex items-center gap-2 text-xs ${themeClasses.textMuted}`}>
+                  <input
+                    type="checkbox"
+                    checked={polishAsSuggestions}
+                    onChange={(e) => setPolishAsSuggestions(e.target.checked)}
+                    className="accent-[#2C5F2D]"
+                  />
+                  作为修订建议输出（逐处审阅后再写入正文）
+                </label>
+                {!permissions.can('aiBatch') && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400">{permissions.explain('aiBatch')}</p>
+                )}
                 <button
                   onClick={startBatchPolish}
-                  disabled={batchPolishChapters.length === 0}
+                  disabled={batchPolishChapters.length === 0 || !permissions.can('aiBatch')}
                   className="w-full py-2 text-sm bg-[#F0F7F0]0 text-white rounded-lg hover:bg-[#1E4620] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   开始批量精修 ({batchPolishChapters.length} 章)
@@ -1323,7 +1507,7 @@ ${currentChapter.content}`;
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".txt,.md"
+          accept=".txt,.md,.epub,.docx"
           onChange={handleFileImport}
           className="hidden"
         />
@@ -1332,11 +1516,19 @@ ${currentChapter.content}`;
           className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
         >
           <span className={themeClasses.textMuted}>📥</span>
-          导入 TXT/Markdown 文件
+          导入 TXT/Markdown/EPUB/Word 文件
         </button>
         <p className={`text-[10px] ${themeClasses.textMuted}`}>
-          支持多选，每个文件将作为一个新章节导入
+          支持多选，自动识别编码并按卷、章标题拆分，预览确认后追加到本书
         </p>
+        {importSources && (
+          <ImportPreviewModal
+            sources={importSources}
+            confirmLabel="追加到本书"
+            onConfirm={confirmFileImport}
+            onCancel={() => setImportSources(null)}
+          />
+        )}
       </section>
 
       {/* 番茄钟 */}
@@ -1391,7 +1583,9 @@ ${currentChapter.content}`;
         </div>
         <button
           onClick={exportBackup}
-          className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-green-400 transition-colors`}
+          disabled={!permissions.can('export')}
+          title={permissions.explain('export') ?? undefined}
+          className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-green-400 transition-colors disabled:opacity-50`}
         >
           <span className={themeClasses.textMuted}>💾</span>
           导出完整备份
@@ -1,8 +1,18 @@
-import React, { useRef, useCallback, useState, memo } from 'react';
+import React, { useRef, useCallback, useMemo, useState, useLayoutEffect, memo } from 'react';
 import { useEditorStore } from '../store/editorStore';
 import { useEditorContext } from '../context/EditorContext';
 import { generateCreativeContentStream } from '../../../../services/api/gemini';
+import { diffText } from '../../../../services/collaboration/TextCrdt';
+import { useChapterCollaboration, useCollaboration } from '../../../../hooks/useCollaboration';
+import { CommentService, type CommentFilter, type MentionCandidate } from '../../../../services/comment/CommentService';
+import { SuggestionService, type AcceptResult } from '../../../../services/suggestion/SuggestionService';
+import { VersionService } from '../../../../services/version/VersionService';
+import type { ChapterComment } from '../../../../types';
 import { useToast } from '../../../ui/Toast';
+import CollaboratorOverlay from './CollaboratorOverlay';
+import CommentHighlights from './CommentHighlights';
+import CommentMargin, { DRAFT_ID, type LocatedThread } from './CommentMargin';
+import SuggestionReview from './SuggestionReview';
 
 interface WritingEditorProps {
   onTextSelect?: (text: string) => void;
@@ -13,9 +23,14 @@ const WritingEditor: React.FC<WritingEditorProps> = ({ onTextSelect }) => {
   const {
     themeClasses,
     effectiveTheme,
+    novel,
     currentChapter,
+    wordCountMode,
     addChapter,
     updateChapter,
+    onUpdateNovel,
+    permissions,
+    currentUser,
   } = useEditorContext();
 
   const {
@@ -29,9 +44,275 @@ const WritingEditor: React.FC<WritingEditorProps> = ({ onTextSelect }) => {
     selectedModel,
     temperature,
     maxTokens,
+    beginAiGeneration,
+    stopAiGeneration,
   } = useEditorStore();
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const textStyle = useMemo<React.CSSProperties>(
+    () => ({ fontFamily, fontSize: `${fontSize}px`, lineHeight }),
+    [fontFamily, fontSize, lineHeight]
+  );
+  const [viewport, setViewport] = useState({ scrollTop: 0, scrollbarWidth: 0 });
+  const pendingSelectionRef = useRef<{ start: number; end: number } | null>(null);
+
+  // 其他作者的编辑：替换正文，并把本地光标按变化区间平移；整篇被协作者的正文取代时先保存本地正文
+  const handleRemoteContent = useCallback((content: string, replaced?: string) => {
+    if (!currentChapter) return;
+    const textarea = textareaRef.current;
+    const diff = diffText(currentChapter.content, content);
+    if (textarea && diff) {
+      const shift = (offset: number) => {
+        if (offset <= diff.index) return offset;
+        if (offset >= diff.index + diff.deleteCount) return offset + diff.insert.length - diff.deleteCount;
+        return diff.index + diff.insert.length;
+      };
+      pendingSelectionRef.current = { start: shift(textarea.selectionStart), end: shift(textarea.selectionEnd) };
+    }
+    if (replaced === undefined) {
+      updateChapter(currentChapter.id, { content });
+      return;
+    }
+    const saved = VersionService.snapshot(currentChapter, {
+      trigger: 'sync',
+      note: '协同编辑：被协作者正文取代的本机正文',
+      content: replaced,
+      wordCountMode,
+    });
+    updateChapter(currentChapter.id, { content, versions: saved.versions });
+  }, [currentChapter, wordCountMode, updateChapter]);
+
+  const { active: collaborating, applyLocalChange, updateLocalSelection } = useChapterCollaboration({
+    novelId: novel?.id,
+    chapterId: currentChapter?.id,
+    content: currentChapter?.content ?? '',
+    onRemoteContent: handleRemoteContent,
+  });
+
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    const textarea = textareaRef.current;
+    if (selection && textarea) {
+      pendingSelectionRef.current = null;
+      textarea.setSelectionRange(selection.start, selection.end);
+    }
+  }, [currentChapter?.content]);
+
+  const syncViewport = useCallback(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const next = { scrollTop: textarea.scrollTop, scrollbarWidth: textarea.offsetWidth - textarea.clientWidth };
+    setViewport(prev =>
+      prev.scrollTop === next.scrollTop && prev.scrollbarWidth === next.scrollbarWidth ? prev : next
+    );
+  }, []);
+
+  // ============ 批注 ============
+  const [showComments, setShowComments] = useState(true);
+  const [commentFilter, setCommentFilter] = useState<CommentFilter>({ status: 'open' });
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [selectionRange, setSelectionRange] = useState<{ start: number; end: number } | null>(null);
+  const [commentDraft, setCommentDraft] = useState<{ start: number; end: number } | null>(null);
+  const [commentTops, setCommentTops] = useState<Record<string, number>>({});
+  const { collaborators } = useCollaboration();
+
+  const comments = useMemo(() => novel?.comments ?? [], [novel?.comments]);
+  const canComment = permissions.can('comment');
+
+  const commentThreads = useMemo<LocatedThread[]>(() => {
+    if (!currentChapter) return [];
+    return CommentService.getThreads(comments, { ...commentFilter, chapterId: currentChapter.id })
+      .map(thread => ({
+        ...thread,
+        position: thread.root.anchor
+          ? CommentService.resolveAnchor(currentChapter.content, thread.root.anchor)
+          : { start: 0, end: 0, quote: '', detached: true },
+      }))
+      .sort((a, b) => a.position.start - b.position.start);
+  }, [comments, commentFilter, currentChapter]);
+
+  const commentRanges = useMemo(() => [
+    ...commentThreads
+      .filter(thread => !thread.position.detached)
+      .map(thread => ({ id: thread.root.id, start: thread.position.start, end: thread.position.end })),
+    ...(commentDraft ? [{ id: DRAFT_ID, ...commentDraft }] : []),
+  ], [commentThreads, commentDraft]);
+
+  // 可以 @ 的人：在线协作者和参与过批注的作者
+  const mentionCandidates = useMemo<MentionCandidate[]>(() => {
+    const candidates = new Map<string, MentionCandidate>();
+    CommentService.getAuthors(comments).forEach(author => candidates.set(author.id, { userId: author.id, username: author.name }));
+    collaborators.forEach(collaborator => candidates.set(collaborator.userId, collaborator));
+    candidates.delete(currentUser.id);
+    return [...candidates.values()].map(({ userId, username }) => ({ userId, username }));
+  }, [comments, collaborators, currentUser.id]);
+
+  const handleCommentMeasure = useCallback((tops: Record<string, number>) => {
+    setCommentTops(prev => {
+      const same = Object.keys(tops).length === Object.keys(prev).length
+        && Object.keys(tops).every(id => prev[id] === tops[id]);
+      return same ? prev : tops;
+    });
+  }, []);
+
+  const saveComments = useCallback((next: ChapterComment[]) => {
+    onUpdateNovel({ comments: next });
+  }, [onUpdateNovel]);
+
+  const startComment = useCallback(() => {
+    if (!selectionRange || selectionRange.start === selectionRange.end) return;
+    setShowComments(true);
+    setActiveCommentId(null);
+    setCommentDraft(selectionRange);
+  }, [selectionRange]);
+
+  const submitComment = useCallback((content: string) => {
+    if (!currentChapter || !commentDraft) return;
+    const comment = CommentService.createComment({
+      chapterId: currentChapter.id,
+      chapterContent: currentChapter.content,
+      ...commentDraft,
+      content,
+      author: currentUser,
+      candidates: mentionCandidates,
+    });
+    saveComments([...comments, comment]);
+    setCommentDraft(null);
+    setActiveCommentId(comment.id);
+  }, [currentChapter, commentDraft, currentUser, mentionCandidates, comments, saveComments]);
+
+  const replyComment = useCallback((root: ChapterComment, content: string) => {
+    saveComments([...comments, CommentService.createReply(root, content, currentUser, mentionCandidates)]);
+  }, [comments, currentUser, mentionCandidates, saveComments]);
+
+  const resolveComment = useCallback((root: ChapterComment, resolved: boolean) => {
+    saveComments(CommentService.setResolved(comments, root.id, resolved, currentUser.id));
+    if (resolved) setActiveCommentId(null);
+  }, [comments, currentUser.id, saveComments]);
+
+  const deleteComment = useCallback((comment: ChapterComment) => {
+    const isThread = !comment.parentId;
+    if (isThread && !window.confirm('删除这条批注及其所有回复？')) return;
+    saveComments(CommentService.removeComment(comments, comment.id));
+    if (isThread && activeCommentId === comment.id) setActiveCommentId(null);
+  }, [comments, activeCommentId, saveComments]);
+
+  // 选中批注时，把被批注的文字滚动到可见区域
+  const activateComment = useCallback((id: string | null) => {
+    setActiveCommentId(id);
+    const textarea = textareaRef.current;
+    const top = id ? commentTops[id] : undefined;
+    if (!textarea || top === undefined) return;
+    if (top < textarea.scrollTop || top > textarea.scrollTop + textarea.clientHeight - 40) {
+      textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 3);
+    }
+  }, [commentTops]);
+
+  // 切换章节时放弃未发出的批注
+  useLayoutEffect(() => {
+    setCommentDraft(null);
+    setActiveCommentId(null);
+    setSelectionRange(null);
+  }, [currentChapter?.id]);
+
+  // 本章有批注或正在撰写批注时显示批注栏
+  const commentsVisible = showComments
+    && (!!commentDraft || comments.some(comment => comment.chapterId === currentChapter?.id));
+
+  // 正文变化可能带来滚动条，协作或显示批注时让镜像层保持对齐
+  useLayoutEffect(() => {
+    if (collaborating || commentsVisible) syncViewport();
+  }, [collaborating, commentsVisible, currentChapter?.content, syncViewport]);
+
+  // ============ 修订模式 ============
+  // 修订模式下编辑的是一份草稿，提交时与正文比较，每处改动记为一条修订建议
+  const [suggesting, setSuggesting] = useState(false);
+  const [suggestionDraft, setSuggestionDraft] = useState<string | null>(null);
+  const [reviewingSuggestions, setReviewingSuggestions] = useState(false);
+
+  const suggestions = useMemo(() => novel?.suggestions ?? [], [novel?.suggestions]);
+  const canSuggest = permissions.can('suggest');
+
+  const chapterSuggestions = useMemo(
+    () => (currentChapter ? SuggestionService.locateAll(currentChapter.content, suggestions, currentChapter.id) : []),
+    [currentChapter, suggestions]
+  );
+
+  const editorValue = (suggesting ? suggestionDraft : null) ?? currentChapter?.content ?? '';
+  const draftChanged = suggesting && suggestionDraft !== null && suggestionDraft !== currentChapter?.content;
+
+  // 所有对正文的编辑都经过这里：修订模式下只改草稿
+  const writeContent = useCallback((content: string) => {
+    if (!currentChapter) return;
+    if (suggesting) {
+      setSuggestionDraft(content);
+      return;
+    }
+    applyLocalChange(content);
+    updateChapter(currentChapter.id, { content });
+  }, [currentChapter, suggesting, applyLocalChange, updateChapter]);
+
+  const submitSuggestions = useCallback(() => {
+    if (!currentChapter || suggestionDraft === null) return;
+    const created = SuggestionService.createFromRevision({
+      chapterId: currentChapter.id,
+      content: currentChapter.content,
+      revised: suggestionDraft,
+      author: currentUser,
+      source: 'manual',
+    });
+    setSuggestionDraft(null);
+    if (created.length === 0) return;
+    onUpdateNovel({ suggestions: [...suggestions, ...created] });
+    toast.success(`已提交 ${created.length} 处修订建议`);
+  }, [currentChapter, suggestionDraft, currentUser, suggestions, onUpdateNovel, toast]);
+
+  const toggleSuggesting = useCallback(() => {
+    if (draftChanged && !window.confirm('退出修订模式将放弃尚未提交的修改，是否继续？')) return;
+    setSuggesting(!suggesting);
+    setSuggestionDraft(null);
+  }, [suggesting, draftChanged]);
+
+  const saveAccepted = useCallback((result: AcceptResult) => {
+    if (!currentChapter) return;
+    applyLocalChange(result.content);
+    updateChapter(currentChapter.id, { content: result.content });
+    onUpdateNovel({ suggestions: result.suggestions });
+  }, [currentChapter, applyLocalChange, updateChapter, onUpdateNovel]);
+
+  const acceptSuggestion = useCallback((id: string) => {
+    if (!currentChapter) return;
+    const result = SuggestionService.accept(currentChapter.content, suggestions, id);
+    if (!result) {
+      toast.error('原文已被改写，这条建议无法再应用');
+      return;
+    }
+    saveAccepted(result);
+  }, [currentChapter, suggestions, saveAccepted, toast]);
+
+  const acceptAllSuggestions = useCallback(() => {
+    if (!currentChapter) return;
+    const result = SuggestionService.acceptAll(currentChapter.content, suggestions, currentChapter.id);
+    saveAccepted(result);
+    const remaining = SuggestionService.count(result.suggestions, currentChapter.id);
+    toast.success(remaining > 0
+      ? `已接受 ${result.accepted} 条建议，另有 ${remaining} 条需要单独处理`
+      : `已接受 ${result.accepted} 条建议`);
+  }, [currentChapter, suggestions, saveAccepted, toast]);
+
+  const rejectSuggestion = useCallback((id: string) => {
+    onUpdateNovel({ suggestions: SuggestionService.reject(suggestions, id) });
+  }, [suggestions, onUpdateNovel]);
+
+  const rejectAllSuggestions = useCallback(() => {
+    if (!currentChapter || !window.confirm('拒绝本章的全部修订建议？')) return;
+    onUpdateNovel({ suggestions: SuggestionService.removeChapterSuggestions(suggestions, currentChapter.id) });
+  }, [currentChapter, suggestions, onUpdateNovel]);
+
+  // 切换章节时放弃未提交的修订草稿
+  useLayoutEffect(() => {
+    setSuggestionDraft(null);
+  }, [currentChapter?.id]);
 
   // 在光标位置插入格式化文本
   const insertFormattedText = useCallback((type: 'bold' | 'italic' | 'dialog' | 'thought' | 'emphasis') => {
@@ -40,7 +321,7 @@ const WritingEditor: React.FC<WritingEditorProps> = ({ onTextSelect }) => {
     const textarea = textareaRef.current;
     const start = textarea.selectionStart;
     const end = textarea.selectionEnd;
-    const content = currentChapter.content;
+    const content = editorValue;
     const selectedText = content.substring(start, end);
 
     let newText = '';
@@ -69,21 +350,20 @@ const WritingEditor: React.FC<WritingEditorProps> = ({ onTextSelect }) => {
         break;
     }
 
-    const newContent = content.substring(0, start) + newText + content.substring(end);
-    updateChapter(currentChapter.id, { content: newContent });
+    writeContent(content.substring(0, start) + newText + content.substring(end));
 
     // 设置光标位置
     setTimeout(() => {
       textarea.focus();
       textarea.setSelectionRange(start + cursorOffset, start + cursorOffset);
     }, 0);
-  }, [currentChapter, updateChapter]);
+  }, [currentChapter, editorValue, writeContent]);
 
   // 格式化对话（自动为引号内容添加格式）
   const formatDialogs = useCallback(() => {
     if (!currentChapter) return;
 
-    let content = currentChapter.content;
+    let content = editorValue;
 
     // 将英文引号替换为中文引号
     content = content.replace(/"([^"]+)"/g, '"$1"');
@@ -91,26 +371,27 @@ const WritingEditor: React.FC<WritingEditorProps> = ({ onTextSelect }) => {
     // 将单引号对话替换为双引号
     content = content.replace(/'([^']+)'/g, '"$1"');
 
-    updateChapter(currentChapter.id, { content });
-  }, [currentChapter, updateChapter]);
+    writeContent(content);
+  }, [currentChapter, editorValue, writeContent]);
 
   // 处理文本选择
   const handleTextSelection = useCallback(() => {
     if (!textareaRef.current) return;
-    const selected = textareaRef.current.value.substring(
-      textareaRef.current.selectionStart,
-      textareaRef.current.selectionEnd
-    );
+    const { selectionStart, selectionEnd } = textareaRef.current;
+    updateLocalSelection(selectionStart, selectionEnd);
+    setSelectionRange({ start: selectionStart, end: selectionEnd });
+    const selected = textareaRef.current.value.substring(selectionStart, selectionEnd);
     if (selected.trim() && onTextSelect) {
       onTextSelect(selected);
     }
-  }, [onTextSelect]);
+  }, [onTextSelect, updateLocalSelection]);
 
   // AI 续写
   const continueWriting = useCallback(async () => {
     if (!currentChapter || isStreaming) return;
 
     setIsStreaming(true);
+    const signal = beginAiGeneration();
 
     const prompt = `你是一位专业的网文作家。请根据以下已有内容，继续续写一段（约200-300字）。保持文风一致，情节连贯。
 
@@ -121,7 +402,7 @@ ${currentChapter.content.slice(-1000)}
 
     try {
       let newContent = currentChapter.content;
-      await generateCreativeContentStream(
+      const { interrupted } = await generateCreativeContentStream(
         prompt,
         (chunk) => {
           newContent += chunk;
@@ -131,15 +412,20 @@ ${currentChapter.content.slice(-1000)}
         {
           temperature,
           maxTokens: maxTokens === 'unlimited' ? undefined : maxTokens,
+          signal,
+          usage: { feature: 'continue_writing', novelId: novel?.id },
         }
       );
+      if (interrupted) {
+        toast.info('已停止生成，保留已生成的内容');
+      }
     } catch (error) {
       console.error('AI 续写失败:', error);
       toast.error('AI 续写失败，请稍后重试');
     } finally {
       setIsStreaming(false);
     }
-  }, [currentChapter, isStreaming, selectedModel, temperature, maxTokens, updateChapter, setIsStreaming]);
+  }, [novel?.id, currentChapter, isStreaming, selectedModel, temperature, maxTokens, updateChapter, setIsStreaming, beginAiGeneration]);
 
   if (!currentChapter) {
     return (
@@ -162,15 +448,86 @@ ${currentChapter.content.slice(-1000)}
           <p className={`text-base font-semibold ${themeClasses.text}`}>{currentChapter.title}</p>
           <p className={`text-xs ${themeClasses.textMuted}`}>{currentChapter.wordCount} 字</p>
         </div>
-        <button
-          className="px-4 py-2 rounded-xl bg-slate-900 text-white text-xs disabled:opacity-60"
-          onClick={continueWriting}
-          disabled={isStreaming}
-        >
-          {isStreaming ? '推演中...' : 'AI 续写'}
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            className={`px-3 py-2 rounded-xl border text-xs ${themeClasses.border} ${showComments ? 'text-[#2C5F2D] dark:text-[#97BC62]' : themeClasses.textMuted}`}
+            onClick={() => setShowComments(!showComments)}
+            title={showComments ? '隐藏批注栏' : '显示批注栏'}
+          >
+            💬 {CommentService.countOpen(comments, currentChapter.id)}
+          </button>
+          <button
+            className={`px-3 py-2 rounded-xl border text-xs ${themeClasses.border} hover:border-[#97BC62] disabled:opacity-50`}
+            onClick={startComment}
+            disabled={!canComment || !selectionRange || selectionRange.start === selectionRange.end}
+            title={permissions.explain('comment') ?? '选中正文后添加批注'}
+          >
+            批注
+          </button>
+          <button
+            className={`px-3 py-2 rounded-xl border text-xs disabled:opacity-50 ${
+              suggesting ? 'border-[#2C5F2D] bg-[#2C5F2D] text-white' : `${themeClasses.border} hover:border-[#97BC62]`
+            }`}
+            onClick={toggleSuggesting}
+            disabled={!canSuggest && !suggesting}
+            title={permissions.explain('suggest') ?? (suggesting ? '退出修订模式' : '修改将记为修订建议，由作者逐条接受或拒绝')}
+          >
+            修订模式
+          </button>
+          {chapterSuggestions.length > 0 && (
+            <button
+              className={`px-3 py-2 rounded-xl border text-xs ${themeClasses.border} ${reviewingSuggestions ? 'text-[#2C5F2D] dark:text-[#97BC62]' : themeClasses.textMuted}`}
+              onClick={() => setReviewingSuggestions(!reviewingSuggestions)}
+              title="查看并处理本章的修订建议"
+            >
+              审阅 {chapterSuggestions.length}
+            </button>
+          )}
+          {isStreaming ? (
+            <button
+              className="px-4 py-2 rounded-xl bg-rose-600 text-white text-xs"
+              onClick={stopAiGeneration}
+              title="停止生成，已生成的内容会保留"
+            >
+              停止生成
+            </button>
+          ) : (
+            <button
+              className="px-4 py-2 rounded-xl bg-slate-900 text-white text-xs disabled:opacity-60"
+              onClick={continueWriting}
+              disabled={permissions.readOnly}
+              title={permissions.explain('editChapter') ?? undefined}
+            >
+              AI 续写
+            </button>
+          )}
+        </div>
       </div>
 
+      {permissions.readOnly && (
+        <div className={`px-6 py-2 border-b ${themeClasses.border} text-xs bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300`}>
+          只读模式：{permissions.explain('editChapter')}
+        </div>
+      )}
+
+      {suggesting && (
+        <div className={`px-6 py-2 border-b ${themeClasses.border} flex items-center justify-between gap-3 text-xs bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300`}>
+          <span>修订模式：修改不会直接写入正文，提交后作为修订建议等待作者处理</span>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button onClick={() => setSuggestionDraft(null)} disabled={!draftChanged} className="hover:underline disabled:opacity-50">
+              放弃修改
+            </button>
+            <button
+              onClick={submitSuggestions}
+              disabled={!draftChanged}
+              className="px-2.5 py-1 rounded-lg bg-[#2C5F2D] text-white hover:bg-[#1E4620] disabled:opacity-50"
+            >
+              提交修订
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 富文本编辑工具栏 */}
       {showRichTextToolbar && (
         <div className={`px-6 py-2 border-b ${themeClasses.border} flex items-center gap-2`}>
@@ -246,19 +603,86 @@ ${currentChapter.content.slice(-1000)}
       )}
 
       {/* 编辑区域 */}
-      <textarea
-        ref={textareaRef}
-        value={currentChapter.content}
-        onChange={(e) => updateChapter(currentChapter.id, { content: e.target.value })}
-        onSelect={handleTextSelection}
-        style={{ fontFamily, fontSize: `${fontSize}px`, lineHeight }}
-        className={`flex-1 w-full p-6 text-base leading-relaxed focus:outline-none transition-colors duration-300 ${
-          effectiveTheme === 'dark' ? 'bg-slate-900 text-slate-100' :
-          effectiveTheme === 'gray' ? 'bg-[#f5f3f0] text-slate-800' :
-          'bg-white text-slate-800'
-        }`}
-        placeholder="在此开始书写正文...（选中文本可使用 AI 扩写/润色）"
-      />
+      {reviewingSuggestions && chapterSuggestions.length > 0 ? (
+        <SuggestionReview
+          content={currentChapter.content}
+          suggestions={chapterSuggestions}
+          textStyle={textStyle}
+          themeClasses={themeClasses}
+          currentUserId={currentUser.id}
+          canAccept={!permissions.readOnly}
+          acceptDisabledReason={permissions.explain('editChapter')}
+          onAccept={acceptSuggestion}
+          onReject={rejectSuggestion}
+          onAcceptAll={acceptAllSuggestions}
+          onRejectAll={rejectAllSuggestions}
+          onClose={() => setReviewingSuggestions(false)}
+        />
+      ) : (
+        <div className="flex-1 flex min-h-0">
+          <div className="relative flex-1 flex">
+            <textarea
+              ref={textareaRef}
+              value={editorValue}
+              onChange={(e) => writeContent(e.target.value)}
+              readOnly={suggesting ? !canSuggest : permissions.readOnly}
+              onSelect={handleTextSelection}
+              onScroll={syncViewport}
+              style={textStyle}
+              className={`flex-1 w-full p-6 text-base leading-relaxed focus:outline-none transition-colors duration-300 ${
+                effectiveTheme === 'dark' ? 'bg-slate-900 text-slate-100' :
+                effectiveTheme === 'gray' ? 'bg-[#f5f3f0] text-slate-800' :
+                'bg-white text-slate-800'
+              }`}
+              placeholder="在此开始书写正文...（选中文本可使用 AI 扩写/润色）"
+            />
+            {/* 修订草稿与正文不同时，按正文定位的镜像层对不齐，暂不显示 */}
+            {commentsVisible && commentRanges.length > 0 && !draftChanged && (
+              <CommentHighlights
+                content={currentChapter.content}
+                ranges={commentRanges}
+                activeId={commentDraft ? DRAFT_ID : activeCommentId}
+                textStyle={textStyle}
+                scrollTop={viewport.scrollTop}
+                scrollbarWidth={viewport.scrollbarWidth}
+                onMeasure={handleCommentMeasure}
+              />
+            )}
+            {collaborating && !draftChanged && (
+              <CollaboratorOverlay
+                chapterId={currentChapter.id}
+                content={currentChapter.content}
+                textStyle={textStyle}
+                scrollTop={viewport.scrollTop}
+                scrollbarWidth={viewport.scrollbarWidth}
+              />
+            )}
+          </div>
+          {commentsVisible && (
+            <CommentMargin
+              threads={commentThreads}
+              draft={commentDraft ? { quote: currentChapter.content.slice(commentDraft.start, commentDraft.end) } : null}
+              tops={commentTops}
+              scrollTop={viewport.scrollTop}
+              activeId={activeCommentId}
+              onActivate={activateComment}
+              filter={commentFilter}
+              onFilterChange={setCommentFilter}
+              authors={CommentService.getAuthors(comments)}
+              currentUser={currentUser}
+              candidates={mentionCandidates}
+              canComment={canComment}
+              canModerate={!permissions.readOnly}
+              themeClasses={themeClasses}
+              onSubmitDraft={submitComment}
+              onCancelDraft={() => setCommentDraft(null)}
+              onReply={replyComment}
+              onResolve={resolveComment}
+              onDelete={deleteComment}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,7 +1,12 @@
-import React, { createContext, useContext, useMemo, useEffect, useState, useCallback } from 'react';
+import React, { createContext, useContext, useMemo, useEffect, useState, useCallback, useRef } from 'react';
 import { Novel, Chapter, ActivityEntry, PromptEntry } from '../../../../types';
 import { useEditorStore, ThemeOption } from '../store/editorStore';
 import { createChapterId } from '../../../../utils/id';
+import { countWords, getWordCountMode, sumWordCount, type WordCountMode } from '../../../../utils/wordCount';
+import { useNovelPermissions, type NovelPermissions } from '../../../../hooks/useAcl';
+import { useNovelHistory, type NovelHistory } from '../../../../hooks/useNovelHistory';
+import { CommentService } from '../../../../services/comment/CommentService';
+import { SuggestionService } from '../../../../services/suggestion/SuggestionService';
 
 // 主题样式类型
 export interface ThemeClasses {
@@ -20,6 +25,14 @@ interface EditorContextValue {
   novel: Novel | null;
   chapters: Chapter[];
   currentChapter: Chapter | null;
+  /** 作品的字数统计口径 */
+  wordCountMode: WordCountMode;
+  /** 当前用户在作品中的权限 */
+  permissions: NovelPermissions;
+  /** 当前用户（批注作者），未登录时为本机用户 */
+  currentUser: { id: string; name: string };
+  /** 本次会话的操作历史，批量操作用 history.journal.transaction 包裹以便整体撤销 */
+  history: NovelHistory;
 
   // 主题
   effectiveTheme: 'light' | 'gray' | 'dark';
@@ -53,16 +66,45 @@ interface EditorProviderProps {
   onBack: () => void;
   onRecordActivity?: (entry: Omit<ActivityEntry, 'id' | 'createdAt'> & { createdAt?: string }) => void;
   prompts?: PromptEntry[];
+  /** 当前用户 ID，用于权限检查（不传时不做限制） */
+  currentUserId?: string;
+  /** 当前用户显示名称 */
+  currentUserName?: string;
 }
 
+const LOCAL_USER = { id: 'local', name: '我' };
+
 export const EditorProvider: React.FC<EditorProviderProps> = ({
   children,
   novel,
-  onUpdateNovel,
+  onUpdateNovel: applyNovelUpdate,
   onBack,
   onRecordActivity,
-  prompts = []
+  prompts = [],
+  currentUserId,
+  currentUserName
 }) => {
+  const permissions = useNovelPermissions(novel?.id, currentUserId);
+  const currentUser = useMemo(
+    () => (currentUserId ? { id: currentUserId, name: currentUserName || currentUserId } : LOCAL_USER),
+    [currentUserId, currentUserName]
+  );
+
+  const history = useNovelHistory(novel?.id);
+  const novelRef = useRef(novel);
+  novelRef.current = novel;
+
+  // 所有修改都经过这里做权限检查并记入操作历史
+  const onUpdateNovel = useCallback((updates: Partial<Novel>) => {
+    const reason = permissions.explainUpdate(updates);
+    if (reason) {
+      alert(reason);
+      return;
+    }
+    if (novelRef.current) history.journal.record(novelRef.current, updates);
+    applyNovelUpdate(updates);
+  }, [permissions, applyNovelUpdate, history.journal]);
+
   const {
     themeOption,
     selectedChapterId,
@@ -130,6 +172,7 @@ export const EditorProvider: React.FC<EditorProviderProps> = ({
 
   // 章节数据
   const chapters = useMemo(() => novel?.chapters || [], [novel?.chapters]);
+  const wordCountMode = getWordCountMode(novel);
 
   const currentChapter = useMemo(
     () => chapters.find((c) => c.id === selectedChapterId) || null,
@@ -146,20 +189,25 @@ export const EditorProvider: React.FC<EditorProviderProps> = ({
       volumeId
     };
     const next = [...chapters, chapter];
-    onUpdateNovel({ chapters: next, wordCount: next.reduce((sum, ch) => sum + ch.wordCount, 0) });
+    onUpdateNovel({ chapters: next, wordCount: sumWordCount(next) });
     setSelectedChapterId(chapter.id);
   }, [chapters, onUpdateNovel, setSelectedChapterId]);
 
   // 更新章节
   const updateChapter = useCallback((chapterId: string, updates: Partial<Chapter>) => {
     const next = chapters.map((ch) =>
-      ch.id === chapterId ? { ...ch, ...updates, wordCount: (updates.content ?? ch.content).length } : ch
+      ch.id === chapterId ? { ...ch, ...updates, wordCount: countWords(updates.content ?? ch.content, wordCountMode) } : ch
     );
-    onUpdateNovel({ chapters: next, wordCount: next.reduce((sum, ch) => sum + ch.wordCount, 0) });
-  }, [chapters, onUpdateNovel]);
+    onUpdateNovel({ chapters: next, wordCount: sumWordCount(next) });
+  }, [chapters, wordCountMode, onUpdateNovel]);
 
   // 删除章节
   const deleteChapter = useCallback((chapterId: string) => {
+    const reason = permissions.explain('deleteChapter');
+    if (reason) {
+      alert(reason);
+      return;
+    }
     if (chapters.length <= 1) {
       alert('至少保留一个章节');
       return;
@@ -168,12 +216,18 @@ export const EditorProvider: React.FC<EditorProviderProps> = ({
     if (!window.confirm(`确定要删除"${chapter?.title}"吗？此操作不可撤销。`)) return;
 
     const next = chapters.filter(ch => ch.id !== chapterId);
-    onUpdateNovel({ chapters: next, wordCount: next.reduce((sum, ch) => sum + ch.wordCount, 0) });
+    const comments = novel?.comments?.some(comment => comment.chapterId === chapterId)
+      ? { comments: CommentService.removeChapterComments(novel.comments, chapterId) }
+      : {};
+    const suggestions = novel?.suggestions?.some(suggestion => suggestion.chapterId === chapterId)
+      ? { suggestions: SuggestionService.removeChapterSuggestions(novel.suggestions, chapterId) }
+      : {};
+    onUpdateNovel({ chapters: next, wordCount: sumWordCount(next), ...comments, ...suggestions });
 
     if (selectedChapterId === chapterId) {
       setSelectedChapterId(next[0]?.id || null);
     }
-  }, [chapters, selectedChapterId, onUpdateNovel, setSelectedChapterId]);
+  }, [chapters, novel?.comments, novel?.suggestions, selectedChapterId, onUpdateNovel, setSelectedChapterId, permissions]);
 
   // 上移章节
   const moveChapterUp = useCallback((chapterId: string) => {
@@ -218,7 +272,7 @@ export const EditorProvider: React.FC<EditorProviderProps> = ({
     const newChapters = [...chapters];
     newChapters.splice(index + 1, 0, newChapter);
 
-    onUpdateNovel({ chapters: newChapters, wordCount: newChapters.reduce((sum, ch) => sum + ch.wordCount, 0) });
+    onUpdateNovel({ chapters: newChapters, wordCount: sumWordCount(newChapters) });
     setSelectedChapterId(newChapter.id);
   }, [chapters, onUpdateNovel, setSelectedChapterId]);
 
@@ -234,6 +288,10 @@ export const EditorProvider: React.FC<EditorProviderProps> = ({
     novel,
     chapters,
     currentChapter,
+    wordCountMode,
+    permissions,
+    currentUser,
+    history,
     effectiveTheme,
     themeClasses,
     onUpdateNovel,
@@ -1,12 +1,31 @@
 import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
-import { Chapter, ActivityEntry, Novel, Character, Worldview, TimelineEvent, Reference, MindMap, MindMapNode, PromptEntry, Volume, OutlineNode, Foreshadowing, WritingGoal, WritingRecord, Location, Item, ChapterTemplate } from '../../../types';
+import { Chapter, ChapterSummaryRecord, CodexProposal, ActivityEntry, Novel, Character, Worldview, TimelineEvent, Reference, MindMap, MindMapNode, PromptEntry, Volume, OutlineNode, Foreshadowing, WritingGoal, WritingRecord, Location, Item, ChapterTemplate } from '../../../types';
 import { generateCreativeContentStream, GenerateOptions } from '../../../services/api/gemini';
 import { getApiSettings, getAvailableModels } from '../../../config/apiConfig';
 import CreativeManagementModal from './CreativeManagement';
 import OutlineManager from './OutlineManager';
 import ForeshadowingTracker from './ForeshadowingTracker';
+import SuggestionReview from './components/SuggestionReview';
+import NovelHistoryPanel from './components/NovelHistoryPanel';
+import NovelMemoryPanel from './components/NovelMemoryPanel';
+import StorySoFarPanel from './components/StorySoFarPanel';
+import CodexReviewPanel from './components/CodexReviewPanel';
 import { Maximize2, Minimize2 } from 'lucide-react';
 import { useFocusMode } from '../../../hooks';
+import { useNovelPermissions } from '../../../hooks/useAcl';
+import { useNovelHistory } from '../../../hooks/useNovelHistory';
+import { useNovelMemory } from '../../../hooks/useNovelMemory';
+import { useChapterSummaries } from '../../../hooks/useChapterSummaries';
+import { aclService, type NovelAction } from '../../../services/acl/AclService';
+import { CommentService } from '../../../services/comment/CommentService';
+import { SuggestionService, type AcceptResult } from '../../../services/suggestion/SuggestionService';
+import { VersionService, type SnapshotOptions } from '../../../services/version/VersionService';
+import { NovelMemoryService } from '../../../services/memory/NovelMemoryService';
+import { exportService, novelToExportContent } from '../../../services/export/ExportService';
+import { PdfFontService, type PdfFontInfo } from '../../../services/export/PdfFontService';
+import { ChapterSummaryService } from '../../../services/summary/ChapterSummaryService';
+import { CodexExtractionService, type CodexScanProgress } from '../../../services/codex/CodexExtractionService';
+import { UsageService } from '../../../services/usage/UsageService';
 import {
   createId,
   createChapterId,
@@ -24,6 +43,10 @@ import {
   createGoalId
 } from '../../../utils/id';
 import { escapeHtml, isNovel, safeParseJson } from '../../../utils';
+import { importService, createNovelStructure, type ManuscriptImportResult, type ManuscriptSource } from '../../../services/import/ImportService';
+import ImportPreviewModal from '../../ui/ImportPreviewModal';
+import VersionHistoryPanel from '../../ui/VersionHistoryPanel';
+import { countWords, getWordCountMode, recountChapters, sumWordCount, WORD_COUNT_MODES, type WordCountMode } from '../../../utils/wordCount';
 
 // AI 助手会话相关类型
 interface AIChatMessage {
@@ -31,6 +54,7 @@ interface AIChatMessage {
   role: 'user' | 'ai';
   content: string;
   createdAt: string;
+  interrupted?: boolean;
 }
 
 interface AIChatSession {
@@ -47,8 +71,14 @@ interface LongNovelEditorProps {
   onBack: () => void;
   onRecordActivity?: (entry: Omit<ActivityEntry, 'id' | 'createdAt'> & { createdAt?: string }) => void;
   prompts?: PromptEntry[];
+  /** 当前用户 ID，用于权限检查（不传时不做限制） */
+  currentUserId?: string;
+  /** 当前用户显示名称，记在修订建议上 */
+  currentUserName?: string;
 }
 
+const AI_TEXT_TOOL_LABELS = { expand: '扩写', polish: '润色', rewrite: '改写' } as const;
+
 type AssistantTab = 'ai' | 'tools' | 'settings';
 type EditorMode = 'writing' | 'mindmap';
 type CreativeManagementTab = 'characters' | 'worldview' | 'events' | 'references';
@@ -259,12 +289,51 @@ const formatSessionDate = (dateStr: string) => {
   return `${date.getFullYear()}/${month}/${day} ${hours}:${minutes}:${seconds}`;
 };
 
-const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel, onBack, onRecordActivity, prompts = [] }) => {
+const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel: applyNovelUpdate, onBack, onRecordActivity, prompts = [], currentUserId, currentUserName }) => {
   const chapters = useMemo(() => novel?.chapters || [], [novel?.chapters]);
+  const permissions = useNovelPermissions(novel?.id, currentUserId);
+  const currentUser = useMemo(
+    () => (currentUserId ? { id: currentUserId, name: currentUserName || currentUserId } : { id: 'local', name: '我' }),
+    [currentUserId, currentUserName]
+  );
+  // 最近一次被拒绝的修改的原因，显示在编辑区顶部
+  const [blockedReason, setBlockedReason] = useState<string | null>(null);
+
+  // 本次会话的操作历史，记录修改前的值需要最新的作品
+  const history = useNovelHistory(novel?.id);
+  const novelRef = useRef(novel);
+  novelRef.current = novel;
+
+  // 续写参考的分层记忆，章节和设定保存后自动更新
+  const novelMemory = useNovelMemory(novel);
+  const [showNovelMemory, setShowNovelMemory] = useState(false);
+
+  // 所有修改都经过这里做权限检查并记入操作历史；自动保存也会走到这里，所以拒绝时只记录原因而不弹窗
+  const onUpdateNovel = useCallback((updates: Partial<Novel>) => {
+    const reason = permissions.explainUpdate(updates);
+    if (reason) {
+      setBlockedReason(reason);
+      return;
+    }
+    if (novelRef.current) history.journal.record(novelRef.current, updates);
+    applyNovelUpdate(updates);
+  }, [permissions, applyNovelUpdate, history.journal]);
+
+  // 用户主动触发的操作（导出、删除等）在没有权限时提示原因
+  const ensureAllowed = useCallback((action: NovelAction) => {
+    const reason = permissions.explain(action);
+    if (reason) {
+      alert(reason);
+      return false;
+    }
+    return true;
+  }, [permissions]);
+  const wordCountMode = getWordCountMode(novel);
   const [selectedChapterId, setSelectedChapterId] = useState<string | null>(chapters[0]?.id || null);
   const [mode, setMode] = useState<EditorMode>('writing');
   const [assistantTab, setAssistantTab] = useState<AssistantTab>('ai');
   const [isStreaming, setIsStreaming] = useState(false);
+  const aiAbortRef = useRef<AbortController | null>(null);
   const [chatInput, setChatInput] = useState('');
 
   // AI 会话管理状态
@@ -367,7 +436,10 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
   const [aiTextToolType, setAiTextToolType] = useState<'expand' | 'polish' | 'rewrite' | null>(null);
   const [isAiTextProcessing, setIsAiTextProcessing] = useState(false);
   const [aiTextResult, setAiTextResult] = useState('');
+  // 选中文本在正文中的位置，AI 结果记为修订建议时以此为准
+  const aiTextRangeRef = useRef<{ start: number; end: number } | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [reviewingSuggestions, setReviewingSuggestions] = useState(false);
 
   // 场景/地点管理状态
   const [locations, setLocations] = useState<Location[]>([]);
@@ -400,8 +472,7 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
   const [sensitiveResults, setSensitiveResults] = useState<{word: string; chapter: string; position: number}[]>([]);
 
   // 文件导入状态
-  const [showImportModal, setShowImportModal] = useState(false);
-  const [importPreview, setImportPreview] = useState<{title: string; content: string}[]>([]);
+  const [importPreview, setImportPreview] = useState<ManuscriptSource[] | null>(null);
 
   // 专注模式
   const { isFocusMode, setIsFocusMode } = useFocusMode();
@@ -580,6 +651,118 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     selectedModelRef.current = selectedModel;
   }, [selectedModel]);
 
+  // ============ 章节摘要 ============
+
+  const [autoSummary, setAutoSummary] = useState(() => ChapterSummaryService.isAutoSummaryEnabled());
+  const [showStorySoFar, setShowStorySoFar] = useState(false);
+
+  // 摘要由后台生成而不是作者的修改，只做权限检查、不记入操作历史，撤销正文时摘要会自然过期
+  const applyChapterSummaries = useCallback((summaries: Record<string, ChapterSummaryRecord>) => {
+    const current = novelRef.current;
+    if (!current?.chapters) return;
+    const next = ChapterSummaryService.applySummaries(current.chapters, summaries);
+    if (next === current.chapters || permissions.explainUpdate({ chapters: next })) return;
+    applyNovelUpdate({ chapters: next });
+  }, [permissions, applyNovelUpdate]);
+
+  const chapterSummaries = useChapterSummaries(novel, {
+    enabled: autoSummary && !permissions.readOnly,
+    model: selectedModel,
+    onGenerated: applyChapterSummaries,
+  });
+
+  const toggleAutoSummary = useCallback(() => {
+    setAutoSummary(prev => {
+      ChapterSummaryService.setAutoSummaryEnabled(!prev);
+      return !prev;
+    });
+  }, []);
+
+  // ============ 设定提取 ============
+
+  const [showCodexReview, setShowCodexReview] = useState(false);
+  const [codexScanProgress, setCodexScanProgress] = useState<CodexScanProgress | null>(null);
+  const [codexScanError, setCodexScanError] = useState<string | null>(null);
+  const codexScanAbortRef = useRef<AbortController | null>(null);
+
+  // 扫描得到的建议还没有改动设定，同摘要一样不记入操作历史；批准、忽略时才记入
+  const addCodexProposals = useCallback((created: CodexProposal[]) => {
+    const current = novelRef.current;
+    if (!current || created.length === 0) return;
+    const next = CodexExtractionService.addProposals(current, created);
+    if (next === current.codexProposals || permissions.explainUpdate({ codexProposals: next })) return;
+    applyNovelUpdate({ codexProposals: next });
+  }, [permissions, applyNovelUpdate]);
+
+  const scanCodex = useCallback(async (chapterIds?: string[]) => {
+    const current = novelRef.current;
+    if (!current || codexScanAbortRef.current || !ensureAllowed('aiBatch') || !ensureAllowed('editCodex')) return;
+    const queue = CodexExtractionService.getChaptersToScan(current, chapterIds);
+    if (queue.length === 0) return;
+
+    // 按章节字数估算本次扫描的费用（输出只有提取结果，按每章 800 token 估算）
+    const budget = UsageService.checkBudget({
+      novelId: current.id,
+      estimatedCost: UsageService.estimateBatchCost(queue.map(c => ({ prompt: c.content, expectedOutputTokens: 800 }))),
+    });
+    if (!budget.allowed) {
+      alert(`${budget.message}，已取消设定提取。`);
+      return;
+    }
+    if (budget.exceeded && !window.confirm(`${budget.message}，是否继续？`)) {
+      return;
+    }
+
+    const controller = new AbortController();
+    codexScanAbortRef.current = controller;
+    setCodexScanError(null);
+    try {
+      await CodexExtractionService.scanChapters(current, {
+        model: selectedModel,
+        chapterIds: queue.map(c => c.id),
+        signal: controller.signal,
+        onProgress: setCodexScanProgress,
+        onChapterScanned: addCodexProposals,
+      });
+    } catch (error) {
+      // 已扫描的章节的建议已经保存，失败的章节下次扫描时重试
+      if (!controller.signal.aborted) {
+        console.error('设定提取失败:', error);
+        setCodexScanError(error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      codexScanAbortRef.current = null;
+      setCodexScanProgress(null);
+    }
+  }, [ensureAllowed, selectedModel, addCodexProposals]);
+
+  const stopCodexScan = useCallback(() => codexScanAbortRef.current?.abort(), []);
+
+  // 审阅时以编辑器中的设定为准，批准后同步回创作管理数据
+  const codexReviewNovel = useMemo(
+    () => (novel ? { ...novel, characters, locations, items, timelineEvents } : null),
+    [novel, characters, locations, items, timelineEvents]
+  );
+
+  const approveCodexProposal = useCallback((proposalId: string) => {
+    if (!codexReviewNovel || !ensureAllowed('editCodex')) return;
+    const updates = CodexExtractionService.approve(codexReviewNovel, proposalId);
+    if (!updates) return;
+    onUpdateNovel(updates);
+    if (updates.characters) setCharacters(updates.characters);
+    if (updates.locations) setLocations(updates.locations);
+    if (updates.items) setItems(updates.items);
+    if (updates.timelineEvents) setTimelineEvents(updates.timelineEvents);
+  }, [codexReviewNovel, ensureAllowed, onUpdateNovel]);
+
+  const rejectCodexProposal = useCallback((proposalId: string) => {
+    if (!novel || !ensureAllowed('editCodex')) return;
+    onUpdateNovel({ codexProposals: CodexExtractionService.reject(novel, proposalId) });
+  }, [novel, ensureAllowed, onUpdateNovel]);
+
+  // 切换作品或离开编辑器时取消
+  useEffect(() => () => codexScanAbortRef.current?.abort(), [novel?.id]);
+
   // 监听 API 设置变化（只注册一次，使用 ref 获取最新状态）
   useEffect(() => {
     const handleStorageChange = () => {
@@ -707,6 +890,7 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
 
   // ============ 导出功能 ============
   const exportToTXT = useCallback(() => {
+    if (!ensureAllowed('export')) return;
     if (!currentChapter) {
       alert('请先选择章节');
       return;
@@ -719,9 +903,10 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     a.download = `${currentChapter.title}.txt`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [currentChapter]);
+  }, [currentChapter, ensureAllowed]);
 
   const exportToMarkdown = useCallback(() => {
+    if (!ensureAllowed('export')) return;
     if (!currentChapter) {
       alert('请先选择章节');
       return;
@@ -734,9 +919,10 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     a.download = `${currentChapter.title}.md`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [currentChapter]);
+  }, [currentChapter, ensureAllowed]);
 
   const exportToWord = useCallback(() => {
+    if (!ensureAllowed('export')) return;
     if (!currentChapter) {
       alert('请先选择章节');
       return;
@@ -774,56 +960,60 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     a.download = `${currentChapter.title}.doc`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [currentChapter]);
+  }, [currentChapter, ensureAllowed]);
 
-  const exportToPDF = useCallback(() => {
-    if (!currentChapter) {
+  // PDF 内嵌的中文字体（仓库不附带字体文件，由用户选择）
+  const [pdfFontInfo, setPdfFontInfo] = useState<PdfFontInfo | null>(null);
+  const pdfFontInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    PdfFontService.getInfo().then(setPdfFontInfo).catch(error => console.error('读取 PDF 字体信息失败:', error));
+  }, []);
+
+  const selectPdfFont = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPdfFontInfo(await PdfFontService.save(file));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '保存字体失败');
+    }
+  }, []);
+
+  const removePdfFont = useCallback(async () => {
+    await PdfFontService.remove();
+    setPdfFontInfo(null);
+  }, []);
+
+  const exportToPDF = useCallback(async () => {
+    if (!ensureAllowed('export')) return;
+    if (!novel || !currentChapter) {
       alert('请先选择章节');
       return;
     }
 
-    const safeTitle = escapeHtml(currentChapter.title);
-    const safeParagraphs = currentChapter.content
-      .split('\n')
-      .filter((p) => p.trim())
-      .map((p) => `<p>${escapeHtml(p)}</p>`)
-      .join('');
-
-    // 创建打印友好的HTML并调用打印
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-      alert('请允许弹出窗口以导出PDF');
+    const pdfFont = await PdfFontService.load();
+    const result = await exportService.export(novelToExportContent(novel, currentUser.name), {
+      format: 'pdf',
+      filename: currentChapter.title,
+      chapterIds: [currentChapter.id],
+      includeCover: false,
+      includeToc: false,
+      ...(pdfFont && { pdfFont }),
+    });
+    if (!result.success) {
+      alert(`导出 PDF 失败：${result.error}`);
       return;
     }
-    printWindow.document.write(`
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <title>${safeTitle}</title>
-        <style>
-          body { font-family: '微软雅黑', sans-serif; font-size: 12pt; line-height: 1.8; padding: 40px; }
-          h1 { font-size: 18pt; text-align: center; margin-bottom: 30px; }
-          p { text-indent: 2em; margin: 0.8em 0; }
-          @media print {
-            body { padding: 0; }
-          }
-        </style>
-      </head>
-      <body>
-        <h1>${safeTitle}</h1>
-        ${safeParagraphs}
-      </body>
-      </html>
-    `);
-    printWindow.document.close();
-    setTimeout(() => {
-      printWindow.print();
-    }, 250);
-  }, [currentChapter]);
+    exportService.download(result);
+    if (result.downloadUrl) URL.revokeObjectURL(result.downloadUrl);
+    // 未能内嵌字体时提示，中文在没有中文字体的设备上可能无法显示
+    if (result.warnings) alert(result.warnings.join('\n'));
+  }, [novel, currentChapter, currentUser.name, ensureAllowed]);
 
   // 导出全部章节
   const exportAllChapters = useCallback((format: 'txt' | 'md') => {
+    if (!ensureAllowed('export')) return;
     if (!chapters.length) {
       alert('没有可导出的章节');
       return;
@@ -841,7 +1031,7 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     a.download = `${novel?.title || '小说'}_全部章节.${format}`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [chapters, novel?.title]);
+  }, [chapters, novel?.title, ensureAllowed]);
 
   // ============ 创作管理功能 ============
   // 添加人物
@@ -948,6 +1138,7 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
   }, [volumes.length]);
 
   const deleteVolume = useCallback((volumeId: string) => {
+    if (!ensureAllowed('deleteChapter')) return;
     const volume = volumes.find(v => v.id === volumeId);
     if (!window.confirm(`确定要删除"${volume?.title}"吗？卷内章节将变为未分类。`)) return;
 
@@ -957,7 +1148,7 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
       ch.volumeId === volumeId ? { ...ch, volumeId: undefined } : ch
     );
     onUpdateNovel({ chapters: next });
-  }, [volumes, chapters, onUpdateNovel]);
+  }, [volumes, chapters, onUpdateNovel, ensureAllowed]);
 
   const renameVolume = useCallback((volumeId: string, newTitle: string) => {
     if (!newTitle.trim()) return;
@@ -999,19 +1190,61 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
       volumeId
     };
     const next = [...chapters, chapter];
-    onUpdateNovel({ chapters: next, wordCount: next.reduce((sum, ch) => sum + ch.wordCount, 0) });
+    onUpdateNovel({ chapters: next, wordCount: sumWordCount(next) });
     setSelectedChapterId(chapter.id);
   };
 
-  const updateChapter = (chapterId: string, updates: Partial<Chapter>) => {
-    const next = chapters.map((ch) =>
-      ch.id === chapterId ? { ...ch, ...updates, wordCount: (updates.content ?? ch.content).length } : ch
-    );
-    onUpdateNovel({ chapters: next, wordCount: next.reduce((sum, ch) => sum + ch.wordCount, 0) });
+  // 本次会话中改过正文的章节，会话结束时为它们留一个版本
+  const editedChapterIdsRef = useRef(new Set<string>());
+
+  // 传入 snapshot 时先为原正文留一个版本（AI 写入、批量操作前），否则按字数变化自动快照
+  const updateChapter = (chapterId: string, updates: Partial<Chapter>, snapshot?: Omit<SnapshotOptions, 'wordCountMode'>) => {
+    const next = chapters.map((ch) => {
+      if (ch.id !== chapterId) return ch;
+      const base = snapshot ? VersionService.snapshot(ch, { ...snapshot, wordCountMode }) : ch;
+      const updated = { ...base, ...updates, wordCount: countWords(updates.content ?? ch.content, wordCountMode) };
+      return updates.content === undefined || snapshot ? updated : VersionService.snapshotOnWordChange(updated, { wordCountMode });
+    });
+    if (updates.content !== undefined) editedChapterIdsRef.current.add(chapterId);
+    onUpdateNovel({ chapters: next, wordCount: sumWordCount(next) });
   };
 
+  // ============ 会话版本快照 ============
+
+  const sessionStateRef = useRef({ chapters, wordCountMode, onUpdateNovel });
+  sessionStateRef.current = { chapters, wordCountMode, onUpdateNovel };
+  const sessionChapterIdRef = useRef<string | null>(null);
+
+  const snapshotEditedChapters = useCallback(() => {
+    const edited = editedChapterIdsRef.current;
+    if (edited.size === 0) return;
+    const { chapters: latest, wordCountMode: mode, onUpdateNovel: update } = sessionStateRef.current;
+    const next = VersionService.snapshotChapters(latest, [...edited], { trigger: 'session', wordCountMode: mode });
+    edited.clear();
+    if (next.some((chapter, index) => chapter !== latest[index])) {
+      update({ chapters: next });
+    }
+  }, []);
+
+  // 切换章节视为上一章的写作会话结束
+  useEffect(() => {
+    const previous = sessionChapterIdRef.current;
+    sessionChapterIdRef.current = selectedChapterId;
+    if (previous && previous !== selectedChapterId) snapshotEditedChapters();
+  }, [selectedChapterId, snapshotEditedChapters]);
+
+  // 离开编辑器或关闭页面
+  useEffect(() => {
+    window.addEventListener('pagehide', snapshotEditedChapters);
+    return () => {
+      window.removeEventListener('pagehide', snapshotEditedChapters);
+      snapshotEditedChapters();
+    };
+  }, [snapshotEditedChapters]);
+
   // 删除章节
   const deleteChapter = useCallback((chapterId: string) => {
+    if (!ensureAllowed('deleteChapter')) return;
     if (chapters.length <= 1) {
       alert('至少保留一个章节');
       return;
@@ -1020,13 +1253,19 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     if (!window.confirm(`确定要删除"${chapter?.title}"吗？此操作不可撤销。`)) return;
 
     const next = chapters.filter(ch => ch.id !== chapterId);
-    onUpdateNovel({ chapters: next, wordCount: next.reduce((sum, ch) => sum + ch.wordCount, 0) });
+    const comments = novel?.comments?.some(comment => comment.chapterId === chapterId)
+      ? { comments: CommentService.removeChapterComments(novel.comments, chapterId) }
+      : {};
+    const suggestions = novel?.suggestions?.some(suggestion => suggestion.chapterId === chapterId)
+      ? { suggestions: SuggestionService.removeChapterSuggestions(novel.suggestions, chapterId) }
+      : {};
+    onUpdateNovel({ chapters: next, wordCount: sumWordCount(next), ...comments, ...suggestions });
 
     // 如果删除的是当前选中的章节，选中第一个章节
     if (selectedChapterId === chapterId) {
       setSelectedChapterId(next[0]?.id || null);
     }
-  }, [chapters, selectedChapterId, onUpdateNovel]);
+  }, [chapters, novel?.comments, novel?.suggestions, selectedChapterId, onUpdateNovel, ensureAllowed]);
 
   // 重命名章节
   const renameChapter = useCallback((chapterId: string, newTitle: string) => {
@@ -1055,7 +1294,7 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     const next = [...chapters];
     next.splice(sourceIndex + 1, 0, newChapter);
 
-    onUpdateNovel({ chapters: next, wordCount: next.reduce((sum, ch) => sum + ch.wordCount, 0) });
+    onUpdateNovel({ chapters: next, wordCount: sumWordCount(next) });
     setSelectedChapterId(newChapter.id);
   }, [chapters, onUpdateNovel]);
 
@@ -1165,9 +1404,10 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
 
     let context = '\n【前文内容摘要】\n';
     previousChapters.forEach((chapter, idx) => {
-      // 每章取前800字作为摘要
-      const summary = chapter.content.slice(0, 800);
-      const truncated = chapter.content.length > 800 ? '...' : '';
+      // 优先使用 AI 生成的章节摘要，还没有摘要的章节取前800字
+      const generated = ChapterSummaryService.getFreshSummary(chapter);
+      const summary = generated ? generated.detailed : chapter.content.slice(0, 800);
+      const truncated = !generated && chapter.content.length > 800 ? '...' : '';
       context += `\n第${startIndex + idx + 1}章 ${chapter.title}（${chapter.wordCount}字）：\n${summary}${truncated}\n`;
     });
 
@@ -1194,6 +1434,16 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
       systemPrompt += '\n' + mindMapContext;
     }
 
+    // 添加更早章节的记忆（已附上原文的前 5 章和当前章节不再重复）
+    const memoryContext = NovelMemoryService.formatForPrompt(novelMemory.memory, {
+      recentContent: currentChapter?.content.slice(-1500),
+      excludeChapterIds: chapters.slice(Math.max(0, currentIndex - 5), currentIndex + 1).map(c => c.id),
+      beforeChapterNumber: currentIndex >= 0 ? currentIndex + 1 : undefined,
+    });
+    if (memoryContext) {
+      systemPrompt += `\n【前情记忆】\n${memoryContext}\n`;
+    }
+
     // 添加前文章节上下文
     const chaptersContext = getPreviousChaptersContext(currentIndex, 5);
     if (chaptersContext) {
@@ -1212,33 +1462,61 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     }
 
     return systemPrompt;
-  }, [novel?.title, chapters, selectedChapterId, currentChapter, buildCreativeContext, buildMindMapContext, getPreviousChaptersContext]);
+  }, [novel?.title, chapters, selectedChapterId, currentChapter, buildCreativeContext, buildMindMapContext, getPreviousChaptersContext, novelMemory.memory]);
+
+  // 开始一次可中止的 AI 生成
+  const beginAiGeneration = () => {
+    aiAbortRef.current?.abort();
+    aiAbortRef.current = new AbortController();
+    return aiAbortRef.current.signal;
+  };
+
+  // 停止当前 AI 生成，已生成的内容保留
+  const stopAiGeneration = useCallback(() => {
+    aiAbortRef.current?.abort();
+    aiAbortRef.current = null;
+  }, []);
 
   const continueWriting = async () => {
     if (!currentChapter || isStreaming) return;
     setIsStreaming(true);
+    const signal = beginAiGeneration();
 
     // 构建包含完整上下文的提示
     const systemPrompt = buildSystemPrompt();
     const prompt = `请续写当前章节内容，保持风格一致，约300-500字。直接输出续写内容，不要输出标题或其他说明。`;
 
     let addition = '';
+    // 流式写入的每一段都带上续写前的快照，避免被过期的章节列表覆盖
+    const { versions } = VersionService.snapshot(currentChapter, { trigger: 'ai', note: 'AI 续写前', wordCountMode });
     const options: GenerateOptions = {
       temperature,
       maxTokens: maxTokens,
-      systemInstruction: systemPrompt
+      systemInstruction: systemPrompt,
+      signal,
+      usage: { feature: 'continue_writing', novelId: novel?.id },
     };
-    await generateCreativeContentStream(prompt, (chunk) => {
-      addition += chunk;
-      updateChapter(currentChapter.id, { content: currentChapter.content + addition });
-    }, 'gemini-2.0-flash', options);
-    setIsStreaming(false);
+    let interrupted = false;
+    try {
+      ({ interrupted } = await history.journal.transaction('AI 续写', () =>
+        generateCreativeContentStream(prompt, (chunk) => {
+          addition += chunk;
+          updateChapter(currentChapter.id, { content: currentChapter.content + addition, versions });
+        }, 'gemini-2.0-flash', options)
+      ));
+    } catch (error) {
+      console.error('AI 续写失败:', error);
+      alert(error instanceof Error ? error.message : 'AI 续写失败，请稍后重试');
+      return;
+    } finally {
+      setIsStreaming(false);
+    }
     onRecordActivity?.({
       type: 'ai_call',
-      description: 'AI 续写章节',
+      description: interrupted ? 'AI 续写章节（已中断）' : 'AI 续写章节',
       deltaPoints: -3,
       createdAt: new Date().toISOString(),
-      metadata: { words: addition.length }
+      metadata: { words: countWords(addition, wordCountMode) }
     });
   };
 
@@ -1252,7 +1530,7 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     const newContent = currentChapter.content
       ? `${currentChapter.content}\n\n${content}`
       : content;
-    updateChapter(currentChapter.id, { content: newContent });
+    updateChapter(currentChapter.id, { content: newContent }, { trigger: 'ai', note: '插入 AI 内容前' });
   }, [currentChapter, updateChapter]);
 
   // ============ AI 会话管理 ============
@@ -1327,6 +1605,7 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     const text = chatInput.trim();
     setChatInput('');
     setIsStreaming(true);
+    const signal = beginAiGeneration();
 
     let sessionId = currentSessionId;
     let updatedSessions = [...aiSessions];
@@ -1383,12 +1662,14 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     const options: GenerateOptions = {
       temperature,
       maxTokens: maxTokens,
-      systemInstruction: systemPrompt
+      systemInstruction: systemPrompt,
+      signal,
+      usage: { feature: 'chat', novelId: novel?.id },
     };
 
     try {
       let content = '';
-      await generateCreativeContentStream(text, (chunk) => {
+      const { interrupted } = await generateCreativeContentStream(text, (chunk) => {
         content += chunk;
         setAiSessions(prev => prev.map(s => {
           if (s.id === sessionId) {
@@ -1403,14 +1684,40 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
         }));
       }, selectedModel, options);
 
+      if (interrupted) {
+        setAiSessions(prev => prev.map(s => {
+          if (s.id === sessionId) {
+            return {
+              ...s,
+              messages: s.messages.map(m =>
+                m.id === aiMessage.id ? { ...m, interrupted: true } : m
+              ),
+            };
+          }
+          return s;
+        }));
+      }
+
       onRecordActivity?.({
         type: 'ai_call',
         description: 'AI 助手对话',
         deltaPoints: -1,
-        metadata: { words: content.length },
+        metadata: { words: countWords(content, wordCountMode) },
       });
     } catch (error) {
       console.error('Generation error:', error);
+      const message = error instanceof Error ? error.message : '生成失败，请稍后重试。';
+      setAiSessions(prev => prev.map(s => {
+        if (s.id === sessionId) {
+          return {
+            ...s,
+            messages: s.messages.map(m =>
+              m.id === aiMessage.id && !m.content ? { ...m, content: `抱歉，${message}` } : m
+            ),
+          };
+        }
+        return s;
+      }));
     } finally {
       setIsStreaming(false);
     }
@@ -1522,7 +1829,7 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
 
   // 导出思维导图为JSON
   const exportMindMap = useCallback(() => {
-    if (!currentMap) return;
+    if (!currentMap || !ensureAllowed('export')) return;
     const data = JSON.stringify(currentMap, null, 2);
     const blob = new Blob([data], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -1531,7 +1838,7 @@ const LongNovelEditor: React.FC<LongNovelEditorProps> = ({ novel, onUpdateNovel,
     a.download = `${currentMap.name}.json`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [currentMap]);
+  }, [currentMap, ensureAllowed]);
 
   // 导入思维导图
   const importMindMap = useCallback(() => {
@@ -1598,7 +1905,7 @@ ${selectedNode.children.length > 0 ? `已有子节点：${selectedNode.children.
       let result = '';
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
-      }, 'gemini-2.0-flash', { temperature: 0.8 });
+      }, 'gemini-2.0-flash', { temperature: 0.8, usage: { feature: 'outline', novelId: novel?.id } });
 
       // 解析生成的节点
       const newTitles = result.split('\n')
@@ -1633,7 +1940,7 @@ ${selectedNode.children.length > 0 ? `已有子节点：${selectedNode.children.
       setIsAiGenerating(false);
       setAiGeneratingType(null);
     }
-  }, [currentMap, selectedNode, selectedNodeId, isAiGenerating, novel?.title, buildCreativeContext, updateMindMap, onRecordActivity]);
+  }, [currentMap, selectedNode, selectedNodeId, isAiGenerating, novel?.title, buildCreativeContext, updateMindMap, onRecordActivity, novel?.id]);
 
   // AI 生成人物
   const aiGenerateCharacter = useCallback(async () => {
@@ -1664,7 +1971,7 @@ ${existingNames ? `已有人物：${existingNames}` : ''}
       let result = '';
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId: novel?.id } });
 
       // 解析生成的人物
       const nameMatch = result.match(/【名称】(.+?)(?:\n|【)/);
@@ -1706,7 +2013,7 @@ ${existingNames ? `已有人物：${existingNames}` : ''}
       setIsAiGenerating(false);
       setAiGeneratingType(null);
     }
-  }, [isAiGenerating, novel?.title, novel?.description, characters, buildCreativeContext, onRecordActivity]);
+  }, [isAiGenerating, novel?.title, novel?.description, characters, buildCreativeContext, onRecordActivity, novel?.id]);
 
   // AI 生成世界观
   const aiGenerateWorldview = useCallback(async () => {
@@ -1736,7 +2043,7 @@ ${existingTitles ? `已有世界观设定：${existingTitles}` : ''}
       let result = '';
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId: novel?.id } });
 
       const titleMatch = result.match(/【标题】(.+?)(?:\n|【)/);
       const categoryMatch = result.match(/【分类】(.+?)(?:\n|【)/);
@@ -1773,7 +2080,7 @@ ${existingTitles ? `已有世界观设定：${existingTitles}` : ''}
       setIsAiGenerating(false);
       setAiGeneratingType(null);
     }
-  }, [isAiGenerating, novel?.title, novel?.description, worldviews, buildCreativeContext, onRecordActivity]);
+  }, [isAiGenerating, novel?.title, novel?.description, worldviews, buildCreativeContext, onRecordActivity, novel?.id]);
 
   // AI 生成事件
   const aiGenerateEvent = useCallback(async () => {
@@ -1804,7 +2111,7 @@ ${existingEvents ? `已有事件：${existingEvents}` : ''}
       let result = '';
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId: novel?.id } });
 
       const titleMatch = result.match(/【标题】(.+?)(?:\n|【)/);
       const timeMatch = result.match(/【时间】(.+?)(?:\n|【)/);
@@ -1849,7 +2156,7 @@ ${existingEvents ? `已有事件：${existingEvents}` : ''}
       setIsAiGenerating(false);
       setAiGeneratingType(null);
     }
-  }, [isAiGenerating, novel?.title, novel?.description, timelineEvents, characters, buildCreativeContext, onRecordActivity]);
+  }, [isAiGenerating, novel?.title, novel?.description, timelineEvents, characters, buildCreativeContext, onRecordActivity, novel?.id]);
 
   // AI 生成资料
   const aiGenerateReference = useCallback(async () => {
@@ -1879,7 +2186,7 @@ ${existingRefs ? `已有资料：${existingRefs}` : ''}
       let result = '';
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
-      }, 'gemini-2.0-flash', { temperature: 0.9 });
+      }, 'gemini-2.0-flash', { temperature: 0.9, usage: { feature: 'outline', novelId: novel?.id } });
 
       const titleMatch = result.match(/【标题】(.+?)(?:\n|【)/);
       const categoryMatch = result.match(/【分类】(.+?)(?:\n|【)/);
@@ -1916,7 +2223,7 @@ ${existingRefs ? `已有资料：${existingRefs}` : ''}
       setIsAiGenerating(false);
       setAiGeneratingType(null);
     }
-  }, [isAiGenerating, novel?.title, novel?.description, references, buildCreativeContext, onRecordActivity]);
+  }, [isAiGenerating, novel?.title, novel?.description, references, buildCreativeContext, onRecordActivity, novel?.id]);
 
   // ============ 查找替换功能 ============
 
@@ -2001,13 +2308,22 @@ ${existingRefs ? `已有资料：${existingRefs}` : ''}
       });
     }
 
-    affectedChapters.forEach((content, chapterId) => {
-      updateChapter(chapterId, { content });
+    // 一次写入全部章节，写入前为每个受影响的章节留一个版本
+    const next = VersionService.snapshotChapters(chapters, [...affectedChapters.keys()], {
+      trigger: 'batch',
+      note: '全部替换前',
+      wordCountMode,
+    }).map(chapter => {
+      const content = affectedChapters.get(chapter.id);
+      return content === undefined ? chapter : { ...chapter, content, wordCount: countWords(content, wordCountMode) };
     });
+    history.journal.begin(`全部替换「${searchText}」`);
+    onUpdateNovel({ chapters: next, wordCount: sumWordCount(next) });
+    history.journal.commit();
 
     setSearchResults([]);
     alert(`已替换 ${affectedChapters.size} 个章节中的内容`);
-  }, [searchText, replaceText, searchScope, currentChapter, chapters, updateChapter]);
+  }, [searchText, replaceText, searchScope, currentChapter, chapters, wordCountMode, onUpdateNovel, history.journal]);
 
   // 跳转到搜索结果
   const goToSearchResult = useCallback((index: number) => {
@@ -2029,6 +2345,7 @@ ${existingRefs ? `已有资料：${existingRefs}` : ''}
     const end = textarea.selectionEnd;
     if (start !== end) {
       const selected = textarea.value.slice(start, end);
+      aiTextRangeRef.current = { start, end };
       setSelectedText(selected);
       setShowAiTextTools(true);
     }
@@ -2055,11 +2372,11 @@ ${existingRefs ? `已有资料：${existingRefs}` : ''}
       await generateCreativeContentStream(prompts[type], (chunk) => {
         result += chunk;
         setAiTextResult(result);
-      }, 'gemini-2.0-flash', { temperature: 0.7, systemInstruction: systemPrompt });
+      }, 'gemini-2.0-flash', { temperature: 0.7, systemInstruction: systemPrompt, usage: { feature: 'refinement', novelId: novel?.id } });
 
       onRecordActivity?.({
         type: 'ai_call',
-        description: `AI ${type === 'expand' ? '扩写' : type === 'polish' ? '润色' : '改写'}`,
+        description: `AI ${AI_TEXT_TOOL_LABELS[type]}`,
         deltaPoints: -2,
         createdAt: new Date().toISOString(),
         metadata: { inputLength: selectedText.length, outputLength: result.length }
@@ -2070,7 +2387,7 @@ ${existingRefs ? `已有资料：${existingRefs}` : ''}
     } finally {
       setIsAiTextProcessing(false);
     }
-  }, [selectedText, isAiTextProcessing, buildSystemPrompt, onRecordActivity]);
+  }, [selectedText, isAiTextProcessing, buildSystemPrompt, onRecordActivity, novel?.id]);
 
   // 应用 AI 结果到正文
   const applyAiTextResult = useCallback(() => {
@@ -2083,7 +2400,7 @@ ${existingRefs ? `已有资料：${existingRefs}` : ''}
     if (start !== end) {
       const before = currentChapter.content.slice(0, start);
       const after = currentChapter.content.slice(end);
-      updateChapter(currentChapter.id, { content: before + aiTextResult + after });
+      updateChapter(currentChapter.id, { content: before + aiTextResult + after }, { trigger: 'ai', note: '应用 AI 结果前' });
     }
 
     setShowAiTextTools(false);
@@ -2092,6 +2409,144 @@ ${existingRefs ? `已有资料：${existingRefs}` : ''}
     setAiTextToolType(null);
   }, [aiTextResult, currentChapter, updateChapter]);
 
+  // AI 结果不直接覆盖选中文字，而是按处改动记为修订建议，由作者逐条接受或拒绝
+  const suggestAiTextResult = useCallback(() => {
+    const range = aiTextRangeRef.current;
+    if (!aiTextResult || !currentChapter || !range || !ensureAllowed('suggest')) return;
+    if (currentChapter.content.slice(range.start, range.end) !== selectedText) {
+      alert('选中的文字在处理期间被修改，请重新选择后再试');
+      return;
+    }
+
+    const created = SuggestionService.createFromRevision({
+      chapterId: currentChapter.id,
+      content: currentChapter.content,
+      revised: aiTextResult,
+      ...range,
+      author: currentUser,
+      source: 'ai',
+      label: aiTextToolType ? `AI ${AI_TEXT_TOOL_LABELS[aiTextToolType]}` : undefined,
+    });
+    if (created.length > 0) {
+      onUpdateNovel({ suggestions: [...(novel?.suggestions ?? []), ...created] });
+    }
+
+    setShowAiTextTools(false);
+    setSelectedText('');
+    setAiTextResult('');
+    setAiTextToolType(null);
+  }, [aiTextResult, currentChapter, selectedText, aiTextToolType, currentUser, novel?.suggestions, onUpdateNovel, ensureAllowed]);
+
+  // ============ 操作历史 ============
+
+  const [showNovelHistory, setShowNovelHistory] = useState(false);
+
+  // 撤销、重做得到的字段直接写回作品（不再记入历史），并同步编辑器里的创作管理数据
+  const jumpInHistory = useCallback((target: number) => {
+    const { journal } = history;
+    const from = journal.getPosition();
+    const patch = journal.jumpTo(target, novelRef.current ?? undefined);
+    if (!patch) return;
+    const reason = permissions.explainUpdate(patch);
+    if (reason) {
+      journal.jumpTo(from);
+      alert(reason);
+      return;
+    }
+    applyNovelUpdate(patch);
+
+    if ('characters' in patch) setCharacters(patch.characters ?? []);
+    if ('worldviews' in patch) setWorldviews(patch.worldviews ?? []);
+    if ('timelineEvents' in patch) setTimelineEvents(patch.timelineEvents ?? []);
+    if ('references' in patch) setReferences(patch.references ?? []);
+    if ('volumes' in patch) setVolumes(patch.volumes ?? []);
+    if ('outlineNodes' in patch) setOutlineNodes(patch.outlineNodes ?? []);
+    if ('foreshadowings' in patch) setForeshadowings(patch.foreshadowings ?? []);
+    if ('writingGoals' in patch) setWritingGoals(patch.writingGoals ?? []);
+    if ('locations' in patch) setLocations(patch.locations ?? []);
+    if ('items' in patch) setItems(patch.items ?? []);
+    if ('mindMaps' in patch) setMindMaps(patch.mindMaps ?? []);
+    if ('chapterTemplates' in patch) {
+      setChapterTemplates(prev => [...prev.filter(t => t.isBuiltIn), ...(patch.chapterTemplates ?? []).filter(t => !t.isBuiltIn)]);
+    }
+  }, [history, permissions, applyNovelUpdate]);
+
+  const undoNovelChange = useCallback(() => jumpInHistory(history.journal.getPosition() - 1), [history.journal, jumpInHistory]);
+  const redoNovelChange = useCallback(() => jumpInHistory(history.journal.getPosition() + 1), [history.journal, jumpInHistory]);
+
+  // ============ 版本历史 ============
+
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const chapterVersions = useMemo(() => VersionService.resolveAll(currentChapter?.versions), [currentChapter?.versions]);
+
+  const saveCurrentChapter = useCallback((chapter: Chapter) => {
+    const next = chapters.map(ch => (ch.id === chapter.id ? chapter : ch));
+    onUpdateNovel({ chapters: next, wordCount: sumWordCount(next) });
+  }, [chapters, onUpdateNovel]);
+
+  const saveChapterVersion = useCallback((note?: string) => {
+    if (!currentChapter) return;
+    saveCurrentChapter(VersionService.snapshot(currentChapter, { trigger: 'manual', note, milestone: !!note, wordCountMode }));
+  }, [currentChapter, wordCountMode, saveCurrentChapter]);
+
+  const restoreChapterVersion = useCallback((versionId: string) => {
+    if (!currentChapter) return;
+    const restored = VersionService.restore(currentChapter, versionId, wordCountMode);
+    if (restored) saveCurrentChapter(restored);
+    setSelectedVersionId(null);
+  }, [currentChapter, wordCountMode, saveCurrentChapter]);
+
+  const deleteChapterVersion = useCallback((versionId: string) => {
+    if (!currentChapter) return;
+    saveCurrentChapter({ ...currentChapter, versions: VersionService.remove(currentChapter.versions ?? [], versionId) });
+    if (selectedVersionId === versionId) setSelectedVersionId(null);
+  }, [currentChapter, selectedVersionId, saveCurrentChapter]);
+
+  // ============ 修订建议 ============
+
+  const chapterSuggestions = useMemo(
+    () => (currentChapter ? SuggestionService.locateAll(currentChapter.content, novel?.suggestions, currentChapter.id) : []),
+    [currentChapter, novel?.suggestions]
+  );
+
+  const saveAcceptedSuggestions = useCallback((result: AcceptResult) => {
+    if (!currentChapter) return;
+    const next = chapters.map(ch =>
+      ch.id === currentChapter.id ? { ...ch, content: result.content, wordCount: countWords(result.content, wordCountMode) } : ch
+    );
+    onUpdateNovel({ chapters: next, wordCount: sumWordCount(next), suggestions: result.suggestions });
+  }, [chapters, currentChapter, wordCountMode, onUpdateNovel]);
+
+  const acceptSuggestion = useCallback((id: string) => {
+    if (!currentChapter) return;
+    const result = SuggestionService.accept(currentChapter.content, novel?.suggestions ?? [], id);
+    if (!result) {
+      alert('原文已被改写，这条建议无法再应用');
+      return;
+    }
+    saveAcceptedSuggestions(result);
+  }, [currentChapter, novel?.suggestions, saveAcceptedSuggestions]);
+
+  const acceptAllSuggestions = useCallback(() => {
+    if (!currentChapter) return;
+    const result = SuggestionService.acceptAll(currentChapter.content, novel?.suggestions ?? [], currentChapter.id);
+    saveAcceptedSuggestions(result);
+    const remaining = SuggestionService.count(result.suggestions, currentChapter.id);
+    if (remaining > 0) {
+      alert(`已接受 ${result.accepted} 条建议，另有 ${remaining} 条需要单独处理`);
+    }
+  }, [currentChapter, novel?.suggestions, saveAcceptedSuggestions]);
+
+  const rejectSuggestion = useCallback((id: string) => {
+    onUpdateNovel({ suggestions: SuggestionService.reject(novel?.suggestions ?? [], id) });
+  }, [novel?.suggestions, onUpdateNovel]);
+
+  const rejectAllSuggestions = useCallback(() => {
+    if (!currentChapter || !window.confirm('拒绝本章的全部修订建议？')) return;
+    onUpdateNovel({ suggestions: SuggestionService.removeChapterSuggestions(novel?.suggestions ?? [], currentChapter.id) });
+  }, [currentChapter, novel?.suggestions, onUpdateNovel]);
+
   // ============ 写作目标功能 ============
 
   // 获取今日写作字数
@@ -2189,18 +2644,27 @@ ${existingRefs ? `已有资料：${existingRefs}` : ''}
 
   // 监控字数变化，记录写作数据
   const lastWordCountRef = useRef(novel?.wordCount || 0);
+  const lastWordCountModeRef = useRef(wordCountMode);
   useEffect(() => {
     if (!novel) return;
     const currentWordCount = novel.wordCount;
     const diff = currentWordCount - lastWordCountRef.current;
 
-    if (diff > 0) {
+    // 切换统计口径引起的字数变化不计入写作记录
+    if (diff > 0 && lastWordCountModeRef.current === wordCountMode) {
       const todayWords = getTodayWrittenWords();
       recordTodayWriting(todayWords + diff);
     }
 
     lastWordCountRef.current = currentWordCount;
-  }, [novel?.wordCount, getTodayWrittenWords, recordTodayWriting]);
+    lastWordCountModeRef.current = wordCountMode;
+  }, [novel?.wordCount, wordCountMode, getTodayWrittenWords, recordTodayWriting]);
+
+  // 切换字数统计口径：按新口径重新统计所有章节
+  const changeWordCountMode = useCallback((mode: WordCountMode) => {
+    const next = recountChapters(chapters, mode);
+    onUpdateNovel({ wordCountMode: mode, chapters: next, wordCount: sumWordCount(next) });
+  }, [chapters, onUpdateNovel]);
 
   // ============ 场景/地点管理功能 ============
 
@@ -2380,86 +2844,60 @@ ${charDescriptions}
       await generateCreativeContentStream(prompt, (chunk) => {
         result += chunk;
         setGeneratedDialog(result);
-      }, 'gemini-2.0-flash', { temperature: 0.8 });
+      }, 'gemini-2.0-flash', { temperature: 0.8, usage: { feature: 'other', novelId: novel?.id } });
     } catch (error) {
       console.error('AI 生成失败:', error);
       alert('AI 生成失败，请稍后重试');
     } finally {
       setIsGeneratingDialog(false);
     }
-  }, [dialogCharacters, dialogContext, characters, isGeneratingDialog]);
+  }, [dialogCharacters, dialogContext, characters, isGeneratingDialog, novel?.id]);
 
   const applyGeneratedDialog = useCallback(() => {
     if (!generatedDialog || !currentChapter) return;
     const newContent = currentChapter.content + '\n\n' + generatedDialog;
-    updateChapter(currentChapter.id, { content: newContent });
+    updateChapter(currentChapter.id, { content: newContent }, { trigger: 'ai', note: '插入 AI 对话前' });
     setShowDialogGenerator(false);
     setGeneratedDialog('');
   }, [generatedDialog, currentChapter, updateChapter]);
 
   // ============ 文件导入功能 ============
 
-  // 处理 TXT 文件导入
-  const handleFileImport = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
-
-    const previews: {title: string; content: string}[] = [];
-    let loaded = 0;
-
-    Array.from(files as FileList).forEach((file: File) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        let title = file.name.replace(/\.(txt|doc|docx|md)$/i, '');
-
-        // 尝试从内容提取标题（第一行如果较短可能是标题）
-        const lines = content.split('\n').filter(line => line.trim());
-        if (lines.length > 0 && lines[0].length < 50) {
-          title = lines[0].trim();
-        }
-
-        previews.push({ title, content });
-        loaded++;
-
-        if (loaded === files.length) {
-          setImportPreview(previews);
-          setShowImportModal(true);
-        }
-      };
-      reader.readAsText(file, 'UTF-8');
-    });
-
+  // 处理稿件导入：读取全部文件后进入预览
+  const handleFileImport = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
     // 重置 input 以允许重复选择同一文件
     event.target.value = '';
-  }, []);
+    if (files.length === 0) return;
 
-  // 确认导入章节
-  const confirmImport = useCallback(() => {
-    if (importPreview.length === 0) return;
+    try {
+      setImportPreview(await Promise.all(files.map(file => importService.read(file))));
+    } catch (error) {
+      alert(`导入失败：${error instanceof Error ? error.message : '无法读取文件'}`);
+    }
+  }, []);
 
-    const now = new Date().toISOString();
-    const newChapters: Chapter[] = importPreview.map((preview, index) => ({
-      id: createChapterId(),
-      title: preview.title || `导入章节 ${chapters.length + index + 1}`,
-      content: preview.content,
-      wordCount: preview.content.replace(/\s/g, '').length,
-    }));
+  // 确认导入：追加拆分出的卷和章节
+  const confirmImport = useCallback((result: ManuscriptImportResult) => {
+    const { volumes: newVolumes, chapters: newChapters } = createNovelStructure(result, volumes.length, wordCountMode);
+    const next = [...chapters, ...newChapters];
 
+    if (newVolumes.length > 0) {
+      setVolumes(prev => [...prev, ...newVolumes]);
+    }
     onUpdateNovel({
-      chapters: [...chapters, ...newChapters],
-      wordCount: (novel?.wordCount || 0) + newChapters.reduce((sum, ch) => sum + ch.wordCount, 0),
-      updatedAt: now,
+      chapters: next,
+      wordCount: sumWordCount(next),
+      updatedAt: new Date().toISOString(),
     });
 
-    setImportPreview([]);
-    setShowImportModal(false);
+    setImportPreview(null);
 
     // 选中第一个导入的章节
     if (newChapters.length > 0) {
       setSelectedChapterId(newChapters[0].id);
     }
-  }, [importPreview, chapters, novel, onUpdateNovel]);
+  }, [volumes.length, chapters, wordCountMode, onUpdateNovel]);
 
   // ============ 番茄钟功能 ============
 
@@ -2537,7 +2975,7 @@ ${charDescriptions}
 
   // 导出完整备份
   const exportBackup = useCallback(() => {
-    if (!novel) return;
+    if (!novel || !ensureAllowed('export')) return;
 
     const backupData = {
       version: '1.0',
@@ -2570,7 +3008,7 @@ ${charDescriptions}
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [novel, chapters, volumes, characters, worldviews, timelineEvents, references, mindMaps, outlineNodes, foreshadowings, writingGoals, writingRecords, locations, items, chapterTemplates]);
+  }, [novel, chapters, volumes, characters, worldviews, timelineEvents, references, mindMaps, outlineNodes, foreshadowings, writingGoals, writingRecords, locations, items, chapterTemplates, ensureAllowed]);
 
   // 处理备份文件导入
   const handleBackupImport = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -2624,6 +3062,8 @@ ${charDescriptions}
         if (novelData.locations) setLocations(novelData.locations);
         if (novelData.items) setItems(novelData.items);
         if (novelData.chapterTemplates) setChapterTemplates(novelData.chapterTemplates);
+        if (novelData.comments) onUpdateNovel({ comments: novelData.comments });
+        if (novelData.suggestions) onUpdateNovel({ suggestions: novelData.suggestions });
 
         // 更新小说基本信息
         onUpdateNovel({
@@ -2829,10 +3269,40 @@ ${charDescriptions}
             <p className={`text-base font-semibold ${themeClasses.text}`}>{currentChapter.title}</p>
             <p className={`text-xs ${themeClasses.textMuted}`}>{currentChapter.wordCount} 字</p>
           </div>
-          <button className="px-4 py-2 rounded-xl bg-slate-900 text-white text-xs disabled:opacity-60" onClick={continueWriting} disabled={isStreaming}>
-            {isStreaming ? '推演中...' : 'AI 续写'}
-          </button>
+          <div className="flex items-center gap-2">
+            {chapterSuggestions.length > 0 && (
+              <button
+                className={`px-3 py-2 rounded-xl border text-xs ${themeClasses.border} ${reviewingSuggestions ? 'text-[#2C5F2D] dark:text-[#97BC62]' : themeClasses.textMuted}`}
+                onClick={() => setReviewingSuggestions(!reviewingSuggestions)}
+                title="查看并处理本章的修订建议"
+              >
+                审阅 {chapterSuggestions.length}
+              </button>
+            )}
+            {isStreaming ? (
+              <button className="px-4 py-2 rounded-xl bg-rose-600 text-white text-xs" onClick={stopAiGeneration} title="停止生成，已生成的内容会保留">
+                停止生成
+              </button>
+            ) : (
+              <button
+                className="px-4 py-2 rounded-xl bg-slate-900 text-white text-xs disabled:opacity-60"
+                onClick={continueWriting}
+                disabled={permissions.readOnly}
+                title={permissions.explain('editChapter') ?? undefined}
+              >
+                AI 续写
+              </button>
+            )}
+          </div>
         </div>
+        {(permissions.readOnly || blockedReason) && (
+          <div className={`px-6 py-2 border-b ${themeClasses.border} flex items-center justify-between gap-3 text-xs bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300`}>
+            <span>{permissions.readOnly ? `只读模式：${permissions.explain('editChapter')}` : `修改未保存：${blockedReason}`}</span>
+            {!permissions.readOnly && (
+              <button onClick={() => setBlockedReason(null)} className="hover:underline">知道了</button>
+            )}
+          </div>
+        )}
         {/* 富文本编辑工具栏 */}
         {showRichTextToolbar && (
           <div className={`px-6 py-2 border-b ${themeClasses.border} flex items-center gap-2`}>
@@ -2911,19 +3381,37 @@ ${charDescriptions}
             </button>
           </div>
         )}
-        <textarea
-          ref={textareaRef}
-          value={currentChapter.content}
-          onChange={(e) => updateChapter(currentChapter.id, { content: e.target.value })}
-          onSelect={handleTextSelection}
-          style={{ fontFamily, fontSize: `${fontSize}px`, lineHeight }}
-          className={`flex-1 w-full p-6 text-base leading-relaxed focus:outline-none transition-colors duration-300 ${
-            effectiveTheme === 'dark' ? 'bg-slate-900 text-slate-100' :
-            effectiveTheme === 'gray' ? 'bg-[#f5f3f0] text-slate-800' :
-            'bg-white text-slate-800'
-          }`}
-          placeholder="在此开始书写正文...（选中文本可使用 AI 扩写/润色）"
-        />
+        {reviewingSuggestions && chapterSuggestions.length > 0 ? (
+          <SuggestionReview
+            content={currentChapter.content}
+            suggestions={chapterSuggestions}
+            textStyle={{ fontFamily, fontSize: `${fontSize}px`, lineHeight }}
+            themeClasses={themeClasses}
+            currentUserId={currentUser.id}
+            canAccept={!permissions.readOnly}
+            acceptDisabledReason={permissions.explain('editChapter')}
+            onAccept={acceptSuggestion}
+            onReject={rejectSuggestion}
+            onAcceptAll={acceptAllSuggestions}
+            onRejectAll={rejectAllSuggestions}
+            onClose={() => setReviewingSuggestions(false)}
+          />
+        ) : (
+          <textarea
+            ref={textareaRef}
+            value={currentChapter.content}
+            onChange={(e) => updateChapter(currentChapter.id, { content: e.target.value })}
+            onSelect={handleTextSelection}
+            readOnly={permissions.readOnly}
+            style={{ fontFamily, fontSize: `${fontSize}px`, lineHeight }}
+            className={`flex-1 w-full p-6 text-base leading-relaxed focus:outline-none transition-colors duration-300 ${
+              effectiveTheme === 'dark' ? 'bg-slate-900 text-slate-100' :
+              effectiveTheme === 'gray' ? 'bg-[#f5f3f0] text-slate-800' :
+              'bg-white text-slate-800'
+            }`}
+            placeholder="在此开始书写正文...（选中文本可使用 AI 扩写/润色）"
+          />
+        )}
       </div>
     );
   };
@@ -2988,8 +3476,10 @@ ${charDescriptions}
             导入
           </button>
           <button
-            className="px-3 py-1.5 border rounded-xl border-slate-200 hover:bg-slate-50 transition-colors"
+            className="px-3 py-1.5 border rounded-xl border-slate-200 hover:bg-slate-50 transition-colors disabled:opacity-50"
             onClick={exportMindMap}
+            disabled={!permissions.can('export')}
+            title={permissions.explain('export') ?? undefined}
           >
             导出
           </button>
@@ -3141,6 +3631,7 @@ ${charDescriptions}
               ref={textareaRef}
               value={currentChapter.content}
               onChange={(e) => updateChapter(currentChapter.id, { content: e.target.value })}
+              readOnly={permissions.readOnly}
               style={{ fontFamily, fontSize: `${fontSize}px`, lineHeight }}
               className="w-full h-full p-12 text-base leading-relaxed focus:outline-none bg-[#FAF9F6] dark:bg-slate-950 text-slate-800 dark:text-slate-100 resize-none"
               placeholder="在此开始书写正文..."
@@ -3163,7 +3654,17 @@ ${charDescriptions}
             返回
           </button>
           <div className={`mt-2 text-xs ${themeClasses.textMuted}`}>{novel.title}</div>
-          <button className={`mt-3 w-full text-xs py-2 rounded-xl border ${themeClasses.border} hover:border-[#2C5F2D]`} onClick={() => addChapter()}>
+          {permissions.role && (
+            <div className={`mt-1 text-[11px] ${themeClasses.textMuted}`}>
+              我的角色：{aclService.getRolePermissions(permissions.role)?.name}
+            </div>
+          )}
+          <button
+            className={`mt-3 w-full text-xs py-2 rounded-xl border ${themeClasses.border} hover:border-[#2C5F2D] disabled:opacity-50 disabled:hover:border-current`}
+            onClick={() => addChapter()}
+            disabled={permissions.readOnly}
+            title={permissions.explain('editChapter') ?? undefined}
+          >
             + 新建章节
           </button>
         </div>
@@ -3374,12 +3875,13 @@ ${charDescriptions}
                             </svg>
                           </button>
                           <button
-                            className="p-1 hover:bg-rose-100 text-rose-500 rounded"
+                            className="p-1 hover:bg-rose-100 text-rose-500 rounded disabled:opacity-40 disabled:hover:bg-transparent"
                             onClick={(e) => {
                               e.stopPropagation();
                               deleteVolume(volume.id);
                             }}
-                            title="删除卷"
+                            disabled={!permissions.can('deleteChapter')}
+                            title={permissions.explain('deleteChapter') ?? '删除卷'}
                           >
                             <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -3461,9 +3963,10 @@ ${charDescriptions}
                                         </svg>
                                       </button>
                                       <button
-                                        className="p-1 hover:bg-rose-100 text-rose-500 rounded"
+                                        className="p-1 hover:bg-rose-100 text-rose-500 rounded disabled:opacity-40 disabled:hover:bg-transparent"
                                         onClick={(e) => { e.stopPropagation(); deleteChapter(chapter.id); }}
-                                        title="删除"
+                                        disabled={!permissions.can('deleteChapter')}
+                                        title={permissions.explain('deleteChapter') ?? '删除'}
                                       >
                                         <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -3621,9 +4124,10 @@ ${charDescriptions}
                                     </svg>
                                   </button>
                                   <button
-                                    className="p-1 hover:bg-rose-100 text-rose-500 rounded"
+                                    className="p-1 hover:bg-rose-100 text-rose-500 rounded disabled:opacity-40 disabled:hover:bg-transparent"
                                     onClick={(e) => { e.stopPropagation(); deleteChapter(chapter.id); }}
-                                    title="删除"
+                                    disabled={!permissions.can('deleteChapter')}
+                                    title={permissions.explain('deleteChapter') ?? '删除'}
                                   >
                                     <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -3676,6 +4180,7 @@ ${charDescriptions}
         type={creativeModalType || 'characters'}
         isOpen={creativeModalType !== null}
         onClose={() => setCreativeModalType(null)}
+        novelId={novel?.id}
         novelTitle={novel?.title}
         novelDescription={novel?.description}
         characters={characters}
@@ -3704,6 +4209,7 @@ ${charDescriptions}
         onUpdateOutlineNodes={setOutlineNodes}
         chapters={chapters}
         volumes={volumes}
+        novelId={novel?.id}
         novelTitle={novel?.title}
         novelDescription={novel?.description}
       />
@@ -3716,6 +4222,7 @@ ${charDescriptions}
         onUpdateForeshadowings={setForeshadowings}
         chapters={chapters}
         characters={characters}
+        novelId={novel?.id}
         novelTitle={novel?.title}
         novelDescription={novel?.description}
       />
@@ -3755,6 +4262,19 @@ ${charDescriptions}
                   </button>
                 ))}
               </div>
+              <div className="space-y-2">
+                <p className="text-sm text-slate-500">字数统计口径</p>
+                <select
+                  value={wordCountMode}
+                  onChange={(e) => changeWordCountMode(e.target.value as WordCountMode)}
+                  className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm text-slate-700 focus:outline-none focus:border-[#97BC62]"
+                >
+                  {WORD_COUNT_MODES.map(mode => (
+                    <option key={mode.value} value={mode.value}>{mode.label}：{mode.description}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-400">章节字数、写作目标和统计都按此口径计算</p>
+              </div>
               {activeGoal && (
                 <div className="mt-4 p-4 bg-slate-50 rounded-xl">
                   <p className="text-sm text-slate-600">
@@ -3809,7 +4329,7 @@ ${charDescriptions}
           </div>
 
           <div className="mb-3">
-            <p className="text-xs text-slate-500 mb-1">选中文本 ({selectedText.length} 字)</p>
+            <p className="text-xs text-slate-500 mb-1">选中文本 ({countWords(selectedText, wordCountMode)} 字)</p>
             <p className="text-sm text-slate-700 bg-slate-50 rounded-lg p-2 max-h-20 overflow-y-auto line-clamp-3">
               {selectedText}
             </p>
@@ -3857,7 +4377,7 @@ ${charDescriptions}
 
           {aiTextResult && (
             <div className="space-y-2">
-              <p className="text-xs text-slate-500">处理结果 ({aiTextResult.length} 字)</p>
+              <p className="text-xs text-slate-500">处理结果 ({countWords(aiTextResult, wordCountMode)} 字)</p>
               <div className="text-sm text-slate-700 bg-green-50 rounded-lg p-3 max-h-40 overflow-y-auto whitespace-pre-wrap">
                 {aiTextResult}
               </div>
@@ -3868,6 +4388,14 @@ ${charDescriptions}
                 >
                   应用到正文
                 </button>
+                <button
+                  onClick={suggestAiTextResult}
+                  disabled={!permissions.can('suggest')}
+                  title={permissions.explain('suggest') ?? '逐处记为修订建议，由作者决定接受或拒绝'}
+                  className="flex-1 py-2 text-sm border border-[#2C5F2D] text-[#2C5F2D] rounded-lg hover:bg-[#2C5F2D]/5 disabled:opacity-50"
+                >
+                  作为修订建议
+                </button>
                 <button
                   onClick={() => navigator.clipboard.writeText(aiTextResult)}
                   className="px-4 py-2 text-sm border border-slate-200 rounded-lg hover:bg-slate-50"
@@ -4248,70 +4776,83 @@ ${charDescriptions}
       )}
 
       {/* 文件导入预览模态框 */}
-      {showImportModal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowImportModal(false)}>
-          <div
-            className="bg-white rounded-2xl shadow-2xl w-[600px] max-h-[80vh] overflow-hidden flex flex-col"
-            onClick={e => e.stopPropagation()}
-          >
-            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
-              <div>
-                <h3 className="text-lg font-bold text-slate-800">导入预览</h3>
-                <p className="text-xs text-slate-500 mt-1">共 {importPreview.length} 个文件待导入</p>
-              </div>
-              <button className="text-slate-400 hover:text-slate-600" onClick={() => setShowImportModal(false)}>
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
-            </div>
-            <div className="flex-1 overflow-y-auto p-6 space-y-4">
-              {importPreview.map((item, idx) => (
-                <div key={idx} className="p-4 border border-slate-200 rounded-xl">
-                  <div className="flex items-center justify-between mb-2">
-                    <input
-                      type="text"
-                      value={item.title}
-                      onChange={(e) => {
-                        const updated = [...importPreview];
-                        updated[idx].title = e.target.value;
-                        setImportPreview(updated);
-                      }}
-                      className="font-semibold text-slate-800 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-[#97BC62] focus:outline-none px-1"
-                    />
-                    <button
-                      onClick={() => setImportPreview(prev => prev.filter((_, i) => i !== idx))}
-                      className="p-1 text-rose-500 hover:bg-rose-50 rounded"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                    </button>
-                  </div>
-                  <p className="text-xs text-slate-500 mb-2">
-                    约 {item.content.replace(/\s/g, '').length.toLocaleString()} 字
-                  </p>
-                  <p className="text-sm text-slate-600 line-clamp-3 whitespace-pre-wrap">
-                    {item.content.slice(0, 200)}...
-                  </p>
-                </div>
-              ))}
-            </div>
-            <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-3">
-              <button
-                onClick={() => setShowImportModal(false)}
-                className="px-4 py-2 text-sm border border-slate-200 rounded-lg hover:bg-slate-50"
-              >
-                取消
-              </button>
-              <button
-                onClick={confirmImport}
-                disabled={importPreview.length === 0}
-                className="px-4 py-2 text-sm bg-[#2C5F2D] text-white rounded-lg hover:bg-[#2C5F2D] disabled:opacity-50"
-              >
-                确认导入 ({importPreview.length} 章)
-              </button>
-            </div>
+      {importPreview && (
+        <ImportPreviewModal
+          sources={importPreview}
+          onConfirm={confirmImport}
+          onCancel={() => setImportPreview(null)}
+        />
+      )}
+
+      {/* 操作历史 */}
+      {showNovelHistory && (
+        <NovelHistoryPanel
+          entries={history.entries}
+          position={history.position}
+          canUndo={history.canUndo}
+          canRedo={history.canRedo}
+          inTransaction={history.journal.isInTransaction()}
+          themeClasses={themeClasses}
+          onUndo={undoNovelChange}
+          onRedo={redoNovelChange}
+          onJumpTo={jumpInHistory}
+          onClose={() => setShowNovelHistory(false)}
+        />
+      )}
+
+      {/* AI 记忆 */}
+      {showNovelMemory && novel && novelMemory.memory && (
+        <NovelMemoryPanel
+          novel={novel}
+          memory={novelMemory.memory}
+          themeClasses={themeClasses}
+          onChange={novelMemory.update}
+          onClose={() => setShowNovelMemory(false)}
+        />
+      )}
+
+      {/* 前情回顾 */}
+      {showStorySoFar && (
+        <StorySoFarPanel
+          chapters={chapters}
+          currentChapterId={selectedChapterId}
+          themeClasses={themeClasses}
+          runningChapterId={chapterSummaries.runningChapterId}
+          lastError={chapterSummaries.lastError}
+          onGenerate={chapterSummaries.generateNow}
+          onClose={() => setShowStorySoFar(false)}
+        />
+      )}
+
+      {/* 设定提取 */}
+      {showCodexReview && codexReviewNovel && (
+        <CodexReviewPanel
+          novel={codexReviewNovel}
+          themeClasses={themeClasses}
+          progress={codexScanProgress}
+          lastError={codexScanError}
+          onScan={scanCodex}
+          onStop={stopCodexScan}
+          onApprove={approveCodexProposal}
+          onReject={rejectCodexProposal}
+          onClose={() => setShowCodexReview(false)}
+        />
+      )}
+
+      {/* 版本历史 */}
+      {showVersionHistory && currentChapter && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowVersionHistory(false)}>
+          <div className="w-[480px] h-[80vh] rounded-2xl overflow-hidden shadow-xl" onClick={(e) => e.stopPropagation()}>
+            <VersionHistoryPanel
+              versions={chapterVersions}
+              selectedVersionId={selectedVersionId}
+              currentContent={currentChapter.content}
+              onSelectVersion={setSelectedVersionId}
+              onRestoreVersion={restoreChapterVersion}
+              onDeleteVersion={deleteChapterVersion}
+              onSaveVersion={saveChapterVersion}
+              onClose={() => setShowVersionHistory(false)}
+            />
           </div>
         </div>
       )}
@@ -4427,6 +4968,9 @@ ${charDescriptions}
                   >
                     <div className={`text-[10px] ${msg.role === 'ai' ? themeClasses.textMuted : 'text-[#97BC62]'} mb-1`}>{msg.createdAt}</div>
                     <div className="whitespace-pre-wrap">{msg.content}</div>
+                    {msg.interrupted && (
+                      <div className="mt-1 text-[10px] text-amber-600">（已中断）</div>
+                    )}
                     {/* AI 消息显示操作按钮 */}
                     {msg.role === 'ai' && msg.content && msg.id !== 'init' && (
                       <div className={`flex items-center gap-2 mt-3 pt-2 border-t ${themeClasses.border}`}>
@@ -4634,28 +5178,29 @@ ${charDescriptions}
               />
               <div className={`flex items-center justify-between text-xs ${themeClasses.textMuted}`}>
                 <span>{chatInput.length} / 8000 字</span>
-                <button
-                  className="px-4 py-1.5 rounded-xl bg-[#2C5F2D] text-white text-xs font-medium hover:bg-[#1E4620] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
-                  onClick={sendMessage}
-                  disabled={isStreaming || !chatInput.trim()}
-                >
-                  {isStreaming ? (
-                    <>
-                      <svg className="w-3.5 h-3.5 animate-spin" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                      </svg>
-                      生成中
-                    </>
-                  ) : (
-                    <>
-                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                      </svg>
-                      发送
-                    </>
-                  )}
-                </button>
+                {isStreaming ? (
+                  <button
+                    className="px-4 py-1.5 rounded-xl bg-rose-600 text-white text-xs font-medium hover:bg-rose-700 transition-colors flex items-center gap-1.5"
+                    onClick={stopAiGeneration}
+                    title="停止生成，已生成的内容会保留"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+                      <rect x="6" y="6" width="12" height="12" rx="2" />
+                    </svg>
+                    停止
+                  </button>
+                ) : (
+                  <button
+                    className="px-4 py-1.5 rounded-xl bg-[#2C5F2D] text-white text-xs font-medium hover:bg-[#1E4620] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+                    onClick={sendMessage}
+                    disabled={!chatInput.trim()}
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                    </svg>
+                    发送
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -4668,6 +5213,9 @@ ${charDescriptions}
               <div className="flex items-center justify-between">
                 <p className={`text-xs font-semibold ${themeClasses.textMuted}`}>创作管理</p>
               </div>
+              {!permissions.can('editCodex') && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">{permissions.explain('editCodex')}</p>
+              )}
               <div className="grid grid-cols-2 gap-3">
                 {[
                   { key: 'characters', label: '人物', count: characters.length },
@@ -4678,7 +5226,9 @@ ${charDescriptions}
                   <button
                     key={item.key}
                     onClick={() => setCreativeModalType(item.key as CreativeManagementTab)}
-                    className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50`}
+                    disabled={!permissions.can('editCodex')}
+                    title={permissions.explain('editCodex') ?? undefined}
+                    className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50 disabled:opacity-50`}
                   >
                     <p className={`text-xs ${themeClasses.textMuted}`}>{item.label}</p>
                     <p className="text-xl font-semibold mt-1">{item.count}</p>
@@ -4695,7 +5245,9 @@ ${charDescriptions}
               <div className="grid grid-cols-2 gap-3">
                 <button
                   onClick={() => setShowOutlineManager(true)}
-                  className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50`}
+                  disabled={!permissions.can('editCodex')}
+                  title={permissions.explain('editCodex') ?? undefined}
+                  className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50 disabled:opacity-50`}
                 >
                   <div className="flex items-center gap-2 mb-1">
                     <span>📋</span>
@@ -4705,7 +5257,9 @@ ${charDescriptions}
                 </button>
                 <button
                   onClick={() => setShowForeshadowingTracker(true)}
-                  className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50`}
+                  disabled={!permissions.can('editCodex')}
+                  title={permissions.explain('editCodex') ?? undefined}
+                  className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50 disabled:opacity-50`}
                 >
                   <div className="flex items-center gap-2 mb-1">
                     <span>🌱</span>
@@ -4932,46 +5486,75 @@ ${charDescriptions}
                 <p className={`text-sm font-semibold ${themeClasses.text}`}>导出工具</p>
                 <span className={`text-xs ${themeClasses.textMuted}`}>导出当前章节</span>
               </div>
+              {!permissions.can('export') && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">{permissions.explain('export')}</p>
+              )}
               <button
                 onClick={exportToTXT}
-                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
+                disabled={!permissions.can('export')}
+                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors disabled:opacity-50`}
               >
                 <span className={themeClasses.textMuted}>📄</span>
                 导出为 TXT
               </button>
               <button
                 onClick={exportToMarkdown}
-                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
+                disabled={!permissions.can('export')}
+                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors disabled:opacity-50`}
               >
                 <span className={themeClasses.textMuted}>📝</span>
                 导出为 Markdown
               </button>
               <button
                 onClick={exportToWord}
-                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
+                disabled={!permissions.can('export')}
+                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors disabled:opacity-50`}
               >
                 <span className={themeClasses.textMuted}>📘</span>
                 导出为 Word
               </button>
               <button
                 onClick={exportToPDF}
-                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
+                disabled={!permissions.can('export')}
+                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors disabled:opacity-50`}
               >
                 <span className={themeClasses.textMuted}>📕</span>
                 导出为 PDF
               </button>
+              <div className="flex items-center gap-2 text-xs">
+                <span className={`flex-1 truncate ${themeClasses.textMuted}`} title={pdfFontInfo?.fileName}>
+                  PDF 字体：{pdfFontInfo ? pdfFontInfo.fileName : '未选择（使用阅读器内置字体，不嵌入）'}
+                </span>
+                <button
+                  onClick={() => pdfFontInputRef.current?.click()}
+                  className={`px-2 py-1 rounded-lg border ${themeClasses.border} hover:border-[#97BC62]`}
+                >
+                  {pdfFontInfo ? '更换' : '选择字体'}
+                </button>
+                {pdfFontInfo && (
+                  <button
+                    onClick={removePdfFont}
+                    className={`px-2 py-1 rounded-lg border ${themeClasses.border} hover:border-[#97BC62]`}
+                  >
+                    清除
+                  </button>
+                )}
+                <input ref={pdfFontInputRef} type="file" accept=".ttf,font/ttf" className="hidden" onChange={selectPdfFont} />
+              </div>
               <div className={`border-t ${themeClasses.border} pt-3 mt-3`}>
                 <p className={`text-xs ${themeClasses.textMuted} mb-2`}>导出全部章节</p>
                 <div className="flex gap-2">
                   <button
                     onClick={() => exportAllChapters('txt')}
-                    className={`flex-1 px-3 py-1.5 rounded-xl border ${themeClasses.border} text-xs hover:border-[#97BC62]`}
+                    disabled={!permissions.can('export')}
+                    className={`flex-1 px-3 py-1.5 rounded-xl border ${themeClasses.border} text-xs hover:border-[#97BC62] disabled:opacity-50`}
                   >
                     全部 TXT
                   </button>
                   <button
                     onClick={() => exportAllChapters('md')}
-                    className={`flex-1 px-3 py-1.5 rounded-xl border ${themeClasses.border} text-xs hover:border-[#97BC62]`}
+                    disabled={!permissions.can('export')}
+                    className={`flex-1 px-3 py-1.5 rounded-xl border ${themeClasses.border} text-xs hover:border-[#97BC62] disabled:opacity-50`}
                   >
                     全部 Markdown
                   </button>
@@ -4987,7 +5570,9 @@ ${charDescriptions}
               <div className="grid grid-cols-2 gap-3">
                 <button
                   onClick={() => setShowLocationManager(true)}
-                  className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50`}
+                  disabled={!permissions.can('editCodex')}
+                  title={permissions.explain('editCodex') ?? undefined}
+                  className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50 disabled:opacity-50`}
                 >
                   <div className="flex items-center gap-2 mb-1">
                     <span>🏔️</span>
@@ -4997,7 +5582,9 @@ ${charDescriptions}
                 </button>
                 <button
                   onClick={() => setShowItemManager(true)}
-                  className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50`}
+                  disabled={!permissions.can('editCodex')}
+                  title={permissions.explain('editCodex') ?? undefined}
+                  className={`rounded-2xl border px-4 py-3 text-left transition-colors ${themeClasses.border} ${themeClasses.card} hover:border-[#97BC62]/50 disabled:opacity-50`}
                 >
                   <div className="flex items-center gap-2 mb-1">
                     <span>⚔️</span>
@@ -5112,6 +5699,158 @@ ${charDescriptions}
               )}
             </section>
 
+            {/* 操作历史 */}
+            <section className={`space-y-3 rounded-2xl border ${themeClasses.card} ${themeClasses.border} p-4`}>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className={`text-sm font-semibold ${themeClasses.text}`}>操作历史</p>
+                  <p className={`text-xs ${themeClasses.textMuted}`}>本次会话 {history.entries.length} 条修改，批量操作可整体撤销</p>
+                </div>
+                <button
+                  className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62]`}
+                  onClick={() => setShowNovelHistory(true)}
+                >
+                  查看
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  className={`flex-1 px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62] disabled:opacity-40`}
+                  onClick={undoNovelChange}
+                  disabled={!history.canUndo}
+                >
+                  撤销
+                </button>
+                <button
+                  className={`flex-1 px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62] disabled:opacity-40`}
+                  onClick={redoNovelChange}
+                  disabled={!history.canRedo}
+                >
+                  重做
+                </button>
+              </div>
+            </section>
+
+            {/* 版本历史 */}
+            <section className={`space-y-3 rounded-2xl border ${themeClasses.card} ${themeClasses.border} p-4`}>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className={`text-sm font-semibold ${themeClasses.text}`}>版本历史</p>
+                  <p className={`text-xs ${themeClasses.textMuted}`}>
+                    {currentChapter ? `当前章节 ${chapterVersions.length} 个版本` : '请先选择章节'}
+                  </p>
+                </div>
+                <button
+                  className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62]`}
+                  onClick={() => setShowVersionHistory(true)}
+                  disabled={!currentChapter}
+                >
+                  查看
+                </button>
+              </div>
+              <p className={`text-[10px] ${themeClasses.textMuted}`}>
+                AI 写入和批量操作前、会话结束时自动保存；24 小时内全部保留，一周内每小时一个，更早的每天一个
+              </p>
+            </section>
+
+            {/* AI 记忆 */}
+            <section className={`space-y-3 rounded-2xl border ${themeClasses.card} ${themeClasses.border} p-4`}>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className={`text-sm font-semibold ${themeClasses.text}`}>AI 记忆</p>
+                  <p className={`text-xs ${themeClasses.textMuted}`}>
+                    {novelMemory.memory
+                      ? `近期 ${novelMemory.memory.recent.length} 章，长期 ${novelMemory.memory.longterm.length} 章`
+                      : '尚未生成'}
+                  </p>
+                </div>
+                <button
+                  className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62]`}
+                  onClick={() => {
+                    novelMemory.refresh();
+                    setShowNovelMemory(true);
+                  }}
+                  disabled={!novel}
+                >
+                  查看
+                </button>
+              </div>
+              <p className={`text-[10px] ${themeClasses.textMuted}`}>
+                续写时提供给 AI 的前情摘要，保存章节后自动更新；修正过的内容不会被覆盖
+              </p>
+            </section>
+
+            {/* 前情回顾 */}
+            <section className={`space-y-3 rounded-2xl border ${themeClasses.card} ${themeClasses.border} p-4`}>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className={`text-sm font-semibold ${themeClasses.text}`}>前情回顾</p>
+                  <p className={`text-xs ${themeClasses.textMuted}`}>
+                    {chapterSummaries.runningChapterId
+                      ? `正在生成「${chapters.find(c => c.id === chapterSummaries.runningChapterId)?.title ?? ''}」的摘要`
+                      : chapterSummaries.lastError
+                        ? '摘要生成失败，可在回顾中重试'
+                        : `${chapters.filter(c => ChapterSummaryService.getFreshSummary(c)).length}/${chapters.length} 章已有 AI 摘要`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62]`}
+                    onClick={toggleAutoSummary}
+                    title="开启后，本次编辑过的章节停止编辑一段时间后，用当前模型在后台生成摘要；其余章节在回顾中手动生成"
+                  >
+                    自动：{autoSummary ? '开' : '关'}
+                  </button>
+                  <button
+                    className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62]`}
+                    onClick={() => setShowStorySoFar(true)}
+                    disabled={!novel}
+                  >
+                    查看
+                  </button>
+                </div>
+              </div>
+              <p className={`text-[10px] ${themeClasses.textMuted}`}>
+                AI 摘要用于续写提示、记忆检索和大纲回写；每章一次模型调用，自动生成默认关闭
+              </p>
+            </section>
+
+            {/* 设定提取 */}
+            <section className={`space-y-3 rounded-2xl border ${themeClasses.card} ${themeClasses.border} p-4`}>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className={`text-sm font-semibold ${themeClasses.text}`}>设定提取</p>
+                  <p className={`text-xs ${themeClasses.textMuted}`}>
+                    {codexScanProgress
+                      ? `正在扫描第 ${codexScanProgress.current}/${codexScanProgress.total} 章`
+                      : codexScanError
+                        ? '扫描失败，可在审阅中重试'
+                        : `${novel?.codexProposals?.length ?? 0} 条建议待审阅`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62]`}
+                    onClick={() => void scanCodex()}
+                    disabled={!novel || Boolean(codexScanProgress)}
+                    title="用当前模型扫描未扫描或已修改的章节"
+                  >
+                    扫描
+                  </button>
+                  <button
+                    className={`px-3 py-1.5 rounded-xl text-xs border transition-colors ${themeClasses.border} hover:border-[#97BC62]`}
+                    onClick={() => setShowCodexReview(true)}
+                    disabled={!novel}
+                  >
+                    审阅
+                  </button>
+                </div>
+              </div>
+              <p className={`text-[10px] ${themeClasses.textMuted}`}>
+                从章节中找出新人物、特征、地点、道具易主、关系变化和事件，批准后才写入设定
+              </p>
+            </section>
+
             {/* AI 角色对话生成 */}
             <section className={`space-y-3 rounded-2xl border ${themeClasses.card} ${themeClasses.border} p-4`}>
               <div className="flex items-center justify-between">
@@ -5160,19 +5899,21 @@ ${charDescriptions}
                 ref={fileInputRef}
                 type="file"
                 multiple
-                accept=".txt,.md"
+                accept=".txt,.md,.epub,.docx"
                 onChange={handleFileImport}
                 className="hidden"
               />
               <button
                 onClick={() => fileInputRef.current?.click()}
-                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
+                disabled={permissions.readOnly}
+                title={permissions.explain('editChapter') ?? undefined}
+                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors disabled:opacity-50`}
               >
                 <span className={themeClasses.textMuted}>📥</span>
-                导入 TXT/Markdown 文件
+                导入 TXT/Markdown/EPUB/Word 文件
               </button>
               <p className={`text-[10px] ${themeClasses.textMuted}`}>
-                支持多选，每个文件将作为一个新章节导入
+                支持多选，自动识别编码并按卷、章标题拆分
               </p>
             </section>
 
@@ -5228,7 +5969,9 @@ ${charDescriptions}
               </div>
               <button
                 onClick={exportBackup}
-                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-green-400 transition-colors`}
+                disabled={!permissions.can('export')}
+                title={permissions.explain('export') ?? undefined}
+                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-green-400 transition-colors disabled:opacity-50`}
               >
                 <span className={themeClasses.textMuted}>💾</span>
                 导出完整备份
@@ -5242,7 +5985,9 @@ ${charDescriptions}
               />
               <button
                 onClick={() => backupInputRef.current?.click()}
-                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors`}
+                disabled={permissions.readOnly}
+                title={permissions.explain('editChapter') ?? undefined}
+                className={`w-full text-left px-3 py-2 rounded-xl border ${themeClasses.border} text-sm flex items-center gap-2 hover:border-[#97BC62] transition-colors disabled:opacity-50`}
               >
                 <span className={themeClasses.textMuted}>📂</span>
                 从备份恢复
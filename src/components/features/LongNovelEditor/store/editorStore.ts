@@ -18,6 +18,8 @@ export interface AIChatMessage {
   role: 'user' | 'ai';
   content: string;
   createdAt: string;
+  /** 生成被用户中止，content 为已生成的部分 */
+  interrupted?: boolean;
 }
 
 export interface AIChatSession {
@@ -204,6 +206,8 @@ interface EditorState {
   // AI 生成状态
   isAiGenerating: boolean;
   aiGeneratingType: 'mindmap' | 'character' | 'worldview' | 'event' | 'reference' | null;
+  // 当前 AI 生成的中止控制器（isStreaming / isAiGenerating 期间有效）
+  aiAbortController: AbortController | null;
 
   // 联网搜索
   webSearchEnabled: boolean;
@@ -387,6 +391,8 @@ interface EditorActions {
   // AI 生成操作
   setIsAiGenerating: (generating: boolean) => void;
   setAiGeneratingType: (type: 'mindmap' | 'character' | 'worldview' | 'event' | 'reference' | null) => void;
+  beginAiGeneration: () => AbortSignal;
+  stopAiGeneration: () => void;
 
   // 联网搜索操作
   setWebSearchEnabled: (enabled: boolean) => void;
@@ -538,6 +544,7 @@ const initialState: EditorState = {
 
   isAiGenerating: false,
   aiGeneratingType: null,
+  aiAbortController: null,
 
   webSearchEnabled: false,
   isSearching: false,
@@ -780,6 +787,17 @@ export const useEditorStore = create<EditorState & EditorActions>((set, get) =>
   // AI 生成操作
   setIsAiGenerating: (isAiGenerating) => set({ isAiGenerating }),
   setAiGeneratingType: (aiGeneratingType) => set({ aiGeneratingType }),
+  beginAiGeneration: () => {
+    // 同一时间只保留一个生成任务
+    get().aiAbortController?.abort();
+    const aiAbortController = new AbortController();
+    set({ aiAbortController });
+    return aiAbortController.signal;
+  },
+  stopAiGeneration: () => {
+    get().aiAbortController?.abort();
+    set({ aiAbortController: null });
+  },
 
   // 联网搜索操作
   setWebSearchEnabled: (webSearchEnabled) => set({ webSearchEnabled }),
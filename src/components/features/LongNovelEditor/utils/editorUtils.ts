@@ -301,10 +301,8 @@ export const exportToPDF = (title: string, content: string) => {
 
 // ============ 文本处理 ============
 
-// 计算文本字数
-export const countWords = (text: string): number => {
-  return text.replace(/\s/g, '').length;
-};
+// 计算文本字数（全站统一的统计口径）
+export { countWords } from '../../../../utils/wordCount';
 
 // 敏感词检测
 export const detectSensitiveWords = (content: string): string[] => {
@@ -153,13 +153,13 @@ const MemberCenter: React.FC<MemberCenterProps> = ({ user, activityLog, onPlanCh
                       ? 'bg-emerald-100 dark:bg-emerald-900/50 text-emerald-600 dark:text-emerald-400'
                       : 'bg-amber-100 dark:bg-amber-900/50 text-amber-600 dark:text-amber-400'
                   }`}>
-                    {apiSettings.apiMode === 'custom' && apiSettings.apiKey ? '已配置' : '未配置'}
+                    {apiSettings.apiMode === 'membership' ? '积分计费' : apiSettings.apiKey ? '已配置' : '未配置'}
                   </span>
                 </div>
 
                 {apiSettings.apiMode === 'membership' ? (
                   <p className="text-sm text-amber-600 dark:text-amber-500">
-                    会员服务即将上线，敬请期待。请前往设置切换到「自定义 API」模式并配置您的 API Key。
+                    AI 调用由平台服务完成，每次调用按模型扣除积分，当前积分 {user.points ?? 0}。积分不足时请充值或切换到「自定义 API」模式。
                   </p>
                 ) : apiSettings.apiKey ? (
                   <div className="space-y-2">
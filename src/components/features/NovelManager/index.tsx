@@ -1,7 +1,11 @@
 import React, { useMemo, useRef, useState } from 'react';
-import { Novel, ViewState, Chapter } from '../../../types';
+import { Novel, User, ViewState } from '../../../types';
 import { createNovelId, createChapterId } from '../../../utils/id';
-import { BookOpen, Upload, Search, Copy, Trash2, Edit3 } from 'lucide-react';
+import { BookOpen, Upload, Search, Copy, Trash2, Edit3, Share2 } from 'lucide-react';
+import { importService, createNovelStructure, type ManuscriptImportResult, type ManuscriptSource } from '../../../services/import/ImportService';
+import { aclService } from '../../../services/acl/AclService';
+import ImportPreviewModal from '../../ui/ImportPreviewModal';
+import ShareNovelModal from '../../ui/ShareNovelModal';
 
 interface NovelManagerProps {
   onNavigate: (view: ViewState) => void;
@@ -11,93 +15,16 @@ interface NovelManagerProps {
   onCreateNovel?: (novel: Omit<Novel, 'id' | 'ownerId' | 'updatedAt'>) => void;
   onDeleteNovel?: (novelId: string) => void;
   isAuthenticated: boolean;
+  /** 当前用户 ID，用于权限检查和分享 */
+  currentUserId?: string;
+  /** 可邀请的账号 */
+  users?: Pick<User, 'id' | 'name' | 'email'>[];
 }
 
 const CATEGORIES = [
   '玄幻奇幻', '武侠仙侠', '都市生活', '历史军事', '游戏竞技', '科幻未来', '悬疑灵异', '二次元'
 ];
 
-// 章节标题匹配正则
-const CHAPTER_PATTERNS = [
-  /^第[一二三四五六七八九十百千万零0-9]+[章节回卷][\s\S]*$/,
-  /^[第][0-9]+[章节回卷][\s\S]*$/,
-  /^Chapter\s*[0-9]+[\s\S]*/i,
-  /^[0-9]+[\.、．]\s*.+$/,
-  /^【第[一二三四五六七八九十百千万零0-9]+[章节回卷]】[\s\S]*$/,
-];
-
-// 解析 TXT 内容并自动分章
-const parseTxtToChapters = (content: string, novelTitle: string): Chapter[] => {
-  const lines = content.split('\n');
-  const chapters: Chapter[] = [];
-  let currentChapter: { title: string; content: string[] } | null = null;
-  let chapterIndex = 0;
-
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-
-    // 检查是否是章节标题
-    const isChapterTitle = CHAPTER_PATTERNS.some(pattern => pattern.test(trimmedLine));
-
-    if (isChapterTitle && trimmedLine.length > 0 && trimmedLine.length < 100) {
-      // 保存之前的章节
-      if (currentChapter && currentChapter.content.length > 0) {
-        const chapterContent = currentChapter.content.join('\n').trim();
-        if (chapterContent.length > 0) {
-          chapters.push({
-            id: createChapterId(),
-            title: currentChapter.title,
-            content: chapterContent,
-            wordCount: chapterContent.length,
-          });
-        }
-      }
-      // 开始新章节
-      currentChapter = {
-        title: trimmedLine,
-        content: []
-      };
-      chapterIndex++;
-    } else if (currentChapter) {
-      // 添加到当前章节
-      currentChapter.content.push(line);
-    } else if (trimmedLine.length > 0) {
-      // 第一个章节之前的内容，创建一个序章
-      if (!currentChapter) {
-        currentChapter = {
-          title: '序章',
-          content: [line]
-        };
-      }
-    }
-  }
-
-  // 保存最后一个章节
-  if (currentChapter && currentChapter.content.length > 0) {
-    const chapterContent = currentChapter.content.join('\n').trim();
-    if (chapterContent.length > 0) {
-      chapters.push({
-        id: createChapterId(),
-        title: currentChapter.title,
-        content: chapterContent,
-        wordCount: chapterContent.length,
-      });
-    }
-  }
-
-  // 如果没有找到任何章节标题，将整个内容作为一个章节
-  if (chapters.length === 0 && content.trim().length > 0) {
-    chapters.push({
-      id: createChapterId(),
-      title: '第一章',
-      content: content.trim(),
-      wordCount: content.trim().length,
-    });
-  }
-
-  return chapters;
-};
-
 const NovelManager: React.FC<NovelManagerProps> = ({
   onNavigate,
   novels,
@@ -105,7 +32,9 @@ const NovelManager: React.FC<NovelManagerProps> = ({
   onNovelClick,
   onCreateNovel,
   onDeleteNovel,
-  isAuthenticated
+  isAuthenticated,
+  currentUserId,
+  users = []
 }) => {
   const [viewMode, setViewMode] = useState<'list' | 'create'>('list');
   const [searchQuery, setSearchQuery] = useState('');
@@ -121,13 +50,21 @@ const NovelManager: React.FC<NovelManagerProps> = ({
   const [tagInput, setTagInput] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const txtImportRef = useRef<HTMLInputElement>(null);
-  const [showImportModal, setShowImportModal] = useState(false);
-  const [importPreview, setImportPreview] = useState<{
-    filename: string;
-    chapters: { title: string; wordCount: number }[];
-    totalWords: number;
-  } | null>(null);
-  const [pendingImportContent, setPendingImportContent] = useState<string>('');
+  const [importPreview, setImportPreview] = useState<ManuscriptSource | null>(null);
+  const [sharingNovel, setSharingNovel] = useState<Novel | null>(null);
+
+  // 未登录或未归属任何账号的旧作品不做权限限制
+  const explainDenied = (novel: Novel, action: 'share' | 'deleteNovel'): string | null => {
+    if (!currentUserId || !novel.ownerId) return null;
+    const result = aclService.checkNovel(currentUserId, novel.id, action);
+    return result.allowed ? null : result.reason;
+  };
+
+  const describeRole = (novel: Novel): string | null => {
+    if (!currentUserId || novel.ownerId === currentUserId || !novel.ownerId) return null;
+    const role = aclService.check(currentUserId, 'novel', novel.id, 'read').effectiveRole;
+    return role ? `共享 · ${aclService.getRolePermissions(role)?.name ?? role}` : null;
+  };
 
   const filteredNovels = useMemo(() => {
     return novels.filter(n => {
@@ -187,59 +124,41 @@ const NovelManager: React.FC<NovelManagerProps> = ({
     reader.readAsDataURL(file);
   };
 
-  // TXT 文件导入处理
-  const handleTxtImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // 稿件导入：读取文件后进入预览
+  const handleTxtImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      if (!content) return;
-
-      // 解析章节
-      const filename = file.name.replace(/\.txt$/i, '');
-      const chapters = parseTxtToChapters(content, filename);
-      const totalWords = chapters.reduce((sum, ch) => sum + ch.wordCount, 0);
-
-      // 设置预览
-      setImportPreview({
-        filename,
-        chapters: chapters.map(ch => ({ title: ch.title, wordCount: ch.wordCount })),
-        totalWords
-      });
-      setPendingImportContent(content);
-      setShowImportModal(true);
-    };
-
-    reader.readAsText(file, 'UTF-8');
-    event.target.value = '';
+    try {
+      setImportPreview(await importService.read(file));
+    } catch (error) {
+      alert(`导入失败：${error instanceof Error ? error.message : '无法读取文件'}`);
+    }
   };
 
-  // 确认导入 TXT
-  const confirmTxtImport = () => {
-    if (!importPreview || !pendingImportContent) return;
-
-    const chapters = parseTxtToChapters(pendingImportContent, importPreview.filename);
+  // 确认导入：一次性创建卷和章节
+  const confirmTxtImport = (result: ManuscriptImportResult) => {
+    const { volumes, chapters } = createNovelStructure(result);
+    const formatLabel = result.format === 'docx' ? 'Word' : result.format.toUpperCase();
 
     const newNovel: Novel = {
       id: createNovelId(),
-      title: importPreview.filename,
-      description: `从 TXT 文件导入，共 ${chapters.length} 章`,
+      title: result.title,
+      description: result.description || result.preface?.slice(0, 500) || `从 ${formatLabel} 文件导入，共 ${chapters.length} 章`,
       type: '未分类',
-      targetWordCount: importPreview.totalWords * 1.5,
-      wordCount: importPreview.totalWords,
+      targetWordCount: result.totalWords * 1.5,
+      wordCount: result.totalWords,
       status: 'ongoing',
       tags: ['导入'],
       chapters,
+      volumes,
       updatedAt: new Date().toLocaleDateString('zh-CN')
     };
 
     onSaveNovel(newNovel);
-    setShowImportModal(false);
     setImportPreview(null);
-    setPendingImportContent('');
-    alert(`成功导入《${importPreview.filename}》，共 ${chapters.length} 章，${importPreview.totalWords.toLocaleString()} 字`);
+    alert(`成功导入《${result.title}》，共 ${volumes.length > 0 ? `${volumes.length} 卷 ` : ''}${chapters.length} 章，${result.totalWords.toLocaleString()} 字`);
   };
 
   // 项目副本（复制小说）
@@ -427,49 +346,23 @@ const NovelManager: React.FC<NovelManagerProps> = ({
 
   return (
     <div className="space-y-6 max-w-7xl mx-auto">
-      {/* TXT 导入预览模态框 */}
-      {showImportModal && importPreview && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <div className="bg-white dark:bg-slate-900 rounded-xl p-8 max-w-lg w-full space-y-6 shadow-2xl border border-slate-200 dark:border-slate-800">
-            <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">确认导入</h3>
-            <div className="space-y-3">
-              <p className="text-sm text-slate-600 dark:text-slate-400">
-                文件：<span className="font-medium text-slate-900 dark:text-slate-100">{importPreview.filename}.txt</span>
-              </p>
-              <p className="text-sm text-slate-600 dark:text-slate-400">
-                检测到 <span className="font-semibold text-[#2C5F2D] dark:text-[#97BC62]">{importPreview.chapters.length}</span> 个章节，
-                共 <span className="font-semibold text-[#2C5F2D] dark:text-[#97BC62]">{importPreview.totalWords.toLocaleString()}</span> 字
-              </p>
-            </div>
-            <div className="max-h-64 overflow-y-auto space-y-2 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
-              {importPreview.chapters.slice(0, 20).map((ch, idx) => (
-                <div key={idx} className="flex justify-between text-xs py-1">
-                  <span className="text-slate-700 dark:text-slate-300 truncate flex-1">{ch.title}</span>
-                  <span className="text-slate-500 dark:text-slate-400 ml-3 flex-shrink-0">{ch.wordCount.toLocaleString()} 字</span>
-                </div>
-              ))}
-              {importPreview.chapters.length > 20 && (
-                <p className="text-xs text-slate-500 dark:text-slate-400 text-center pt-2 border-t border-slate-200 dark:border-slate-700">
-                  ... 还有 {importPreview.chapters.length - 20} 个章节
-                </p>
-              )}
-            </div>
-            <div className="flex gap-3">
-              <button
-                onClick={() => { setShowImportModal(false); setImportPreview(null); setPendingImportContent(''); }}
-                className="flex-1 py-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
-              >
-                取消
-              </button>
-              <button
-                onClick={confirmTxtImport}
-                className="flex-1 py-3 rounded-lg bg-[#2C5F2D] text-white text-sm font-medium hover:bg-[#1E4620] transition-colors shadow-sm"
-              >
-                确认导入
-              </button>
-            </div>
-          </div>
-        </div>
+      {sharingNovel && currentUserId && (
+        <ShareNovelModal
+          novel={sharingNovel}
+          currentUserId={currentUserId}
+          users={users}
+          onClose={() => setSharingNovel(null)}
+        />
+      )}
+
+      {/* 稿件导入预览模态框 */}
+      {importPreview && (
+        <ImportPreviewModal
+          sources={[importPreview]}
+          title="确认导入"
+          onConfirm={confirmTxtImport}
+          onCancel={() => setImportPreview(null)}
+        />
       )}
 
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
@@ -490,16 +383,17 @@ const NovelManager: React.FC<NovelManagerProps> = ({
           <input
             ref={txtImportRef}
             type="file"
-            accept=".txt"
+            accept=".txt,.md,.epub,.docx"
             onChange={handleTxtImport}
             className="hidden"
           />
           <button
             className="px-4 py-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors flex items-center gap-2 font-medium"
             onClick={() => txtImportRef.current?.click()}
+            title="支持 TXT、Markdown、EPUB、Word（.docx）"
           >
             <Upload className="w-4 h-4" />
-            导入TXT
+            导入稿件
           </button>
           <button 
             className="px-6 py-3 rounded-lg bg-[#2C5F2D] text-white text-sm font-medium hover:bg-[#1E4620] transition-colors shadow-sm" 
@@ -547,7 +441,14 @@ const NovelManager: React.FC<NovelManagerProps> = ({
             >
               <div className="flex justify-between items-start">
                 <div className="flex-1">
-                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-1">{novel.title}</h3>
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-1 flex items-center gap-2">
+                    {novel.title}
+                    {describeRole(novel) && (
+                      <span className="px-2 py-0.5 rounded-full bg-[#97BC62]/15 text-[#2C5F2D] dark:text-[#97BC62] text-xs font-medium">
+                        {describeRole(novel)}
+                      </span>
+                    )}
+                  </h3>
                   <p className="text-xs text-slate-500 dark:text-slate-400">更新于 {novel.updatedAt}</p>
                 </div>
                 <div className="flex items-center gap-2">
@@ -565,15 +466,25 @@ const NovelManager: React.FC<NovelManagerProps> = ({
                   >
                     <Copy className="w-4 h-4" />
                   </button>
+                  {currentUserId && novel.ownerId && (
+                    <button
+                      className="p-2 text-[#2C5F2D] hover:bg-[#97BC62]/10 rounded-lg transition-colors"
+                      onClick={() => setSharingNovel(novel)}
+                      title={explainDenied(novel, 'share') ?? '分享'}
+                    >
+                      <Share2 className="w-4 h-4" />
+                    </button>
+                  )}
                   {onDeleteNovel && (
                     <button
-                      className="p-2 text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition-colors"
+                      className="p-2 text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
                       onClick={() => {
                         if (window.confirm(`确定要删除《${novel.title}》吗？此操作不可撤销。`)) {
                           onDeleteNovel(novel.id);
                         }
                       }}
-                      title="删除"
+                      disabled={!!explainDenied(novel, 'deleteNovel')}
+                      title={explainDenied(novel, 'deleteNovel') ?? '删除'}
                     >
                       <Trash2 className="w-4 h-4" />
                     </button>
@@ -6,6 +6,7 @@ import { useToast } from '../../ui/Toast';
 import {
   ApiSettings,
   ApiMode,
+  FallbackApiConfig,
   API_PROVIDERS,
   PROVIDER_MODELS,
   MEMBERSHIP_API_CONFIG,
@@ -15,7 +16,18 @@ import {
   saveApiSettings,
   getProviderDisplayName
 } from '../../../config/apiConfig';
-import { BackupService } from '../../../services/backup/BackupService';
+import {
+  BackupService,
+  type BackupData,
+  type BackupSchedule,
+  type LocalBackupEntry,
+} from '../../../services/backup/BackupService';
+import { useSync, NOVEL_SYNC_PREFIX } from '../../../hooks/useSync';
+import { syncService, type SyncItem, type SyncSettings } from '../../../services/sync/SyncService';
+import { chooseNovelSide, mergeNovel, resolveNovelMerge, type NovelMergeResult } from '../../../services/sync/novelMerge';
+import { MergeConflictModal } from '../../ui/MergeConflictModal';
+import { collaborationService, type CollaborationSettings } from '../../../services/collaboration/CollaborationService';
+import type { Novel } from '../../../types';
 
 // 重新导出供其他模块使用
 export type { ApiSettings };
@@ -128,6 +140,9 @@ interface SettingsProps {
   theme: Theme;
   onThemeChange: (theme: Theme) => void;
   onPasswordChange?: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; message: string }>;
+  /** 当前作品，用于从备份中单独恢复作品或章节 */
+  novels?: Novel[];
+  onRestoreNovels?: (novels: Novel[]) => void;
 }
 
 type SettingsTab = 'profile' | 'security' | 'general' | 'writing' | 'api';
@@ -454,7 +469,508 @@ function LoginHistorySection({ loginHistory }: { loginHistory?: LoginHistoryEntr
   );
 }
 
-export default function Settings({ user, storedUser, theme, onThemeChange, onPasswordChange }: SettingsProps) {
+// 多设备同步组件
+function SyncSettingsSection({ toast }: { toast: ReturnType<typeof useToast> }) {
+  const { state, progress, conflicts, failedItems, settings, configure, forceSync, retryFailed, resolveConflict } = useSync();
+  const [draft, setDraft] = useState<SyncSettings>(settings);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [merging, setMerging] = useState<{ item: SyncItem; result: NovelMergeResult } | null>(null);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handleSave = () => {
+    if (draft.enabled && !/^https?:\/\//i.test(draft.serverUrl.trim())) {
+      toast.error('请填写以 http:// 或 https:// 开头的服务器地址');
+      return;
+    }
+    configure({ ...draft, serverUrl: draft.serverUrl.trim(), token: draft.token.trim() });
+    toast.success(draft.enabled ? '已连接同步服务器' : '已关闭多设备同步');
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await forceSync();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '同步失败');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const canMerge = (item: SyncItem) =>
+    item.key.startsWith(NOVEL_SYNC_PREFIX) && item.operation !== 'delete' && !!item.remote && !item.remote.deleted;
+
+  const handleOpenMerge = async (item: SyncItem) => {
+    const base = await syncService.loadBase(item.key);
+    setMerging({ item, result: mergeNovel(base as Novel | undefined, item.data as Novel, item.remote!.data as Novel) });
+  };
+
+  const handleKeepSide = async (item: SyncItem, side: 'local' | 'remote') => {
+    if (!canMerge(item)) {
+      await resolveConflict(item.id, side);
+      return;
+    }
+    // 整体取舍也走三方合并，另一方的冲突正文保存为章节历史版本
+    const base = await syncService.loadBase(item.key);
+    const result = mergeNovel(base as Novel | undefined, item.data as Novel, item.remote!.data as Novel);
+    await resolveConflict(item.id, { data: resolveNovelMerge(result, chooseNovelSide(result, side)) });
+  };
+
+  const handleConfirmMerge = async (novel: Novel) => {
+    if (!merging) return;
+    await resolveConflict(merging.item.id, { data: novel });
+    setMerging(null);
+    toast.success('已合并两台设备的修改');
+  };
+
+  const describeKey = (item: SyncItem) => {
+    const title = (item.data as { title?: string } | null)?.title ?? (item.remote?.data as { title?: string } | null)?.title;
+    return title ? `《${title}》` : item.key;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 space-y-3">
+        <label className="flex items-center justify-between">
+          <div>
+            <h4 className="font-bold text-slate-700 dark:text-slate-200">启用多设备同步</h4>
+            <p className="text-sm text-slate-500 dark:text-slate-400">作品会推送到自建同步服务器，并拉取其他设备的修改。</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={(e) => setDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+            className="w-5 h-5 accent-[#2C5F2D]"
+          />
+        </label>
+        <input
+          value={draft.serverUrl}
+          onChange={(e) => setDraft(prev => ({ ...prev, serverUrl: e.target.value }))}
+          placeholder="服务器地址，如 http://192.168.1.10:8787"
+          className="w-full px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-sm text-slate-800 dark:text-slate-100"
+        />
+        <input
+          type="password"
+          value={draft.token}
+          onChange={(e) => setDraft(prev => ({ ...prev, token: e.target.value }))}
+          placeholder="访问令牌（同一令牌的设备共享数据）"
+          className="w-full px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-sm text-slate-800 dark:text-slate-100"
+        />
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {state.remoteEnabled
+              ? progress
+                ? `${progress.phase === 'push' ? '正在上传' : '正在下载'} ${progress.completed}/${progress.total}`
+                : state.lastSyncAt
+                  ? `上次同步：${new Date(state.lastSyncAt).toLocaleString('zh-CN')}`
+                  : '尚未同步'
+              : '未连接同步服务器'}
+            {state.pendingCount > 0 && ` · 待上传 ${state.pendingCount} 项`}
+          </p>
+          <div className="flex gap-2 flex-shrink-0">
+            {state.remoteEnabled && (
+              <button
+                onClick={handleSyncNow}
+                disabled={isSyncing || !state.isOnline}
+                className="px-4 py-2 border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-200 text-sm font-medium rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+              >
+                {isSyncing ? '同步中...' : '立即同步'}
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 bg-[#2C5F2D] hover:bg-[#1E4620] text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="p-4 bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-200 dark:border-amber-800 space-y-2">
+          <p className="text-sm font-medium text-amber-700 dark:text-amber-300">以下内容在其他设备上也被修改过，请选择保留哪一份：</p>
+          {conflicts.map(item => (
+            <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-slate-700 dark:text-slate-200 truncate">{describeKey(item)}</span>
+              <div className="flex gap-2 flex-shrink-0">
+                {canMerge(item) && (
+                  <button
+                    onClick={() => handleOpenMerge(item)}
+                    className="px-3 py-1 rounded-lg bg-[#2C5F2D] text-xs text-white hover:bg-[#1E4620]"
+                  >
+                    逐项合并
+                  </button>
+                )}
+                <button
+                  onClick={() => handleKeepSide(item, 'local')}
+                  className="px-3 py-1 rounded-lg border border-amber-300 dark:border-amber-700 text-xs text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                >
+                  保留本机
+                </button>
+                <button
+                  onClick={() => handleKeepSide(item, 'remote')}
+                  className="px-3 py-1 rounded-lg border border-amber-300 dark:border-amber-700 text-xs text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                >
+                  使用云端
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {failedItems.length > 0 && (
+        <div className="flex items-center justify-between p-3 bg-rose-50 dark:bg-rose-900/20 rounded-xl border border-rose-200 dark:border-rose-800 text-sm text-rose-600 dark:text-rose-400">
+          <span>{failedItems.length} 项同步失败：{failedItems[0].errorMessage}</span>
+          <button onClick={retryFailed} className="font-medium hover:underline flex-shrink-0">重试</button>
+        </div>
+      )}
+
+      {merging && (
+        <MergeConflictModal
+          result={merging.result}
+          onConfirm={handleConfirmMerge}
+          onCancel={() => setMerging(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function CollaborationSettingsSection({ toast, defaultName }: { toast: ReturnType<typeof useToast>; defaultName: string }) {
+  const [draft, setDraft] = useState<CollaborationSettings>(() => {
+    const settings = collaborationService.getSettings();
+    return { ...settings, displayName: settings.displayName || defaultName };
+  });
+
+  const handleSave = () => {
+    const serverUrl = draft.serverUrl.trim();
+    if (serverUrl && !/^wss?:\/\//i.test(serverUrl)) {
+      toast.error('请填写以 ws:// 或 wss:// 开头的中继服务器地址');
+      return;
+    }
+    if (serverUrl && !draft.token.trim()) {
+      toast.error('使用中继服务器时需要填写访问令牌');
+      return;
+    }
+    collaborationService.configure({ ...draft, serverUrl, token: draft.token.trim(), displayName: draft.displayName.trim() });
+    toast.success(draft.enabled ? '已开启实时协作，重新打开章节后生效' : '已关闭实时协作');
+  };
+
+  return (
+    <div className="p-4 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 space-y-3">
+      <label className="flex items-center justify-between">
+        <div>
+          <h4 className="font-bold text-slate-700 dark:text-slate-200">启用实时协作</h4>
+          <p className="text-sm text-slate-500 dark:text-slate-400">多位作者同时编辑同一章节，修改实时合并并显示彼此的光标。不填服务器时仅在本机的多个标签页之间协作。</p>
+        </div>
+        <input
+          type="checkbox"
+          checked={draft.enabled}
+          onChange={(e) => setDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+          className="w-5 h-5 accent-[#2C5F2D]"
+        />
+      </label>
+      <input
+        value={draft.displayName}
+        onChange={(e) => setDraft(prev => ({ ...prev, displayName: e.target.value }))}
+        placeholder="显示名称（其他作者看到的名字）"
+        className="w-full px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-sm text-slate-800 dark:text-slate-100"
+      />
+      <input
+        value={draft.serverUrl}
+        onChange={(e) => setDraft(prev => ({ ...prev, serverUrl: e.target.value }))}
+        placeholder="中继服务器地址，如 ws://192.168.1.10:8788"
+        className="w-full px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-sm text-slate-800 dark:text-slate-100"
+      />
+      <input
+        type="password"
+        value={draft.token}
+        onChange={(e) => setDraft(prev => ({ ...prev, token: e.target.value }))}
+        placeholder="访问令牌（同一令牌的作者互相可见）"
+        className="w-full px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-sm text-slate-800 dark:text-slate-100"
+      />
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-[#2C5F2D] hover:bg-[#1E4620] text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const INPUT_CLASS = 'w-full px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-sm text-slate-800 dark:text-slate-100';
+
+const formatBackupTime = (time: string) => new Date(time).toLocaleString('zh-CN', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+// 备份恢复：全部覆盖，或只恢复一部作品 / 一个章节
+function BackupRestoreModal({
+  backup,
+  canRestorePartially,
+  onRestoreAll,
+  onRestoreNovel,
+  onRestoreChapter,
+  onClose,
+}: {
+  backup: BackupData;
+  canRestorePartially: boolean;
+  onRestoreAll: () => void;
+  onRestoreNovel: (novelId: string) => void;
+  onRestoreChapter: (novelId: string, chapterId: string) => void;
+  onClose: () => void;
+}) {
+  const novels = BackupService.summarizeBackup(backup);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="w-[520px] max-h-[80vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-xl border border-slate-200 dark:border-slate-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div>
+            <h3 className="font-bold text-slate-800 dark:text-slate-100">恢复备份</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">备份时间：{formatBackupTime(backup.timestamp)}</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-lg leading-none text-slate-400 hover:text-slate-600">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {!canRestorePartially && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">当前页面无法单独恢复作品，只能恢复全部数据。</p>
+          )}
+          {canRestorePartially && novels.length === 0 && (
+            <p className="text-sm text-slate-500 dark:text-slate-400">备份中没有作品。</p>
+          )}
+          {canRestorePartially && novels.map(novel => (
+            <div key={novel.id} className="rounded-xl border border-slate-200 dark:border-slate-700">
+              <div className="flex items-center justify-between gap-3 px-3 py-2">
+                <button
+                  onClick={() => setExpandedId(expandedId === novel.id ? null : novel.id)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className="text-sm font-medium text-slate-800 dark:text-slate-100 truncate">《{novel.title}》</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {novel.chapters.length} 章 · {novel.wordCount} 字 · {expandedId === novel.id ? '收起章节' : '展开章节'}
+                  </p>
+                </button>
+                <button
+                  onClick={() => onRestoreNovel(novel.id)}
+                  className="px-3 py-1 rounded-lg bg-[#2C5F2D] text-xs text-white hover:bg-[#1E4620] flex-shrink-0"
+                >
+                  恢复作品
+                </button>
+              </div>
+              {expandedId === novel.id && (
+                <div className="border-t border-slate-100 dark:border-slate-800 px-3 py-2 space-y-1">
+                  {novel.chapters.map(chapter => (
+                    <div key={chapter.id} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="text-slate-600 dark:text-slate-300 truncate">{chapter.title}（{chapter.wordCount} 字）</span>
+                      <button
+                        onClick={() => onRestoreChapter(novel.id, chapter.id)}
+                        className="px-2 py-0.5 rounded-lg border border-slate-200 dark:border-slate-600 text-xs text-slate-600 dark:text-slate-300 hover:border-[#2C5F2D] flex-shrink-0"
+                      >
+                        恢复章节
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-5 py-3 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between gap-3">
+          <p className="text-xs text-slate-500 dark:text-slate-400">恢复作品或章节不影响其他数据；被替换的章节会先保存一个版本。</p>
+          <button
+            onClick={onRestoreAll}
+            className="px-3 py-1.5 rounded-lg border border-rose-300 dark:border-rose-700 text-xs text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-900/30 flex-shrink-0"
+          >
+            覆盖全部数据
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// 定时本地备份
+function ScheduledBackupSection({
+  toast,
+  onOpenBackup,
+}: {
+  toast: ReturnType<typeof useToast>;
+  onOpenBackup: (backup: BackupData) => void;
+}) {
+  const [schedule, setSchedule] = useState<BackupSchedule>(() => BackupService.getSchedule());
+  const [draft, setDraft] = useState(() => ({ enabled: schedule.enabled, daily: schedule.daily, weekly: schedule.weekly }));
+  const [passphrase, setPassphrase] = useState('');
+  const [entries, setEntries] = useState<LocalBackupEntry[]>(() => BackupService.listLocalBackups());
+  const [busy, setBusy] = useState(false);
+
+  const refresh = () => {
+    setSchedule(BackupService.getSchedule());
+    setEntries(BackupService.listLocalBackups());
+  };
+
+  const handleSave = async () => {
+    if (draft.enabled && !schedule.passphrase && !passphrase) {
+      toast.error('开启定时备份前请设置备份口令');
+      return;
+    }
+    try {
+      await BackupService.saveSchedule(draft, passphrase || undefined);
+      await BackupService.rotateLocalBackups();
+      setPassphrase('');
+      refresh();
+      toast.success(draft.enabled ? '已开启定时备份' : '已关闭定时备份');
+    } catch (error: any) {
+      toast.error(error.message || '保存失败');
+    }
+  };
+
+  // 口令输入框优先，便于打开用旧口令加密的备份
+  const resolvePassphrase = async () => passphrase || await BackupService.getSchedulePassphrase();
+
+  const handleBackupNow = async () => {
+    const key = await resolvePassphrase();
+    if (!key) {
+      toast.error('请先输入备份口令');
+      return;
+    }
+    setBusy(true);
+    try {
+      await BackupService.createLocalBackup(key, 'manual');
+      refresh();
+      toast.success('已保存本地备份');
+    } catch (error: any) {
+      toast.error(error.message || '备份失败');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpen = async (entry: LocalBackupEntry) => {
+    const key = await resolvePassphrase();
+    if (!key) {
+      toast.error('请先输入这份备份使用的口令');
+      return;
+    }
+    try {
+      onOpenBackup(await BackupService.loadLocalBackup(entry.id, key));
+    } catch (error: any) {
+      toast.error(error.code === 'WRONG_PASSPHRASE' ? '口令错误，请在上方输入这份备份使用的口令' : error.message || '读取备份失败');
+    }
+  };
+
+  const handleDelete = async (entry: LocalBackupEntry) => {
+    if (!window.confirm(`确定删除 ${formatBackupTime(entry.createdAt)} 的本地备份吗？`)) return;
+    await BackupService.deleteLocalBackup(entry.id);
+    refresh();
+  };
+
+  return (
+    <div className="p-4 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 space-y-3">
+      <label className="flex items-center justify-between">
+        <div>
+          <h4 className="font-bold text-slate-700 dark:text-slate-200">定时本地备份</h4>
+          <p className="text-sm text-slate-500 dark:text-slate-400">每天在浏览器中自动保存一份加密备份，旧备份按天、按周轮换清理。</p>
+        </div>
+        <input
+          type="checkbox"
+          checked={draft.enabled}
+          onChange={(e) => setDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+          className="w-5 h-5 accent-[#2C5F2D]"
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-3 text-sm text-slate-600 dark:text-slate-300">
+        <label className="flex items-center gap-2">
+          保留最近
+          <input
+            type="number"
+            min={1}
+            value={draft.daily}
+            onChange={(e) => setDraft(prev => ({ ...prev, daily: Number(e.target.value) || 1 }))}
+            className="w-16 px-2 py-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg"
+          />
+          天
+        </label>
+        <label className="flex items-center gap-2">
+          另保留
+          <input
+            type="number"
+            min={0}
+            value={draft.weekly}
+            onChange={(e) => setDraft(prev => ({ ...prev, weekly: Number(e.target.value) || 0 }))}
+            className="w-16 px-2 py-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg"
+          />
+          周（每周一份）
+        </label>
+      </div>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder={schedule.passphrase ? '已设置备份口令，输入新口令可更换' : '备份口令（恢复时需要，请牢记）'}
+        className={INPUT_CLASS}
+      />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={handleBackupNow}
+          disabled={busy}
+          className="px-4 py-2 border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-200 text-sm font-medium rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+        >
+          {busy ? '备份中...' : '立即备份'}
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-[#2C5F2D] hover:bg-[#1E4620] text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          保存
+        </button>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="pt-2 border-t border-slate-200 dark:border-slate-700 space-y-1">
+          {entries.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-slate-600 dark:text-slate-300">
+                {formatBackupTime(entry.createdAt)}
+                <span className="ml-2 text-xs text-slate-400">
+                  {entry.kind === 'scheduled' ? '定时' : '手动'} · {entry.novelCount} 部作品 · {BackupService.formatSize(entry.size)}
+                </span>
+              </span>
+              <div className="flex gap-2 flex-shrink-0">
+                <button onClick={() => handleOpen(entry)} className="text-xs font-medium text-[#2C5F2D] dark:text-[#97BC62] hover:underline">
+                  恢复
+                </button>
+                <button onClick={() => handleDelete(entry)} className="text-xs text-slate-400 hover:text-rose-500">
+                  删除
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Settings({ user, storedUser, theme, onThemeChange, onPasswordChange, novels, onRestoreNovels }: SettingsProps) {
   const toast = useToast();
   const [activeTab, setActiveTab] = useState<SettingsTab>('profile');
 
@@ -489,6 +1005,13 @@ export default function Settings({ user, storedUser, theme, onThemeChange, onPas
   // 备份相关状态
   const [lastBackup, setLastBackup] = useState<string | null>(null);
   const [backupStats, setBackupStats] = useState({ totalItems: 0, totalSize: 0 });
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  /** 等待输入口令的加密备份文件 */
+  const [pendingImport, setPendingImport] = useState<{ name: string; text: string } | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  /** 正在选择恢复内容的备份 */
+  const [restoringBackup, setRestoringBackup] = useState<BackupData | null>(null);
 
   // 初始化加载 API 设置和预设（使用异步解密）
   useEffect(() => {
@@ -528,6 +1051,25 @@ export default function Settings({ user, storedUser, theme, onThemeChange, onPas
     }));
   }, []);
 
+  // 更新备用服务商配置
+  const handleFallbackChange = useCallback((patch: Partial<FallbackApiConfig>) => {
+    setApiSettings(prev => {
+      const current: FallbackApiConfig = prev.fallback || {
+        enabled: false,
+        provider: 'openai',
+        model: PROVIDER_MODELS.openai?.[0]?.id || '',
+        apiKey: '',
+      };
+      const next = { ...current, ...patch };
+      // 切换服务商时重置模型和 Base URL
+      if (patch.provider && patch.provider !== current.provider) {
+        next.model = PROVIDER_MODELS[patch.provider]?.[0]?.id || '';
+        next.baseUrl = API_PROVIDERS.find(p => p.id === patch.provider)?.baseUrl || '';
+      }
+      return { ...prev, fallback: next };
+    });
+  }, []);
+
   // 添加自定义模型
   const handleAddCustomModel = useCallback(() => {
     if (!customModelInput.trim()) return;
@@ -650,30 +1192,98 @@ export default function Settings({ user, storedUser, theme, onThemeChange, onPas
     }
   }, [toast]);
 
-  // 导入备份
+  // 导出加密备份
+  const handleExportEncryptedBackup = useCallback(async () => {
+    if (!exportPassphrase) {
+      toast.error('请先输入加密口令');
+      return;
+    }
+    setIsEncrypting(true);
+    try {
+      await BackupService.downloadEncryptedBackup(exportPassphrase);
+      toast.success('加密备份已下载，恢复时需要输入同一口令');
+      setLastBackup(new Date().toISOString());
+      setExportPassphrase('');
+    } catch (error: any) {
+      toast.error(error.message || '备份失败，请重试');
+    } finally {
+      setIsEncrypting(false);
+    }
+  }, [exportPassphrase, toast]);
+
+  // 导入备份：先打开备份，再选择恢复全部还是单独的作品、章节
   const handleImportBackup = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // 清空 input，允许重复选择同一文件
+    event.target.value = '';
     if (!file) return;
 
+    if (!file.name.endsWith('.json')) {
+      toast.error('请选择 JSON 格式的备份文件');
+      return;
+    }
+
     try {
-      const result = await BackupService.importData(file);
-      if (result.success) {
-        toast.success(result.message);
-        // 询问是否刷新页面
-        if (window.confirm('数据导入成功！是否立即刷新页面以应用更改？')) {
-          window.location.reload();
-        }
-      } else {
-        toast.error(result.message);
+      const text = await file.text();
+      if (BackupService.isEncryptedBackup(text)) {
+        setPendingImport({ name: file.name, text });
+        setImportPassphrase('');
+        return;
       }
+      setRestoringBackup(await BackupService.readBackup(text));
     } catch (error: any) {
-      toast.error('导入失败：' + (error.message || '未知错误'));
+      toast.error(error instanceof SyntaxError ? '备份文件格式错误，无法解析 JSON' : '导入失败：' + (error.message || '未知错误'));
     }
-
-    // 清空 input，允许重复选择同一文件
-    event.target.value = '';
   }, [toast]);
 
+  const handleDecryptImport = useCallback(async () => {
+    if (!pendingImport) return;
+    try {
+      setRestoringBackup(await BackupService.readBackup(pendingImport.text, importPassphrase));
+      setPendingImport(null);
+      setImportPassphrase('');
+    } catch (error: any) {
+      toast.error(error.message || '解密失败');
+    }
+  }, [pendingImport, importPassphrase, toast]);
+
+  const handleRestoreAll = useCallback(() => {
+    if (!restoringBackup) return;
+    if (!window.confirm('覆盖全部数据会替换当前所有作品和设置，确定继续吗？')) return;
+    const count = BackupService.restoreAll(restoringBackup);
+    setRestoringBackup(null);
+    toast.success(`数据导入成功！已恢复 ${count} 项数据。`);
+    // 询问是否刷新页面
+    if (window.confirm('数据导入成功！是否立即刷新页面以应用更改？')) {
+      window.location.reload();
+    }
+  }, [restoringBackup, toast]);
+
+  const applyPartialRestore = useCallback((restore: (current: Novel[]) => Novel[], message: string) => {
+    if (!onRestoreNovels) return;
+    try {
+      onRestoreNovels(restore(novels ?? []));
+      toast.success(message);
+    } catch (error: any) {
+      toast.error(error.message || '恢复失败');
+    }
+  }, [novels, onRestoreNovels, toast]);
+
+  const handleRestoreNovel = useCallback((novelId: string) => {
+    if (!restoringBackup) return;
+    const title = BackupService.getBackupNovels(restoringBackup).find(novel => novel.id === novelId)?.title;
+    if (novels?.some(novel => novel.id === novelId) && !window.confirm(`将用备份替换当前的《${title}》，确定继续吗？`)) return;
+    applyPartialRestore(current => BackupService.restoreNovel(current, restoringBackup, novelId), `已恢复《${title}》`);
+  }, [restoringBackup, novels, applyPartialRestore]);
+
+  const handleRestoreChapter = useCallback((novelId: string, chapterId: string) => {
+    if (!restoringBackup) return;
+    applyPartialRestore(
+      current => BackupService.restoreChapter(current, restoringBackup, novelId, chapterId),
+      '章节已恢复，原内容已保存到版本历史'
+    );
+  }, [restoringBackup, applyPartialRestore]);
+
   const handleSave = () => {
     toast.success("设置已保存");
   };
@@ -1019,6 +1629,49 @@ export default function Settings({ user, storedUser, theme, onThemeChange, onPas
                                  />
                                </label>
                              </div>
+
+                             <div className="flex gap-3 mt-3">
+                               <input
+                                 type="password"
+                                 value={exportPassphrase}
+                                 onChange={(e) => setExportPassphrase(e.target.value)}
+                                 placeholder="加密口令"
+                                 className="flex-1 px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-sm text-slate-800 dark:text-slate-100"
+                               />
+                               <button
+                                 onClick={handleExportEncryptedBackup}
+                                 disabled={isEncrypting}
+                                 className="px-4 py-2.5 bg-[#2C5F2D] hover:bg-[#1E4620] text-white text-sm font-medium rounded-xl transition-colors disabled:opacity-50"
+                               >
+                                 {isEncrypting ? '加密中...' : '导出加密备份'}
+                               </button>
+                             </div>
+
+                             {pendingImport && (
+                               <div className="flex gap-3 mt-3">
+                                 <input
+                                   type="password"
+                                   value={importPassphrase}
+                                   onChange={(e) => setImportPassphrase(e.target.value)}
+                                   onKeyDown={(e) => e.key === 'Enter' && handleDecryptImport()}
+                                   placeholder={`${pendingImport.name} 已加密，请输入口令`}
+                                   autoFocus
+                                   className="flex-1 px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-sm text-slate-800 dark:text-slate-100"
+                                 />
+                                 <button
+                                   onClick={handleDecryptImport}
+                                   className="px-4 py-2.5 bg-[#2C5F2D] hover:bg-[#1E4620] text-white text-sm font-medium rounded-xl transition-colors"
+                                 >
+                                   解密
+                                 </button>
+                                 <button
+                                   onClick={() => setPendingImport(null)}
+                                   className="px-3 py-2.5 text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+                                 >
+                                   取消
+                                 </button>
+                               </div>
+                             )}
                              
                              {lastBackup && (
                                <p className="text-xs text-slate-500 dark:text-slate-400 mt-3 flex items-center gap-1.5">
@@ -1044,17 +1697,40 @@ export default function Settings({ user, storedUser, theme, onThemeChange, onPas
                                <div className="text-sm text-blue-700 dark:text-blue-300">
                                  <p className="font-medium mb-1">备份说明</p>
                                  <ul className="text-xs space-y-1 text-blue-600 dark:text-blue-400">
-                                   <li>• 备份文件为 JSON 格式，包含所有本地数据</li>
-                                   <li>• 建议每周至少备份一次，重要数据及时备份</li>
-                                   <li>• 导入备份会覆盖当前数据，请谨慎操作</li>
-                                   <li>• 备份文件仅存储在本地，不会上传到服务器</li>
+                                   <li>• 备份文件为 JSON 格式，包含所有本地数据；加密备份的内容只能凭口令解开</li>
+                                   <li>• 建议每周至少备份一次，或开启定时本地备份</li>
+                                   <li>• 导入备份时可以只恢复一部作品或一个章节；覆盖全部数据请谨慎操作</li>
+                                   <li>• 备份文件仅存储在本地，不会上传到服务器；忘记口令将无法恢复</li>
                                  </ul>
                                </div>
                              </div>
                            </div>
+
+                           <ScheduledBackupSection toast={toast} onOpenBackup={setRestoringBackup} />
                          </div>
                      </div>
 
+                     <div className="pt-6 border-t border-slate-100 dark:border-slate-800">
+                         <h3 className="font-bold text-slate-800 dark:text-slate-200 mb-4">多设备同步</h3>
+                         <SyncSettingsSection toast={toast} />
+                     </div>
+
+                     {restoringBackup && (
+                       <BackupRestoreModal
+                         backup={restoringBackup}
+                         canRestorePartially={!!onRestoreNovels}
+                         onRestoreAll={handleRestoreAll}
+                         onRestoreNovel={handleRestoreNovel}
+                         onRestoreChapter={handleRestoreChapter}
+                         onClose={() => setRestoringBackup(null)}
+                       />
+                     )}
+
+                     <div className="pt-6 border-t border-slate-100 dark:border-slate-800">
+                         <h3 className="font-bold text-slate-800 dark:text-slate-200 mb-4">实时协作</h3>
+                         <CollaborationSettingsSection toast={toast} defaultName={profile.nickname} />
+                     </div>
+
                      <div className="pt-6 border-t border-slate-100 dark:border-slate-800">
                          <h3 className="font-bold text-slate-800 dark:text-slate-200 mb-4">存储与缓存</h3>
                          <div className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
@@ -1159,9 +1835,6 @@ export default function Settings({ user, storedUser, theme, onThemeChange, onPas
                               <p className="text-xs text-slate-500 dark:text-slate-400">
                                   购买会员获取积分，按使用量扣费
                               </p>
-                              <span className="absolute top-2 left-2 text-[10px] px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/50 text-amber-600 dark:text-amber-400 font-medium">
-                                  即将上线
-                              </span>
                               {apiSettings.apiMode === 'membership' && (
                                   <div className="absolute top-2 right-2 w-5 h-5 bg-amber-500 rounded-full flex items-center justify-center">
                                       <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1179,37 +1852,73 @@ export default function Settings({ user, storedUser, theme, onThemeChange, onPas
                           <div className="flex items-start gap-4">
                               <div className="w-12 h-12 rounded-full bg-amber-100 dark:bg-amber-900/50 flex items-center justify-center flex-shrink-0">
                                   <svg className="w-6 h-6 text-amber-600 dark:text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                                   </svg>
                               </div>
                               <div className="flex-1">
                                   <h3 className="text-lg font-bold text-amber-800 dark:text-amber-300 mb-1">
-                                      会员服务即将上线
+                                      会员模式
                                   </h3>
                                   <p className="text-sm text-amber-700 dark:text-amber-400 mb-4">
-                                      会员积分系统正在开发中，敬请期待。目前 AI 功能无法在此模式下使用。
+                                      AI 调用由平台服务完成，每次调用按所选模型扣除积分，积分不足时无法调用。
                                   </p>
 
-                                  <div className="p-4 bg-white/50 dark:bg-slate-800/50 rounded-xl border border-amber-200 dark:border-amber-700">
-                                      <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                                          如何立即使用 AI 功能？
-                                      </p>
-                                      <ol className="text-xs text-slate-600 dark:text-slate-400 space-y-1.5 list-decimal list-inside">
-                                          <li>切换到上方的「自定义 API」模式</li>
-                                          <li>选择您的 AI 服务商（如 Google Gemini、OpenAI 等）</li>
-                                          <li>输入您的 API Key</li>
-                                          <li>点击「测试连接」验证配置</li>
-                                          <li>保存设置即可开始使用</li>
-                                      </ol>
+                                  <div className="space-y-2">
+                                      {MEMBERSHIP_API_CONFIG.models.map(model => {
+                                          const isSelected = (MEMBERSHIP_API_CONFIG.models.some(m => m.id === apiSettings.selectedModel)
+                                              ? apiSettings.selectedModel
+                                              : MEMBERSHIP_API_CONFIG.defaultModel) === model.id;
+                                          return (
+                                              <button
+                                                  key={model.id}
+                                                  type="button"
+                                                  onClick={() => setApiSettings(prev => ({ ...prev, selectedModel: model.id }))}
+                                                  className={`w-full p-3 rounded-xl border text-left flex items-center justify-between transition-all ${
+                                                      isSelected
+                                                          ? 'border-amber-500 bg-white dark:bg-slate-800'
+                                                          : 'border-amber-200 dark:border-amber-700 bg-white/50 dark:bg-slate-800/50 hover:border-amber-400'
+                                                  }`}
+                                              >
+                                                  <div>
+                                                      <p className="text-sm font-medium text-slate-700 dark:text-slate-200">{model.name}</p>
+                                                      <p className="text-xs text-slate-500 dark:text-slate-400">{model.description}</p>
+                                                  </div>
+                                                  <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/50 text-amber-700 dark:text-amber-400 font-medium">
+                                                      {model.pointsCost} 积分/次
+                                                  </span>
+                                              </button>
+                                          );
+                                      })}
                                   </div>
 
-                                  <button
-                                      type="button"
-                                      onClick={() => setApiSettings(prev => ({ ...prev, apiMode: 'custom' }))}
-                                      className="mt-4 px-4 py-2 rounded-xl bg-[#2C5F2D] text-white text-sm font-medium hover:bg-[#1E4620] transition-colors"
-                                  >
-                                      切换到自定义 API 模式
-                                  </button>
+                                  <div className="mt-4 flex items-center gap-3">
+                                      <button
+                                          type="button"
+                                          onClick={handleTestConnection}
+                                          disabled={testStatus === 'testing'}
+                                          className="px-4 py-2 rounded-xl bg-amber-500 text-white text-sm font-medium hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                      >
+                                          {testStatus === 'testing' ? '查询中...' : '测试连接并查询积分'}
+                                      </button>
+                                      <button
+                                          type="button"
+                                          onClick={() => setApiSettings(prev => ({ ...prev, apiMode: 'custom' }))}
+                                          className="px-4 py-2 rounded-xl bg-[#2C5F2D] text-white text-sm font-medium hover:bg-[#1E4620] transition-colors"
+                                      >
+                                          切换到自定义 API 模式
+                                      </button>
+                                  </div>
+                                  {testMessage && (
+                                      <p className={`mt-3 text-sm ${
+                                          testStatus === 'success'
+                                              ? 'text-emerald-700 dark:text-emerald-400'
+                                              : testStatus === 'error'
+                                              ? 'text-rose-700 dark:text-rose-400'
+                                              : 'text-slate-600 dark:text-slate-300'
+                                      }`}>
+                                          {testMessage}
+                                      </p>
+                                  )}
                               </div>
                           </div>
                       </div>
@@ -1498,6 +2207,76 @@ export default function Settings({ user, storedUser, theme, onThemeChange, onPas
                       </div>
                   )}
 
+                  {/* 备用服务商 */}
+                  <div className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 space-y-4">
+                      <div className="flex items-center justify-between">
+                          <div>
+                              <p className="text-sm font-bold text-slate-700 dark:text-slate-300">
+                                  备用服务商
+                              </p>
+                              <p className="text-xs text-slate-400 dark:text-slate-500 mt-1">
+                                  主服务商限流或故障且重试失败后，自动切换到备用模型
+                              </p>
+                          </div>
+                          <label className="flex items-center gap-2 cursor-pointer">
+                              <input
+                                  type="checkbox"
+                                  checked={apiSettings.fallback?.enabled || false}
+                                  onChange={(e) => handleFallbackChange({ enabled: e.target.checked })}
+                                  className="w-4 h-4 accent-[#2C5F2D]"
+                              />
+                              <span className="text-sm text-slate-600 dark:text-slate-300">启用</span>
+                          </label>
+                      </div>
+
+                      {apiSettings.fallback?.enabled && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                              <select
+                                  value={apiSettings.fallback.provider}
+                                  onChange={(e) => handleFallbackChange({ provider: e.target.value })}
+                                  className="w-full px-4 py-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-slate-800 dark:text-slate-100 transition-all"
+                              >
+                                  {API_PROVIDERS.map(provider => (
+                                      <option key={provider.id} value={provider.id}>
+                                          {provider.name}
+                                      </option>
+                                  ))}
+                              </select>
+                              <input
+                                  type="text"
+                                  list="fallback-model-options"
+                                  value={apiSettings.fallback.model}
+                                  onChange={(e) => handleFallbackChange({ model: e.target.value })}
+                                  placeholder="模型 ID"
+                                  className="w-full px-4 py-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-slate-800 dark:text-slate-100 transition-all font-mono text-sm"
+                              />
+                              <datalist id="fallback-model-options">
+                                  {(PROVIDER_MODELS[apiSettings.fallback.provider] || []).map(model => (
+                                      <option key={model.id} value={model.id}>
+                                          {model.name}
+                                      </option>
+                                  ))}
+                              </datalist>
+                              <input
+                                  type={showApiKey ? 'text' : 'password'}
+                                  value={apiSettings.fallback.apiKey}
+                                  onChange={(e) => handleFallbackChange({ apiKey: e.target.value })}
+                                  placeholder="备用 API Key"
+                                  className="w-full px-4 py-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-slate-800 dark:text-slate-100 transition-all font-mono text-sm"
+                              />
+                              {apiSettings.fallback.provider === 'custom' && (
+                                  <input
+                                      type="text"
+                                      value={apiSettings.fallback.baseUrl || ''}
+                                      onChange={(e) => handleFallbackChange({ baseUrl: e.target.value })}
+                                      placeholder="https://api.example.com/v1"
+                                      className="w-full px-4 py-3 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-slate-800 dark:text-slate-100 transition-all"
+                                  />
+                              )}
+                          </div>
+                      )}
+                  </div>
+
                   {/* 测试连接 */}
                   <div className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50">
                       <div className="flex items-center justify-between">
@@ -3,6 +3,8 @@ import { ActivityEntry, ShortWork } from '../../../types';
 import { generateCreativeContentStream } from '../../../services/api/gemini';
 import { getApiSettings, getAvailableModels } from '../../../config/apiConfig';
 import { createWorkId } from '../../../utils/id';
+import { countWords, DEFAULT_WORD_COUNT_MODE } from '../../../utils/wordCount';
+import { useToast } from '../../ui/Toast';
 
 const ARTICLE_TEMPLATE = `文章主题：\n核心观点：\n目标受众：\n文章风格：\n关键词：`;
 const STORY_TEMPLATE = `主角姓名：\n年龄：\n性别：\n题材类型：\n情节设定：\n故事氛围：`;
@@ -14,6 +16,7 @@ interface ShortNovelProps {
 }
 
 const ShortNovel: React.FC<ShortNovelProps> = ({ works, onSaveWork, onRecordActivity }) => {
+  const toast = useToast();
   const [mode, setMode] = useState<'article' | 'story'>('article');
   const [title, setTitle] = useState('');
   const [targetWordCount, setTargetWordCount] = useState(1000);
@@ -28,6 +31,7 @@ const ShortNovel: React.FC<ShortNovelProps> = ({ works, onSaveWork, onRecordActi
 
   const [content, setContent] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
   const [lastSaved, setLastSaved] = useState('尚未保存');
 
   // 使用 ref 存储最新的 selectedModel 值，避免闭包问题
@@ -55,7 +59,7 @@ const ShortNovel: React.FC<ShortNovelProps> = ({ works, onSaveWork, onRecordActi
     return () => window.removeEventListener('storage', handleStorageChange);
   }, []); // 空依赖数组 - 只注册一次
 
-  const wordCount = content.length;
+  const wordCount = countWords(content, DEFAULT_WORD_COUNT_MODE);
   const paragraphCount = content.split('\n').filter(p => p.trim() !== '').length;
   const readTime = Math.ceil(wordCount / 500);
 
@@ -69,6 +73,7 @@ const ShortNovel: React.FC<ShortNovelProps> = ({ works, onSaveWork, onRecordActi
     setIsGenerating(true);
     setContent('');
     let produced = '';
+    abortRef.current = new AbortController();
 
     const prompt = `
     任务：撰写一篇${mode === 'article' ? '文章' : '短篇小说'}。
@@ -78,12 +83,18 @@ const ShortNovel: React.FC<ShortNovelProps> = ({ works, onSaveWork, onRecordActi
     请根据以上要求进行创作。
     `;
 
-    await generateCreativeContentStream(prompt, (chunk) => {
-      produced += chunk;
-      setContent(prev => prev + chunk);
-    }, selectedModel);
-
-    setIsGenerating(false);
+    let interrupted = false;
+    try {
+      ({ interrupted } = await generateCreativeContentStream(prompt, (chunk) => {
+        produced += chunk;
+        setContent(prev => prev + chunk);
+      }, selectedModel, { signal: abortRef.current.signal, usage: { feature: 'short_novel' } }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '生成失败，请稍后重试');
+    } finally {
+      abortRef.current = null;
+      setIsGenerating(false);
+    }
     const timestamp = new Date().toLocaleTimeString();
     setLastSaved(timestamp);
     if (produced) {
@@ -92,8 +103,9 @@ const ShortNovel: React.FC<ShortNovelProps> = ({ works, onSaveWork, onRecordActi
         mode,
         title,
         content: produced,
-        wordCount: produced.length,
+        wordCount: countWords(produced, DEFAULT_WORD_COUNT_MODE),
         model: selectedModel,
+        interrupted,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -102,7 +114,7 @@ const ShortNovel: React.FC<ShortNovelProps> = ({ works, onSaveWork, onRecordActi
         type: 'ai_call',
         description: `短文写作《${title}》`,
         deltaPoints: -2,
-        metadata: { words: produced.length }
+        metadata: { words: countWords(produced, DEFAULT_WORD_COUNT_MODE) }
       });
     }
   };
@@ -137,7 +149,7 @@ const ShortNovel: React.FC<ShortNovelProps> = ({ works, onSaveWork, onRecordActi
                 mode,
                 title: title || '未命名作品',
                 content,
-                wordCount: content.length,
+                wordCount,
                 model: selectedModel,
                 createdAt: new Date().toISOString(),
                 updatedAt: new Date().toISOString(),
@@ -219,11 +231,10 @@ const ShortNovel: React.FC<ShortNovelProps> = ({ works, onSaveWork, onRecordActi
             </div>
 
             <button
-              onClick={handleGenerate}
-              disabled={isGenerating}
+              onClick={isGenerating ? () => abortRef.current?.abort() : handleGenerate}
               className="w-full py-3.5 bg-[#2C5F2D] hover:bg-[#1E4620] text-white rounded-xl font-bold shadow-lg shadow-[#E8F5E8] dark:shadow-none transition-all disabled:opacity-50"
             >
-              {isGenerating ? '生成中...' : '开始创作'}
+              {isGenerating ? '生成中...（点击停止）' : '开始创作'}
             </button>
           </div>
         </div>
@@ -0,0 +1,303 @@
+/**
+ * @fileoverview AI 用量与费用面板
+ * @module components/features/WritingStats/AiUsagePanel
+ */
+
+import React, { useState, useMemo } from 'react';
+import { Novel } from '../../../types/novel';
+import { UsageBreakdownItem, UsageBudget } from '../../../types/usage';
+import { UsageService, AI_FEATURE_LABELS } from '../../../services/usage/UsageService';
+import { getApiSettings } from '../../../config/apiConfig';
+import { Coins, Cpu, Wallet, Trash2 } from 'lucide-react';
+
+interface AiUsagePanelProps {
+  novels: Novel[];
+}
+
+const formatCost = (cost: number): string => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(2)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : tokens.toString();
+
+const AiUsagePanel: React.FC<AiUsagePanelProps> = ({ novels }) => {
+  // 账本变化后递增，触发重新汇总
+  const [version, setVersion] = useState(0);
+  const [budgetForm, setBudgetForm] = useState<UsageBudget>(UsageService.getBudget);
+  const [pricingModel, setPricingModel] = useState('');
+  const [pricingForm, setPricingForm] = useState({ input: '', output: '' });
+
+  const data = useMemo(() => {
+    const records = UsageService.getRecords();
+    // 日期按本地时间，取按日汇总的最后一天即今天
+    const daily = UsageService.getDailyBreakdown(14);
+    return {
+      totals: UsageService.getTotals(records),
+      todayTotals: daily[daily.length - 1],
+      daily,
+      byNovel: UsageService.getBreakdown('novel', records),
+      byFeature: UsageService.getBreakdown('feature', records),
+      byModel: UsageService.getBreakdown('model', records),
+      estimatedCount: records.filter(r => r.estimated).length,
+    };
+    // version 仅用于在账本变化后重新计算
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [version]);
+
+  const novelTitles = useMemo(() => new Map(novels.map(n => [n.id, n.title])), [novels]);
+  const maxDailyCost = Math.max(...data.daily.map(d => d.cost), 0);
+
+  // 可设置单价的模型：账本中出现过的模型 + 当前选择的模型
+  const pricingModels = useMemo(() => {
+    const settings = getApiSettings();
+    const models = new Map<string, string>();
+    if (settings.selectedModel) models.set(settings.selectedModel, settings.provider);
+    data.byModel.forEach(item => {
+      const [provider, ...rest] = item.key.split('/');
+      models.set(rest.join('/'), provider);
+    });
+    return Array.from(models.entries()).map(([model, provider]) => ({
+      model,
+      provider,
+      pricing: UsageService.getPricing(provider, model),
+      custom: !!UsageService.getCustomPricing()[model],
+    }));
+  }, [data]);
+
+  const handleSaveBudget = () => {
+    UsageService.setBudget(budgetForm);
+    setVersion(v => v + 1);
+  };
+
+  const handleEditPricing = (model: string) => {
+    const item = pricingModels.find(m => m.model === model);
+    setPricingModel(model);
+    setPricingForm({
+      input: item?.pricing?.input.toString() ?? '',
+      output: item?.pricing?.output.toString() ?? '',
+    });
+  };
+
+  const handleSavePricing = () => {
+    const input = parseFloat(pricingForm.input);
+    const output = parseFloat(pricingForm.output);
+    if (!pricingModel || isNaN(input) || isNaN(output)) return;
+    UsageService.setCustomPricing(pricingModel, { input, output });
+    setPricingModel('');
+    setVersion(v => v + 1);
+  };
+
+  const handleResetPricing = (model: string) => {
+    UsageService.setCustomPricing(model, null);
+    setVersion(v => v + 1);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('确定要清空 AI 用量记录吗？')) return;
+    UsageService.clear();
+    setVersion(v => v + 1);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl p-6 border border-slate-200 dark:border-slate-700 space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+          🤖 AI 用量与费用
+        </h3>
+        <button
+          onClick={handleClear}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-500 hover:text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition-colors"
+        >
+          <Trash2 className="w-4 h-4" />
+          清空记录
+        </button>
+      </div>
+
+      {/* 概览 */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <SummaryItem icon={<Wallet className="w-4 h-4" />} label="累计费用" value={formatCost(data.totals.cost)} />
+        <SummaryItem icon={<Coins className="w-4 h-4" />} label="今日费用" value={formatCost(data.todayTotals.cost)} />
+        <SummaryItem
+          icon={<Cpu className="w-4 h-4" />}
+          label="累计 Token"
+          value={formatTokens(data.totals.promptTokens + data.totals.completionTokens)}
+        />
+        <SummaryItem icon={<Cpu className="w-4 h-4" />} label="调用次数" value={data.totals.calls.toString()} />
+      </div>
+      {data.estimatedCount > 0 && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          其中 {data.estimatedCount} 次调用服务商未返回用量，已按字数估算。
+        </p>
+      )}
+
+      {/* 每日费用 */}
+      <div>
+        <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">最近 14 天</h4>
+        <div className="space-y-1.5">
+          {data.daily.map(day => (
+            <div key={day.key} className="flex items-center gap-3 text-sm">
+              <div className="w-20 text-slate-500 dark:text-slate-400">{day.key.slice(5)}</div>
+              <div className="flex-1 h-5 bg-slate-100 dark:bg-slate-700 rounded overflow-hidden">
+                <div
+                  className="h-full bg-[#97BC62]"
+                  style={{ width: `${maxDailyCost > 0 ? (day.cost / maxDailyCost) * 100 : 0}%` }}
+                />
+              </div>
+              <div className="w-28 text-right text-slate-700 dark:text-slate-300">
+                {day.calls > 0 ? `${formatCost(day.cost)} · ${day.calls}次` : '-'}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 分组统计 */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <BreakdownList
+          title="按作品"
+          items={data.byNovel}
+          label={key => (key ? novelTitles.get(key) || '已删除的作品' : '未关联作品')}
+        />
+        <BreakdownList
+          title="按功能"
+          items={data.byFeature}
+          label={key => AI_FEATURE_LABELS[key as keyof typeof AI_FEATURE_LABELS] || key}
+        />
+        <BreakdownList title="按模型" items={data.byModel} label={key => key} />
+      </div>
+
+      {/* 预算 */}
+      <div className="pt-4 border-t border-slate-200 dark:border-slate-700">
+        <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">预算上限（美元，0 表示不限）</h4>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-sm text-slate-600 dark:text-slate-400">
+            每日
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={budgetForm.dailyLimit}
+              onChange={e => setBudgetForm({ ...budgetForm, dailyLimit: parseFloat(e.target.value) || 0 })}
+              className="block mt-1 w-28 px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+            />
+          </label>
+          <label className="text-sm text-slate-600 dark:text-slate-400">
+            单部作品
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={budgetForm.novelLimit}
+              onChange={e => setBudgetForm({ ...budgetForm, novelLimit: parseFloat(e.target.value) || 0 })}
+              className="block mt-1 w-28 px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+            />
+          </label>
+          <label className="text-sm text-slate-600 dark:text-slate-400">
+            超出时
+            <select
+              value={budgetForm.mode}
+              onChange={e => setBudgetForm({ ...budgetForm, mode: e.target.value as UsageBudget['mode'] })}
+              className="block mt-1 px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+            >
+              <option value="warn">提醒</option>
+              <option value="block">阻止调用</option>
+            </select>
+          </label>
+          <button
+            onClick={handleSaveBudget}
+            className="px-4 py-1.5 bg-[#2C5F2D] text-white rounded-lg hover:bg-[#1E4620] transition-colors text-sm"
+          >
+            保存预算
+          </button>
+        </div>
+      </div>
+
+      {/* 单价 */}
+      <div className="pt-4 border-t border-slate-200 dark:border-slate-700">
+        <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">模型单价（美元 / 百万 token）</h4>
+        <div className="space-y-2">
+          {pricingModels.map(item => (
+            <div key={item.model} className="flex flex-wrap items-center gap-3 text-sm">
+              <span className="flex-1 min-w-[160px] font-mono text-slate-700 dark:text-slate-300 truncate">{item.model}</span>
+              {pricingModel === item.model ? (
+                <>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="输入"
+                    value={pricingForm.input}
+                    onChange={e => setPricingForm({ ...pricingForm, input: e.target.value })}
+                    className="w-24 px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="输出"
+                    value={pricingForm.output}
+                    onChange={e => setPricingForm({ ...pricingForm, output: e.target.value })}
+                    className="w-24 px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100"
+                  />
+                  <button onClick={handleSavePricing} className="text-[#2C5F2D] dark:text-[#97BC62] hover:underline">保存</button>
+                  <button onClick={() => setPricingModel('')} className="text-slate-500 hover:underline">取消</button>
+                </>
+              ) : (
+                <>
+                  <span className="text-slate-600 dark:text-slate-400">
+                    {item.pricing ? `输入 ${item.pricing.input} / 输出 ${item.pricing.output}` : '未设置'}
+                    {item.custom && <span className="ml-1 text-xs text-amber-600">（自定义）</span>}
+                  </span>
+                  <button onClick={() => handleEditPricing(item.model)} className="text-[#2C5F2D] dark:text-[#97BC62] hover:underline">编辑</button>
+                  {item.custom && (
+                    <button onClick={() => handleResetPricing(item.model)} className="text-slate-500 hover:underline">恢复默认</button>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 概览项
+const SummaryItem: React.FC<{ icon: React.ReactNode; label: string; value: string }> = ({ icon, label, value }) => (
+  <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+    <div className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+      {icon}
+      {label}
+    </div>
+    <div className="mt-1 text-xl font-bold text-slate-900 dark:text-slate-100">{value}</div>
+  </div>
+);
+
+// 分组列表
+const BreakdownList: React.FC<{
+  title: string;
+  items: UsageBreakdownItem[];
+  label: (key: string) => string;
+}> = ({ title, items, label }) => (
+  <div>
+    <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{title}</h4>
+    {items.length === 0 ? (
+      <p className="text-sm text-slate-400">暂无记录</p>
+    ) : (
+      <div className="space-y-1.5">
+        {items.slice(0, 8).map(item => (
+          <div key={item.key} className="flex justify-between gap-2 text-sm">
+            <span className="text-slate-600 dark:text-slate-400 truncate">{label(item.key)}</span>
+            <span className="shrink-0 font-medium text-slate-900 dark:text-slate-100">
+              {formatCost(item.cost)}
+              <span className="ml-1 text-xs font-normal text-slate-400">
+                {formatTokens(item.promptTokens + item.completionTokens)}
+              </span>
+            </span>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default AiUsagePanel;
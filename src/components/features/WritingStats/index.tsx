@@ -7,6 +7,7 @@ import React, { useState, useEffect } from 'react';
 import { Novel } from '../../../types/novel';
 import { WritingStats as IWritingStats, DailyStat } from '../../../types/stats';
 import { StatsService } from '../../../services/stats/StatsService';
+import AiUsagePanel from './AiUsagePanel';
 import { TrendingUp, Target, Calendar, Clock, BookOpen, FileText } from 'lucide-react';
 
 interface WritingStatsProps {
@@ -220,6 +221,9 @@ const WritingStats: React.FC<WritingStatsProps> = ({ novels }) => {
         </div>
       </div>
 
+      {/* AI 用量与费用 */}
+      <AiUsagePanel novels={novels} />
+
       {/* 设置目标模态框 */}
       {showGoalsModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -4,6 +4,8 @@ import { generateCreativeContentStream } from '../../../services/api/gemini';
 import { getApiSettings, getAvailableModels, getProviderDisplayName } from '../../../config/apiConfig';
 import { Maximize2, Minimize2 } from 'lucide-react';
 import { useFocusMode } from '../../../hooks';
+import { useToast } from '../../ui/Toast';
+import { countWords, DEFAULT_WORD_COUNT_MODE } from '../../../utils/wordCount';
 
 interface ToolCard {
   id: string;
@@ -272,6 +274,7 @@ interface WritingToolProps {
 }
 
 const WritingTool: React.FC<WritingToolProps> = ({ onRecordActivity }) => {
+  const toast = useToast();
   const [selectedTool, setSelectedTool] = useState<ToolCard>(TOOLS_DATA[0]);
   const [tone, setTone] = useState(TONES[0].id);
 
@@ -339,21 +342,27 @@ const WritingTool: React.FC<WritingToolProps> = ({ onRecordActivity }) => {
     const userPrompt = `【语气要求】${toneDesc}\n\n【用户需求】${prompt}`;
 
     let content = '';
-    await generateCreativeContentStream(userPrompt, (chunk) => {
-      content += chunk;
-      setGeneratedText((prev) => prev + chunk);
-    }, model, {
-      systemInstruction: selectedTool.systemPrompt,
-      temperature: 0.85
-    });
-    setIsGenerating(false);
+    try {
+      await generateCreativeContentStream(userPrompt, (chunk) => {
+        content += chunk;
+        setGeneratedText((prev) => prev + chunk);
+      }, model, {
+        systemInstruction: selectedTool.systemPrompt,
+        temperature: 0.85,
+        usage: { feature: 'writing_tool' },
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '生成失败，请稍后重试');
+    } finally {
+      setIsGenerating(false);
+    }
     if (content) {
       onRecordActivity?.({
         type: 'ai_call',
         description: `使用 ${selectedTool.title} 生成内容`,
         deltaPoints: -1,
         createdAt: new Date().toISOString(),
-        metadata: { words: content.length }
+        metadata: { words: countWords(content, DEFAULT_WORD_COUNT_MODE) }
       });
     }
   };
@@ -0,0 +1,164 @@
+/**
+ * 稿件导入预览模态框
+ *
+ * 展示自动拆分出的卷和章节，可填写自定义标题规则重新拆分，确认后交给调用方创建章节。
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  splitManuscripts,
+  type ManuscriptImportResult,
+  type ManuscriptSource,
+  type SplitOptions,
+} from '../../services/import/ImportService';
+
+export interface ImportPreviewModalProps {
+  /** 已读取的稿件（多选文件时按顺序合并） */
+  sources: ManuscriptSource[];
+  /** 标题 */
+  title?: string;
+  /** 确认按钮文字 */
+  confirmLabel?: string;
+  /** 确认导入 */
+  onConfirm: (result: ManuscriptImportResult) => void;
+  /** 取消 */
+  onCancel: () => void;
+}
+
+/** 列表最多展示的章节数 */
+const MAX_PREVIEW_CHAPTERS = 300;
+
+const FORMAT_LABELS: Record<ManuscriptSource['format'], string> = {
+  txt: 'TXT',
+  markdown: 'Markdown',
+  epub: 'EPUB',
+  docx: 'Word',
+};
+
+export function ImportPreviewModal({
+  sources,
+  title = '导入预览',
+  confirmLabel = '确认导入',
+  onConfirm,
+  onCancel,
+}: ImportPreviewModalProps) {
+  const [draft, setDraft] = useState<SplitOptions>({});
+  const [rules, setRules] = useState<SplitOptions>({});
+
+  const { result, error } = useMemo(() => {
+    try {
+      return { result: splitManuscripts(sources, rules), error: null };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [sources, rules]);
+
+  const encodings = [...new Set(sources.map(s => s.encoding).filter(Boolean))];
+  const chapters = result?.chapters ?? [];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onCancel}>
+      <div
+        className="bg-white dark:bg-slate-900 rounded-xl p-6 max-w-xl w-full max-h-[85vh] flex flex-col gap-4 shadow-2xl border border-slate-200 dark:border-slate-800"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="space-y-2">
+          <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">{title}</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400 truncate">
+            文件：<span className="font-medium text-slate-900 dark:text-slate-100">{sources.map(s => s.title).join('、')}</span>
+            <span className="ml-2 text-xs text-slate-500">
+              {[...new Set(sources.map(s => FORMAT_LABELS[s.format]))].join(' / ')}
+              {encodings.length > 0 && ` · ${encodings.join(' / ').toUpperCase()}`}
+            </span>
+          </p>
+          {result && (
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              {result.volumes.length > 0 && (
+                <>
+                  <span className="font-semibold text-[#2C5F2D] dark:text-[#97BC62]">{result.volumes.length}</span> 卷，
+                </>
+              )}
+              <span className="font-semibold text-[#2C5F2D] dark:text-[#97BC62]">{chapters.length}</span> 章，
+              共 <span className="font-semibold text-[#2C5F2D] dark:text-[#97BC62]">{result.totalWords.toLocaleString()}</span> 字
+            </p>
+          )}
+        </div>
+
+        {/* 自定义拆分规则 */}
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              value={draft.volumePattern ?? ''}
+              onChange={e => setDraft(prev => ({ ...prev, volumePattern: e.target.value }))}
+              placeholder="卷标题规则（正则，可选）"
+              className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-xs bg-white dark:bg-slate-900 font-mono focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]"
+            />
+            <input
+              value={draft.chapterPattern ?? ''}
+              onChange={e => setDraft(prev => ({ ...prev, chapterPattern: e.target.value }))}
+              placeholder="章标题规则（正则，可选）"
+              className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-xs bg-white dark:bg-slate-900 font-mono focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-[11px] text-slate-500 dark:text-slate-400">
+              默认识别「第X卷」「第X章」「Chapter N」等标题，例如 <code className="font-mono">^\d+\.</code> 可按编号拆分
+            </p>
+            <button
+              onClick={() => setRules(draft)}
+              className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors flex-shrink-0"
+            >
+              重新拆分
+            </button>
+          </div>
+          {error && <p className="text-xs text-rose-500">{error}</p>}
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-1 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
+          {chapters.slice(0, MAX_PREVIEW_CHAPTERS).map((chapter, idx) => {
+            const volumeStarts = chapter.volumeIndex !== undefined && chapter.volumeIndex !== chapters[idx - 1]?.volumeIndex;
+            return (
+              <React.Fragment key={idx}>
+                {volumeStarts && (
+                  <p className="text-xs font-semibold text-[#2C5F2D] dark:text-[#97BC62] pt-2 first:pt-0">
+                    {result!.volumes[chapter.volumeIndex!].title}
+                  </p>
+                )}
+                <div className={`flex justify-between text-xs py-1 ${chapter.volumeIndex !== undefined ? 'pl-3' : ''}`}>
+                  <span className="text-slate-700 dark:text-slate-300 truncate flex-1">{chapter.title}</span>
+                  <span className="text-slate-500 dark:text-slate-400 ml-3 flex-shrink-0">{chapter.wordCount.toLocaleString()} 字</span>
+                </div>
+              </React.Fragment>
+            );
+          })}
+          {chapters.length > MAX_PREVIEW_CHAPTERS && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 text-center pt-2 border-t border-slate-200 dark:border-slate-700">
+              ... 还有 {chapters.length - MAX_PREVIEW_CHAPTERS} 个章节
+            </p>
+          )}
+          {result && chapters.length === 0 && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 text-center">文件中没有可导入的内容</p>
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => result && onConfirm(result)}
+            disabled={!result || chapters.length === 0}
+            className="flex-1 py-3 rounded-lg bg-[#2C5F2D] text-white text-sm font-medium hover:bg-[#1E4620] transition-colors shadow-sm disabled:opacity-50"
+          >
+            {confirmLabel}（{chapters.length} 章）
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ImportPreviewModal;
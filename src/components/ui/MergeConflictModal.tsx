@@ -0,0 +1,202 @@
+/**
+ * 同步冲突合并模态框
+ *
+ * 逐项展示作品三方合并后仍冲突的字段和正文片段，由用户选择保留本机、云端或两者，
+ * 确认后交给调用方生成最终作品。可自动合并的部分不再列出。
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { MergeChoice } from '../../utils/threeWayMerge';
+import {
+  resolveNovelMerge,
+  type NovelMergeChoices,
+  type NovelMergeResult,
+} from '../../services/sync/novelMerge';
+import type { Novel } from '../../types';
+
+export interface MergeConflictModalProps {
+  /** 作品合并结果 */
+  result: NovelMergeResult;
+  /** 标题 */
+  title?: string;
+  /** 确认合并，返回按取舍生成的作品 */
+  onConfirm: (novel: Novel) => void;
+  /** 取消 */
+  onCancel: () => void;
+}
+
+const CHOICE_LABELS: Record<MergeChoice, string> = {
+  local: '本机',
+  remote: '云端',
+  both: '两者都保留',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '（空）';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+};
+
+function ChoiceButtons({
+  value,
+  options,
+  onChange,
+}: {
+  value: MergeChoice;
+  options: MergeChoice[];
+  onChange: (choice: MergeChoice) => void;
+}) {
+  return (
+    <div className="flex gap-1 flex-shrink-0">
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`px-2.5 py-1 rounded-lg text-xs font-medium border transition-colors ${
+            value === option
+              ? 'bg-[#2C5F2D] border-[#2C5F2D] text-white'
+              : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800'
+          }`}
+        >
+          {CHOICE_LABELS[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function SideBySide({ local, remote }: { local: string; remote: string }) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {[
+        { label: '本机', text: local },
+        { label: '云端', text: remote },
+      ].map(side => (
+        <div key={side.label} className="min-w-0">
+          <p className="text-[11px] text-slate-500 dark:text-slate-400 mb-1">{side.label}</p>
+          <pre className="text-xs whitespace-pre-wrap break-words max-h-40 overflow-y-auto p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 font-sans">
+            {side.text}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function MergeConflictModal({
+  result,
+  title = '合并其他设备的修改',
+  onConfirm,
+  onCancel,
+}: MergeConflictModalProps) {
+  const [choices, setChoices] = useState<NovelMergeChoices>({});
+
+  // 每个可选择的条目：字段冲突一项，正文冲突每个冲突片段一项
+  const choiceKeys = useMemo(() => result.conflicts.flatMap(conflict => {
+    if (conflict.kind === 'field') return [conflict.id];
+    return conflict.hunks
+      .filter(hunk => hunk.type === 'conflict')
+      .map((_, index) => `${conflict.id}#${index}`);
+  }), [result]);
+
+  const choose = (key: string, choice: MergeChoice) => setChoices(prev => ({ ...prev, [key]: choice }));
+  const chooseAll = (choice: MergeChoice) => setChoices(Object.fromEntries(choiceKeys.map(key => [key, choice])));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onCancel}>
+      <div
+        className="bg-white dark:bg-slate-900 rounded-xl p-6 max-w-3xl w-full max-h-[85vh] flex flex-col gap-4 shadow-2xl border border-slate-200 dark:border-slate-800"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="space-y-2">
+          <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">{title}</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            《{result.merged.title}》有 <span className="font-semibold text-[#2C5F2D] dark:text-[#97BC62]">{choiceKeys.length}</span> 处
+            两边都改过的内容，其余修改已自动合并。被舍弃的章节正文会保存到章节历史版本中。
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => chooseAll('local')}
+              className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+            >
+              全部保留本机
+            </button>
+            <button
+              onClick={() => chooseAll('remote')}
+              className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+            >
+              全部使用云端
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3">
+          {result.conflicts.map(conflict => {
+            if (conflict.kind === 'field') {
+              return (
+                <div key={conflict.id} className="p-3 space-y-2 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-sm font-medium text-slate-700 dark:text-slate-200 truncate">
+                      {conflict.label} · <span className="font-mono text-xs">{conflict.field}</span>
+                    </p>
+                    <ChoiceButtons
+                      value={choices[conflict.id] ?? 'local'}
+                      options={['local', 'remote']}
+                      onChange={choice => choose(conflict.id, choice)}
+                    />
+                  </div>
+                  <SideBySide local={formatValue(conflict.local)} remote={formatValue(conflict.remote)} />
+                </div>
+              );
+            }
+
+            let hunkIndex = -1;
+            return (
+              <div key={conflict.id} className="p-3 space-y-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                <p className="text-sm font-medium text-slate-700 dark:text-slate-200">{conflict.label} · 正文</p>
+                {conflict.hunks.map((hunk, i) => {
+                  if (hunk.type === 'stable') return null;
+                  hunkIndex++;
+                  const key = `${conflict.id}#${hunkIndex}`;
+                  return (
+                    <div key={i} className="space-y-2">
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="text-xs text-slate-500 dark:text-slate-400">第 {hunkIndex + 1} 处冲突</p>
+                        <ChoiceButtons
+                          value={choices[key] ?? 'local'}
+                          options={['local', 'remote', 'both']}
+                          onChange={choice => choose(key, choice)}
+                        />
+                      </div>
+                      <SideBySide
+                        local={hunk.local.join('\n') || '（删除）'}
+                        remote={hunk.remote.join('\n') || '（删除）'}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+          >
+            稍后处理
+          </button>
+          <button
+            onClick={() => onConfirm(resolveNovelMerge(result, choices))}
+            className="flex-1 py-3 rounded-lg bg-[#2C5F2D] text-white text-sm font-medium hover:bg-[#1E4620] transition-colors shadow-sm"
+          >
+            确认合并
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default MergeConflictModal;
@@ -1,9 +1,12 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { countWords, type WordCountMode } from '../../utils/wordCount';
 
 interface RealtimeWordCountProps {
   content: string;
   goal: number;
   onGoalChange?: (goal: number) => void;
+  /** 字数统计口径，默认 standard */
+  mode?: WordCountMode;
 }
 
 interface WritingStats {
@@ -17,7 +20,8 @@ interface WritingStats {
 export const RealtimeWordCount: React.FC<RealtimeWordCountProps> = ({ 
   content, 
   goal,
-  onGoalChange 
+  onGoalChange,
+  mode
 }) => {
   const [stats, setStats] = useState<WritingStats>({
     currentWords: 0,
@@ -31,7 +35,7 @@ export const RealtimeWordCount: React.FC<RealtimeWordCountProps> = ({
   const [tempGoal, setTempGoal] = useState(goal.toString());
   
   // 记录会话开始时的字数和时间
-  const sessionStartWords = useRef(content.length);
+  const sessionStartWords = useRef(countWords(content, mode));
   const sessionStartTime = useRef(Date.now());
   const lastUpdateTime = useRef(Date.now());
   const timerRef = useRef<NodeJS.Timeout | null>(null);
@@ -46,7 +50,7 @@ export const RealtimeWordCount: React.FC<RealtimeWordCountProps> = ({
 
   // 更新统计数据
   useEffect(() => {
-    const words = content.length;
+    const words = countWords(content, mode);
     const now = Date.now();
     const sessionTime = Math.floor((now - sessionStartTime.current) / 1000);
     const speed = calculateSpeed(words, sessionTime);
@@ -62,7 +66,7 @@ export const RealtimeWordCount: React.FC<RealtimeWordCountProps> = ({
     });
 
     lastUpdateTime.current = now;
-  }, [content, goal, calculateSpeed]);
+  }, [content, goal, mode, calculateSpeed]);
 
   // 定时更新会话时长
   useEffect(() => {
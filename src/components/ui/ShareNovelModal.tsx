@@ -0,0 +1,193 @@
+/**
+ * 作品分享模态框
+ *
+ * 按邮箱邀请本机上的其他账号参与作品，选择角色和有效期；列出现有协作者，
+ * 可修改角色或移除。权限检查由 AclService 完成，没有权限的操作会显示原因。
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useAcl } from '../../hooks/useAcl';
+import { aclService, type AclEntry, type RoleType } from '../../services/acl/AclService';
+import type { Novel, User } from '../../types';
+
+export interface ShareNovelModalProps {
+  /** 要分享的作品 */
+  novel: Novel;
+  /** 当前用户 ID */
+  currentUserId: string;
+  /** 可邀请的账号 */
+  users: Pick<User, 'id' | 'name' | 'email'>[];
+  /** 关闭 */
+  onClose: () => void;
+}
+
+/** 可邀请的角色（所有者只能通过转让产生） */
+const INVITE_ROLES: RoleType[] = ['admin', 'editor', 'viewer', 'guest'];
+
+const EXPIRY_OPTIONS = [
+  { label: '永久有效', days: 0 },
+  { label: '1 天', days: 1 },
+  { label: '7 天', days: 7 },
+  { label: '30 天', days: 30 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roleName = (role: RoleType) => aclService.getRolePermissions(role)?.name ?? role;
+
+export function ShareNovelModal({ novel, currentUserId, users, onClose }: ShareNovelModalProps) {
+  const { canShare, canManage, grant, revoke, getAccessors } = useAcl('novel', novel.id, currentUserId);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<RoleType>('editor');
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [revision, setRevision] = useState(0);
+
+  const accessors = useMemo(() => getAccessors(), [getAccessors, revision]);
+  const userById = useMemo(() => new Map(users.map(user => [user.id, user])), [users]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      setRevision(r => r + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '操作失败');
+    }
+  };
+
+  const handleInvite = () => {
+    const target = users.find(user => user.email.toLowerCase() === email.trim().toLowerCase());
+    if (!target) {
+      setError('未找到使用该邮箱的账号，请对方先在本机注册');
+      return;
+    }
+    if (target.id === currentUserId) {
+      setError('不能邀请自己');
+      return;
+    }
+    run(async () => {
+      await grant(target.id, role, expiryDays > 0 ? { expiresAt: Date.now() + expiryDays * DAY_MS } : undefined);
+      setEmail('');
+    });
+  };
+
+  const handleChangeRole = (entry: AclEntry, nextRole: RoleType) => {
+    run(async () => aclService.update(entry.userId, 'novel', novel.id, { role: nextRole }, currentUserId));
+  };
+
+  const describeUser = (entry: AclEntry) => {
+    const user = userById.get(entry.userId);
+    const name = user ? `${user.name}（${user.email}）` : entry.userId;
+    return entry.userId === currentUserId ? `${name} · 我` : name;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-900 rounded-xl p-6 max-w-xl w-full max-h-[85vh] flex flex-col gap-4 shadow-2xl border border-slate-200 dark:border-slate-800"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="space-y-1">
+          <h3 className="text-xl font-semibold text-slate-900 dark:text-slate-100">分享《{novel.title}》</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            被邀请的作者登录后会在作品列表中看到这部作品，能做的操作取决于角色。
+          </p>
+        </div>
+
+        {canShare ? (
+          <div className="space-y-2">
+            <input
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="对方账号的邮箱"
+              className="w-full px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#2C5F2D]/20 focus:border-[#2C5F2D] text-sm text-slate-800 dark:text-slate-100"
+            />
+            <div className="flex gap-2">
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as RoleType)}
+                className="flex-1 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm"
+              >
+                {INVITE_ROLES.map(option => (
+                  <option key={option} value={option}>
+                    {roleName(option)}：{aclService.getRolePermissions(option)?.description}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(Number(e.target.value))}
+                className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.days} value={option.days}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleInvite}
+                disabled={!email.trim()}
+                className="px-4 py-2 rounded-lg bg-[#2C5F2D] text-white text-sm font-medium hover:bg-[#1E4620] transition-colors disabled:opacity-50"
+              >
+                邀请
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            {aclService.checkNovel(currentUserId, novel.id, 'share').reason}
+          </p>
+        )}
+
+        {error && <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>}
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          <p className="text-xs font-medium text-slate-500 dark:text-slate-400">有权访问的作者</p>
+          {accessors.map(entry => (
+            <div
+              key={entry.id}
+              className="flex items-center justify-between gap-3 p-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm"
+            >
+              <div className="min-w-0">
+                <p className="text-slate-800 dark:text-slate-100 truncate">{describeUser(entry)}</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {entry.expiresAt ? `${new Date(entry.expiresAt).toLocaleDateString('zh-CN')} 到期` : '永久有效'}
+                </p>
+              </div>
+              {entry.role === 'owner' || !canManage ? (
+                <span className="text-xs text-slate-500 dark:text-slate-400 flex-shrink-0">{roleName(entry.role)}</span>
+              ) : (
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <select
+                    value={entry.role}
+                    onChange={(e) => handleChangeRole(entry, e.target.value as RoleType)}
+                    className="px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-xs"
+                  >
+                    {INVITE_ROLES.map(option => (
+                      <option key={option} value={option}>{roleName(option)}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => run(() => revoke(entry.userId))}
+                    className="px-2 py-1 rounded-lg text-xs text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-900/20"
+                  >
+                    移除
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="py-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+        >
+          完成
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ShareNovelModal;
@@ -0,0 +1,159 @@
+/**
+ * 版本差异视图组件
+ *
+ * 并排视图左右对照新旧版本，行内视图在同一栏中标出删除和新增；
+ * 改写的段落逐字标出差异，移动的段落注明移到/移自第几段
+ */
+
+import React, { useMemo, useState, memo } from 'react';
+import {
+  buildSideBySideRows,
+  calculateDiff,
+  getInlineSegments,
+  type DiffCell,
+  type DiffLine,
+  type DiffSegment,
+} from '../../utils/versionComparison';
+
+type DiffViewMode = 'side-by-side' | 'inline';
+
+interface VersionDiffViewProps {
+  /** 旧版本内容 */
+  oldContent: string;
+  /** 新版本内容 */
+  newContent: string;
+  oldLabel?: string;
+  newLabel?: string;
+  /** 默认视图 */
+  defaultMode?: DiffViewMode;
+  /** 主题类 */
+  themeClasses?: {
+    text: string;
+    textMuted: string;
+    border: string;
+  };
+}
+
+const DELETE_CLASS = 'bg-rose-100 dark:bg-rose-900/40 text-rose-700 dark:text-rose-300 line-through';
+const INSERT_CLASS = 'no-underline bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300';
+
+const ROW_CLASSES: Record<string, string> = {
+  added: 'bg-emerald-50 dark:bg-emerald-900/20',
+  removed: 'bg-rose-50 dark:bg-rose-900/20',
+  modified: 'bg-amber-50 dark:bg-amber-900/20',
+  moved: 'bg-sky-50 dark:bg-sky-900/20',
+};
+
+const renderSegments = (segments: DiffSegment[]) =>
+  segments.map((segment, i) => {
+    if (segment.type === 'delete') return <del key={i} className={DELETE_CLASS}>{segment.text}</del>;
+    if (segment.type === 'insert') return <ins key={i} className={INSERT_CLASS}>{segment.text}</ins>;
+    return <span key={i}>{segment.text}</span>;
+  });
+
+const moveNote = (item: { movedTo?: number; movedFrom?: number }) => {
+  if (item.movedTo) return `移至第 ${item.movedTo} 段`;
+  if (item.movedFrom) return `移自第 ${item.movedFrom} 段`;
+  return null;
+};
+
+/**
+ * 版本差异视图
+ */
+const VersionDiffView: React.FC<VersionDiffViewProps> = ({
+  oldContent,
+  newContent,
+  oldLabel = '旧版本',
+  newLabel = '新版本',
+  defaultMode = 'side-by-side',
+  themeClasses = {
+    text: 'text-slate-800 dark:text-slate-100',
+    textMuted: 'text-slate-500 dark:text-slate-400',
+    border: 'border-slate-200 dark:border-slate-700',
+  },
+}) => {
+  const [mode, setMode] = useState<DiffViewMode>(defaultMode);
+  const diff = useMemo(() => calculateDiff(oldContent, newContent), [oldContent, newContent]);
+  const rows = useMemo(() => (mode === 'side-by-side' ? buildSideBySideRows(diff) : []), [diff, mode]);
+
+  const { stats } = diff;
+
+  const renderCell = (cell: DiffCell | null) => {
+    if (!cell) return <div className="bg-slate-50 dark:bg-slate-800/50" />;
+    const note = moveNote(cell);
+    return (
+      <div className={`flex gap-2 px-2 py-1 ${ROW_CLASSES[cell.type] ?? ''}`}>
+        <span className={`w-6 flex-shrink-0 text-right select-none ${themeClasses.textMuted}`}>{cell.lineNumber}</span>
+        <div className="flex-1 min-w-0 whitespace-pre-wrap break-words">
+          {cell.segments ? renderSegments(cell.segments) : cell.content}
+          {note && <span className="ml-2 text-sky-600 dark:text-sky-300">（{note}）</span>}
+        </div>
+      </div>
+    );
+  };
+
+  const renderInlineLine = (line: DiffLine, index: number) => {
+    const note = moveNote(line);
+    return (
+      <div key={index} className={`flex gap-2 px-2 py-1 ${ROW_CLASSES[line.type] ?? ''}`}>
+        <span className={`w-6 flex-shrink-0 text-right select-none ${themeClasses.textMuted}`}>
+          {line.newLineNumber ?? ''}
+        </span>
+        <div className="flex-1 min-w-0 whitespace-pre-wrap break-words">
+          {line.type === 'moved' && line.movedTo
+            ? <del className={DELETE_CLASS}>{line.content}</del>
+            : renderSegments(getInlineSegments(line))}
+          {note && <span className="ml-2 text-sky-600 dark:text-sky-300">（{note}）</span>}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`text-xs ${themeClasses.text}`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className={themeClasses.textMuted}>
+          <span className="text-emerald-600">+{stats.added}</span>{' '}
+          <span className="text-rose-600">-{stats.removed}</span>{' '}
+          <span className="text-amber-600">~{stats.modified}</span>
+          {stats.moved > 0 && <span className="text-sky-600"> ↕{stats.moved}</span>}
+          {' '}· 相似度 {diff.similarity}%
+        </span>
+        <div className={`flex rounded-lg border ${themeClasses.border} overflow-hidden`}>
+          {([['side-by-side', '并排'], ['inline', '行内']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-2 py-0.5 transition-colors ${
+                mode === value ? 'bg-[#2C5F2D] text-white' : `${themeClasses.textMuted} hover:text-[#2C5F2D]`
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'side-by-side' ? (
+        <div className={`rounded-lg border ${themeClasses.border} overflow-hidden`}>
+          <div className={`grid grid-cols-2 border-b ${themeClasses.border} ${themeClasses.textMuted}`}>
+            <div className="px-2 py-1">{oldLabel}</div>
+            <div className={`px-2 py-1 border-l ${themeClasses.border}`}>{newLabel}</div>
+          </div>
+          {rows.map((row, i) => (
+            <div key={i} className={`grid grid-cols-2 divide-x ${themeClasses.border}`}>
+              {renderCell(row.left)}
+              {renderCell(row.right)}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className={`rounded-lg border ${themeClasses.border} overflow-hidden`}>
+          {diff.lines.map(renderInlineLine)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(VersionDiffView);
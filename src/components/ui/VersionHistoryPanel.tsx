@@ -1,16 +1,18 @@
 /**
  * 版本历史面板组件
  *
- * 显示章节的版本历史，支持预览、恢复和删除版本
+ * 显示章节的版本历史，支持预览、与当前内容对比、恢复和删除版本
  */
 
 import React, { useState, useCallback, memo } from 'react';
-import { ChapterVersion } from '../../types/novel';
+import { ResolvedChapterVersion } from '../../types/novel';
+import { VERSION_TRIGGER_LABELS } from '../../services/version/VersionService';
 import { ConfirmModal } from './ProgressModal';
+import VersionDiffView from './VersionDiffView';
 
 interface VersionHistoryPanelProps {
-  /** 版本列表 */
-  versions: ChapterVersion[];
+  /** 版本列表（已还原完整内容） */
+  versions: ResolvedChapterVersion[];
   /** 当前选中的版本 ID */
   selectedVersionId: string | null;
   /** 当前章节内容（用于对比） */
@@ -62,7 +64,7 @@ const formatDateTime = (isoString: string): string => {
  * 版本列表项组件
  */
 const VersionItem = memo<{
-  version: ChapterVersion;
+  version: ResolvedChapterVersion;
   isSelected: boolean;
   onSelect: () => void;
   onRestore: () => void;
@@ -85,9 +87,14 @@ const VersionItem = memo<{
           <span className={`text-sm font-medium ${textClass}`}>
             {formatDateTime(version.createdAt)}
           </span>
-          {version.note && (
+          {version.milestone && (
+            <span className="text-xs px-1.5 py-0.5 rounded bg-[#E8F5E8] dark:bg-[#2C5F2D]/20 text-[#2C5F2D]" title="里程碑版本不会被自动清理">
+              里程碑
+            </span>
+          )}
+          {(version.note || version.trigger) && (
             <span className="text-xs px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400">
-              {version.note}
+              {version.note || VERSION_TRIGGER_LABELS[version.trigger!]}
             </span>
           )}
         </div>
@@ -152,6 +159,7 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
   const [restoreTargetId, setRestoreTargetId] = useState<string | null>(null);
   const [saveNote, setSaveNote] = useState('');
   const [showSaveModal, setShowSaveModal] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
 
   const selectedVersion = versions.find((v) => v.id === selectedVersionId);
 
@@ -250,20 +258,44 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
       {selectedVersion && (
         <div className={`border-t ${themeClasses.border} p-4`}>
           <div className="flex items-center justify-between mb-2">
-            <span className={`text-sm font-medium ${themeClasses.text}`}>版本预览</span>
-            <button
-              onClick={() => onSelectVersion(null)}
-              className={`text-xs ${themeClasses.textMuted} hover:text-[#2C5F2D]`}
-            >
-              关闭预览
-            </button>
-          </div>
-          <div className={`max-h-48 overflow-y-auto p-3 rounded-lg ${themeClasses.border} border bg-slate-50 dark:bg-slate-800`}>
-            <pre className={`text-xs whitespace-pre-wrap font-sans ${themeClasses.text}`}>
-              {selectedVersion.content.slice(0, 500)}
-              {selectedVersion.content.length > 500 && '...'}
-            </pre>
+            <span className={`text-sm font-medium ${themeClasses.text}`}>
+              {showCompare ? '与当前内容对比' : '版本预览'}
+            </span>
+            <div className="flex items-center gap-3">
+              {currentContent !== undefined && (
+                <button
+                  onClick={() => setShowCompare(!showCompare)}
+                  className={`text-xs ${themeClasses.textMuted} hover:text-[#2C5F2D]`}
+                >
+                  {showCompare ? '查看预览' : '与当前对比'}
+                </button>
+              )}
+              <button
+                onClick={() => onSelectVersion(null)}
+                className={`text-xs ${themeClasses.textMuted} hover:text-[#2C5F2D]`}
+              >
+                关闭预览
+              </button>
+            </div>
           </div>
+          {showCompare && currentContent !== undefined ? (
+            <div className="max-h-80 overflow-y-auto">
+              <VersionDiffView
+                oldContent={selectedVersion.content}
+                newContent={currentContent}
+                oldLabel={formatDateTime(selectedVersion.createdAt)}
+                newLabel="当前内容"
+                themeClasses={themeClasses}
+              />
+            </div>
+          ) : (
+            <div className={`max-h-48 overflow-y-auto p-3 rounded-lg ${themeClasses.border} border bg-slate-50 dark:bg-slate-800`}>
+              <pre className={`text-xs whitespace-pre-wrap font-sans ${themeClasses.text}`}>
+                {selectedVersion.content.slice(0, 500)}
+                {selectedVersion.content.length > 500 && '...'}
+              </pre>
+            </div>
+          )}
         </div>
       )}
 
@@ -297,7 +329,7 @@ const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
             <div className="space-y-4">
               <div>
                 <label className={`block text-sm font-medium ${themeClasses.textMuted} mb-2`}>
-                  版本备注 (可选)
+                  版本名称 (可选，命名的版本为里程碑，不会被自动清理)
                 </label>
                 <input
                   type="text"
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../utils/crypto', () => {
+  class EncryptionError extends Error {}
+  return {
+    EncryptionError,
+    apiKeyNeedsReencryption: () => false,
+    encryptApiKey: async (key: string) => `enc:${key}`,
+    decryptApiKey: async (key: string) => {
+      if (!key.startsWith('enc:')) throw new EncryptionError('bad key');
+      return key.slice(4);
+    },
+  };
+});
+
+import { API_SETTINGS_KEY, clearSettingsCache, getApiSettingsAsync, getDefaultApiSettings } from './apiConfig';
+
+const store = (settings: object) => {
+  localStorage.setItem(API_SETTINGS_KEY, JSON.stringify({ ...getDefaultApiSettings(), ...settings, _encrypted: true }));
+};
+
+describe('config/apiConfig - fallback key', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    clearSettingsCache();
+  });
+
+  it('should decrypt the fallback key when the primary key is empty', async () => {
+    store({ apiMode: 'membership', apiKey: '', fallback: { enabled: true, provider: 'openai', model: 'gpt-4o-mini', apiKey: 'enc:sk-fallback' } });
+
+    expect((await getApiSettingsAsync()).fallback?.apiKey).toBe('sk-fallback');
+  });
+
+  it('should decrypt the fallback key when the primary key cannot be decrypted', async () => {
+    store({ apiKey: 'corrupt', fallback: { enabled: true, provider: 'openai', model: 'gpt-4o-mini', apiKey: 'enc:sk-fallback' } });
+
+    const settings = await getApiSettingsAsync();
+    expect(settings.apiKey).toBe('');
+    expect(settings.fallback?.apiKey).toBe('sk-fallback');
+  });
+
+  it('should clear a fallback key that cannot be decrypted', async () => {
+    store({ apiKey: 'enc:sk-main', fallback: { enabled: true, provider: 'openai', model: 'gpt-4o-mini', apiKey: 'corrupt' } });
+
+    const settings = await getApiSettingsAsync();
+    expect(settings.apiKey).toBe('sk-main');
+    expect(settings.fallback?.apiKey).toBe('');
+  });
+});
@@ -18,6 +18,15 @@ import { DEFAULT_MODEL, MODEL_IDS, STORAGE_KEYS } from './constants';
 // API 模式类型
 export type ApiMode = 'membership' | 'custom';
 
+// 备用服务商配置（主服务商重试后仍失败时切换）
+export interface FallbackApiConfig {
+  enabled: boolean;
+  provider: string;
+  model: string;
+  apiKey: string;
+  baseUrl?: string;
+}
+
 // API 设置接口
 export interface ApiSettings {
   apiMode: ApiMode;           // API 模式：会员模式或自定义模式
@@ -26,6 +35,7 @@ export interface ApiSettings {
   selectedModel: string;
   customModels: string[];
   baseUrl?: string;
+  fallback?: FallbackApiConfig; // 备用服务商/模型
 }
 
 // 设置加载状态
@@ -50,6 +60,25 @@ export const MEMBERSHIP_API_CONFIG = {
   ]
 };
 
+// 模型单价（美元 / 百万 token），用于用量账本估算费用，可在设置中覆盖
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// 服务商模型
+export interface ProviderModel {
+  id: string;
+  name: string;
+  description?: string;
+  /** 上下文窗口（token） */
+  contextWindow?: number;
+  pricing?: ModelPricing;
+}
+
+/** 未知模型（自定义模型、会员模型）按该上下文窗口估算 */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
 // 服务商配置
 export const API_PROVIDERS = [
   // 原有服务商
@@ -78,29 +107,29 @@ export const API_PROVIDERS = [
 ];
 
 // 各服务商默认模型
-export const PROVIDER_MODELS: Record<string, { id: string; name: string; description?: string }[]> = {
+export const PROVIDER_MODELS: Record<string, ProviderModel[]> = {
   // ==================== 原有服务商 ====================
   google: [
-    { id: MODEL_IDS.GEMINI_2_FLASH, name: 'Gemini 2.0 Flash', description: '高效 & 均衡' },
-    { id: MODEL_IDS.GEMINI_2_5_FLASH_PREVIEW, name: 'Gemini 2.5 Flash', description: '最新预览版' },
-    { id: MODEL_IDS.GEMINI_2_5_PRO_PREVIEW, name: 'Gemini 2.5 Pro', description: '高智能 & 复杂逻辑' },
-    { id: MODEL_IDS.GEMINI_1_5_PRO, name: 'Gemini 1.5 Pro', description: '长上下文' },
-    { id: MODEL_IDS.GEMINI_1_5_FLASH, name: 'Gemini 1.5 Flash', description: '快速响应' },
+    { id: MODEL_IDS.GEMINI_2_FLASH, name: 'Gemini 2.0 Flash', description: '高效 & 均衡', contextWindow: 1048576, pricing: { input: 0.1, output: 0.4 } },
+    { id: MODEL_IDS.GEMINI_2_5_FLASH_PREVIEW, name: 'Gemini 2.5 Flash', description: '最新预览版', contextWindow: 1048576, pricing: { input: 0.3, output: 2.5 } },
+    { id: MODEL_IDS.GEMINI_2_5_PRO_PREVIEW, name: 'Gemini 2.5 Pro', description: '高智能 & 复杂逻辑', contextWindow: 1048576, pricing: { input: 1.25, output: 10 } },
+    { id: MODEL_IDS.GEMINI_1_5_PRO, name: 'Gemini 1.5 Pro', description: '长上下文', contextWindow: 2097152, pricing: { input: 1.25, output: 5 } },
+    { id: MODEL_IDS.GEMINI_1_5_FLASH, name: 'Gemini 1.5 Flash', description: '快速响应', contextWindow: 1048576, pricing: { input: 0.075, output: 0.3 } },
   ],
   siliconflow: [
-    { id: MODEL_IDS.DEEPSEEK_V3, name: 'DeepSeek V3', description: '高性能通用' },
-    { id: MODEL_IDS.DEEPSEEK_V3_0324, name: 'DeepSeek V3 0324', description: '最新版本' },
-    { id: MODEL_IDS.QWEN_72B, name: 'Qwen 2.5 72B', description: '大参数量' },
-    { id: MODEL_IDS.QWEN_7B, name: 'Qwen 2.5 7B', description: '轻量快速' },
+    { id: MODEL_IDS.DEEPSEEK_V3, name: 'DeepSeek V3', description: '高性能通用', contextWindow: 65536, pricing: { input: 0.28, output: 1.1 } },
+    { id: MODEL_IDS.DEEPSEEK_V3_0324, name: 'DeepSeek V3 0324', description: '最新版本', contextWindow: 65536, pricing: { input: 0.28, output: 1.1 } },
+    { id: MODEL_IDS.QWEN_72B, name: 'Qwen 2.5 72B', description: '大参数量', contextWindow: 32768, pricing: { input: 0.57, output: 0.57 } },
+    { id: MODEL_IDS.QWEN_7B, name: 'Qwen 2.5 7B', description: '轻量快速', contextWindow: 32768, pricing: { input: 0, output: 0 } },
   ],
   openai: [
-    { id: MODEL_IDS.GPT_4O, name: 'GPT-4o', description: '旗舰多模态' },
-    { id: MODEL_IDS.GPT_4O_MINI, name: 'GPT-4o Mini', description: '高效经济' },
-    { id: MODEL_IDS.GPT_4_TURBO, name: 'GPT-4 Turbo', description: '增强版' },
+    { id: MODEL_IDS.GPT_4O, name: 'GPT-4o', description: '旗舰多模态', contextWindow: 128000, pricing: { input: 2.5, output: 10 } },
+    { id: MODEL_IDS.GPT_4O_MINI, name: 'GPT-4o Mini', description: '高效经济', contextWindow: 128000, pricing: { input: 0.15, output: 0.6 } },
+    { id: MODEL_IDS.GPT_4_TURBO, name: 'GPT-4 Turbo', description: '增强版', contextWindow: 128000, pricing: { input: 10, output: 30 } },
   ],
   deepseek: [
-    { id: MODEL_IDS.DEEPSEEK_CHAT, name: 'DeepSeek Chat', description: '对话优化' },
-    { id: MODEL_IDS.DEEPSEEK_CODER, name: 'DeepSeek Coder', description: '代码专精' },
+    { id: MODEL_IDS.DEEPSEEK_CHAT, name: 'DeepSeek Chat', description: '对话优化', contextWindow: 65536, pricing: { input: 0.27, output: 1.1 } },
+    { id: MODEL_IDS.DEEPSEEK_CODER, name: 'DeepSeek Coder', description: '代码专精', contextWindow: 65536, pricing: { input: 0.27, output: 1.1 } },
   ],
 
   // ==================== 国际服务商 ====================
@@ -111,9 +140,9 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://www.anthropic.com
    */
   anthropic: [
-    { id: 'claude-opus-4.6', name: 'Claude Opus 4.6', description: '最强推理能力，适合复杂创作' },
-    { id: 'claude-sonnet-4.5', name: 'Claude Sonnet 4.5', description: '平衡性能与成本' },
-    { id: 'claude-haiku-4.5', name: 'Claude Haiku 4.5', description: '快速响应，经济实惠' },
+    { id: 'claude-opus-4.6', name: 'Claude Opus 4.6', description: '最强推理能力，适合复杂创作', contextWindow: 200000, pricing: { input: 5, output: 25 } },
+    { id: 'claude-sonnet-4.5', name: 'Claude Sonnet 4.5', description: '平衡性能与成本', contextWindow: 200000, pricing: { input: 3, output: 15 } },
+    { id: 'claude-haiku-4.5', name: 'Claude Haiku 4.5', description: '快速响应，经济实惠', contextWindow: 200000, pricing: { input: 1, output: 5 } },
   ],
 
   /**
@@ -122,9 +151,9 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://groq.com
    */
   groq: [
-    { id: 'llama-3.3-70b', name: 'Llama 3.3 70B', description: 'Meta 最新开源模型' },
-    { id: 'mixtral-8x7b', name: 'Mixtral 8x7B', description: 'Mistral 混合专家模型' },
-    { id: 'gemma-7b', name: 'Gemma 7B', description: 'Google 轻量开源模型' },
+    { id: 'llama-3.3-70b', name: 'Llama 3.3 70B', description: 'Meta 最新开源模型', contextWindow: 131072, pricing: { input: 0.59, output: 0.79 } },
+    { id: 'mixtral-8x7b', name: 'Mixtral 8x7B', description: 'Mistral 混合专家模型', contextWindow: 32768, pricing: { input: 0.24, output: 0.24 } },
+    { id: 'gemma-7b', name: 'Gemma 7B', description: 'Google 轻量开源模型', contextWindow: 8192, pricing: { input: 0.07, output: 0.07 } },
   ],
 
   /**
@@ -133,9 +162,9 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://mistral.ai
    */
   mistral: [
-    { id: 'mistral-large-2', name: 'Mistral Large 2', description: '旗舰模型，强大性能' },
-    { id: 'mistral-medium', name: 'Mistral Medium', description: '中等规模，平衡选择' },
-    { id: 'mistral-small', name: 'Mistral Small', description: '轻量快速，经济实惠' },
+    { id: 'mistral-large-2', name: 'Mistral Large 2', description: '旗舰模型，强大性能', contextWindow: 131072, pricing: { input: 2, output: 6 } },
+    { id: 'mistral-medium', name: 'Mistral Medium', description: '中等规模，平衡选择', contextWindow: 32768, pricing: { input: 0.4, output: 2 } },
+    { id: 'mistral-small', name: 'Mistral Small', description: '轻量快速，经济实惠', contextWindow: 32768, pricing: { input: 0.1, output: 0.3 } },
   ],
 
   /**
@@ -144,9 +173,9 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://cohere.com
    */
   cohere: [
-    { id: 'command-r-plus', name: 'Command R+', description: '增强版，最强性能' },
-    { id: 'command-r', name: 'Command R', description: '标准版，均衡选择' },
-    { id: 'command', name: 'Command', description: '基础版，快速响应' },
+    { id: 'command-r-plus', name: 'Command R+', description: '增强版，最强性能', contextWindow: 128000, pricing: { input: 2.5, output: 10 } },
+    { id: 'command-r', name: 'Command R', description: '标准版，均衡选择', contextWindow: 128000, pricing: { input: 0.15, output: 0.6 } },
+    { id: 'command', name: 'Command', description: '基础版，快速响应', contextWindow: 4096, pricing: { input: 1, output: 2 } },
   ],
 
   /**
@@ -155,8 +184,8 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://www.together.ai
    */
   together: [
-    { id: 'meta-llama/Meta-Llama-3.1-405B', name: 'Llama 3.1 405B', description: 'Meta 超大规模模型' },
-    { id: 'Qwen/Qwen2.5-72B', name: 'Qwen 2.5 72B', description: '阿里通义千问开源版' },
+    { id: 'meta-llama/Meta-Llama-3.1-405B', name: 'Llama 3.1 405B', description: 'Meta 超大规模模型', contextWindow: 131072, pricing: { input: 3.5, output: 3.5 } },
+    { id: 'Qwen/Qwen2.5-72B', name: 'Qwen 2.5 72B', description: '阿里通义千问开源版', contextWindow: 32768, pricing: { input: 1.2, output: 1.2 } },
   ],
 
   // ==================== 国内服务商 ====================
@@ -167,9 +196,9 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://dashscope.aliyun.com
    */
   aliyun: [
-    { id: 'qwen-max', name: 'Qwen Max', description: '最强性能，复杂任务' },
-    { id: 'qwen-plus', name: 'Qwen Plus', description: '增强版，平衡选择' },
-    { id: 'qwen-turbo', name: 'Qwen Turbo', description: '快速响应，高性价比' },
+    { id: 'qwen-max', name: 'Qwen Max', description: '最强性能，复杂任务', contextWindow: 32768, pricing: { input: 1.6, output: 6.4 } },
+    { id: 'qwen-plus', name: 'Qwen Plus', description: '增强版，平衡选择', contextWindow: 131072, pricing: { input: 0.4, output: 1.2 } },
+    { id: 'qwen-turbo', name: 'Qwen Turbo', description: '快速响应，高性价比', contextWindow: 131072, pricing: { input: 0.05, output: 0.2 } },
   ],
 
   /**
@@ -178,9 +207,9 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://open.bigmodel.cn
    */
   zhipu: [
-    { id: 'glm-4-plus', name: 'GLM-4 Plus', description: '增强版，最强性能' },
-    { id: 'glm-4-air', name: 'GLM-4 Air', description: '轻量版，快速响应' },
-    { id: 'glm-4-flash', name: 'GLM-4 Flash', description: '闪电版，极速推理' },
+    { id: 'glm-4-plus', name: 'GLM-4 Plus', description: '增强版，最强性能', contextWindow: 128000, pricing: { input: 0.7, output: 0.7 } },
+    { id: 'glm-4-air', name: 'GLM-4 Air', description: '轻量版，快速响应', contextWindow: 128000, pricing: { input: 0.07, output: 0.07 } },
+    { id: 'glm-4-flash', name: 'GLM-4 Flash', description: '闪电版，极速推理', contextWindow: 128000, pricing: { input: 0, output: 0 } },
   ],
 
   /**
@@ -189,9 +218,9 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://www.moonshot.cn
    */
   moonshot: [
-    { id: 'moonshot-v1-128k', name: 'Moonshot v1 128K', description: '超长上下文，适合长文本' },
-    { id: 'moonshot-v1-32k', name: 'Moonshot v1 32K', description: '标准上下文，平衡选择' },
-    { id: 'moonshot-v1-8k', name: 'Moonshot v1 8K', description: '短上下文，快速响应' },
+    { id: 'moonshot-v1-128k', name: 'Moonshot v1 128K', description: '超长上下文，适合长文本', contextWindow: 131072, pricing: { input: 8.4, output: 8.4 } },
+    { id: 'moonshot-v1-32k', name: 'Moonshot v1 32K', description: '标准上下文，平衡选择', contextWindow: 32768, pricing: { input: 3.4, output: 3.4 } },
+    { id: 'moonshot-v1-8k', name: 'Moonshot v1 8K', description: '短上下文，快速响应', contextWindow: 8192, pricing: { input: 1.7, output: 1.7 } },
   ],
 
   /**
@@ -200,9 +229,9 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://www.lingyiwanwu.com
    */
   lingyiwanwu: [
-    { id: 'yi-large', name: 'Yi Large', description: '大规模模型，强大性能' },
-    { id: 'yi-medium', name: 'Yi Medium', description: '中等规模，平衡选择' },
-    { id: 'yi-spark', name: 'Yi Spark', description: '轻量快速，经济实惠' },
+    { id: 'yi-large', name: 'Yi Large', description: '大规模模型，强大性能', contextWindow: 32768, pricing: { input: 2.8, output: 2.8 } },
+    { id: 'yi-medium', name: 'Yi Medium', description: '中等规模，平衡选择', contextWindow: 16384, pricing: { input: 0.35, output: 0.35 } },
+    { id: 'yi-spark', name: 'Yi Spark', description: '轻量快速，经济实惠', contextWindow: 16384, pricing: { input: 0.14, output: 0.14 } },
   ],
 
   /**
@@ -211,8 +240,8 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://www.baichuan-ai.com
    */
   baichuan: [
-    { id: 'baichuan4', name: 'Baichuan 4', description: '第四代模型，最新技术' },
-    { id: 'baichuan3-turbo', name: 'Baichuan 3 Turbo', description: '快速版本，高性价比' },
+    { id: 'baichuan4', name: 'Baichuan 4', description: '第四代模型，最新技术', contextWindow: 32768, pricing: { input: 14, output: 14 } },
+    { id: 'baichuan3-turbo', name: 'Baichuan 3 Turbo', description: '快速版本，高性价比', contextWindow: 32768, pricing: { input: 1.7, output: 1.7 } },
   ],
 
   /**
@@ -221,8 +250,8 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://www.minimaxi.com
    */
   minimax: [
-    { id: 'abab6.5-chat', name: 'abab 6.5 Chat', description: '最新版本，性能提升' },
-    { id: 'abab6-chat', name: 'abab 6 Chat', description: '稳定版本，可靠选择' },
+    { id: 'abab6.5-chat', name: 'abab 6.5 Chat', description: '最新版本，性能提升', contextWindow: 8192, pricing: { input: 4.2, output: 4.2 } },
+    { id: 'abab6-chat', name: 'abab 6 Chat', description: '稳定版本，可靠选择', contextWindow: 32768, pricing: { input: 14, output: 14 } },
   ],
 
   /**
@@ -231,13 +260,24 @@ export const PROVIDER_MODELS: Record<string, { id: string; name: string; descrip
    * 官网：https://www.volcengine.com/product/doubao
    */
   doubao: [
-    { id: 'doubao-pro', name: 'Doubao Pro', description: '专业版，强大性能' },
-    { id: 'doubao-lite', name: 'Doubao Lite', description: '轻量版，快速响应' },
+    { id: 'doubao-pro', name: 'Doubao Pro', description: '专业版，强大性能', contextWindow: 32768, pricing: { input: 0.11, output: 0.28 } },
+    { id: 'doubao-lite', name: 'Doubao Lite', description: '轻量版，快速响应', contextWindow: 32768, pricing: { input: 0.04, output: 0.08 } },
   ],
 
   custom: [],
 };
 
+// 各服务商的向量（Embedding）模型，用于全书语义检索；未列出的服务商使用本地向量
+export const PROVIDER_EMBEDDING_MODELS: Record<string, string> = {
+  google: 'text-embedding-004',
+  openai: 'text-embedding-3-small',
+  siliconflow: 'BAAI/bge-m3',
+  mistral: 'mistral-embed',
+  cohere: 'embed-multilingual-v3.0',
+  aliyun: 'text-embedding-v3',
+  zhipu: 'embedding-3',
+};
+
 // 存储 key（使用常量）
 export const API_SETTINGS_KEY = STORAGE_KEYS.API_SETTINGS;
 
@@ -297,6 +337,19 @@ interface StoredSettings extends ApiSettings {
   _encrypted?: boolean;
 }
 
+/**
+ * 解密备用服务商的 API Key，与主 Key 分开处理（主 Key 可能为空），失败时清空
+ */
+const decryptFallback = async (fallback: ApiSettings['fallback']): Promise<ApiSettings['fallback']> => {
+  if (!fallback?.apiKey) return fallback;
+  try {
+    return { ...fallback, apiKey: await decryptApiKey(fallback.apiKey) };
+  } catch (e) {
+    console.error('[ApiConfig] 备用服务商 API Key 解密失败:', e);
+    return { ...fallback, apiKey: '' };
+  }
+};
+
 /**
  * 解密设置中的 API Key
  */
@@ -306,8 +359,14 @@ const decryptSettings = async (settings: StoredSettings): Promise<{
 }> => {
   let needsReencryption = false;
 
+  if (!settings._encrypted) {
+    return { settings, needsReencryption: false };
+  }
+
+  const fallback = await decryptFallback(settings.fallback);
+
   // 如果已标记为加密，则解密
-  if (settings._encrypted && settings.apiKey) {
+  if (settings.apiKey) {
     try {
       // 检查是否需要重新加密（旧格式）
       needsReencryption = apiKeyNeedsReencryption(settings.apiKey);
@@ -317,6 +376,7 @@ const decryptSettings = async (settings: StoredSettings): Promise<{
         settings: {
           ...settings,
           apiKey: decryptedKey,
+          fallback,
         },
         needsReencryption,
       };
@@ -331,13 +391,14 @@ const decryptSettings = async (settings: StoredSettings): Promise<{
         settings: {
           ...settings,
           apiKey: '',
+          fallback,
         },
         needsReencryption: false,
       };
     }
   }
 
-  return { settings, needsReencryption: false };
+  return { settings: { ...settings, fallback }, needsReencryption: false };
 };
 
 // ==================== 加载和保存 ====================
@@ -498,9 +559,14 @@ export const saveApiSettings = async (settings: ApiSettings): Promise<void> => {
       ? await encryptApiKey(settings.apiKey)
       : '';
 
+    const fallback = settings.fallback?.apiKey
+      ? { ...settings.fallback, apiKey: await encryptApiKey(settings.fallback.apiKey) }
+      : settings.fallback;
+
     const settingsToStore: StoredSettings = {
       ...settings,
       apiKey: encryptedApiKey,
+      fallback,
       _encrypted: true,
     };
 
@@ -576,6 +642,26 @@ export const getProviderDisplayName = (providerId: string): string => {
   return provider?.name || providerId;
 };
 
+/**
+ * 查找模型信息，先在指定服务商下查找，找不到时在所有服务商中按模型 ID 查找
+ */
+export const getModelInfo = (providerId: string, modelId: string): ProviderModel | undefined => {
+  const model = PROVIDER_MODELS[providerId]?.find(m => m.id === modelId);
+  if (model) return model;
+  for (const models of Object.values(PROVIDER_MODELS)) {
+    const found = models.find(m => m.id === modelId);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+/**
+ * 获取模型的上下文窗口（token），未登记的模型返回 DEFAULT_CONTEXT_WINDOW
+ */
+export const getModelContextWindow = (providerId: string, modelId: string): number => {
+  return getModelInfo(providerId, modelId)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+};
+
 /**
  * 检查 API 是否已配置
  */
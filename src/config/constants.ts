@@ -83,6 +83,8 @@ export const STORAGE_KEYS = {
   NOVEL_RELATIONS: 'tiandao_novel_relations_',
   NOVEL_GOALS: 'tiandao_novel_goals_',
   NOVEL_RECORDS: 'tiandao_novel_records_',
+  NOVEL_MEMORY: 'tiandao_novel_memory_', // 分层记忆（AI 续写使用）
+  CODEX_SCAN: 'tiandao_codex_scan_', // 设定提取：已扫描章节和已忽略的建议
 
   // 提示词
   PROMPTS: 'tiandao_prompts',
@@ -21,6 +21,10 @@
  * - useExport: 文档导出
  * - useFocusMode: 专注模式
  * - useSearch: 全文搜索
+ * - useNovelHistory: 作品操作历史（撤销/重做）
+ * - useScheduledBackup: 定时本地加密备份
+ * - useNovelMemory: 作品分层记忆（AI 续写使用）
+ * - useChapterSummaries: 章节摘要后台生成
  */
 
 export { usePersistentState, usePersistentStateWithLoading, forceSaveAll, getPendingSaveCount } from './usePersistentState';
@@ -40,20 +44,25 @@ export {
 export { useVersionHistory } from './useVersionHistory';
 export { useWritingRecord } from './useWritingRecord';
 export { useSession, useSessionState, useUserId } from './useSession';
-export { useSync, useSyncEvent } from './useSync';
+export { useSync, useSyncEvent, useNovelSync } from './useSync';
 export { usePerformance, useRenderTracking, usePerformanceEvent, useApiTracking } from './usePerformance';
-export { useAcl, useUserAccess, usePermissionGuard, useAclEvent, useBatchPermissions } from './useAcl';
+export { useAcl, useUserAccess, usePermissionGuard, useAclEvent, useBatchPermissions, useNovelPermissions } from './useAcl';
 export {
   useCollaboration,
   useCollaboratorCursors,
   useCollaboratorSelections,
   useCollaborationOperations,
   useCollaborationEvent,
-  useOnlineCollaboratorCount
+  useOnlineCollaboratorCount,
+  useChapterCollaboration
 } from './useCollaboration';
 export { useExport, useQuickExport, useExportEvent, useBatchExport } from './useExport';
 export { useFocusMode } from './useFocusMode';
 export { useSearch } from './useSearch';
+export { useNovelHistory } from './useNovelHistory';
+export { useScheduledBackup } from './useScheduledBackup';
+export { useNovelMemory } from './useNovelMemory';
+export { useChapterSummaries } from './useChapterSummaries';
 
 // 类型导出
 export type { AutoSaveStatus } from './useAutoSave';
@@ -63,6 +72,13 @@ export type { VersionDiff, DiffChange } from './useVersionHistory';
 export type { WritingStats } from './useWritingRecord';
 export type { UseSyncReturn } from './useSync';
 export type { UsePerformanceReturn } from './usePerformance';
-export type { UseAclReturn } from './useAcl';
-export type { UseCollaborationReturn } from './useCollaboration';
+export type { UseAclReturn, NovelPermissions } from './useAcl';
+export type { NovelHistory } from './useNovelHistory';
+export type { NovelMemoryState } from './useNovelMemory';
+export type { ChapterSummaryQueue, UseChapterSummariesOptions } from './useChapterSummaries';
+export type {
+  UseCollaborationReturn,
+  UseChapterCollaborationOptions,
+  UseChapterCollaborationReturn
+} from './useCollaboration';
 export type { UseExportReturn } from './useExport';
@@ -13,7 +13,9 @@ import {
   RoleType,
   AclEntry,
   PermissionCheckResult,
-  AclEventType
+  AclEventType,
+  NovelAction,
+  getRequiredNovelActions
 } from '../services/acl/AclService';
 
 /**
@@ -330,6 +332,88 @@ export function useAclEvent(
   }, [event, callback]);
 }
 
+/**
+ * 作品权限
+ */
+export interface NovelPermissions {
+  /** 当前用户在作品中的角色，未登录时为 null */
+  role: RoleType | null;
+  /** 只读（不能编辑章节） */
+  readOnly: boolean;
+  /** 是否允许某项操作 */
+  can: (action: NovelAction) => boolean;
+  /** 不允许时的说明，允许时返回 null */
+  explain: (action: NovelAction) => string | null;
+  /** 修改作品字段前的检查，不允许时返回说明 */
+  explainUpdate: (updates: object) => string | null;
+}
+
+/**
+ * 作品权限 Hook
+ *
+ * @description
+ * 编辑器据此禁用按钮、切换只读模式。未登录（本地单人使用）时不做限制；
+ * 授权变化（邀请、撤销、修改角色）后自动刷新。
+ *
+ * @param novelId - 作品 ID
+ * @param userId - 当前用户 ID
+ *
+ * @example
+ * const permissions = useNovelPermissions(novel.id, currentUserId);
+ * <button disabled={!permissions.can('deleteChapter')} title={permissions.explain('deleteChapter') ?? '删除'}>
+ */
+export function useNovelPermissions(novelId?: string, userId?: string): NovelPermissions {
+  // 授权变化时递增，使下面的检查结果重新计算
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!novelId || !userId) return;
+    const refresh = (event: { data: { resourceId: string } }) => {
+      if (event.data.resourceId === novelId) setVersion(v => v + 1);
+    };
+    const unsubscribes = (['granted', 'revoked', 'updated', 'expired'] as AclEventType[]).map(type => aclService.on(type, refresh));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [novelId, userId]);
+
+  return useMemo(() => {
+    if (!novelId || !userId) {
+      return {
+        role: null,
+        readOnly: false,
+        can: () => true,
+        explain: () => null,
+        explainUpdate: () => null
+      };
+    }
+
+    const results = new Map<NovelAction, PermissionCheckResult>();
+    const check = (action: NovelAction) => {
+      if (!results.has(action)) {
+        results.set(action, aclService.checkNovel(userId, novelId, action));
+      }
+      return results.get(action)!;
+    };
+    const explain = (action: NovelAction) => {
+      const result = check(action);
+      return result.allowed ? null : result.reason;
+    };
+
+    return {
+      role: check('editChapter').effectiveRole ?? null,
+      readOnly: !check('editChapter').allowed,
+      can: (action: NovelAction) => check(action).allowed,
+      explain,
+      explainUpdate: (updates: object) => {
+        for (const action of getRequiredNovelActions(updates)) {
+          const reason = explain(action);
+          if (reason) return reason;
+        }
+        return null;
+      }
+    };
+  }, [novelId, userId, version]);
+}
+
 /**
  * 批量权限检查 Hook
  *
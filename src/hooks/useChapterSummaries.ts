@@ -0,0 +1,156 @@
+/**
+ * @fileoverview 章节摘要后台生成 Hook
+ * @module hooks/useChapterSummaries
+ * @description 本次打开后编辑过的章节停止编辑一段时间后，在后台逐章调用模型生成摘要
+ * @version 1.0.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ChapterSummaryRecord, Novel } from '../types';
+import { ChapterSummaryService } from '../services/summary/ChapterSummaryService';
+
+/** 编辑停止后多久开始生成 */
+const SETTLE_DELAY_MS = 15 * 1000;
+
+export interface UseChapterSummariesOptions {
+  /** 是否自动生成（只处理本次打开后编辑过的章节），关闭后仍可通过 generateNow 手动生成 */
+  enabled: boolean;
+  model: string;
+  /** 每生成一章回调一次，由调用方写回作品 */
+  onGenerated: (summaries: Record<string, ChapterSummaryRecord>) => void;
+  delay?: number;
+}
+
+/**
+ * useChapterSummaries Hook 返回值
+ */
+export interface ChapterSummaryQueue {
+  /** 正在生成摘要的章节 */
+  runningChapterId: string | null;
+  /** 最近一次失败的原因 */
+  lastError: string | null;
+  /** 立即为所有需要摘要的章节生成；指定章节时即使已有摘要也重新生成 */
+  generateNow: (chapterIds?: string[]) => void;
+}
+
+/**
+ * 章节摘要后台生成 Hook
+ *
+ * 同一时间只生成一章；某章失败后本轮停止，该章正文改动前不再自动重试，避免服务不可用时反复调用。
+ * 自动生成不补齐打开作品前就缺少摘要的章节，每章都是一次付费调用，补齐交给 generateNow。
+ *
+ * @example
+ * ```tsx
+ * const summaries = useChapterSummaries(novel, {
+ *   enabled: autoSummary,
+ *   model: selectedModel,
+ *   onGenerated: (records) => applyNovelUpdate({ chapters: ChapterSummaryService.applySummaries(chapters, records) }),
+ * });
+ * ```
+ */
+export function useChapterSummaries(novel: Novel | null | undefined, options: UseChapterSummariesOptions): ChapterSummaryQueue {
+  const { enabled, delay = SETTLE_DELAY_MS } = options;
+  const [runningChapterId, setRunningChapterId] = useState<string | null>(null);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  const latestRef = useRef({ novel, options });
+  latestRef.current = { novel, options };
+  const runningRef = useRef(false);
+  // 生成期间又有章节停止编辑，本轮结束后再来一轮
+  const rerunRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // 章节 → 失败时的正文，正文改动前不再自动重试
+  const failedRef = useRef(new Map<string, string>());
+  // 章节 → 打开作品时的正文，正文不同（或打开后新建）的章节才自动生成
+  const openedRef = useRef<{ novelId?: string; contents: Map<string, string> }>({ contents: new Map() });
+  if (novel && openedRef.current.novelId !== novel.id) {
+    openedRef.current = {
+      novelId: novel.id,
+      contents: new Map((novel.chapters ?? []).map(chapter => [chapter.id, chapter.content])),
+    };
+  }
+
+  const run = useCallback(async (chapterIds?: string[], backfill = false): Promise<void> => {
+    if (runningRef.current) {
+      rerunRef.current = true;
+      return;
+    }
+    rerunRef.current = false;
+    const current = latestRef.current.novel;
+    if (!current) return;
+
+    // 只处理开始时就需要摘要的章节；生成期间又改动的章节等下一轮
+    const queue = (current.chapters ?? []).filter(chapter =>
+      chapterIds
+        ? chapterIds.includes(chapter.id) && ChapterSummaryService.canSummarize(chapter)
+        : failedRef.current.get(chapter.id) !== chapter.content
+          && (backfill || openedRef.current.contents.get(chapter.id) !== chapter.content)
+          && ChapterSummaryService.needsSummary(chapter)
+    );
+    if (queue.length === 0) return;
+
+    runningRef.current = true;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLastError(null);
+    try {
+      for (const chapter of queue) {
+        if (controller.signal.aborted) break;
+        const { novel: latest, options: latestOptions } = latestRef.current;
+        const chapters = latest?.chapters ?? [];
+        const index = chapters.findIndex(c => c.id === chapter.id);
+        if (latest?.id !== current.id || index < 0 || chapters[index].content !== chapter.content) continue;
+
+        setRunningChapterId(chapter.id);
+        try {
+          const summary = await ChapterSummaryService.generate(chapter, {
+            model: latestOptions.model,
+            novelId: current.id,
+            signal: controller.signal,
+            previousBrief: index > 0 ? ChapterSummaryService.getFreshSummary(chapters[index - 1])?.brief : undefined,
+          });
+          if (controller.signal.aborted) break;
+          failedRef.current.delete(chapter.id);
+          latestRef.current.options.onGenerated({ [chapter.id]: summary });
+        } catch (error) {
+          if (controller.signal.aborted) break;
+          failedRef.current.set(chapter.id, chapter.content);
+          setLastError(error instanceof Error ? error.message : String(error));
+          console.error(`[Summary] 生成「${chapter.title}」的摘要失败:`, error);
+          break;
+        }
+      }
+    } finally {
+      runningRef.current = false;
+      if (abortRef.current === controller) abortRef.current = null;
+      setRunningChapterId(null);
+    }
+    if (rerunRef.current && latestRef.current.options.enabled && !controller.signal.aborted) {
+      await run();
+    }
+  }, []);
+
+  const generateNow = useCallback((chapterIds?: string[]) => {
+    chapterIds?.forEach(id => failedRef.current.delete(id));
+    if (!chapterIds) failedRef.current.clear();
+    void run(chapterIds, true);
+  }, [run]);
+
+  // 编辑停止后再生成
+  const novelId = novel?.id;
+  useEffect(() => {
+    if (!enabled || !novelId) return;
+    const timer = setTimeout(() => void run(), delay);
+    return () => clearTimeout(timer);
+  }, [enabled, novelId, novel?.chapters, delay, run]);
+
+  // 切换作品或离开编辑器时取消
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    failedRef.current.clear();
+  }, [novelId]);
+
+  return { runningChapterId, lastError, generateNow };
+}
+
+export default useChapterSummaries;
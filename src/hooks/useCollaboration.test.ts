@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import { createRelayHub } from '../../server/collab-relay.mjs';
+import {
+  CollaborationService,
+  collaborationService,
+  type CollaborationMessage,
+} from '../services/collaboration/CollaborationService';
+import type { CollaborationTransport, CollaborationTransportHandlers } from '../services/collaboration/CollaborationTransport';
+import { VersionService } from '../services/version/VersionService';
+import type { Chapter } from '../types';
+import { useChapterCollaboration } from './useCollaboration';
+
+/**
+ * 直接接入参考中继中心的内存传输层
+ */
+class HubTransport implements CollaborationTransport {
+  readonly name = 'memory';
+  readonly remote = true;
+  private connection: ReturnType<ReturnType<typeof createRelayHub>['connect']> | null = null;
+
+  constructor(private readonly hub: ReturnType<typeof createRelayHub>) {}
+
+  connect(handlers: CollaborationTransportHandlers): void {
+    this.connection = this.hub.connect('team', (text: string) => handlers.onMessage(JSON.parse(text)));
+    handlers.onOpen?.();
+  }
+
+  send(message: CollaborationMessage): void {
+    this.connection?.receive(JSON.stringify(message));
+  }
+
+  isOpen(): boolean {
+    return this.connection !== null;
+  }
+
+  close(): void {
+    this.connection?.close();
+    this.connection = null;
+  }
+}
+
+describe('useChapterCollaboration', () => {
+  let hub: ReturnType<typeof createRelayHub>;
+  let alice: CollaborationService;
+
+  beforeEach(async () => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    hub = createRelayHub();
+    alice = new CollaborationService();
+    alice.setTransport(new HubTransport(hub));
+    alice.init({ userId: 'alice', username: 'alice' });
+    await alice.join('novel', 'n1');
+    collaborationService.setTransport(new HubTransport(hub));
+  });
+
+  afterEach(() => {
+    alice.destroy();
+    collaborationService.destroy();
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  it('should keep the local text as a version when joining a document seeded with another text', async () => {
+    alice.openDocument('c1', '甲稿');
+    vi.advanceTimersByTime(100);
+
+    // 与 WritingEditor 相同：被取代的本地正文先存为版本再替换
+    let chapter: Chapter = { id: 'c1', title: '第一章', content: '乙稿', wordCount: 2 };
+    const onRemoteContent = (content: string, replaced?: string) => {
+      const saved = replaced === undefined
+        ? chapter
+        : VersionService.snapshot(chapter, { trigger: 'sync', note: '协同编辑', content: replaced });
+      chapter = { ...saved, content };
+    };
+
+    const Editor = () => {
+      useChapterCollaboration({ novelId: 'n1', chapterId: 'c1', content: chapter.content, onRemoteContent, enabled: true });
+      return null;
+    };
+    const root = createRoot(document.createElement('div'));
+    await act(async () => root.render(createElement(Editor)));
+
+    expect(chapter.content).toBe('甲稿');
+    expect(chapter.versions).toHaveLength(1);
+    expect(chapter.versions![0].trigger).toBe('sync');
+    expect(VersionService.getContent(chapter.versions, chapter.versions![0].id)).toBe('乙稿');
+    act(() => root.unmount());
+  });
+});
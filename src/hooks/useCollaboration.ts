@@ -8,6 +8,8 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   collaborationService,
+  getCollaborationSessionId,
+  toCursorPosition,
   Collaborator,
   CollaborationState,
   CursorPosition,
@@ -393,6 +395,140 @@ export function useCollaborationEvent(
   }, [event, callback]);
 }
 
+/**
+ * 章节协同编辑 Hook 选项
+ */
+export interface UseChapterCollaborationOptions {
+  /** 小说 ID，同一小说的作者进入同一协作房间 */
+  novelId?: string;
+  /** 当前编辑的章节 ID */
+  chapterId?: string;
+  /** 编辑器中的正文 */
+  content: string;
+  /**
+   * 其他作者的编辑合并后的新正文
+   *
+   * 协同文档以另一位作者的正文为准时（加入时沿用已有文档，或改用更早的种子），
+   * replaced 为被取代的本地正文，调用方应先保存为版本再替换。
+   */
+  onRemoteContent: (content: string, replaced?: string) => void;
+  /** 是否启用，默认读取协作设置 */
+  enabled?: boolean;
+}
+
+/**
+ * 章节协同编辑 Hook 返回值
+ */
+export interface UseChapterCollaborationReturn {
+  /** 协同文档是否已打开 */
+  active: boolean;
+  /** 提交编辑器中的新正文（在 onChange 中同步调用，避免与远端编辑交错） */
+  applyLocalChange: (content: string) => void;
+  /** 广播本地光标和选区（textarea 的 selectionStart / selectionEnd） */
+  updateLocalSelection: (start: number, end: number) => void;
+}
+
+/**
+ * 章节协同编辑 Hook
+ *
+ * @description
+ * 以本标签页的身份加入小说的协作房间，打开当前章节的协同文档。
+ * 本地编辑经 CRDT 广播给其他作者，其他作者的编辑合并后通过 onRemoteContent 返回；
+ * 未经 applyLocalChange 的正文变化（如 AI 改写）也会在渲染后自动提交。
+ *
+ * @example
+ * const { applyLocalChange, updateLocalSelection } = useChapterCollaboration({
+ *   novelId: novel.id,
+ *   chapterId: chapter.id,
+ *   content: chapter.content,
+ *   onRemoteContent: (content) => updateChapter(chapter.id, { content }),
+ * });
+ */
+export function useChapterCollaboration({
+  novelId,
+  chapterId,
+  content,
+  onRemoteContent,
+  enabled = collaborationService.getSettings().enabled,
+}: UseChapterCollaborationOptions): UseChapterCollaborationReturn {
+  const [joinedNovelId, setJoinedNovelId] = useState<string | null>(null);
+  const [active, setActive] = useState(false);
+  const contentRef = useRef(content);
+  contentRef.current = content;
+  const callbackRef = useRef(onRemoteContent);
+  callbackRef.current = onRemoteContent;
+
+  // 加入小说协作房间
+  useEffect(() => {
+    if (!enabled || !novelId) return;
+    let cancelled = false;
+
+    const settings = collaborationService.getSettings();
+    collaborationService.init({
+      userId: getCollaborationSessionId(),
+      username: settings.displayName.trim() || '匿名作者'
+    });
+    collaborationService.join('novel', novelId).then(() => {
+      if (!cancelled) setJoinedNovelId(novelId);
+    });
+
+    return () => {
+      cancelled = true;
+      setJoinedNovelId(null);
+      collaborationService.leave();
+    };
+  }, [enabled, novelId]);
+
+  // 打开章节的协同文档，订阅远端编辑
+  useEffect(() => {
+    if (!joinedNovelId || joinedNovelId !== novelId || !chapterId) return;
+
+    const shared = collaborationService.openDocument(chapterId, contentRef.current);
+    if (shared !== contentRef.current) {
+      callbackRef.current(shared, contentRef.current);
+    }
+    setActive(true);
+
+    const unsubscribe = collaborationService.on('content_change', (event) => {
+      const data = event.data as { chapterId: string; content: string; replaced?: string };
+      if (data.chapterId === chapterId && data.content !== contentRef.current) {
+        callbackRef.current(data.content, data.replaced !== undefined ? contentRef.current : undefined);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      setActive(false);
+    };
+  }, [joinedNovelId, novelId, chapterId]);
+
+  // 其他途径修改的正文
+  useEffect(() => {
+    if (active && chapterId) {
+      collaborationService.applyLocalChange(chapterId, content);
+    }
+  }, [active, chapterId, content]);
+
+  const applyLocalChange = useCallback((next: string) => {
+    if (active && chapterId) {
+      collaborationService.applyLocalChange(chapterId, next);
+    }
+  }, [active, chapterId]);
+
+  const updateLocalSelection = useCallback((start: number, end: number) => {
+    if (!active || !chapterId) return;
+    const text = collaborationService.getDocumentContent(chapterId) ?? contentRef.current;
+    collaborationService.updateCursor(toCursorPosition(text, chapterId, end));
+    collaborationService.updateSelection(
+      start === end
+        ? null
+        : { start: toCursorPosition(text, chapterId, start), end: toCursorPosition(text, chapterId, end) }
+    );
+  }, [active, chapterId]);
+
+  return { active, applyLocalChange, updateLocalSelection };
+}
+
 /**
  * 在线协作者计数 Hook
  *
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview 作品操作历史 Hook
+ * @module hooks/useNovelHistory
+ * @description 为当前作品维护本次会话的操作历史（CommandJournal），切换作品时重新开始
+ * @version 1.0.0
+ */
+
+import { useEffect, useReducer, useRef } from 'react';
+import { CommandJournal, type CommandJournalOptions, type JournalEntry } from '../services/history/CommandJournal';
+
+/**
+ * useNovelHistory Hook 返回值
+ */
+export interface NovelHistory {
+  journal: CommandJournal;
+  entries: readonly JournalEntry[];
+  /** 已生效的条目数 */
+  position: number;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * 作品操作历史 Hook
+ *
+ * 只负责记录和通知；撤销、重做得到的字段由调用方写回作品（编辑器还需要同步本地状态）。
+ *
+ * @example
+ * ```tsx
+ * const history = useNovelHistory(novel?.id);
+ * const onUpdateNovel = (updates) => {
+ *   history.journal.record(novel, updates);
+ *   applyNovelUpdate(updates);
+ * };
+ * const undo = () => {
+ *   const patch = history.journal.undo(novel);
+ *   if (patch) applyNovelUpdate(patch);
+ * };
+ * ```
+ */
+export function useNovelHistory(novelId: string | undefined, options?: CommandJournalOptions): NovelHistory {
+  const journalRef = useRef<{ novelId: string | undefined; journal: CommandJournal } | null>(null);
+  if (!journalRef.current || journalRef.current.novelId !== novelId) {
+    journalRef.current = { novelId, journal: new CommandJournal(options) };
+  }
+  const { journal } = journalRef.current;
+
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+  useEffect(() => journal.subscribe(rerender), [journal]);
+
+  return {
+    journal,
+    entries: journal.getEntries(),
+    position: journal.getPosition(),
+    canUndo: journal.canUndo(),
+    canRedo: journal.canRedo(),
+  };
+}
+
+export default useNovelHistory;
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview 作品分层记忆 Hook
+ * @module hooks/useNovelMemory
+ * @description 打开作品时载入分层记忆，章节、人物或世界观保存后自动更新
+ * @version 1.0.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Novel } from '../types';
+import { NovelMemoryService, type NovelMemory } from '../services/memory/NovelMemoryService';
+
+/** 作品内容停止变化一段时间后再更新记忆，避免每次自动保存都重新提取 */
+const MEMORY_REFRESH_DELAY_MS = 3000;
+
+/**
+ * useNovelMemory Hook 返回值
+ */
+export interface NovelMemoryState {
+  memory: NovelMemory | null;
+  /** 保存作者修改后的记忆 */
+  update: (memory: NovelMemory) => void;
+  /** 立即按作品当前内容更新记忆 */
+  refresh: () => NovelMemory | null;
+}
+
+/**
+ * 作品分层记忆 Hook
+ *
+ * @example
+ * ```tsx
+ * const { memory, update } = useNovelMemory(novel);
+ * const prompt = NovelMemoryService.formatForPrompt(memory, { recentContent });
+ * update(NovelMemoryService.updateChapterMemory(memory, chapterId, { summary }));
+ * ```
+ */
+export function useNovelMemory(novel: Novel | null | undefined, delay: number = MEMORY_REFRESH_DELAY_MS): NovelMemoryState {
+  const [memory, setMemory] = useState<NovelMemory | null>(null);
+  const novelRef = useRef(novel);
+  novelRef.current = novel;
+  // 已变化但还没更新记忆的作品
+  const pendingRef = useRef<Novel | null>(null);
+
+  const refresh = useCallback((): NovelMemory | null => {
+    pendingRef.current = null;
+    const current = novelRef.current;
+    if (!current) return null;
+    const next = NovelMemoryService.sync(current);
+    setMemory(prev => (prev && prev.novelId === next.novelId && prev.updatedAt === next.updatedAt ? prev : next));
+    return next;
+  }, []);
+
+  const update = useCallback((next: NovelMemory) => {
+    NovelMemoryService.save(next);
+    setMemory(next);
+  }, []);
+
+  // 打开作品时立即载入
+  const novelId = novel?.id;
+  useEffect(() => {
+    setMemory(null);
+    if (novelId) refresh();
+  }, [novelId, refresh]);
+
+  // 章节或设定变化后延迟更新
+  useEffect(() => {
+    if (!novel) return;
+    pendingRef.current = novel;
+    const timer = setTimeout(refresh, delay);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [novelId, novel?.chapters, novel?.characters, novel?.worldviews, novel?.characterRelations, delay, refresh]);
+
+  // 离开作品时补上还没执行的更新
+  useEffect(() => () => {
+    if (pendingRef.current) {
+      NovelMemoryService.sync(pendingRef.current);
+      pendingRef.current = null;
+    }
+  }, [novelId]);
+
+  return { memory, update, refresh };
+}
+
+export default useNovelMemory;
@@ -9,19 +9,49 @@ import * as LZString from 'lz-string';
 
 /**
  * 保存数据到 localStorage
+ *
+ * @returns 写入的字符串，失败时为 null
  */
-function saveToStorage<T>(key: string, value: T): void {
+function saveToStorage<T>(key: string, value: T): string | null {
   if (typeof window === 'undefined') {
-    return;
+    return null;
   }
 
   try {
-    localStorage.setItem(key, JSON.stringify(value));
+    const serialized = JSON.stringify(value);
+    localStorage.setItem(key, serialized);
+    return serialized;
   } catch (error) {
     console.error(`[Storage] 保存 ${key} 失败:`, error);
+    return null;
   }
 }
 
+/**
+ * 解析 localStorage 中的原始字符串
+ */
+function parseStored<T>(raw: string | null): T | undefined {
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 持久化状态选项
+ */
+export interface PersistentStateOptions<T> {
+  /**
+   * 多标签页合并函数
+   *
+   * 提供后，保存前发现其他标签页已改写同一键时，以本标签页上次读写的值为共同祖先三方合并，
+   * 并在其他标签页保存时（storage 事件）把变更合并进当前状态，避免后保存的标签页覆盖先保存的。
+   */
+  merge?: (base: T | undefined, local: T, stored: T) => T;
+}
+
 /**
  * 从 localStorage 读取数据（兼容旧的压缩格式）
  */
@@ -61,8 +91,10 @@ function loadFromStorage<T>(key: string, defaultValue: T): T {
  */
 export function usePersistentState<T>(
   key: string,
-  initialValue: T | (() => T)
+  initialValue: T | (() => T),
+  options: PersistentStateOptions<T> = {}
 ): [T, React.Dispatch<React.SetStateAction<T>>] {
+  const { merge } = options;
   // 计算默认值
   const getDefaultValue = useCallback((): T => {
     return typeof initialValue === 'function'
@@ -76,17 +108,52 @@ export function usePersistentState<T>(
   });
 
   const isFirstRender = useRef(true);
+  /** 本标签页上次读到或写入的原始字符串，作为多标签页合并的共同祖先 */
+  const baseRef = useRef<string | null>(null);
 
   // 状态变化时保存到 localStorage
   useEffect(() => {
     // 跳过首次渲染（初始值已经是从 localStorage 读取的）
     if (isFirstRender.current) {
       isFirstRender.current = false;
+      baseRef.current = typeof window === 'undefined' ? null : localStorage.getItem(key);
       return;
     }
 
-    saveToStorage(key, state);
-  }, [key, state]);
+    if (merge) {
+      const raw = localStorage.getItem(key);
+      const stored = parseStored<T>(raw);
+      if (raw !== baseRef.current && stored !== undefined) {
+        // 其他标签页在此期间保存过：合并后写入，并把合并结果同步到当前状态
+        const merged = merge(parseStored<T>(baseRef.current), state, stored);
+        baseRef.current = saveToStorage(key, merged);
+        if (merged !== state) {
+          setState(merged);
+        }
+        return;
+      }
+    }
+
+    baseRef.current = saveToStorage(key, state);
+  }, [key, state, merge]);
+
+  // 其他标签页保存时合并进当前状态
+  useEffect(() => {
+    if (!merge || typeof window === 'undefined') return;
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== key || event.newValue === null || event.newValue === baseRef.current) return;
+      const stored = parseStored<T>(event.newValue);
+      if (stored === undefined) return;
+
+      const base = parseStored<T>(baseRef.current);
+      baseRef.current = event.newValue;
+      setState(prev => merge(base, prev, stored));
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [key, merge]);
 
   return [state, setState];
 }
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview 定时备份 Hook
+ * @module hooks/useScheduledBackup
+ * @description 应用运行期间定期检查，开启定时备份时每天在本地保存一份加密备份
+ * @version 1.0.0
+ */
+
+import { useEffect } from 'react';
+import { BackupService } from '../services/backup/BackupService';
+
+/** 检查间隔：每小时一次，跨过零点后的第一次检查完成当天的备份 */
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/** 启动后稍等再备份，避开首屏加载 */
+const INITIAL_DELAY_MS = 30 * 1000;
+
+/**
+ * 定时备份 Hook
+ *
+ * 是否备份、保留多少份由设置页的定时备份设置决定（BackupService.getSchedule），
+ * 在应用根组件挂载一次即可。
+ *
+ * @example
+ * ```tsx
+ * function App() {
+ *   useScheduledBackup();
+ *   // ...
+ * }
+ * ```
+ */
+export function useScheduledBackup(): void {
+  useEffect(() => {
+    let running = false;
+    const run = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await BackupService.runScheduledBackup();
+      } catch (error) {
+        console.error('定时备份失败:', error);
+      } finally {
+        running = false;
+      }
+    };
+
+    const timeout = setTimeout(run, INITIAL_DELAY_MS);
+    const interval = setInterval(run, CHECK_INTERVAL_MS);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, []);
+}
+
+export default useScheduledBackup;
@@ -5,12 +5,19 @@
  * @version 1.0.0
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { Novel } from '../types';
+import type { SyncRecord } from '../services/sync/SyncTransport';
+import { mergeNovel } from '../services/sync/novelMerge';
 import {
   syncService,
   SyncQueueState,
   SyncEventType,
-  SyncItem
+  SyncItem,
+  SyncProgress,
+  SyncSettings,
+  SyncConflictResolution
 } from '../services/sync/SyncService';
 
 /**
@@ -25,12 +32,22 @@ export interface UseSyncReturn {
   hasPending: boolean;
   /** 失败的同步项 */
   failedItems: SyncItem[];
+  /** 冲突的同步项 */
+  conflicts: SyncItem[];
+  /** 正在同步时的进度 */
+  progress: SyncProgress | null;
+  /** 同步服务器配置 */
+  settings: SyncSettings;
   /** 强制同步 */
   forceSync: () => Promise<void>;
   /** 重试失败项 */
   retryFailed: () => Promise<void>;
   /** 清除失败项 */
   clearFailed: () => Promise<void>;
+  /** 处理冲突 */
+  resolveConflict: (itemId: string, resolution: SyncConflictResolution) => Promise<void>;
+  /** 更新同步服务器配置 */
+  configure: (settings: SyncSettings) => void;
 }
 
 /**
@@ -59,17 +76,37 @@ export interface UseSyncReturn {
 export function useSync(): UseSyncReturn {
   const [state, setState] = useState<SyncQueueState>(() => syncService.getQueueState());
   const [failedItems, setFailedItems] = useState<SyncItem[]>(() => syncService.getFailedItems());
+  const [conflicts, setConflicts] = useState<SyncItem[]>(() => syncService.getConflicts());
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
+  const [settings, setSettings] = useState<SyncSettings>(() => syncService.getSettings());
 
   useEffect(() => {
     // 初始化同步服务
-    syncService.init();
+    syncService.init().then(() => {
+      setState(syncService.getQueueState());
+      setSettings(syncService.getSettings());
+    });
 
     // 订阅状态变化
     const unsubscribeQueue = syncService.on('queueChange', (event) => {
       setState(event.data as SyncQueueState);
       setFailedItems(syncService.getFailedItems());
+      setConflicts(syncService.getConflicts());
+    });
+
+    const unsubscribeConflict = syncService.on('conflict', () => {
+      setConflicts(syncService.getConflicts());
+    });
+
+    const unsubscribeProgress = syncService.on('syncProgress', (event) => {
+      setProgress(event.data as SyncProgress);
     });
 
+    const unsubscribeEnd = [
+      syncService.on('syncComplete', () => setProgress(null)),
+      syncService.on('syncFailed', () => setProgress(null)),
+    ];
+
     const unsubscribeOnline = syncService.on('online', () => {
       setState(prev => ({ ...prev, isOnline: true }));
     });
@@ -80,6 +117,9 @@ export function useSync(): UseSyncReturn {
 
     return () => {
       unsubscribeQueue();
+      unsubscribeConflict();
+      unsubscribeProgress();
+      unsubscribeEnd.forEach(unsubscribe => unsubscribe());
       unsubscribeOnline();
       unsubscribeOffline();
     };
@@ -102,14 +142,28 @@ export function useSync(): UseSyncReturn {
     await syncService.clearFailed();
   }, []);
 
+  const resolveConflict = useCallback(async (itemId: string, resolution: SyncConflictResolution) => {
+    await syncService.resolveConflict(itemId, resolution);
+  }, []);
+
+  const configure = useCallback((next: SyncSettings) => {
+    syncService.configure(next);
+    setSettings(next);
+  }, []);
+
   return {
     state,
     isOnline: state.isOnline,
     hasPending: state.pendingCount > 0,
     failedItems,
+    conflicts,
+    progress,
+    settings,
     forceSync,
     retryFailed,
-    clearFailed
+    clearFailed,
+    resolveConflict,
+    configure
   };
 }
 
@@ -134,4 +188,106 @@ export function useSyncEvent(
   }, [event, callback]);
 }
 
+/** 作品在同步服务器上的键名前缀 */
+export const NOVEL_SYNC_PREFIX = 'novels/';
+
+/** 作品变更后等待多久再入队，避免逐字入队 */
+const NOVEL_SYNC_DEBOUNCE_MS = 2000;
+
+/**
+ * 作品多设备同步 Hook
+ *
+ * @description
+ * 连接同步服务器时，将新增、修改、删除的作品以 `novels/<id>` 为键加入同步队列，
+ * 并把其他设备的变更（remoteChange 事件）写回作品列表。
+ * 写回的对象会记入快照，不会被再次推送。
+ * 两台设备同时修改同一作品时，先按章节段落和设定字段三方合并，合并不了的部分才作为冲突交给用户。
+ *
+ * @param novels - 作品列表
+ * @param setNovels - 作品列表的更新函数
+ */
+export function useNovelSync(novels: Novel[], setNovels: Dispatch<SetStateAction<Novel[]>>): void {
+  const [remoteEnabled, setRemoteEnabled] = useState(() => syncService.isRemoteEnabled());
+  /** 上次入队或从远端写回时的作品，按 ID 索引 */
+  const snapshotRef = useRef<Map<string, Novel> | null>(null);
+
+  useEffect(() => {
+    syncService.init().then(() => setRemoteEnabled(syncService.isRemoteEnabled()));
+    const unregister = syncService.registerMerger(NOVEL_SYNC_PREFIX, (base, local, remote) =>
+      mergeNovel(base as Novel | undefined, local as Novel, remote as Novel)
+    );
+    const unsubscribe = syncService.on('queueChange', (event) => {
+      setRemoteEnabled((event.data as SyncQueueState).remoteEnabled);
+    });
+    return () => {
+      unregister();
+      unsubscribe();
+    };
+  }, []);
+
+  // 本地变更入队
+  useEffect(() => {
+    if (!remoteEnabled) {
+      snapshotRef.current = null;
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const snapshot = snapshotRef.current;
+      const next = new Map(novels.map(novel => [novel.id, novel]));
+
+      novels.forEach(novel => {
+        const key = `${NOVEL_SYNC_PREFIX}${novel.id}`;
+        if (!snapshot) {
+          // 刚连接服务器：只上传服务器上还没有的作品，已有的以拉取结果为准
+          if (syncService.getRevision(key) === 0) {
+            syncService.addToQueue(key, 'create', novel);
+          }
+        } else if (snapshot.get(novel.id) !== novel) {
+          syncService.addToQueue(key, snapshot.has(novel.id) ? 'update' : 'create', novel);
+        }
+      });
+      snapshot?.forEach((_, id) => {
+        if (!next.has(id)) {
+          syncService.addToQueue(`${NOVEL_SYNC_PREFIX}${id}`, 'delete', null);
+        }
+      });
+
+      snapshotRef.current = next;
+    }, snapshotRef.current ? NOVEL_SYNC_DEBOUNCE_MS : 0);
+
+    return () => clearTimeout(timer);
+  }, [novels, remoteEnabled]);
+
+  // 远端变更写回
+  useEffect(() => {
+    return syncService.on('remoteChange', (event) => {
+      const records = ((event.data as { records: SyncRecord[] }).records || [])
+        .filter(record => record.key.startsWith(NOVEL_SYNC_PREFIX));
+      if (records.length === 0) return;
+
+      setNovels(prev => {
+        let result = [...prev];
+        records.forEach(record => {
+          const id = record.key.slice(NOVEL_SYNC_PREFIX.length);
+          if (record.deleted || !record.data) {
+            result = result.filter(novel => novel.id !== id);
+            snapshotRef.current?.delete(id);
+            return;
+          }
+          const novel = record.data as Novel;
+          const index = result.findIndex(n => n.id === id);
+          if (index === -1) {
+            result = [novel, ...result];
+          } else {
+            result[index] = novel;
+          }
+          snapshotRef.current?.set(id, novel);
+        });
+        return result;
+      });
+    });
+  }, [setNovels]);
+}
+
 export default useSync;
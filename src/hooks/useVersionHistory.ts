@@ -4,15 +4,17 @@
  * 用于章节内容的版本历史记录和恢复
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { Chapter, ChapterVersion } from '../types/novel';
-import { createVersionId } from '../utils/id';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { Chapter, ChapterVersion, ResolvedChapterVersion } from '../types/novel';
+import { countWords, DEFAULT_WORD_COUNT_MODE, type WordCountMode } from '../utils/wordCount';
+import { calculateDiff, cleanOldVersions, type DiffResult } from '../utils/versionComparison';
+import { VersionService } from '../services/version/VersionService';
 
 /**
  * 版本历史配置
  */
 interface VersionHistoryOptions {
-  /** 最大版本数量，默认 50 */
+  /** 最大版本数量（里程碑版本不计入），默认 50；此外按 VersionService 的保留策略清理 */
   maxVersions?: number;
   /** 自动保存间隔(ms)，0 表示不自动保存，默认 60000 (1分钟) */
   autoSaveInterval?: number;
@@ -20,14 +22,16 @@ interface VersionHistoryOptions {
   minChangeThreshold?: number;
   /** 保存版本时的回调 */
   onVersionSave?: (version: ChapterVersion) => void;
+  /** 字数统计口径，默认 standard */
+  wordCountMode?: WordCountMode;
 }
 
 /**
  * 版本历史状态
  */
 interface VersionHistoryState {
-  /** 当前章节的所有版本 */
-  versions: ChapterVersion[];
+  /** 当前章节的所有版本（已还原完整内容，按时间倒序） */
+  versions: ResolvedChapterVersion[];
   /** 是否正在加载 */
   isLoading: boolean;
   /** 选中的版本 ID（用于预览） */
@@ -40,10 +44,10 @@ interface VersionHistoryState {
  * 版本历史操作
  */
 interface VersionHistoryActions {
-  /** 保存当前内容为新版本 */
+  /** 保存当前内容为新版本；带备注的手动保存为命名里程碑，不会被自动清理 */
   saveVersion: (content: string, note?: string) => ChapterVersion | null;
   /** 恢复到指定版本 */
-  restoreVersion: (versionId: string) => ChapterVersion | null;
+  restoreVersion: (versionId: string) => ResolvedChapterVersion | null;
   /** 删除指定版本 */
   deleteVersion: (versionId: string) => void;
   /** 选择版本进行预览 */
@@ -65,6 +69,8 @@ export interface VersionDiff {
   addedWords: number;
   removedWords: number;
   changes: DiffChange[];
+  /** 段落级差异明细（含段内逐字差异和段落移动），供并排/行内对比视图使用 */
+  detail: DiffResult;
 }
 
 export interface DiffChange {
@@ -74,66 +80,38 @@ export interface DiffChange {
 }
 
 /**
- * 计算字数
+ * 段落级差异：修改的段落记为删除旧段 + 新增新段，移动的段落只在新位置记为未变化
  */
-const countWords = (text: string): number => {
-  // 中文字符按字数计算，英文按单词计算
-  const chineseChars = (text.match(/[\u4e00-\u9fa5]/g) || []).length;
-  const englishWords = (text.match(/[a-zA-Z]+/g) || []).length;
-  return chineseChars + englishWords;
-};
-
-/**
- * 简单的行级别差异计算
- */
-const calculateDiff = (oldContent: string, newContent: string): VersionDiff => {
-  const oldLines = oldContent.split('\n');
-  const newLines = newContent.split('\n');
-
+const buildVersionDiff = (oldContent: string, newContent: string, mode: WordCountMode): VersionDiff => {
+  const detail = calculateDiff(oldContent, newContent);
   const changes: DiffChange[] = [];
-  let addedLines = 0;
-  let removedLines = 0;
-
-  // 简化的差异算法：使用最长公共子序列的思想
-  const lcs = new Map<string, number>();
-
-  // 标记旧行
-  oldLines.forEach((line, i) => {
-    const key = line.trim();
-    if (!lcs.has(key)) {
-      lcs.set(key, i);
-    }
-  });
 
-  // 比较新行
-  const usedOldLines = new Set<number>();
-
-  newLines.forEach((line, i) => {
-    const key = line.trim();
-    const oldIndex = lcs.get(key);
-
-    if (oldIndex !== undefined && !usedOldLines.has(oldIndex)) {
-      usedOldLines.add(oldIndex);
-      changes.push({ type: 'unchanged', content: line, lineNumber: i + 1 });
-    } else {
-      changes.push({ type: 'add', content: line, lineNumber: i + 1 });
-      addedLines++;
-    }
-  });
-
-  // 找出被删除的行
-  oldLines.forEach((line, i) => {
-    if (!usedOldLines.has(i)) {
-      removedLines++;
+  detail.lines.forEach((line) => {
+    switch (line.type) {
+      case 'added':
+        changes.push({ type: 'add', content: line.content, lineNumber: line.newLineNumber! });
+        break;
+      case 'removed':
+        changes.push({ type: 'remove', content: line.content, lineNumber: line.oldLineNumber! });
+        break;
+      case 'modified':
+        changes.push({ type: 'remove', content: line.oldContent ?? '', lineNumber: line.oldLineNumber! });
+        changes.push({ type: 'add', content: line.content, lineNumber: line.newLineNumber! });
+        break;
+      default:
+        if (line.newLineNumber) {
+          changes.push({ type: 'unchanged', content: line.content, lineNumber: line.newLineNumber });
+        }
     }
   });
 
   return {
-    addedLines,
-    removedLines,
-    addedWords: countWords(newContent) - countWords(oldContent),
-    removedWords: Math.max(0, countWords(oldContent) - countWords(newContent)),
+    addedLines: detail.stats.added + detail.stats.modified,
+    removedLines: detail.stats.removed + detail.stats.modified,
+    addedWords: countWords(newContent, mode) - countWords(oldContent, mode),
+    removedWords: Math.max(0, countWords(oldContent, mode) - countWords(newContent, mode)),
     changes,
+    detail,
   };
 };
 
@@ -149,9 +127,12 @@ export function useVersionHistory(
     autoSaveInterval = 60000,
     minChangeThreshold = 50,
     onVersionSave,
+    wordCountMode = DEFAULT_WORD_COUNT_MODE,
   } = options;
 
+  // 存储形式（增量），展示时再还原完整内容
   const [versions, setVersions] = useState<ChapterVersion[]>(chapter?.versions || []);
+  const resolvedVersions = useMemo(() => VersionService.resolveAll(versions), [versions]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -173,7 +154,7 @@ export function useVersionHistory(
       autoSaveTimerRef.current = setInterval(() => {
         if (hasUnsavedChanges && chapter.content !== lastSavedContentRef.current) {
           const wordDiff = Math.abs(
-            countWords(chapter.content) - countWords(lastSavedContentRef.current)
+            countWords(chapter.content, wordCountMode) - countWords(lastSavedContentRef.current, wordCountMode)
           );
           if (wordDiff >= minChangeThreshold) {
             saveVersion(chapter.content, '自动保存');
@@ -187,50 +168,41 @@ export function useVersionHistory(
         }
       };
     }
-  }, [autoSaveInterval, chapter, hasUnsavedChanges, minChangeThreshold]);
+  }, [autoSaveInterval, chapter, hasUnsavedChanges, minChangeThreshold, wordCountMode]);
 
   // 保存新版本
   const saveVersion = useCallback(
     (content: string, note?: string): ChapterVersion | null => {
       if (!chapter) return null;
 
-      // 检查是否有足够的变化
-      const wordDiff = Math.abs(countWords(content) - countWords(lastSavedContentRef.current));
-      if (wordDiff < minChangeThreshold && versions.length > 0) {
+      // 检查是否有足够的变化（带备注的手动保存不受限制）
+      const wordDiff = Math.abs(countWords(content, wordCountMode) - countWords(lastSavedContentRef.current, wordCountMode));
+      if (!note && wordDiff < minChangeThreshold && versions.length > 0) {
         return null;
       }
 
-      const newVersion: ChapterVersion = {
-        id: createVersionId(),
-        chapterId: chapter.id,
-        content,
-        wordCount: countWords(content),
-        createdAt: new Date().toISOString(),
-        note,
-      };
-
-      setVersions((prev) => {
-        const updated = [newVersion, ...prev];
-        // 限制版本数量
-        if (updated.length > maxVersions) {
-          return updated.slice(0, maxVersions);
-        }
-        return updated;
-      });
+      const saved = VersionService.snapshot(
+        { ...chapter, versions },
+        { trigger: note === '自动保存' ? 'words' : 'manual', note, milestone: !!note && note !== '自动保存', content, wordCountMode }
+      );
+      const capped = cleanOldVersions(saved, maxVersions).versions ?? [];
+      const newVersion = VersionService.getLatest(capped);
+      if (!newVersion || capped === versions) return null;
 
+      setVersions(capped);
       lastSavedContentRef.current = content;
       setHasUnsavedChanges(false);
       onVersionSave?.(newVersion);
 
       return newVersion;
     },
-    [chapter, maxVersions, minChangeThreshold, versions.length, onVersionSave]
+    [chapter, maxVersions, minChangeThreshold, versions, onVersionSave, wordCountMode]
   );
 
   // 恢复到指定版本
   const restoreVersion = useCallback(
-    (versionId: string): ChapterVersion | null => {
-      const version = versions.find((v) => v.id === versionId);
+    (versionId: string): ResolvedChapterVersion | null => {
+      const version = resolvedVersions.find((v) => v.id === versionId);
       if (!version) return null;
 
       // 在恢复之前，先保存当前版本
@@ -240,12 +212,12 @@ export function useVersionHistory(
 
       return version;
     },
-    [versions, chapter, saveVersion]
+    [resolvedVersions, chapter, saveVersion]
   );
 
   // 删除指定版本
   const deleteVersion = useCallback((versionId: string) => {
-    setVersions((prev) => prev.filter((v) => v.id !== versionId));
+    setVersions((prev) => VersionService.remove(prev, versionId));
     if (selectedVersionId === versionId) {
       setSelectedVersionId(null);
     }
@@ -259,14 +231,14 @@ export function useVersionHistory(
   // 获取版本差异
   const getDiff = useCallback(
     (versionId1: string, versionId2: string): VersionDiff | null => {
-      const v1 = versions.find((v) => v.id === versionId1);
-      const v2 = versions.find((v) => v.id === versionId2);
+      const v1 = resolvedVersions.find((v) => v.id === versionId1);
+      const v2 = resolvedVersions.find((v) => v.id === versionId2);
 
       if (!v1 || !v2) return null;
 
-      return calculateDiff(v1.content, v2.content);
+      return buildVersionDiff(v1.content, v2.content, wordCountMode);
     },
-    [versions]
+    [resolvedVersions, wordCountMode]
   );
 
   // 清空所有版本
@@ -281,7 +253,7 @@ export function useVersionHistory(
   }, []);
 
   const state: VersionHistoryState = {
-    versions,
+    versions: resolvedVersions,
     isLoading,
     selectedVersionId,
     hasUnsavedChanges,
@@ -110,6 +110,20 @@ export interface PermissionCheckResult {
   effectiveRole?: RoleType;
 }
 
+/**
+ * 作品内的受控操作（编辑器按此判断按钮是否可用）
+ */
+export type NovelAction =
+  | 'editChapter'   // 编辑章节正文、卷和作品信息
+  | 'deleteChapter' // 删除章节或卷
+  | 'editCodex'     // 修改角色、世界观、地点、道具等设定
+  | 'export'        // 导出作品
+  | 'aiBatch'       // AI 批量处理多个章节
+  | 'comment'       // 批注和回复（能查看作品即可批注）
+  | 'suggest'       // 提交修订建议（同批注，接受建议另需 editChapter）
+  | 'share'         // 邀请协作者
+  | 'deleteNovel';  // 删除作品
+
 /**
  * ACL 事件类型
  */
@@ -137,6 +151,56 @@ export type AclEventCallback = (event: {
 // ==================== 常量定义 ====================
 
 const ACL_STORAGE_KEY = 'tiandao_acl_entries';
+
+/**
+ * 作品内的资源：以作品 ID 作为 resourceId 检查时，没有单独授权则继承作品上的授权
+ */
+const NOVEL_SCOPED_RESOURCES: ResourceType[] = [
+  'chapter', 'volume', 'character', 'worldview', 'outline', 'timeline', 'mindmap'
+];
+
+/**
+ * 作品内操作对应的权限
+ */
+export const NOVEL_ACTION_PERMISSIONS: Record<NovelAction, { resource: ResourceType; action: ActionType; label: string }> = {
+  editChapter: { resource: 'chapter', action: 'update', label: '编辑章节' },
+  deleteChapter: { resource: 'chapter', action: 'delete', label: '删除章节' },
+  editCodex: { resource: 'character', action: 'update', label: '修改设定' },
+  export: { resource: 'novel', action: 'export', label: '导出作品' },
+  aiBatch: { resource: 'chapter', action: 'update', label: '批量处理章节' },
+  comment: { resource: 'novel', action: 'read', label: '批注' },
+  suggest: { resource: 'novel', action: 'read', label: '提交修订建议' },
+  share: { resource: 'novel', action: 'share', label: '邀请协作者' },
+  deleteNovel: { resource: 'novel', action: 'delete', label: '删除作品' },
+};
+
+/**
+ * 属于设定（codex）的作品字段
+ */
+const CODEX_FIELDS = [
+  'characters', 'worldviews', 'timelineEvents', 'references', 'mindMaps', 'outlineNodes',
+  'foreshadowings', 'characterRelations', 'locations', 'items', 'chapterTemplates', 'codexProposals'
+];
+
+/**
+ * 根据要修改的作品字段推断所需的操作权限
+ *
+ * @example
+ * getRequiredNovelActions({ characters: [...] }); // ['editCodex']
+ */
+export const getRequiredNovelActions = (updates: object): NovelAction[] => {
+  const actions = new Set<NovelAction>();
+  Object.keys(updates).forEach(field => {
+    if (field === 'comments') {
+      actions.add('comment');
+    } else if (field === 'suggestions') {
+      actions.add('suggest');
+    } else {
+      actions.add(CODEX_FIELDS.includes(field) ? 'editCodex' : 'editChapter');
+    }
+  });
+  return [...actions];
+};
 const ROLE_HIERARCHY: Record<RoleType, number> = {
   owner: 100,
   admin: 80,
@@ -241,7 +305,7 @@ const DEFAULT_ROLE_PERMISSIONS: RolePermissions[] = [
  * 提供以下功能：
  * 1. 基于角色的访问控制（RBAC）
  * 2. 细粒度权限管理
- * 3. 权限继承和覆盖
+ * 3. 权限继承和覆盖（章节、设定等作品内资源继承作品上的授权）
  * 4. 权限过期管理
  * 5. 访问审计日志
  *
@@ -261,7 +325,7 @@ const DEFAULT_ROLE_PERMISSIONS: RolePermissions[] = [
  *   // 执行更新操作
  * }
  */
-class AclService {
+export class AclService {
   private entries: Map<string, AclEntry> = new Map();
   private eventListeners: Map<AclEventType, Set<AclEventCallback>> = new Map();
   private currentUserId: string = '';
@@ -317,6 +381,17 @@ class AclService {
     return `${userId}:${resourceType}:${resourceId}`;
   }
 
+  /**
+   * 查找授权条目：先找资源自身的，作品内资源再回退到作品上的授权
+   */
+  private findEntry(userId: string, resourceType: ResourceType, resourceId: string): AclEntry | undefined {
+    const entry = this.entries.get(this.getEntryKey(userId, resourceType, resourceId));
+    if (entry || !NOVEL_SCOPED_RESOURCES.includes(resourceType)) {
+      return entry;
+    }
+    return this.entries.get(this.getEntryKey(userId, 'novel', resourceId));
+  }
+
   /**
    * 清理过期条目
    */
@@ -544,8 +619,7 @@ class AclService {
     // 清理过期条目
     this.cleanExpiredEntries();
 
-    const key = this.getEntryKey(userId, resourceType, resourceId);
-    const entry = this.entries.get(key);
+    const entry = this.findEntry(userId, resourceType, resourceId);
 
     if (!entry) {
       this.emit('denied', {
@@ -661,8 +735,7 @@ class AclService {
    * @returns 允许的操作列表
    */
   getPermissions(userId: string, resourceType: ResourceType, resourceId: string): ActionType[] {
-    const key = this.getEntryKey(userId, resourceType, resourceId);
-    const entry = this.entries.get(key);
+    const entry = this.findEntry(userId, resourceType, resourceId);
 
     if (!entry || (entry.expiresAt && entry.expiresAt < Date.now())) {
       return [];
@@ -687,6 +760,65 @@ class AclService {
     return allowedActions;
   }
 
+  /**
+   * 检查作品内的操作，拒绝时给出面向用户的说明
+   *
+   * @example
+   * const result = aclService.checkNovel('user_123', 'novel_456', 'deleteChapter');
+   * // { allowed: false, reason: '你在本作品中是「查看者」，不能删除章节', ... }
+   */
+  checkNovel(userId: string, novelId: string, action: NovelAction): PermissionCheckResult {
+    const { resource, action: aclAction, label } = NOVEL_ACTION_PERMISSIONS[action];
+    // check 会先清理过期条目，所以要在检查前记下是否过期
+    const entry = this.findEntry(userId, resource, novelId);
+    const expired = !!entry?.expiresAt && entry.expiresAt < Date.now();
+    const result = this.check(userId, resource, novelId, aclAction);
+    if (result.allowed) {
+      return result;
+    }
+
+    const roleName = result.effectiveRole ? this.getRolePermissions(result.effectiveRole)?.name : undefined;
+    let reason = `你没有本作品的访问权限，不能${label}`;
+    if (expired) {
+      reason = `你对本作品的访问权限已过期，不能${label}`;
+    } else if (roleName) {
+      reason = `你在本作品中是「${roleName}」，不能${label}`;
+    }
+    return { ...result, reason };
+  }
+
+  /**
+   * 确保资源有所有者
+   *
+   * 资源还没有任何授权条目时（如本地新建或升级前已有的作品），把 userId 登记为所有者；
+   * 已有条目时不做修改。
+   *
+   * @returns 是否新登记了所有者
+   */
+  ensureOwner(resourceType: ResourceType, resourceId: string, userId: string): boolean {
+    const hasEntries = Array.from(this.entries.values()).some(
+      entry => entry.resourceType === resourceType && entry.resourceId === resourceId
+    );
+    if (hasEntries) {
+      return false;
+    }
+
+    const entry: AclEntry = {
+      id: `acl_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      userId,
+      resourceType,
+      resourceId,
+      role: 'owner',
+      grantedBy: userId,
+      grantedAt: Date.now()
+    };
+    this.entries.set(this.getEntryKey(userId, resourceType, resourceId), entry);
+    this.saveToStorage();
+
+    this.emit('granted', { userId, resourceType, resourceId, entry });
+    return true;
+  }
+
   /**
    * 获取资源的所有访问者
    *
@@ -837,6 +969,8 @@ export const checkPermission = (
   action: ActionType
 ) => aclService.check(userId, resourceType, resourceId, action);
 export const grantAccess = (params: Parameters<typeof aclService.grant>[0]) => aclService.grant(params);
+export const checkNovelAction = (userId: string, novelId: string, action: NovelAction) =>
+  aclService.checkNovel(userId, novelId, action);
 export const revokeAccess = (
   userId: string,
   resourceType: ResourceType,
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AclService, getRequiredNovelActions } from '../AclService';
+
+describe('AclService', () => {
+  let acl: AclService;
+
+  beforeEach(() => {
+    acl = new AclService();
+    acl.init('owner');
+    acl.ensureOwner('novel', 'n1', 'owner');
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should register an owner only for resources without entries', () => {
+    expect(acl.ensureOwner('novel', 'n1', 'someone-else')).toBe(false);
+    expect(acl.getResourceAccessors('novel', 'n1').map(entry => [entry.userId, entry.role])).toEqual([['owner', 'owner']]);
+    expect(acl.checkNovel('owner', 'n1', 'deleteNovel').allowed).toBe(true);
+  });
+
+  it('should let chapters and codex inherit the role granted on the novel', () => {
+    acl.grant({ userId: 'editor', resourceType: 'novel', resourceId: 'n1', role: 'editor', grantedBy: 'owner' });
+
+    expect(acl.check('editor', 'chapter', 'n1', 'delete').allowed).toBe(true);
+    expect(acl.check('editor', 'character', 'n1', 'update').allowed).toBe(true);
+    expect(acl.getPermissions('editor', 'chapter', 'n1')).toContain('update');
+    // 作品外的资源不继承
+    expect(acl.check('editor', 'template', 'n1', 'read').allowed).toBe(false);
+    expect(acl.checkNovel('editor', 'n1', 'export')).toMatchObject({
+      allowed: false,
+      reason: '你在本作品中是「编辑者」，不能导出作品',
+    });
+  });
+
+  it('should explain why viewers, expired and unknown users are denied', () => {
+    acl.grant({ userId: 'viewer', resourceType: 'novel', resourceId: 'n1', role: 'viewer', grantedBy: 'owner' });
+    acl.grant({ userId: 'late', resourceType: 'novel', resourceId: 'n1', role: 'editor', grantedBy: 'owner', expiresAt: Date.now() - 1 });
+
+    // 过期条目在第一次检查时被清理，之后按无权限处理
+    expect(acl.checkNovel('late', 'n1', 'editChapter').reason).toBe('你对本作品的访问权限已过期，不能编辑章节');
+    expect(acl.checkNovel('late', 'n1', 'editChapter').reason).toBe('你没有本作品的访问权限，不能编辑章节');
+    expect(acl.checkNovel('viewer', 'n1', 'deleteChapter').reason).toBe('你在本作品中是「查看者」，不能删除章节');
+    expect(acl.checkNovel('viewer', 'n1', 'editChapter').allowed).toBe(false);
+    // 查看者可以批注
+    expect(acl.checkNovel('viewer', 'n1', 'comment').allowed).toBe(true);
+    expect(acl.checkNovel('stranger', 'n1', 'aiBatch').reason).toBe('你没有本作品的访问权限，不能批量处理章节');
+  });
+
+  it('should only let sharers grant roles below their own', () => {
+    acl.grant({ userId: 'admin', resourceType: 'novel', resourceId: 'n1', role: 'admin', grantedBy: 'owner' });
+    acl.grant({ userId: 'viewer', resourceType: 'novel', resourceId: 'n1', role: 'viewer', grantedBy: 'owner' });
+
+    expect(() => acl.grant({ userId: 'x', resourceType: 'novel', resourceId: 'n1', role: 'admin', grantedBy: 'admin' })).toThrow();
+    expect(acl.grant({ userId: 'x', resourceType: 'novel', resourceId: 'n1', role: 'editor', grantedBy: 'admin' }).role).toBe('editor');
+    expect(() => acl.grant({ userId: 'y', resourceType: 'novel', resourceId: 'n1', role: 'guest', grantedBy: 'viewer' })).toThrow();
+  });
+
+  it('should map novel fields to the actions they require', () => {
+    expect(getRequiredNovelActions({ characters: [] })).toEqual(['editCodex']);
+    expect(getRequiredNovelActions({ chapters: [], wordCount: 0 })).toEqual(['editChapter']);
+    expect(getRequiredNovelActions({ chapters: [], items: [] })).toEqual(['editChapter', 'editCodex']);
+    expect(getRequiredNovelActions({ comments: [] })).toEqual(['comment']);
+    expect(getRequiredNovelActions({ chapters: [], suggestions: [] })).toEqual(['editChapter', 'suggest']);
+  });
+});
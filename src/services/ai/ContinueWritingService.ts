@@ -56,7 +56,7 @@ export class ContinueWritingService {
     options: ContinueOptions
   ): Promise<ContinueResult[]> {
     // 构建智能上下文
-    const smartContext = await SmartContextBuilder.build(
+    const { context: smartContext, report } = await SmartContextBuilder.buildWithReport(
       novel,
       currentChapter,
       recentContent,
@@ -64,15 +64,12 @@ export class ContinueWritingService {
         includeWorldview: true,
         includeCharacters: true,
         includeForeshadowing: true,
-        includeRag: true,
-        recentContentLength: 3000,
-        ragTopK: 10
+        includeRag: true
       }
     );
 
-    // 获取上下文统计
-    const stats = SmartContextBuilder.getContextStats(smartContext);
-    console.log('[SmartContinue] 上下文统计:', stats);
+    // 上下文预算使用情况
+    console.log(`[SmartContinue] 上下文 ${report.usedTokens}/${report.budget} tokens:`, report.entries);
 
     // 使用智能上下文生成续写
     return this.generateMultiple(smartContext, options);
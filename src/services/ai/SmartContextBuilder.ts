@@ -2,20 +2,238 @@
  * @fileoverview 智能上下文构建器
  * @module services/ai/SmartContextBuilder
  * @description 为长篇小说续写构建三层智能上下文系统
+ *
+ * 上下文按目标模型的上下文窗口（PROVIDER_MODELS 中的 contextWindow）确定 token 预算，
+ * 候选材料按优先级依次放入：
+ * 1. 当前章节信息
+ * 2. 最近内容（先占预算的 40%，其余材料放完后再用剩余预算向前补充）
+ * 3. 最近内容中出场的人物、地点、道具
+ * 4. 高重要度的待回收伏笔
+ * 5. 近期章节的记忆摘要（NovelMemoryService）
+ * 6. 检索到的相关前文（RAG）
+ * 7. 与最近内容相关的长期记忆
+ * 8. 未出场的主要人物
+ * 9. 力量体系与主线剧情（作者维护的核心记忆）
+ * 10. 世界观
+ * 11. 一般重要度的待回收伏笔
+ *
+ * 放不下完整内容的材料改用摘要，摘要也放不下则省略，每一项的去留都记录在报告中。
  */
 
-import { Novel, Chapter, Character, Worldview, Foreshadowing } from '../../types';
-import { ragService } from '../rag/RagService';
+import { Novel, Chapter, Character, Worldview, Foreshadowing, Location, Item } from '../../types';
+import { getApiSettings, getModelContextWindow } from '../../config/apiConfig';
+import { AI_DEFAULTS } from '../../config/constants';
+import { UsageService } from '../usage/UsageService';
+import { ragService, type RetrievalResult } from '../rag/RagService';
+import { NovelMemoryService, type NovelMemory } from '../memory/NovelMemoryService';
 
 export interface SmartContextOptions {
   includeWorldview?: boolean;
   includeCharacters?: boolean;
   includeForeshadowing?: boolean;
   includeRag?: boolean;
+  /** 是否放入作品的分层记忆 */
+  includeMemory?: boolean;
+  /** 最近内容的字数上限，不设置时由预算决定 */
   recentContentLength?: number;
+  /** 检索片段数，不设置时按预算估算 */
   ragTopK?: number;
+  /** 目标服务商，默认取当前 API 设置 */
+  providerId?: string;
+  /** 目标模型，默认取当前 API 设置 */
+  modelId?: string;
+  /** 直接指定上下文预算（token），优先于按模型计算 */
+  tokenBudget?: number;
+  /** 为指令和生成结果预留的 token，默认为 AI_DEFAULTS.maxTokens + 1024 */
+  reservedTokens?: number;
 }
 
+/** 上下文中的材料类别 */
+export type ContextSection =
+  | 'current'
+  | 'recent'
+  | 'mentioned'
+  | 'foreshadowing'
+  | 'rag'
+  | 'memory'
+  | 'characters'
+  | 'worldview';
+
+/**
+ * 材料的去留
+ * - included: 完整放入
+ * - truncated: 只放入了一部分（最近内容从后往前截取）
+ * - summarized: 放入摘要
+ * - dropped: 预算不足或重复，未放入
+ */
+export type ContextEntryStatus = 'included' | 'truncated' | 'summarized' | 'dropped';
+
+export interface ContextReportEntry {
+  id: string;
+  section: ContextSection;
+  label: string;
+  status: ContextEntryStatus;
+  /** 入选原因，如“最近内容提到 3 次”“检索相关度 0.82” */
+  reason: string;
+  /** 实际占用的 token（估算） */
+  tokens: number;
+}
+
+export interface SmartContextReport {
+  providerId: string;
+  modelId: string;
+  /** 模型上下文窗口（token） */
+  contextWindow: number;
+  /** 本次上下文的 token 预算 */
+  budget: number;
+  /** 实际占用的 token（估算） */
+  usedTokens: number;
+  entries: ContextReportEntry[];
+}
+
+export interface SmartContextResult {
+  context: string;
+  report: SmartContextReport;
+}
+
+/**
+ * 候选材料
+ */
+interface ContextCandidate {
+  id: string;
+  section: ContextSection;
+  label: string;
+  reason: string;
+  /** 优先级，越小越先放入 */
+  priority: number;
+  /** 同一优先级内的顺序，越小越先放入 */
+  rank: number;
+  full: string;
+  summary?: string;
+}
+
+// ==================== 常量 ====================
+
+/** 超长上下文模型也不必整本塞入，避免费用和延迟失控 */
+const MAX_CONTEXT_TOKENS = 60000;
+const MIN_CONTEXT_TOKENS = 1024;
+
+/** 续写指令本身占用的 token */
+const PROMPT_RESERVE_TOKENS = 1024;
+
+/** 最近内容先占用的预算比例 */
+const RECENT_CONTENT_SHARE = 0.4;
+
+const PRIORITY = {
+  mentioned: 2,
+  foreshadowingHigh: 3,
+  memoryRecent: 4,
+  rag: 5,
+  memoryLongTerm: 6,
+  characters: 7,
+  memoryCore: 8,
+  worldview: 9,
+  foreshadowingMedium: 10,
+} as const;
+
+/** 最多放入的长期记忆条数 */
+const MAX_LONG_TERM_MEMORIES = 10;
+
+const MAIN_CHARACTER_ROLES = ['主角', '主要配角', '重要配角'];
+
+const HEADERS = {
+  core: '【核心设定】',
+  worldview: '\n世界观：',
+  mentioned: '\n近期出场：',
+  characters: '\n主要人物：',
+  memory: '【前情记忆】',
+  rag: '【相关剧情回顾（智能检索）】',
+  current: '【当前状态】',
+  foreshadowing: '\n待回收伏笔：',
+  recent: '\n最近内容：',
+};
+
+/** 所有分节标题及分隔符的 token 上限，预先从预算中扣除 */
+const HEADER_RESERVE_TOKENS = Object.values(HEADERS)
+  .reduce((sum, header) => sum + UsageService.estimateTokens(header) + 2, 0);
+
+const IMPORTANCE_ICONS: Record<Foreshadowing['importance'], string> = {
+  high: '⚠️',
+  medium: '📌',
+  low: '💡',
+};
+
+// ==================== 工具函数 ====================
+
+const countTokens = (text: string): number => UsageService.estimateTokens(text) + 1;
+
+/**
+ * 截断到指定字数，尽量停在句末
+ */
+const clipText = (text: string, maxChars: number): string => {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) return trimmed;
+  const cut = trimmed.slice(0, maxChars);
+  const sentenceEnd = Math.max(cut.lastIndexOf('。'), cut.lastIndexOf('！'), cut.lastIndexOf('？'));
+  return sentenceEnd >= maxChars * 0.6 ? cut.slice(0, sentenceEnd + 1) : `${cut}...`;
+};
+
+/**
+ * 名字在文中出现的次数，单字名容易误判，不统计
+ */
+const countMentions = (text: string, name: string): number => {
+  const trimmed = name?.trim();
+  if (!trimmed || trimmed.length < 2) return 0;
+  return text.split(trimmed).length - 1;
+};
+
+const describeCharacter = (char: Character, maxChars: number): string => {
+  const details = [
+    char.description,
+    char.personality && `性格：${char.personality}`,
+    char.appearance && `外貌：${char.appearance}`,
+  ].filter(Boolean).join('；');
+  return `- ${char.name}（${char.role}）：${clipText(details, maxChars)}`;
+};
+
+const describeLocation = (location: Location, maxChars: number): string => {
+  const details = [location.description, location.features].filter(Boolean).join('；');
+  return `- ${location.name}（${location.type}）：${clipText(details, maxChars)}`;
+};
+
+const describeItem = (item: Item, maxChars: number): string => {
+  const details = [item.description, item.effects && `效果：${item.effects}`].filter(Boolean).join('；');
+  return `- ${item.name}（${item.category || item.type}）：${clipText(details, maxChars)}`;
+};
+
+const describeWorldview = (worldview: Worldview, maxChars: number): string =>
+  `- ${worldview.title}：${clipText(worldview.content, maxChars)}`;
+
+/**
+ * 从后往前取完整段落；最后一段本身就放不下时取它的结尾
+ */
+const takeRecentParagraphs = (paragraphs: string[], maxTokens: number, maxChars: number): string[] => {
+  const result: string[] = [];
+  let tokens = 0;
+  let chars = 0;
+  for (let i = paragraphs.length - 1; i >= 0; i--) {
+    const para = paragraphs[i];
+    const paraTokens = countTokens(para);
+    if (tokens + paraTokens > maxTokens || chars + para.length + 1 > maxChars) {
+      if (result.length === 0) {
+        // 每个字至少 1/4 token、至多 1 token，按 token 数截字不会超出预算
+        const keep = Math.min(maxTokens - 1, maxChars);
+        if (keep > 0) result.unshift(para.slice(-keep));
+      }
+      break;
+    }
+    result.unshift(para);
+    tokens += paraTokens;
+    chars += para.length + 1;
+  }
+  return result;
+};
+
 export class SmartContextBuilder {
   /**
    * 构建智能上下文
@@ -26,222 +244,392 @@ export class SmartContextBuilder {
     recentContent: string,
     options: SmartContextOptions = {}
   ): Promise<string> {
+    const { context } = await this.buildWithReport(novel, currentChapter, recentContent, options);
+    return context;
+  }
+
+  /**
+   * 计算模型的上下文预算：上下文窗口减去指令和生成结果的预留
+   */
+  static getTokenBudget(
+    providerId: string,
+    modelId: string,
+    reservedTokens: number = AI_DEFAULTS.maxTokens + PROMPT_RESERVE_TOKENS
+  ): { contextWindow: number; budget: number } {
+    const contextWindow = getModelContextWindow(providerId, modelId);
+    const budget = Math.min(MAX_CONTEXT_TOKENS, Math.max(MIN_CONTEXT_TOKENS, contextWindow - reservedTokens));
+    return { contextWindow, budget };
+  }
+
+  /**
+   * 构建智能上下文，并返回每项材料的去留报告
+   */
+  static async buildWithReport(
+    novel: Novel,
+    currentChapter: Chapter,
+    recentContent: string,
+    options: SmartContextOptions = {}
+  ): Promise<SmartContextResult> {
+    const settings = getApiSettings();
     const {
       includeWorldview = true,
       includeCharacters = true,
       includeForeshadowing = true,
       includeRag = true,
-      recentContentLength = 3000,
-      ragTopK = 10
+      includeMemory = true,
+      recentContentLength = Infinity,
+      providerId = settings.provider,
+      modelId = settings.selectedModel,
     } = options;
 
-    const parts: string[] = [];
+    const { contextWindow, budget: modelBudget } = this.getTokenBudget(providerId, modelId, options.reservedTokens);
+    const budget = options.tokenBudget ?? modelBudget;
+    const entries: ContextReportEntry[] = [];
+    let remaining = budget - HEADER_RESERVE_TOKENS;
 
-    // 第一层：核心设定
-    if (includeWorldview || includeCharacters) {
-      const coreSettings = this.buildCoreSettings(novel, {
-        includeWorldview,
-        includeCharacters
-      });
-      if (coreSettings) parts.push(coreSettings);
+    // 当前章节信息
+    const currentLine = [
+      `\n当前章节：${currentChapter.title}`,
+      currentChapter.wordCount ? `字数：${currentChapter.wordCount}` : '',
+    ].filter(Boolean).join('\n');
+    remaining -= countTokens(currentLine);
+    entries.push({
+      id: `chapter:${currentChapter.id}`,
+      section: 'current',
+      label: currentChapter.title,
+      status: 'included',
+      reason: '正在续写的章节',
+      tokens: countTokens(currentLine),
+    });
+
+    // 最近内容：先占一部分预算，保证续写衔接
+    const paragraphs = recentContent.split('\n').map(p => p.trim()).filter(p => p.length > 0);
+    const initialRecent = takeRecentParagraphs(
+      paragraphs,
+      Math.floor(Math.max(0, remaining) * RECENT_CONTENT_SHARE),
+      recentContentLength
+    );
+    const initialRecentTokens = initialRecent.reduce((sum, p) => sum + countTokens(p), 0);
+    remaining -= initialRecentTokens;
+    const recentText = initialRecent.join('\n');
+
+    // 其余材料
+    const candidates: ContextCandidate[] = [];
+    if (includeCharacters) {
+      candidates.push(...this.collectEntityCandidates(novel, recentContent));
+    }
+    if (includeForeshadowing) {
+      candidates.push(...this.collectForeshadowingCandidates(novel));
+    }
+    if (includeMemory && novel.id) {
+      candidates.push(...this.collectMemoryCandidates(NovelMemoryService.sync(novel), novel, currentChapter, recentContent));
     }
-
-    // 第二层：RAG 检索
     if (includeRag && novel.id) {
-      const ragContext = await this.buildRagContext(
-        novel.id,
-        recentContent,
-        ragTopK
-      );
-      if (ragContext) parts.push(ragContext);
+      const topK = options.ragTopK ?? Math.min(30, Math.max(5, Math.floor(budget / 500)));
+      const results = await this.retrieve(novel, recentContent, topK);
+      candidates.push(...this.collectRagCandidates(results, recentText, entries));
+    }
+    if (includeWorldview) {
+      candidates.push(...(novel.worldviews ?? []).map((wv, i) => ({
+        id: `worldview:${wv.id}`,
+        section: 'worldview' as const,
+        label: wv.title,
+        reason: wv.category ? `世界观设定（${wv.category}）` : '世界观设定',
+        priority: PRIORITY.worldview,
+        rank: i,
+        full: describeWorldview(wv, 600),
+        summary: describeWorldview(wv, 100),
+      })));
     }
 
-    // 第三层：当前状态
-    const currentState = this.buildCurrentState(
-      novel,
-      currentChapter,
-      recentContent,
-      recentContentLength,
-      includeForeshadowing
-    );
-    if (currentState) parts.push(currentState);
+    const included = new Map<ContextSection, string[]>();
+    const include = (section: ContextSection, text: string) => {
+      included.set(section, [...(included.get(section) ?? []), text]);
+    };
 
-    return parts.join('\n\n');
+    candidates
+      .sort((a, b) => a.priority - b.priority || a.rank - b.rank)
+      .forEach(candidate => {
+        const fullTokens = countTokens(candidate.full);
+        const summaryTokens = candidate.summary && candidate.summary !== candidate.full
+          ? countTokens(candidate.summary)
+          : Infinity;
+        let status: ContextEntryStatus = 'dropped';
+        let tokens = 0;
+        if (fullTokens <= remaining) {
+          include(candidate.section, candidate.full);
+          status = 'included';
+          tokens = fullTokens;
+        } else if (summaryTokens <= remaining) {
+          include(candidate.section, candidate.summary!);
+          status = 'summarized';
+          tokens = summaryTokens;
+        }
+        remaining -= tokens;
+        entries.push({
+          id: candidate.id,
+          section: candidate.section,
+          label: candidate.label,
+          status,
+          reason: status === 'dropped' ? `${candidate.reason}；预算不足` : candidate.reason,
+          tokens,
+        });
+      });
+
+    // 剩余预算继续向前补充最近内容
+    const recent = takeRecentParagraphs(paragraphs, initialRecentTokens + Math.max(0, remaining), recentContentLength);
+    const recentTokens = recent.reduce((sum, p) => sum + countTokens(p), 0);
+    if (paragraphs.length > 0) {
+      entries.splice(1, 0, {
+        id: `recent:${currentChapter.id}`,
+        section: 'recent',
+        label: '最近内容',
+        status: recent.length === paragraphs.length && recent[0] === paragraphs[0] ? 'included' : 'truncated',
+        reason: `保留最近 ${recent.length}/${paragraphs.length} 段`,
+        tokens: recentTokens,
+      });
+    }
+
+    const context = this.assemble(included, currentLine, recent.join('\n'));
+    return {
+      context,
+      report: {
+        providerId,
+        modelId,
+        contextWindow,
+        budget,
+        usedTokens: UsageService.estimateTokens(context),
+        entries,
+      },
+    };
   }
 
   /**
-   * 第一层：核心设定
+   * 最近内容中出场的人物、地点、道具（按出现次数排序），以及未出场的主要人物
    */
-  private static buildCoreSettings(
-    novel: Novel,
-    options: { includeWorldview: boolean; includeCharacters: boolean }
-  ): string {
-    const parts: string[] = ['【核心设定】'];
-    let hasContent = false;
-
-    // 世界观
-    if (options.includeWorldview && novel.worldviews && novel.worldviews.length > 0) {
-      const topWorldviews = novel.worldviews.slice(0, 3);
-      parts.push('\n世界观：');
-      topWorldviews.forEach(wv => {
-        const content = wv.content.slice(0, 200);
-        parts.push(`- ${wv.title}: ${content}${content.length >= 200 ? '...' : ''}`);
+  private static collectEntityCandidates(novel: Novel, recentContent: string): ContextCandidate[] {
+    const candidates: ContextCandidate[] = [];
+    const mentioned = (id: string, label: string, kind: string, count: number, full: string, summary: string) => {
+      candidates.push({
+        id,
+        section: 'mentioned',
+        label,
+        reason: `${kind}，最近内容提到 ${count} 次`,
+        priority: PRIORITY.mentioned,
+        rank: -count,
+        full,
+        summary,
       });
-      hasContent = true;
-    }
+    };
 
-    // 主要人物
-    if (options.includeCharacters && novel.characters && novel.characters.length > 0) {
-      const mainChars = novel.characters
-        .filter(c => c.role === '主角' || c.role === '主要配角' || c.role === '重要配角')
-        .slice(0, 5);
-      
-      if (mainChars.length > 0) {
-        parts.push('\n主要人物：');
-        mainChars.forEach(char => {
-          const desc = char.description.slice(0, 100);
-          parts.push(`- ${char.name}（${char.role}）: ${desc}${desc.length >= 100 ? '...' : ''}`);
+    (novel.characters ?? []).forEach((char, i) => {
+      const count = countMentions(recentContent, char.name);
+      if (count > 0) {
+        mentioned(`character:${char.id}`, char.name, '人物', count, describeCharacter(char, 300), describeCharacter(char, 60));
+      } else if (MAIN_CHARACTER_ROLES.includes(char.role)) {
+        candidates.push({
+          id: `character:${char.id}`,
+          section: 'characters',
+          label: char.name,
+          reason: `${char.role}，最近未出场`,
+          priority: PRIORITY.characters,
+          rank: i,
+          full: describeCharacter(char, 100),
+          summary: describeCharacter(char, 40),
         });
-        hasContent = true;
       }
-    }
+    });
+    (novel.locations ?? []).forEach(location => {
+      const count = countMentions(recentContent, location.name);
+      if (count > 0) {
+        mentioned(`location:${location.id}`, location.name, '地点', count, describeLocation(location, 300), describeLocation(location, 60));
+      }
+    });
+    (novel.items ?? []).forEach(item => {
+      const count = countMentions(recentContent, item.name);
+      if (count > 0) {
+        mentioned(`item:${item.id}`, item.name, '道具', count, describeItem(item, 300), describeItem(item, 60));
+      }
+    });
 
-    return hasContent ? parts.join('\n') : '';
+    return candidates;
   }
 
   /**
-   * 第二层：RAG 检索
+   * 待回收伏笔：高重要度优先，低重要度不放入
    */
-  private static async buildRagContext(
-    novelId: string,
-    recentContent: string,
-    topK: number
-  ): Promise<string> {
-    try {
-      // 使用 RAG 服务检索相关内容
-      const results = ragService.searchContext(recentContent, novelId, topK);
-
-      if (results.length === 0) return '';
-
-      const parts: string[] = ['【相关剧情回顾（智能检索）】'];
-
-      // 按章节分组
-      const byChapter = new Map<string, Array<{ content: string; score: number }>>();
-      results.forEach(r => {
-        const key = r.entry.chapterTitle;
-        if (!byChapter.has(key)) {
-          byChapter.set(key, []);
-        }
-        byChapter.get(key)!.push({
-          content: r.entry.content,
-          score: r.score
-        });
+  private static collectForeshadowingCandidates(novel: Novel): ContextCandidate[] {
+    return (novel.foreshadowings ?? [])
+      .filter(f => f.status === 'planted' && f.importance !== 'low')
+      .map((f, i) => {
+        const icon = IMPORTANCE_ICONS[f.importance];
+        return {
+          id: `foreshadowing:${f.id}`,
+          section: 'foreshadowing' as const,
+          label: f.title,
+          reason: f.importance === 'high' ? '高重要度伏笔待回收' : '伏笔待回收',
+          priority: f.importance === 'high' ? PRIORITY.foreshadowingHigh : PRIORITY.foreshadowingMedium,
+          rank: i,
+          full: `${icon} ${f.title}: ${clipText(f.description, 200)}`,
+          summary: `${icon} ${f.title}`,
+        };
       });
-
-      // 格式化输出（限制总长度）
-      let totalLength = 0;
-      const maxLength = 2000;
-
-      for (const [chapterTitle, contents] of byChapter.entries()) {
-        if (totalLength >= maxLength) break;
-
-        parts.push(`\n[${chapterTitle}]`);
-        
-        for (const { content } of contents) {
-          if (totalLength >= maxLength) break;
-          
-          const preview = content.slice(0, 150);
-          parts.push(`  ${preview}${content.length > 150 ? '...' : ''}`);
-          totalLength += preview.length;
-        }
-      }
-
-      return parts.join('\n');
-    } catch (error) {
-      console.error('[SmartContext] RAG 检索失败:', error);
-      return '';
-    }
   }
 
   /**
-   * 第三层：当前状态
+   * 分层记忆：近期章节摘要（越近越先放入）、相关的长期记忆、力量体系和主线剧情
    */
-  private static buildCurrentState(
+  private static collectMemoryCandidates(
+    memory: NovelMemory,
     novel: Novel,
     currentChapter: Chapter,
-    recentContent: string,
-    maxLength: number,
-    includeForeshadowing: boolean
-  ): string {
-    const parts: string[] = ['【当前状态】'];
-
-    // 当前章节信息
-    parts.push(`\n当前章节：${currentChapter.title}`);
-    if (currentChapter.wordCount) {
-      parts.push(`字数：${currentChapter.wordCount}`);
-    }
+    recentContent: string
+  ): ContextCandidate[] {
+    const candidates: ContextCandidate[] = [];
+    // 只放入当前章节之前的记忆，修改前面的章节时不透露后面的剧情
+    const currentNumber = (novel.chapters ?? []).findIndex(c => c.id === currentChapter.id) + 1 || Infinity;
+    const isEarlier = (m: { chapterNumber: number; summary: string }) => m.chapterNumber < currentNumber && m.summary.trim().length > 0;
+    const chapterLine = (chapterNumber: number, chapterTitle: string | undefined, summary: string, maxChars: number) =>
+      NovelMemoryService.formatChapterLine(chapterNumber, chapterTitle, clipText(summary, maxChars));
+
+    memory.recent
+      .filter(isEarlier)
+      .forEach((m, i) => {
+        candidates.push({
+          id: `memory:${m.chapterId ?? m.chapterNumber}`,
+          section: 'memory',
+          label: m.chapterTitle || `第${m.chapterNumber}章`,
+          reason: m.edited ? '近期章节（作者修订的记忆）' : '近期章节',
+          priority: PRIORITY.memoryRecent,
+          rank: i,
+          full: chapterLine(m.chapterNumber, m.chapterTitle, m.summary, 300),
+          summary: chapterLine(m.chapterNumber, m.chapterTitle, m.summary, 80),
+        });
+      });
 
-    // 未解决的伏笔
-    if (includeForeshadowing && novel.foreshadowings) {
-      const pending = novel.foreshadowings
-        .filter(f => f.status === 'planted' && f.importance !== 'low')
-        .sort((a, b) => {
-          const importanceOrder = { high: 0, medium: 1, low: 2 };
-          return importanceOrder[a.importance] - importanceOrder[b.importance];
-        })
-        .slice(0, 5);
-
-      if (pending.length > 0) {
-        parts.push('\n待回收伏笔：');
-        pending.forEach(f => {
-          const desc = f.description.slice(0, 100);
-          const importance = f.importance === 'high' ? '⚠️' : f.importance === 'medium' ? '📌' : '💡';
-          parts.push(`${importance} ${f.title}: ${desc}${desc.length >= 100 ? '...' : ''}`);
+    NovelMemoryService.getRelevantLongTerm({ ...memory, longterm: memory.longterm.filter(isEarlier) }, recentContent, MAX_LONG_TERM_MEMORIES)
+      .forEach((m, i) => {
+        candidates.push({
+          id: `memory:${m.chapterId ?? m.chapterNumber}`,
+          section: 'memory',
+          label: m.chapterTitle || `第${m.chapterNumber}章`,
+          reason: `长期记忆（重要性 ${m.importance}）`,
+          priority: PRIORITY.memoryLongTerm,
+          rank: i,
+          full: chapterLine(m.chapterNumber, m.chapterTitle, m.summary, 200),
+          summary: chapterLine(m.chapterNumber, m.chapterTitle, m.summary, 60),
         });
-      }
-    }
+      });
 
-    // 最近内容（保留完整段落）
-    const recentParagraphs = this.extractRecentParagraphs(recentContent, maxLength);
-    if (recentParagraphs) {
-      parts.push('\n最近内容：');
-      parts.push(recentParagraphs);
+    const { powerSystem, mainPlot } = memory.core;
+    if (powerSystem.levels.length > 0) {
+      const rules = [...powerSystem.rules, ...powerSystem.limitations];
+      const levels = `力量体系：${powerSystem.levels.join(' → ')}`;
+      candidates.push({
+        id: 'memory:power-system',
+        section: 'memory',
+        label: '力量体系',
+        reason: '作者维护的核心记忆',
+        priority: PRIORITY.memoryCore,
+        rank: 0,
+        full: rules.length > 0 ? `${levels}（${clipText(rules.join('；'), 300)}）` : levels,
+        summary: levels,
+      });
+    }
+    if (mainPlot.length > 0) {
+      const lines = mainPlot.map(p => `第${p.chapterNumber}章：${p.description}`);
+      candidates.push({
+        id: 'memory:main-plot',
+        section: 'memory',
+        label: '主线剧情',
+        reason: '作者维护的核心记忆',
+        priority: PRIORITY.memoryCore,
+        rank: 1,
+        full: `主线剧情：\n${lines.join('\n')}`,
+        summary: `主线剧情：${clipText(lines.join('；'), 100)}`,
+      });
     }
 
-    return parts.join('\n');
+    return candidates;
   }
 
   /**
-   * 智能提取最近段落（保持完整性）
+   * 检索结果；与已放入的最近内容重复的片段直接记为省略
    */
-  private static extractRecentParagraphs(content: string, maxLength: number): string {
-    if (!content) return '';
-
-    const paragraphs = content
-      .split('\n')
-      .map(p => p.trim())
-      .filter(p => p.length > 0);
-
-    if (paragraphs.length === 0) return '';
-
-    let result: string[] = [];
-    let currentLength = 0;
-
-    // 从后往前取段落，保持完整性
-    for (let i = paragraphs.length - 1; i >= 0; i--) {
-      const para = paragraphs[i];
-      if (currentLength + para.length + 1 > maxLength) {
-        // 如果加上这段会超出，检查是否至少有一段
-        if (result.length === 0 && para.length <= maxLength) {
-          result.unshift(para);
-        }
-        break;
+  private static collectRagCandidates(
+    results: RetrievalResult[],
+    recentText: string,
+    entries: ContextReportEntry[]
+  ): ContextCandidate[] {
+    const candidates: ContextCandidate[] = [];
+    results.forEach((r, i) => {
+      const id = `rag:${r.entry.id}`;
+      const label = r.entry.summary ? `${r.entry.chapterTitle} 摘要` : `${r.entry.chapterTitle} #${r.entry.chunkIndex + 1}`;
+      const reason = `检索相关度 ${r.score.toFixed(2)}`;
+      if (recentText.includes(r.entry.content.trim().slice(0, 40))) {
+        entries.push({ id, section: 'rag', label, status: 'dropped', reason: `${reason}；与最近内容重复`, tokens: 0 });
+        return;
       }
-      result.unshift(para);
-      currentLength += para.length + 1; // +1 for newline
+      candidates.push({
+        id,
+        section: 'rag',
+        label,
+        reason,
+        priority: PRIORITY.rag,
+        rank: i,
+        full: `[${r.entry.chapterTitle}] ${r.entry.content.trim()}`,
+        summary: `[${r.entry.chapterTitle}] ${clipText(r.entry.content, 150)}`,
+      });
+    });
+    return candidates;
+  }
+
+  /**
+   * 检索相关前文
+   */
+  private static async retrieve(
+    novel: Novel,
+    recentContent: string,
+    topK: number
+  ): Promise<RetrievalResult[]> {
+    try {
+      // 先增量更新索引（只处理改动过的章节），再检索相关内容
+      await ragService.indexNovel(novel.id, novel.chapters ?? []);
+      return await ragService.searchContext(recentContent, novel.id, topK);
+    } catch (error) {
+      console.error('[SmartContext] RAG 检索失败:', error);
+      return [];
     }
+  }
+
+  /**
+   * 按三层结构拼装：核心设定、前情（记忆和检索到的前文）、当前状态
+   */
+  private static assemble(included: Map<ContextSection, string[]>, currentLine: string, recentText: string): string {
+    const parts: string[] = [];
+    const group = (header: string, section: ContextSection): string[] => {
+      const lines = included.get(section);
+      return lines && lines.length > 0 ? [header, ...lines] : [];
+    };
+
+    const core = [
+      ...group(HEADERS.worldview, 'worldview'),
+      ...group(HEADERS.mentioned, 'mentioned'),
+      ...group(HEADERS.characters, 'characters'),
+    ];
+    if (core.length > 0) parts.push([HEADERS.core, ...core].join('\n'));
 
-    return result.join('\n');
+    const memory = included.get('memory');
+    if (memory && memory.length > 0) parts.push([HEADERS.memory, ...memory].join('\n'));
+
+    const rag = included.get('rag');
+    if (rag && rag.length > 0) parts.push([HEADERS.rag, ...rag].join('\n'));
+
+    const current = [HEADERS.current, currentLine, ...group(HEADERS.foreshadowing, 'foreshadowing')];
+    if (recentText) current.push(HEADERS.recent, recentText);
+    parts.push(current.join('\n'));
+
+    return parts.join('\n\n');
   }
 
   /**
@@ -252,12 +640,17 @@ export class SmartContextBuilder {
     sections: { name: string; length: number }[];
   } {
     const sections: { name: string; length: number }[] = [];
-    
+
     const coreMatch = context.match(/【核心设定】([\s\S]*?)(?=【|$)/);
     if (coreMatch) {
       sections.push({ name: '核心设定', length: coreMatch[1].length });
     }
 
+    const memoryMatch = context.match(/【前情记忆】([\s\S]*?)(?=【|$)/);
+    if (memoryMatch) {
+      sections.push({ name: '前情记忆', length: memoryMatch[1].length });
+    }
+
     const ragMatch = context.match(/【相关剧情回顾（智能检索）】([\s\S]*?)(?=【|$)/);
     if (ragMatch) {
       sections.push({ name: 'RAG检索', length: ragMatch[1].length });
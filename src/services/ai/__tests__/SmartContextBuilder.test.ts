@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Chapter, Novel } from '../../../types';
+import { NovelMemoryService } from '../../memory/NovelMemoryService';
+import type { RetrievalResult } from '../../rag/RagService';
+import { UsageService } from '../../usage/UsageService';
+import { SmartContextBuilder } from '../SmartContextBuilder';
+
+const searchResults: RetrievalResult[] = [];
+
+vi.mock('../../rag/RagService', () => ({
+  ragService: {
+    indexNovel: vi.fn(async () => ({})),
+    searchContext: vi.fn(async () => searchResults),
+  },
+}));
+
+const chapter: Chapter = { id: 'c9', title: '第九章 夜探', content: '', wordCount: 3000 };
+
+const recentContent = [
+  '林凡握紧了玄铁剑，悄悄摸进青云宗的后山。',
+  ...Array.from({ length: 60 }, (_, i) => `第${i + 1}段：${'夜色如墨，山风呼啸。'.repeat(6)}`),
+  '林凡停下脚步，玄铁剑微微发烫。',
+].join('\n');
+
+const novel = {
+  id: 'n1',
+  title: '天道',
+  description: '',
+  wordCount: 0,
+  status: 'ongoing',
+  updatedAt: '',
+  tags: [],
+  chapters: [chapter],
+  characters: [
+    { id: 'ch1', name: '林凡', role: '主角', description: '出身寒微的少年剑修。', traits: [], createdAt: '' },
+    { id: 'ch2', name: '苏瑶', role: '主要配角', description: '青云宗大师姐，清冷寡言。'.repeat(10), traits: [], createdAt: '' },
+    { id: 'ch3', name: '路人甲', role: '龙套', description: '茶楼伙计。', traits: [], createdAt: '' },
+  ],
+  locations: [
+    { id: 'l1', name: '青云宗', type: '宗门', description: '东域第一剑宗。', createdAt: '' },
+    { id: 'l2', name: '万妖谷', type: '秘境', description: '妖兽盘踞之地。', createdAt: '' },
+  ],
+  items: [
+    { id: 'i1', name: '玄铁剑', type: 'weapon', description: '师父所赠的铁剑，遇妖则热。', createdAt: '' },
+  ],
+  worldviews: [
+    { id: 'w1', title: '修炼境界', category: '力量体系', content: '炼气、筑基、金丹、元婴。'.repeat(40), createdAt: '' },
+  ],
+  foreshadowings: [
+    {
+      id: 'f1', title: '剑中残魂', description: '玄铁剑里封着一缕残魂。', status: 'planted', importance: 'high',
+      relatedCharacters: [], notes: '', createdAt: '', updatedAt: '',
+    },
+    {
+      id: 'f2', title: '旧案', description: '林家灭门旧案。', status: 'planted', importance: 'low',
+      relatedCharacters: [], notes: '', createdAt: '', updatedAt: '',
+    },
+  ],
+} as Novel;
+
+const ragResult = (id: string, content: string, score: number): RetrievalResult => ({
+  entry: { id, novelId: 'n1', chapterId: 'c1', chapterTitle: '第一章 拜师', content, chunkIndex: 0, start: 0, end: content.length },
+  score,
+  keywordScore: score,
+  vectorScore: score,
+});
+
+describe('SmartContextBuilder', () => {
+  beforeEach(() => {
+    searchResults.length = 0;
+    localStorage.clear();
+  });
+
+  it('should derive the budget from the model context window', () => {
+    const small = SmartContextBuilder.getTokenBudget('moonshot', 'moonshot-v1-8k');
+    const large = SmartContextBuilder.getTokenBudget('openai', 'gpt-4o');
+
+    expect(small.contextWindow).toBe(8192);
+    expect(large.contextWindow).toBe(128000);
+    expect(small.budget).toBeLessThan(small.contextWindow);
+    expect(large.budget).toBeGreaterThan(small.budget);
+    expect(SmartContextBuilder.getTokenBudget('custom', 'unknown-model').contextWindow).toBe(8192);
+  });
+
+  it('should stay within the budget and report what was left out', async () => {
+    searchResults.push(ragResult('r1', '拜师那日，师父将玄铁剑交给林凡。', 0.9));
+    const { context, report } = await SmartContextBuilder.buildWithReport(novel, chapter, recentContent, { tokenBudget: 700 });
+
+    expect(report.usedTokens).toBeLessThanOrEqual(700);
+    expect(UsageService.estimateTokens(context)).toBe(report.usedTokens);
+    expect(context).toContain('林凡停下脚步');
+
+    const entry = (id: string) => report.entries.find(e => e.id === id);
+    expect(entry('recent:c9')?.status).toBe('truncated');
+    expect(entry('character:ch1')).toMatchObject({ section: 'mentioned', status: 'included' });
+    expect(entry('character:ch1')?.reason).toContain('提到 2 次');
+    expect(entry('location:l1')?.status).toBe('included');
+    expect(entry('item:i1')?.status).toBe('included');
+    expect(entry('location:l2')).toBeUndefined();
+    expect(entry('character:ch3')).toBeUndefined();
+    expect(entry('foreshadowing:f2')).toBeUndefined();
+    expect(entry('worldview:w1')?.status).toMatch(/summarized|dropped/);
+    report.entries.filter(e => e.status === 'dropped').forEach(e => expect(e.tokens).toBe(0));
+  });
+
+  it('should use spare budget on large-context models', async () => {
+    const small = await SmartContextBuilder.buildWithReport(novel, chapter, recentContent, { providerId: 'cohere', modelId: 'command' });
+    const large = await SmartContextBuilder.buildWithReport(novel, chapter, recentContent, { providerId: 'openai', modelId: 'gpt-4o' });
+
+    expect(small.report.usedTokens).toBeLessThanOrEqual(small.report.budget);
+    expect(large.report.usedTokens).toBeGreaterThan(small.report.usedTokens);
+    expect(large.report.entries.every(e => e.status === 'included')).toBe(true);
+    expect(large.context).toContain('炼气、筑基、金丹、元婴。');
+  });
+
+  it('should skip retrieved passages already in the recent content', async () => {
+    searchResults.push(ragResult('r1', '林凡停下脚步，玄铁剑微微发烫。', 0.95));
+    searchResults.push(ragResult('r2', '拜师那日，师父将玄铁剑交给林凡。', 0.6));
+    const { context, report } = await SmartContextBuilder.buildWithReport(novel, chapter, recentContent, { tokenBudget: 4000 });
+
+    expect(report.entries.find(e => e.id === 'rag:r1')).toMatchObject({ status: 'dropped' });
+    expect(report.entries.find(e => e.id === 'rag:r1')?.reason).toContain('与最近内容重复');
+    expect(context).toContain('【相关剧情回顾（智能检索）】\n[第一章 拜师] 拜师那日');
+  });
+
+  it('should include the novel memory of earlier chapters', async () => {
+    const withChapters = {
+      ...novel,
+      chapters: [
+        { id: 'c1', title: '第一章 拜师', content: '林凡拜入青云宗，师父赠他一柄玄铁剑。', wordCount: 18 },
+        { id: 'c2', title: '第二章 下山', content: '林凡奉命下山，在落霞镇遇到了苏瑶。', wordCount: 17 },
+        chapter,
+      ],
+    } as Novel;
+    NovelMemoryService.save(NovelMemoryService.updateCore(NovelMemoryService.sync(withChapters), {
+      powerSystem: { levels: ['炼气', '筑基', '金丹'], rules: [], limitations: [] },
+    }));
+
+    const { context, report } = await SmartContextBuilder.buildWithReport(withChapters, chapter, recentContent, { tokenBudget: 4000 });
+
+    expect(context).toContain('【前情记忆】\n[第二章 下山] 林凡奉命下山');
+    expect(context).toContain('力量体系：炼气 → 筑基 → 金丹');
+    expect(report.entries.find(e => e.id === 'memory:c1')).toMatchObject({ section: 'memory', status: 'included' });
+    expect(report.entries.find(e => e.id === 'memory:c9')).toBeUndefined();
+  });
+});
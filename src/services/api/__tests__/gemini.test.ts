@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiSettings } from '../../../config/apiConfig';
+import { ApiError, ErrorCode } from '../../../utils/errors';
+import { UsageService } from '../../usage/UsageService';
+import { membershipClient } from '../../membership/MembershipClient';
+import { createMockMembershipServer, type MockMembershipServer } from '../../membership/mockMembershipServer';
+import { registerProviderAdapter, type ProviderAdapter, type ProviderRequest } from '../providers';
+import { generateCreativeContent, generateCreativeContentStream, toApiError } from '../gemini';
+
+let mockSettings: ApiSettings;
+
+vi.mock('../../../config/apiConfig', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../config/apiConfig')>();
+  return {
+    ...actual,
+    getApiSettings: () => mockSettings,
+  };
+});
+
+const createAdapter = (id: string, stream: ProviderAdapter['stream']): ProviderAdapter => ({
+  id,
+  requiresBaseUrl: false,
+  generate: vi.fn(),
+  stream,
+});
+
+const FAST_RETRY = { initialDelay: 1, maxDelay: 5 };
+
+describe('generateCreativeContentStream', () => {
+  beforeEach(() => {
+    mockSettings = {
+      apiMode: 'custom',
+      provider: 'test-primary',
+      apiKey: 'primary-key',
+      selectedModel: 'primary-model',
+      customModels: [],
+    };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should retry rate-limited requests before succeeding', async () => {
+    const stream = vi.fn()
+      .mockRejectedValueOnce(new ApiError('rate limit', ErrorCode.API_RATE_LIMITED, 429))
+      .mockImplementationOnce(async (_req: ProviderRequest, onChunk: (text: string) => void) => {
+        onChunk('你好');
+      });
+    registerProviderAdapter('test-primary', createAdapter('test-primary', stream));
+
+    const chunks: string[] = [];
+    const result = await generateCreativeContentStream('p', (t) => chunks.push(t), 'primary-model', { retry: FAST_RETRY });
+
+    expect(result.interrupted).toBe(false);
+    expect(chunks).toEqual(['你好']);
+    expect(stream).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry invalid key errors', async () => {
+    const stream = vi.fn().mockRejectedValue(new ApiError('invalid api key', ErrorCode.API_INVALID_KEY, 401));
+    registerProviderAdapter('test-primary', createAdapter('test-primary', stream));
+
+    await expect(
+      generateCreativeContentStream('p', () => {}, 'primary-model', { retry: FAST_RETRY })
+    ).rejects.toMatchObject({ code: ErrorCode.API_INVALID_KEY });
+    expect(stream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should switch to the fallback provider after retries are exhausted', async () => {
+    const primary = vi.fn().mockRejectedValue(new ApiError('overloaded', ErrorCode.API_SERVER_ERROR, 503));
+    const fallback = vi.fn().mockImplementation(async (req: ProviderRequest, onChunk: (text: string) => void) => {
+      onChunk(`${req.model}:${req.apiKey}`);
+    });
+    registerProviderAdapter('test-primary', createAdapter('test-primary', primary));
+    registerProviderAdapter('test-fallback', createAdapter('test-fallback', fallback));
+    mockSettings.fallback = {
+      enabled: true,
+      provider: 'test-fallback',
+      model: 'fallback-model',
+      apiKey: 'fallback-key',
+    };
+
+    const chunks: string[] = [];
+    await generateCreativeContentStream('p', (t) => chunks.push(t), 'primary-model', {
+      retry: { ...FAST_RETRY, maxRetries: 1 },
+    });
+
+    expect(primary).toHaveBeenCalledTimes(2);
+    expect(chunks).toEqual(['fallback-model:fallback-key']);
+  });
+
+  it('should not retry once output has been emitted', async () => {
+    const stream = vi.fn().mockImplementation(async (_req: ProviderRequest, onChunk: (text: string) => void) => {
+      onChunk('部分');
+      throw new ApiError('overloaded', ErrorCode.API_SERVER_ERROR, 503);
+    });
+    registerProviderAdapter('test-primary', createAdapter('test-primary', stream));
+
+    await expect(
+      generateCreativeContentStream('p', () => {}, 'primary-model', { retry: FAST_RETRY })
+    ).rejects.toThrow();
+    expect(stream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not switch to the fallback provider after a stop', async () => {
+    const controller = new AbortController();
+    const primary = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    });
+    const fallback = vi.fn();
+    registerProviderAdapter('test-primary', createAdapter('test-primary', primary));
+    registerProviderAdapter('test-fallback', createAdapter('test-fallback', fallback));
+    mockSettings.fallback = { enabled: true, provider: 'test-fallback', apiKey: 'k', model: 'fallback-model' };
+
+    const result = await generateCreativeContentStream('p', () => {}, 'primary-model', {
+      retry: FAST_RETRY,
+      signal: controller.signal,
+    });
+
+    expect(result.interrupted).toBe(true);
+    expect(primary).toHaveBeenCalledTimes(1);
+    expect(fallback).not.toHaveBeenCalled();
+  });
+});
+
+describe('usage ledger', () => {
+  beforeEach(() => {
+    mockSettings = {
+      apiMode: 'custom',
+      provider: 'test-primary',
+      apiKey: 'primary-key',
+      selectedModel: 'primary-model',
+      customModels: [],
+    };
+  });
+
+  it('should record reported usage with feature and novel', async () => {
+    registerProviderAdapter('test-primary', createAdapter('test-primary', async (req, onChunk) => {
+      onChunk('你好');
+      req.onUsage?.({ promptTokens: 10, completionTokens: 2 });
+    }));
+
+    await generateCreativeContentStream('p', () => {}, 'primary-model', {
+      usage: { feature: 'continue_writing', novelId: 'novel-1' },
+    });
+
+    const [record] = UsageService.getRecords({ novelId: 'novel-1' });
+    expect(record).toMatchObject({
+      provider: 'test-primary',
+      feature: 'continue_writing',
+      promptTokens: 10,
+      completionTokens: 2,
+      estimated: false,
+    });
+  });
+
+  it('should estimate usage when the provider reports none', async () => {
+    registerProviderAdapter('test-primary', createAdapter('test-primary', async (_req, onChunk) => {
+      onChunk('天道酬勤');
+    }));
+
+    await generateCreativeContentStream('提示', () => {}, 'primary-model');
+
+    const [record] = UsageService.getRecords();
+    expect(record).toMatchObject({ feature: 'other', completionTokens: 4, estimated: true });
+  });
+
+  it('should refuse to call when the budget blocks', async () => {
+    const stream = vi.fn();
+    registerProviderAdapter('test-primary', createAdapter('test-primary', stream));
+    UsageService.setBudget({ dailyLimit: 0, novelLimit: 0.01, mode: 'block' });
+    UsageService.record({
+      provider: 'openai',
+      model: 'gpt-4o',
+      feature: 'chat',
+      novelId: 'novel-1',
+      usage: { promptTokens: 100_000, completionTokens: 0 },
+    });
+
+    await expect(
+      generateCreativeContentStream('p', () => {}, 'primary-model', { usage: { feature: 'chat', novelId: 'novel-1' } })
+    ).rejects.toMatchObject({ code: ErrorCode.API_QUOTA_EXCEEDED });
+    expect(stream).not.toHaveBeenCalled();
+  });
+});
+
+describe('membership mode', () => {
+  let server: MockMembershipServer;
+
+  beforeEach(() => {
+    mockSettings = {
+      apiMode: 'membership',
+      provider: 'google',
+      apiKey: '',
+      selectedModel: 'gpt-4o',
+      customModels: [],
+    };
+    server = createMockMembershipServer({ initialPoints: 2, reply: () => '会员回复' });
+    vi.stubGlobal('fetch', vi.fn(server.fetch));
+    membershipClient.setAuthToken(null);
+    membershipClient.setAuthToken(server.issueToken('member-1'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should stream through the membership backend and deduct points', async () => {
+    const charges: number[] = [];
+    const unsubscribe = membershipClient.onCharge((charge) => charges.push(charge.pointsCharged));
+
+    const chunks: string[] = [];
+    await generateCreativeContentStream('p', (t) => chunks.push(t), 'gemini-2.0-flash', {
+      usage: { feature: 'chat', novelId: 'novel-m' },
+    });
+    unsubscribe();
+
+    expect(chunks.join('')).toBe('会员回复');
+    expect(charges).toEqual([1]);
+    expect(server.getBalance('member-1')).toBe(1);
+    expect(UsageService.getRecords({ novelId: 'novel-m' })[0]).toMatchObject({ provider: 'membership', estimated: false });
+  });
+
+  it('should refuse when the balance cannot cover the model', async () => {
+    server.setBalance('member-1', 1);
+    mockSettings.selectedModel = 'tiandao-creative-pro';
+
+    await expect(generateCreativeContent('p')).rejects.toMatchObject({ code: ErrorCode.API_QUOTA_EXCEEDED });
+    expect(server.getBalance('member-1')).toBe(1);
+    expect(fetch).toHaveBeenCalledTimes(1); // 仅查询账户
+  });
+
+  it('should report a stop while checking the balance as cancellation, not a timeout', async () => {
+    const controller = new AbortController();
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      controller.abort();
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }));
+
+    const result = await generateCreativeContentStream('p', () => {}, 'gemini-2.0-flash', { signal: controller.signal });
+    expect(result.interrupted).toBe(true);
+  });
+});
+
+describe('toApiError', () => {
+  it('should classify raw provider errors', () => {
+    expect(toApiError(new Error('HTTP 429 Too Many Requests')).code).toBe(ErrorCode.API_RATE_LIMITED);
+    expect(toApiError(new Error('invalid api key')).code).toBe(ErrorCode.API_INVALID_KEY);
+    expect(toApiError(new Error('请求超时（300秒）')).code).toBe(ErrorCode.NETWORK_TIMEOUT);
+  });
+});
@@ -5,11 +5,13 @@
  * @version 1.0.0
  *
  * @features
- * - 支持多种 API 提供商配置
+ * - 支持多种 API 提供商配置（按服务商适配器分发，见 ./providers）
  * - 流式文本生成
  * - 请求超时控制
- * - 重试机制
- * - 会员模式和自定义模式切换
+ * - 重试机制（指数退避，遵循 Retry-After）与备用服务商切换
+ * - 失败以 ApiError / NetworkError 抛出，不再写入生成内容
+ * - 会员模式和自定义模式切换（会员模式经 MembershipClient 调用平台 API 并扣除积分）
+ * - 每次调用的 token 用量写入用量账本（UsageService），并在调用前检查预算
  *
  * @example
  * // 测试 API 连接
@@ -24,69 +26,20 @@
  * const response = await generateContent(prompt);
  */
 
-import { GoogleGenAI } from "@google/genai";
-import { ApiSettings, getApiSettings, API_PROVIDERS, MEMBERSHIP_API_CONFIG, isMembershipMode } from '../../config/apiConfig';
-
-// ==================== 超时控制 ====================
-
-/** 默认请求超时时间（毫秒） */
-const DEFAULT_TIMEOUT_MS = 60000; // 60 秒
-
-/** 流式请求超时时间（毫秒） - 较长因为流式需要持续读取 */
-const STREAM_TIMEOUT_MS = 300000; // 5 分钟
-
-/** 连接测试超时时间（毫秒） */
-const TEST_TIMEOUT_MS = 15000; // 15 秒
-
-/**
- * 创建带超时的 AbortController
- */
-const createTimeoutController = (timeoutMs: number = DEFAULT_TIMEOUT_MS): {
-  controller: AbortController;
-  timeoutId: ReturnType<typeof setTimeout>;
-  clear: () => void;
-} => {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => {
-    controller.abort(new Error(`请求超时（${timeoutMs / 1000}秒）`));
-  }, timeoutMs);
-
-  return {
-    controller,
-    timeoutId,
-    clear: () => clearTimeout(timeoutId),
-  };
-};
-
-/**
- * 带超时的 fetch 封装
- */
-const fetchWithTimeout = async (
-  url: string,
-  options: RequestInit,
-  timeoutMs: number = DEFAULT_TIMEOUT_MS
-): Promise<Response> => {
-  const { controller, clear } = createTimeoutController(timeoutMs);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    return response;
-  } finally {
-    clear();
-  }
-};
+import { ApiSettings, getApiSettings, API_PROVIDERS, MEMBERSHIP_API_CONFIG, getProviderDisplayName } from '../../config/apiConfig';
+import { AppError, ApiError, NetworkError, ErrorCode, RetryConfig, withRetry } from '../../utils/errors';
+import { UsageService } from '../usage/UsageService';
+import type { AiFeature, TokenUsage } from '../../types/usage';
+import { membershipClient, getModelPointsCost, MEMBERSHIP_PROVIDER_ID } from '../membership/MembershipClient';
+import { getProviderAdapter, TEST_TIMEOUT_MS } from './providers';
+import type { ProviderRequest } from './providers';
 
 // 获取有效的 API Key
 const getEffectiveApiKey = (): string => {
   const settings = getApiSettings();
 
-  // 会员模式：使用平台 API（暂时返回空，等待后端配置）
+  // 会员模式：由 membershipClient 使用会话令牌鉴权，不需要 API Key
   if (settings.apiMode === 'membership') {
-    // TODO: 从用户会话中获取会员 token 或使用平台统一的 API 认证
-    // 目前返回空字符串，会提示用户会员服务即将上线
     return '';
   }
 
@@ -102,9 +55,11 @@ const getEffectiveApiKey = (): string => {
 const getEffectiveModel = (defaultModel: string): string => {
   const settings = getApiSettings();
 
-  // 会员模式：使用平台提供的模型
+  // 会员模式：使用平台提供的模型，选中的不是平台模型时使用默认模型
   if (settings.apiMode === 'membership') {
-    return settings.selectedModel || MEMBERSHIP_API_CONFIG.defaultModel;
+    return MEMBERSHIP_API_CONFIG.models.some(m => m.id === settings.selectedModel)
+      ? settings.selectedModel
+      : MEMBERSHIP_API_CONFIG.defaultModel;
   }
 
   // 自定义模式：如果用户选择了模型，使用用户的选择
@@ -133,112 +88,354 @@ const getProviderBaseUrl = (provider: string, customBaseUrl?: string): string =>
   return '';
 };
 
-// 检查会员模式可用性
-const checkMembershipAvailability = (): { available: boolean; message: string } => {
-  // TODO: 实现会员状态检查逻辑
-  // 目前会员服务尚未上线，返回不可用
-  return {
-    available: false,
-    message: "会员服务即将上线，敬请期待。目前请使用自定义 API 模式。"
-  };
-};
+// ==================== 错误归一化 ====================
 
-const handleGeminiError = (error: any): string => {
-  console.error("API Error:", error);
-  if (!error) return "未知错误。";
+/** 已归一化的错误，避免重试/切换过程中重复包装 */
+const normalizedErrors = new WeakSet<AppError>();
 
+/**
+ * 根据状态码和错误信息判断错误类型，给出面向用户的提示
+ */
+const classifyError = (error: any): { code: ErrorCode; message: string } => {
   // 获取完整的错误信息
-  const errorStr = error.message || error.toString() || '';
+  const errorStr: string = error?.message || error?.toString() || '';
   const msg = errorStr.toLowerCase();
+  const status: number | undefined = error instanceof ApiError ? error.statusCode : undefined;
 
-  // 超时错误（优先检测）
-  if (error.name === 'AbortError' || msg.includes('abort') || msg.includes('超时') || msg.includes('timeout')) {
-    return "请求超时，请检查网络连接或稍后重试。";
+  // 超时错误（优先检测）：调用方主动中止的请求已在 runWithFallback 中原样抛出，这里只剩内部超时控制器的中止
+  if (error?.name === 'AbortError' || msg.includes('abort') || msg.includes('超时') || msg.includes('timeout')) {
+    return { code: ErrorCode.NETWORK_TIMEOUT, message: "请求超时，请检查网络连接或稍后重试。" };
   }
 
-  // 更详细的错误处理 - 注意：配额和频率限制错误需要优先检测，防止被 "api key" 检测误捕获
+  // 注意：配额和频率限制错误需要优先检测，防止被 "api key" 检测误捕获
+
+  // 会员积分不足
+  if (status === 402 || msg.includes("insufficient_points") || msg.includes("积分不足")) {
+    return { code: ErrorCode.API_QUOTA_EXCEEDED, message: "会员积分不足，请充值或切换到自定义 API 模式。" };
+  }
 
   // 配额相关错误（优先检测，因为可能包含 "api key" 字样）
-  if (msg.includes("quota") || msg.includes("resource_exhausted") || msg.includes("insufficient_quota") || msg.includes("exceeded")) {
-    return "API 配额已用尽。请检查你的账户配额，或等待配额重置后再试。";
+  if (msg.includes("quota") || msg.includes("insufficient_quota") || msg.includes("exceeded")) {
+    return { code: ErrorCode.API_QUOTA_EXCEEDED, message: "API 配额已用尽。请检查你的账户配额，或等待配额重置后再试。" };
   }
 
-  // 频率限制错误（优先检测）
-  if (msg.includes("rate limit") || msg.includes("too many requests") || msg.includes("429")) {
-    return "请求过于频繁，请稍后再试。";
+  // 频率限制错误（Gemini 的 RESOURCE_EXHAUSTED 也属于限流）
+  if (status === 429 || msg.includes("rate limit") || msg.includes("too many requests") || msg.includes("429") || msg.includes("resource_exhausted")) {
+    return { code: ErrorCode.API_RATE_LIMITED, message: "请求过于频繁，请稍后再试。" };
+  }
+
+  // 服务端错误 / 过载
+  if ((status !== undefined && status >= 500) || msg.includes("overloaded") || msg.includes("unavailable") || /\b50[0234]\b/.test(msg)) {
+    return { code: ErrorCode.API_SERVER_ERROR, message: "AI 服务暂时不可用，请稍后重试。" };
   }
 
   // API Key 相关错误
-  if (msg.includes("api_key_invalid") || msg.includes("api key not valid") || msg.includes("invalid api key") || msg.includes("unauthorized") || msg.includes("401")) {
-    return "API Key 无效，请检查是否正确输入。";
+  if (status === 401 || msg.includes("api_key_invalid") || msg.includes("api key not valid") || msg.includes("invalid api key") || msg.includes("unauthorized") || msg.includes("401")) {
+    return { code: ErrorCode.API_INVALID_KEY, message: "API Key 无效，请检查是否正确输入。" };
   }
   if (msg.includes("api key") || msg.includes("apikey")) {
-    return "API Key 缺失或无效，请在设置中配置正确的 API Key。";
+    return { code: ErrorCode.API_INVALID_KEY, message: "API Key 缺失或无效，请在设置中配置正确的 API Key。" };
   }
   if (msg.includes("safety") || msg.includes("content_filter")) {
-    return "内容被安全过滤器拦截，请尝试更温和的描述。";
+    return { code: ErrorCode.API_CONTENT_FILTERED, message: "内容被安全过滤器拦截，请尝试更温和的描述。" };
   }
-  if (msg.includes("not found") || msg.includes("404") || msg.includes("model_not_found")) {
-    return "模型不存在或不可用，请检查模型名称是否正确。";
+  if (status === 404 || msg.includes("not found") || msg.includes("404") || msg.includes("model_not_found")) {
+    return { code: ErrorCode.API_MODEL_NOT_FOUND, message: "模型不存在或不可用，请检查模型名称是否正确。" };
   }
-  if (msg.includes("permission") || msg.includes("403") || msg.includes("forbidden")) {
-    return "没有权限访问该 API，请检查 API Key 的权限设置。";
+  if (status === 403 || msg.includes("permission") || msg.includes("403") || msg.includes("forbidden")) {
+    return { code: ErrorCode.AUTH_PERMISSION_DENIED, message: "没有权限访问该 API，请检查 API Key 的权限设置。" };
   }
-  if (msg.includes("network") || msg.includes("fetch") || msg.includes("connection") || msg.includes("econnrefused") || msg.includes("timeout")) {
-    return "网络连接错误，请检查网络设置或 API 地址是否正确。";
+  if (msg.includes("network") || msg.includes("fetch") || msg.includes("connection") || msg.includes("econnrefused")) {
+    return { code: ErrorCode.NETWORK_ERROR, message: "网络连接错误，请检查网络设置或 API 地址是否正确。" };
   }
   if (msg.includes("cors")) {
-    return "跨域请求被拒绝，请检查 API 配置。";
+    return { code: ErrorCode.NETWORK_ERROR, message: "跨域请求被拒绝，请检查 API 配置。" };
   }
 
   // 显示原始错误的前200字符，帮助调试
-  return `生成异常: ${errorStr.slice(0, 200)}`;
+  return { code: ErrorCode.API_ERROR, message: `生成异常: ${errorStr.slice(0, 200)}` };
 };
 
-// OpenAI 兼容 API 调用（用于 SiliconFlow、OpenAI、DeepSeek 等）
-const callOpenAICompatibleAPI = async (
-  baseUrl: string,
-  apiKey: string,
-  model: string,
-  messages: { role: string; content: string }[],
-  options?: { temperature?: number; max_tokens?: number; stream?: boolean; timeoutMs?: number }
-): Promise<Response> => {
-  const timeoutMs = options?.stream ? STREAM_TIMEOUT_MS : (options?.timeoutMs ?? DEFAULT_TIMEOUT_MS);
-
-  const response = await fetchWithTimeout(
-    `${baseUrl}/chat/completions`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        temperature: options?.temperature ?? 0.8,
-        max_tokens: options?.max_tokens,
-        stream: options?.stream ?? false,
-      }),
+/**
+ * 调用方中止时抛出的错误：保留 AbortError，不归一化为超时
+ */
+const toAbortError = (signal: AbortSignal, error?: unknown): Error => {
+  if (error instanceof Error && error.name === 'AbortError') return error;
+  if (signal.reason instanceof Error && signal.reason.name === 'AbortError') return signal.reason;
+  return new DOMException('请求已取消', 'AbortError');
+};
+
+/** 可重试的 API 错误码 */
+const RETRYABLE_CODES = new Set<ErrorCode>([
+  ErrorCode.API_RATE_LIMITED,
+  ErrorCode.API_SERVER_ERROR,
+]);
+
+/**
+ * 将任意错误转换为带错误码的 ApiError / NetworkError
+ *
+ * 面向用户的中文提示放在 message 中，原始错误保留在 cause。
+ */
+export const toApiError = (
+  error: unknown,
+  context?: { provider?: string; model?: string }
+): AppError => {
+  if (error instanceof AppError && normalizedErrors.has(error)) {
+    return error;
+  }
+
+  const { code, message } = classifyError(error);
+  const cause = error instanceof Error ? error : undefined;
+  const options = {
+    cause,
+    context: { ...context, detail: cause?.message ?? String(error) },
+  };
+
+  const normalized = code === ErrorCode.NETWORK_ERROR || code === ErrorCode.NETWORK_TIMEOUT
+    ? new NetworkError(message, code, options)
+    : new ApiError(message, code, error instanceof ApiError ? error.statusCode : undefined, {
+        ...options,
+        retryable: RETRYABLE_CODES.has(code),
+        retryAfterMs: error instanceof ApiError ? error.retryAfterMs : undefined,
+      });
+
+  normalizedErrors.add(normalized);
+  return normalized;
+};
+
+// ==================== 重试与备用服务商 ====================
+
+/**
+ * AI 调用的默认重试策略：指数退避，优先遵循服务端 Retry-After
+ */
+export const AI_RETRY_CONFIG: Partial<RetryConfig> = {
+  maxRetries: 3,
+  initialDelay: 1000,
+  maxDelay: 60000,
+  backoffMultiplier: 2,
+  jitter: true,
+  retryCondition: (error) => error instanceof AppError && error.retryable,
+  getRetryDelay: (error) => (error instanceof ApiError ? error.retryAfterMs : undefined),
+};
+
+/**
+ * 一次生成的目标（服务商 + 模型 + 凭据）
+ */
+interface GenerationTarget {
+  provider: string;
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+}
+
+/**
+ * 解析主目标和备用目标
+ */
+const resolveTargets = (settings: ApiSettings, modelName: string): GenerationTarget[] => {
+  // 自定义模式：使用用户配置的 API
+  const apiKey = settings.apiKey || getEffectiveApiKey();
+  if (!apiKey) {
+    throw new ApiError("请先在设置中配置 API Key。", ErrorCode.API_INVALID_KEY);
+  }
+
+  const provider = settings.provider || 'google';
+  const baseUrl = getProviderBaseUrl(provider, settings.baseUrl);
+  if (getProviderAdapter(provider).requiresBaseUrl && !baseUrl) {
+    throw new ApiError("请配置 API Base URL。", ErrorCode.API_ERROR);
+  }
+
+  const targets: GenerationTarget[] = [
+    { provider, model: getEffectiveModel(modelName), apiKey, baseUrl },
+  ];
+
+  const fallback = settings.fallback;
+  if (fallback?.enabled && fallback.model && fallback.apiKey) {
+    const fallbackBaseUrl = API_PROVIDERS.find(p => p.id === fallback.provider)?.baseUrl || fallback.baseUrl || '';
+    if (!getProviderAdapter(fallback.provider).requiresBaseUrl || fallbackBaseUrl) {
+      targets.push({
+        provider: fallback.provider,
+        model: fallback.model,
+        apiKey: fallback.apiKey,
+        baseUrl: fallbackBaseUrl,
+      });
+    }
+  }
+
+  return targets;
+};
+
+/**
+ * 依次尝试各目标：每个目标内按重试策略重试，仍失败则切换到下一个
+ *
+ * @param canRetry 返回 false 时不再重试或切换（例如流式输出已有内容）
+ */
+const runWithFallback = async <T>(
+  targets: GenerationTarget[],
+  run: (target: GenerationTarget) => Promise<T>,
+  options: { signal?: AbortSignal; retry?: Partial<RetryConfig>; canRetry?: () => boolean } = {}
+): Promise<T> => {
+  const canRetry = options.canRetry ?? (() => true);
+  let lastError: AppError | undefined;
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+    try {
+      return await withRetry(
+        async () => {
+          try {
+            return await run(target);
+          } catch (error) {
+            if (options.signal?.aborted) throw toAbortError(options.signal, error);
+            throw toApiError(error, { provider: target.provider, model: target.model });
+          }
+        },
+        {
+          ...AI_RETRY_CONFIG,
+          ...options.retry,
+          signal: options.signal,
+          retryCondition: (error) => canRetry() && !!AI_RETRY_CONFIG.retryCondition?.(error),
+        }
+      );
+    } catch (error) {
+      // 用户中止（包括重试等待期间中止）不是超时，也不再切换备用服务商
+      if (options.signal?.aborted) {
+        throw toAbortError(options.signal, error);
+      }
+      lastError = toApiError(error, { provider: target.provider, model: target.model });
+      if (!canRetry()) {
+        throw lastError;
+      }
+      if (i < targets.length - 1) {
+        const next = targets[i + 1];
+        console.warn(`[AI] ${target.provider}/${target.model} 调用失败，切换到备用 ${next.provider}/${next.model}:`, lastError.message);
+      }
+    }
+  }
+
+  throw lastError ?? new ApiError('没有可用的 AI 服务', ErrorCode.API_ERROR);
+};
+
+/**
+ * 构造适配器请求
+ */
+const buildRequest = (target: GenerationTarget, request: Omit<ProviderRequest, 'apiKey' | 'baseUrl' | 'model'>): ProviderRequest => ({
+  ...request,
+  apiKey: target.apiKey,
+  baseUrl: target.baseUrl,
+  model: target.model,
+});
+
+/**
+ * 用量归属：写入用量账本的功能和作品
+ */
+export interface UsageTag {
+  feature: AiFeature;
+  novelId?: string;
+}
+
+/**
+ * 调用前检查用量预算，超出且设置为阻止时抛出
+ */
+const ensureWithinBudget = (tag?: UsageTag): void => {
+  const check = UsageService.checkBudget({ novelId: tag?.novelId });
+  if (!check.allowed) {
+    throw new ApiError(check.message || 'AI 用量已超出预算', ErrorCode.API_QUOTA_EXCEEDED);
+  }
+  if (check.exceeded) {
+    console.warn('[AI] 用量超出预算:', check.message);
+  }
+};
+
+/**
+ * 写入用量账本，服务商未返回用量时按字数估算
+ */
+const recordUsage = (
+  target: GenerationTarget,
+  tag: UsageTag | undefined,
+  usage: TokenUsage | undefined,
+  promptText: string,
+  outputText: string
+): void => {
+  UsageService.record({
+    provider: target.provider,
+    model: target.model,
+    feature: tag?.feature ?? 'other',
+    novelId: tag?.novelId,
+    usage: usage ?? {
+      promptTokens: UsageService.estimateTokens(promptText),
+      completionTokens: UsageService.estimateTokens(outputText),
     },
-    timeoutMs
-  );
-  return response;
+    estimated: !usage,
+  });
 };
 
+/**
+ * 准备生成目标
+ *
+ * 会员模式只有平台一个目标，调用前检查积分余额（不足时抛出 API_QUOTA_EXCEEDED）；
+ * 自定义模式检查用量预算并解析主目标和备用目标。
+ */
+const prepareTargets = async (
+  settings: ApiSettings,
+  modelName: string,
+  tag?: UsageTag,
+  signal?: AbortSignal
+): Promise<GenerationTarget[]> => {
+  if (settings.apiMode === 'membership') {
+    const model = getEffectiveModel(modelName);
+    try {
+      await membershipClient.ensureBalance(model, signal);
+    } catch (error) {
+      if (signal?.aborted) throw toAbortError(signal, error);
+      // 积分不足、未登录等错误已带有面向用户的提示
+      throw error instanceof AppError ? error : toApiError(error, { provider: MEMBERSHIP_PROVIDER_ID, model });
+    }
+    return [{ provider: MEMBERSHIP_PROVIDER_ID, model, apiKey: '', baseUrl: MEMBERSHIP_API_CONFIG.baseUrl }];
+  }
+
+  ensureWithinBudget(tag);
+  return resolveTargets(settings, modelName);
+};
+
+/**
+ * 按目标分发普通生成：会员目标走 membershipClient（附带用量归属，服务端据此记录扣费），其余走服务商适配器
+ */
+const generateWithTarget = (target: GenerationTarget, request: ProviderRequest, tag?: UsageTag): Promise<string> =>
+  target.provider === MEMBERSHIP_PROVIDER_ID
+    ? membershipClient.generate({ ...request, ...tag })
+    : getProviderAdapter(target.provider).generate(request);
+
+/**
+ * 按目标分发流式生成
+ */
+const streamWithTarget = (
+  target: GenerationTarget,
+  request: ProviderRequest,
+  onChunk: (text: string) => void,
+  tag?: UsageTag
+): Promise<void> =>
+  target.provider === MEMBERSHIP_PROVIDER_ID
+    ? membershipClient.stream({ ...request, ...tag }, onChunk)
+    : getProviderAdapter(target.provider).stream(request, onChunk);
+
 // 测试 API 连接
 export const testApiConnection = async (): Promise<{ success: boolean; message: string; model?: string }> => {
   try {
     const settings = getApiSettings();
 
-    // 会员模式：检查会员服务可用性
+    // 会员模式：查询会员账户
     if (settings.apiMode === 'membership') {
-      const membershipStatus = checkMembershipAvailability();
-      if (!membershipStatus.available) {
-        return { success: false, message: membershipStatus.message };
+      const model = getEffectiveModel(MEMBERSHIP_API_CONFIG.defaultModel);
+      try {
+        const account = await membershipClient.getAccount();
+        return {
+          success: true,
+          message: `会员服务连接成功！当前积分 ${account.points}，模型 ${model} 每次调用消耗 ${getModelPointsCost(model)} 积分。`,
+          model,
+        };
+      } catch (error) {
+        return { success: false, message: error instanceof AppError ? error.message : toApiError(error).message };
       }
-      // TODO: 会员模式的连接测试逻辑
-      return { success: false, message: "会员服务即将上线，请使用自定义 API 模式。" };
     }
 
     // 自定义模式：使用用户配置的 API
@@ -250,261 +447,160 @@ export const testApiConnection = async (): Promise<{ success: boolean; message:
 
     const model = settings.selectedModel || 'gemini-2.0-flash';
     const provider = settings.provider || 'google';
+    const adapter = getProviderAdapter(provider);
 
-    // Google Gemini API
-    if (provider === 'google') {
-      const ai = new GoogleGenAI({ apiKey });
-      const response = await ai.models.generateContent({
-        model: model,
-        contents: "Hello, please respond with just 'OK' to confirm connection.",
-        config: {
-          temperature: 0.1,
-          maxOutputTokens: 10,
-        }
-      });
-
-      if (response.text) {
-        return {
-          success: true,
-          message: `连接成功！Google Gemini 模型 ${model} 响应正常。`,
-          model: model
-        };
-      }
-      return { success: false, message: "连接成功但未收到响应。" };
-    }
-
-    // OpenAI 兼容 API（SiliconFlow、OpenAI、DeepSeek、自定义）
     const baseUrl = getProviderBaseUrl(provider, settings.baseUrl);
-    if (!baseUrl) {
+    if (adapter.requiresBaseUrl && !baseUrl) {
       return { success: false, message: "请配置 API Base URL。" };
     }
 
-    const response = await callOpenAICompatibleAPI(
-      baseUrl,
+    const content = await adapter.generate({
       apiKey,
+      baseUrl,
       model,
-      [{ role: 'user', content: 'Hello, please respond with just "OK" to confirm connection.' }],
-      { temperature: 0.1, max_tokens: 10, timeoutMs: TEST_TIMEOUT_MS }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const errorMsg = errorData.error?.message || errorData.message || `HTTP ${response.status}`;
-      throw new Error(errorMsg);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+      prompt: 'Hello, please respond with just "OK" to confirm connection.',
+      temperature: 0.1,
+      maxTokens: 10,
+      timeoutMs: TEST_TIMEOUT_MS,
+    });
 
     if (content) {
-      const providerName = provider === 'siliconflow' ? '硅基流动' :
-                          provider === 'openai' ? 'OpenAI' :
-                          provider === 'deepseek' ? 'DeepSeek' : '自定义服务商';
       return {
         success: true,
-        message: `连接成功！${providerName} 模型 ${model} 响应正常。`,
+        message: `连接成功！${getProviderDisplayName(provider)} 模型 ${model} 响应正常。`,
         model: model
       };
     }
     return { success: false, message: "连接成功但未收到响应。" };
 
   } catch (error: any) {
-    const errorMsg = handleGeminiError(error);
-    return { success: false, message: errorMsg };
+    console.error("API Error:", error);
+    return { success: false, message: toApiError(error).message };
   }
 };
 
+/**
+ * 普通生成
+ *
+ * @throws {ApiError | NetworkError} 重试和备用服务商均失败时抛出
+ */
 export const generateCreativeContent = async (
   prompt: string,
   modelName: string = 'gemini-2.0-flash',
-  systemInstruction?: string
+  systemInstruction?: string,
+  usageTag?: UsageTag
 ): Promise<string> => {
-  try {
-    const settings = getApiSettings();
-
-    // 会员模式：检查会员服务可用性
-    if (settings.apiMode === 'membership') {
-      const membershipStatus = checkMembershipAvailability();
-      if (!membershipStatus.available) {
-        return `⚠️ [天道提示] ${membershipStatus.message}`;
-      }
-      // TODO: 会员模式的 API 调用逻辑
-      return "⚠️ [天道提示] 会员服务即将上线，请使用自定义 API 模式。";
-    }
-
-    // 自定义模式：使用用户配置的 API
-    const apiKey = settings.apiKey || getEffectiveApiKey();
-
-    if (!apiKey) {
-      return "⚠️ [天道提示] 请先在设置中配置 API Key。";
-    }
-
-    const effectiveModel = getEffectiveModel(modelName);
-    const provider = settings.provider || 'google';
-
-    // Google Gemini API
-    if (provider === 'google') {
-      const ai = new GoogleGenAI({ apiKey });
-      const response = await ai.models.generateContent({
-        model: effectiveModel,
-        contents: prompt,
-        config: {
-          systemInstruction,
-          temperature: 0.8,
-          topP: 0.95,
-        }
-      });
-      return response.text || "生成无内容。";
-    }
-
-    // OpenAI 兼容 API
-    const baseUrl = getProviderBaseUrl(provider, settings.baseUrl);
-    if (!baseUrl) {
-      return "⚠️ [天道提示] 请配置 API Base URL。";
-    }
-
-    const messages: { role: string; content: string }[] = [];
-    if (systemInstruction) {
-      messages.push({ role: 'system', content: systemInstruction });
-    }
-    messages.push({ role: 'user', content: prompt });
+  const settings = getApiSettings();
+  const targets = await prepareTargets(settings, modelName, usageTag);
 
-    const response = await callOpenAICompatibleAPI(baseUrl, apiKey, effectiveModel, messages, {
+  const text = await runWithFallback(targets, async (target) => {
+    let usage: TokenUsage | undefined;
+    const result = await generateWithTarget(target, buildRequest(target, {
+      prompt,
+      systemInstruction,
       temperature: 0.8,
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || `HTTP ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.choices?.[0]?.message?.content || "生成无内容。";
-
-  } catch (error) {
-    return `⚠️ [天道提示] ${handleGeminiError(error)}`;
-  }
+      topP: 0.95,
+      onUsage: (u) => { usage = u; },
+    }), usageTag);
+    recordUsage(target, usageTag, usage, `${systemInstruction ?? ''}${prompt}`, result);
+    return result;
+  });
+  return text || "生成无内容。";
 };
 
 export interface GenerateOptions {
   temperature?: number;
   maxTokens?: number | 'unlimited';
   systemInstruction?: string;
+  /** 取消信号：中止后停止生成，已输出的内容保留 */
+  signal?: AbortSignal;
+  /** 覆盖默认重试策略（如批量任务调大重试次数，或通过 onRetry 显示重试状态） */
+  retry?: Partial<RetryConfig>;
+  /** 用量归属，未指定时记为“其他” */
+  usage?: UsageTag;
+}
+
+/**
+ * 流式生成结果
+ */
+export interface StreamGenerateResult {
+  /** 是否被用户中止（已通过 onChunk 输出的部分内容保留） */
+  interrupted: boolean;
 }
 
+/**
+ * 流式生成
+ *
+ * 在尚未输出任何内容前遇到可恢复错误会自动重试，并在需要时切换到备用服务商；
+ * 已经输出部分内容后出错则直接抛出，避免重复内容。
+ *
+ * @throws {ApiError | NetworkError} 生成失败时抛出（用户中止不抛出，返回 interrupted）
+ */
 export const generateCreativeContentStream = async (
   prompt: string,
   onChunk: (text: string) => void,
   modelName: string = 'gemini-2.0-flash',
   options?: GenerateOptions
-) => {
-  try {
-    const settings = getApiSettings();
-
-    // 会员模式：检查会员服务可用性
-    if (settings.apiMode === 'membership') {
-      const membershipStatus = checkMembershipAvailability();
-      if (!membershipStatus.available) {
-        onChunk(`⚠️ [天道提示] ${membershipStatus.message}`);
-        return;
-      }
-      // TODO: 会员模式的流式 API 调用逻辑
-      onChunk("⚠️ [天道提示] 会员服务即将上线，请使用自定义 API 模式。");
-      return;
-    }
-
-    // 自定义模式：使用用户配置的 API
-    const apiKey = settings.apiKey || getEffectiveApiKey();
-
-    if (!apiKey) {
-      onChunk("⚠️ [天道提示] 请先在设置中配置 API Key。");
-      return;
-    }
-
-    const effectiveModel = getEffectiveModel(modelName);
-    const provider = settings.provider || 'google';
-    const temperature = options?.temperature ?? 0.85;
-    const maxOutputTokens = options?.maxTokens === 'unlimited' ? undefined : options?.maxTokens;
-
-    // Google Gemini API
-    if (provider === 'google') {
-      const ai = new GoogleGenAI({ apiKey });
-      const stream = await ai.models.generateContentStream({
-        model: effectiveModel,
-        contents: prompt,
-        config: {
-          systemInstruction: options?.systemInstruction,
-          temperature,
-          maxOutputTokens,
-        }
-      });
-
-      for await (const chunk of stream) {
-        if (chunk.text) {
-          onChunk(chunk.text);
-        }
-      }
-      return;
-    }
-
-    // OpenAI 兼容 API 流式输出
-    const baseUrl = getProviderBaseUrl(provider, settings.baseUrl);
-    if (!baseUrl) {
-      onChunk("⚠️ [天道提示] 请配置 API Base URL。");
-      return;
-    }
-
-    const messages: { role: string; content: string }[] = [];
-    if (options?.systemInstruction) {
-      messages.push({ role: 'system', content: options.systemInstruction });
-    }
-    messages.push({ role: 'user', content: prompt });
+): Promise<StreamGenerateResult> => {
+  const signal = options?.signal;
+  if (signal?.aborted) {
+    return { interrupted: true };
+  }
 
-    const response = await callOpenAICompatibleAPI(baseUrl, apiKey, effectiveModel, messages, {
-      temperature,
-      max_tokens: maxOutputTokens,
-      stream: true,
-    });
+  const settings = getApiSettings();
+  let targets: GenerationTarget[];
+  try {
+    targets = await prepareTargets(settings, modelName, options?.usage, signal);
+  } catch (error) {
+    // 查询会员余额期间中止
+    if (signal?.aborted) return { interrupted: true };
+    throw error;
+  }
+  const temperature = options?.temperature ?? 0.85;
+  const maxOutputTokens = options?.maxTokens === 'unlimited' ? undefined : options?.maxTokens;
+  let output = '';
+  let activeTarget: GenerationTarget | undefined;
+  let usage: TokenUsage | undefined;
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || `HTTP ${response.status}`);
-    }
+  try {
+    await runWithFallback(
+      targets,
+      (target) => {
+        activeTarget = target;
+        usage = undefined;
+        return streamWithTarget(
+          target,
+          buildRequest(target, {
+            prompt,
+            systemInstruction: options?.systemInstruction,
+            temperature,
+            maxTokens: maxOutputTokens,
+            signal,
+            onUsage: (u) => { usage = u; },
+          }),
+          (text) => {
+            // 中止后可能还有已到达的数据块，不再输出
+            if (signal?.aborted) return;
+            output += text;
+            onChunk(text);
+          },
+          options?.usage
+        );
+      },
+      { signal, retry: options?.retry, canRetry: () => !output }
+    );
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('无法读取响应流');
+    return { interrupted: !!signal?.aborted };
+  } catch (error) {
+    // 用户中止不是错误
+    if (signal?.aborted) {
+      return { interrupted: true };
     }
-
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed || trimmed === 'data: [DONE]') continue;
-        if (trimmed.startsWith('data: ')) {
-          try {
-            const json = JSON.parse(trimmed.slice(6));
-            const content = json.choices?.[0]?.delta?.content;
-            if (content) {
-              onChunk(content);
-            }
-          } catch {
-            // 忽略解析错误
-          }
-        }
-      }
+    throw toApiError(error);
+  } finally {
+    // 中止或中途失败时已输出的部分同样计费
+    if (activeTarget && (usage || output)) {
+      recordUsage(activeTarget, options?.usage, usage, `${options?.systemInstruction ?? ''}${prompt}`, output);
     }
-
-  } catch (error) {
-    onChunk(`\n\n⚠️ [天道提示]: ${handleGeminiError(error)}`);
   }
 };
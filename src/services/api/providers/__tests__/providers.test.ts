@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  getProviderAdapter,
+  registerProviderAdapter,
+  anthropicSpec,
+  cohereSpec,
+  openaiSpec,
+  anthropicAdapter,
+  cohereAdapter,
+  openaiAdapter,
+  googleAdapter,
+} from '../index';
+import type { ProviderAdapter, ProviderRequest } from '../types';
+
+const baseRequest: ProviderRequest = {
+  apiKey: 'sk-test',
+  baseUrl: 'https://example.com/v1',
+  model: 'test-model',
+  prompt: '写一段开头',
+  systemInstruction: '你是网文作者',
+  temperature: 0.7,
+};
+
+/** 构造逐块返回的流式响应 */
+const streamResponse = (chunks: string[]): Response => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+};
+
+describe('providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('getProviderAdapter', () => {
+    it('应该为 google/anthropic/cohere 返回原生适配器', () => {
+      expect(getProviderAdapter('google')).toBe(googleAdapter);
+      expect(getProviderAdapter('anthropic')).toBe(anthropicAdapter);
+      expect(getProviderAdapter('cohere')).toBe(cohereAdapter);
+    });
+
+    it('未注册的服务商应该使用 OpenAI 兼容适配器', () => {
+      expect(getProviderAdapter('deepseek')).toBe(openaiAdapter);
+      expect(getProviderAdapter('custom')).toBe(openaiAdapter);
+    });
+
+    it('应该支持注册新的适配器', () => {
+      const adapter: ProviderAdapter = {
+        id: 'myvendor',
+        requiresBaseUrl: false,
+        generate: vi.fn(),
+        stream: vi.fn(),
+      };
+      registerProviderAdapter('myvendor', adapter);
+      expect(getProviderAdapter('myvendor')).toBe(adapter);
+    });
+  });
+
+  describe('openaiSpec', () => {
+    it('应该构造 /chat/completions 请求', () => {
+      const { url, headers, body } = openaiSpec.buildRequest(baseRequest, true);
+      expect(url).toBe('https://example.com/v1/chat/completions');
+      expect(headers.Authorization).toBe('Bearer sk-test');
+      expect(body.messages).toEqual([
+        { role: 'system', content: '你是网文作者' },
+        { role: 'user', content: '写一段开头' },
+      ]);
+      expect(body.stream).toBe(true);
+    });
+
+    it('应该解析 SSE 增量', () => {
+      expect(openaiSpec.parseStreamLine('data: {"choices":[{"delta":{"content":"你好"}}]}')).toBe('你好');
+      expect(openaiSpec.parseStreamLine('data: [DONE]')).toBeNull();
+    });
+
+    it('应该解析响应和最后数据块中的用量', () => {
+      expect(openaiSpec.parseUsage?.({ usage: { prompt_tokens: 12, completion_tokens: 34 } }))
+        .toEqual({ promptTokens: 12, completionTokens: 34 });
+      expect(openaiSpec.parseStreamUsage?.('data: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":6}}'))
+        .toEqual({ promptTokens: 5, completionTokens: 6 });
+      expect(openaiSpec.parseStreamUsage?.('data: {"choices":[{"delta":{"content":"你"}}]}')).toBeNull();
+    });
+  });
+
+  describe('anthropicSpec', () => {
+    it('应该使用 /messages 与 x-api-key 鉴权', () => {
+      const { url, headers, body } = anthropicSpec.buildRequest(baseRequest, false);
+      expect(url).toBe('https://example.com/v1/messages');
+      expect(headers['x-api-key']).toBe('sk-test');
+      expect(headers['anthropic-version']).toBeDefined();
+      expect(headers.Authorization).toBeUndefined();
+      expect(body.system).toBe('你是网文作者');
+      expect(body.messages).toEqual([{ role: 'user', content: '写一段开头' }]);
+      expect(body.max_tokens).toBeGreaterThan(0);
+    });
+
+    it('应该拼接 content 中的文本块', () => {
+      const text = anthropicSpec.parseResponse({
+        content: [{ type: 'text', text: '天' }, { type: 'text', text: '道' }],
+      });
+      expect(text).toBe('天道');
+    });
+
+    it('应该只解析 content_block_delta 事件', () => {
+      expect(anthropicSpec.parseStreamLine('event: content_block_delta')).toBeNull();
+      expect(anthropicSpec.parseStreamLine(
+        'data: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"剑"}}'
+      )).toBe('剑');
+      expect(anthropicSpec.parseStreamLine('data: {"type":"message_stop"}')).toBeNull();
+    });
+
+    it('流式错误事件应该抛出', () => {
+      expect(() => anthropicSpec.parseStreamLine(
+        'data: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}'
+      )).toThrow('Overloaded');
+    });
+
+    it('应该映射鉴权错误', () => {
+      const message = anthropicSpec.parseError(401, {
+        type: 'error',
+        error: { type: 'authentication_error', message: 'invalid x-api-key' },
+      });
+      expect(message.toLowerCase()).toContain('invalid api key');
+    });
+  });
+
+  describe('cohereSpec', () => {
+    it('应该使用 /chat 与 preamble', () => {
+      const { url, body } = cohereSpec.buildRequest(baseRequest, true);
+      expect(url).toBe('https://example.com/v1/chat');
+      expect(body.message).toBe('写一段开头');
+      expect(body.preamble).toBe('你是网文作者');
+    });
+
+    it('应该解析 NDJSON 事件', () => {
+      expect(cohereSpec.parseStreamLine('{"is_finished":false,"event_type":"stream-start"}')).toBeNull();
+      expect(cohereSpec.parseStreamLine('{"is_finished":false,"event_type":"text-generation","text":"云"}')).toBe('云');
+    });
+  });
+
+  describe('createHttpAdapter', () => {
+    it('Anthropic 流式应该跨块拼接并输出文本', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(streamResponse([
+        'event: message_start\ndata: {"type":"message_start"}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"青"}}\n',
+        '\nevent: content_block_delta\ndata: {"type":"content_block_de',
+        'lta","delta":{"type":"text_delta","text":"云"}}\n\n',
+      ]));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const chunks: string[] = [];
+      await anthropicAdapter.stream(baseRequest, chunk => chunks.push(chunk));
+
+      expect(chunks.join('')).toBe('青云');
+      expect(fetchMock.mock.calls[0][0]).toBe('https://example.com/v1/messages');
+    });
+
+    it('Cohere 流式应该输出 text-generation 文本', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+        '{"event_type":"stream-start"}\n{"event_type":"text-generation","text":"山"}\n',
+        '{"event_type":"text-generation","text":"河"}\n{"event_type":"stream-end","finish_reason":"COMPLETE"}',
+      ])));
+
+      const chunks: string[] = [];
+      await cohereAdapter.stream(baseRequest, chunk => chunks.push(chunk));
+
+      expect(chunks.join('')).toBe('山河');
+    });
+
+    it('Anthropic 流式应该合并 message_start 与 message_delta 中的用量', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+        'data: {"type":"message_start","message":{"usage":{"input_tokens":20,"output_tokens":1}}}\n',
+        'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"月"}}\n',
+        'data: {"type":"message_delta","usage":{"output_tokens":8}}\n',
+      ])));
+
+      const onUsage = vi.fn();
+      await anthropicAdapter.stream({ ...baseRequest, onUsage }, () => {});
+
+      expect(onUsage).toHaveBeenCalledTimes(1);
+      expect(onUsage).toHaveBeenCalledWith({ promptTokens: 20, completionTokens: 8 });
+    });
+
+    it('Cohere 流式应该从 stream-end 读取用量', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse([
+        '{"event_type":"text-generation","text":"山"}\n',
+        '{"event_type":"stream-end","finish_reason":"COMPLETE","response":{"meta":{"billed_units":{"input_tokens":3,"output_tokens":4}}}}',
+      ])));
+
+      const onUsage = vi.fn();
+      await cohereAdapter.stream({ ...baseRequest, onUsage }, () => {});
+
+      expect(onUsage).toHaveBeenCalledWith({ promptTokens: 3, completionTokens: 4 });
+    });
+
+    it('中止信号应该停止读取流', async () => {
+      const encoder = new TextEncoder();
+      const controller = new AbortController();
+      const body = new ReadableStream<Uint8Array>({
+        pull(streamController) {
+          // 模拟持续输出的长流
+          streamController.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"字"}}]}\n'));
+        },
+      });
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+
+      const chunks: string[] = [];
+      const promise = openaiAdapter.stream({ ...baseRequest, signal: controller.signal }, chunk => {
+        chunks.push(chunk);
+        if (chunks.length === 3) controller.abort();
+      });
+
+      await expect(promise).rejects.toBeDefined();
+      expect(chunks.length).toBeGreaterThanOrEqual(3);
+      expect(chunks.length).toBeLessThan(10);
+    });
+
+    it('已中止的信号应该传递给 fetch', async () => {
+      const fetchMock = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+        expect(init.signal?.aborted).toBe(true);
+        return Promise.reject(new DOMException('Aborted', 'AbortError'));
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const controller = new AbortController();
+      controller.abort();
+      await expect(openaiAdapter.generate({ ...baseRequest, signal: controller.signal })).rejects.toThrow();
+    });
+
+    it('非 2xx 响应应该抛出适配器映射的错误', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(
+        JSON.stringify({ message: 'invalid api token' }),
+        { status: 401 }
+      )));
+
+      await expect(cohereAdapter.generate(baseRequest)).rejects.toThrow('invalid api key');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Anthropic Claude 原生接口适配器
+ * @module services/api/providers/anthropicAdapter
+ * @description 使用 Messages API（/messages），x-api-key 鉴权，解析 content_block_delta 流式事件
+ */
+
+import { createHttpAdapter, stripSseData } from './httpAdapter';
+import type { HttpProviderSpec } from './types';
+
+/** Anthropic API 版本 */
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+
+/** Messages API 要求必填 max_tokens，未指定时使用该值 */
+const DEFAULT_MAX_TOKENS = 8192;
+
+export const anthropicSpec: HttpProviderSpec = {
+  id: 'anthropic',
+
+  buildRequest: (request, stream) => ({
+    url: `${request.baseUrl}/messages`,
+    headers: {
+      'x-api-key': request.apiKey,
+      'anthropic-version': ANTHROPIC_API_VERSION,
+      // 浏览器直连需要显式声明
+      'anthropic-dangerous-direct-browser-access': 'true',
+    },
+    body: {
+      model: request.model,
+      system: request.systemInstruction,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: request.temperature ?? 0.8,
+      top_p: request.topP,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream,
+    },
+  }),
+
+  parseResponse: (data) => {
+    const blocks: { type: string; text?: string }[] = data.content || [];
+    return blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+  },
+
+  parseStreamLine: (line) => {
+    const payload = stripSseData(line);
+    if (!payload) return null;
+    const json = JSON.parse(payload);
+    if (json.type === 'error') {
+      throw new Error(json.error?.message || 'Anthropic 流式响应错误');
+    }
+    if (json.type === 'content_block_delta' && json.delta?.type === 'text_delta') {
+      return json.delta.text || null;
+    }
+    return null;
+  },
+
+  parseError: (status, data) => {
+    const type: string | undefined = data?.error?.type;
+    const message: string = data?.error?.message || `HTTP ${status}`;
+    // 错误类型映射为通用关键字，便于上层统一处理
+    if (type === 'authentication_error') return `invalid api key: ${message}`;
+    if (type === 'rate_limit_error') return `rate limit: ${message}`;
+    if (type === 'overloaded_error') return `HTTP 529 overloaded: ${message}`;
+    if (type === 'not_found_error') return `model_not_found: ${message}`;
+    if (type === 'permission_error') return `permission denied: ${message}`;
+    return message;
+  },
+
+  parseUsage: (data) => data.usage
+    ? { promptTokens: data.usage.input_tokens ?? 0, completionTokens: data.usage.output_tokens ?? 0 }
+    : null,
+
+  parseStreamUsage: (line) => {
+    const payload = stripSseData(line);
+    if (!payload) return null;
+    const json = JSON.parse(payload);
+    // message_start 携带输入用量，message_delta 携带累计输出用量
+    if (json.type === 'message_start' && json.message?.usage) {
+      return { promptTokens: json.message.usage.input_tokens ?? 0 };
+    }
+    if (json.type === 'message_delta' && json.usage) {
+      return { completionTokens: json.usage.output_tokens ?? 0 };
+    }
+    return null;
+  },
+};
+
+export const anthropicAdapter = createHttpAdapter(anthropicSpec);
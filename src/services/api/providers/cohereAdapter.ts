@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Cohere 原生接口适配器
+ * @module services/api/providers/cohereAdapter
+ * @description 使用 Chat API（/chat），流式响应为逐行 JSON 事件（text-generation / stream-end）
+ */
+
+import { createHttpAdapter, stripSseData } from './httpAdapter';
+import type { TokenUsage } from '../../../types/usage';
+import type { HttpProviderSpec } from './types';
+
+const toUsage = (meta: any): TokenUsage | null => {
+  const units = meta?.billed_units;
+  if (!units) return null;
+  return {
+    promptTokens: units.input_tokens ?? 0,
+    completionTokens: units.output_tokens ?? 0,
+  };
+};
+
+export const cohereSpec: HttpProviderSpec = {
+  id: 'cohere',
+
+  buildRequest: (request, stream) => ({
+    url: `${request.baseUrl}/chat`,
+    headers: {
+      'Authorization': `Bearer ${request.apiKey}`,
+    },
+    body: {
+      model: request.model,
+      message: request.prompt,
+      preamble: request.systemInstruction,
+      temperature: request.temperature ?? 0.8,
+      p: request.topP,
+      max_tokens: request.maxTokens,
+      stream,
+    },
+  }),
+
+  parseResponse: (data) => data.text || '',
+
+  parseStreamLine: (line) => {
+    // v1 为 NDJSON，兼容部分网关转成 SSE 的情况
+    const payload = stripSseData(line) ?? line;
+    const json = JSON.parse(payload);
+    if (json.event_type === 'text-generation') {
+      return json.text || null;
+    }
+    if (json.event_type === 'stream-end' && json.finish_reason === 'ERROR') {
+      throw new Error(json.response?.text || 'Cohere 流式响应错误');
+    }
+    return null;
+  },
+
+  parseError: (status, data) => {
+    const message: string = data?.message || `HTTP ${status}`;
+    if (status === 401) return `invalid api key: ${message}`;
+    if (status === 429) return `rate limit: ${message}`;
+    return message;
+  },
+
+  parseUsage: (data) => toUsage(data.meta),
+
+  parseStreamUsage: (line) => {
+    const payload = stripSseData(line) ?? line;
+    const json = JSON.parse(payload);
+    if (json.event_type !== 'stream-end') return null;
+    return toUsage(json.response?.meta);
+  },
+};
+
+export const cohereAdapter = createHttpAdapter(cohereSpec);
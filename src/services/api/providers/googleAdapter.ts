@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Google Gemini 适配器
+ * @module services/api/providers/googleAdapter
+ * @description 通过 @google/genai SDK 调用，不需要 Base URL
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import type { ProviderAdapter, ProviderRequest } from './types';
+
+type UsageMetadata = { promptTokenCount?: number; candidatesTokenCount?: number } | undefined;
+
+const reportUsage = (request: ProviderRequest, metadata: UsageMetadata): void => {
+  if (!metadata) return;
+  request.onUsage?.({
+    promptTokens: metadata.promptTokenCount ?? 0,
+    completionTokens: metadata.candidatesTokenCount ?? 0,
+  });
+};
+
+export const googleAdapter: ProviderAdapter = {
+  id: 'google',
+  requiresBaseUrl: false,
+
+  generate: async (request) => {
+    const ai = new GoogleGenAI({ apiKey: request.apiKey });
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: request.prompt,
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        topP: request.topP,
+        maxOutputTokens: request.maxTokens,
+        abortSignal: request.signal,
+      }
+    });
+    reportUsage(request, response.usageMetadata);
+    return response.text || '';
+  },
+
+  stream: async (request, onChunk) => {
+    const ai = new GoogleGenAI({ apiKey: request.apiKey });
+    const stream = await ai.models.generateContentStream({
+      model: request.model,
+      contents: request.prompt,
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        topP: request.topP,
+        maxOutputTokens: request.maxTokens,
+        abortSignal: request.signal,
+      }
+    });
+
+    // 每个数据块都带累计用量，取最后一个
+    let usageMetadata: UsageMetadata;
+    for await (const chunk of stream) {
+      if (request.signal?.aborted) {
+        throw request.signal.reason ?? new DOMException('Aborted', 'AbortError');
+      }
+      if (chunk.usageMetadata) {
+        usageMetadata = chunk.usageMetadata;
+      }
+      if (chunk.text) {
+        onChunk(chunk.text);
+      }
+    }
+    reportUsage(request, usageMetadata);
+  },
+};
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview HTTP 服务商适配器工厂
+ * @module services/api/providers/httpAdapter
+ * @description 提供超时控制、流式逐行读取，并将 HttpProviderSpec 组装成 ProviderAdapter
+ */
+
+import { ApiError, apiErrorCodeFromStatus, parseRetryAfter } from '../../../utils/errors';
+import type { TokenUsage } from '../../../types/usage';
+import type { HttpProviderSpec, ProviderAdapter, ProviderRequest } from './types';
+
+// ==================== 超时控制 ====================
+
+/** 默认请求超时时间（毫秒） */
+export const DEFAULT_TIMEOUT_MS = 60000; // 60 秒
+
+/** 流式请求超时时间（毫秒） - 较长因为流式需要持续读取 */
+export const STREAM_TIMEOUT_MS = 300000; // 5 分钟
+
+/** 连接测试超时时间（毫秒） */
+export const TEST_TIMEOUT_MS = 15000; // 15 秒
+
+/**
+ * 创建带超时的 AbortController
+ */
+const createTimeoutController = (timeoutMs: number = DEFAULT_TIMEOUT_MS): {
+  controller: AbortController;
+  timeoutId: ReturnType<typeof setTimeout>;
+  clear: () => void;
+} => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    controller.abort(new Error(`请求超时（${timeoutMs / 1000}秒）`));
+  }, timeoutMs);
+
+  return {
+    controller,
+    timeoutId,
+    clear: () => clearTimeout(timeoutId),
+  };
+};
+
+/**
+ * 带超时的 fetch 封装
+ *
+ * 传入 signal 时，外部中止会同时中止请求和后续的响应体读取。
+ */
+export const fetchWithTimeout = async (
+  url: string,
+  options: RequestInit,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const { controller, clear } = createTimeoutController(timeoutMs);
+
+  if (signal) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+    } else {
+      signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    }
+  }
+
+  try {
+    const response = await fetch(url, {
+      ...options,
+      signal: controller.signal,
+    });
+    return response;
+  } finally {
+    clear();
+  }
+};
+
+// ==================== 流式读取 ====================
+
+/**
+ * 按行读取响应流
+ *
+ * SSE（OpenAI / Anthropic）和 NDJSON（Cohere）都是按行分隔的，
+ * 具体每行的含义交给适配器解析。
+ */
+export const readStreamLines = async (
+  response: Response,
+  onLine: (line: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('无法读取响应流');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    if (signal?.aborted) {
+      await reader.cancel().catch(() => undefined);
+      throw signal.reason ?? new DOMException('Aborted', 'AbortError');
+    }
+
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed) onLine(trimmed);
+    }
+  }
+
+  const rest = (buffer + decoder.decode()).trim();
+  if (rest) onLine(rest);
+};
+
+/**
+ * 去掉 SSE 行的 `data:` 前缀，非 data 行返回 null
+ */
+export const stripSseData = (line: string): string | null => {
+  if (!line.startsWith('data:')) return null;
+  return line.slice(5).trim();
+};
+
+// ==================== 适配器工厂 ====================
+
+const sendRequest = async (
+  spec: HttpProviderSpec,
+  request: ProviderRequest,
+  stream: boolean
+): Promise<Response> => {
+  const { url, headers, body } = spec.buildRequest(request, stream);
+  const timeoutMs = stream ? STREAM_TIMEOUT_MS : (request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  const response = await fetchWithTimeout(
+    url,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    },
+    timeoutMs,
+    request.signal
+  );
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new ApiError(
+      spec.parseError(response.status, errorData),
+      apiErrorCodeFromStatus(response.status),
+      response.status,
+      {
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+        context: { provider: spec.id },
+      }
+    );
+  }
+
+  return response;
+};
+
+/**
+ * 将 HTTP 服务商规格组装成适配器
+ */
+export const createHttpAdapter = (spec: HttpProviderSpec): ProviderAdapter => ({
+  id: spec.id,
+  requiresBaseUrl: true,
+
+  generate: async (request) => {
+    const response = await sendRequest(spec, request, false);
+    const data = await response.json();
+    const usage = spec.parseUsage?.(data);
+    if (usage) request.onUsage?.(usage);
+    return spec.parseResponse(data);
+  },
+
+  stream: async (request, onChunk) => {
+    const response = await sendRequest(spec, request, true);
+    let usage: Partial<TokenUsage> | undefined;
+    await readStreamLines(response, (line) => {
+      try {
+        const text = spec.parseStreamLine(line);
+        if (text) onChunk(text);
+        const lineUsage = spec.parseStreamUsage?.(line);
+        if (lineUsage) usage = { ...usage, ...lineUsage };
+      } catch (error) {
+        // 忽略不完整 JSON 的解析错误，服务商返回的错误事件继续向上抛出
+        if (!(error instanceof SyntaxError)) throw error;
+      }
+    }, request.signal);
+
+    if (usage) {
+      request.onUsage?.({
+        promptTokens: usage.promptTokens ?? 0,
+        completionTokens: usage.completionTokens ?? 0,
+      });
+    }
+  },
+});
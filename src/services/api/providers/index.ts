@@ -0,0 +1,42 @@
+/**
+ * @fileoverview AI 服务商适配器注册表
+ * @module services/api/providers
+ * @description 按服务商 ID 查找适配器，未注册的服务商走 OpenAI 兼容接口
+ *
+ * @example
+ * // 新增服务商：实现 HttpProviderSpec 后注册
+ * registerProviderAdapter('myvendor', createHttpAdapter(myVendorSpec));
+ */
+
+import { anthropicAdapter } from './anthropicAdapter';
+import { cohereAdapter } from './cohereAdapter';
+import { googleAdapter } from './googleAdapter';
+import { openaiAdapter } from './openaiAdapter';
+import type { ProviderAdapter } from './types';
+
+const adapters = new Map<string, ProviderAdapter>([
+  ['google', googleAdapter],
+  ['anthropic', anthropicAdapter],
+  ['cohere', cohereAdapter],
+]);
+
+/**
+ * 注册（或覆盖）服务商适配器
+ */
+export const registerProviderAdapter = (providerId: string, adapter: ProviderAdapter): void => {
+  adapters.set(providerId, adapter);
+};
+
+/**
+ * 获取服务商适配器，未注册的服务商使用 OpenAI 兼容适配器
+ */
+export const getProviderAdapter = (providerId: string): ProviderAdapter => {
+  return adapters.get(providerId) ?? openaiAdapter;
+};
+
+export { createHttpAdapter, fetchWithTimeout, readStreamLines, DEFAULT_TIMEOUT_MS, STREAM_TIMEOUT_MS, TEST_TIMEOUT_MS } from './httpAdapter';
+export { openaiAdapter, openaiSpec } from './openaiAdapter';
+export { anthropicAdapter, anthropicSpec } from './anthropicAdapter';
+export { cohereAdapter, cohereSpec } from './cohereAdapter';
+export { googleAdapter } from './googleAdapter';
+export type { ProviderAdapter, ProviderRequest, HttpProviderSpec, HttpRequestSpec } from './types';
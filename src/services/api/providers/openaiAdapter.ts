@@ -0,0 +1,71 @@
+/**
+ * @fileoverview OpenAI 兼容接口适配器
+ * @module services/api/providers/openaiAdapter
+ * @description 适用于 OpenAI、SiliconFlow、DeepSeek 等兼容 /chat/completions 的服务商
+ */
+
+import { createHttpAdapter, stripSseData } from './httpAdapter';
+import type { TokenUsage } from '../../../types/usage';
+import type { HttpProviderSpec, ProviderRequest } from './types';
+
+/**
+ * 构造 chat messages
+ */
+export const buildChatMessages = (request: ProviderRequest): { role: string; content: string }[] => {
+  const messages: { role: string; content: string }[] = [];
+  if (request.systemInstruction) {
+    messages.push({ role: 'system', content: request.systemInstruction });
+  }
+  messages.push({ role: 'user', content: request.prompt });
+  return messages;
+};
+
+const toUsage = (usage: any): TokenUsage | null => {
+  if (!usage) return null;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+  };
+};
+
+export const openaiSpec: HttpProviderSpec = {
+  id: 'openai-compatible',
+
+  buildRequest: (request, stream) => ({
+    url: `${request.baseUrl}/chat/completions`,
+    headers: {
+      'Authorization': `Bearer ${request.apiKey}`,
+    },
+    body: {
+      model: request.model,
+      messages: buildChatMessages(request),
+      temperature: request.temperature ?? 0.8,
+      top_p: request.topP,
+      max_tokens: request.maxTokens,
+      stream,
+      // 流式请求在最后一个数据块中返回用量
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+    },
+  }),
+
+  parseResponse: (data) => data.choices?.[0]?.message?.content || '',
+
+  parseStreamLine: (line) => {
+    const payload = stripSseData(line);
+    if (!payload || payload === '[DONE]') return null;
+    const json = JSON.parse(payload);
+    return json.choices?.[0]?.delta?.content || null;
+  },
+
+  parseError: (status, data) => data?.error?.message || data?.message || `HTTP ${status}`,
+
+  parseUsage: (data) => toUsage(data.usage),
+
+  parseStreamUsage: (line) => {
+    const payload = stripSseData(line);
+    if (!payload || payload === '[DONE]') return null;
+    return toUsage(JSON.parse(payload).usage);
+  },
+};
+
+export const openaiAdapter = createHttpAdapter(openaiSpec);
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview AI 服务商适配器类型定义
+ * @module services/api/providers/types
+ * @description 定义各服务商适配器的统一接口，生成层只依赖这里的类型
+ */
+
+import type { TokenUsage } from '../../../types/usage';
+
+/**
+ * 统一的生成请求
+ */
+export interface ProviderRequest {
+  /** API Key */
+  apiKey: string;
+  /** 服务商 Base URL（Google SDK 不需要） */
+  baseUrl: string;
+  /** 模型 ID */
+  model: string;
+  /** 用户提示词 */
+  prompt: string;
+  /** 系统指令 */
+  systemInstruction?: string;
+  /** 温度 */
+  temperature?: number;
+  /** Top P */
+  topP?: number;
+  /** 最大输出 token 数 */
+  maxTokens?: number;
+  /** 非流式请求超时（毫秒） */
+  timeoutMs?: number;
+  /** 取消信号，中止后适配器应尽快停止请求和流式读取 */
+  signal?: AbortSignal;
+  /** 服务商返回 token 用量时回调（流式请求在结束时回调一次） */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * 服务商适配器
+ *
+ * 每个服务商实现自己的请求构造、鉴权、流式解析和错误映射，
+ * 新增服务商只需注册一个适配器。
+ */
+export interface ProviderAdapter {
+  /** 服务商 ID，对应 API_PROVIDERS 中的 id */
+  id: string;
+  /** 是否需要 Base URL */
+  requiresBaseUrl: boolean;
+  /** 普通生成，返回完整文本 */
+  generate: (request: ProviderRequest) => Promise<string>;
+  /** 流式生成，逐块回调文本 */
+  stream: (request: ProviderRequest, onChunk: (text: string) => void) => Promise<void>;
+}
+
+/**
+ * HTTP 请求描述
+ */
+export interface HttpRequestSpec {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * 基于 HTTP 的服务商规格，由 createHttpAdapter 组装成适配器
+ */
+export interface HttpProviderSpec {
+  id: string;
+  /** 构造请求（URL、鉴权头、请求体） */
+  buildRequest: (request: ProviderRequest, stream: boolean) => HttpRequestSpec;
+  /** 从非流式响应 JSON 中提取文本 */
+  parseResponse: (data: any) => string;
+  /** 解析流式响应中的一行，返回文本增量，无文本时返回 null */
+  parseStreamLine: (line: string) => string | null;
+  /** 从错误响应中提取错误信息 */
+  parseError: (status: number, data: any) => string;
+  /** 从非流式响应 JSON 中提取 token 用量 */
+  parseUsage?: (data: any) => TokenUsage | null;
+  /** 从流式响应的一行中提取 token 用量（可只含部分字段，按行合并） */
+  parseStreamUsage?: (line: string) => Partial<TokenUsage> | null;
+}
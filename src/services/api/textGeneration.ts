@@ -0,0 +1,44 @@
+/**
+ * @fileoverview 后台文本生成
+ * @module services/api/textGeneration
+ * @description 章节摘要、设定提取等后台任务共用的生成函数和正文截取
+ */
+
+import { generateCreativeContentStream, type GenerateOptions } from './gemini';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 调用模型生成文本，默认使用 generateCreativeContentStream（测试时可替换）
+ */
+export type TextGenerator = (prompt: string, model: string, options: GenerateOptions) => Promise<string>;
+
+// ==================== 常量 ====================
+
+/** 送入模型的正文上限，超长章节保留开头和结尾 */
+export const MAX_CHAPTER_INPUT_CHARS = 12000;
+
+// ==================== 工具函数 ====================
+
+/**
+ * 截取章节正文，超过上限时保留开头和结尾各一半
+ */
+export const clipChapter = (content: string): string => {
+  if (content.length <= MAX_CHAPTER_INPUT_CHARS) return content;
+  const half = MAX_CHAPTER_INPUT_CHARS / 2;
+  return `${content.slice(0, half)}\n……（中间省略）……\n${content.slice(-half)}`;
+};
+
+/**
+ * 创建流式生成完整文本的生成函数
+ *
+ * @param cancelMessage - 生成被中止时抛出的 AbortError 的提示
+ */
+export const createTextGenerator = (cancelMessage: string): TextGenerator => async (prompt, model, options) => {
+  let text = '';
+  const { interrupted } = await generateCreativeContentStream(prompt, chunk => { text += chunk; }, model, options);
+  if (interrupted) {
+    throw new DOMException(cancelMessage, 'AbortError');
+  }
+  return text;
+};
@@ -1,8 +1,30 @@
 /**
  * 数据备份服务
  * 提供数据导出、导入和备份提醒功能
+ *
+ * 加密备份：备份数据先用 lz-string 压缩，再用口令加密（PBKDF2 + AES-GCM，见 utils/crypto），
+ * 文件中只有加密后的内容，换设备后凭口令即可恢复。
+ *
+ * 定时备份：开启后每天在本地（IndexedDB）保存一份加密备份，
+ * 按「最近 N 天每天一份、最近 N 周每周一份」轮换。
+ *
+ * 选择性恢复：可以只恢复备份中的一部作品或一个章节，不影响其他数据。
  */
 
+import LZString from 'lz-string';
+import type { Novel, WordCountMode } from '../../types';
+import {
+  decryptApiKey,
+  decryptWithPassphrase,
+  encryptApiKey,
+  encryptWithPassphrase,
+  EncryptionError,
+} from '../../utils/crypto';
+import { createBackupId } from '../../utils/id';
+import { countWords, DEFAULT_WORD_COUNT_MODE, sumWordCount } from '../../utils/wordCount';
+import { storageService } from '../storage/StorageService';
+import { VersionService } from '../version/VersionService';
+
 export interface BackupData {
   version: string;
   timestamp: string;
@@ -14,22 +36,86 @@ export interface ImportResult {
   message: string;
 }
 
+/**
+ * 加密备份文件
+ */
+export interface EncryptedBackupFile {
+  format: 'tiandao-backup';
+  version: string;
+  createdAt: string;
+  encrypted: true;
+  compression: 'lz-string';
+  /** 压缩后加密的 BackupData */
+  payload: string;
+}
+
+/**
+ * 本地保存的备份（内容另存，这里只是索引）
+ */
+export interface LocalBackupEntry {
+  id: string;
+  createdAt: string;
+  kind: 'scheduled' | 'manual';
+  /** 加密后的大小（字节） */
+  size: number;
+  novelCount: number;
+}
+
+/**
+ * 轮换策略：最近 daily 天每天保留一份，最近 weekly 周每周保留一份
+ */
+export interface BackupRotationPolicy {
+  daily: number;
+  weekly: number;
+}
+
+/**
+ * 定时备份设置
+ */
+export interface BackupSchedule extends BackupRotationPolicy {
+  enabled: boolean;
+  /** 备份口令，用设备密钥加密保存（与 API 密钥相同），以便定时备份无需每次输入 */
+  passphrase?: string;
+}
+
+/**
+ * 备份中的作品概要，用于选择恢复内容
+ */
+export interface BackupNovelSummary {
+  id: string;
+  title: string;
+  wordCount: number;
+  updatedAt: string;
+  chapters: Array<{ id: string; title: string; wordCount: number }>;
+}
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupSchedule = {
+  enabled: false,
+  daily: 7,
+  weekly: 4,
+};
+
 export class BackupService {
   private static readonly BACKUP_VERSION = '1.0';
   private static readonly LAST_BACKUP_KEY = 'tiandao_last_backup';
   private static readonly BACKUP_REMINDER_DAYS = 7;
+  private static readonly ENCRYPTED_BACKUP_VERSION = '2.0';
+  private static readonly NOVELS_KEY = 'tiandao_novels';
+  /** 本地备份相关的键（索引、设置、备份内容）都以此开头，不会被备份进去 */
+  private static readonly LOCAL_BACKUP_PREFIX = 'tiandao_backup_';
+  private static readonly LOCAL_INDEX_KEY = 'tiandao_backup_index';
+  private static readonly SCHEDULE_KEY = 'tiandao_backup_schedule';
 
   /**
-   * 导出所有数据
-   * @returns JSON 字符串
+   * 收集当前所有数据
    */
-  static exportAllData(): string {
+  static createBackupData(): BackupData {
     const data: Record<string, any> = {};
-    
+
     // 遍历所有 localStorage 键
     for (let i = 0; i < localStorage.length; i++) {
       const key = localStorage.key(i);
-      if (key?.startsWith('tiandao_')) {
+      if (key?.startsWith('tiandao_') && !key.startsWith(this.LOCAL_BACKUP_PREFIX)) {
         const value = localStorage.getItem(key);
         if (value) {
           try {
@@ -44,13 +130,19 @@ export class BackupService {
     }
     
     // 添加元数据
-    const backup: BackupData = {
+    return {
       version: this.BACKUP_VERSION,
       timestamp: new Date().toISOString(),
       data
     };
-    
-    return JSON.stringify(backup, null, 2);
+  }
+
+  /**
+   * 导出所有数据
+   * @returns JSON 字符串
+   */
+  static exportAllData(): string {
+    return JSON.stringify(this.createBackupData(), null, 2);
   }
 
   /**
@@ -58,31 +150,108 @@ export class BackupService {
    */
   static downloadBackup(): void {
     try {
-      const json = this.exportAllData();
-      const blob = new Blob([json], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      
-      // 生成文件名：tiandao-backup-YYYY-MM-DD-HHmmss.json
-      const now = new Date();
-      const dateStr = now.toISOString().slice(0, 10); // YYYY-MM-DD
-      const timeStr = now.toISOString().slice(11, 19).replace(/:/g, ''); // HHmmss
-      a.download = `tiandao-backup-${dateStr}-${timeStr}.json`;
-      
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
-      // 记录备份时间
-      localStorage.setItem(this.LAST_BACKUP_KEY, new Date().toISOString());
+      this.saveFile(this.exportAllData(), '');
+    } catch (error) {
+      console.error('备份下载失败:', error);
+      throw new Error('备份下载失败，请重试');
+    }
+  }
+
+  /**
+   * 下载加密备份文件
+   * @param passphrase 加密口令，恢复时需要输入
+   */
+  static async downloadEncryptedBackup(passphrase: string): Promise<void> {
+    const file = await this.encryptBackup(this.createBackupData(), passphrase);
+    try {
+      this.saveFile(file, '-encrypted');
     } catch (error) {
       console.error('备份下载失败:', error);
       throw new Error('备份下载失败，请重试');
     }
   }
 
+  /**
+   * 保存备份文件并记录备份时间
+   */
+  private static saveFile(json: string, suffix: string): void {
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+
+    // 生成文件名：tiandao-backup-YYYY-MM-DD-HHmmss.json
+    const now = new Date();
+    const dateStr = now.toISOString().slice(0, 10); // YYYY-MM-DD
+    const timeStr = now.toISOString().slice(11, 19).replace(/:/g, ''); // HHmmss
+    a.download = `tiandao-backup-${dateStr}-${timeStr}${suffix}.json`;
+
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    // 记录备份时间
+    localStorage.setItem(this.LAST_BACKUP_KEY, now.toISOString());
+  }
+
+  // ==================== 加密 ====================
+
+  /**
+   * 压缩并加密备份，返回加密备份文件的 JSON
+   */
+  static async encryptBackup(backup: BackupData, passphrase: string): Promise<string> {
+    const compressed = LZString.compressToBase64(JSON.stringify(backup));
+    const file: EncryptedBackupFile = {
+      format: 'tiandao-backup',
+      version: this.ENCRYPTED_BACKUP_VERSION,
+      createdAt: backup.timestamp,
+      encrypted: true,
+      compression: 'lz-string',
+      payload: await encryptWithPassphrase(compressed, passphrase),
+    };
+    return JSON.stringify(file);
+  }
+
+  /**
+   * 是否为加密备份文件
+   */
+  static isEncryptedBackup(text: string): boolean {
+    try {
+      const parsed = JSON.parse(text);
+      return parsed?.format === 'tiandao-backup' && parsed.encrypted === true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 读取备份文件，加密备份需要口令，旧的明文备份直接解析
+   *
+   * @throws {EncryptionError} 口令错误（WRONG_PASSPHRASE）或未提供口令（EMPTY_PASSPHRASE）
+   * @throws {Error} 文件格式不正确
+   */
+  static async readBackup(text: string, passphrase?: string): Promise<BackupData> {
+    const parsed = JSON.parse(text);
+
+    if (parsed?.format === 'tiandao-backup' && parsed.encrypted === true) {
+      if (!passphrase) {
+        throw new EncryptionError('这是加密备份，请输入口令', 'EMPTY_PASSPHRASE');
+      }
+      const compressed = await decryptWithPassphrase((parsed as EncryptedBackupFile).payload, passphrase);
+      const json = LZString.decompressFromBase64(compressed);
+      if (!json) {
+        throw new Error('备份文件已损坏，无法解压');
+      }
+      return JSON.parse(json) as BackupData;
+    }
+
+    if (!parsed?.version || !parsed.data) {
+      throw new Error('备份文件格式不正确，请检查文件是否完整');
+    }
+    return parsed as BackupData;
+  }
+
   /**
    * 导入数据
    * @param file 备份文件
@@ -116,22 +285,7 @@ export class BackupService {
         // 暂时允许不同版本，但给出警告
       }
 
-      // 恢复数据
-      let restoredCount = 0;
-      Object.entries(backup.data).forEach(([key, value]) => {
-        try {
-          const valueStr = typeof value === 'string' ? value : JSON.stringify(value);
-          localStorage.setItem(key, valueStr);
-          restoredCount++;
-        } catch (error) {
-          console.error(`恢复数据失败 [${key}]:`, error);
-        }
-      });
-
-      // 更新最后备份时间
-      if (backup.timestamp) {
-        localStorage.setItem(this.LAST_BACKUP_KEY, backup.timestamp);
-      }
+      const restoredCount = this.restoreAll(backup);
       
       return { 
         success: true, 
@@ -154,13 +308,310 @@ export class BackupService {
     }
   }
 
+  /**
+   * 用备份覆盖全部数据
+   * @returns 恢复的数据项数
+   */
+  static restoreAll(backup: BackupData): number {
+    let restoredCount = 0;
+    Object.entries(backup.data).forEach(([key, value]) => {
+      try {
+        const valueStr = typeof value === 'string' ? value : JSON.stringify(value);
+        localStorage.setItem(key, valueStr);
+        restoredCount++;
+      } catch (error) {
+        console.error(`恢复数据失败 [${key}]:`, error);
+      }
+    });
+
+    // 更新最后备份时间
+    if (backup.timestamp) {
+      localStorage.setItem(this.LAST_BACKUP_KEY, backup.timestamp);
+    }
+    return restoredCount;
+  }
+
+  // ==================== 选择性恢复 ====================
+
+  /**
+   * 备份中的作品
+   */
+  static getBackupNovels(backup: BackupData): Novel[] {
+    const novels = backup.data[this.NOVELS_KEY];
+    return Array.isArray(novels) ? (novels as Novel[]) : [];
+  }
+
+  /**
+   * 备份中作品和章节的概要
+   */
+  static summarizeBackup(backup: BackupData): BackupNovelSummary[] {
+    return this.getBackupNovels(backup).map(novel => ({
+      id: novel.id,
+      title: novel.title,
+      wordCount: novel.wordCount,
+      updatedAt: novel.updatedAt,
+      chapters: (novel.chapters ?? []).map(({ id, title, wordCount }) => ({ id, title, wordCount })),
+    }));
+  }
+
+  /**
+   * 用备份中的版本替换一部作品（不存在时添加），其他作品不变
+   *
+   * @throws {Error} 备份中没有这部作品
+   */
+  static restoreNovel(novels: Novel[], backup: BackupData, novelId: string): Novel[] {
+    const restored = this.getBackupNovels(backup).find(novel => novel.id === novelId);
+    if (!restored) {
+      throw new Error('备份中没有这部作品');
+    }
+    return novels.some(novel => novel.id === novelId)
+      ? novels.map(novel => (novel.id === novelId ? restored : novel))
+      : [...novels, restored];
+  }
+
+  /**
+   * 用备份中的版本替换一个章节（不存在时追加到末尾），作品的其他内容不变
+   *
+   * 被替换的章节先保存一个版本，恢复后仍可在版本历史中找回。
+   *
+   * @throws {Error} 备份中没有这个章节，或当前已没有这部作品
+   */
+  static restoreChapter(
+    novels: Novel[],
+    backup: BackupData,
+    novelId: string,
+    chapterId: string,
+    now: Date = new Date()
+  ): Novel[] {
+    const restored = this.getBackupNovels(backup)
+      .find(novel => novel.id === novelId)
+      ?.chapters?.find(chapter => chapter.id === chapterId);
+    if (!restored) {
+      throw new Error('备份中没有这个章节');
+    }
+    const target = novels.find(novel => novel.id === novelId);
+    if (!target) {
+      throw new Error('当前没有这部作品，请恢复整部作品');
+    }
+
+    const wordCountMode: WordCountMode = target.wordCountMode ?? DEFAULT_WORD_COUNT_MODE;
+    const current = target.chapters.find(chapter => chapter.id === chapterId);
+    const chapters = current
+      ? target.chapters.map((chapter) => {
+          if (chapter.id !== chapterId) return chapter;
+          const saved = VersionService.snapshot(chapter, {
+            trigger: 'manual',
+            note: '恢复备份前自动保存',
+            wordCountMode,
+            now,
+          });
+          return {
+            ...saved,
+            title: restored.title,
+            content: restored.content,
+            wordCount: countWords(restored.content, wordCountMode),
+          };
+        })
+      : [...target.chapters, restored];
+
+    return novels.map(novel =>
+      novel.id === novelId
+        ? { ...novel, chapters, wordCount: sumWordCount(chapters), updatedAt: now.toISOString() }
+        : novel
+    );
+  }
+
+  // ==================== 本地定时备份 ====================
+
+  /**
+   * 本地备份列表，按时间倒序
+   */
+  static listLocalBackups(): LocalBackupEntry[] {
+    try {
+      const entries = JSON.parse(localStorage.getItem(this.LOCAL_INDEX_KEY) || '[]') as LocalBackupEntry[];
+      return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch {
+      return [];
+    }
+  }
+
+  private static saveLocalIndex(entries: LocalBackupEntry[]): void {
+    localStorage.setItem(this.LOCAL_INDEX_KEY, JSON.stringify(entries));
+  }
+
+  private static localBackupKey(id: string): string {
+    return `tiandao_${id}`;
+  }
+
+  /**
+   * 在本地保存一份加密备份，并按定时备份设置轮换
+   */
+  static async createLocalBackup(
+    passphrase: string,
+    kind: LocalBackupEntry['kind'] = 'manual',
+    now: Date = new Date()
+  ): Promise<LocalBackupEntry> {
+    const backup = { ...this.createBackupData(), timestamp: now.toISOString() };
+    const file = await this.encryptBackup(backup, passphrase);
+    const entry: LocalBackupEntry = {
+      id: createBackupId(),
+      createdAt: backup.timestamp,
+      kind,
+      size: new Blob([file]).size,
+      novelCount: this.getBackupNovels(backup).length,
+    };
+
+    await storageService.set(this.localBackupKey(entry.id), file);
+    this.saveLocalIndex([entry, ...this.listLocalBackups()]);
+    await this.rotateLocalBackups();
+    return entry;
+  }
+
+  /**
+   * 读取本地备份
+   *
+   * @throws {EncryptionError} 口令错误
+   * @throws {Error} 备份不存在
+   */
+  static async loadLocalBackup(id: string, passphrase: string): Promise<BackupData> {
+    const file = await storageService.get<string | null>(this.localBackupKey(id), null);
+    if (!file) {
+      throw new Error('本地备份不存在或已被清理');
+    }
+    return this.readBackup(file, passphrase);
+  }
+
+  /**
+   * 删除本地备份
+   */
+  static async deleteLocalBackup(id: string): Promise<void> {
+    await storageService.remove(this.localBackupKey(id));
+    this.saveLocalIndex(this.listLocalBackups().filter(entry => entry.id !== id));
+  }
+
+  /**
+   * 按轮换策略选出要保留的备份
+   *
+   * 每天（本地日期）和每周（周一开始）各保留最新的一份，
+   * 只看最近 daily 个有备份的日子和最近 weekly 个有备份的周，两者取并集。
+   */
+  static selectBackupsToKeep(entries: readonly LocalBackupEntry[], policy: BackupRotationPolicy): Set<string> {
+    const keep = new Set<string>();
+    const pick = (keyOf: (date: Date) => string, limit: number) => {
+      const seen = new Set<string>();
+      [...entries]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .forEach((entry) => {
+          const key = keyOf(new Date(entry.createdAt));
+          if (seen.has(key) || seen.size >= limit) return;
+          seen.add(key);
+          keep.add(entry.id);
+        });
+    };
+
+    pick(date => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`, policy.daily);
+    pick((date) => {
+      const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+      return `${monday.getFullYear()}-${monday.getMonth()}-${monday.getDate()}`;
+    }, policy.weekly);
+    return keep;
+  }
+
+  /**
+   * 清理轮换策略之外的本地备份
+   * @returns 删除的备份数
+   */
+  static async rotateLocalBackups(policy: BackupRotationPolicy = this.getSchedule()): Promise<number> {
+    const entries = this.listLocalBackups();
+    const keep = this.selectBackupsToKeep(entries, policy);
+    const removed = entries.filter(entry => !keep.has(entry.id));
+    for (const entry of removed) {
+      await storageService.remove(this.localBackupKey(entry.id));
+    }
+    if (removed.length > 0) {
+      this.saveLocalIndex(entries.filter(entry => keep.has(entry.id)));
+    }
+    return removed.length;
+  }
+
+  /**
+   * 定时备份设置
+   */
+  static getSchedule(): BackupSchedule {
+    try {
+      const stored = localStorage.getItem(this.SCHEDULE_KEY);
+      return stored ? { ...DEFAULT_BACKUP_SCHEDULE, ...JSON.parse(stored) } : { ...DEFAULT_BACKUP_SCHEDULE };
+    } catch {
+      return { ...DEFAULT_BACKUP_SCHEDULE };
+    }
+  }
+
+  /**
+   * 保存定时备份设置
+   * @param passphrase 新的备份口令；不传时沿用已保存的口令
+   */
+  static async saveSchedule(
+    schedule: Omit<BackupSchedule, 'passphrase'>,
+    passphrase?: string
+  ): Promise<BackupSchedule> {
+    const encrypted = passphrase ? await encryptApiKey(passphrase) : this.getSchedule().passphrase;
+    const next: BackupSchedule = {
+      enabled: schedule.enabled,
+      daily: Math.max(1, Math.floor(schedule.daily)),
+      weekly: Math.max(0, Math.floor(schedule.weekly)),
+      ...(encrypted ? { passphrase: encrypted } : {}),
+    };
+    localStorage.setItem(this.SCHEDULE_KEY, JSON.stringify(next));
+    return next;
+  }
+
+  /**
+   * 已保存的备份口令
+   */
+  static async getSchedulePassphrase(): Promise<string | null> {
+    const { passphrase } = this.getSchedule();
+    if (!passphrase) return null;
+    try {
+      return await decryptApiKey(passphrase);
+    } catch (error) {
+      console.error('读取备份口令失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 执行定时备份：开启且今天（本地日期）还没有定时备份时保存一份
+   * @returns 新建的备份；无需备份或无法备份时为 null
+   */
+  static async runScheduledBackup(now: Date = new Date()): Promise<LocalBackupEntry | null> {
+    const schedule = this.getSchedule();
+    if (!schedule.enabled) return null;
+
+    const today = now.toDateString();
+    const done = this.listLocalBackups().some(
+      entry => entry.kind === 'scheduled' && new Date(entry.createdAt).toDateString() === today
+    );
+    if (done) return null;
+
+    const passphrase = await this.getSchedulePassphrase();
+    if (!passphrase) {
+      console.warn('定时备份未设置口令，已跳过');
+      return null;
+    }
+    return this.createLocalBackup(passphrase, 'scheduled', now);
+  }
+
   /**
    * 检查是否需要备份提醒
+   *
+   * 开启定时备份且最近有本地备份时不再提醒。
    * @returns 是否需要提醒
    */
   static needsBackupReminder(): boolean {
     try {
-      const lastBackup = localStorage.getItem(this.LAST_BACKUP_KEY);
+      const latestLocal = this.getSchedule().enabled ? this.listLocalBackups()[0]?.createdAt : undefined;
+      const lastDownload = localStorage.getItem(this.LAST_BACKUP_KEY);
+      const lastBackup = [latestLocal, lastDownload].filter(Boolean).sort().pop();
       
       // 如果从未备份过，需要提醒
       if (!lastBackup) {
@@ -203,7 +654,7 @@ export class BackupService {
 
     for (let i = 0; i < localStorage.length; i++) {
       const key = localStorage.key(i);
-      if (key?.startsWith('tiandao_')) {
+      if (key?.startsWith('tiandao_') && !key.startsWith(this.LOCAL_BACKUP_PREFIX)) {
         totalItems++;
         const value = localStorage.getItem(key);
         if (value) {
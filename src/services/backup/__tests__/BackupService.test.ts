@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Chapter, Novel } from '../../../types';
+import { BackupService, type BackupData, type LocalBackupEntry } from '../BackupService';
+
+const storedBackups = new Map<string, unknown>();
+
+vi.mock('../../storage/StorageService', () => ({
+  storageService: {
+    get: async (key: string, defaultValue: unknown) => storedBackups.has(key) ? storedBackups.get(key) : defaultValue,
+    set: async (key: string, value: unknown) => { storedBackups.set(key, value); },
+    remove: async (key: string) => { storedBackups.delete(key); },
+  },
+}));
+
+const chapter = (id: string, content: string): Chapter => ({ id, title: `章节 ${id}`, content, wordCount: content.length });
+
+const novel = (id: string, chapters: Chapter[]): Novel => ({
+  id,
+  title: `作品 ${id}`,
+  description: '',
+  wordCount: chapters.reduce((sum, c) => sum + c.wordCount, 0),
+  status: 'ongoing',
+  updatedAt: '2026-03-01T00:00:00.000Z',
+  tags: [],
+  chapters,
+} as Novel);
+
+const backupOf = (novels: Novel[]): BackupData => ({
+  version: '1.0',
+  timestamp: '2026-03-01T00:00:00.000Z',
+  data: { tiandao_novels: novels },
+});
+
+const entryAt = (id: string, createdAt: Date): LocalBackupEntry => ({
+  id,
+  createdAt: createdAt.toISOString(),
+  kind: 'scheduled',
+  size: 1,
+  novelCount: 1,
+});
+
+describe('BackupService encryption', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('should round-trip an encrypted backup and keep the payload unreadable', async () => {
+    const backup = backupOf([novel('n1', [chapter('c1', '机密的开头')])]);
+    const file = await BackupService.encryptBackup(backup, 'secret');
+
+    expect(BackupService.isEncryptedBackup(file)).toBe(true);
+    expect(file).not.toContain('机密的开头');
+    expect(await BackupService.readBackup(file, 'secret')).toEqual(backup);
+    await expect(BackupService.readBackup(file)).rejects.toMatchObject({ code: 'EMPTY_PASSPHRASE' });
+    await expect(BackupService.readBackup(file, 'wrong')).rejects.toMatchObject({ code: 'WRONG_PASSPHRASE' });
+  });
+
+  it('should still read plaintext backups', async () => {
+    localStorage.setItem('tiandao_novels', JSON.stringify([novel('n1', [])]));
+    const text = BackupService.exportAllData();
+
+    expect(BackupService.isEncryptedBackup(text)).toBe(false);
+    expect(BackupService.getBackupNovels(await BackupService.readBackup(text))).toHaveLength(1);
+  });
+
+  it('should not include local backups in new backups', () => {
+    localStorage.setItem('tiandao_novels', '[]');
+    localStorage.setItem('tiandao_backup_index', '[]');
+    localStorage.setItem('tiandao_backup_abc', 'payload');
+
+    expect(Object.keys(BackupService.createBackupData().data)).toEqual(['tiandao_novels']);
+  });
+});
+
+describe('BackupService selective restore', () => {
+  const backup = backupOf([
+    novel('n1', [chapter('c1', '备份里的第一章'), chapter('c2', '备份里的第二章')]),
+    novel('n2', [chapter('c3', '另一部')]),
+  ]);
+
+  it('should restore one novel without touching the others', () => {
+    const other = novel('n3', []);
+    const current = [novel('n1', [chapter('c1', '改坏了')]), other];
+    const restored = BackupService.restoreNovel(current, backup, 'n1');
+
+    expect(restored.map(n => n.id)).toEqual(['n1', 'n3']);
+    expect(restored[0].chapters).toHaveLength(2);
+    expect(restored[1]).toBe(other);
+    expect(BackupService.restoreNovel([other], backup, 'n2').map(n => n.id)).toEqual(['n3', 'n2']);
+    expect(() => BackupService.restoreNovel(current, backup, 'missing')).toThrow();
+  });
+
+  it('should restore one chapter and keep the replaced text as a version', () => {
+    const untouched = chapter('c9', '新写的章节');
+    const current = [novel('n1', [chapter('c1', '改坏了'), untouched])];
+    const [restored] = BackupService.restoreChapter(current, backup, 'n1', 'c1');
+
+    expect(restored.chapters[0].content).toBe('备份里的第一章');
+    expect(restored.chapters[0].versions?.[0]).toMatchObject({ content: '改坏了', note: '恢复备份前自动保存' });
+    expect(restored.chapters[1]).toBe(untouched);
+    expect(restored.wordCount).toBe(restored.chapters[0].wordCount + untouched.wordCount);
+  });
+
+  it('should append a chapter that no longer exists and refuse a missing novel', () => {
+    const [restored] = BackupService.restoreChapter([novel('n1', [chapter('c1', '一')])], backup, 'n1', 'c2');
+    expect(restored.chapters.map(c => c.id)).toEqual(['c1', 'c2']);
+
+    expect(() => BackupService.restoreChapter([], backup, 'n1', 'c1')).toThrow('当前没有这部作品');
+  });
+
+  it('should summarize novels and chapters in a backup', () => {
+    const [first] = BackupService.summarizeBackup(backup);
+    expect(first).toMatchObject({ id: 'n1', title: '作品 n1' });
+    expect(first.chapters.map(c => c.id)).toEqual(['c1', 'c2']);
+  });
+});
+
+describe('BackupService rotation', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    storedBackups.clear();
+  });
+
+  it('should keep the newest backup per day and per week', () => {
+    // 2026-03-16 是周一
+    const entries = [
+      entryAt('mon-late', new Date(2026, 2, 16, 22)),
+      entryAt('mon-early', new Date(2026, 2, 16, 8)),
+      entryAt('sun', new Date(2026, 2, 15, 9)),
+      entryAt('sat', new Date(2026, 2, 14, 9)),
+      entryAt('prev-week-fri', new Date(2026, 2, 6, 9)),
+      entryAt('older', new Date(2026, 1, 20, 9)),
+    ];
+    const keep = BackupService.selectBackupsToKeep(entries, { daily: 2, weekly: 3 });
+
+    expect([...keep].sort()).toEqual(['mon-late', 'prev-week-fri', 'sun']);
+  });
+
+  it('should save local backups and drop those outside the policy', async () => {
+    localStorage.setItem('tiandao_novels', JSON.stringify([novel('n1', [chapter('c1', '正文')])]));
+    localStorage.setItem('tiandao_backup_schedule', JSON.stringify({ enabled: false, daily: 1, weekly: 0 }));
+
+    const first = await BackupService.createLocalBackup('secret', 'manual', new Date(2026, 2, 15, 9));
+    const second = await BackupService.createLocalBackup('secret', 'manual', new Date(2026, 2, 16, 9));
+
+    expect(BackupService.listLocalBackups().map(e => e.id)).toEqual([second.id]);
+    expect(second.novelCount).toBe(1);
+    await expect(BackupService.loadLocalBackup(first.id, 'secret')).rejects.toThrow();
+    const loaded = await BackupService.loadLocalBackup(second.id, 'secret');
+    expect(BackupService.getBackupNovels(loaded)[0].chapters[0].content).toBe('正文');
+  });
+
+  it('should skip scheduled backups while disabled', async () => {
+    expect(await BackupService.runScheduledBackup()).toBeNull();
+    expect(BackupService.listLocalBackups()).toEqual([]);
+  });
+});
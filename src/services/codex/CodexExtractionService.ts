@@ -0,0 +1,684 @@
+/**
+ * @fileoverview 从章节中提取设定
+ * @module services/codex/CodexExtractionService
+ * @description 扫描章节，结合模型和规则提取（utils/characterAnalyzer、utils/chapterSummaryGenerator），
+ * 提出对设定的修改：新人物、人物的新特征、新地点、新道具、道具易主、人物关系变化和新事件。
+ *
+ * - 提取结果记为设定提取建议（Novel.codexProposals），作者逐条批准后才写入设定；忽略的建议不会再次提出
+ * - 每条建议记录首次出现的章节：同一修改在多章出现时只保留最靠前的章节
+ * - 已扫描章节的正文哈希和已忽略的建议保存在本地，正文未变化的章节不重复扫描
+ * - 规则提取的人物和地点作为候选提供给模型；模型输出无法解析时只使用规则提取的结果
+ * - 建议中的人物、道具按名称引用，批准时才对应到设定条目；引用的人物还不在设定中时需先批准该人物
+ */
+
+import { STORAGE_KEYS } from '../../config/constants';
+import type {
+  Chapter,
+  Character,
+  CharacterRelation,
+  CodexProposal,
+  CodexProposalChange,
+  Item,
+  Location,
+  Novel,
+  TimelineEvent,
+} from '../../types';
+import { clipChapter, createTextGenerator, type TextGenerator } from '../api/textGeneration';
+import { hashContent } from '../rag/chunking';
+import { extractCharacters } from '../../utils/characterAnalyzer';
+import { extractKeyLocations } from '../../utils/chapterSummaryGenerator';
+import {
+  createCharacterId,
+  createItemId,
+  createLocationId,
+  createProposalId,
+  createRelationId,
+  createTimelineId,
+} from '../../utils/id';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 提取到的一项修改
+ */
+export interface ExtractedChange {
+  change: CodexProposalChange;
+  /** 原文依据 */
+  evidence?: string;
+}
+
+/**
+ * 本地保存的扫描状态
+ */
+export interface CodexScanState {
+  novelId: string;
+  /** 章节 → 扫描时的正文哈希 */
+  scanned: Record<string, string>;
+  /** 已忽略建议的指纹（见 fingerprint） */
+  dismissed: string[];
+}
+
+export interface CodexScanProgress {
+  current: number;
+  total: number;
+  chapter: Chapter;
+}
+
+export interface CodexScanOptions {
+  model: string;
+  /** 指定章节时即使已扫描过也重新扫描 */
+  chapterIds?: string[];
+  signal?: AbortSignal;
+  onProgress?: (progress: CodexScanProgress) => void;
+  /** 每扫描完一章回调一次，参数为本章提出的建议（尚未与已有建议合并，见 addProposals） */
+  onChapterScanned?: (created: CodexProposal[], chapter: Chapter) => void;
+  generateText?: TextGenerator;
+}
+
+/**
+ * 建议与设定现状的对比，用于审阅
+ */
+export interface ProposalDiff {
+  title: string;
+  fields: Array<{ label: string; before?: string; after: string }>;
+}
+
+// ==================== 常量 ====================
+
+/** 提示词中列出的已有设定条目上限 */
+const MAX_CODEX_ENTRIES = 60;
+
+export const ITEM_TYPE_LABELS: Record<Item['type'], string> = {
+  weapon: '武器',
+  armor: '防具',
+  accessory: '饰品',
+  skill: '技能',
+  technique: '功法',
+  artifact: '法宝',
+  other: '其他',
+};
+
+const SYSTEM_INSTRUCTION = '你是小说设定整理助手，负责从章节正文中找出人物、地点、道具和人物关系的变化。只根据正文内容提取，不要推测正文没有写到的信息。';
+
+/** 规则提取地点时只保留带有地名后缀的词，减少误报 */
+const PLACE_SUFFIX = /(城|山|谷|殿|宫|楼|阁|院|洞|府|峰|村|镇|宗|林|湖|河|海|岛|关|寺|观)$/;
+
+/** 规则提取人名时排除代词开头的词 */
+const NAME_PATTERN = /^[\u4e00-\u9fa5]{2,4}$/;
+const PRONOUN_START = /^[他她它我你您这那谁众此]/;
+
+/** 对话识别会把“林凡说道”中的“说”算进人名，提取时去掉 */
+const SPEECH_SUFFIX = /[说道笑怒叹]+$/;
+
+// ==================== 工具函数 ====================
+
+const storageKey = (novelId: string) => `${STORAGE_KEYS.CODEX_SCAN}${novelId}`;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const strList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(str).filter(Boolean) : [];
+
+const sameName = (a: string | undefined, b: string | undefined): boolean =>
+  Boolean(a && b) && a!.trim() === b!.trim();
+
+const defaultGenerateText = createTextGenerator('设定扫描已取消');
+
+const findCharacter = (novel: Novel, name: string): Character | undefined =>
+  novel.characters?.find(c => sameName(c.name, name));
+
+const findItem = (novel: Novel, name: string): Item | undefined =>
+  novel.items?.find(i => sameName(i.name, name));
+
+/**
+ * 两个人物之间尚未结束的关系（不区分方向）
+ */
+const findActiveRelation = (novel: Novel, sourceId: string, targetId: string): CharacterRelation | undefined =>
+  novel.characterRelations?.find(r =>
+    !r.endChapterId &&
+    ((r.sourceId === sourceId && r.targetId === targetId) || (r.sourceId === targetId && r.targetId === sourceId))
+  );
+
+const chapterIndex = (novel: Novel, chapterId: string): number => {
+  const index = novel.chapters?.findIndex(c => c.id === chapterId) ?? -1;
+  return index < 0 ? Number.MAX_SAFE_INTEGER : index;
+};
+
+const chapterLabel = (novel: Novel, chapterId: string): string => {
+  const index = novel.chapters?.findIndex(c => c.id === chapterId) ?? -1;
+  return index < 0 ? '已删除的章节' : `第${index + 1}章`;
+};
+
+// ==================== 服务 ====================
+
+export class CodexExtractionService {
+  // ---------- 扫描状态 ----------
+
+  static loadState(novelId: string): CodexScanState {
+    try {
+      const data = localStorage.getItem(storageKey(novelId));
+      if (data) return { novelId, scanned: {}, dismissed: [], ...JSON.parse(data) };
+    } catch (error) {
+      console.error('读取设定扫描状态失败:', error);
+    }
+    return { novelId, scanned: {}, dismissed: [] };
+  }
+
+  static saveState(state: CodexScanState): void {
+    try {
+      localStorage.setItem(storageKey(state.novelId), JSON.stringify(state));
+    } catch (error) {
+      console.error('保存设定扫描状态失败:', error);
+    }
+  }
+
+  static removeState(novelId: string): void {
+    localStorage.removeItem(storageKey(novelId));
+  }
+
+  /**
+   * 需要扫描的章节：未扫描过或正文已改动的章节；指定章节时全部重新扫描
+   */
+  static getChaptersToScan(novel: Novel, chapterIds?: string[]): Chapter[] {
+    const { scanned } = this.loadState(novel.id);
+    return (novel.chapters ?? []).filter(chapter =>
+      chapter.content?.trim() &&
+      (chapterIds ? chapterIds.includes(chapter.id) : scanned[chapter.id] !== hashContent(chapter.content))
+    );
+  }
+
+  // ---------- 提取 ----------
+
+  /**
+   * 同一修改的指纹，用于去重和记住已忽略的建议
+   */
+  static fingerprint(change: CodexProposalChange): string {
+    switch (change.kind) {
+      case 'character':
+      case 'location':
+      case 'item':
+        return `${change.kind}:${change.name}`;
+      case 'traits':
+        return `traits:${change.name}:${[...change.traits].sort().join('、')}`;
+      case 'owner':
+        return `owner:${change.item}:${change.owner}`;
+      case 'relation':
+        return `relation:${[change.source, change.target].sort().join('|')}:${change.relationType}`;
+      case 'event':
+        return `event:${change.title}`;
+    }
+  }
+
+  /**
+   * 规则提取：多次说话或行动的人名、带地名后缀的地点
+   */
+  static extractByRules(chapter: Chapter): ExtractedChange[] {
+    // 同一人名（去掉说话动词后）合并计数
+    const speakers = new Map<string, { dialogues: string[]; actions: number }>();
+    extractCharacters(chapter.content).forEach(profile => {
+      const name = profile.name.replace(SPEECH_SUFFIX, '');
+      if (!NAME_PATTERN.test(name) || PRONOUN_START.test(name)) return;
+      const entry = speakers.get(name) ?? { dialogues: [], actions: 0 };
+      entry.dialogues.push(...profile.dialogues.map(d => d.content));
+      entry.actions += profile.actions.length;
+      speakers.set(name, entry);
+    });
+
+    const characters = Array.from(speakers)
+      .filter(([, { dialogues, actions }]) => dialogues.length >= 2 || dialogues.length + actions >= 3)
+      .map(([name, { dialogues }]) => ({
+        change: { kind: 'character', name, role: '配角', description: '', traits: [] } as CodexProposalChange,
+        ...(dialogues[0] && { evidence: dialogues[0] }),
+      }));
+
+    const locations = extractKeyLocations(chapter.content)
+      .filter(name => PLACE_SUFFIX.test(name))
+      .map(name => ({ change: { kind: 'location', name, type: '', description: '' } as CodexProposalChange }));
+
+    return [...characters, ...locations];
+  }
+
+  /**
+   * 提取用的提示词：列出已有设定和待审阅的建议，要求模型只输出本章新出现或发生变化的内容
+   */
+  static buildPrompt(chapter: Chapter, novel: Novel, candidates: ExtractedChange[] = []): string {
+    const characters = (novel.characters ?? []).slice(0, MAX_CODEX_ENTRIES)
+      .map(c => `${c.name}（${c.role}）${c.traits.length > 0 ? `：${c.traits.join('、')}` : ''}`);
+    const locations = (novel.locations ?? []).slice(0, MAX_CODEX_ENTRIES).map(l => l.name);
+    const items = (novel.items ?? []).slice(0, MAX_CODEX_ENTRIES).map(i => {
+      const owner = novel.characters?.find(c => c.id === i.owner)?.name;
+      return owner ? `${i.name}（拥有者：${owner}）` : i.name;
+    });
+    const nameOf = (id: string) => novel.characters?.find(c => c.id === id)?.name ?? '';
+    const relations = (novel.characterRelations ?? []).filter(r => !r.endChapterId).slice(0, MAX_CODEX_ENTRIES)
+      .map(r => `${nameOf(r.sourceId)}-${nameOf(r.targetId)}：${r.relationType}`);
+    const pending = (novel.codexProposals ?? []).slice(0, MAX_CODEX_ENTRIES).map(p => this.describe(novel, p).title);
+    const candidateNames = candidates.map(c => ('name' in c.change ? c.change.name : '')).filter(Boolean);
+
+    return [
+      '已有设定：',
+      `人物：${characters.join('；') || '无'}`,
+      `地点：${locations.join('、') || '无'}`,
+      `道具：${items.join('、') || '无'}`,
+      `人物关系：${relations.join('；') || '无'}`,
+      pending.length > 0 ? `已提出、等待作者审阅的修改（视同已有设定，不要重复列出）：${pending.join('；')}` : '',
+      candidateNames.length > 0 ? `规则识别的候选人名和地名（可能有误，请核对正文）：${candidateNames.join('、')}` : '',
+      '',
+      `章节标题：${chapter.title}\n正文：\n${clipChapter(chapter.content)}\n`,
+      '请找出本章中新出现或发生变化的设定。已在设定中且没有变化的不要列出，没有的类别输出空数组。',
+      '每一项都附上 evidence：正文中的原句（30 字以内）。只输出一个 JSON 对象，字段如下：',
+      '{',
+      '  "characters": [{"name": "新出场的人物", "role": "主角/配角/反派/路人", "description": "一句话介绍", "traits": ["性格或能力特征"], "evidence": ""}],',
+      '  "traits": [{"name": "已有人物", "traits": ["本章新表现出的特征"], "evidence": ""}],',
+      '  "locations": [{"name": "新地点", "type": "城市/宗门/秘境等", "description": "一句话介绍", "evidence": ""}],',
+      '  "items": [{"name": "新道具或功法", "type": "weapon/armor/accessory/skill/technique/artifact/other", "description": "一句话介绍", "owner": "拥有者姓名，没有则留空", "evidence": ""}],',
+      '  "owners": [{"item": "已有道具", "owner": "新的拥有者姓名", "evidence": ""}],',
+      '  "relations": [{"source": "人物", "target": "人物", "relationType": "师徒/朋友/敌人/恋人等", "description": "关系说明", "evidence": ""}],',
+      '  "events": [{"title": "影响主线的重要事件", "description": "一句话说明", "characters": ["相关人物"], "location": "地点", "evidence": ""}]',
+      '}',
+    ].filter(line => line !== '').join('\n');
+  }
+
+  /**
+   * 解析模型输出；允许包裹在代码块或前后带有说明文字，无法解析时返回 null
+   */
+  static parseResponse(text: string): ExtractedChange[] | null {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end <= start) return null;
+
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(text.slice(start, end + 1));
+    } catch {
+      return null;
+    }
+
+    const entries = (key: string): Record<string, unknown>[] =>
+      Array.isArray(data[key]) ? (data[key] as unknown[]).filter((e): e is Record<string, unknown> => Boolean(e) && typeof e === 'object') : [];
+    const changes: ExtractedChange[] = [];
+    const push = (change: CodexProposalChange | null, entry: Record<string, unknown>) => {
+      if (!change) return;
+      const evidence = str(entry.evidence);
+      changes.push({ change, ...(evidence && { evidence }) });
+    };
+
+    entries('characters').forEach(e => push(str(e.name)
+      ? { kind: 'character', name: str(e.name), role: str(e.role) || '配角', description: str(e.description), traits: strList(e.traits) }
+      : null, e));
+    entries('traits').forEach(e => push(str(e.name) && strList(e.traits).length > 0
+      ? { kind: 'traits', name: str(e.name), traits: strList(e.traits) }
+      : null, e));
+    entries('locations').forEach(e => push(str(e.name)
+      ? { kind: 'location', name: str(e.name), type: str(e.type), description: str(e.description) }
+      : null, e));
+    entries('items').forEach(e => {
+      const type = str(e.type) as Item['type'];
+      push(str(e.name)
+        ? {
+          kind: 'item',
+          name: str(e.name),
+          type: type in ITEM_TYPE_LABELS ? type : 'other',
+          description: str(e.description),
+          ...(str(e.owner) && { owner: str(e.owner) }),
+        }
+        : null, e);
+    });
+    entries('owners').forEach(e => push(str(e.item) && str(e.owner)
+      ? { kind: 'owner', item: str(e.item), owner: str(e.owner) }
+      : null, e));
+    entries('relations').forEach(e => push(str(e.source) && str(e.target) && str(e.relationType) && str(e.source) !== str(e.target)
+      ? { kind: 'relation', source: str(e.source), target: str(e.target), relationType: str(e.relationType), description: str(e.description) }
+      : null, e));
+    entries('events').forEach(e => push(str(e.title)
+      ? {
+        kind: 'event',
+        title: str(e.title),
+        description: str(e.description),
+        characters: strList(e.characters),
+        ...(str(e.location) && { location: str(e.location) }),
+      }
+      : null, e));
+
+    return changes;
+  }
+
+  /**
+   * 扫描一章；模型调用失败时抛出，输出无法解析时改用规则提取
+   *
+   * @throws {ApiError | NetworkError} 模型调用失败时抛出；取消时抛出 AbortError
+   */
+  static async scanChapter(
+    chapter: Chapter,
+    novel: Novel,
+    options: Pick<CodexScanOptions, 'model' | 'signal' | 'generateText'>
+  ): Promise<{ changes: ExtractedChange[]; source: CodexProposal['source'] }> {
+    const { model, signal, generateText = defaultGenerateText } = options;
+    const candidates = this.extractByRules(chapter);
+    const text = await generateText(this.buildPrompt(chapter, novel, candidates), model, {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      temperature: 0.2,
+      signal,
+      usage: { feature: 'codex', novelId: novel.id },
+    });
+
+    const parsed = this.parseResponse(text);
+    if (!parsed) {
+      console.warn(`[Codex] 无法解析「${chapter.title}」的提取结果，改用规则提取`);
+      return { changes: candidates, source: 'rule' };
+    }
+    return { changes: parsed, source: 'ai' };
+  }
+
+  /**
+   * 按顺序扫描章节，扫描完的章节记入本地状态
+   *
+   * 前面章节提出的建议会列入后面章节的提示词，避免同一批扫描重复提出。
+   *
+   * @returns 本次提出的全部建议（已去重，未与作品中已有的建议合并）
+   */
+  static async scanChapters(novel: Novel, options: CodexScanOptions): Promise<CodexProposal[]> {
+    const { chapterIds, signal, onProgress, onChapterScanned } = options;
+    const queue = this.getChaptersToScan(novel, chapterIds);
+    let working: Novel = { ...novel, codexProposals: [] };
+
+    for (let i = 0; i < queue.length; i++) {
+      if (signal?.aborted) break;
+      const chapter = queue[i];
+      onProgress?.({ current: i + 1, total: queue.length, chapter });
+
+      const context = { ...novel, codexProposals: [...(novel.codexProposals ?? []), ...(working.codexProposals ?? [])] };
+      const { changes, source } = await this.scanChapter(chapter, context, options);
+      if (signal?.aborted) break;
+
+      const created = this.createProposals(changes, chapter.id, source);
+      working = { ...working, codexProposals: this.addProposals(working, created) };
+
+      const state = this.loadState(novel.id);
+      this.saveState({ ...state, scanned: { ...state.scanned, [chapter.id]: hashContent(chapter.content) } });
+      onChapterScanned?.(created, chapter);
+    }
+    return working.codexProposals ?? [];
+  }
+
+  /**
+   * 把提取结果包装为建议
+   */
+  static createProposals(
+    changes: ExtractedChange[],
+    chapterId: string,
+    source: CodexProposal['source'],
+    now: Date = new Date()
+  ): CodexProposal[] {
+    return changes.map(({ change, evidence }) => ({
+      id: createProposalId(),
+      change,
+      chapterId,
+      ...(evidence && { evidence }),
+      source,
+      createdAt: now.toISOString(),
+    }));
+  }
+
+  /**
+   * 对照当前设定调整一项修改；设定中已经有的返回 null
+   */
+  static normalizeChange(novel: Novel, change: CodexProposalChange): CodexProposalChange | null {
+    switch (change.kind) {
+      case 'character':
+        return findCharacter(novel, change.name) ? null : change;
+      case 'traits': {
+        const character = findCharacter(novel, change.name);
+        if (!character) return null;
+        const traits = change.traits.filter(t => !character.traits.includes(t));
+        return traits.length > 0 ? { ...change, traits } : null;
+      }
+      case 'location':
+        return novel.locations?.some(l => sameName(l.name, change.name)) ? null : change;
+      case 'item':
+        return findItem(novel, change.name) ? null : change;
+      case 'owner': {
+        const item = findItem(novel, change.item);
+        if (!item) return null;
+        const currentOwner = novel.characters?.find(c => c.id === item.owner);
+        return sameName(currentOwner?.name, change.owner) ? null : change;
+      }
+      case 'relation': {
+        const source = findCharacter(novel, change.source);
+        const target = findCharacter(novel, change.target);
+        const existing = source && target ? findActiveRelation(novel, source.id, target.id) : undefined;
+        return existing && sameName(existing.relationType, change.relationType) ? null : change;
+      }
+      case 'event':
+        return novel.timelineEvents?.some(e => sameName(e.title, change.title)) ? null : change;
+    }
+  }
+
+  /**
+   * 把新提出的建议并入作品的待审建议：去掉设定中已有、已忽略或重复的修改；
+   * 同一修改已在后面的章节提出时改记为更靠前的章节
+   *
+   * @returns 没有变化时返回原数组
+   */
+  static addProposals(novel: Novel, created: CodexProposal[]): CodexProposal[] {
+    const pending = novel.codexProposals ?? [];
+    const dismissed = new Set(this.loadState(novel.id).dismissed);
+    let next = pending;
+
+    created.forEach(proposal => {
+      const change = this.normalizeChange(novel, proposal.change);
+      if (!change) return;
+      const key = this.fingerprint(change);
+      if (dismissed.has(key)) return;
+
+      const existing = next.find(p => this.fingerprint(p.change) === key);
+      if (!existing) {
+        next = [...next, { ...proposal, change }];
+      } else if (chapterIndex(novel, proposal.chapterId) < chapterIndex(novel, existing.chapterId)) {
+        next = next.map(p => (p === existing ? { ...p, chapterId: proposal.chapterId, evidence: proposal.evidence ?? p.evidence } : p));
+      }
+    });
+    return next;
+  }
+
+  // ---------- 审阅 ----------
+
+  /**
+   * 建议与设定现状的对比
+   */
+  static describe(novel: Novel, proposal: CodexProposal): ProposalDiff {
+    const { change } = proposal;
+    switch (change.kind) {
+      case 'character':
+        return {
+          title: `新人物「${change.name}」`,
+          fields: [
+            { label: '身份', after: change.role },
+            { label: '简介', after: change.description },
+            { label: '特征', after: change.traits.join('、') },
+          ].filter(f => f.after),
+        };
+      case 'traits': {
+        const existing = findCharacter(novel, change.name)?.traits ?? [];
+        return {
+          title: `人物「${change.name}」的新特征`,
+          fields: [{ label: '特征', before: existing.join('、') || '无', after: [...existing, ...change.traits].join('、') }],
+        };
+      }
+      case 'location':
+        return {
+          title: `新地点「${change.name}」`,
+          fields: [
+            { label: '类型', after: change.type },
+            { label: '描述', after: change.description },
+          ].filter(f => f.after),
+        };
+      case 'item':
+        return {
+          title: `新道具「${change.name}」`,
+          fields: [
+            { label: '类型', after: ITEM_TYPE_LABELS[change.type] },
+            { label: '描述', after: change.description },
+            { label: '拥有者', after: change.owner ?? '' },
+          ].filter(f => f.after),
+        };
+      case 'owner': {
+        const item = findItem(novel, change.item);
+        const before = novel.characters?.find(c => c.id === item?.owner)?.name ?? '无';
+        return { title: `道具「${change.item}」易主`, fields: [{ label: '拥有者', before, after: change.owner }] };
+      }
+      case 'relation': {
+        const source = findCharacter(novel, change.source);
+        const target = findCharacter(novel, change.target);
+        const existing = source && target ? findActiveRelation(novel, source.id, target.id) : undefined;
+        return {
+          title: `人物关系：${change.source} ↔ ${change.target}`,
+          fields: [
+            { label: '关系', before: existing?.relationType, after: change.relationType },
+            { label: '说明', before: existing?.description || undefined, after: change.description },
+          ].filter(f => f.after),
+        };
+      }
+      case 'event':
+        return {
+          title: `新事件「${change.title}」`,
+          fields: [
+            { label: '时间', after: chapterLabel(novel, proposal.chapterId) },
+            { label: '描述', after: change.description },
+            { label: '人物', after: change.characters.join('、') },
+            { label: '地点', after: change.location ?? '' },
+          ].filter(f => f.after),
+        };
+    }
+  }
+
+  /**
+   * 暂时无法批准的原因（引用的人物或道具不在设定中），可以批准时返回 null
+   */
+  static explainBlocked(novel: Novel, proposal: CodexProposal): string | null {
+    const requireCharacter = (name: string) => (findCharacter(novel, name) ? null : `人物「${name}」还不在设定中，请先添加或批准该人物`);
+    const { change } = proposal;
+    switch (change.kind) {
+      case 'character':
+        return findCharacter(novel, change.name) ? `人物「${change.name}」已在设定中` : null;
+      case 'traits':
+        return requireCharacter(change.name);
+      case 'item':
+        return change.owner ? requireCharacter(change.owner) : null;
+      case 'owner':
+        return findItem(novel, change.item) ? requireCharacter(change.owner) : `道具「${change.item}」还不在设定中`;
+      case 'relation':
+        return requireCharacter(change.source) ?? requireCharacter(change.target);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 批准建议：返回写入设定后的字段（含去掉该建议后的 codexProposals）；找不到或暂时无法批准时返回 null
+   */
+  static approve(novel: Novel, proposalId: string, now: Date = new Date()): Partial<Novel> | null {
+    const proposal = novel.codexProposals?.find(p => p.id === proposalId);
+    if (!proposal || this.explainBlocked(novel, proposal)) return null;
+
+    const createdAt = now.toISOString();
+    const { change, chapterId } = proposal;
+    const codexProposals = novel.codexProposals!.filter(p => p.id !== proposalId);
+    const characterId = (name: string) => findCharacter(novel, name)!.id;
+
+    switch (change.kind) {
+      case 'character': {
+        const character: Character = {
+          id: createCharacterId(),
+          name: change.name,
+          role: change.role,
+          description: change.description,
+          traits: change.traits,
+          firstChapterId: chapterId,
+          createdAt,
+        };
+        return { characters: [...(novel.characters ?? []), character], codexProposals };
+      }
+      case 'traits':
+        return {
+          characters: novel.characters!.map(c =>
+            sameName(c.name, change.name) ? { ...c, traits: [...c.traits, ...change.traits.filter(t => !c.traits.includes(t))] } : c
+          ),
+          codexProposals,
+        };
+      case 'location': {
+        const location: Location = {
+          id: createLocationId(),
+          name: change.name,
+          type: change.type,
+          description: change.description,
+          firstChapterId: chapterId,
+          createdAt,
+        };
+        return { locations: [...(novel.locations ?? []), location], codexProposals };
+      }
+      case 'item': {
+        const item: Item = {
+          id: createItemId(),
+          name: change.name,
+          type: change.type,
+          description: change.description,
+          ...(change.owner && { owner: characterId(change.owner) }),
+          firstChapterId: chapterId,
+          createdAt,
+        };
+        return { items: [...(novel.items ?? []), item], codexProposals };
+      }
+      case 'owner':
+        return {
+          items: novel.items!.map(i => (sameName(i.name, change.item) ? { ...i, owner: characterId(change.owner) } : i)),
+          codexProposals,
+        };
+      case 'relation': {
+        const sourceId = characterId(change.source);
+        const targetId = characterId(change.target);
+        const previous = findActiveRelation(novel, sourceId, targetId);
+        // 关系变化：原关系在本章结束，新关系从本章开始
+        const relations = (novel.characterRelations ?? []).map(r => (r === previous ? { ...r, endChapterId: chapterId } : r));
+        const relation: CharacterRelation = {
+          id: createRelationId(),
+          sourceId,
+          targetId,
+          relationType: change.relationType,
+          description: change.description,
+          startChapterId: chapterId,
+          createdAt,
+        };
+        return { characterRelations: [...relations, relation], codexProposals };
+      }
+      case 'event': {
+        const event: TimelineEvent = {
+          id: createTimelineId(),
+          title: change.title,
+          time: chapterLabel(novel, chapterId),
+          description: change.description,
+          ...(change.location && { location: change.location }),
+          characters: change.characters.map(name => findCharacter(novel, name)?.id).filter((id): id is string => Boolean(id)),
+          createdAt,
+        };
+        return { timelineEvents: [...(novel.timelineEvents ?? []), event], codexProposals };
+      }
+    }
+  }
+
+  /**
+   * 忽略建议：从待审建议中移除，并记住该修改，之后扫描不再提出
+   */
+  static reject(novel: Novel, proposalId: string): CodexProposal[] {
+    const pending = novel.codexProposals ?? [];
+    const proposal = pending.find(p => p.id === proposalId);
+    if (!proposal) return pending;
+
+    const state = this.loadState(novel.id);
+    const key = this.fingerprint(proposal.change);
+    if (!state.dismissed.includes(key)) {
+      this.saveState({ ...state, dismissed: [...state.dismissed, key] });
+    }
+    return pending.filter(p => p.id !== proposalId);
+  }
+}
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Chapter, CodexProposal, Novel } from '../../../types';
+import type { TextGenerator } from '../../api/textGeneration';
+import { CodexExtractionService } from '../CodexExtractionService';
+
+const chapter = (id: string, content: string): Chapter => ({
+  id,
+  title: `第${id}章`,
+  content,
+  wordCount: content.length,
+});
+
+const baseNovel = (overrides: Partial<Novel> = {}): Novel => ({
+  id: 'n1',
+  title: '青云志',
+  chapters: [
+    chapter('1', '林凡来到青云城，见到了师父。'),
+    chapter('2', '林凡从苏瑶手中接过青锋剑。'),
+    chapter('3', '林凡与苏瑶反目成仇。'),
+  ],
+  characters: [
+    { id: 'c1', name: '林凡', role: '主角', description: '', traits: ['坚毅'], createdAt: '' },
+    { id: 'c2', name: '苏瑶', role: '配角', description: '', traits: [], createdAt: '' },
+  ],
+  locations: [],
+  items: [{ id: 'i1', name: '青锋剑', type: 'weapon', description: '', owner: 'c2', createdAt: '' }],
+  characterRelations: [
+    { id: 'r1', sourceId: 'c1', targetId: 'c2', relationType: '朋友', description: '', createdAt: '' },
+  ],
+  timelineEvents: [],
+  ...overrides,
+} as Novel);
+
+const modelOutput = JSON.stringify({
+  characters: [{ name: '陈长老', role: '配角', description: '青云宗长老', traits: ['严厉'], evidence: '陈长老冷哼一声' }],
+  traits: [{ name: '林凡', traits: ['坚毅', '机敏'] }],
+  locations: [{ name: '青云城', type: '城市', description: '' }],
+  items: [{ name: '玄铁令', type: 'unknown', description: '宗门信物', owner: '林凡' }],
+  owners: [{ item: '青锋剑', owner: '林凡' }],
+  relations: [{ source: '苏瑶', target: '林凡', relationType: '敌人', description: '反目成仇' }, { source: '林凡', target: '林凡', relationType: '自己' }],
+  events: [{ title: '反目', description: '林凡与苏瑶反目', characters: ['林凡', '苏瑶', '路人'] }],
+});
+
+const proposals = (novel: Novel, chapterId = '2'): CodexProposal[] => {
+  const parsed = CodexExtractionService.parseResponse(modelOutput)!;
+  return CodexExtractionService.addProposals(novel, CodexExtractionService.createProposals(parsed, chapterId, 'ai'));
+};
+
+describe('CodexExtractionService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should parse model output and drop incomplete entries', () => {
+    const parsed = CodexExtractionService.parseResponse(`结果如下：\n\`\`\`json\n${modelOutput}\n\`\`\``);
+
+    expect(parsed!.map(p => p.change.kind)).toEqual(['character', 'traits', 'location', 'item', 'owner', 'relation', 'event']);
+    expect(parsed![0].evidence).toBe('陈长老冷哼一声');
+    expect(parsed![3].change).toMatchObject({ kind: 'item', type: 'other', owner: '林凡' });
+    expect(CodexExtractionService.parseResponse('没有新的设定')).toBeNull();
+  });
+
+  it('should only queue changes that differ from the codex', () => {
+    const queued = proposals(baseNovel());
+
+    expect(queued.map(p => p.change)).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kind: 'traits', traits: ['机敏'] }),
+      expect.objectContaining({ kind: 'owner', item: '青锋剑', owner: '林凡' }),
+    ]));
+    expect(queued).toHaveLength(7);
+
+    // 拥有者未变、关系未变的修改不再提出
+    const unchanged = baseNovel({
+      items: [{ id: 'i1', name: '青锋剑', type: 'weapon', description: '', owner: 'c1', createdAt: '' }],
+      characterRelations: [{ id: 'r1', sourceId: 'c2', targetId: 'c1', relationType: '敌人', description: '', createdAt: '' }],
+    });
+    expect(proposals(unchanged).map(p => p.change.kind)).not.toContain('owner');
+    expect(proposals(unchanged).map(p => p.change.kind)).not.toContain('relation');
+  });
+
+  it('should keep the earliest chapter a change occurs in', () => {
+    const novel = baseNovel();
+    const later = { ...novel, codexProposals: proposals(novel, '3') };
+    const merged = proposals(later, '2');
+
+    expect(merged).toHaveLength(later.codexProposals.length);
+    expect(merged.every(p => p.chapterId === '2')).toBe(true);
+    expect(proposals({ ...later, codexProposals: merged }, '3')).toBe(merged);
+  });
+
+  it('should apply approved changes and record where they start', () => {
+    let novel = baseNovel();
+    novel = { ...novel, codexProposals: proposals(novel) };
+    const find = (kind: string) => novel.codexProposals!.find(p => p.change.kind === kind)!;
+
+    // 新道具的拥有者按名称对应到人物
+    const itemPatch = CodexExtractionService.approve(novel, find('item').id)!;
+    expect(itemPatch.items!.at(-1)).toMatchObject({ name: '玄铁令', owner: 'c1', firstChapterId: '2' });
+    expect(itemPatch.codexProposals).toHaveLength(6);
+
+    const relationPatch = CodexExtractionService.approve(novel, find('relation').id)!;
+    expect(relationPatch.characterRelations).toEqual([
+      expect.objectContaining({ id: 'r1', relationType: '朋友', endChapterId: '2' }),
+      expect.objectContaining({ sourceId: 'c2', targetId: 'c1', relationType: '敌人', startChapterId: '2' }),
+    ]);
+
+    const eventPatch = CodexExtractionService.approve(novel, find('event').id)!;
+    expect(eventPatch.timelineEvents![0]).toMatchObject({ time: '第2章', characters: ['c1', 'c2'] });
+
+    expect(CodexExtractionService.describe(novel, find('owner')).fields).toEqual([
+      { label: '拥有者', before: '苏瑶', after: '林凡' },
+    ]);
+  });
+
+  it('should block changes that reference characters not yet in the codex', () => {
+    const novel = baseNovel();
+    const [proposal] = CodexExtractionService.createProposals([
+      { change: { kind: 'relation', source: '林凡', target: '陈长老', relationType: '师徒', description: '' } },
+    ], '1', 'ai');
+    const pending = { ...novel, codexProposals: [proposal] };
+
+    expect(CodexExtractionService.explainBlocked(pending, proposal)).toContain('陈长老');
+    expect(CodexExtractionService.approve(pending, proposal.id)).toBeNull();
+  });
+
+  it('should not propose rejected changes again', () => {
+    const novel = baseNovel();
+    const queued = proposals(novel);
+    const character = queued.find(p => p.change.kind === 'character')!;
+
+    const remaining = CodexExtractionService.reject({ ...novel, codexProposals: queued }, character.id);
+    expect(remaining).toHaveLength(queued.length - 1);
+    expect(proposals(novel).map(p => p.change.kind)).not.toContain('character');
+  });
+
+  it('should scan unscanned chapters and fall back to rules when the output cannot be parsed', async () => {
+    const dialogue = '林凡说道：「走吧。」\n林凡说道：「快走。」\n他们来到落霞谷，四下无人。';
+    const novel = baseNovel({ characters: [], chapters: [chapter('1', dialogue), chapter('2', '')] });
+    const generateText = vi.fn<TextGenerator>(async () => '无法识别');
+    const scanned = vi.fn();
+
+    const created = await CodexExtractionService.scanChapters(novel, { model: 'm', generateText, onChapterScanned: scanned });
+
+    expect(generateText).toHaveBeenCalledTimes(1);
+    expect(generateText.mock.calls[0][2].usage).toEqual({ feature: 'codex', novelId: 'n1' });
+    expect(created.map(p => [p.change.kind, 'name' in p.change && p.change.name, p.source])).toEqual([
+      ['character', '林凡', 'rule'],
+      ['location', '落霞谷', 'rule'],
+    ]);
+    expect(scanned).toHaveBeenCalledWith(expect.any(Array), novel.chapters[0]);
+    expect(CodexExtractionService.getChaptersToScan(novel)).toEqual([]);
+    expect(CodexExtractionService.getChaptersToScan(novel, ['1'])).toEqual([novel.chapters[0]]);
+  });
+
+  it('should list proposals from earlier chapters in the batch when prompting for later ones', async () => {
+    const generateText = vi.fn<TextGenerator>(async prompt => (prompt.includes('第1章') ? modelOutput : '{}'));
+
+    await CodexExtractionService.scanChapters(baseNovel(), { model: 'm', chapterIds: ['1', '2'], generateText });
+
+    const [first, second] = generateText.mock.calls.map(([prompt]) => prompt);
+    expect(first).not.toContain('等待作者审阅');
+    expect(second).toContain('新人物「陈长老」');
+  });
+});
@@ -2,9 +2,13 @@
  * @fileoverview 协作服务
  * @module services/collaboration/CollaborationService
  * @description 提供多用户协作功能，包括实时状态同步、光标位置、在线用户等
- * @version 1.0.0
+ * @version 2.0.0
  */
 
+import { TextCrdt, diffText, shouldReplaceSeed, type CrdtOperation } from './TextCrdt';
+import { BroadcastChannelTransport, type CollaborationTransport } from './CollaborationTransport';
+import { WebSocketCollaborationTransport } from './WebSocketCollaborationTransport';
+
 // ==================== 类型定义 ====================
 
 /**
@@ -106,6 +110,8 @@ export interface CollaborationOperation {
     length?: number;
     format?: Record<string, unknown>;
     targetPosition?: CursorPosition;
+    /** 对应的 CRDT 操作，各端据此合并并发编辑 */
+    crdt?: CrdtOperation[];
   };
   /** 操作时间戳 */
   timestamp: number;
@@ -158,7 +164,8 @@ export type CollaborationEventType =
   | 'cursor_update'    // 光标更新
   | 'selection_update' // 选区更新
   | 'operation_received'   // 收到操作
-  | 'conflict_detected'    // 检测到冲突
+  | 'conflict_detected'    // 检测到冲突（本地操作因协同文档重建而丢弃）
+  | 'content_change'   // 协同文档内容变化（{ chapterId, content, replaced? }，replaced 为改用更早种子时被取代的正文）
   | 'sync_complete'    // 同步完成
   | 'error';           // 错误
 
@@ -188,9 +195,38 @@ export interface ResourceLock {
   expiresAt?: number;
 }
 
+/**
+ * 协作设置
+ */
+export interface CollaborationSettings {
+  /** 是否在编辑器中启用实时协作 */
+  enabled: boolean;
+  /** 中继服务器地址（ws:// 或 wss://），为空时只在本机标签页之间协作 */
+  serverUrl: string;
+  /** 访问令牌，同一令牌的作者才能互相看到 */
+  token: string;
+  /** 显示给其他作者的名字 */
+  displayName: string;
+}
+
+/**
+ * 协同文档：一个章节正文的 CRDT 副本
+ */
+interface CollaborativeDocument {
+  crdt: TextCrdt;
+  /** 收到和发出的全部操作，用于回放给新加入者和种子更替时重建 */
+  log: CollaborationOperation[];
+  /** 依赖尚未到达、暂缓应用的 CRDT 操作 */
+  pending: { operation: CollaborationOperation; remaining: CrdtOperation[] }[];
+  /** 本端编辑器是否已打开该章节 */
+  opened: boolean;
+}
+
 // ==================== 常量定义 ====================
 
 const COLLABORATION_STORAGE_KEY = 'tiandao_collaboration_state';
+const COLLABORATION_SETTINGS_KEY = 'tiandao_collaboration_settings';
+const COLLABORATION_SESSION_KEY = 'tiandao_collaboration_session';
 const PRESENCE_INTERVAL_MS = 30000; // 30秒发送一次存在信号
 const INACTIVE_THRESHOLD_MS = 120000; // 2分钟不活跃视为离线
 const OPERATION_BATCH_INTERVAL_MS = 100; // 操作批处理间隔
@@ -202,6 +238,62 @@ const COLLABORATOR_COLORS = [
   '#BB8FCE', '#85C1E9', '#F8B500', '#00CED1'
 ];
 
+export const DEFAULT_COLLABORATION_SETTINGS: CollaborationSettings = {
+  enabled: false,
+  serverUrl: '',
+  token: '',
+  displayName: '',
+};
+
+/**
+ * 获取本标签页的协作者标识
+ *
+ * 存在 sessionStorage 中：刷新后保持不变，同一浏览器的两个标签页互为不同的协作者。
+ */
+export const getCollaborationSessionId = (): string => {
+  let sessionId = sessionStorage.getItem(COLLABORATION_SESSION_KEY);
+  if (!sessionId) {
+    sessionId = `user_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+    sessionStorage.setItem(COLLABORATION_SESSION_KEY, sessionId);
+  }
+  return sessionId;
+};
+
+/**
+ * 根据配置创建传输层，未填写中继服务器时使用标签页间传输层
+ */
+export const createCollaborationTransport = (settings: CollaborationSettings): CollaborationTransport => {
+  if (!settings.serverUrl.trim()) {
+    return new BroadcastChannelTransport();
+  }
+  return new WebSocketCollaborationTransport({
+    url: settings.serverUrl.trim(),
+    token: settings.token.trim() || undefined,
+  });
+};
+
+/**
+ * 光标位置 → 正文中的字符偏移（段落以换行分隔）
+ */
+export const toTextOffset = (content: string, position: Pick<CursorPosition, 'paragraphIndex' | 'offset'>): number => {
+  const paragraphs = content.split('\n');
+  const paragraphIndex = Math.min(Math.max(position.paragraphIndex, 0), paragraphs.length - 1);
+  let offset = 0;
+  for (let i = 0; i < paragraphIndex; i++) {
+    offset += paragraphs[i].length + 1;
+  }
+  return offset + Math.min(Math.max(position.offset, 0), paragraphs[paragraphIndex].length);
+};
+
+/**
+ * 正文中的字符偏移 → 光标位置
+ */
+export const toCursorPosition = (content: string, chapterId: string, offset: number): CursorPosition => {
+  const before = content.slice(0, Math.max(0, offset));
+  const paragraphIndex = before.split('\n').length - 1;
+  return { chapterId, paragraphIndex, offset: before.length - (before.lastIndexOf('\n') + 1) };
+};
+
 // ==================== 协作服务类 ====================
 
 /**
@@ -211,9 +303,10 @@ const COLLABORATOR_COLORS = [
  * 提供以下功能：
  * 1. 实时协作者状态管理
  * 2. 光标和选区同步
- * 3. 操作同步与冲突解决
+ * 3. 操作同步：章节正文以字符级 CRDT 合并并发编辑，各端最终一致
  * 4. 资源锁定机制
  * 5. 离线支持与重连
+ * 6. 通过 CollaborationTransport 收发消息：默认标签页之间，配置中继服务器后跨设备
  *
  * @example
  * // 初始化并加入协作
@@ -227,14 +320,16 @@ const COLLABORATOR_COLORS = [
  *   offset: 100
  * });
  *
- * // 发送操作
- * collaborationService.sendOperation({
- *   type: 'insert',
- *   position: { chapterId: 'chapter_1', paragraphIndex: 5, offset: 100 },
- *   data: { content: '新内容' }
+ * // 打开章节的协同文档，之后把编辑器的新正文交给服务，由服务计算并广播操作
+ * collaborationService.openDocument('chapter_1', chapter.content);
+ * collaborationService.applyLocalChange('chapter_1', newContent);
+ *
+ * // 其他作者的编辑合并后通过 content_change 事件返回
+ * collaborationService.on('content_change', (event) => {
+ *   const { chapterId, content } = event.data as { chapterId: string; content: string };
  * });
  */
-class CollaborationService {
+export class CollaborationService {
   private currentUser: Collaborator | null = null;
   private collaborators: Map<string, Collaborator> = new Map();
   private operationQueue: CollaborationOperation[] = [];
@@ -242,11 +337,14 @@ class CollaborationService {
   private serverVersion: number = 0;
   private currentResource: { type: string; id: string } | null = null;
   private eventListeners: Map<CollaborationEventType, Set<CollaborationEventCallback>> = new Map();
-  private broadcastChannel: BroadcastChannel | null = null;
+  private transport: CollaborationTransport | null = null;
   private presenceInterval: ReturnType<typeof setInterval> | null = null;
   private operationBatchTimeout: ReturnType<typeof setTimeout> | null = null;
   private locks: Map<string, ResourceLock> = new Map();
-  private pendingOperations: CollaborationOperation[] = [];
+  private documents: Map<string, CollaborativeDocument> = new Map();
+  private seenOperations: Set<string> = new Set();
+  /** 本次会话的 CRDT 客户端 id，刷新页面后重新生成，避免字符 id 与上次会话重复 */
+  private crdtClientId: string = `crdt_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
   private initialized: boolean = false;
   private isConnected: boolean = false;
 
@@ -265,15 +363,10 @@ class CollaborationService {
       lastActiveAt: Date.now()
     };
 
-    // 设置 BroadcastChannel 用于跨标签页同步
-    try {
-      this.broadcastChannel = new BroadcastChannel('tiandao_collaboration');
-      this.broadcastChannel.onmessage = (event) => {
-        this.handleBroadcastMessage(event.data);
-      };
-    } catch (e) {
-      console.warn('[CollaborationService] BroadcastChannel 不可用');
+    if (!this.transport) {
+      this.transport = createCollaborationTransport(this.getSettings());
     }
+    this.connectTransport();
 
     this.loadFromStorage();
     this.startPresenceHeartbeat();
@@ -282,6 +375,98 @@ class CollaborationService {
     console.log('[CollaborationService] 初始化完成');
   }
 
+  /**
+   * 获取协作设置
+   */
+  getSettings(): CollaborationSettings {
+    try {
+      const stored = localStorage.getItem(COLLABORATION_SETTINGS_KEY);
+      if (stored) {
+        return { ...DEFAULT_COLLABORATION_SETTINGS, ...JSON.parse(stored) };
+      }
+    } catch (error) {
+      console.warn('[CollaborationService] 读取协作设置失败:', error);
+    }
+    return DEFAULT_COLLABORATION_SETTINGS;
+  }
+
+  /**
+   * 保存协作设置，中继服务器或令牌变化时切换传输层
+   */
+  configure(settings: CollaborationSettings): void {
+    const previous = this.getSettings();
+    localStorage.setItem(COLLABORATION_SETTINGS_KEY, JSON.stringify(settings));
+    if (previous.serverUrl !== settings.serverUrl || previous.token !== settings.token) {
+      this.setTransport(createCollaborationTransport(settings));
+    }
+  }
+
+  /**
+   * 替换传输层；已初始化时立即连接，并重新加入当前资源
+   */
+  setTransport(transport: CollaborationTransport): void {
+    this.transport?.close();
+    this.transport = transport;
+    if (this.initialized) {
+      this.connectTransport();
+    }
+  }
+
+  /**
+   * 当前传输层是否跨设备
+   */
+  isRemote(): boolean {
+    return this.transport?.remote ?? false;
+  }
+
+  /**
+   * 连接传输层
+   */
+  private connectTransport(): void {
+    const transport = this.transport;
+    transport?.connect({
+      onMessage: (message) => this.handleBroadcastMessage(message),
+      onOpen: () => {
+        if (this.transport === transport) this.announceJoin();
+      },
+      onClose: () => {
+        if (this.transport === transport) {
+          this.emit('error', { message: '与协作服务器的连接已断开，正在重连' });
+        }
+      },
+    });
+  }
+
+  /**
+   * 向当前资源广播加入消息并请求同步（加入时和断线重连后）
+   */
+  private announceJoin(): void {
+    if (!this.currentUser || !this.currentResource) return;
+    const { type: resourceType, id: resourceId } = this.currentResource;
+
+    this.broadcastMessage({
+      type: 'join',
+      senderId: this.currentUser.userId,
+      resourceType,
+      resourceId,
+      data: {
+        user: this.currentUser
+      },
+      timestamp: Date.now()
+    });
+
+    this.broadcastMessage({
+      type: 'sync_request',
+      senderId: this.currentUser.userId,
+      resourceType,
+      resourceId,
+      data: {
+        version: this.localVersion
+      },
+      timestamp: Date.now()
+    });
+  }
+
   /**
    * 分配协作者颜色
    */
@@ -304,7 +489,6 @@ class CollaborationService {
       if (stored) {
         const data = JSON.parse(stored);
         this.localVersion = data.localVersion || 0;
-        this.pendingOperations = data.pendingOperations || [];
       }
     } catch (error) {
       console.error('[CollaborationService] 加载状态失败:', error);
@@ -317,8 +501,7 @@ class CollaborationService {
   private saveToStorage(): void {
     try {
       const data = {
-        localVersion: this.localVersion,
-        pendingOperations: this.pendingOperations
+        localVersion: this.localVersion
       };
       localStorage.setItem(COLLABORATION_STORAGE_KEY, JSON.stringify(data));
     } catch (error) {
@@ -391,29 +574,10 @@ class CollaborationService {
     this.currentUser.currentResource = this.currentResource;
     this.isConnected = true;
 
-    // 广播加入消息
-    this.broadcastMessage({
-      type: 'join',
-      senderId: this.currentUser.userId,
-      resourceType,
-      resourceId,
-      data: {
-        user: this.currentUser
-      },
-      timestamp: Date.now()
-    });
-
-    // 请求同步
-    this.broadcastMessage({
-      type: 'sync_request',
-      senderId: this.currentUser.userId,
-      resourceType,
-      resourceId,
-      data: {
-        version: this.localVersion
-      },
-      timestamp: Date.now()
-    });
+    // 传输层尚未连上时，由连接建立后的 onOpen 补发
+    if (this.transport?.isOpen()) {
+      this.announceJoin();
+    }
 
     this.emit('connected', { resourceType, resourceId });
   }
@@ -424,6 +588,13 @@ class CollaborationService {
   async leave(): Promise<void> {
     if (!this.currentResource || !this.currentUser) return;
 
+    // 先发出尚未发送的操作
+    if (this.operationBatchTimeout) {
+      clearTimeout(this.operationBatchTimeout);
+      this.operationBatchTimeout = null;
+    }
+    this.flushOperations();
+
     // 广播离开消息
     this.broadcastMessage({
       type: 'leave',
@@ -444,6 +615,8 @@ class CollaborationService {
     });
 
     this.collaborators.clear();
+    this.documents.clear();
+    this.seenOperations.clear();
     this.currentResource = null;
     this.currentUser.currentResource = undefined;
     this.isConnected = false;
@@ -509,8 +682,14 @@ class CollaborationService {
       version: ++this.localVersion
     };
 
-    // 添加到待处理队列
-    this.pendingOperations.push(fullOperation);
+    // 已打开协同文档的章节：在本地副本上执行，附带 CRDT 操作
+    const document = this.documents.get(operation.position.chapterId);
+    if (document && !operation.data.crdt) {
+      fullOperation.data = { ...operation.data, crdt: this.toCrdtOperations(document, fullOperation) };
+    }
+    document?.log.push(fullOperation);
+    this.seenOperations.add(fullOperation.id);
+
     this.operationQueue.push(fullOperation);
     this.saveToStorage();
 
@@ -518,6 +697,191 @@ class CollaborationService {
     this.scheduleBatchSend();
   }
 
+  /**
+   * 把按位置描述的操作转换为 CRDT 操作，并应用到本地副本
+   */
+  private toCrdtOperations(document: CollaborativeDocument, operation: CollaborationOperation): CrdtOperation[] {
+    const { crdt } = document;
+    const index = toTextOffset(crdt.toString(), operation.position);
+    const ops: (CrdtOperation | null)[] = [];
+
+    if (operation.type === 'delete' || operation.type === 'replace') {
+      ops.push(crdt.delete(index, operation.data.length ?? 0));
+    }
+    if (operation.type === 'insert' || operation.type === 'replace') {
+      ops.push(crdt.insert(index, operation.data.content ?? ''));
+    }
+    return ops.filter((op): op is CrdtOperation => op !== null);
+  }
+
+  /**
+   * 打开章节的协同文档
+   *
+   * 已从其他作者处收到该章节的文档时沿用该文档，否则以 content 为初始文本创建并广播种子。
+   * 多个作者以不同文本同时创建时，最早的种子生效，其余各端随之重建。
+   *
+   * @returns 协同文档当前的正文（可能与传入的 content 不同，调用方应以此为准）
+   */
+  openDocument(chapterId: string, content: string): string {
+    if (!this.currentUser || !this.currentResource) return content;
+
+    const document = this.getDocument(chapterId);
+    document.opened = true;
+
+    if (!document.crdt.getSeed()) {
+      const seed = document.crdt.seed(content);
+      this.sendOperation({
+        type: 'insert',
+        resourceType: this.currentResource.type,
+        resourceId: this.currentResource.id,
+        position: { chapterId, paragraphIndex: 0, offset: 0 },
+        data: { content, crdt: [seed] },
+      });
+      this.retryPending(document);
+    }
+
+    return document.crdt.toString();
+  }
+
+  /**
+   * 获取协同文档的当前正文，未打开时返回 null
+   */
+  getDocumentContent(chapterId: string): string | null {
+    const document = this.documents.get(chapterId);
+    return document?.opened ? document.crdt.toString() : null;
+  }
+
+  /**
+   * 提交编辑器中的新正文
+   *
+   * 与协同文档的当前正文比较，把差异转换为 insert / delete / replace 操作广播给其他作者。
+   */
+  applyLocalChange(chapterId: string, content: string): void {
+    const document = this.documents.get(chapterId);
+    if (!document?.opened || !this.currentResource) return;
+
+    const previous = document.crdt.toString();
+    const diff = diffText(previous, content);
+    if (!diff) return;
+
+    this.sendOperation({
+      type: diff.deleteCount > 0 && diff.insert ? 'replace' : diff.insert ? 'insert' : 'delete',
+      resourceType: this.currentResource.type,
+      resourceId: this.currentResource.id,
+      position: toCursorPosition(previous, chapterId, diff.index),
+      data: {
+        ...(diff.insert ? { content: diff.insert } : {}),
+        ...(diff.deleteCount > 0 ? { length: diff.deleteCount } : {}),
+      },
+    });
+  }
+
+  private getDocument(chapterId: string): CollaborativeDocument {
+    let document = this.documents.get(chapterId);
+    if (!document) {
+      document = { crdt: new TextCrdt(this.crdtClientId), log: [], pending: [], opened: false };
+      this.documents.set(chapterId, document);
+    }
+    return document;
+  }
+
+  /**
+   * 应用收到的操作，返回内容有变化的已打开章节，值为改用更早种子时被取代的正文
+   */
+  private receiveOperations(operations: CollaborationOperation[]): Map<string, string | undefined> {
+    const changed = new Map<string, string | undefined>();
+
+    operations.forEach(op => {
+      if (this.seenOperations.has(op.id)) return;
+      this.seenOperations.add(op.id);
+      this.serverVersion = Math.max(this.serverVersion, op.version);
+
+      const chapterId = op.position?.chapterId;
+      if (op.data?.crdt?.length && chapterId) {
+        const document = this.getDocument(chapterId);
+        const before = document.crdt.toString();
+        document.log.push(op);
+
+        const reseeded = op.data.crdt.some(crdtOp => document.crdt.getSeed() && shouldReplaceSeed(document.crdt.getSeed(), crdtOp));
+        if (reseeded) {
+          this.rebuildDocument(document);
+        } else {
+          this.applyCrdtOperations(document, op, op.data.crdt);
+          this.retryPending(document);
+        }
+
+        if (document.opened && document.crdt.toString() !== before) {
+          changed.set(chapterId, changed.get(chapterId) ?? (reseeded ? before : undefined));
+        }
+      }
+
+      this.emit('operation_received', { operation: op });
+    });
+
+    return changed;
+  }
+
+  /**
+   * 依次应用 CRDT 操作，依赖未到达的部分暂缓
+   */
+  private applyCrdtOperations(document: CollaborativeDocument, operation: CollaborationOperation, ops: CrdtOperation[]): boolean {
+    for (let i = 0; i < ops.length; i++) {
+      if (!document.crdt.apply(ops[i])) {
+        document.pending.push({ operation, remaining: ops.slice(i) });
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 重试暂缓的操作，直到没有进展
+   */
+  private retryPending(document: CollaborativeDocument): void {
+    let progressed = true;
+    while (progressed && document.pending.length > 0) {
+      progressed = false;
+      const pending = document.pending;
+      document.pending = [];
+      pending.forEach(({ operation, remaining }) => {
+        if (this.applyCrdtOperations(document, operation, remaining)) {
+          progressed = true;
+        } else if (document.pending[document.pending.length - 1].remaining.length < remaining.length) {
+          progressed = true;
+        }
+      });
+    }
+  }
+
+  /**
+   * 以最早的种子重建协同文档，并按顺序重放其余操作
+   *
+   * 基于被取代种子的操作无法重放，其中本端发出的以 conflict_detected 事件通知。
+   */
+  private rebuildDocument(document: CollaborativeDocument): void {
+    const seeds = document.log.flatMap(op => (op.data.crdt ?? []).filter(crdtOp => crdtOp.type === 'seed'));
+    const winner = seeds.reduce<CrdtOperation | null>(
+      (best, seed) => (shouldReplaceSeed(best, seed) ? seed : best),
+      null
+    );
+
+    document.crdt = new TextCrdt(this.crdtClientId);
+    document.pending = [];
+    if (winner) document.crdt.apply(winner);
+
+    document.log.forEach(op => {
+      const ops = (op.data.crdt ?? []).filter(crdtOp => crdtOp.type !== 'seed');
+      if (ops.length > 0) this.applyCrdtOperations(document, op, ops);
+    });
+    this.retryPending(document);
+
+    const dropped = document.pending.filter(({ operation }) => operation.userId === this.currentUser?.userId);
+    document.pending = [];
+    dropped.forEach(({ operation }) => {
+      this.emit('conflict_detected', { operation, reason: '协作者已使用另一份正文开始协作，本机的这次修改未能合并' });
+    });
+  }
+
   /**
    * 调度批量发送
    */
@@ -655,13 +1019,7 @@ class CollaborationService {
    * 广播消息
    */
   private broadcastMessage(message: CollaborationMessage): void {
-    if (this.broadcastChannel) {
-      try {
-        this.broadcastChannel.postMessage(message);
-      } catch (error) {
-        console.error('[CollaborationService] 广播消息失败:', error);
-      }
-    }
+    this.transport?.send(message);
   }
 
   /**
@@ -772,20 +1130,20 @@ class CollaborationService {
   }
 
   /**
-   * 处理操作同步
+   * 处理操作同步：按 CRDT 合并到协同文档，不依赖到达顺序
    */
   private handleOperation(message: CollaborationMessage): void {
     const { operations } = message.data as { operations: CollaborationOperation[] };
+    this.emitContentChanges(this.receiveOperations(operations));
+  }
 
-    operations.forEach(op => {
-      // 检测冲突
-      if (op.version <= this.serverVersion) {
-        this.emit('conflict_detected', { operation: op });
-        return;
-      }
-
-      this.serverVersion = Math.max(this.serverVersion, op.version);
-      this.emit('operation_received', { operation: op });
+  /**
+   * 通知已打开章节的正文变化
+   */
+  private emitContentChanges(changes: Map<string, string | undefined>): void {
+    changes.forEach((replaced, chapterId) => {
+      const content = this.documents.get(chapterId)!.crdt.toString();
+      this.emit('content_change', { chapterId, content, ...(replaced !== undefined ? { replaced } : {}) });
     });
   }
 
@@ -801,13 +1159,11 @@ class CollaborationService {
   }
 
   /**
-   * 处理同步请求
+   * 处理同步请求（标签页间协作时由其他标签页应答，中继服务器会直接回放历史）
    */
   private handleSyncRequest(message: CollaborationMessage): void {
-    const { version } = message.data as { version: number };
-
-    // 发送当前版本之后的所有待处理操作
-    const relevantOps = this.pendingOperations.filter(op => op.version > version);
+    // 发送各协同文档的全部操作，新加入者据此得到与本端相同的文档
+    const relevantOps = [...this.documents.values()].flatMap(document => document.log);
 
     if (relevantOps.length > 0 && this.currentUser && this.currentResource) {
       this.broadcastMessage({
@@ -833,13 +1189,8 @@ class CollaborationService {
       version: number;
     };
 
-    // 应用缺失的操作
-    operations.forEach(op => {
-      if (op.version > this.serverVersion) {
-        this.serverVersion = op.version;
-        this.emit('operation_received', { operation: op });
-      }
-    });
+    // 应用缺失的操作（已收到的按 id 跳过）
+    this.emitContentChanges(this.receiveOperations(operations));
 
     this.emit('sync_complete', { version });
   }
@@ -942,10 +1293,10 @@ class CollaborationService {
     if (this.operationBatchTimeout) {
       clearTimeout(this.operationBatchTimeout);
     }
-    if (this.broadcastChannel) {
-      this.broadcastChannel.close();
-    }
+    this.transport?.close();
+    this.transport = null;
     this.collaborators.clear();
+    this.documents.clear();
     this.eventListeners.clear();
     this.initialized = false;
   }
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview 协作传输层接口
+ * @module services/collaboration/CollaborationTransport
+ * @description 定义 CollaborationService 收发协作消息的通道，以及未配置中继服务器时使用的标签页间实现
+ *
+ * 协议约定：
+ * - 消息为 CollaborationMessage，按资源（resourceType + resourceId）划分房间
+ * - 传输层只负责送达，不回送发送者自己的消息
+ * - 中继服务器会保存房间内的操作历史，收到 sync_request 时以 sync_response 回放给新加入者
+ */
+
+import type { CollaborationMessage } from './CollaborationService';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 传输层事件处理函数
+ */
+export interface CollaborationTransportHandlers {
+  /** 收到消息 */
+  onMessage: (message: CollaborationMessage) => void;
+  /** 连接建立（包括断线重连），此时应重新发送 join */
+  onOpen?: () => void;
+  /** 连接断开 */
+  onClose?: () => void;
+}
+
+/**
+ * 协作传输层
+ */
+export interface CollaborationTransport {
+  /** 传输层名称（用于日志和状态展示） */
+  readonly name: string;
+  /** 是否跨设备（中继服务器）；标签页间实现为 false */
+  readonly remote: boolean;
+  /** 建立连接 */
+  connect(handlers: CollaborationTransportHandlers): void;
+  /** 发送消息，未连接时由实现决定缓存或丢弃 */
+  send(message: CollaborationMessage): void;
+  /** 是否已连接 */
+  isOpen(): boolean;
+  /** 关闭连接 */
+  close(): void;
+}
+
+// ==================== 标签页间实现 ====================
+
+const BROADCAST_CHANNEL_NAME = 'tiandao_collaboration';
+
+/**
+ * 标签页间传输层
+ *
+ * 使用 BroadcastChannel，仅在同一浏览器的多个标签页之间协作。
+ */
+export class BroadcastChannelTransport implements CollaborationTransport {
+  readonly name = 'broadcast';
+  readonly remote = false;
+
+  private channel: BroadcastChannel | null = null;
+
+  connect(handlers: CollaborationTransportHandlers): void {
+    try {
+      this.channel = new BroadcastChannel(BROADCAST_CHANNEL_NAME);
+      this.channel.onmessage = (event) => handlers.onMessage(event.data);
+      handlers.onOpen?.();
+    } catch (e) {
+      console.warn('[CollaborationService] BroadcastChannel 不可用');
+    }
+  }
+
+  send(message: CollaborationMessage): void {
+    if (!this.channel) return;
+    try {
+      this.channel.postMessage(message);
+    } catch (error) {
+      console.error('[CollaborationService] 广播消息失败:', error);
+    }
+  }
+
+  isOpen(): boolean {
+    return this.channel !== null;
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * @fileoverview 字符级文本 CRDT
+ * @module services/collaboration/TextCrdt
+ * @description 基于 RGA（Replicated Growable Array）的协同文本，多人并发插入/删除后各端收敛到同一结果
+ *
+ * - 每个字符（UTF-16 码元，与 textarea 的光标偏移一致）有全局唯一的 id（客户端 + Lamport 时钟），
+ *   插入时记录其左侧字符（origin）
+ * - 同一位置的并发插入按 id 从大到小排列，与操作到达顺序无关
+ * - 删除只打墓碑标记，保证后到的插入仍能找到 origin
+ * - 初始文本作为种子（seed）操作，相同文本生成相同的字符 id；多个不同种子时最早的生效
+ */
+
+// ==================== 类型定义 ====================
+
+/**
+ * 字符 id
+ */
+export interface CharId {
+  client: string;
+  clock: number;
+}
+
+/**
+ * CRDT 操作
+ *
+ * - seed：初始文本，字符 id 为 `{ client, clock + i }`
+ * - insert：在 origin 之后插入一段文本，字符 id 为 `{ client, clock + i }`，后一个字符的 origin 为前一个字符
+ * - delete：删除指定字符
+ */
+export type CrdtOperation =
+  | { type: 'seed'; id: CharId; content: string; time: number }
+  | { type: 'insert'; id: CharId; origin: CharId | null; content: string }
+  | { type: 'delete'; ids: CharId[] };
+
+interface CrdtChar {
+  id: CharId;
+  value: string;
+  deleted: boolean;
+}
+
+// ==================== 工具函数 ====================
+
+const keyOf = (id: CharId): string => `${id.clock}@${id.client}`;
+
+/**
+ * 比较字符 id：时钟大的在前，时钟相同按客户端 id
+ */
+export function compareCharIds(a: CharId, b: CharId): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.client < b.client ? -1 : a.client > b.client ? 1 : 0;
+}
+
+/**
+ * 种子客户端 id：由文本内容决定，相同的初始文本在各端得到相同的字符 id
+ */
+export function seedClientId(content: string): string {
+  let hash = 5381;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+  }
+  return `seed:${(hash >>> 0).toString(36)}:${content.length}`;
+}
+
+/**
+ * 种子优先级：更早的种子生效，时间相同按客户端 id
+ */
+const seedBeats = (a: Extract<CrdtOperation, { type: 'seed' }>, b: Extract<CrdtOperation, { type: 'seed' }>): boolean =>
+  a.time !== b.time ? a.time < b.time : a.id.client < b.id.client;
+
+// ==================== 协同文本 ====================
+
+/**
+ * 协同文本
+ *
+ * @example
+ * const a = new TextCrdt('alice');
+ * const b = new TextCrdt('bob');
+ * const seed = a.seed('山门');
+ * b.apply(seed);
+ *
+ * const opA = a.insert(2, '初开');
+ * const opB = b.insert(0, '【');
+ * a.apply(opB);
+ * b.apply(opA);
+ * a.toString() === b.toString(); // '【山门初开'
+ */
+export class TextCrdt {
+  private chars: CrdtChar[] = [];
+  private byKey: Map<string, CrdtChar> = new Map();
+  private clock = 0;
+  private currentSeed: Extract<CrdtOperation, { type: 'seed' }> | null = null;
+
+  constructor(readonly clientId: string) {}
+
+  /**
+   * 当前生效的种子
+   */
+  getSeed(): Extract<CrdtOperation, { type: 'seed' }> | null {
+    return this.currentSeed;
+  }
+
+  /**
+   * 以文本作为初始内容，返回种子操作
+   */
+  seed(content: string, time: number = Date.now()): CrdtOperation {
+    const op: CrdtOperation = { type: 'seed', id: { client: seedClientId(content), clock: 1 }, content, time };
+    this.apply(op);
+    return op;
+  }
+
+  /**
+   * 在可见文本的 index 处插入
+   */
+  insert(index: number, content: string): CrdtOperation | null {
+    if (!content) return null;
+    const origin = index > 0 ? this.visibleAt(index - 1)?.id ?? null : null;
+    const op: CrdtOperation = { type: 'insert', id: { client: this.clientId, clock: this.clock + 1 }, origin, content };
+    this.apply(op);
+    return op;
+  }
+
+  /**
+   * 删除可见文本 [index, index + length)
+   */
+  delete(index: number, length: number): CrdtOperation | null {
+    const ids: CharId[] = [];
+    let visible = 0;
+    for (const char of this.chars) {
+      if (char.deleted) continue;
+      if (visible >= index + length) break;
+      if (visible >= index) ids.push(char.id);
+      visible++;
+    }
+    if (ids.length === 0) return null;
+    const op: CrdtOperation = { type: 'delete', ids };
+    this.apply(op);
+    return op;
+  }
+
+  /**
+   * 应用操作（本地或远端），重复应用无副作用
+   *
+   * @returns 依赖的字符尚未到达时返回 false，调用方应稍后重试
+   */
+  apply(op: CrdtOperation): boolean {
+    switch (op.type) {
+      case 'seed':
+        return this.applySeed(op);
+      case 'insert': {
+        if (op.origin && !this.byKey.has(keyOf(op.origin))) return false;
+        this.integrateRun(op.id, op.content, op.origin);
+        return true;
+      }
+      case 'delete': {
+        if (op.ids.some(id => !this.byKey.has(keyOf(id)))) return false;
+        op.ids.forEach(id => {
+          this.byKey.get(keyOf(id))!.deleted = true;
+        });
+        return true;
+      }
+    }
+  }
+
+  /**
+   * 是否已包含某个字符
+   */
+  has(id: CharId): boolean {
+    return this.byKey.has(keyOf(id));
+  }
+
+  /**
+   * 可见文本
+   */
+  toString(): string {
+    let text = '';
+    for (const char of this.chars) {
+      if (!char.deleted) text += char.value;
+    }
+    return text;
+  }
+
+  private applySeed(op: Extract<CrdtOperation, { type: 'seed' }>): boolean {
+    if (this.currentSeed) {
+      // 相同文本的种子字符 id 相同，直接视为已应用；不同种子只接受更早的，由调用方重建
+      if (this.currentSeed.id.client === op.id.client || !seedBeats(op, this.currentSeed)) return true;
+      return false;
+    }
+    this.currentSeed = op;
+    this.integrateRun(op.id, op.content, null);
+    return true;
+  }
+
+  /**
+   * 逐字符插入一段文本，后一个字符接在前一个字符之后
+   */
+  private integrateRun(first: CharId, content: string, origin: CharId | null): void {
+    for (let i = 0; i < content.length; i++) {
+      const id = { client: first.client, clock: first.clock + i };
+      this.integrate(id, content[i], origin);
+      origin = id;
+    }
+  }
+
+  /**
+   * 在 origin 之后插入单个字符：跳过 id 更大的并发插入（及其后续字符）
+   */
+  private integrate(id: CharId, value: string, origin: CharId | null): void {
+    const key = keyOf(id);
+    if (this.byKey.has(key)) return;
+
+    let index = origin ? this.chars.indexOf(this.byKey.get(keyOf(origin))!) + 1 : 0;
+    while (index < this.chars.length && compareCharIds(this.chars[index].id, id) > 0) {
+      index++;
+    }
+
+    const char: CrdtChar = { id, value, deleted: false };
+    this.chars.splice(index, 0, char);
+    this.byKey.set(key, char);
+    this.clock = Math.max(this.clock, id.clock);
+  }
+
+  private visibleAt(index: number): CrdtChar | undefined {
+    let visible = 0;
+    for (const char of this.chars) {
+      if (char.deleted) continue;
+      if (visible === index) return char;
+      visible++;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * 判断新种子是否应取代当前种子
+ */
+export function shouldReplaceSeed(current: CrdtOperation | null, incoming: CrdtOperation): boolean {
+  if (incoming.type !== 'seed') return false;
+  if (!current || current.type !== 'seed') return true;
+  return current.id.client !== incoming.id.client && seedBeats(incoming, current);
+}
+
+/**
+ * 计算两段文本的差异区间（公共前后缀之外的部分）
+ *
+ * @returns 从 index 起删除 deleteCount 个字符并插入 insert；文本相同时返回 null
+ */
+export function diffText(previous: string, next: string): { index: number; deleteCount: number; insert: string } | null {
+  if (previous === next) return null;
+  let start = 0;
+  while (start < previous.length && start < next.length && previous[start] === next[start]) start++;
+  let endA = previous.length;
+  let endB = next.length;
+  while (endA > start && endB > start && previous[endA - 1] === next[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  return { index: start, deleteCount: endA - start, insert: next.slice(start, endB) };
+}
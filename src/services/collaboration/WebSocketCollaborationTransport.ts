@@ -0,0 +1,139 @@
+/**
+ * @fileoverview WebSocket 协作传输层
+ * @module services/collaboration/WebSocketCollaborationTransport
+ * @description 通过中继服务器跨设备协作（参考实现见 server/collab-relay.mjs）
+ *
+ * 接口约定：
+ * - 连接 `{url}?token=<令牌>`，令牌决定房间所属的空间，同一令牌的用户才能互相看到
+ * - 每条 WebSocket 文本消息是一条 JSON 编码的 CollaborationMessage
+ * - 连接断开后按指数退避自动重连，重连成功时通知 CollaborationService 重新加入房间
+ *
+ * @example
+ * collaborationService.setTransport(new WebSocketCollaborationTransport({
+ *   url: 'ws://192.168.1.10:8788',
+ *   token: 'team-secret',
+ * }));
+ */
+
+import type { CollaborationMessage } from './CollaborationService';
+import type { CollaborationTransport, CollaborationTransportHandlers } from './CollaborationTransport';
+
+/**
+ * WebSocket 传输层配置
+ */
+export interface WebSocketCollaborationTransportOptions {
+  /** 中继服务器地址，如 `ws://localhost:8788` */
+  url: string;
+  /** 访问令牌 */
+  token?: string;
+  /** 首次重连等待（毫秒），默认 1 秒，之后每次翻倍 */
+  reconnectDelayMs?: number;
+}
+
+/** 重连等待上限 */
+const MAX_RECONNECT_DELAY_MS = 30000;
+/** 未连接时最多缓存的消息数 */
+const MAX_QUEUED_MESSAGES = 500;
+
+export class WebSocketCollaborationTransport implements CollaborationTransport {
+  readonly name = 'websocket';
+  readonly remote = true;
+
+  private socket: WebSocket | null = null;
+  private handlers: CollaborationTransportHandlers | null = null;
+  private queue: CollaborationMessage[] = [];
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private closed = false;
+
+  constructor(private readonly options: WebSocketCollaborationTransportOptions) {}
+
+  connect(handlers: CollaborationTransportHandlers): void {
+    this.handlers = handlers;
+    this.closed = false;
+    this.open();
+  }
+
+  send(message: CollaborationMessage): void {
+    if (this.isOpen()) {
+      this.socket!.send(JSON.stringify(message));
+      return;
+    }
+    // 光标、选区等瞬时状态不缓存，重连后会重新发送
+    if (message.type === 'cursor_move' || message.type === 'selection' || message.type === 'presence') return;
+    this.queue.push(message);
+    if (this.queue.length > MAX_QUEUED_MESSAGES) {
+      this.queue.shift();
+    }
+  }
+
+  isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private open(): void {
+    const url = new URL(this.options.url);
+    if (this.options.token) {
+      url.searchParams.set('token', this.options.token);
+    }
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url.toString());
+    } catch (error) {
+      console.error('[CollaborationService] 连接中继服务器失败:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      // 先让服务重新加入房间，再补发断线期间的消息
+      this.handlers?.onOpen?.();
+      const queued = this.queue;
+      this.queue = [];
+      queued.forEach(message => socket.send(JSON.stringify(message)));
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        this.handlers?.onMessage(JSON.parse(String(event.data)) as CollaborationMessage);
+      } catch (error) {
+        console.warn('[CollaborationService] 无法解析中继消息:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handlers?.onClose?.();
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = () => {
+      console.warn('[CollaborationService] 中继连接出错:', this.options.url);
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return;
+    const base = this.options.reconnectDelayMs ?? 1000;
+    const delay = Math.min(base * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+}
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFrameDecoder, createRelayHub, encodeFrame } from '../../../../server/collab-relay.mjs';
+import {
+  CollaborationService,
+  toCursorPosition,
+  toTextOffset,
+  type CollaborationMessage,
+} from '../CollaborationService';
+import type { CollaborationTransport, CollaborationTransportHandlers } from '../CollaborationTransport';
+
+/**
+ * 直接接入参考中继中心的内存传输层
+ */
+class HubTransport implements CollaborationTransport {
+  readonly name = 'memory';
+  readonly remote = true;
+  private connection: ReturnType<ReturnType<typeof createRelayHub>['connect']> | null = null;
+
+  constructor(private readonly hub: ReturnType<typeof createRelayHub>, private readonly space = 'team') {}
+
+  connect(handlers: CollaborationTransportHandlers): void {
+    this.connection = this.hub.connect(this.space, (text: string) => handlers.onMessage(JSON.parse(text)));
+    handlers.onOpen?.();
+  }
+
+  send(message: CollaborationMessage): void {
+    this.connection?.receive(JSON.stringify(message));
+  }
+
+  isOpen(): boolean {
+    return this.connection !== null;
+  }
+
+  close(): void {
+    this.connection?.close();
+    this.connection = null;
+  }
+}
+
+const message = (type: string, senderId: string, data: unknown = {}) =>
+  JSON.stringify({ type, senderId, resourceType: 'novel', resourceId: 'n1', data, timestamp: 0 });
+
+describe('server/collab-relay', () => {
+  it('should forward messages within a room and replay operation history to late joiners', () => {
+    const hub = createRelayHub();
+    const inboxA: any[] = [];
+    const inboxB: any[] = [];
+    const inboxOther: any[] = [];
+    const a = hub.connect('team', (text: string) => inboxA.push(JSON.parse(text)));
+    const other = hub.connect('other-team', (text: string) => inboxOther.push(JSON.parse(text)));
+
+    a.receive(message('join', 'a'));
+    other.receive(message('join', 'x'));
+    a.receive(message('operation', 'a', { operations: [{ id: 'op1' }] }));
+    expect(inboxOther).toHaveLength(0);
+
+    const b = hub.connect('team', (text: string) => inboxB.push(JSON.parse(text)));
+    b.receive(message('join', 'b'));
+    b.receive(message('sync_request', 'b'));
+
+    expect(inboxA.map(m => m.type)).toEqual(['join']);
+    expect(inboxB.at(-1)).toMatchObject({ type: 'sync_response', senderId: 'relay', data: { operations: [{ id: 'op1' }] } });
+    expect(hub.stats()).toEqual({ rooms: 2, clients: 3 });
+
+    b.close();
+    expect(inboxA.at(-1)).toMatchObject({ type: 'leave', senderId: 'b', resourceType: 'novel', resourceId: 'n1' });
+
+    a.receive('not json');
+    a.close();
+    expect(hub.stats()).toEqual({ rooms: 1, clients: 1 });
+  });
+
+  it('should decode masked and fragmented frames split across chunks', () => {
+    const mask = Buffer.from([1, 2, 3, 4]);
+    const maskFrame = (payload: Buffer, first: number) => {
+      const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+      const header = payload.length < 126
+        ? Buffer.from([first, 0x80 | payload.length])
+        : Buffer.from([first, 0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+      return Buffer.concat([header, mask, masked]);
+    };
+
+    const long = Buffer.from('长'.repeat(100), 'utf-8');
+    const frames = Buffer.concat([
+      maskFrame(Buffer.from('山门', 'utf-8'), 0x01),
+      maskFrame(Buffer.from('初开', 'utf-8'), 0x80),
+      maskFrame(long, 0x81),
+    ]);
+
+    const decode = createFrameDecoder();
+    const messages = [...decode(frames.subarray(0, 7)), ...decode(frames.subarray(7))];
+
+    expect(messages.map(m => m.payload.toString('utf-8'))).toEqual(['山门初开', '长'.repeat(100)]);
+    expect(() => createFrameDecoder(10)(maskFrame(long, 0x81))).toThrow();
+
+    expect([...encodeFrame(Buffer.from('hi'))]).toEqual([0x81, 2, 0x68, 0x69]);
+    expect(encodeFrame(long).subarray(0, 4)).toEqual(Buffer.from([0x81, 126, 1, 44]));
+  });
+});
+
+describe('CollaborationService', () => {
+  let hub: ReturnType<typeof createRelayHub>;
+  let services: CollaborationService[];
+
+  const createAuthor = async (userId: string) => {
+    const service = new CollaborationService();
+    service.setTransport(new HubTransport(hub));
+    service.init({ userId, username: userId });
+    await service.join('novel', 'n1');
+    services.push(service);
+    return service;
+  };
+
+  const flush = () => vi.advanceTimersByTime(100);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    hub = createRelayHub();
+    services = [];
+  });
+
+  afterEach(() => {
+    services.forEach(service => service.destroy());
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  it('should converge concurrent edits and report them through content_change', async () => {
+    const alice = await createAuthor('alice');
+    expect(alice.openDocument('c1', '山门')).toBe('山门');
+    flush();
+
+    const bob = await createAuthor('bob');
+    // 后加入者沿用中继回放的协同文档，而不是自己的旧稿
+    expect(bob.openDocument('c1', '山门（旧稿）')).toBe('山门');
+
+    const changes: string[] = [];
+    alice.on('content_change', (event) => changes.push((event.data as { content: string }).content));
+
+    alice.applyLocalChange('c1', '山门初开');
+    bob.applyLocalChange('c1', '【山门');
+    bob.applyLocalChange('c1', '【山');
+    flush();
+
+    expect(alice.getDocumentContent('c1')).toBe('【山初开');
+    expect(bob.getDocumentContent('c1')).toBe('【山初开');
+    expect(changes.at(-1)).toBe('【山初开');
+  });
+
+  it('should rebuild on the earliest seed when two authors open different texts', async () => {
+    const alice = await createAuthor('alice');
+    const bob = await createAuthor('bob');
+    const conflicts: unknown[] = [];
+    const changes: unknown[] = [];
+    bob.on('conflict_detected', (event) => conflicts.push(event.data));
+    bob.on('content_change', (event) => changes.push(event.data));
+
+    alice.openDocument('c1', '甲稿');
+    vi.advanceTimersByTime(10);
+    bob.openDocument('c1', '乙稿');
+    bob.applyLocalChange('c1', '乙稿续');
+    flush();
+
+    expect(alice.getDocumentContent('c1')).toBe('甲稿');
+    expect(bob.getDocumentContent('c1')).toBe('甲稿');
+    expect(conflicts).toHaveLength(1);
+    // 被取代的正文随 content_change 交给调用方保存
+    expect(changes).toEqual([{ chapterId: 'c1', content: '甲稿', replaced: '乙稿续' }]);
+
+    bob.applyLocalChange('c1', '甲稿二');
+    flush();
+    expect(alice.getDocumentContent('c1')).toBe('甲稿二');
+  });
+
+  it('should share cursors and selections with the room', async () => {
+    const alice = await createAuthor('alice');
+    const bob = await createAuthor('bob');
+
+    alice.updateCursor({ chapterId: 'c1', paragraphIndex: 1, offset: 2 });
+    alice.updateSelection({
+      start: { chapterId: 'c1', paragraphIndex: 0, offset: 0 },
+      end: { chapterId: 'c1', paragraphIndex: 1, offset: 2 },
+    });
+
+    const remote = bob.getCollaborators().find(c => c.userId === 'alice');
+    expect(remote?.cursor).toEqual({ chapterId: 'c1', paragraphIndex: 1, offset: 2 });
+    expect(remote?.selection?.end.offset).toBe(2);
+
+    await alice.leave();
+    expect(bob.getCollaborators().find(c => c.userId === 'alice')).toBeUndefined();
+  });
+
+  it('should convert between text offsets and paragraph positions', () => {
+    const content = '第一段\n第二段落\n';
+    expect(toCursorPosition(content, 'c1', 6)).toEqual({ chapterId: 'c1', paragraphIndex: 1, offset: 2 });
+    expect(toTextOffset(content, { paragraphIndex: 1, offset: 2 })).toBe(6);
+    expect(toTextOffset(content, { paragraphIndex: 9, offset: 9 })).toBe(content.length);
+    expect(toTextOffset(content, toCursorPosition(content, 'c1', content.length))).toBe(content.length);
+  });
+});
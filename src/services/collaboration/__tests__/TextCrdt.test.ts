@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { TextCrdt, diffText, seedClientId, shouldReplaceSeed, type CrdtOperation } from '../TextCrdt';
+
+const seeded = (clientId: string, seed: CrdtOperation) => {
+  const doc = new TextCrdt(clientId);
+  doc.apply(seed);
+  return doc;
+};
+
+describe('TextCrdt', () => {
+  it('should converge when concurrent inserts are applied in different orders', () => {
+    const seed = new TextCrdt('alice').seed('山门', 1);
+    const a = seeded('alice', seed);
+    const b = seeded('bob', seed);
+    const c = seeded('carol', seed);
+
+    const opA = a.insert(2, '初开')!;
+    const opB = b.insert(2, '大阵')!;
+    const opC = c.insert(0, '【')!;
+
+    a.apply(opB); a.apply(opC);
+    b.apply(opC); b.apply(opA);
+    c.apply(opA); c.apply(opB);
+
+    expect(a.toString()).toBe(b.toString());
+    expect(b.toString()).toBe(c.toString());
+    expect(a.toString().startsWith('【山门')).toBe(true);
+    // 同一位置的两段插入各自保持连续
+    expect(a.toString()).toMatch(/初开/);
+    expect(a.toString()).toMatch(/大阵/);
+  });
+
+  it('should keep inserts anchored to deleted characters', () => {
+    const seed = new TextCrdt('alice').seed('青云宗', 1);
+    const a = seeded('alice', seed);
+    const b = seeded('bob', seed);
+
+    const del = a.delete(0, 2)!;
+    const ins = b.insert(2, '外门')!;
+    a.apply(ins);
+    b.apply(del);
+
+    expect(a.toString()).toBe('外门宗');
+    expect(b.toString()).toBe('外门宗');
+  });
+
+  it('should report missing dependencies and accept the operation once they arrive', () => {
+    const seed = new TextCrdt('alice').seed('甲', 1);
+    const a = seeded('alice', seed);
+    const b = seeded('bob', seed);
+
+    const first = a.insert(1, '乙')!;
+    const second = a.insert(2, '丙')!;
+
+    expect(b.apply(second)).toBe(false);
+    expect(b.toString()).toBe('甲');
+    expect(b.apply(first)).toBe(true);
+    expect(b.apply(second)).toBe(true);
+    expect(b.apply(second)).toBe(true);
+    expect(b.toString()).toBe('甲乙丙');
+  });
+
+  it('should give identical text identical seed ids and prefer the earliest different seed', () => {
+    expect(seedClientId('同一段正文')).toBe(seedClientId('同一段正文'));
+    expect(seedClientId('同一段正文')).not.toBe(seedClientId('另一段正文'));
+
+    const doc = new TextCrdt('alice');
+    const early = new TextCrdt('x').seed('旧稿', 1);
+    const late = doc.seed('新稿', 2);
+
+    expect(doc.apply(new TextCrdt('y').seed('新稿', 3))).toBe(true);
+    expect(shouldReplaceSeed(late, early)).toBe(true);
+    expect(shouldReplaceSeed(early, late)).toBe(false);
+    expect(doc.apply(early)).toBe(false);
+    expect(doc.toString()).toBe('新稿');
+  });
+
+  it('should compute the changed range between two texts', () => {
+    expect(diffText('山门初开', '山门初开')).toBeNull();
+    expect(diffText('山门', '山门初开')).toEqual({ index: 2, deleteCount: 0, insert: '初开' });
+    expect(diffText('山门初开', '山开')).toEqual({ index: 1, deleteCount: 2, insert: '' });
+    expect(diffText('青云宗', '玄天宗')).toEqual({ index: 0, deleteCount: 2, insert: '玄天' });
+  });
+});
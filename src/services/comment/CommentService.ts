@@ -0,0 +1,356 @@
+/**
+ * @fileoverview 章节批注
+ * @module services/comment/CommentService
+ * @description 批注锚定到章节正文中的一段文字，不改动正文本身。
+ *
+ * 锚点记录原文及前后文，正文修改后按以下顺序重新定位：
+ * 1. 原位置上的文字仍是原文
+ * 2. 原文还在正文中（出现多处时取前后文最吻合、离原位置最近的一处）
+ * 3. 原文被改写但前后文还在，取前后文之间的文字
+ *
+ * 都找不到时批注标记为「原文已删除」，仍保留在批注列表中。
+ * 批注与回复平铺存放在 Novel.comments 中（回复用 parentId 指向顶层批注），
+ * 这样同步时可以像其他设定一样按 id 合并。
+ */
+
+import type { ChapterComment, CommentAnchor } from '../../types';
+import { createCommentId } from '../../utils/id';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 锚点在当前正文中的位置
+ */
+export interface ResolvedAnchor {
+  start: number;
+  end: number;
+  /** 当前正文中被批注的文字 */
+  quote: string;
+  /** 原文已删除，无法定位 */
+  detached: boolean;
+}
+
+/**
+ * 批注串：顶层批注及其回复（按时间排序）
+ */
+export interface CommentThread {
+  root: ChapterComment;
+  replies: ChapterComment[];
+}
+
+/**
+ * 批注筛选条件
+ */
+export interface CommentFilter {
+  chapterId?: string;
+  /** 批注串中有该作者发言 */
+  authorId?: string;
+  /** 默认 all */
+  status?: 'open' | 'resolved' | 'all';
+  /** 批注串中有人 @ 了该用户 */
+  mentionedUserId?: string;
+}
+
+/**
+ * 批注作者
+ */
+export interface CommentAuthor {
+  id: string;
+  name: string;
+}
+
+/**
+ * 可以 @ 的人
+ */
+export interface MentionCandidate {
+  userId: string;
+  username: string;
+}
+
+// ==================== 常量 ====================
+
+/** 锚点保存的前后文长度 */
+const CONTEXT_LENGTH = 32;
+
+/** 原文被改写时用来定位的前后文长度 */
+const FALLBACK_CONTEXT_LENGTH = 12;
+
+/** 原文被改写时，前后文之间允许的最大长度（相对原文长度） */
+const MAX_REWRITE_RATIO = 4;
+
+const MENTION_MARKS = ['@', '＠'];
+
+// ==================== 工具函数 ====================
+
+const now = () => new Date().toISOString();
+
+const commonSuffixLength = (a: string, b: string): number => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+};
+
+const commonPrefixLength = (a: string, b: string): number => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+};
+
+const findAll = (content: string, needle: string): number[] => {
+  const result: number[] = [];
+  for (let i = content.indexOf(needle); i !== -1; i = content.indexOf(needle, i + 1)) {
+    result.push(i);
+  }
+  return result;
+};
+
+const nearest = (positions: number[], target: number): number | undefined =>
+  positions.reduce<number | undefined>(
+    (best, pos) => (best === undefined || Math.abs(pos - target) < Math.abs(best - target) ? pos : best),
+    undefined
+  );
+
+// ==================== 服务 ====================
+
+export class CommentService {
+  /**
+   * 为正文中的一段文字创建锚点
+   */
+  static createAnchor(content: string, start: number, end: number): CommentAnchor {
+    const from = Math.max(0, Math.min(start, end));
+    const to = Math.min(content.length, Math.max(start, end));
+    return {
+      start: from,
+      end: to,
+      quote: content.slice(from, to),
+      prefix: content.slice(Math.max(0, from - CONTEXT_LENGTH), from),
+      suffix: content.slice(to, to + CONTEXT_LENGTH),
+    };
+  }
+
+  /**
+   * 在当前正文中定位锚点
+   */
+  static resolveAnchor(content: string, anchor: CommentAnchor): ResolvedAnchor {
+    const { quote, prefix, suffix } = anchor;
+    const found = (start: number, end: number): ResolvedAnchor => ({
+      start,
+      end,
+      quote: content.slice(start, end),
+      detached: false,
+    });
+
+    if (quote && content.slice(anchor.start, anchor.end) === quote) {
+      return found(anchor.start, anchor.end);
+    }
+
+    // 原文还在：前后文越吻合越好，同样吻合时取离原位置最近的
+    if (quote) {
+      let best: { start: number; score: number; distance: number } | null = null;
+      for (const start of findAll(content, quote)) {
+        const end = start + quote.length;
+        const score =
+          commonSuffixLength(content.slice(Math.max(0, start - prefix.length), start), prefix) +
+          commonPrefixLength(content.slice(end, end + suffix.length), suffix);
+        const distance = Math.abs(start - anchor.start);
+        if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+          best = { start, score, distance };
+        }
+      }
+      if (best) {
+        return found(best.start, best.start + quote.length);
+      }
+    }
+
+    // 原文被改写：找到前后文，取中间的文字
+    const before = prefix.slice(-FALLBACK_CONTEXT_LENGTH);
+    const after = suffix.slice(0, FALLBACK_CONTEXT_LENGTH);
+    if (before || after) {
+      const start = before ? nearest(findAll(content, before), anchor.start - before.length) : 0;
+      if (start !== undefined) {
+        const from = before ? start + before.length : 0;
+        const to = after ? content.indexOf(after, from) : content.length;
+        const limit = Math.max(quote.length * MAX_REWRITE_RATIO, CONTEXT_LENGTH);
+        if (to > from && to - from <= limit) {
+          return found(from, to);
+        }
+      }
+    }
+
+    const at = Math.min(anchor.start, content.length);
+    return { start: at, end: at, quote, detached: true };
+  }
+
+  /**
+   * 找出文字中 @ 到的人
+   *
+   * 名字之间不一定有空格，所以优先匹配较长的名字。
+   *
+   * @example
+   * CommentService.extractMentions('@阿青 看看这段', [{ userId: 'u1', username: '阿青' }]); // ['u1']
+   */
+  static extractMentions(text: string, candidates: MentionCandidate[]): string[] {
+    const sorted = [...candidates]
+      .filter(candidate => candidate.username)
+      .sort((a, b) => b.username.length - a.username.length);
+    const mentioned = new Set<string>();
+    for (let i = 0; i < text.length; i++) {
+      if (!MENTION_MARKS.includes(text[i])) continue;
+      const match = sorted.find(candidate => text.startsWith(candidate.username, i + 1));
+      if (match) {
+        mentioned.add(match.userId);
+        i += match.username.length;
+      }
+    }
+    return [...mentioned];
+  }
+
+  /**
+   * 创建顶层批注
+   */
+  static createComment(params: {
+    chapterId: string;
+    chapterContent: string;
+    start: number;
+    end: number;
+    content: string;
+    author: CommentAuthor;
+    candidates?: MentionCandidate[];
+  }): ChapterComment {
+    const { chapterId, chapterContent, start, end, content, author, candidates = [] } = params;
+    const timestamp = now();
+    const mentions = this.extractMentions(content, candidates);
+    return {
+      id: createCommentId(),
+      chapterId,
+      anchor: this.createAnchor(chapterContent, start, end),
+      authorId: author.id,
+      authorName: author.name,
+      content: content.trim(),
+      ...(mentions.length > 0 ? { mentions } : {}),
+      resolved: false,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+  }
+
+  /**
+   * 创建回复
+   */
+  static createReply(
+    parent: ChapterComment,
+    content: string,
+    author: CommentAuthor,
+    candidates: MentionCandidate[] = []
+  ): ChapterComment {
+    const timestamp = now();
+    const mentions = this.extractMentions(content, candidates);
+    return {
+      id: createCommentId(),
+      chapterId: parent.chapterId,
+      parentId: parent.parentId ?? parent.id,
+      authorId: author.id,
+      authorName: author.name,
+      content: content.trim(),
+      ...(mentions.length > 0 ? { mentions } : {}),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+  }
+
+  /**
+   * 标记批注已解决或重新打开
+   */
+  static setResolved(comments: ChapterComment[], id: string, resolved: boolean, userId: string): ChapterComment[] {
+    return comments.map(comment =>
+      comment.id === id
+        ? {
+            ...comment,
+            resolved,
+            resolvedBy: resolved ? userId : undefined,
+            resolvedAt: resolved ? now() : undefined,
+            updatedAt: now(),
+          }
+        : comment
+    );
+  }
+
+  /**
+   * 修改批注内容
+   */
+  static editComment(
+    comments: ChapterComment[],
+    id: string,
+    content: string,
+    candidates: MentionCandidate[] = []
+  ): ChapterComment[] {
+    return comments.map(comment => {
+      if (comment.id !== id) return comment;
+      const mentions = this.extractMentions(content, candidates);
+      return { ...comment, content: content.trim(), mentions: mentions.length > 0 ? mentions : undefined, updatedAt: now() };
+    });
+  }
+
+  /**
+   * 删除批注，顶层批注连同回复一起删除
+   */
+  static removeComment(comments: ChapterComment[], id: string): ChapterComment[] {
+    return comments.filter(comment => comment.id !== id && comment.parentId !== id);
+  }
+
+  /**
+   * 删除章节时一并删除该章的批注
+   */
+  static removeChapterComments(comments: ChapterComment[], chapterId: string): ChapterComment[] {
+    return comments.filter(comment => comment.chapterId !== chapterId);
+  }
+
+  /**
+   * 把平铺的批注组织成批注串并筛选
+   *
+   * 回复所属的顶层批注不存在时（如同步时对方删除了批注）回复会被忽略。
+   */
+  static getThreads(comments: ChapterComment[] = [], filter: CommentFilter = {}): CommentThread[] {
+    const { chapterId, authorId, status = 'all', mentionedUserId } = filter;
+    const byTime = (a: ChapterComment, b: ChapterComment) => a.createdAt.localeCompare(b.createdAt);
+
+    const replies = new Map<string, ChapterComment[]>();
+    comments.forEach(comment => {
+      if (!comment.parentId) return;
+      const list = replies.get(comment.parentId) ?? [];
+      list.push(comment);
+      replies.set(comment.parentId, list);
+    });
+
+    return comments
+      .filter(comment => !comment.parentId)
+      .filter(root => !chapterId || root.chapterId === chapterId)
+      .filter(root => status === 'all' || (status === 'resolved') === !!root.resolved)
+      .map(root => ({ root, replies: (replies.get(root.id) ?? []).sort(byTime) }))
+      .filter(thread => {
+        const all = [thread.root, ...thread.replies];
+        if (authorId && !all.some(comment => comment.authorId === authorId)) return false;
+        if (mentionedUserId && !all.some(comment => comment.mentions?.includes(mentionedUserId))) return false;
+        return true;
+      })
+      .sort((a, b) => byTime(a.root, b.root));
+  }
+
+  /**
+   * 参与过批注的作者（用于筛选和 @ 候选）
+   */
+  static getAuthors(comments: ChapterComment[] = []): CommentAuthor[] {
+    const authors = new Map<string, CommentAuthor>();
+    comments.forEach(comment => authors.set(comment.authorId, { id: comment.authorId, name: comment.authorName }));
+    return [...authors.values()];
+  }
+
+  /**
+   * 未解决的批注数量
+   */
+  static countOpen(comments: ChapterComment[] = [], chapterId?: string): number {
+    return comments.filter(comment =>
+      !comment.parentId && !comment.resolved && (!chapterId || comment.chapterId === chapterId)
+    ).length;
+  }
+}
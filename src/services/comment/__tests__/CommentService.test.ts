@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { CommentService } from '../CommentService';
+import type { ChapterComment } from '../../../types';
+
+const TEXT = '山门初开，少年登山。\n雾起时，他看见了那座塔。\n塔下有人。';
+
+const author = { id: 'u1', name: '阿青' };
+
+const anchorOf = (quote: string, content = TEXT) => {
+  const start = content.indexOf(quote);
+  return CommentService.createAnchor(content, start, start + quote.length);
+};
+
+describe('CommentService anchors', () => {
+  it('should follow the quoted text when text is inserted or removed before it', () => {
+    const anchor = anchorOf('那座塔');
+    const edited = `第一章\n${TEXT.replace('少年登山。', '')}`;
+
+    const position = CommentService.resolveAnchor(edited, anchor);
+    expect(position.detached).toBe(false);
+    expect(edited.slice(position.start, position.end)).toBe('那座塔');
+  });
+
+  it('should pick the occurrence whose context matches when the quote repeats', () => {
+    const content = '塔下有人。他走向塔下。塔下有人。';
+    const anchor = CommentService.createAnchor(content, 11, 16);
+    const edited = `序。${content.replace('他走向塔下。', '他慢慢走向塔下。')}`;
+
+    const position = CommentService.resolveAnchor(edited, anchor);
+    expect(position.start).toBe(edited.lastIndexOf('塔下有人。'));
+  });
+
+  it('should anchor to the rewritten text between the original context', () => {
+    const anchor = anchorOf('他看见了那座塔');
+    const edited = TEXT.replace('他看见了那座塔', '他望见远处的一座高塔');
+
+    expect(CommentService.resolveAnchor(edited, anchor)).toMatchObject({
+      quote: '他望见远处的一座高塔',
+      detached: false,
+    });
+  });
+
+  it('should detach the comment when the quote and its context are gone', () => {
+    const anchor = anchorOf('他看见了那座塔');
+    expect(CommentService.resolveAnchor('全新的一章。', anchor)).toMatchObject({ detached: true, quote: '他看见了那座塔' });
+  });
+});
+
+describe('CommentService threads', () => {
+  const candidates = [
+    { userId: 'u2', username: '小林' },
+    { userId: 'u3', username: '小林子' },
+    { userId: 'u4', username: 'Mia' },
+  ];
+
+  const build = (): ChapterComment[] => {
+    const first = CommentService.createComment({
+      chapterId: 'c1', chapterContent: TEXT, start: 0, end: 4, content: '开头太平 @小林子', author, candidates,
+    });
+    const second = CommentService.createComment({
+      chapterId: 'c2', chapterContent: TEXT, start: 5, end: 9, content: '好', author: { id: 'u4', name: 'Mia' },
+    });
+    const reply = CommentService.createReply(first, '同意，@Mia 看看？', { id: 'u2', name: '小林' }, candidates);
+    return [first, second, reply];
+  };
+
+  it('should prefer the longest name when extracting mentions', () => {
+    expect(CommentService.extractMentions('@小林子 和 ＠小林 还有 @路人', candidates)).toEqual(['u3', 'u2']);
+    expect(CommentService.extractMentions('没有提到人', candidates)).toEqual([]);
+  });
+
+  it('should group replies under their thread and filter by chapter, author, status and mention', () => {
+    const comments = build();
+    const [first, , reply] = comments;
+
+    expect(reply.parentId).toBe(first.id);
+    expect(CommentService.getThreads(comments, { chapterId: 'c1' })).toEqual([{ root: first, replies: [reply] }]);
+    expect(CommentService.getThreads(comments, { authorId: 'u2' }).map(t => t.root.id)).toEqual([first.id]);
+    expect(CommentService.getThreads(comments, { mentionedUserId: 'u4' }).map(t => t.root.id)).toEqual([first.id]);
+    expect(CommentService.getThreads(comments, { mentionedUserId: 'u2' })).toEqual([]);
+
+    const resolved = CommentService.setResolved(comments, first.id, true, 'u2');
+    expect(CommentService.getThreads(resolved, { status: 'open' }).map(t => t.root.chapterId)).toEqual(['c2']);
+    expect(CommentService.getThreads(resolved, { status: 'resolved' })[0].root).toMatchObject({ resolved: true, resolvedBy: 'u2' });
+    expect(CommentService.countOpen(resolved)).toBe(1);
+
+    const reopened = CommentService.setResolved(resolved, first.id, false, 'u1');
+    expect(reopened.find(c => c.id === first.id)).toMatchObject({ resolved: false, resolvedBy: undefined });
+  });
+
+  it('should delete a thread together with its replies', () => {
+    const comments = build();
+    const [first, second, reply] = comments;
+
+    expect(CommentService.removeComment(comments, reply.id)).toEqual([first, second]);
+    expect(CommentService.removeComment(comments, first.id)).toEqual([second]);
+    expect(CommentService.removeChapterComments(comments, 'c1')).toEqual([second]);
+    expect(CommentService.getAuthors(comments).map(a => a.name)).toEqual(['阿青', 'Mia', '小林']);
+  });
+});
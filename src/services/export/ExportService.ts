@@ -5,6 +5,10 @@
  * @version 1.0.0
  */
 
+import type { Novel } from '../../types';
+import { createZip, ZipEntryInput } from '../../utils/zip';
+import { PdfDocument, type PdfOutlineItem } from '../../utils/pdf';
+
 // ==================== 类型定义 ====================
 
 /**
@@ -111,6 +115,10 @@ export interface ExportOptions {
   publisher?: string;
   /** 水印文字 */
   watermark?: string;
+  /** PDF 内嵌字体地址（TrueType .ttf），默认 DEFAULT_PDF_FONT_URL */
+  pdfFontUrl?: string;
+  /** 用户选择的 PDF 内嵌字体（TrueType 文件内容，见 PdfFontService），优先于 pdfFontUrl */
+  pdfFont?: Uint8Array;
   /** 导出章节 ID 列表（为空则导出全部） */
   chapterIds?: string[];
 }
@@ -151,6 +159,8 @@ export interface ExportResult {
   downloadUrl?: string;
   /** 错误信息 */
   error?: string;
+  /** 导出成功但需要提示用户的问题（如 PDF 未能内嵌字体） */
+  warnings?: string[];
 }
 
 /**
@@ -242,6 +252,596 @@ function contentToParagraphs(content: string, options: ExportOptions): string {
     .join('\n');
 }
 
+/**
+ * 转义 XML 文本，并移除 XML 1.0 不允许的控制字符
+ */
+function escapeXml(text: string): string {
+  return escapeHtml(text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, ''));
+}
+
+/**
+ * 按行拆分段落，忽略空行
+ */
+function splitParagraphs(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+}
+
+// ==================== EPUB 辅助函数 ====================
+
+/**
+ * EPUB 目录条目（卷的 children 为其下章节）
+ */
+interface EpubTocEntry {
+  id: string;
+  title: string;
+  href: string;
+  children: EpubTocEntry[];
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+/**
+ * 读取封面图片（支持 data URL 和可访问的图片地址），失败时返回 null
+ */
+async function loadCoverImage(url: string): Promise<{ data: Uint8Array; mediaType: string; extension: string } | null> {
+  try {
+    let data: Uint8Array;
+    let mediaType: string;
+
+    const match = url.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+    if (match) {
+      mediaType = match[1].toLowerCase();
+      if (match[2]) {
+        const binary = atob(match[3]);
+        data = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+      } else {
+        data = new TextEncoder().encode(decodeURIComponent(match[3]));
+      }
+    } else {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      mediaType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+      data = new Uint8Array(await response.arrayBuffer());
+    }
+
+    const extension = IMAGE_EXTENSIONS[mediaType];
+    if (!extension) {
+      console.warn('[ExportService] 不支持的封面格式，已跳过:', mediaType);
+      return null;
+    }
+    return { data, mediaType, extension };
+  } catch (error) {
+    console.warn('[ExportService] 读取封面失败，已跳过:', error);
+    return null;
+  }
+}
+
+/**
+ * 生成 XHTML 内容文档
+ */
+function xhtmlDocument(title: string, language: string, body: string, extraAttributes: string = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${extraAttributes} xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * 生成 EPUB 3 导航文档
+ */
+function buildNavDocument(title: string, language: string, toc: EpubTocEntry[]): string {
+  const renderList = (entries: EpubTocEntry[], indent: string): string => [
+    `${indent}<ol>`,
+    ...entries.map(entry => entry.children.length > 0
+      ? `${indent}  <li><a href="${entry.href}">${escapeXml(entry.title)}</a>\n${renderList(entry.children, indent + '    ')}\n${indent}  </li>`
+      : `${indent}  <li><a href="${entry.href}">${escapeXml(entry.title)}</a></li>`),
+    `${indent}</ol>`,
+  ].join('\n');
+
+  return xhtmlDocument(title, language, [
+    '  <nav epub:type="toc" id="toc">',
+    '    <h1>目录</h1>',
+    toc.length > 0 ? renderList(toc, '    ') : '    <ol><li><a href="titlepage.xhtml">扉页</a></li></ol>',
+    '  </nav>',
+  ].join('\n'), ' xmlns:epub="http://www.idpf.org/2007/ops"');
+}
+
+/**
+ * 生成 NCX 目录（EPUB 2 阅读器兼容）
+ */
+function buildNcx(title: string, uuid: string, toc: EpubTocEntry[]): string {
+  let playOrder = 0;
+  const renderPoints = (entries: EpubTocEntry[], indent: string): string => entries.map(entry => {
+    const order = ++playOrder;
+    const children = entry.children.length > 0 ? `\n${renderPoints(entry.children, indent + '  ')}` : '';
+    return `${indent}<navPoint id="navpoint-${order}" playOrder="${order}">
+${indent}  <navLabel><text>${escapeXml(entry.title)}</text></navLabel>
+${indent}  <content src="${entry.href}"/>${children}
+${indent}</navPoint>`;
+  }).join('\n');
+
+  const depth = toc.some(entry => entry.children.length > 0) ? 2 : 1;
+  const points = toc.length > 0
+    ? renderPoints(toc, '    ')
+    : `    <navPoint id="navpoint-1" playOrder="1">
+      <navLabel><text>${escapeXml(title)}</text></navLabel>
+      <content src="titlepage.xhtml"/>
+    </navPoint>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="urn:uuid:${uuid}"/>
+    <meta name="dtb:depth" content="${depth}"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeXml(title)}</text></docTitle>
+  <navMap>
+${points}
+  </navMap>
+</ncx>`;
+}
+
+/**
+ * 生成 EPUB 样式表（字号、行高、首行缩进取自导出选项）
+ */
+function buildEpubCss(options: ExportOptions): string {
+  return `body {
+  font-family: ${options.fontFamily};
+  font-size: ${options.fontSize}pt;
+  line-height: ${options.lineHeight};
+  margin: 0 1em;
+}
+
+h1, h2 {
+  text-align: center;
+  margin: 1.5em 0 1em;
+  text-indent: 0;
+}
+
+p {
+  text-indent: ${options.textIndent}em;
+  margin: 0 0 ${options.paragraphSpacing}px 0;
+  text-align: justify;
+}
+
+.cover {
+  text-align: center;
+  margin: 0;
+}
+
+.cover img {
+  max-width: 100%;
+  max-height: 100vh;
+}
+
+.titlepage, .volume {
+  text-align: center;
+  margin-top: 30%;
+}
+
+.titlepage p, .volume p {
+  text-indent: 0;
+}
+
+.author {
+  font-size: 1.2em;
+}
+
+nav ol {
+  list-style: none;
+  padding-left: 1em;
+}
+`;
+}
+
+// ==================== DOCX 辅助函数 ====================
+
+const DOCX_NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+/** 页面尺寸（毫米） */
+const PAGE_SIZES_MM: Record<NonNullable<ExportOptions['pageSize']>, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  a5: { width: 148, height: 210 },
+  letter: { width: 215.9, height: 279.4 },
+  legal: { width: 215.9, height: 355.6 }
+};
+
+const GENERIC_FONT_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui']);
+
+/** 常见中文字体名称特征 */
+const CJK_FONT_PATTERN = /\b(SC|TC|JP|KR|CJK)\b|Song|SimSun|Hei|Kai|Fang|Ming|[\u4e00-\u9fff]/;
+
+/**
+ * 毫米转换为 twip（1/20 磅）
+ */
+const mmToTwip = (mm: number): number => Math.round(mm * 56.6929);
+
+/**
+ * 从 CSS font-family 中解析西文字体和中文字体
+ *
+ * 没有可用字体时西文使用 Times New Roman，中文使用宋体；
+ * 通用族名 sans-serif 对应黑体。
+ */
+export function resolveDocxFonts(fontFamily: string = ''): { latin: string; eastAsia: string } {
+  const families = fontFamily
+    .split(',')
+    .map(f => f.trim().replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+  const named = families.filter(f => !GENERIC_FONT_FAMILIES.has(f.toLowerCase()));
+  const fallbackEastAsia = families.some(f => f.toLowerCase() === 'sans-serif') && named.length === 0 ? '黑体' : '宋体';
+
+  return {
+    latin: named[0] || 'Times New Roman',
+    eastAsia: named.find(f => CJK_FONT_PATTERN.test(f)) || fallbackEastAsia
+  };
+}
+
+/**
+ * 生成一个段落
+ */
+function docxParagraph(text: string, properties: string = ''): string {
+  const pPr = properties ? `<w:pPr>${properties}</w:pPr>` : '';
+  return `<w:p>${pPr}<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+}
+
+/**
+ * 分页段落
+ */
+const DOCX_PAGE_BREAK = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+/**
+ * 生成目录域（打开文档时由 Word 更新页码）
+ */
+function docxTocField(): string {
+  return [
+    docxParagraph('目录', '<w:pStyle w:val="TOCHeading"/>'),
+    '<w:p>',
+    '<w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r>',
+    '<w:r><w:instrText xml:space="preserve"> TOC \\o "1-2" \\h \\z \\u </w:instrText></w:r>',
+    '<w:r><w:fldChar w:fldCharType="separate"/></w:r>',
+    '<w:r><w:t>右键点击此处并选择“更新域”以生成目录</w:t></w:r>',
+    '<w:r><w:fldChar w:fldCharType="end"/></w:r>',
+    '</w:p>'
+  ].join('');
+}
+
+/**
+ * 生成 styles.xml：正文、标题 1/2、书名、目录标题、页眉
+ */
+function buildDocxStyles(options: ExportOptions): string {
+  const { latin, eastAsia } = resolveDocxFonts(options.fontFamily);
+  const fontSize = options.fontSize || 12;
+  const halfPoints = Math.round(fontSize * 2);
+  const line = Math.round((options.lineHeight || 1.5) * 240);
+  const after = Math.round((options.paragraphSpacing || 0) * 15); // px → twip
+  const indent = options.textIndent || 0;
+  const fonts = `<w:rFonts w:ascii="${escapeXml(latin)}" w:hAnsi="${escapeXml(latin)}" w:eastAsia="${escapeXml(eastAsia)}" w:cs="${escapeXml(latin)}"/>`;
+
+  const heading = (id: string, name: string, level: number, size: number) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="480" w:after="360" w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0" w:firstLineChars="0"/><w:jc w:val="center"/><w:outlineLvl w:val="${level}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:bCs/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${DOCX_NAMESPACES}>
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr>${fonts}<w:sz w:val="${halfPoints}"/><w:szCs w:val="${halfPoints}"/><w:lang w:val="en-US" w:eastAsia="${escapeXml(options.language || 'zh-CN')}"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="${after}" w:line="${line}" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:ind w:firstLineChars="${Math.round(indent * 100)}" w:firstLine="${Math.round(indent * fontSize * 20)}"/><w:jc w:val="both"/></w:pPr>` +
+    `<w:rPr>${fonts}<w:sz w:val="${halfPoints}"/><w:szCs w:val="${halfPoints}"/></w:rPr></w:style>
+  ${heading('Heading1', 'heading 1', 0, halfPoints + 12)}
+  ${heading('Heading2', 'heading 2', 1, halfPoints + 6)}
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:spacing w:before="2400" w:after="480"/><w:ind w:firstLine="0" w:firstLineChars="0"/><w:jc w:val="center"/></w:pPr>` +
+    `<w:rPr><w:b/><w:sz w:val="${halfPoints + 24}"/><w:szCs w:val="${halfPoints + 24}"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/>` +
+    `<w:pPr><w:ind w:firstLine="0" w:firstLineChars="0"/><w:jc w:val="center"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>` +
+    `<w:pPr><w:spacing w:before="480" w:after="360"/><w:ind w:firstLine="0" w:firstLineChars="0"/><w:jc w:val="center"/></w:pPr>` +
+    `<w:rPr><w:b/><w:sz w:val="${halfPoints + 12}"/><w:szCs w:val="${halfPoints + 12}"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Header"><w:name w:val="header"/><w:basedOn w:val="Normal"/>` +
+    `<w:pPr><w:ind w:firstLine="0" w:firstLineChars="0"/><w:jc w:val="center"/></w:pPr></w:style>
+</w:styles>`;
+}
+
+/**
+ * 生成带水印的页眉（VML 艺术字，Word 和 WPS 均可识别）
+ */
+function buildDocxWatermarkHeader(watermark: string, fontFamily: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr ${DOCX_NAMESPACES} xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w10="urn:schemas-microsoft-com:office:word">
+  <w:p>
+    <w:pPr><w:pStyle w:val="Header"/></w:pPr>
+    <w:r>
+      <w:pict>
+        <v:shape id="PowerPlusWaterMarkObject" o:spid="_x0000_s2049" o:spt="136" type="#_x0000_t136" style="position:absolute;margin-left:0;margin-top:0;width:420pt;height:120pt;rotation:315;z-index:-251657216;mso-position-horizontal:center;mso-position-horizontal-relative:margin;mso-position-vertical:center;mso-position-vertical-relative:margin" o:allowincell="f" fillcolor="#d8d8d8" stroked="f">
+          <v:fill opacity=".5"/>
+          <v:path textpathok="t"/>
+          <v:textpath style="font-family:&quot;${escapeXml(fontFamily)}&quot;;font-size:1pt" string="${escapeXml(watermark)}"/>
+          <o:lock v:ext="edit" aspectratio="t"/>
+          <w10:wrap anchorx="margin" anchory="margin"/>
+        </v:shape>
+      </w:pict>
+    </w:r>
+  </w:p>
+</w:hdr>`;
+}
+
+// ==================== PDF 辅助函数 ====================
+
+/**
+ * 默认的 PDF 内嵌字体地址
+ *
+ * 仓库不附带字体文件：部署时可把 TrueType 中文字体放到 public/fonts 下，
+ * 否则由用户在导出工具中选择字体文件（PdfFontService）。
+ */
+export const DEFAULT_PDF_FONT_URL = '/fonts/NotoSansSC-Regular.ttf';
+
+const MM_TO_PT = 72 / 25.4;
+
+const pdfFontCache = new Map<string, Promise<Uint8Array | null>>();
+
+/**
+ * 加载 PDF 内嵌字体，同一地址只下载一次；失败时返回 null，下次导出重试
+ */
+const loadPdfFont = (url: string): Promise<Uint8Array | null> => {
+  let cached = pdfFontCache.get(url);
+  if (!cached) {
+    cached = fetch(url)
+      .then(async response => (response.ok ? new Uint8Array(await response.arrayBuffer()) : null))
+      .catch(() => null)
+      .then(data => {
+        if (!data) pdfFontCache.delete(url);
+        return data;
+      });
+    pdfFontCache.set(url, cached);
+  }
+  return cached;
+};
+
+/**
+ * PDF 目录条目
+ */
+interface PdfTocEntry {
+  title: string;
+  /** 1 = 卷，2 = 章 */
+  level: 1 | 2;
+  /** 正文中标题所在的页和纵坐标，排版正文后填入 */
+  target?: { page: number; y: number };
+}
+
+/**
+ * 排版小说正文到 PDF
+ *
+ * 页面顺序：封面（不编页码）→ 目录 → 正文。目录页数按条目数预先确定，
+ * 正文排完后再回填目录，页码与页脚一致。卷、章同时写入书签。
+ */
+function layoutPdf(
+  doc: PdfDocument,
+  novel: NovelContent,
+  chapters: ChapterContent[],
+  options: ExportOptions,
+  onChapter: (chapter: ChapterContent, index: number) => void
+): void {
+  const margins = options.margins || { top: 25, right: 20, bottom: 25, left: 20 };
+  const fontSize = options.fontSize || 12;
+  const lineHeight = options.lineHeight || 1.8;
+  const leading = fontSize * lineHeight;
+  const paragraphGap = (options.paragraphSpacing ?? 10) * 0.75;
+  const indent = (options.textIndent ?? 2) * fontSize;
+  const left = margins.left * MM_TO_PT;
+  const right = doc.width - margins.right * MM_TO_PT;
+  const top = doc.height - margins.top * MM_TO_PT;
+  const bottom = margins.bottom * MM_TO_PT;
+  const contentWidth = right - left;
+
+  const numberedPages: number[] = [];
+  let page = -1;
+  let y = top;
+
+  const drawWatermark = (pageIndex: number, text: string) => {
+    const diagonal = Math.hypot(doc.width, doc.height);
+    let size = fontSize * 4;
+    size = Math.min(size, (diagonal * 0.7 * size) / Math.max(doc.measureText(text, size), 1));
+    const width = doc.measureText(text, size);
+    const angle = Math.atan2(doc.height, doc.width);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    // 使文字中心落在页面中心
+    const x = doc.width / 2 - cos * width / 2 + sin * size * 0.35;
+    const baseline = doc.height / 2 - sin * width / 2 - cos * size * 0.35;
+    doc.drawText(pageIndex, text, x, baseline, size, { gray: 0.88, angle: angle * 180 / Math.PI });
+  };
+
+  const newPage = (numbered: boolean = true) => {
+    page = doc.addPage();
+    y = top;
+    // 水印先绘制，位于文字下方
+    if (options.watermark) drawWatermark(page, options.watermark);
+    if (numbered) numberedPages.push(page);
+  };
+
+  /** 行框顶部为 y 时，字号为 size 的文字基线位置（文字在行框内垂直居中） */
+  const baselineOf = (lineTop: number, height: number, size: number) => lineTop - height / 2 - size * 0.35;
+
+  const writeLine = (text: string, size: number, height: number, align: 'left' | 'center', offset: number = 0) => {
+    if (y - height < bottom) newPage();
+    const x = align === 'center' ? left + (contentWidth - doc.measureText(text, size)) / 2 : left + offset;
+    doc.drawText(page, text, x, baselineOf(y, height, size), size);
+    y -= height;
+  };
+
+  const writeParagraph = (text: string, size: number = fontSize, firstLineIndent: number = indent) => {
+    doc.wrapText(text, size, contentWidth, firstLineIndent).forEach((line, index) => {
+      writeLine(line, size, size * lineHeight, 'left', index === 0 ? firstLineIndent : 0);
+    });
+    y -= paragraphGap;
+  };
+
+  /** 写标题，返回标题顶部位置；剩余空间不足以跟随两行正文时另起一页 */
+  const writeHeading = (text: string, size: number): { page: number; y: number } => {
+    const lines = doc.wrapText(text, size, contentWidth);
+    if (y - lines.length * size * 1.5 - leading * 3 < bottom) newPage();
+    const target = { page, y };
+    lines.forEach(line => writeLine(line, size, size * 1.5, 'center'));
+    y -= leading;
+    return target;
+  };
+
+  // 封面
+  if (options.includeCover) {
+    newPage(false);
+    y = top - (top - bottom) / 4;
+    doc.wrapText(novel.title, fontSize * 2.4, contentWidth).forEach(line => {
+      writeLine(line, fontSize * 2.4, fontSize * 3.6, 'center');
+    });
+    y -= leading;
+    writeLine(`作者：${novel.author}`, fontSize * 1.2, leading, 'center');
+    if (novel.description) {
+      y -= leading * 2;
+      splitParagraphs(novel.description).forEach(p => writeParagraph(p, fontSize * 0.9, fontSize * 1.8));
+    }
+  }
+
+  // 目录条目与正文标题一一对应
+  const entries: PdfTocEntry[] = [];
+  let volumeId: string | undefined;
+  chapters.forEach(chapter => {
+    const volume = chapter.volumeId ? novel.volumes.find(v => v.id === chapter.volumeId) : undefined;
+    if (volume && volume.id !== volumeId) entries.push({ title: volume.title, level: 1 });
+    volumeId = volume?.id;
+    entries.push({ title: chapter.title, level: 2 });
+  });
+
+  // 预留目录页
+  const tocTitleSize = fontSize * 1.6;
+  const tocTitleHeight = tocTitleSize * 1.5 + leading;
+  const tocPages: number[] = [];
+  if (options.includeToc && entries.length > 0) {
+    const firstCapacity = Math.max(1, Math.floor((top - bottom - tocTitleHeight) / leading));
+    const capacity = Math.max(1, Math.floor((top - bottom) / leading));
+    const count = entries.length <= firstCapacity ? 1 : 1 + Math.ceil((entries.length - firstCapacity) / capacity);
+    for (let i = 0; i < count; i++) {
+      newPage();
+      tocPages.push(page);
+    }
+  }
+
+  // 正文
+  newPage();
+  let entryIndex = 0;
+  let pageBreakPending = false;
+  let volumeOutline: PdfOutlineItem | undefined;
+  const breakPage = () => {
+    if (y < top) {
+      if (pageBreakPending) newPage();
+      else y -= leading;
+    }
+    pageBreakPending = false;
+  };
+
+  volumeId = undefined;
+  chapters.forEach((chapter, index) => {
+    onChapter(chapter, index);
+
+    const volume = chapter.volumeId ? novel.volumes.find(v => v.id === chapter.volumeId) : undefined;
+    if (volume && volume.id !== volumeId) {
+      breakPage();
+      const target = writeHeading(volume.title, fontSize * 2);
+      entries[entryIndex++].target = target;
+      volumeOutline = doc.addOutline(volume.title, target.page, target.y);
+      if (volume.description) {
+        splitParagraphs(volume.description).forEach(p => writeParagraph(p));
+      }
+    } else if (!volume) {
+      volumeOutline = undefined;
+    }
+    volumeId = volume?.id;
+
+    breakPage();
+    const target = writeHeading(chapter.title, fontSize * 1.5);
+    entries[entryIndex++].target = target;
+    doc.addOutline(chapter.title, target.page, target.y, volumeOutline);
+    splitParagraphs(chapter.content).forEach(p => writeParagraph(p));
+
+    if (options.chapterPageBreak) pageBreakPending = true;
+  });
+
+  // 回填目录
+  if (tocPages.length > 0) {
+    let tocIndex = 0;
+    let lineTop = top;
+    doc.drawText(
+      tocPages[0], '目  录',
+      left + (contentWidth - doc.measureText('目  录', tocTitleSize)) / 2,
+      baselineOf(lineTop, tocTitleSize * 1.5, tocTitleSize), tocTitleSize
+    );
+    lineTop -= tocTitleHeight;
+
+    const hasVolumes = entries.some(entry => entry.level === 1);
+    const dotWidth = doc.measureText('.', fontSize);
+    entries.forEach(entry => {
+      if (lineTop - leading < bottom) {
+        tocIndex++;
+        lineTop = top;
+      }
+      const tocPage = tocPages[tocIndex];
+      const target = entry.target!;
+      const pageNumber = String(target.page + 1);
+      const numberWidth = doc.measureText(pageNumber, fontSize);
+      const x = left + (entry.level === 2 && hasVolumes ? fontSize * 2 : 0);
+      const maxTitleWidth = right - x - numberWidth - fontSize * 2;
+
+      let title = entry.title;
+      if (doc.measureText(title, fontSize) > maxTitleWidth) {
+        const chars = Array.from(title);
+        while (chars.length > 0 && doc.measureText(`${chars.join('')}…`, fontSize) > maxTitleWidth) chars.pop();
+        title = `${chars.join('')}…`;
+      }
+      const titleWidth = doc.measureText(title, fontSize);
+      const baseline = baselineOf(lineTop, leading, fontSize);
+      const dotsStart = x + titleWidth + fontSize * 0.5;
+      const dots = '.'.repeat(Math.max(0, Math.floor((right - numberWidth - fontSize * 0.5 - dotsStart) / dotWidth)));
+
+      doc.drawText(tocPage, title, x, baseline, fontSize);
+      doc.drawText(tocPage, dots, dotsStart, baseline, fontSize, { gray: 0.5 });
+      doc.drawText(tocPage, pageNumber, right - numberWidth, baseline, fontSize);
+      doc.addLink(tocPage, [left, lineTop - leading, right, lineTop], target.page, target.y);
+      lineTop -= leading;
+    });
+  }
+
+  // 页脚页码
+  const footerSize = fontSize * 0.8;
+  numberedPages.forEach(pageIndex => {
+    const text = String(pageIndex + 1);
+    doc.drawText(pageIndex, text, (doc.width - doc.measureText(text, footerSize)) / 2, bottom / 2 - footerSize * 0.35, footerSize);
+  });
+}
+
 // ==================== 导出服务类 ====================
 
 /**
@@ -304,10 +904,11 @@ class ExportService {
       chapters = this.sortChapters(chapters, novel.volumes);
 
       let blob: Blob;
+      const warnings: string[] = [];
 
       switch (options.format) {
         case 'pdf':
-          blob = await this.exportPdf(novel, chapters, mergedOptions);
+          blob = await this.exportPdf(novel, chapters, mergedOptions, warnings);
           break;
         case 'epub':
           blob = await this.exportEpub(novel, chapters, mergedOptions);
@@ -334,7 +935,8 @@ class ExportService {
         mimeType: MIME_TYPES[options.format],
         size: blob.size,
         blob,
-        downloadUrl: URL.createObjectURL(blob)
+        downloadUrl: URL.createObjectURL(blob),
+        ...(warnings.length > 0 && { warnings })
       };
 
       this.emitProgress({
@@ -386,31 +988,71 @@ class ExportService {
   }
 
   /**
-   * 导出为 PDF（生成可打印的 HTML，使用浏览器打印功能）
+   * 导出为 PDF
+   *
+   * 内嵌 pdfFont（或 pdfFontUrl 指定字体）中用到的字形子集；字体无法加载或不是 TrueType 时
+   * 退回阅读器内置的中文字体（不嵌入，部分阅读器需安装中文字体包），原因记入 warnings。
    */
   private async exportPdf(
     novel: NovelContent,
     chapters: ChapterContent[],
-    options: ExportOptions
+    options: ExportOptions,
+    warnings: string[]
   ): Promise<Blob> {
     this.emitProgress({
       stage: 'generating',
-      stageDescription: '生成 PDF 内容...',
-      percent: 20
+      stageDescription: '加载 PDF 字体...',
+      percent: 5
     });
 
-    // 生成打印友好的 HTML
-    const html = this.generatePrintableHtml(novel, chapters, options);
+    const fontUrl = options.pdfFontUrl || DEFAULT_PDF_FONT_URL;
+    const fontData = options.pdfFont ?? await loadPdfFont(fontUrl);
+    const fontLabel = options.pdfFont ? '所选字体' : `字体 ${fontUrl}`;
+    const fallbackNotice = '，PDF 改用阅读器内置的中文字体（未嵌入，未安装中文字体的设备可能无法显示）。可在导出工具中选择 TrueType 中文字体文件';
+    const size = PAGE_SIZES_MM[options.pageSize || 'a4'];
+    const documentOptions = {
+      width: size.width * MM_TO_PT,
+      height: size.height * MM_TO_PT,
+      title: novel.title,
+      author: novel.author,
+      subject: novel.description,
+      language: options.language
+    };
+
+    let doc: PdfDocument;
+    if (fontData) {
+      try {
+        doc = new PdfDocument({ ...documentOptions, font: fontData });
+      } catch (error) {
+        console.warn(`[Export] ${fontLabel}无法嵌入，改用阅读器内置中文字体:`, error);
+        warnings.push(`${fontLabel}不是可嵌入的 TrueType 字体${fallbackNotice}`);
+        doc = new PdfDocument(documentOptions);
+      }
+    } else {
+      console.warn(`[Export] 无法加载${fontLabel}，改用阅读器内置中文字体`);
+      warnings.push(`未找到可嵌入的中文字体${fallbackNotice}`);
+      doc = new PdfDocument(documentOptions);
+    }
+
+    layoutPdf(doc, novel, chapters, options, (chapter, index) => {
+      this.emitProgress({
+        stage: 'generating',
+        stageDescription: `处理章节: ${chapter.title}`,
+        percent: 10 + Math.floor((index / chapters.length) * 70),
+        currentItem: chapter.title,
+        totalItems: chapters.length,
+        processedItems: index + 1
+      });
+    });
 
     this.emitProgress({
       stage: 'packaging',
-      stageDescription: '打包 PDF 文件...',
-      percent: 80
+      stageDescription: '生成 PDF 文件...',
+      percent: 85
     });
 
-    // 注意：真正的 PDF 生成需要使用第三方库如 jsPDF 或服务器端生成
-    // 这里返回 HTML 内容，可以使用浏览器的打印功能转换为 PDF
-    return new Blob([html], { type: 'text/html' });
+    const bytes = await doc.save();
+    return new Blob([bytes], { type: MIME_TYPES.pdf });
   }
 
   /**
@@ -591,7 +1233,10 @@ class ExportService {
   }
 
   /**
-   * 导出为 EPUB
+   * 导出为 EPUB 3
+   *
+   * 生成标准 OCF 容器：mimetype（存储、位于首位）、META-INF/container.xml、
+   * OPF 包文档、nav.xhtml 导航文档及 toc.ncx（兼容 EPUB 2 阅读器），卷作为目录的上级条目。
    */
   private async exportEpub(
     novel: NovelContent,
@@ -601,147 +1246,294 @@ class ExportService {
     this.emitProgress({
       stage: 'generating',
       stageDescription: '生成 EPUB 结构...',
-      percent: 20
+      percent: 10
     });
 
-    // EPUB 是一个 ZIP 文件，包含多个 XML/HTML 文件
-    // 这里生成简化的 EPUB 结构
-
     const uuid = generateUUID();
-    const files: Record<string, string> = {};
-
-    // mimetype
-    files['mimetype'] = 'application/epub+zip';
+    const language = options.language || 'zh-CN';
+    const files: ZipEntryInput[] = [];
+    const manifest: string[] = [];
+    const spine: string[] = [];
+
+    const addDocument = (id: string, href: string, content: string, properties?: string, linear: boolean = true) => {
+      files.push({ name: `OEBPS/${href}`, data: content });
+      manifest.push(`    <item id="${id}" href="${href}" media-type="application/xhtml+xml"${properties ? ` properties="${properties}"` : ''}/>`);
+      spine.push(`    <itemref idref="${id}"${linear ? '' : ' linear="no"'}/>`);
+    };
 
-    // container.xml
-    files['META-INF/container.xml'] = `<?xml version="1.0" encoding="UTF-8"?>
-<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
-  <rootfiles>
-    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
-  </rootfiles>
-</container>`;
+    // 封面
+    const coverSource = options.includeCover ? novel.coverUrl : undefined;
+    const cover = coverSource ? await loadCoverImage(coverSource) : null;
+    if (cover) {
+      files.push({ name: `OEBPS/images/cover.${cover.extension}`, data: cover.data, compress: false });
+      manifest.push(`    <item id="cover-image" href="images/cover.${cover.extension}" media-type="${cover.mediaType}" properties="cover-image"/>`);
+      addDocument('cover', 'cover.xhtml', xhtmlDocument('封面', language, `  <div class="cover"><img src="images/cover.${cover.extension}" alt="${escapeXml(novel.title)}"/></div>`));
+    }
 
-    // content.opf
-    let manifest = '';
-    let spine = '';
-    let tocItems = '';
+    // 扉页
+    addDocument('titlepage', 'titlepage.xhtml', xhtmlDocument(novel.title, language, [
+      '  <div class="titlepage">',
+      `    <h1>${escapeXml(novel.title)}</h1>`,
+      `    <p class="author">${escapeXml(novel.author)}</p>`,
+      ...(novel.description ? splitParagraphs(novel.description).map(p => `    <p class="description">${escapeXml(p)}</p>`) : []),
+      '  </div>',
+    ].join('\n')));
+
+    // 目录树：卷为上级条目，未分卷的章节位于顶层
+    const toc: EpubTocEntry[] = [];
+    let currentVolume: EpubTocEntry | null = null;
+    let volumeIndex = 0;
+
+    // 导航文档占位，章节生成后再写入内容
+    const navIndex = files.length;
+    files.push({ name: 'OEBPS/nav.xhtml', data: '' });
+    manifest.push('    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>');
+    if (options.includeToc) {
+      spine.push('    <itemref idref="nav"/>');
+    }
 
     chapters.forEach((chapter, index) => {
-      const chapterId = `chapter${index + 1}`;
-      manifest += `    <item id="${chapterId}" href="${chapterId}.xhtml" media-type="application/xhtml+xml"/>\n`;
-      spine += `    <itemref idref="${chapterId}"/>\n`;
-      tocItems += `    <navPoint id="navpoint-${index + 1}" playOrder="${index + 1}">
-      <navLabel><text>${escapeHtml(chapter.title)}</text></navLabel>
-      <content src="${chapterId}.xhtml"/>
-    </navPoint>\n`;
+      this.emitProgress({
+        stage: 'generating',
+        stageDescription: `处理章节: ${chapter.title}`,
+        percent: 20 + Math.floor((index / chapters.length) * 50),
+        currentItem: chapter.title,
+        totalItems: chapters.length,
+        processedItems: index + 1
+      });
+
+      const volume = chapter.volumeId ? novel.volumes.find(v => v.id === chapter.volumeId) : undefined;
+      if (!volume) {
+        currentVolume = null;
+      } else if (currentVolume?.id !== volume.id) {
+        volumeIndex++;
+        const href = `volume${volumeIndex}.xhtml`;
+        currentVolume = { id: volume.id, title: volume.title, href, children: [] };
+        toc.push(currentVolume);
+        addDocument(`volume${volumeIndex}`, href, xhtmlDocument(volume.title, language, [
+          '  <div class="volume">',
+          `    <h1>${escapeXml(volume.title)}</h1>`,
+          ...(volume.description ? splitParagraphs(volume.description).map(p => `    <p class="description">${escapeXml(p)}</p>`) : []),
+          '  </div>',
+        ].join('\n')));
+      }
+
+      const href = `chapter${index + 1}.xhtml`;
+      const entry: EpubTocEntry = { id: chapter.id, title: chapter.title, href, children: [] };
+      (currentVolume ? currentVolume.children : toc).push(entry);
+      addDocument(`chapter${index + 1}`, href, xhtmlDocument(chapter.title, language, [
+        `  <h2>${escapeXml(chapter.title)}</h2>`,
+        ...splitParagraphs(chapter.content).map(p => `  <p>${escapeXml(p)}</p>`),
+      ].join('\n')));
     });
 
-    files['OEBPS/content.opf'] = `<?xml version="1.0" encoding="UTF-8"?>
-<package xmlns="http://www.idpf.org/2007/opf" version="2.0" unique-identifier="BookId">
-  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:opf="http://www.idpf.org/2007/opf">
-    <dc:identifier id="BookId">urn:uuid:${uuid}</dc:identifier>
-    <dc:title>${escapeHtml(novel.title)}</dc:title>
-    <dc:creator opf:role="aut">${escapeHtml(novel.author)}</dc:creator>
-    <dc:language>${options.language || 'zh-CN'}</dc:language>
-    ${options.publisher ? `<dc:publisher>${escapeHtml(options.publisher)}</dc:publisher>` : ''}
-    ${novel.description ? `<dc:description>${escapeHtml(novel.description)}</dc:description>` : ''}
-    <meta name="generator" content="天道AI写作"/>
+    files[navIndex].data = buildNavDocument(novel.title, language, toc);
+    files.push({ name: 'OEBPS/toc.ncx', data: buildNcx(novel.title, uuid, toc) });
+    manifest.push('    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>');
+    files.push({ name: 'OEBPS/style.css', data: buildEpubCss(options) });
+    manifest.push('    <item id="style" href="style.css" media-type="text/css"/>');
+
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="pub-id" xml:lang="${escapeXml(language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="pub-id">urn:uuid:${uuid}</dc:identifier>
+    <dc:title>${escapeXml(novel.title)}</dc:title>
+    <dc:creator id="creator">${escapeXml(novel.author)}</dc:creator>
+    <meta refines="#creator" property="role" scheme="marc:relators">aut</meta>
+    <dc:language>${escapeXml(language)}</dc:language>
+${options.publisher ? `    <dc:publisher>${escapeXml(options.publisher)}</dc:publisher>\n` : ''}${novel.description ? `    <dc:description>${escapeXml(novel.description)}</dc:description>\n` : ''}    <meta property="dcterms:modified">${modified}</meta>
+${cover ? '    <meta name="cover" content="cover-image"/>\n' : ''}    <meta name="generator" content="天道AI写作"/>
   </metadata>
   <manifest>
-    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
-    <item id="style" href="style.css" media-type="text/css"/>
-${manifest}  </manifest>
+${manifest.join('\n')}
+  </manifest>
   <spine toc="ncx">
-${spine}  </spine>
+${spine.join('\n')}
+  </spine>
 </package>`;
 
-    // toc.ncx
-    files['OEBPS/toc.ncx'] = `<?xml version="1.0" encoding="UTF-8"?>
-<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
-  <head>
-    <meta name="dtb:uid" content="urn:uuid:${uuid}"/>
-    <meta name="dtb:depth" content="1"/>
-    <meta name="dtb:totalPageCount" content="0"/>
-    <meta name="dtb:maxPageNumber" content="0"/>
-  </head>
-  <docTitle><text>${escapeHtml(novel.title)}</text></docTitle>
-  <navMap>
-${tocItems}  </navMap>
-</ncx>`;
+    this.emitProgress({
+      stage: 'packaging',
+      stageDescription: '打包 EPUB 文件...',
+      percent: 80
+    });
 
-    // style.css
-    files['OEBPS/style.css'] = `
-body {
-  font-family: ${options.fontFamily};
-  font-size: ${options.fontSize}pt;
-  line-height: ${options.lineHeight};
-  margin: 1em;
-  color: #333;
-}
+    const zip = await createZip([
+      // mimetype 必须是第一个文件且不压缩
+      { name: 'mimetype', data: MIME_TYPES.epub, compress: false },
+      { name: 'META-INF/container.xml', data: `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>` },
+      { name: 'OEBPS/content.opf', data: opf },
+      ...files,
+    ]);
+    return new Blob([zip], { type: MIME_TYPES.epub });
+  }
 
-h1, h2 {
-  text-align: center;
-  margin-bottom: 1em;
-}
+  /**
+   * 导出为 DOCX（Office Open XML）
+   *
+   * 卷标题使用“标题 1”，章节标题使用“标题 2”，目录为 TOC 域，水印写入页眉。
+   */
+  private async exportDocx(
+    novel: NovelContent,
+    chapters: ChapterContent[],
+    options: ExportOptions
+  ): Promise<Blob> {
+    this.emitProgress({
+      stage: 'generating',
+      stageDescription: '生成 Word 文档...',
+      percent: 10
+    });
 
-p {
-  text-indent: ${options.textIndent}em;
-  margin: 0 0 ${options.paragraphSpacing}px 0;
-  text-align: justify;
-}
-`;
+    const body: string[] = [];
+    // 封面和目录之后另起一页，之后按 chapterPageBreak 分页
+    let pageBreakPending = false;
+    const breakPage = () => {
+      if (pageBreakPending) body.push(DOCX_PAGE_BREAK);
+      pageBreakPending = false;
+    };
+
+    if (options.includeCover) {
+      body.push(docxParagraph(novel.title, '<w:pStyle w:val="Title"/>'));
+      body.push(docxParagraph(`作者：${novel.author}`, '<w:pStyle w:val="Subtitle"/>'));
+      if (novel.description) {
+        splitParagraphs(novel.description).forEach(p => body.push(docxParagraph(p)));
+      }
+      pageBreakPending = true;
+    }
+
+    if (options.includeToc) {
+      breakPage();
+      body.push(docxTocField());
+      pageBreakPending = true;
+    }
 
-    // 章节文件
+    let currentVolumeId: string | undefined;
     chapters.forEach((chapter, index) => {
       this.emitProgress({
         stage: 'generating',
         stageDescription: `处理章节: ${chapter.title}`,
-        percent: 20 + Math.floor((index / chapters.length) * 50),
+        percent: 10 + Math.floor((index / chapters.length) * 70),
         currentItem: chapter.title,
         totalItems: chapters.length,
         processedItems: index + 1
       });
 
-      const chapterId = `chapter${index + 1}`;
-      files[`OEBPS/${chapterId}.xhtml`] = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE html>
-<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${options.language || 'zh-CN'}">
-<head>
-  <meta charset="UTF-8"/>
-  <title>${escapeHtml(chapter.title)}</title>
-  <link rel="stylesheet" type="text/css" href="style.css"/>
-</head>
-<body>
-  <h2>${escapeHtml(chapter.title)}</h2>
-  ${contentToParagraphs(chapter.content, options)}
-</body>
-</html>`;
+      const volume = chapter.volumeId ? novel.volumes.find(v => v.id === chapter.volumeId) : undefined;
+      if (volume && volume.id !== currentVolumeId) {
+        breakPage();
+        body.push(docxParagraph(volume.title, '<w:pStyle w:val="Heading1"/>'));
+        if (volume.description) {
+          splitParagraphs(volume.description).forEach(p => body.push(docxParagraph(p)));
+        }
+      }
+      currentVolumeId = volume?.id;
+
+      breakPage();
+      body.push(docxParagraph(chapter.title, '<w:pStyle w:val="Heading2"/>'));
+      splitParagraphs(chapter.content).forEach(p => body.push(docxParagraph(p)));
+
+      if (options.chapterPageBreak) pageBreakPending = true;
     });
 
+    const size = PAGE_SIZES_MM[options.pageSize || 'a4'];
+    const margins = options.margins || { top: 25, right: 20, bottom: 25, left: 20 };
+    const headerReference = options.watermark ? '<w:headerReference w:type="default" r:id="rIdHeader1"/>' : '';
+    const sectPr = `<w:sectPr>${headerReference}` +
+      `<w:pgSz w:w="${mmToTwip(size.width)}" w:h="${mmToTwip(size.height)}"/>` +
+      `<w:pgMar w:top="${mmToTwip(margins.top)}" w:right="${mmToTwip(margins.right)}" w:bottom="${mmToTwip(margins.bottom)}" w:left="${mmToTwip(margins.left)}" w:header="567" w:footer="567" w:gutter="0"/>` +
+      '</w:sectPr>';
+
+    const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${DOCX_NAMESPACES}>
+  <w:body>
+${body.join('\n')}
+${sectPr}
+  </w:body>
+</w:document>`;
+
     this.emitProgress({
       stage: 'packaging',
-      stageDescription: '打包 EPUB 文件...',
-      percent: 80
+      stageDescription: '打包 Word 文件...',
+      percent: 85
     });
 
-    // 使用简化的 EPUB 打包
-    // 注意：完整的 EPUB 打包需要使用 JSZip 等库
-    // 这里返回一个包含所有文件内容的 JSON，供外部处理
-    const epubData = JSON.stringify(files, null, 2);
-    return new Blob([epubData], { type: 'application/json' });
-  }
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const files: ZipEntryInput[] = [
+      {
+        name: '[Content_Types].xml',
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>
+${options.watermark ? '  <Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>\n' : ''}  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+  <Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>
+</Types>`
+      },
+      {
+        name: '_rels/.rels',
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+  <Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties" Target="docProps/app.xml"/>
+</Relationships>`
+      },
+      {
+        name: 'docProps/core.xml',
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(novel.title)}</dc:title>
+  <dc:creator>${escapeXml(novel.author)}</dc:creator>
+${novel.description ? `  <dc:description>${escapeXml(novel.description)}</dc:description>\n` : ''}  <dc:language>${escapeXml(options.language || 'zh-CN')}</dc:language>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+  <dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>`
+      },
+      {
+        name: 'docProps/app.xml',
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">
+  <Application>天道AI写作</Application>
+${options.publisher ? `  <Company>${escapeXml(options.publisher)}</Company>\n` : ''}</Properties>`
+      },
+      { name: 'word/document.xml', data: documentXml },
+      { name: 'word/styles.xml', data: buildDocxStyles(options) },
+      {
+        name: 'word/settings.xml',
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings ${DOCX_NAMESPACES}>
+  <w:defaultTabStop w:val="420"/>
+${options.includeToc ? '  <w:updateFields w:val="true"/>\n' : ''}  <w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat>
+</w:settings>`
+      },
+      {
+        name: 'word/_rels/document.xml.rels',
+        data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+  <Relationship Id="rIdSettings" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/>
+${options.watermark ? '  <Relationship Id="rIdHeader1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>\n' : ''}</Relationships>`
+      }
+    ];
 
-  /**
-   * 导出为 DOCX（生成 HTML，可转换）
-   */
-  private async exportDocx(
-    novel: NovelContent,
-    chapters: ChapterContent[],
-    options: ExportOptions
-  ): Promise<Blob> {
-    // DOCX 格式需要专门的库（如 docx）来生成
-    // 这里返回 HTML 格式，可以用 Word 打开
-    return this.exportHtml(novel, chapters, options);
+    if (options.watermark) {
+      files.push({
+        name: 'word/header1.xml',
+        data: buildDocxWatermarkHeader(options.watermark, resolveDocxFonts(options.fontFamily).eastAsia)
+      });
+    }
+
+    const zip = await createZip(files);
+    return new Blob([zip], { type: MIME_TYPES.docx });
   }
 
   /**
@@ -926,6 +1718,33 @@ p {
   }
 }
 
+/**
+ * 将作品数据转换为导出内容（Novel.cover 作为封面）
+ */
+export function novelToExportContent(novel: Novel, author: string): NovelContent {
+  const chapters = novel.chapters || [];
+  return {
+    id: novel.id,
+    title: novel.title,
+    author,
+    description: novel.description,
+    coverUrl: novel.cover,
+    volumes: (novel.volumes || []).map(volume => ({
+      id: volume.id,
+      title: volume.title,
+      order: volume.order
+    })),
+    chapters: chapters.map((chapter, index) => ({
+      id: chapter.id,
+      title: chapter.title,
+      content: chapter.content,
+      volumeId: chapter.volumeId,
+      order: index
+    })),
+    updatedAt: novel.updatedAt
+  };
+}
+
 // 导出单例
 export const exportService = new ExportService();
 
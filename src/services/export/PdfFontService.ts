@@ -0,0 +1,106 @@
+/**
+ * @fileoverview PDF 内嵌字体
+ * @module services/export/PdfFontService
+ * @description 保存用户选择的 TrueType 中文字体，PDF 导出时内嵌其中用到的字形子集。
+ *
+ * 仓库不附带字体文件（DEFAULT_PDF_FONT_URL 需要部署时提供），没有可用字体时
+ * PDF 只能使用阅读器内置的中文字体。字体以 base64 保存在 IndexedDB（StorageService），
+ * 字体信息单独保存，显示字体名时不必读取整个字体文件。
+ */
+
+import { storageService } from '../storage/StorageService';
+import { parseTrueType } from '../../utils/truetype';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 已保存字体的信息
+ */
+export interface PdfFontInfo {
+  /** 文件名 */
+  fileName: string;
+  /** 字体的 PostScript 名称 */
+  fontName: string;
+  /** 文件大小（字节） */
+  size: number;
+  savedAt: string;
+}
+
+// ==================== 常量 ====================
+
+const FONT_DATA_KEY = 'tiandao_pdf_font';
+const FONT_INFO_KEY = 'tiandao_pdf_font_info';
+
+// ==================== 编码 ====================
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // 分段转换，避免超长参数列表
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (encoded: string): Uint8Array => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// ==================== 服务 ====================
+
+export class PdfFontService {
+  /**
+   * 检查并保存字体文件
+   *
+   * @throws {Error} 不是可嵌入的 TrueType 字体（如 OpenType CFF、字体集合 .ttc）时抛出
+   */
+  static async save(file: Blob & { name?: string }, now: Date = new Date()): Promise<PdfFontInfo> {
+    const data = new Uint8Array(await file.arrayBuffer());
+    let fontName: string;
+    try {
+      fontName = parseTrueType(data).postScriptName;
+    } catch (error) {
+      throw new Error(`无法使用该字体：${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const info: PdfFontInfo = {
+      fileName: file.name || `${fontName}.ttf`,
+      fontName,
+      size: data.length,
+      savedAt: now.toISOString(),
+    };
+    await storageService.set(FONT_DATA_KEY, toBase64(data));
+    await storageService.set(FONT_INFO_KEY, info);
+    return info;
+  }
+
+  /**
+   * 已保存字体的信息，没有时返回 null
+   */
+  static async getInfo(): Promise<PdfFontInfo | null> {
+    return storageService.get<PdfFontInfo | null>(FONT_INFO_KEY, null);
+  }
+
+  /**
+   * 读取已保存的字体，没有或读取失败时返回 null
+   */
+  static async load(): Promise<Uint8Array | null> {
+    try {
+      const encoded = await storageService.get<string | null>(FONT_DATA_KEY, null);
+      return encoded ? fromBase64(encoded) : null;
+    } catch (error) {
+      console.error('读取 PDF 字体失败:', error);
+      return null;
+    }
+  }
+
+  static async remove(): Promise<void> {
+    await storageService.remove(FONT_DATA_KEY);
+    await storageService.remove(FONT_INFO_KEY);
+  }
+}
@@ -0,0 +1,461 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { exportService, novelToExportContent, resolveDocxFonts, type NovelContent } from '../ExportService';
+import { readZip, zipEntryText, type ZipEntry } from '../../../utils/zip';
+import type { Novel } from '../../../types';
+import { buildTestFont, TEST_GLYPHS } from '../../../test/fontFixture';
+import { findObject, parsePdf, ref, type ParsedPdf } from '../../../test/pdfReader';
+import { pdfTextString } from '../../../utils/pdf';
+
+// 1x1 透明 PNG
+const PNG_DATA_URL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const novel: NovelContent = {
+  id: 'novel-1',
+  title: '天道 & 人心',
+  author: '青云',
+  description: '一部关于修行的小说',
+  coverUrl: PNG_DATA_URL,
+  volumes: [
+    { id: 'v2', title: '第二卷 问道', order: 2 },
+    { id: 'v1', title: '第一卷 初入', order: 1, description: '少年下山' },
+  ],
+  chapters: [
+    { id: 'c3', title: '第三章 论剑', content: '剑出如虹。', volumeId: 'v2', order: 1 },
+    { id: 'c1', title: '第一章 <下山>', content: '清晨，他走出山门。\n\n山下是另一个世界。', volumeId: 'v1', order: 1 },
+    { id: 'c2', title: '第二章 入城', content: '城门高耸。\n人潮汹涌。', volumeId: 'v1', order: 2 },
+  ],
+};
+
+const parseXml = (text: string): Document => new DOMParser().parseFromString(text, 'application/xml');
+
+const isWellFormed = (text: string): boolean => parseXml(text).getElementsByTagName('parsererror').length === 0;
+
+const resolvePath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  href.split('#')[0].split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+/**
+ * 按 OCF / OPF 规范做结构检查，返回发现的问题
+ */
+const validateEpub = (zip: Uint8Array, entries: ZipEntry[]): string[] => {
+  const errors: string[] = [];
+  const files = new Map(entries.map(e => [e.name, e]));
+  const text = (name: string) => zipEntryText(files.get(name)!);
+
+  // OCF：mimetype 必须是第一个文件、不压缩、无扩展字段
+  const header = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  if (entries[0]?.name !== 'mimetype') errors.push('mimetype 不是第一个文件');
+  if (entries[0]?.method !== 0) errors.push('mimetype 被压缩');
+  if (header.getUint16(28, true) !== 0) errors.push('mimetype 含扩展字段');
+  if (new TextDecoder().decode(zip.subarray(30, 38)) !== 'mimetype') errors.push('mimetype 文件名位置错误');
+  if (files.get('mimetype') && text('mimetype') !== 'application/epub+zip') errors.push('mimetype 内容错误');
+
+  const container = files.get('META-INF/container.xml');
+  if (!container) return [...errors, '缺少 container.xml'];
+  const opfPath = parseXml(zipEntryText(container)).getElementsByTagName('rootfile')[0]?.getAttribute('full-path') || '';
+  if (!files.has(opfPath)) return [...errors, `OPF 不存在: ${opfPath}`];
+
+  const opf = parseXml(text(opfPath));
+  const pkg = opf.documentElement;
+  if (pkg.getAttribute('version') !== '3.0') errors.push('package 版本不是 3.0');
+  const uid = pkg.getAttribute('unique-identifier');
+  const identifiers = Array.from(opf.getElementsByTagName('dc:identifier'));
+  if (!identifiers.some(i => i.getAttribute('id') === uid)) errors.push('unique-identifier 未指向 dc:identifier');
+  if (!opf.getElementsByTagName('dc:title')[0]?.textContent) errors.push('缺少 dc:title');
+  if (!opf.getElementsByTagName('dc:language')[0]?.textContent) errors.push('缺少 dc:language');
+  const modified = Array.from(opf.getElementsByTagName('meta')).find(m => m.getAttribute('property') === 'dcterms:modified');
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(modified?.textContent || '')) errors.push('dcterms:modified 格式错误');
+
+  const items = Array.from(opf.getElementsByTagName('item'));
+  const ids = new Set<string>();
+  const manifestPaths = new Set<string>();
+  items.forEach(item => {
+    const id = item.getAttribute('id')!;
+    if (ids.has(id)) errors.push(`manifest id 重复: ${id}`);
+    ids.add(id);
+    const path = resolvePath(opfPath, item.getAttribute('href')!);
+    manifestPaths.add(path);
+    if (!files.has(path)) errors.push(`manifest 文件不存在: ${path}`);
+  });
+  entries
+    .filter(e => e.name !== 'mimetype' && !e.name.startsWith('META-INF/') && e.name !== opfPath)
+    .forEach(e => {
+      if (!manifestPaths.has(e.name)) errors.push(`文件未在 manifest 中声明: ${e.name}`);
+    });
+
+  const navItems = items.filter(i => (i.getAttribute('properties') || '').split(' ').includes('nav'));
+  if (navItems.length !== 1) errors.push('必须有且只有一个 nav 文档');
+
+  const spine = opf.getElementsByTagName('spine')[0];
+  if (!ids.has(spine.getAttribute('toc') || '')) errors.push('spine toc 未指向 NCX');
+  Array.from(spine.getElementsByTagName('itemref')).forEach(ref => {
+    if (!ids.has(ref.getAttribute('idref')!)) errors.push(`spine 引用不存在: ${ref.getAttribute('idref')}`);
+  });
+
+  // 内容文档必须是格式良好的 XML，导航链接必须可达
+  entries.filter(e => /\.(xhtml|ncx|opf)$/.test(e.name)).forEach(e => {
+    if (!isWellFormed(zipEntryText(e))) errors.push(`XML 格式错误: ${e.name}`);
+  });
+  if (navItems[0]) {
+    const navPath = resolvePath(opfPath, navItems[0].getAttribute('href')!);
+    const nav = parseXml(text(navPath));
+    Array.from(nav.getElementsByTagName('a')).forEach(a => {
+      if (!files.has(resolvePath(navPath, a.getAttribute('href')!))) errors.push(`nav 链接不可达: ${a.getAttribute('href')}`);
+    });
+  }
+
+  const ncxItem = items.find(i => i.getAttribute('media-type') === 'application/x-dtbncx+xml');
+  if (ncxItem) {
+    const ncxPath = resolvePath(opfPath, ncxItem.getAttribute('href')!);
+    const points = Array.from(parseXml(text(ncxPath)).getElementsByTagName('navPoint'));
+    points.forEach((point, index) => {
+      if (point.getAttribute('playOrder') !== String(index + 1)) errors.push('NCX playOrder 不连续');
+      const src = point.getElementsByTagName('content')[0].getAttribute('src')!;
+      if (!files.has(resolvePath(ncxPath, src))) errors.push(`NCX 链接不可达: ${src}`);
+    });
+  }
+
+  return errors;
+};
+
+// jsdom 的 Blob 没有 arrayBuffer()，用 FileReader 读取
+const readBlob = (blob: Blob): Promise<Uint8Array> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+const exportEpub = async (content: NovelContent, options: Record<string, unknown> = {}) => {
+  const result = await exportService.export(content, { format: 'epub', publisher: '天道出版社', ...options });
+  expect(result.success).toBe(true);
+  const zip = await readBlob(result.blob!);
+  return { result, zip, entries: await readZip(zip) };
+};
+
+describe('ExportService EPUB', () => {
+  beforeEach(() => {
+    URL.createObjectURL = vi.fn(() => 'blob:mock');
+  });
+
+  it('should produce a structurally valid EPUB 3 package', async () => {
+    const { result, zip, entries } = await exportEpub(novel);
+
+    expect(result.mimeType).toBe('application/epub+zip');
+    expect(result.filename).toBe('天道 & 人心.epub');
+    expect(validateEpub(zip, entries)).toEqual([]);
+    // 正文经过 Deflate 压缩
+    expect(entries.find(e => e.name === 'OEBPS/chapter1.xhtml')?.method).toBe(8);
+  });
+
+  it('should nest chapters under volumes in nav and NCX', async () => {
+    const { entries } = await exportEpub(novel);
+    const files = new Map(entries.map(e => [e.name, zipEntryText(e)]));
+
+    const nav = parseXml(files.get('OEBPS/nav.xhtml')!);
+    const topItems = Array.from(nav.querySelector('nav > ol')!.children);
+    expect(topItems.map(li => li.querySelector('a')!.textContent)).toEqual(['第一卷 初入', '第二卷 问道']);
+    expect(Array.from(topItems[0].querySelectorAll('ol > li > a')).map(a => a.textContent)).toEqual([
+      '第一章 <下山>',
+      '第二章 入城',
+    ]);
+
+    const ncx = parseXml(files.get('OEBPS/toc.ncx')!);
+    const navMap = ncx.getElementsByTagName('navMap')[0];
+    const topPoints = Array.from(navMap.children).filter(el => el.tagName === 'navPoint');
+    expect(topPoints).toHaveLength(2);
+    expect(topPoints[0].getElementsByTagName('navPoint')).toHaveLength(2);
+    expect(ncx.querySelector('meta[name="dtb:depth"]')?.getAttribute('content')).toBe('2');
+
+    // 卷说明写入卷首页，段落按行拆分
+    expect(files.get('OEBPS/volume1.xhtml')).toContain('少年下山');
+    expect(files.get('OEBPS/chapter2.xhtml')).toContain('<p>城门高耸。</p>');
+    expect(files.get('OEBPS/chapter2.xhtml')).toContain('<p>人潮汹涌。</p>');
+  });
+
+  it('should embed the cover and write metadata and typography options', async () => {
+    const { entries } = await exportEpub(novel, { language: 'zh-TW', fontSize: 14, lineHeight: 2, textIndent: 3 });
+    const files = new Map(entries.map(e => [e.name, e]));
+
+    const cover = files.get('OEBPS/images/cover.png');
+    expect(String.fromCharCode(...cover!.data.slice(1, 4))).toBe('PNG');
+
+    const opf = parseXml(zipEntryText(files.get('OEBPS/content.opf')!));
+    expect(opf.querySelector('item[properties="cover-image"]')?.getAttribute('href')).toBe('images/cover.png');
+    expect(opf.getElementsByTagName('dc:language')[0].textContent).toBe('zh-TW');
+    expect(opf.getElementsByTagName('dc:publisher')[0].textContent).toBe('天道出版社');
+    expect(opf.getElementsByTagName('dc:title')[0].textContent).toBe('天道 & 人心');
+
+    const css = zipEntryText(files.get('OEBPS/style.css')!);
+    expect(css).toContain('font-size: 14pt');
+    expect(css).toContain('line-height: 2');
+    expect(css).toContain('text-indent: 3em');
+  });
+
+  it('should omit the cover when disabled and keep flat TOC without volumes', async () => {
+    const flat: NovelContent = { ...novel, volumes: [], chapters: novel.chapters.map(c => ({ ...c, volumeId: undefined })) };
+    const { zip, entries } = await exportEpub(flat, { includeCover: false });
+
+    expect(entries.some(e => e.name.startsWith('OEBPS/images/'))).toBe(false);
+    expect(validateEpub(zip, entries)).toEqual([]);
+    const ncx = zipEntryText(entries.find(e => e.name === 'OEBPS/toc.ncx')!);
+    expect(ncx).toContain('<meta name="dtb:depth" content="1"/>');
+  });
+});
+
+describe('ExportService DOCX', () => {
+  const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+  beforeEach(() => {
+    URL.createObjectURL = vi.fn(() => 'blob:mock');
+  });
+
+  const exportDocx = async (options: Record<string, unknown> = {}) => {
+    const result = await exportService.export(novel, { format: 'docx', ...options });
+    expect(result.success).toBe(true);
+    expect(result.filename).toBe('天道 & 人心.docx');
+    const entries = await readZip(await readBlob(result.blob!));
+    return new Map(entries.map(e => [e.name, zipEntryText(e)]));
+  };
+
+  const paragraphs = (documentXml: string) => Array.from(parseXml(documentXml).getElementsByTagNameNS(W, 'p'));
+  const styleOf = (p: Element) => p.getElementsByTagNameNS(W, 'pStyle')[0]?.getAttributeNS(W, 'val');
+
+  it('should write a well-formed OOXML package with resolvable relationships', async () => {
+    const files = await exportDocx({ watermark: '样稿' });
+
+    files.forEach((text, name) => expect(isWellFormed(text), name).toBe(true));
+    const contentTypes = parseXml(files.get('[Content_Types].xml')!);
+    Array.from(contentTypes.getElementsByTagName('Override')).forEach(o => {
+      expect(files.has(o.getAttribute('PartName')!.slice(1))).toBe(true);
+    });
+    Array.from(parseXml(files.get('word/_rels/document.xml.rels')!).getElementsByTagName('Relationship')).forEach(r => {
+      expect(files.has(`word/${r.getAttribute('Target')}`)).toBe(true);
+    });
+  });
+
+  it('should map volumes and chapters to Heading 1 and Heading 2 in order', async () => {
+    const files = await exportDocx();
+    const headings = paragraphs(files.get('word/document.xml')!)
+      .filter(p => /^Heading/.test(styleOf(p) || ''))
+      .map(p => `${styleOf(p)}:${p.textContent}`);
+
+    expect(headings).toEqual([
+      'Heading1:第一卷 初入',
+      'Heading2:第一章 <下山>',
+      'Heading2:第二章 入城',
+      'Heading1:第二卷 问道',
+      'Heading2:第三章 论剑',
+    ]);
+  });
+
+  it('should emit page breaks only when chapterPageBreak is set', async () => {
+    const countBreaks = (xml: string) => (xml.match(/<w:br w:type="page"\/>/g) || []).length;
+
+    // 封面、目录之后各一次，之后第二、三章和第二卷前各一次
+    expect(countBreaks((await exportDocx({ chapterPageBreak: true })).get('word/document.xml')!)).toBe(4);
+    expect(countBreaks((await exportDocx({ chapterPageBreak: false })).get('word/document.xml')!)).toBe(2);
+    expect(countBreaks((await exportDocx({ chapterPageBreak: false, includeCover: false, includeToc: false })).get('word/document.xml')!)).toBe(0);
+  });
+
+  it('should apply fonts, size, line height and first-line indent', async () => {
+    const files = await exportDocx({ fontFamily: '"Georgia", "Source Han Serif SC", serif', fontSize: 14, lineHeight: 2, textIndent: 2 });
+    const styles = parseXml(files.get('word/styles.xml')!);
+    const normal = Array.from(styles.getElementsByTagNameNS(W, 'style')).find(s => s.getAttributeNS(W, 'styleId') === 'Normal')!;
+
+    const fonts = normal.getElementsByTagNameNS(W, 'rFonts')[0];
+    expect(fonts.getAttributeNS(W, 'ascii')).toBe('Georgia');
+    expect(fonts.getAttributeNS(W, 'eastAsia')).toBe('Source Han Serif SC');
+    expect(normal.getElementsByTagNameNS(W, 'sz')[0].getAttributeNS(W, 'val')).toBe('28');
+    expect(normal.getElementsByTagNameNS(W, 'ind')[0].getAttributeNS(W, 'firstLineChars')).toBe('200');
+    expect(styles.getElementsByTagNameNS(W, 'spacing')[0].getAttributeNS(W, 'line')).toBe('480');
+  });
+
+  it('should add a TOC field only when includeToc is true', async () => {
+    expect((await exportDocx({ includeToc: true })).get('word/document.xml')).toContain('TOC \\o "1-2"');
+    // CT_Settings 要求子元素按顺序出现：defaultTabStop 在 updateFields 之前，compat 在最后
+    const settings = parseXml((await exportDocx({ includeToc: true })).get('word/settings.xml')!);
+    expect(Array.from(settings.documentElement.children).map(el => el.localName)).toEqual(['defaultTabStop', 'updateFields', 'compat']);
+    expect((await exportDocx({ includeToc: false })).get('word/document.xml')).not.toContain('instrText');
+  });
+
+  it('should render the watermark in the default header', async () => {
+    const files = await exportDocx({ watermark: '内部样稿 <勿传>' });
+
+    expect(files.get('word/document.xml')).toContain('<w:headerReference w:type="default" r:id="rIdHeader1"/>');
+    const textpath = parseXml(files.get('word/header1.xml')!).getElementsByTagName('v:textpath')[0];
+    expect(textpath.getAttribute('string')).toBe('内部样稿 <勿传>');
+
+    const plain = await exportDocx();
+    expect(plain.has('word/header1.xml')).toBe(false);
+    expect(plain.get('word/document.xml')).not.toContain('headerReference');
+  });
+
+  it('should resolve Latin and East-Asian fonts from a CSS font stack', () => {
+    expect(resolveDocxFonts('"Noto Serif SC", "Source Han Serif SC", serif')).toEqual({ latin: 'Noto Serif SC', eastAsia: 'Noto Serif SC' });
+    expect(resolveDocxFonts('Arial, SimHei')).toEqual({ latin: 'Arial', eastAsia: 'SimHei' });
+    expect(resolveDocxFonts('sans-serif')).toEqual({ latin: 'Times New Roman', eastAsia: '黑体' });
+    expect(resolveDocxFonts()).toEqual({ latin: 'Times New Roman', eastAsia: '宋体' });
+  });
+});
+
+describe('ExportService PDF', () => {
+  let fontRequest = 0;
+
+  beforeEach(() => {
+    URL.createObjectURL = vi.fn(() => 'blob:mock');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  /** 未嵌入字体时按 UCS-2 编码，便于断言页面文字 */
+  const ucs2 = (text: string) => `<${Array.from(text, c => c.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')).join('')}> Tj`;
+
+  const exportPdf = async (options: Record<string, unknown> = {}, font?: Uint8Array) => {
+    vi.stubGlobal('fetch', vi.fn(async () => (font ? new Response(font) : new Response(null, { status: 404 }))));
+    // 每次使用新的字体地址，避免字体缓存影响
+    const result = await exportService.export(novel, { format: 'pdf', pdfFontUrl: `/fonts/test-${++fontRequest}.ttf`, ...options });
+    expect(result.success).toBe(true);
+    expect(result.filename).toBe('天道 & 人心.pdf');
+    expect(result.mimeType).toBe('application/pdf');
+
+    const pdf = parsePdf(await readBlob(result.blob!));
+    const [, catalog] = findObject(pdf, /\/Type \/Catalog/);
+    const pageIds = pdf.objects.get(ref(catalog, 'Pages'))!.match(/\d+(?= 0 R)/g)!.map(Number);
+    const pages = await Promise.all(pageIds.map(async id => new TextDecoder().decode(await pdf.stream(ref(pdf.objects.get(id)!, 'Contents')))));
+    return { pdf, catalog, pageIds, pages, warnings: result.warnings };
+  };
+
+  const outlineTitles = (pdf: ParsedPdf, first: number): string[] => {
+    const titles: string[] = [];
+    for (let id: number | undefined = first; id; ) {
+      const item = pdf.objects.get(id)!;
+      titles.push(item.match(/\/Title (<[0-9A-F]+>)/)![1]);
+      if (item.includes('/First ')) titles.push(...outlineTitles(pdf, ref(item, 'First')).map(t => `  ${t}`));
+      id = item.includes('/Next ') ? ref(item, 'Next') : undefined;
+    }
+    return titles;
+  };
+
+  it('should embed a subset of the loaded TrueType font', async () => {
+    const { pdf } = await exportPdf({}, buildTestFont(TEST_GLYPHS));
+
+    const [, type0] = findObject(pdf, /\/Subtype \/Type0/);
+    expect(type0).toMatch(/\/BaseFont \/[A-Z]{6}\+TestSans/);
+    expect(findObject(pdf, /\/FontFile2/)).toBeDefined();
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('should embed a user-selected font without fetching the default', async () => {
+    const { pdf } = await exportPdf({ pdfFont: buildTestFont(TEST_GLYPHS) });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(findObject(pdf, /\/Subtype \/Type0/)[1]).toMatch(/\/BaseFont \/[A-Z]{6}\+TestSans/);
+  });
+
+  it('should fall back to the built-in Chinese font when the font cannot be loaded', async () => {
+    const { pdf, warnings } = await exportPdf();
+
+    expect(findObject(pdf, /\/Subtype \/Type0/)[1]).toContain('/STSong-Light');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('无法加载字体'));
+    expect(warnings).toEqual([expect.stringContaining('未找到可嵌入的中文字体')]);
+
+    const invalid = await exportPdf({ pdfFont: new Uint8Array([0, 1, 2, 3]) });
+    expect(invalid.warnings).toEqual([expect.stringContaining('所选字体不是可嵌入的 TrueType 字体')]);
+  });
+
+  it('should honour page size, margins and font size', async () => {
+    const { pdf, pages } = await exportPdf({
+      pageSize: 'a5',
+      margins: { top: 20, right: 15, bottom: 20, left: 30 },
+      fontSize: 14,
+      textIndent: 2,
+      includeCover: false,
+      includeToc: false,
+    });
+
+    expect(findObject(pdf, /\/Type \/Page /)[1]).toContain('/MediaBox [0 0 419.53 595.28]');
+    const firstLine = pages[0].split('\n').find(line => line.includes(ucs2('清晨，他走出山门。')))!;
+    // 左边距 30mm + 两字缩进
+    expect(firstLine).toContain('/F1 14 Tf');
+    expect(firstLine).toContain(` ${Number((30 * 72 / 25.4 + 28).toFixed(2))} `);
+  });
+
+  it('should write volume and chapter bookmarks', async () => {
+    const { pdf, catalog } = await exportPdf();
+    const outlines = pdf.objects.get(ref(catalog, 'Outlines'))!;
+
+    expect(outlines).toContain('/Count 5');
+    expect(outlineTitles(pdf, ref(outlines, 'First'))).toEqual([
+      pdfTextString('第一卷 初入'),
+      `  ${pdfTextString('第一章 <下山>')}`,
+      `  ${pdfTextString('第二章 入城')}`,
+      pdfTextString('第二卷 问道'),
+      `  ${pdfTextString('第三章 论剑')}`,
+    ]);
+  });
+
+  it('should fill the table of contents with real page numbers and links', async () => {
+    const { pdf, pageIds, pages } = await exportPdf({ includeCover: true, includeToc: true, chapterPageBreak: true });
+
+    // 封面、目录、卷一第一章、第二章、卷二第三章
+    expect(pages).toHaveLength(5);
+    const toc = pages[1];
+    expect(toc).toContain(ucs2('目  录'));
+    expect(toc).toContain(ucs2('第二章 入城'));
+    ['3', '4', '5'].forEach(number => expect(toc).toContain(ucs2(number)));
+    expect(pages[3]).toContain(ucs2('第二章 入城'));
+
+    const tocPage = pdf.objects.get(pageIds[1])!;
+    const targets = tocPage.match(/\/Annots \[([^\]]+)\]/)![1].match(/\d+(?= 0 R)/g)!.map(id => {
+      const link = pdf.objects.get(Number(id))!;
+      return pageIds.indexOf(Number(link.match(/\/Dest \[(\d+) 0 R/)![1]));
+    });
+    expect(targets).toEqual([2, 2, 3, 4, 4]);
+
+    // 封面不编页码，其余页脚为物理页码
+    expect(pages[0]).not.toContain(ucs2('1'));
+    expect(pages[1]).toContain(ucs2('2'));
+  });
+
+  it('should flow chapters without page breaks when chapterPageBreak is false', async () => {
+    const { pages } = await exportPdf({ includeCover: false, includeToc: false, chapterPageBreak: false });
+
+    expect(pages).toHaveLength(1);
+    expect(pages[0]).toContain(ucs2('第三章 论剑'));
+  });
+
+  it('should draw the watermark on every page beneath the text', async () => {
+    const { pages } = await exportPdf({ watermark: '样稿' });
+
+    expect(pages.length).toBeGreaterThan(1);
+    pages.forEach(content => {
+      const first = content.split('\n')[0];
+      expect(first).toContain(ucs2('样稿'));
+      expect(first).toContain('0.88 g');
+    });
+  });
+});
+
+describe('novelToExportContent', () => {
+  it('should map Novel.cover to coverUrl', () => {
+    const source = {
+      id: 'n', title: 't', description: 'd', cover: PNG_DATA_URL, wordCount: 0, status: 'draft', updatedAt: '', tags: [],
+      chapters: [{ id: 'c', title: '一', content: '正文', wordCount: 2, volumeId: 'v' }],
+      volumes: [{ id: 'v', title: '卷', order: 1, createdAt: '' }],
+    } as Novel;
+
+    const content = novelToExportContent(source, '作者');
+    expect(content.coverUrl).toBe(PNG_DATA_URL);
+    expect(content.chapters[0]).toMatchObject({ id: 'c', volumeId: 'v', order: 0 });
+  });
+});
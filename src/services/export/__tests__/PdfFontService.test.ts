@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildTestFont, TEST_GLYPHS } from '../../../test/fontFixture';
+import { PdfFontService } from '../PdfFontService';
+
+const stored = new Map<string, unknown>();
+
+vi.mock('../../storage/StorageService', () => ({
+  storageService: {
+    get: async (key: string, defaultValue: unknown) => stored.has(key) ? stored.get(key) : defaultValue,
+    set: async (key: string, value: unknown) => { stored.set(key, value); },
+    remove: async (key: string) => { stored.delete(key); },
+  },
+}));
+
+const fontFile = (data: Uint8Array, name: string) =>
+  Object.assign(new Blob([data]), { name, arrayBuffer: async () => data.slice().buffer });
+
+describe('PdfFontService', () => {
+  beforeEach(() => {
+    stored.clear();
+  });
+
+  it('should save a TrueType font and load it back', async () => {
+    const data = buildTestFont(TEST_GLYPHS);
+    const info = await PdfFontService.save(fontFile(data, 'TestSans.ttf'), new Date('2026-01-01T00:00:00Z'));
+
+    expect(info).toEqual({ fileName: 'TestSans.ttf', fontName: 'TestSans', size: data.length, savedAt: '2026-01-01T00:00:00.000Z' });
+    expect(await PdfFontService.getInfo()).toEqual(info);
+    expect(await PdfFontService.load()).toEqual(data);
+
+    await PdfFontService.remove();
+    expect(await PdfFontService.getInfo()).toBeNull();
+    expect(await PdfFontService.load()).toBeNull();
+  });
+
+  it('should reject fonts that cannot be embedded', async () => {
+    const otf = new Uint8Array([0x4f, 0x54, 0x54, 0x4f, 0, 0, 0, 0]); // 'OTTO'：CFF 字体
+
+    await expect(PdfFontService.save(fontFile(otf, 'Test.otf'))).rejects.toThrow('无法使用该字体');
+    expect(await PdfFontService.getInfo()).toBeNull();
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * @fileoverview 作品级操作历史（撤销 / 重做）
+ * @module services/history/CommandJournal
+ * @description 把对 Novel 的每次修改记为一条可撤销的命令，覆盖正文、人物设定、大纲等所有字段。
+ *
+ * 每条命令只记录被修改字段的旧值和新值（字段都是不可变数组，旧值只是引用，不会复制整部作品）：
+ * - 撤销：写回旧值
+ * - 重做：写回新值
+ * - 跳转：连续撤销或重做到任意位置，合并成一次写入
+ *
+ * 连续输入（同一类修改、间隔很短）合并为一条；批量操作放在事务中，整体记为一条，一次撤销。
+ * 批量精修等耗时操作使用后台事务，只有经 include 写入的修改并入事务，作者同时进行的编辑单独记录。
+ * 章节、人物等按 id 标识的数组，撤销、重做时只写回该条记录改过的元素。
+ *
+ * @example
+ * const journal = new CommandJournal();
+ * journal.record(novel, { chapters: next });
+ *
+ * await journal.transaction('批量精修', async () => {
+ *   for (const chapter of selected) {
+ *     const chapters = await polish(chapter);
+ *     journal.include(() => onUpdateNovel({ chapters }));
+ *   }
+ * }, { background: true });
+ *
+ * const patch = journal.undo(novel); // 整个批量精修的修改
+ * if (patch) applyNovelUpdate(patch);
+ */
+
+import type { Novel } from '../../types';
+import { createHistoryEntryId } from '../../utils/id';
+
+// ==================== 类型定义 ====================
+
+export type NovelPatch = Partial<Novel>;
+
+/**
+ * 一条历史记录：一次修改、一段连续输入或一个事务
+ */
+export interface JournalEntry {
+  id: string;
+  label: string;
+  /** 批量操作等事务 */
+  transaction: boolean;
+  /** 合并的命令数 */
+  commandCount: number;
+  createdAt: number;
+  updatedAt: number;
+  /** 被修改字段的旧值 */
+  before: NovelPatch;
+  /** 被修改字段的新值 */
+  after: NovelPatch;
+}
+
+export interface TransactionOptions {
+  /** 后台事务：只并入经 include 写入的修改，期间作者的编辑照常单独记录 */
+  background?: boolean;
+}
+
+export interface CommandJournalOptions {
+  /** 最多保留的条目数，默认 200 */
+  maxEntries?: number;
+  /** 同类修改间隔小于该值时合并（毫秒），默认 1500 */
+  coalesceMs?: number;
+}
+
+// ==================== 常量 ====================
+
+/** 字段的中文名，用于生成历史记录的说明 */
+export const NOVEL_FIELD_LABELS: Partial<Record<keyof Novel, string>> = {
+  title: '标题',
+  description: '简介',
+  outline: '大纲',
+  chapters: '章节',
+  volumes: '分卷',
+  characters: '人物',
+  worldviews: '世界观',
+  timelineEvents: '事件线',
+  references: '语料库',
+  mindMaps: '思维导图',
+  outlineNodes: '大纲',
+  foreshadowings: '伏笔',
+  characterRelations: '人物关系',
+  writingGoals: '写作目标',
+  locations: '地点',
+  items: '道具',
+  chapterTemplates: '章节模板',
+  comments: '批注',
+  suggestions: '修订建议',
+  codexProposals: '设定提取建议',
+};
+
+/** 统计数据和元信息不是作者的修改，不记入历史 */
+const UNTRACKED_FIELDS = new Set<keyof Novel>(['id', 'updatedAt', 'writingRecords']);
+
+const DEFAULT_MAX_ENTRIES = 200;
+const DEFAULT_COALESCE_MS = 1500;
+
+// ==================== 工具函数 ====================
+
+/**
+ * 字段是否未变化：先比较引用，再比较内容；正文很长，章节只比较引用
+ */
+const isUnchanged = (key: keyof Novel, before: unknown, after: unknown): boolean =>
+  before === after || (key !== 'chapters' && JSON.stringify(before) === JSON.stringify(after));
+
+/**
+ * 根据修改的字段生成说明，如「修改人物、世界观」
+ */
+export const describePatch = (patch: NovelPatch): string => {
+  const labels = [...new Set(
+    (Object.keys(patch) as (keyof Novel)[]).map(key => NOVEL_FIELD_LABELS[key]).filter(Boolean)
+  )];
+  if (labels.length === 0) return '修改作品信息';
+  return patch.chapters && labels.length === 1 ? '编辑章节' : `修改${labels.join('、')}`;
+};
+
+type Identified = { id: string };
+
+const isIdList = (value: unknown): value is Identified[] =>
+  Array.isArray(value) && value.every(item => typeof (item as Identified | null)?.id === 'string');
+
+/**
+ * 把 from → to 的逐项修改（按 id 对应的增、删、改）应用到 value 上，其他元素保持 value 中的样子
+ *
+ * 不是按 id 标识的数组，或 from → to 调整了顺序时返回 null，由调用方整体写回。
+ */
+const rebaseById = (value: unknown, from: unknown, to: unknown): Identified[] | null => {
+  if (!isIdList(value) || !isIdList(from) || !isIdList(to)) return null;
+  const fromById = new Map(from.map(item => [item.id, item]));
+  const toById = new Map(to.map(item => [item.id, item]));
+  const order = (list: Identified[], other: Map<string, Identified>) =>
+    list.filter(item => other.has(item.id)).map(item => item.id).join('\n');
+  if (order(from, toById) !== order(to, fromById)) return null;
+
+  const result = value
+    .filter(item => !fromById.has(item.id) || toById.has(item.id))
+    .map(item => {
+      const next = toById.get(item.id);
+      return next && next !== fromById.get(item.id) ? next : item;
+    });
+  // 新增的元素放在 to 中的前一个元素之后
+  to.forEach((item, index) => {
+    if (fromById.has(item.id) || result.some(existing => existing.id === item.id)) return;
+    const previous = index === 0 ? -1 : result.findIndex(existing => existing.id === to[index - 1].id);
+    result.splice(index > 0 && previous === -1 ? result.length : previous + 1, 0, item);
+  });
+  return result;
+};
+
+const mergeInto = (entry: JournalEntry, before: NovelPatch, after: NovelPatch, now: number): void => {
+  for (const key of Object.keys(before) as (keyof Novel)[]) {
+    if (!(key in entry.before)) {
+      (entry.before as Record<string, unknown>)[key] = before[key];
+    } else if (entry.after[key] !== before[key]) {
+      // 后台事务期间作者也改了该字段：作者的修改并入事务的旧值，撤销事务时不会撤回
+      const rebased = rebaseById(entry.before[key], entry.after[key], before[key]);
+      if (rebased) (entry.before as Record<string, unknown>)[key] = rebased;
+    }
+  }
+  Object.assign(entry.after, after);
+  entry.commandCount++;
+  entry.updatedAt = now;
+};
+
+// ==================== 服务 ====================
+
+export class CommandJournal {
+  private entries: JournalEntry[] = [];
+  /** 已生效的条目数；撤销后小于 entries.length，其后为可重做的条目 */
+  private position = 0;
+  /** 进行中的事务 */
+  private pending: JournalEntry | null = null;
+  private depth = 0;
+  /** 进行中的事务是否为后台事务 */
+  private background = false;
+  /** include 的嵌套层数 */
+  private including = 0;
+  private listeners = new Set<() => void>();
+  private readonly maxEntries: number;
+  private readonly coalesceMs: number;
+
+  constructor(options: CommandJournalOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.coalesceMs = options.coalesceMs ?? DEFAULT_COALESCE_MS;
+  }
+
+  /**
+   * 记录一次修改
+   *
+   * @param current 修改前的作品（只读取 updates 中的字段）
+   * @param updates 本次写入的字段
+   * @param label 历史记录的说明，默认按字段生成
+   */
+  record(current: NovelPatch, updates: NovelPatch, label?: string, now: number = Date.now()): void {
+    const before: NovelPatch = {};
+    const after: NovelPatch = {};
+    for (const key of Object.keys(updates) as (keyof Novel)[]) {
+      if (UNTRACKED_FIELDS.has(key) || isUnchanged(key, current[key], updates[key])) continue;
+      (before as Record<string, unknown>)[key] = current[key];
+      (after as Record<string, unknown>)[key] = updates[key];
+    }
+    if (Object.keys(after).length === 0) return;
+
+    if (this.pending && (!this.background || this.including > 0)) {
+      mergeInto(this.pending, before, after, now);
+      return;
+    }
+
+    this.entries.length = this.position;
+    const entryLabel = label ?? describePatch(after);
+    const last = this.entries[this.position - 1];
+    if (last && !last.transaction && last.label === entryLabel && now - last.updatedAt < this.coalesceMs) {
+      mergeInto(last, before, after, now);
+    } else {
+      this.push({
+        id: createHistoryEntryId(),
+        label: entryLabel,
+        transaction: false,
+        commandCount: 1,
+        createdAt: now,
+        updatedAt: now,
+        before,
+        after,
+      });
+    }
+    this.notify();
+  }
+
+  /**
+   * 开始事务：此后的修改合并为一条，直到对应的 commit；可以嵌套，以最外层为准
+   */
+  begin(label: string, now: number = Date.now(), options: TransactionOptions = {}): void {
+    if (this.depth++ > 0) return;
+    this.background = options.background ?? false;
+    this.pending = {
+      id: createHistoryEntryId(),
+      label,
+      transaction: true,
+      commandCount: 0,
+      createdAt: now,
+      updatedAt: now,
+      before: {},
+      after: {},
+    };
+  }
+
+  /**
+   * 结束事务；事务中没有修改时不产生记录
+   */
+  commit(): void {
+    if (this.depth === 0 || --this.depth > 0) return;
+    const entry = this.pending!;
+    this.pending = null;
+    this.background = false;
+    if (entry.commandCount === 0) return;
+    this.entries.length = this.position;
+    this.push(entry);
+    this.notify();
+  }
+
+  /**
+   * 在事务中执行操作，操作抛出异常时已完成的修改仍记为一条
+   */
+  async transaction<T>(label: string, run: () => T | Promise<T>, options: TransactionOptions = {}): Promise<T> {
+    this.begin(label, Date.now(), options);
+    try {
+      return await run();
+    } finally {
+      this.commit();
+    }
+  }
+
+  /**
+   * 执行 update，其中记录的修改并入进行中的后台事务
+   */
+  include<T>(update: () => T): T {
+    this.including++;
+    try {
+      return update();
+    } finally {
+      this.including--;
+    }
+  }
+
+  /**
+   * 撤销一条，返回需要写回作品的字段；没有可撤销的条目或事务进行中时返回 null
+   *
+   * @param current 当前的作品，传入时按 id 标识的数组只写回该条记录改过的元素
+   */
+  undo(current?: NovelPatch): NovelPatch | null {
+    return this.jumpTo(this.position - 1, current);
+  }
+
+  /**
+   * 重做一条
+   */
+  redo(current?: NovelPatch): NovelPatch | null {
+    return this.jumpTo(this.position + 1, current);
+  }
+
+  /**
+   * 跳转到第 target 条之后的状态（0 为本次会话开始时），返回合并后需要写回的字段
+   */
+  jumpTo(target: number, current?: NovelPatch): NovelPatch | null {
+    if (this.pending || target < 0 || target > this.entries.length || target === this.position) {
+      return null;
+    }
+    const patch: NovelPatch = {};
+    const apply = (from: NovelPatch, to: NovelPatch) => {
+      for (const key of Object.keys(to) as (keyof Novel)[]) {
+        const value = key in patch ? patch[key] : current?.[key];
+        (patch as Record<string, unknown>)[key] = (current && rebaseById(value, from[key], to[key])) ?? to[key];
+      }
+    };
+    if (target < this.position) {
+      // 从新到旧写回旧值，同一字段以最早的旧值为准
+      for (let i = this.position - 1; i >= target; i--) apply(this.entries[i].after, this.entries[i].before);
+    } else {
+      for (let i = this.position; i < target; i++) apply(this.entries[i].before, this.entries[i].after);
+    }
+    this.position = target;
+    this.notify();
+    return patch;
+  }
+
+  getEntries(): readonly JournalEntry[] {
+    return this.entries;
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  canUndo(): boolean {
+    return !this.pending && this.position > 0;
+  }
+
+  canRedo(): boolean {
+    return !this.pending && this.position < this.entries.length;
+  }
+
+  isInTransaction(): boolean {
+    return this.pending !== null;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.position = 0;
+    this.notify();
+  }
+
+  /**
+   * 监听历史变化，返回取消监听的函数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private push(entry: JournalEntry): void {
+    this.entries.push(entry);
+    this.position = this.entries.length;
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+      this.position = this.entries.length;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
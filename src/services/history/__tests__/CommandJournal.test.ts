@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Chapter, Character, Novel } from '../../../types';
+import { CommandJournal, describePatch } from '../CommandJournal';
+
+const chapter = (id: string, content: string): Chapter => ({ id, title: id, content, wordCount: content.length });
+
+const character = (id: string, name: string): Character => ({
+  id,
+  name,
+  role: '主角',
+  description: '',
+  traits: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('CommandJournal', () => {
+  it('should record changed fields and skip untracked or unchanged ones', () => {
+    const journal = new CommandJournal();
+    const novel: Partial<Novel> = { title: '旧名', description: '简介' };
+
+    journal.record(novel, { title: '新名', description: '简介', updatedAt: '2026-01-02' }, undefined, 0);
+
+    const [entry] = journal.getEntries();
+    expect(entry.before).toEqual({ title: '旧名' });
+    expect(entry.after).toEqual({ title: '新名' });
+    journal.record(novel, { updatedAt: '2026-01-03' }, undefined, 10);
+    expect(journal.getEntries()).toHaveLength(1);
+  });
+
+  it('should coalesce rapid edits of the same kind', () => {
+    const journal = new CommandJournal({ coalesceMs: 1000 });
+    const v0 = [chapter('c1', '')];
+    const v1 = [chapter('c1', '一')];
+    const v2 = [chapter('c1', '一二')];
+    const v3 = [chapter('c1', '一二三')];
+
+    journal.record({ chapters: v0 }, { chapters: v1 }, undefined, 0);
+    journal.record({ chapters: v1 }, { chapters: v2 }, undefined, 500);
+    journal.record({ chapters: v2 }, { chapters: v3 }, undefined, 5000);
+
+    const entries = journal.getEntries();
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ label: '编辑章节', commandCount: 2 });
+    expect(entries[0].before.chapters).toBe(v0);
+    expect(entries[0].after.chapters).toBe(v2);
+  });
+
+  it('should record a transaction as a single undoable entry', async () => {
+    const journal = new CommandJournal();
+    const v0 = [chapter('c1', 'a'), chapter('c2', 'b')];
+    const v1 = [chapter('c1', 'A'), chapter('c2', 'b')];
+    const v2 = [chapter('c1', 'A'), chapter('c2', 'B')];
+
+    await journal.transaction('批量精修', async () => {
+      journal.record({ chapters: v0 }, { chapters: v1 });
+      expect(journal.canUndo()).toBe(false);
+      journal.record({ chapters: v1 }, { chapters: v2 });
+    });
+
+    expect(journal.getEntries()).toHaveLength(1);
+    expect(journal.getEntries()[0]).toMatchObject({ label: '批量精修', transaction: true, commandCount: 2 });
+    expect(journal.undo()).toEqual({ chapters: v0 });
+    expect(journal.redo()).toEqual({ chapters: v2 });
+  });
+
+  it('should keep edits made during a background transaction out of it', async () => {
+    const journal = new CommandJournal({ coalesceMs: 0 });
+    const c1 = chapter('c1', 'a');
+    const c2 = chapter('c2', 'b');
+    const c3 = chapter('c3', 'c');
+    const polished1 = chapter('c1', 'A');
+    const edited2 = chapter('c2', 'B');
+    const polished3 = chapter('c3', 'C');
+    const v0 = [c1, c2, c3];
+    const v1 = [polished1, c2, c3];
+    const v2 = [polished1, edited2, c3];
+    const v3 = [polished1, edited2, polished3];
+
+    await journal.transaction('批量精修', async () => {
+      journal.include(() => journal.record({ chapters: v0 }, { chapters: v1 }));
+      // 作者在精修进行中手动编辑另一章
+      journal.record({ chapters: v1 }, { chapters: v2 });
+      journal.include(() => journal.record({ chapters: v2 }, { chapters: v3 }));
+    }, { background: true });
+
+    expect(journal.getEntries().map(entry => [entry.label, entry.commandCount])).toEqual([['编辑章节', 1], ['批量精修', 2]]);
+
+    // 撤销批量精修只写回精修过的章节，保留作者的编辑
+    const undone = journal.undo({ chapters: v3 });
+    expect(undone).toEqual({ chapters: [c1, edited2, c3] });
+    expect(journal.undo(undone!)).toEqual({ chapters: v0 });
+    expect(journal.jumpTo(2, { chapters: v0 })).toEqual({ chapters: v3 });
+  });
+
+  it('should not create an entry for an empty transaction', () => {
+    const journal = new CommandJournal();
+    journal.begin('外层');
+    journal.begin('内层');
+    journal.commit();
+    expect(journal.isInTransaction()).toBe(true);
+    journal.commit();
+
+    expect(journal.isInTransaction()).toBe(false);
+    expect(journal.getEntries()).toHaveLength(0);
+  });
+
+  it('should merge patches when jumping across several entries', () => {
+    const journal = new CommandJournal({ coalesceMs: 0 });
+    const a = [character('p1', '甲')];
+    const b = [character('p1', '乙')];
+
+    journal.record({ title: '一' }, { title: '二' }, undefined, 0);
+    journal.record({ characters: a }, { characters: b }, undefined, 10);
+    journal.record({ title: '二' }, { title: '三' }, undefined, 20);
+
+    expect(journal.jumpTo(0)).toEqual({ title: '一', characters: a });
+    expect(journal.getPosition()).toBe(0);
+    expect(journal.jumpTo(2)).toEqual({ title: '二', characters: b });
+    expect(journal.canRedo()).toBe(true);
+  });
+
+  it('should drop redoable entries after a new change and notify listeners', () => {
+    const journal = new CommandJournal({ coalesceMs: 0 });
+    const listener = vi.fn();
+    journal.subscribe(listener);
+
+    journal.record({ title: '一' }, { title: '二' }, undefined, 0);
+    journal.record({ title: '二' }, { title: '三' }, undefined, 10);
+    journal.undo();
+    journal.record({ title: '二' }, { title: '四' }, undefined, 20);
+
+    expect(journal.getEntries().map(entry => entry.after.title)).toEqual(['二', '四']);
+    expect(journal.canRedo()).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+
+  it('should keep only the most recent entries', () => {
+    const journal = new CommandJournal({ maxEntries: 2, coalesceMs: 0 });
+    ['一', '二', '三'].forEach((title, i) => journal.record({ title: `${i}` }, { title }, undefined, i * 10));
+
+    expect(journal.getEntries().map(entry => entry.after.title)).toEqual(['二', '三']);
+    expect(journal.getPosition()).toBe(2);
+  });
+});
+
+describe('describePatch', () => {
+  it('should name the modified fields', () => {
+    expect(describePatch({ chapters: [] })).toBe('编辑章节');
+    expect(describePatch({ characters: [], worldviews: [] })).toBe('修改人物、世界观');
+    expect(describePatch({ writingRecords: [] })).toBe('修改作品信息');
+  });
+});
@@ -0,0 +1,646 @@
+/**
+ * @fileoverview 稿件导入服务
+ * @module services/import/ImportService
+ * @description 读取 TXT、Markdown、EPUB、DOCX 稿件，自动识别文本编码，并按卷、章标题拆分
+ *
+ * 导入分两步：read() 把文件转换为文本块（保留 EPUB/DOCX/Markdown 的标题层级），
+ * split() 再按标题规则拆分为卷和章。预览时修改规则只需重新 split，无需重新读取文件。
+ *
+ * @example
+ * const source = await importService.read(file);
+ * const result = importService.split(source, { chapterPattern: '^卷\\d+' });
+ * const { volumes, chapters } = createNovelStructure(result);
+ */
+
+import type { Chapter, Volume } from '../../types';
+import { createChapterId, createVolumeId } from '../../utils/id';
+import { readZip, zipEntryText } from '../../utils/zip';
+import { countWords, DEFAULT_WORD_COUNT_MODE, type WordCountMode } from '../../utils/wordCount';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 支持导入的格式
+ */
+export type ImportFormat = 'txt' | 'markdown' | 'epub' | 'docx';
+
+/**
+ * 文本块：一个段落或标题
+ */
+export interface ManuscriptBlock {
+  text: string;
+  /** 文档结构中的标题层级（1 为最高），普通段落为空 */
+  heading?: number;
+}
+
+/**
+ * 读取后的稿件
+ */
+export interface ManuscriptSource {
+  format: ImportFormat;
+  /** 检测到的文本编码（仅 TXT / Markdown） */
+  encoding?: string;
+  /** 书名：文档元数据中的标题，缺失时为文件名 */
+  title: string;
+  author?: string;
+  description?: string;
+  blocks: ManuscriptBlock[];
+}
+
+/**
+ * 拆分规则
+ */
+export interface SplitOptions {
+  /** 自定义章标题正则（替换默认规则） */
+  chapterPattern?: string;
+  /** 自定义卷标题正则（替换默认规则） */
+  volumePattern?: string;
+}
+
+/**
+ * 导入选项
+ */
+export interface ManuscriptImportOptions extends SplitOptions {
+  /** 文本编码，默认 'auto' 自动检测 */
+  encoding?: string;
+}
+
+/**
+ * 拆分出的章节
+ */
+export interface ImportedChapter {
+  title: string;
+  content: string;
+  wordCount: number;
+  /** 所属卷在 volumes 中的下标 */
+  volumeIndex?: number;
+}
+
+/**
+ * 拆分出的卷
+ */
+export interface ImportedVolume {
+  title: string;
+}
+
+/**
+ * 导入结果
+ */
+export interface ManuscriptImportResult extends Omit<ManuscriptSource, 'blocks'> {
+  volumes: ImportedVolume[];
+  chapters: ImportedChapter[];
+  /** 第一个标题之前的内容（书名、作者、简介等） */
+  preface?: string;
+  totalWords: number;
+}
+
+// ==================== 常量定义 ====================
+
+/** 中文数字、大写数字、阿拉伯数字及全角数字 */
+const NUMERAL = '[0-9０-９零〇一二两三四五六七八九十百千万壹贰叁肆伍陆柒捌玖拾佰仟]+';
+
+const DEFAULT_CHAPTER_PATTERNS = [
+  new RegExp(`^(?:正文\\s*)?第\\s*${NUMERAL}\\s*[章节回话集幕]`),
+  new RegExp(`^[【\\[]第\\s*${NUMERAL}\\s*[章节回话][】\\]]`),
+  /^chapter\s*(?:\d+|[ivxlcdm]+)\b/i,
+  /^(?:序章|序言|楔子|引子|前言|尾声|后记|终章|番外)(?:$|[\s:：·\-—]|[一二三四五六七八九十0-9])/,
+];
+
+const DEFAULT_VOLUME_PATTERNS = [
+  new RegExp(`^(?:正文\\s*)?第\\s*${NUMERAL}\\s*[卷部篇]`),
+  new RegExp(`^卷\\s*${NUMERAL}(?:$|[\\s:：·\\-—])`),
+  /^(?:volume|book|part)\s*(?:\d+|[ivxlcdm]+)\b/i,
+];
+
+/** 标题行的最大长度，超过则视为正文 */
+const MAX_HEADING_LENGTH = 50;
+
+/** 以这些标点结尾的行视为正文 */
+const SENTENCE_END = /[。，；、,;]$/;
+
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/** EPUB 中不作为正文导入的文档 */
+const EPUB_SKIPPED_ITEM = /cover|titlepage|^toc|^nav/i;
+
+// ==================== 编码识别 ====================
+
+/**
+ * 统计偶数位或奇数位字节中 0 和常见 UTF-16 高字节的比例
+ */
+const highByteStats = (bytes: Uint8Array, highOffset: 0 | 1): { zeros: number; common: number } => {
+  const length = Math.min(bytes.length, 8192) & ~1;
+  if (length < 4) return { zeros: 0, common: 0 };
+  let zeros = 0;
+  let common = 0;
+  for (let i = 0; i < length; i += 2) {
+    const high = bytes[i + highOffset];
+    if (high === 0) zeros++;
+    // 0x00 ASCII、0x20 标点、0x30 中文标点、0x4E–0x9F 汉字、0xFF 全角字符
+    if (high === 0 || high === 0x20 || high === 0x30 || (high >= 0x4e && high <= 0x9f) || high === 0xff) common++;
+  }
+  const pairs = length / 2;
+  return { zeros: zeros / pairs, common: common / pairs };
+};
+
+/**
+ * 判断是否为无 BOM 的 UTF-16：西文文本看 0 字节的位置，中文文本看高字节是否集中在常用区段
+ */
+const detectUtf16 = (bytes: Uint8Array): string | null => {
+  const le = highByteStats(bytes, 1);
+  const be = highByteStats(bytes, 0);
+  if (le.zeros > 0.3 && be.zeros < 0.05) return 'utf-16le';
+  if (be.zeros > 0.3 && le.zeros < 0.05) return 'utf-16be';
+  if (le.common > 0.7 && be.common <= 0.7) return 'utf-16le';
+  if (be.common > 0.7 && le.common <= 0.7) return 'utf-16be';
+  return null;
+};
+
+const canDecode = (bytes: Uint8Array, encoding: string): boolean => {
+  try {
+    new TextDecoder(encoding, { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 检测文本编码
+ *
+ * 依次检查 BOM、UTF-16 特征、UTF-8 合法性，都不符合时按 GB18030（兼容 GBK/GB2312）处理。
+ */
+export function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  const utf16 = detectUtf16(bytes);
+  if (utf16) return utf16;
+  if (canDecode(bytes, 'utf-8')) return 'utf-8';
+  if (canDecode(bytes, 'gb18030')) return 'gb18030';
+  return 'utf-8';
+}
+
+/**
+ * 解码文本
+ *
+ * @param encoding - 编码名称，'auto' 时自动检测
+ */
+export function decodeText(bytes: Uint8Array, encoding: string = 'auto'): { text: string; encoding: string } {
+  const resolved = encoding === 'auto' ? detectEncoding(bytes) : encoding;
+  return { text: new TextDecoder(resolved).decode(bytes), encoding: resolved };
+}
+
+// ==================== 拆分 ====================
+
+const compilePatterns = (pattern: string | undefined, defaults: RegExp[], label: string): RegExp[] => {
+  if (!pattern?.trim()) return defaults;
+  try {
+    return [new RegExp(pattern.trim(), 'i')];
+  } catch (error) {
+    throw new Error(`${label}匹配规则无效：${error instanceof Error ? error.message : pattern}`);
+  }
+};
+
+/**
+ * 整理正文：去掉行首缩进和行尾空白，连续空行合并为一行
+ */
+const normalizeContent = (lines: string[]): string => lines
+  .map(line => line.replace(/^[\s　]+|\s+$/g, ''))
+  .join('\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+/**
+ * 按卷、章标题拆分稿件
+ *
+ * 纯文本按标题规则识别；带结构的文档（EPUB/DOCX/Markdown）还会参考标题层级：
+ * 同时存在两级标题时，较高一级为卷、下一级为章，更低的层级视为正文。
+ * 没有内容的章节（如文件开头的目录）会被丢弃，不含章节的卷也一并去掉。
+ *
+ * @param fallbackTitle - 没有识别到任何标题时，整篇作为一章使用的标题
+ * @throws {Error} 自定义规则不是有效的正则表达式
+ */
+export function splitManuscript(source: ManuscriptSource, options: SplitOptions = {}, fallbackTitle: string = '第一章'): ManuscriptImportResult {
+  const chapterPatterns = compilePatterns(options.chapterPattern, DEFAULT_CHAPTER_PATTERNS, '章节');
+  const volumePatterns = compilePatterns(options.volumePattern, DEFAULT_VOLUME_PATTERNS, '卷');
+
+  const levels = [...new Set(source.blocks.map(b => b.heading).filter((h): h is number => h !== undefined))].sort();
+  const topLevel = levels[0];
+  const nested = topLevel !== undefined && levels.includes(topLevel + 1);
+
+  const classify = (block: ManuscriptBlock): 'volume' | 'chapter' | 'text' => {
+    const text = block.text.trim();
+    if (!text || text.length > MAX_HEADING_LENGTH) return 'text';
+    if (block.heading === undefined && SENTENCE_END.test(text)) return 'text';
+    if (volumePatterns.some(p => p.test(text))) return 'volume';
+    if (chapterPatterns.some(p => p.test(text))) return 'chapter';
+    if (block.heading === undefined) return 'text';
+    if (block.heading === topLevel) return nested ? 'volume' : 'chapter';
+    if (nested && block.heading === topLevel + 1) return 'chapter';
+    return 'text';
+  };
+
+  const volumes: ImportedVolume[] = [];
+  const chapters: ImportedChapter[] = [];
+  const preface: string[] = [];
+  let current: { title: string; lines: string[]; volumeIndex?: number } | null = null;
+  let volumeIndex: number | undefined;
+
+  const flush = () => {
+    if (!current) return;
+    const content = normalizeContent(current.lines);
+    if (content) {
+      chapters.push({ title: current.title, content, wordCount: countWords(content), volumeIndex: current.volumeIndex });
+    }
+    current = null;
+  };
+
+  for (const block of source.blocks) {
+    const kind = classify(block);
+    if (kind === 'volume') {
+      flush();
+      volumes.push({ title: block.text.trim() });
+      volumeIndex = volumes.length - 1;
+    } else if (kind === 'chapter') {
+      flush();
+      current = { title: block.text.trim(), lines: [], volumeIndex };
+    } else if (current) {
+      current.lines.push(block.text);
+    } else if (volumeIndex !== undefined) {
+      // 卷标题与第一章之间的文字（卷首语）单独成章
+      current = { title: volumes[volumeIndex].title, lines: [block.text], volumeIndex };
+    } else {
+      preface.push(block.text);
+    }
+  }
+  flush();
+
+  const prefaceText = normalizeContent(preface);
+  if (chapters.length === 0 && prefaceText) {
+    chapters.push({ title: fallbackTitle, content: prefaceText, wordCount: countWords(prefaceText) });
+  }
+
+  // 去掉没有章节的卷，重排下标
+  const usedVolumes = [...new Set(chapters.map(c => c.volumeIndex).filter((i): i is number => i !== undefined))].sort((a, b) => a - b);
+  const remap = new Map(usedVolumes.map((oldIndex, newIndex) => [oldIndex, newIndex]));
+  chapters.forEach(chapter => {
+    if (chapter.volumeIndex !== undefined) chapter.volumeIndex = remap.get(chapter.volumeIndex);
+  });
+
+  const { blocks: _blocks, ...metadata } = source;
+  return {
+    ...metadata,
+    volumes: usedVolumes.map(index => volumes[index]),
+    chapters,
+    preface: chapters.length > 0 && chapters[0].content !== prefaceText && prefaceText ? prefaceText : undefined,
+    totalWords: chapters.reduce((sum, c) => sum + c.wordCount, 0),
+  };
+}
+
+/**
+ * 拆分多个稿件并按顺序合并，元数据取第一个稿件
+ *
+ * 没有识别到标题的稿件整篇作为一章，以文件名为标题。
+ */
+export function splitManuscripts(sources: ManuscriptSource[], options: SplitOptions = {}): ManuscriptImportResult {
+  if (sources.length === 1) return splitManuscript(sources[0], options);
+
+  const results = sources.map(source => splitManuscript(source, options, source.title));
+  const volumes: ImportedVolume[] = [];
+  const chapters: ImportedChapter[] = [];
+  results.forEach(result => {
+    const offset = volumes.length;
+    volumes.push(...result.volumes);
+    chapters.push(...result.chapters.map(chapter => ({
+      ...chapter,
+      volumeIndex: chapter.volumeIndex !== undefined ? chapter.volumeIndex + offset : undefined,
+    })));
+  });
+
+  return {
+    ...results[0],
+    volumes,
+    chapters,
+    preface: undefined,
+    totalWords: results.reduce((sum, r) => sum + r.totalWords, 0),
+  };
+}
+
+/**
+ * 将导入结果转换为作品的卷和章节
+ *
+ * @param startOrder - 卷排序号的起点（追加到已有作品时传入已有卷数）
+ * @param mode - 目标作品的字数统计口径
+ */
+export function createNovelStructure(
+  result: ManuscriptImportResult,
+  startOrder: number = 0,
+  mode: WordCountMode = DEFAULT_WORD_COUNT_MODE
+): { volumes: Volume[]; chapters: Chapter[] } {
+  const now = new Date().toISOString();
+  const volumes: Volume[] = result.volumes.map((volume, index) => ({
+    id: createVolumeId(),
+    title: volume.title,
+    order: startOrder + index,
+    createdAt: now,
+  }));
+  const chapters: Chapter[] = result.chapters.map(chapter => ({
+    id: createChapterId(),
+    title: chapter.title,
+    content: chapter.content,
+    wordCount: mode === DEFAULT_WORD_COUNT_MODE ? chapter.wordCount : countWords(chapter.content, mode),
+    volumeId: chapter.volumeIndex !== undefined ? volumes[chapter.volumeIndex].id : undefined,
+  }));
+  return { volumes, chapters };
+}
+
+// ==================== 文件读取 ====================
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml'): Document =>
+  new DOMParser().parseFromString(text, type);
+
+const collapseWhitespace = (text: string | null): string => (text || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * 解析 EPUB 内的相对路径
+ */
+const resolvePath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  decodeURIComponent(href.split('#')[0]).split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+/**
+ * 从 Markdown 文本提取文本块，# 标题保留层级
+ */
+const markdownBlocks = (text: string): ManuscriptBlock[] => text.split(/\r\n|\r|\n/).map(line => {
+  const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+  return match ? { text: match[2], heading: match[1].length } : { text: line };
+});
+
+/**
+ * 读取 EPUB：按 spine 顺序提取正文，目录（nav 或 NCX）的层级作为标题层级
+ */
+async function readEpub(bytes: Uint8Array): Promise<Omit<ManuscriptSource, 'format' | 'title'> & { title?: string }> {
+  const files = new Map((await readZip(bytes)).map(entry => [entry.name, entry]));
+  const text = (path: string): string | null => {
+    const entry = files.get(path);
+    return entry ? zipEntryText(entry) : null;
+  };
+
+  const container = text('META-INF/container.xml');
+  const opfPath = container ? parseXml(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path') : null;
+  const opfText = opfPath ? text(opfPath) : null;
+  if (!opfPath || !opfText) throw new Error('不是有效的 EPUB 文件：缺少包文档');
+
+  const opf = parseXml(opfText);
+  const dc = (name: string) => collapseWhitespace(opf.getElementsByTagNameNS(DC_NS, name)[0]?.textContent ?? null) || undefined;
+
+  const manifest = new Map<string, { path: string; properties: string }>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    manifest.set(item.getAttribute('id') || '', {
+      path: resolvePath(opfPath, item.getAttribute('href') || ''),
+      properties: item.getAttribute('properties') || '',
+    });
+  });
+
+  // 目录：文档路径 → 层级
+  const tocDepth = new Map<string, { label: string; depth: number }>();
+  const addToc = (path: string, label: string, depth: number) => {
+    if (!tocDepth.has(path)) tocDepth.set(path, { label, depth });
+  };
+  const navItem = [...manifest.values()].find(item => item.properties.split(/\s+/).includes('nav'));
+  const navText = navItem ? text(navItem.path) : null;
+  if (navItem && navText) {
+    const nav = parseXml(navText, 'application/xhtml+xml');
+    const tocNav = Array.from(nav.getElementsByTagName('nav')).find(n => (n.getAttribute('epub:type') || n.getAttributeNS('http://www.idpf.org/2007/ops', 'type')) === 'toc')
+      ?? nav.getElementsByTagName('nav')[0];
+    const walk = (list: Element, depth: number) => {
+      Array.from(list.children).filter(li => li.localName === 'li').forEach(li => {
+        const link = Array.from(li.children).find(child => child.localName === 'a');
+        if (link?.getAttribute('href')) addToc(resolvePath(navItem.path, link.getAttribute('href')!), collapseWhitespace(link.textContent), depth);
+        const nested = Array.from(li.children).find(child => child.localName === 'ol');
+        if (nested) walk(nested, depth + 1);
+      });
+    };
+    const root = tocNav ? Array.from(tocNav.children).find(child => child.localName === 'ol') : undefined;
+    if (root) walk(root, 1);
+  } else {
+    const ncxId = opf.getElementsByTagName('spine')[0]?.getAttribute('toc');
+    const ncxPath = ncxId ? manifest.get(ncxId)?.path : undefined;
+    const ncxText = ncxPath ? text(ncxPath) : null;
+    if (ncxPath && ncxText) {
+      const walk = (parent: Element, depth: number) => {
+        Array.from(parent.children).filter(child => child.localName === 'navPoint').forEach(point => {
+          const label = collapseWhitespace(point.getElementsByTagName('text')[0]?.textContent ?? null);
+          const src = point.getElementsByTagName('content')[0]?.getAttribute('src');
+          if (src) addToc(resolvePath(ncxPath, src), label, depth);
+          walk(point, depth + 1);
+        });
+      };
+      const navMap = parseXml(ncxText).getElementsByTagName('navMap')[0];
+      if (navMap) walk(navMap, 1);
+    }
+  }
+
+  const blocks: ManuscriptBlock[] = [];
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    const id = itemref.getAttribute('idref') || '';
+    const item = manifest.get(id);
+    if (!item || item === navItem || itemref.getAttribute('linear') === 'no') continue;
+    if (EPUB_SKIPPED_ITEM.test(id) || EPUB_SKIPPED_ITEM.test(item.path.split('/').pop() || '')) continue;
+    const source = text(item.path);
+    if (!source) continue;
+
+    let doc = parseXml(source, 'application/xhtml+xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) doc = parseXml(source, 'text/html');
+    const body = doc.getElementsByTagName('body')[0];
+    if (!body) continue;
+
+    const toc = tocDepth.get(item.path);
+    let titled = false;
+    const elements = Array.from(body.querySelectorAll('h1, h2, h3, h4, h5, h6, p'));
+    elements.forEach(element => {
+      const content = element.localName === 'p' ? (element.textContent || '').trim() : collapseWhitespace(element.textContent);
+      if (!content) return;
+      if (!titled && /^h[1-3]$/.test(element.localName)) {
+        blocks.push({ text: content, heading: toc?.depth ?? 1 });
+        titled = true;
+      } else {
+        if (!titled && toc) {
+          blocks.push({ text: toc.label, heading: toc.depth });
+          titled = true;
+        }
+        blocks.push({ text: content });
+      }
+    });
+    if (elements.length === 0) {
+      if (toc) blocks.push({ text: toc.label, heading: toc.depth });
+      (body.textContent || '').split('\n').forEach(line => blocks.push({ text: line }));
+    }
+  }
+
+  return { title: dc('title'), author: dc('creator'), description: dc('description'), blocks };
+}
+
+/**
+ * 读取 DOCX：标题样式（或大纲级别）作为标题层级，Title/Subtitle 样式作为书名和作者，跳过目录
+ */
+async function readDocx(bytes: Uint8Array): Promise<Omit<ManuscriptSource, 'format' | 'title'> & { title?: string }> {
+  const files = new Map((await readZip(bytes)).map(entry => [entry.name, entry]));
+  const documentEntry = files.get('word/document.xml');
+  if (!documentEntry) throw new Error('不是有效的 Word 文档：缺少 word/document.xml');
+
+  const attr = (element: Element | undefined, name: string) => element?.getAttributeNS(W_NS, name) ?? element?.getAttribute(`w:${name}`) ?? null;
+  const child = (element: Element | undefined, name: string) =>
+    element ? Array.from(element.children).find(c => c.namespaceURI === W_NS && c.localName === name) : undefined;
+
+  // 样式 ID → 样式名称与大纲级别
+  const styles = new Map<string, { name: string; level?: number }>();
+  const stylesEntry = files.get('word/styles.xml');
+  if (stylesEntry) {
+    Array.from(parseXml(zipEntryText(stylesEntry)).getElementsByTagNameNS(W_NS, 'style')).forEach(style => {
+      const id = attr(style, 'styleId') || '';
+      const name = attr(child(style, 'name'), 'val') || id;
+      const outline = attr(child(child(style, 'pPr'), 'outlineLvl'), 'val');
+      const heading = name.match(/^heading\s*(\d)$/i) || id.match(/^heading(\d)$/i);
+      const level = outline !== null ? Number(outline) + 1 : heading ? Number(heading[1]) : undefined;
+      styles.set(id, { name, level: level !== undefined && level <= 9 ? level : undefined });
+    });
+  }
+
+  const doc = parseXml(zipEntryText(documentEntry));
+  const blocks: ManuscriptBlock[] = [];
+  let title: string | undefined;
+  let author: string | undefined;
+
+  const runText = (node: Element): string => Array.from(node.children).map(element => {
+    if (element.namespaceURI !== W_NS) return runText(element);
+    switch (element.localName) {
+      case 't': return element.textContent || '';
+      case 'tab': return '\t';
+      case 'br': return attr(element, 'type') === 'page' ? '' : '\n';
+      case 'cr': return '\n';
+      case 'instrText':
+      case 'delText':
+        return '';
+      default: return runText(element);
+    }
+  }).join('');
+
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'p')).forEach(paragraph => {
+    const pPr = child(paragraph, 'pPr');
+    const styleId = attr(child(pPr, 'pStyle'), 'val') || '';
+    const style = styles.get(styleId);
+    const styleName = style?.name || styleId;
+    if (/^toc/i.test(styleName) || /^toc/i.test(styleId)) return;
+
+    const content = runText(paragraph);
+    if (!content.trim()) return;
+
+    if (/^title$/i.test(styleName) && !title) {
+      title = content.trim();
+      return;
+    }
+    if (/^subtitle$/i.test(styleName)) {
+      const match = content.trim().match(/^作者[:：]\s*(.+)$/);
+      if (match && !author) author = match[1];
+      return;
+    }
+
+    const outline = attr(child(pPr, 'outlineLvl'), 'val');
+    const level = outline !== null && Number(outline) < 9 ? Number(outline) + 1 : style?.level;
+    blocks.push(level ? { text: collapseWhitespace(content), heading: level } : { text: content });
+  });
+
+  const coreEntry = files.get('docProps/core.xml');
+  if (coreEntry) {
+    const core = parseXml(zipEntryText(coreEntry));
+    const dc = (name: string) => collapseWhitespace(core.getElementsByTagNameNS(DC_NS, name)[0]?.textContent ?? null) || undefined;
+    title = title || dc('title');
+    author = author || dc('creator');
+  }
+
+  return { title, author, blocks };
+}
+
+/**
+ * 读取文件内容（jsdom 等环境的 File 没有 arrayBuffer 方法）
+ */
+const readFileBytes = (file: Blob): Promise<Uint8Array> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error ?? new Error('读取文件失败'));
+  reader.readAsArrayBuffer(file);
+});
+
+/**
+ * 根据扩展名判断格式
+ */
+export function detectImportFormat(filename: string): ImportFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'txt': return 'txt';
+    case 'md':
+    case 'markdown': return 'markdown';
+    case 'epub': return 'epub';
+    case 'docx': return 'docx';
+    default: return null;
+  }
+}
+
+// ==================== 导入服务类 ====================
+
+/**
+ * 稿件导入服务
+ */
+class ImportService {
+  /**
+   * 读取稿件文件
+   *
+   * @throws {Error} 不支持的格式或文件已损坏
+   */
+  async read(file: File, options: Pick<ManuscriptImportOptions, 'encoding'> = {}): Promise<ManuscriptSource> {
+    const format = detectImportFormat(file.name);
+    if (!format) {
+      throw new Error(`不支持的文件格式：${file.name}（支持 TXT、Markdown、EPUB、DOCX）`);
+    }
+
+    const bytes = await readFileBytes(file);
+    const filename = file.name.replace(/\.[^.]+$/, '');
+
+    if (format === 'epub' || format === 'docx') {
+      const parsed = format === 'epub' ? await readEpub(bytes) : await readDocx(bytes);
+      return { ...parsed, format, title: parsed.title || filename };
+    }
+
+    const { text, encoding } = decodeText(bytes, options.encoding);
+    const blocks = format === 'markdown'
+      ? markdownBlocks(text)
+      : text.split(/\r\n|\r|\n/).map(line => ({ text: line }));
+    return { format, encoding, title: filename.replace(/^《(.+)》$/, '$1'), blocks };
+  }
+
+  /**
+   * 按规则拆分已读取的稿件
+   */
+  split(source: ManuscriptSource, options: SplitOptions = {}): ManuscriptImportResult {
+    return splitManuscript(source, options);
+  }
+
+  /**
+   * 读取并拆分
+   */
+  async import(file: File, options: ManuscriptImportOptions = {}): Promise<ManuscriptImportResult> {
+    return this.split(await this.read(file, options), options);
+  }
+}
+
+export const importService = new ImportService();
+
+export default importService;
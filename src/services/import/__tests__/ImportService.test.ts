@@ -0,0 +1,275 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createNovelStructure,
+  decodeText,
+  detectEncoding,
+  importService,
+  splitManuscript,
+  splitManuscripts,
+  type ManuscriptSource,
+} from '../ImportService';
+import { exportService, type NovelContent } from '../../export/ExportService';
+import { createZip } from '../../../utils/zip';
+
+const readBlob = (blob: Blob): Promise<Uint8Array> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+const txt = (text: string): ManuscriptSource => ({
+  format: 'txt',
+  title: '测试',
+  blocks: text.split('\n').map(line => ({ text: line })),
+});
+
+/** GBK 编码的「第一章 天道」 */
+const GBK_BYTES = new Uint8Array([0xb5, 0xda, 0xd2, 0xbb, 0xd5, 0xc2, 0x20, 0xcc, 0xec, 0xb5, 0xc0]);
+
+const utf16 = (text: string, littleEndian: boolean, bom: boolean): Uint8Array => {
+  const bytes = new Uint8Array((text.length + (bom ? 1 : 0)) * 2);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  if (bom) {
+    view.setUint16(0, 0xfeff, littleEndian);
+    offset = 2;
+  }
+  for (let i = 0; i < text.length; i++) view.setUint16(offset + i * 2, text.charCodeAt(i), littleEndian);
+  return bytes;
+};
+
+describe('detectEncoding', () => {
+  it('should detect UTF-8 with and without BOM', () => {
+    const bytes = new TextEncoder().encode('第一章 天道\n少年下山。');
+    expect(detectEncoding(bytes)).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, ...bytes]))).toBe('utf-8');
+  });
+
+  it('should detect GBK text as GB18030', () => {
+    expect(detectEncoding(GBK_BYTES)).toBe('gb18030');
+    expect(decodeText(GBK_BYTES).text).toBe('第一章 天道');
+  });
+
+  it('should detect UTF-16 by BOM or by byte pattern', () => {
+    const text = '第一章 天道\n　　少年下山，走进城里。';
+    expect(detectEncoding(utf16(text, true, true))).toBe('utf-16le');
+    expect(detectEncoding(utf16(text, false, true))).toBe('utf-16be');
+    expect(detectEncoding(utf16(text, true, false))).toBe('utf-16le');
+    expect(detectEncoding(utf16('Chapter 1\nHello', false, false))).toBe('utf-16be');
+    expect(decodeText(utf16(text, true, true)).text).toBe(text);
+  });
+
+  it('should honour an explicit encoding', () => {
+    expect(decodeText(GBK_BYTES, 'gbk')).toEqual({ text: '第一章 天道', encoding: 'gbk' });
+  });
+});
+
+describe('splitManuscript', () => {
+  it('should split chapters with Chinese and Arabic numerals and assign volumes', () => {
+    const result = splitManuscript(txt([
+      '天道',
+      '作者：青云',
+      '第一卷 初入',
+      '第一章 下山',
+      '　　清晨，他走出山门。',
+      '',
+      '',
+      '　　山下是另一个世界。',
+      '第2章 入城',
+      '城门高耸。',
+      '第 十二 卷 问道',
+      'Chapter 3 Duel',
+      'The sword flashed.',
+    ].join('\n')));
+
+    expect(result.volumes).toEqual([{ title: '第一卷 初入' }, { title: '第 十二 卷 问道' }]);
+    expect(result.chapters.map(c => [c.title, c.volumeIndex])).toEqual([
+      ['第一章 下山', 0],
+      ['第2章 入城', 0],
+      ['Chapter 3 Duel', 1],
+    ]);
+    expect(result.chapters[0].content).toBe('清晨，他走出山门。\n\n山下是另一个世界。');
+    expect(result.chapters[0].wordCount).toBe(18);
+    expect(result.preface).toBe('天道\n作者：青云');
+    expect(result.totalWords).toBe(result.chapters.reduce((sum, c) => sum + c.wordCount, 0));
+  });
+
+  it('should ignore a table of contents and sentences that look like headings', () => {
+    const result = splitManuscript(txt([
+      '第一卷 初入',
+      '第一章 下山',
+      '第二章 入城',
+      '第一卷 初入',
+      '第一章 下山',
+      '第一章的内容到这里才开始，他说。',
+      '第二章 入城',
+      '城门高耸。',
+    ].join('\n')));
+
+    expect(result.volumes).toHaveLength(1);
+    expect(result.chapters.map(c => c.title)).toEqual(['第一章 下山', '第二章 入城']);
+    expect(result.chapters[0].content).toBe('第一章的内容到这里才开始，他说。');
+  });
+
+  it('should recognise prologue and epilogue headings', () => {
+    const result = splitManuscript(txt('楔子\n开篇。\n第一章 起\n正文。\n尾声\n完。'));
+    expect(result.chapters.map(c => c.title)).toEqual(['楔子', '第一章 起', '尾声']);
+  });
+
+  it('should import the whole text as one chapter when no heading is found', () => {
+    const result = splitManuscript(txt('只有一段文字。\n第二段。'));
+    expect(result.chapters).toEqual([{ title: '第一章', content: '只有一段文字。\n第二段。', wordCount: 11 }]);
+    expect(result.preface).toBeUndefined();
+  });
+
+  it('should use custom chapter and volume patterns', () => {
+    const source = txt('【卷一】\n### 01\n内容一\n### 02\n内容二');
+    const result = splitManuscript(source, { chapterPattern: '^###\\s*\\d+', volumePattern: '^【卷.】' });
+
+    expect(result.volumes).toEqual([{ title: '【卷一】' }]);
+    expect(result.chapters.map(c => [c.title, c.content, c.volumeIndex])).toEqual([
+      ['### 01', '内容一', 0],
+      ['### 02', '内容二', 0],
+    ]);
+    expect(() => splitManuscript(source, { chapterPattern: '(' })).toThrow('章节匹配规则无效');
+  });
+
+  it('should map nested document headings to volumes and chapters', () => {
+    const result = splitManuscript({
+      format: 'markdown',
+      title: '测试',
+      blocks: [
+        { text: '起', heading: 1 },
+        { text: '下山', heading: 2 },
+        { text: '正文一' },
+        { text: '小节', heading: 3 },
+        { text: '正文二' },
+        { text: '承', heading: 1 },
+        { text: '入城', heading: 2 },
+        { text: '正文三' },
+      ],
+    });
+
+    expect(result.volumes).toEqual([{ title: '起' }, { title: '承' }]);
+    expect(result.chapters.map(c => [c.title, c.content, c.volumeIndex])).toEqual([
+      ['下山', '正文一\n小节\n正文二', 0],
+      ['入城', '正文三', 1],
+    ]);
+  });
+});
+
+describe('splitManuscripts', () => {
+  it('should merge files in order and title heading-less files by file name', () => {
+    const result = splitManuscripts([
+      { ...txt('第一卷 初入\n第一章 下山\n正文'), title: '上' },
+      { ...txt('只有正文。'), title: '番外篇' },
+      { ...txt('第二卷 问道\n第九章 论剑\n正文'), title: '下' },
+    ]);
+
+    expect(result.title).toBe('上');
+    expect(result.volumes).toEqual([{ title: '第一卷 初入' }, { title: '第二卷 问道' }]);
+    expect(result.chapters.map(c => [c.title, c.volumeIndex])).toEqual([
+      ['第一章 下山', 0],
+      ['番外篇', undefined],
+      ['第九章 论剑', 1],
+    ]);
+    expect(result.totalWords).toBe(9);
+  });
+});
+
+describe('createNovelStructure', () => {
+  it('should create volumes and chapters with linked ids', () => {
+    const result = splitManuscript(txt('第一卷 初入\n第一章 下山\n正文\n第二章 入城\n正文'));
+    const { volumes, chapters } = createNovelStructure(result, 3);
+
+    expect(volumes).toHaveLength(1);
+    expect(volumes[0]).toMatchObject({ title: '第一卷 初入', order: 3 });
+    expect(volumes[0].id).toMatch(/^volume/);
+    expect(chapters.map(c => c.volumeId)).toEqual([volumes[0].id, volumes[0].id]);
+    expect(new Set(chapters.map(c => c.id)).size).toBe(2);
+  });
+});
+
+describe('ImportService.read', () => {
+  const novel: NovelContent = {
+    id: 'novel-1',
+    title: '天道',
+    author: '青云',
+    description: '一部关于修行的小说',
+    volumes: [
+      { id: 'v1', title: '第一卷 初入', order: 1 },
+      { id: 'v2', title: '问道', order: 2 },
+    ],
+    chapters: [
+      { id: 'c1', title: '第一章 下山', content: '清晨，他走出山门。\n\n山下是另一个世界。', volumeId: 'v1', order: 1 },
+      { id: 'c2', title: '入城', content: '城门高耸。', volumeId: 'v1', order: 2 },
+      { id: 'c3', title: '论剑', content: '剑出如虹。', volumeId: 'v2', order: 1 },
+    ],
+  };
+
+  beforeEach(() => {
+    URL.createObjectURL = vi.fn(() => 'blob:mock');
+  });
+
+  const exported = async (format: 'epub' | 'docx', filename: string) => {
+    const result = await exportService.export(novel, { format, includeToc: true });
+    return new File([await readBlob(result.blob!)], filename);
+  };
+
+  it('should read GBK text files and use the file name as title', async () => {
+    const source = await importService.read(new File([GBK_BYTES], '《天道》.txt'));
+    expect(source).toMatchObject({ format: 'txt', encoding: 'gb18030', title: '天道' });
+    expect(source.blocks).toEqual([{ text: '第一章 天道' }]);
+  });
+
+  it('should read Markdown headings with their level', async () => {
+    const source = await importService.read(new File(['# 第一卷\n\n## 第一章 ##\n正文'], 'a.md'));
+    expect(source.blocks.filter(b => b.heading)).toEqual([
+      { text: '第一卷', heading: 1 },
+      { text: '第一章', heading: 2 },
+    ]);
+  });
+
+  it('should reject unsupported formats', async () => {
+    await expect(importService.read(new File(['x'], 'a.pdf'))).rejects.toThrow('不支持的文件格式');
+  });
+
+  it('should read an EPUB by spine order using the navigation hierarchy', async () => {
+    const result = await importService.import(await exported('epub', 'book.epub'));
+
+    expect(result).toMatchObject({ format: 'epub', title: '天道', author: '青云', description: '一部关于修行的小说' });
+    expect(result.volumes).toEqual([{ title: '第一卷 初入' }, { title: '问道' }]);
+    expect(result.chapters.map(c => [c.title, c.content, c.volumeIndex])).toEqual([
+      ['第一章 下山', '清晨，他走出山门。\n山下是另一个世界。', 0],
+      ['入城', '城门高耸。', 0],
+      ['论剑', '剑出如虹。', 1],
+    ]);
+  });
+
+  it('should read a DOCX using heading styles and skip the title page and TOC', async () => {
+    const result = await importService.import(await exported('docx', 'book.docx'));
+
+    expect(result).toMatchObject({ format: 'docx', title: '天道', author: '青云' });
+    expect(result.volumes).toEqual([{ title: '第一卷 初入' }, { title: '问道' }]);
+    expect(result.chapters.map(c => [c.title, c.volumeIndex])).toEqual([
+      ['第一章 下山', 0],
+      ['入城', 0],
+      ['论剑', 1],
+    ]);
+    expect(result.chapters[0].content).toBe('清晨，他走出山门。\n山下是另一个世界。');
+  });
+
+  it('should read DOCX outline levels set directly on paragraphs', async () => {
+    const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+    const paragraph = (text: string, outline?: number) =>
+      `<w:p>${outline !== undefined ? `<w:pPr><w:outlineLvl w:val="${outline}"/></w:pPr>` : ''}<w:r><w:t>${text}</w:t><w:br/><w:t>续</w:t></w:r></w:p>`;
+    const zip = await createZip([{
+      name: 'word/document.xml',
+      data: `<?xml version="1.0"?><w:document xmlns:w="${W}"><w:body>${paragraph('开端', 0)}${paragraph('正文')}</w:body></w:document>`,
+    }]);
+
+    const result = await importService.import(new File([zip], 'a.docx'));
+    expect(result.chapters).toEqual([{ title: '开端 续', content: '正文\n续', wordCount: 3, volumeIndex: undefined }]);
+  });
+});
@@ -1,8 +1,19 @@
 export * from './api/gemini';
 export * from './storage/StorageService';
 export * from './sync/SyncService';
+export * from './sync/SyncTransport';
+export * from './sync/RestSyncTransport';
 export * from './session/SessionService';
 export * from './performance/PerformanceService';
 export * from './acl/AclService';
 export * from './collaboration/CollaborationService';
+export * from './collaboration/CollaborationTransport';
+export * from './collaboration/WebSocketCollaborationTransport';
 export * from './export/ExportService';
+export * from './usage/UsageService';
+export * from './membership';
+export * from './import/ImportService';
+export * from './comment/CommentService';
+export * from './suggestion/SuggestionService';
+export * from './version/VersionService';
+export * from './history/CommandJournal';
@@ -0,0 +1,346 @@
+/**
+ * @fileoverview 会员模式后端客户端
+ * @module services/membership/MembershipClient
+ * @description 调用平台 API（MEMBERSHIP_API_CONFIG.baseUrl），按模型的 pointsCost 扣除积分
+ *
+ * 接口约定：
+ * - `POST {baseUrl}/session`，body 为 `{ email, password }` → `{ token, userId, expiresAt? }`，账号或密码错误为 401
+ * - `GET  {baseUrl}/account` → `{ userId, points, plan? }`
+ * - `POST {baseUrl}/generate`，body 为 `{ model, prompt, systemInstruction, temperature, topP, maxTokens, stream, feature, novelId }`
+ *   - 非流式返回 `{ text, usage, pointsCharged, balance }`
+ *   - 流式返回 SSE，每行 `data: {...}`：
+ *     `{ type: 'delta', text }`、`{ type: 'done', usage, pointsCharged, balance }`、`{ type: 'error', code, message }`
+ * - 错误返回 `{ error: { code, message, balance? } }`，积分不足为 402 + `insufficient_points`
+ * - 除 /session 外，鉴权使用 `Authorization: Bearer <会话令牌>`，令牌只能由 /session 签发
+ *
+ * @example
+ * const session = await membershipClient.createSession(email, password);
+ * membershipClient.setAuthToken(session.token);
+ * const unsubscribe = membershipClient.onCharge((charge) => {
+ *   console.log(`扣除 ${charge.pointsCharged} 积分，余额 ${charge.balance}`);
+ * });
+ */
+
+import { MEMBERSHIP_API_CONFIG } from '../../config/apiConfig';
+import { ApiError, ErrorCode, apiErrorCodeFromStatus, parseRetryAfter } from '../../utils/errors';
+import { fetchWithTimeout, readStreamLines, stripSseData, DEFAULT_TIMEOUT_MS, STREAM_TIMEOUT_MS } from '../api/providers/httpAdapter';
+import type { ProviderRequest } from '../api/providers/types';
+import type { AiFeature, TokenUsage } from '../../types/usage';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 会员账户
+ */
+export interface MembershipAccount {
+  userId: string;
+  points: number;
+  plan?: string;
+}
+
+/**
+ * 会员后端签发的会话
+ */
+export interface MembershipSession {
+  /** 会话令牌，作为 Bearer 令牌发送 */
+  token: string;
+  userId: string;
+  expiresAt?: string;
+}
+
+/**
+ * 一次调用的扣费结果
+ */
+export interface MembershipCharge {
+  model: string;
+  pointsCharged: number;
+  /** 扣费后的积分余额（以服务端为准） */
+  balance: number;
+  feature?: AiFeature;
+  novelId?: string;
+}
+
+/**
+ * 会员生成请求
+ */
+export type MembershipRequest = Omit<ProviderRequest, 'apiKey' | 'baseUrl'> & {
+  feature?: AiFeature;
+  novelId?: string;
+};
+
+/**
+ * 扣费监听器
+ */
+export type MembershipChargeListener = (charge: MembershipCharge) => void;
+
+/** 积分不足的错误码（服务端约定） */
+export const INSUFFICIENT_POINTS_CODE = 'insufficient_points';
+
+/** 用量账本中会员调用的服务商 ID */
+export const MEMBERSHIP_PROVIDER_ID = 'membership';
+
+// ==================== 辅助函数 ====================
+
+/**
+ * 获取模型每次调用消耗的积分，未知模型按 1 计
+ */
+export const getModelPointsCost = (modelId: string): number => {
+  return MEMBERSHIP_API_CONFIG.models.find(m => m.id === modelId)?.pointsCost ?? 1;
+};
+
+/**
+ * 积分不足错误
+ */
+export const insufficientPointsError = (required: number, balance: number): ApiError => {
+  return new ApiError(
+    `会员积分不足：本次调用需要 ${required} 积分，当前余额 ${balance} 积分。请充值或切换到自定义 API 模式。`,
+    ErrorCode.API_QUOTA_EXCEEDED,
+    402,
+    { retryable: false, context: { required, balance } }
+  );
+};
+
+const toUsage = (usage: any): TokenUsage | null => {
+  if (!usage) return null;
+  return {
+    promptTokens: usage.promptTokens ?? 0,
+    completionTokens: usage.completionTokens ?? 0,
+  };
+};
+
+// ==================== 客户端 ====================
+
+/**
+ * 会员模式后端客户端
+ *
+ * 调用前按本地缓存的余额预检，余额未知时先查询账户；
+ * 服务端返回扣费结果后更新余额并通知监听器（App 据此写入 ai_call 活动记录）。
+ */
+export class MembershipClient {
+  private authToken: string | null = null;
+  private balance: number | null = null;
+  private listeners: Set<MembershipChargeListener> = new Set();
+
+  constructor(private readonly baseUrl: string = MEMBERSHIP_API_CONFIG.baseUrl) {}
+
+  /**
+   * 用会员账号登录，换取会话令牌（不会自动设置为当前令牌）
+   *
+   * @throws {ApiError} 账号或密码错误时为 401
+   */
+  async createSession(email: string, password: string, signal?: AbortSignal): Promise<MembershipSession> {
+    const response = await this.send(
+      '/session',
+      { method: 'POST', body: JSON.stringify({ email, password }) },
+      DEFAULT_TIMEOUT_MS,
+      signal,
+      false
+    );
+    const session: MembershipSession = await response.json();
+    if (!session?.token) {
+      throw new ApiError('会员服务未返回会话令牌', ErrorCode.API_ERROR, response.status);
+    }
+    return session;
+  }
+
+  /**
+   * 设置会话令牌（来自 createSession），切换用户时清空余额缓存
+   */
+  setAuthToken(token: string | null): void {
+    if (token !== this.authToken) {
+      this.balance = null;
+    }
+    this.authToken = token;
+  }
+
+  /**
+   * 最近一次已知的积分余额
+   */
+  getCachedBalance(): number | null {
+    return this.balance;
+  }
+
+  /**
+   * 订阅扣费事件
+   *
+   * @returns 取消订阅函数
+   */
+  onCharge(listener: MembershipChargeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 查询账户信息并刷新余额缓存
+   */
+  async getAccount(signal?: AbortSignal): Promise<MembershipAccount> {
+    const response = await this.send('/account', { method: 'GET' }, DEFAULT_TIMEOUT_MS, signal);
+    const account: MembershipAccount = await response.json();
+    this.balance = account.points;
+    return account;
+  }
+
+  /**
+   * 余额不足以支付一次调用时抛出
+   *
+   * @throws {ApiError} API_QUOTA_EXCEEDED
+   */
+  async ensureBalance(model: string, signal?: AbortSignal): Promise<void> {
+    const required = getModelPointsCost(model);
+    const balance = this.balance ?? (await this.getAccount(signal)).points;
+    if (balance < required) {
+      throw insufficientPointsError(required, balance);
+    }
+  }
+
+  /**
+   * 普通生成
+   */
+  async generate(request: MembershipRequest): Promise<string> {
+    const response = await this.send(
+      '/generate',
+      { method: 'POST', body: JSON.stringify(this.buildBody(request, false)) },
+      request.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      request.signal
+    );
+    const data = await response.json();
+
+    const usage = toUsage(data.usage);
+    if (usage) request.onUsage?.(usage);
+    this.applyCharge(request, data);
+    return data.text ?? '';
+  }
+
+  /**
+   * 流式生成
+   *
+   * 服务端在 done 事件中返回扣费结果；中途中止时服务端仍可能扣费，
+   * 此时清空余额缓存，下次调用前重新查询。
+   */
+  async stream(request: MembershipRequest, onChunk: (text: string) => void): Promise<void> {
+    const response = await this.send(
+      '/generate',
+      { method: 'POST', body: JSON.stringify(this.buildBody(request, true)) },
+      STREAM_TIMEOUT_MS,
+      request.signal
+    );
+
+    let settled = false;
+    try {
+      await readStreamLines(response, (line) => {
+        const data = stripSseData(line);
+        if (!data) return;
+
+        let event: any;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          return;
+        }
+
+        if (event.type === 'delta' && event.text) {
+          onChunk(event.text);
+        } else if (event.type === 'done') {
+          const usage = toUsage(event.usage);
+          if (usage) request.onUsage?.(usage);
+          this.applyCharge(request, event);
+          settled = true;
+        } else if (event.type === 'error') {
+          throw this.toError(event.code === INSUFFICIENT_POINTS_CODE ? 402 : 500, { error: event });
+        }
+      }, request.signal);
+    } finally {
+      if (!settled) {
+        this.balance = null;
+      }
+    }
+  }
+
+  private buildBody(request: MembershipRequest, stream: boolean): Record<string, unknown> {
+    return {
+      model: request.model,
+      prompt: request.prompt,
+      systemInstruction: request.systemInstruction,
+      temperature: request.temperature,
+      topP: request.topP,
+      maxTokens: request.maxTokens,
+      stream,
+      feature: request.feature,
+      novelId: request.novelId,
+    };
+  }
+
+  private async send(
+    path: string,
+    init: RequestInit,
+    timeoutMs: number,
+    signal?: AbortSignal,
+    authenticated: boolean = true
+  ): Promise<Response> {
+    if (authenticated && !this.authToken) {
+      throw new ApiError('请先登录后再使用会员服务（切换到会员模式后需重新登录）。', ErrorCode.AUTH_SESSION_EXPIRED, 401);
+    }
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}${path}`,
+      {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authenticated && { 'Authorization': `Bearer ${this.authToken}` }),
+        },
+      },
+      timeoutMs,
+      signal
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw this.toError(response.status, errorData, response.headers.get('retry-after'));
+    }
+    return response;
+  }
+
+  private toError(status: number, errorData: any, retryAfter?: string | null): ApiError {
+    const error = errorData?.error ?? {};
+    if (error.code === INSUFFICIENT_POINTS_CODE) {
+      if (typeof error.balance === 'number') {
+        this.balance = error.balance;
+      }
+      return insufficientPointsError(error.required ?? 0, error.balance ?? this.balance ?? 0);
+    }
+    return new ApiError(
+      error.message || `会员服务请求失败: HTTP ${status}`,
+      apiErrorCodeFromStatus(status),
+      status,
+      { retryAfterMs: parseRetryAfter(retryAfter), context: { provider: MEMBERSHIP_PROVIDER_ID } }
+    );
+  }
+
+  private applyCharge(request: MembershipRequest, data: any): void {
+    if (typeof data.balance === 'number') {
+      this.balance = data.balance;
+    }
+    const pointsCharged = typeof data.pointsCharged === 'number' ? data.pointsCharged : getModelPointsCost(request.model);
+    const charge: MembershipCharge = {
+      model: request.model,
+      pointsCharged,
+      balance: this.balance ?? 0,
+      feature: request.feature,
+      novelId: request.novelId,
+    };
+    this.listeners.forEach(listener => {
+      try {
+        listener(charge);
+      } catch (error) {
+        console.error('[Membership] 扣费监听器执行失败:', error);
+      }
+    });
+  }
+}
+
+export const membershipClient = new MembershipClient();
+
+export default membershipClient;
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MEMBERSHIP_API_CONFIG } from '../../../config/apiConfig';
+import { ErrorCode } from '../../../utils/errors';
+import { MembershipClient, getModelPointsCost, type MembershipCharge } from '../MembershipClient';
+import { createMockMembershipServer, type MockMembershipServer } from '../mockMembershipServer';
+
+const [V1, PRO] = MEMBERSHIP_API_CONFIG.models;
+
+describe('MembershipClient', () => {
+  let server: MockMembershipServer;
+  let client: MembershipClient;
+
+  beforeEach(() => {
+    server = createMockMembershipServer({ initialPoints: 3, reply: () => '天道酬勤，落笔成章' });
+    vi.stubGlobal('fetch', server.fetch);
+    client = new MembershipClient();
+    client.setAuthToken(server.issueToken('user-1'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should read pointsCost from MEMBERSHIP_API_CONFIG', () => {
+    expect(getModelPointsCost(V1.id)).toBe(V1.pointsCost);
+    expect(getModelPointsCost(PRO.id)).toBe(PRO.pointsCost);
+    expect(getModelPointsCost('unknown')).toBe(1);
+  });
+
+  it('should query the account balance', async () => {
+    const account = await client.getAccount();
+    expect(account).toMatchObject({ userId: 'user-1', points: 3 });
+    expect(client.getCachedBalance()).toBe(3);
+  });
+
+  it('should deduct points and notify charge listeners', async () => {
+    const charges: MembershipCharge[] = [];
+    client.onCharge((charge) => charges.push(charge));
+    const onUsage = vi.fn();
+
+    const text = await client.generate({ model: PRO.id, prompt: '开篇', feature: 'chat', novelId: 'n1', onUsage });
+
+    expect(text).toBe('天道酬勤，落笔成章');
+    expect(server.getBalance('user-1')).toBe(3 - PRO.pointsCost);
+    expect(charges).toEqual([
+      { model: PRO.id, pointsCharged: PRO.pointsCost, balance: 3 - PRO.pointsCost, feature: 'chat', novelId: 'n1' },
+    ]);
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ completionTokens: expect.any(Number) }));
+  });
+
+  it('should stream deltas and charge once at the end', async () => {
+    const charges: MembershipCharge[] = [];
+    client.onCharge((charge) => charges.push(charge));
+    const chunks: string[] = [];
+
+    await client.stream({ model: V1.id, prompt: '续写' }, (text) => chunks.push(text));
+
+    expect(chunks.join('')).toBe('天道酬勤，落笔成章');
+    expect(charges).toHaveLength(1);
+    expect(client.getCachedBalance()).toBe(3 - V1.pointsCost);
+  });
+
+  it('should refuse before calling when the cached balance is insufficient', async () => {
+    server.setBalance('user-1', 1);
+    const fetchSpy = vi.fn(server.fetch);
+    vi.stubGlobal('fetch', fetchSpy);
+
+    await expect(client.ensureBalance(PRO.id)).rejects.toMatchObject({ code: ErrorCode.API_QUOTA_EXCEEDED });
+    expect(fetchSpy).toHaveBeenCalledTimes(1); // 仅查询账户
+    await expect(client.ensureBalance(V1.id)).resolves.toBeUndefined();
+  });
+
+  it('should map 402 insufficient_points responses to quota errors', async () => {
+    server.setBalance('user-1', 0);
+
+    await expect(client.generate({ model: V1.id, prompt: 'p' })).rejects.toMatchObject({
+      code: ErrorCode.API_QUOTA_EXCEEDED,
+      statusCode: 402,
+    });
+    expect(client.getCachedBalance()).toBe(0);
+  });
+
+  it('should require a session token', async () => {
+    client.setAuthToken(null);
+    await expect(client.getAccount()).rejects.toMatchObject({ code: ErrorCode.AUTH_SESSION_EXPIRED });
+  });
+
+  it('should log in for a session token and never send the user id as the bearer token', async () => {
+    const fetchSpy = vi.fn(server.fetch);
+    vi.stubGlobal('fetch', fetchSpy);
+
+    const session = await client.createSession('reader@example.com', 'secret');
+    expect(session.userId).toBe('reader@example.com');
+    expect(new Headers(fetchSpy.mock.calls[0][1]?.headers).has('Authorization')).toBe(false);
+
+    client.setAuthToken(session.token);
+    await expect(client.getAccount()).resolves.toMatchObject({ userId: 'reader@example.com' });
+
+    // 只知道账户 ID 不能使用该账户的积分
+    client.setAuthToken('reader@example.com');
+    await expect(client.getAccount()).rejects.toMatchObject({ statusCode: 401 });
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * @fileoverview 会员服务模块导出
+ * @module services/membership
+ */
+
+export * from './MembershipClient';
+export { createMockMembershipServer } from './mockMembershipServer';
+export type { MockMembershipServer, MockMembershipServerOptions } from './mockMembershipServer';
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview 会员后端模拟服务
+ * @module services/membership/mockMembershipServer
+ * @description 按 MembershipClient 的接口约定在内存中实现登录、账户查询、生成和扣费，用于离线测试
+ *
+ * 任意非空的邮箱和密码都能登录，账户 ID 为邮箱；只接受 /session 签发的令牌。
+ *
+ * @example
+ * // 开发时离线体验会员模式：替换全局 fetch，非会员接口的请求照常发出
+ * const restore = createMockMembershipServer({ initialPoints: 20 }).install();
+ * // ...
+ * restore();
+ */
+
+import { MEMBERSHIP_API_CONFIG } from '../../config/apiConfig';
+import { getModelPointsCost, INSUFFICIENT_POINTS_CODE } from './MembershipClient';
+
+/**
+ * 模拟服务配置
+ */
+export interface MockMembershipServerOptions {
+  /** 拦截的 Base URL，默认 MEMBERSHIP_API_CONFIG.baseUrl */
+  baseUrl?: string;
+  /** 新账户的初始积分，默认 100 */
+  initialPoints?: number;
+  /** 根据请求生成回复内容 */
+  reply?: (request: { model: string; prompt: string; systemInstruction?: string }) => string;
+  /** 流式输出时每块的字符数，默认 8 */
+  chunkSize?: number;
+}
+
+/**
+ * 模拟服务
+ */
+export interface MockMembershipServer {
+  /** 与 fetch 签名一致，会员接口由模拟服务处理，其余请求透传 */
+  fetch: typeof fetch;
+  /** 处理会员接口请求 */
+  handle: (url: string, init?: RequestInit) => Promise<Response>;
+  getBalance: (userId: string) => number;
+  setBalance: (userId: string, points: number) => void;
+  /** 直接为账户签发令牌（相当于该账户已登录） */
+  issueToken: (userId: string) => string;
+  /** 替换全局 fetch，返回还原函数 */
+  install: () => () => void;
+}
+
+const jsonResponse = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const estimateTokens = (text: string): number => Math.ceil(text.length / 2);
+
+/**
+ * 创建会员后端模拟服务
+ */
+export const createMockMembershipServer = (options: MockMembershipServerOptions = {}): MockMembershipServer => {
+  const baseUrl = options.baseUrl ?? MEMBERSHIP_API_CONFIG.baseUrl;
+  const initialPoints = options.initialPoints ?? 100;
+  const chunkSize = options.chunkSize ?? 8;
+  const reply = options.reply ?? (({ prompt }) => `【模拟回复】${prompt.slice(0, 50)}`);
+  const balances = new Map<string, number>();
+  // 令牌 → 账户 ID
+  const sessions = new Map<string, string>();
+  let passthrough: typeof fetch = (input, init) => globalThis.fetch(input, init);
+
+  const getBalance = (userId: string): number => balances.get(userId) ?? initialPoints;
+  const setBalance = (userId: string, points: number): void => {
+    balances.set(userId, points);
+  };
+  const issueToken = (userId: string): string => {
+    const token = `mock-${crypto.randomUUID()}`;
+    sessions.set(token, userId);
+    return token;
+  };
+
+  const handle = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const path = url.slice(baseUrl.length);
+
+    if (path === '/session' && init.method === 'POST') {
+      const { email, password } = JSON.parse(String(init.body ?? '{}'));
+      if (!email || !password) {
+        return jsonResponse(401, { error: { code: 'invalid_credentials', message: '账号或密码错误' } });
+      }
+      return jsonResponse(200, { token: issueToken(email), userId: email });
+    }
+
+    const headers = new Headers(init.headers);
+    const token = headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const userId = token ? sessions.get(token) : undefined;
+    if (!userId) {
+      return jsonResponse(401, { error: { code: 'unauthorized', message: '未登录或会话已过期' } });
+    }
+
+    if (path === '/account' && (init.method ?? 'GET') === 'GET') {
+      return jsonResponse(200, { userId, points: getBalance(userId), plan: 'pro' });
+    }
+
+    if (path === '/generate' && init.method === 'POST') {
+      const body = JSON.parse(String(init.body ?? '{}'));
+      if (!MEMBERSHIP_API_CONFIG.models.some(m => m.id === body.model)) {
+        return jsonResponse(404, { error: { code: 'model_not_found', message: `模型 ${body.model} 不存在` } });
+      }
+
+      const required = getModelPointsCost(body.model);
+      const balance = getBalance(userId);
+      if (balance < required) {
+        return jsonResponse(402, {
+          error: { code: INSUFFICIENT_POINTS_CODE, message: '积分不足', required, balance },
+        });
+      }
+
+      const text = reply(body);
+      setBalance(userId, balance - required);
+      const usage = {
+        promptTokens: estimateTokens(`${body.systemInstruction ?? ''}${body.prompt ?? ''}`),
+        completionTokens: estimateTokens(text),
+      };
+      const result = { usage, pointsCharged: required, balance: getBalance(userId) };
+
+      if (!body.stream) {
+        return jsonResponse(200, { text, ...result });
+      }
+
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let i = 0; i < text.length; i += chunkSize) {
+            const event = { type: 'delta', text: text.slice(i, i + chunkSize) };
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+          }
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done', ...result })}\n\n`));
+          controller.close();
+        },
+      });
+      return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    }
+
+    return jsonResponse(404, { error: { code: 'not_found', message: `未知接口 ${path}` } });
+  };
+
+  const mockFetch: typeof fetch = (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    if (url.startsWith(baseUrl)) {
+      return handle(url, init);
+    }
+    return passthrough(input, init);
+  };
+
+  const install = (): (() => void) => {
+    const original = globalThis.fetch;
+    passthrough = original.bind(globalThis);
+    globalThis.fetch = mockFetch;
+    return () => {
+      globalThis.fetch = original;
+    };
+  };
+
+  return { fetch: mockFetch, handle, getBalance, setBalance, issueToken, install };
+};
@@ -0,0 +1,420 @@
+/**
+ * @fileoverview 作品分层记忆的持久化与自动维护
+ * @module services/memory/NovelMemoryService
+ * @description 为每部作品保存一份分层记忆（见 utils/layeredMemorySystem），并在章节保存后增量更新。
+ *
+ * - 近期记忆：最近 maxRecentChapters 章的摘要、关键事件、出场人物和地点
+ * - 长期记忆：更早章节的摘要与关键词，超出近期窗口的章节自动归档到这里
+ * - 核心记忆：人物和世界设定与作品的人物、世界观同步；主线剧情和力量体系由作者维护
+ *
+ * 章节记忆按正文哈希判断是否需要重新提取；作者修改过的记忆（edited）不会被自动更新覆盖。
+ * 章节有与正文一致的 AI 摘要（Chapter.summary）时直接采用摘要，摘要生成后会替换规则提取的记忆。
+ * 记忆单独存放在 localStorage，不进入作品数据，因此不会参与同步合并和撤销记录，但会随本地备份一起导出。
+ */
+
+import { STORAGE_KEYS } from '../../config/constants';
+import type { Character, Novel, Worldview } from '../../types';
+import {
+  extractMemoryFromChapter,
+  LayeredMemorySystem,
+  type CharacterInfo,
+  type CoreMemory,
+  type LayeredMemorySnapshot,
+  type LongTermMemory,
+  type PlotPoint,
+  type PowerSystemInfo,
+  type RecentMemory,
+  type WorldSetting,
+} from '../../utils/layeredMemorySystem';
+import { hashContent } from '../rag/chunking';
+import { ChapterSummaryService } from '../summary/ChapterSummaryService';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 持久化的作品记忆
+ */
+export interface NovelMemory extends LayeredMemorySnapshot {
+  novelId: string;
+  maxRecentChapters: number;
+  updatedAt: number;
+}
+
+/**
+ * 作者对单章记忆的修改
+ */
+export interface ChapterMemoryPatch {
+  summary?: string;
+  keyEvents?: string[];
+  characters?: string[];
+  locations?: string[];
+  /** 仅长期记忆使用 */
+  keywords?: string[];
+}
+
+/**
+ * 作者维护的核心记忆
+ */
+export interface CoreMemoryPatch {
+  mainPlot?: PlotPoint[];
+  powerSystem?: PowerSystemInfo;
+}
+
+/**
+ * 生成提示词的参数
+ */
+export interface MemoryPromptOptions {
+  /** 当前正在写的内容，用于挑选相关的长期记忆 */
+  recentContent?: string;
+  /** 不需要再提供摘要的章节（例如已经附上原文的章节） */
+  excludeChapterIds?: string[];
+  /** 只提供这一章之前的记忆，修改前面章节时不透露后面的剧情 */
+  beforeChapterNumber?: number;
+  maxRecent?: number;
+  maxLongTerm?: number;
+}
+
+// ==================== 常量 ====================
+
+export const DEFAULT_MAX_RECENT_CHAPTERS = 10;
+export const MIN_RECENT_CHAPTERS = 1;
+export const MAX_RECENT_CHAPTERS = 50;
+
+const ROLE_IMPORTANCE: Record<CharacterInfo['role'], number> = {
+  protagonist: 100,
+  antagonist: 90,
+  supporting: 60,
+  minor: 30,
+};
+
+const WORLD_SETTING_PATTERNS: Array<[WorldSetting['type'], RegExp]> = [
+  ['geography', /地理|地图|地域|区域|地点|山川/],
+  ['organization', /组织|势力|宗门|门派|社会|国家|家族/],
+  ['history', /历史|年代|传说|纪元/],
+];
+
+const storageKey = (novelId: string) => `${STORAGE_KEYS.NOVEL_MEMORY}${novelId}`;
+
+// ==================== 服务 ====================
+
+export class NovelMemoryService {
+  /**
+   * 创建空记忆
+   */
+  static createEmpty(novelId: string, maxRecentChapters: number = DEFAULT_MAX_RECENT_CHAPTERS): NovelMemory {
+    return {
+      novelId,
+      maxRecentChapters,
+      updatedAt: Date.now(),
+      ...new LayeredMemorySystem(maxRecentChapters).getSnapshot(),
+    };
+  }
+
+  /**
+   * 读取作品记忆
+   */
+  static load(novelId: string): NovelMemory | null {
+    try {
+      const data = localStorage.getItem(storageKey(novelId));
+      return data ? JSON.parse(data) as NovelMemory : null;
+    } catch (error) {
+      console.error('读取作品记忆失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 保存作品记忆
+   */
+  static save(memory: NovelMemory): void {
+    try {
+      localStorage.setItem(storageKey(memory.novelId), JSON.stringify(memory));
+    } catch (error) {
+      console.error('保存作品记忆失败:', error);
+    }
+  }
+
+  /**
+   * 删除作品记忆
+   */
+  static remove(novelId: string): void {
+    localStorage.removeItem(storageKey(novelId));
+  }
+
+  /**
+   * 读取、更新并保存作品记忆
+   */
+  static sync(novel: Novel): NovelMemory {
+    const stored = this.load(novel.id);
+    const memory = this.refresh(novel, stored);
+    if (memory !== stored) {
+      this.save(memory);
+    }
+    return memory;
+  }
+
+  /**
+   * 按作品当前内容更新记忆（不写入存储）
+   *
+   * 正文未变化或作者修改过的章节沿用原记忆，其余章节重新提取；
+   * 已删除的章节移除，章节号按当前顺序重新编排，超出近期窗口的章节归档为长期记忆。
+   * 没有任何变化时返回原对象。
+   */
+  static refresh(novel: Novel, memory: NovelMemory | null): NovelMemory {
+    const base = memory ?? this.createEmpty(novel.id);
+    const system = new LayeredMemorySystem(base.maxRecentChapters);
+    system.setCoreMemory(this.syncCore(base.core, novel));
+
+    const previous = new Map<string, { layer: 'recent' | 'longterm'; entry: RecentMemory | LongTermMemory }>();
+    base.longterm.forEach(entry => entry.chapterId && previous.set(entry.chapterId, { layer: 'longterm', entry }));
+    base.recent.forEach(entry => entry.chapterId && previous.set(entry.chapterId, { layer: 'recent', entry }));
+
+    const chapters = (novel.chapters ?? [])
+      .map((chapter, index) => ({ chapter, chapterNumber: index + 1 }))
+      .filter(({ chapter }) => chapter.content?.trim());
+    const recentStart = chapters.length - base.maxRecentChapters;
+
+    chapters.forEach(({ chapter, chapterNumber }, position) => {
+      const summary = ChapterSummaryService.getFreshSummary(chapter);
+      // 有 AI 摘要时附加生成时间，摘要生成或重新生成后替换原记忆
+      const contentHash = summary ? `${summary.contentHash}@${summary.generatedAt}` : hashContent(chapter.content);
+      const source = { chapterId: chapter.id, chapterTitle: chapter.title, chapterNumber };
+      const kept = previous.get(chapter.id);
+      const reusable = kept && (kept.entry.edited || kept.entry.contentHash === contentHash);
+
+      if (reusable && kept.layer === 'recent') {
+        system.addRecentMemory({ ...(kept.entry as RecentMemory), ...source });
+      } else if (reusable && position < recentStart) {
+        system.addLongTermMemory({ ...(kept.entry as LongTermMemory), ...source });
+      } else if (reusable && kept.entry.edited) {
+        // 作者修改过的长期记忆重新进入近期窗口（例如调大了近期章节数）
+        const entry = kept.entry as LongTermMemory;
+        system.addRecentMemory({
+          ...source,
+          summary: entry.summary,
+          keyEvents: [],
+          characters: entry.keywords,
+          locations: [],
+          timestamp: Date.now(),
+          contentHash: entry.contentHash,
+          edited: true,
+        });
+      } else if (summary) {
+        system.addRecentMemory({
+          ...source,
+          summary: summary.detailed || summary.brief,
+          keyEvents: summary.keyEvents,
+          characters: summary.keyCharacters,
+          locations: summary.keyLocations,
+          timestamp: Date.now(),
+          contentHash,
+        });
+      } else {
+        system.addRecentMemory({
+          ...extractMemoryFromChapter(chapterNumber, chapter.content),
+          ...source,
+          contentHash,
+        });
+      }
+    });
+
+    const next: NovelMemory = {
+      novelId: novel.id,
+      maxRecentChapters: base.maxRecentChapters,
+      updatedAt: base.updatedAt,
+      ...system.getSnapshot(),
+    };
+    if (memory && this.isSameMemory(memory, next)) {
+      return memory;
+    }
+    return { ...next, updatedAt: Date.now() };
+  }
+
+  /**
+   * 修改单章记忆，修改后的记忆不再被自动更新覆盖
+   */
+  static updateChapterMemory(memory: NovelMemory, chapterId: string, patch: ChapterMemoryPatch): NovelMemory {
+    const { keywords, ...recentPatch } = patch;
+    return {
+      ...memory,
+      recent: memory.recent.map(entry =>
+        entry.chapterId === chapterId ? { ...entry, ...recentPatch, edited: true } : entry
+      ),
+      longterm: memory.longterm.map(entry =>
+        entry.chapterId === chapterId
+          ? {
+            ...entry,
+            ...(patch.summary !== undefined && { summary: patch.summary }),
+            ...(keywords && { keywords }),
+            edited: true,
+          }
+          : entry
+      ),
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * 放弃对单章记忆的修改，从正文重新提取
+   */
+  static resetChapterMemory(novel: Novel, memory: NovelMemory, chapterId: string): NovelMemory {
+    return this.refresh(novel, {
+      ...memory,
+      recent: memory.recent.filter(entry => entry.chapterId !== chapterId),
+      longterm: memory.longterm.filter(entry => entry.chapterId !== chapterId),
+    });
+  }
+
+  /**
+   * 修改主线剧情或力量体系
+   */
+  static updateCore(memory: NovelMemory, patch: CoreMemoryPatch): NovelMemory {
+    const now = Date.now();
+    return {
+      ...memory,
+      core: {
+        ...memory.core,
+        ...(patch.mainPlot && { mainPlot: [...patch.mainPlot].sort((a, b) => a.chapterNumber - b.chapterNumber) }),
+        ...(patch.powerSystem && { powerSystem: patch.powerSystem }),
+        lastUpdated: now,
+      },
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * 调整近期记忆保留的章节数，并重新划分近期和长期记忆
+   */
+  static setMaxRecentChapters(novel: Novel, memory: NovelMemory, maxRecentChapters: number): NovelMemory {
+    const max = Math.min(MAX_RECENT_CHAPTERS, Math.max(MIN_RECENT_CHAPTERS, Math.round(maxRecentChapters)));
+    return this.refresh(novel, { ...memory, maxRecentChapters: max });
+  }
+
+  /**
+   * 按与当前内容的相关度挑选长期记忆（命中关键词多的优先，其次是重要性）
+   */
+  static getRelevantLongTerm(memory: NovelMemory, text: string, limit: number): LongTermMemory[] {
+    return memory.longterm
+      .map(entry => ({ entry, hits: entry.keywords.filter(keyword => keyword && text.includes(keyword)).length }))
+      .sort((a, b) => b.hits - a.hits || b.entry.importance - a.entry.importance)
+      .slice(0, limit)
+      .map(({ entry }) => entry);
+  }
+
+  /**
+   * 生成注入续写提示词的记忆
+   *
+   * 人物和世界观已由创作设定单独提供，这里只输出主线、力量体系和章节记忆。
+   */
+  static formatForPrompt(memory: NovelMemory | null, options: MemoryPromptOptions = {}): string {
+    if (!memory) return '';
+    const { recentContent = '', excludeChapterIds = [], beforeChapterNumber = Infinity, maxRecent = 5, maxLongTerm = 5 } = options;
+    const excluded = new Set(excludeChapterIds);
+    const isAvailable = (entry: RecentMemory | LongTermMemory) =>
+      entry.chapterNumber < beforeChapterNumber && !excluded.has(entry.chapterId ?? '') && entry.summary.trim().length > 0;
+    const sections: string[] = [];
+
+    const { mainPlot, powerSystem } = memory.core;
+    if (powerSystem.levels.length || powerSystem.rules.length || powerSystem.limitations.length) {
+      const lines = [
+        powerSystem.levels.length && `境界：${powerSystem.levels.join(' → ')}`,
+        powerSystem.rules.length && `规则：${powerSystem.rules.join('；')}`,
+        powerSystem.limitations.length && `限制：${powerSystem.limitations.join('；')}`,
+      ].filter(Boolean);
+      sections.push(`力量体系\n${lines.join('\n')}`);
+    }
+    if (mainPlot.length) {
+      sections.push(`主线剧情\n${mainPlot.map(p => `第${p.chapterNumber}章：${p.description}`).join('\n')}`);
+    }
+
+    const recent = memory.recent
+      .filter(isAvailable)
+      .slice(0, maxRecent)
+      .reverse();
+    if (recent.length) {
+      sections.push(`近期剧情\n${recent.map(entry => this.formatChapterLine(entry.chapterNumber, entry.chapterTitle, entry.summary)).join('\n')}`);
+    }
+
+    const longTerm = this.getRelevantLongTerm(
+      { ...memory, longterm: memory.longterm.filter(isAvailable) },
+      recentContent,
+      maxLongTerm
+    ).sort((a, b) => a.chapterNumber - b.chapterNumber);
+    if (longTerm.length) {
+      sections.push(`相关往事\n${longTerm.map(entry => this.formatChapterLine(entry.chapterNumber, entry.chapterTitle, entry.summary)).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * 格式化单章记忆
+   */
+  static formatChapterLine(chapterNumber: number, chapterTitle: string | undefined, summary: string): string {
+    return `[${chapterTitle || `第${chapterNumber}章`}] ${summary}`;
+  }
+
+  // ==================== 核心记忆同步 ====================
+
+  /**
+   * 用作品的人物和世界观覆盖核心记忆中的人物和世界设定，保留作者维护的主线和力量体系
+   */
+  static syncCore(core: CoreMemory, novel: Novel): CoreMemory {
+    const characters = (novel.characters ?? []).map(character => this.toCharacterInfo(character, novel));
+    const worldSettings = (novel.worldviews ?? []).map(worldview => this.toWorldSetting(worldview));
+    if (
+      JSON.stringify(characters) === JSON.stringify(core.characters) &&
+      JSON.stringify(worldSettings) === JSON.stringify(core.worldSettings)
+    ) {
+      return core;
+    }
+    return { ...core, characters, worldSettings, lastUpdated: Date.now() };
+  }
+
+  private static toCharacterInfo(character: Character, novel: Novel): CharacterInfo {
+    const role = this.mapRole(character.role);
+    const names = new Map((novel.characters ?? []).map(c => [c.id, c.name]));
+    const relationships: Record<string, string> = {};
+    (novel.characterRelations ?? [])
+      .filter(relation => relation.sourceId === character.id && names.has(relation.targetId))
+      .forEach(relation => {
+        relationships[names.get(relation.targetId)!] = relation.relationType;
+      });
+    const firstAppearance = (novel.chapters ?? []).findIndex(chapter => chapter.content?.includes(character.name));
+
+    return {
+      name: character.name,
+      role,
+      personality: (character.personality ?? '').split(/[，,、；;\s]+/).filter(Boolean),
+      relationships,
+      abilities: character.traits ?? [],
+      background: character.background || character.description || '',
+      firstAppearance: firstAppearance + 1,
+      importance: ROLE_IMPORTANCE[role],
+    };
+  }
+
+  private static toWorldSetting(worldview: Worldview): WorldSetting {
+    const type = WORLD_SETTING_PATTERNS.find(([, pattern]) => pattern.test(worldview.category))?.[0] ?? 'rule';
+    return {
+      type,
+      name: worldview.title,
+      description: worldview.content,
+      relatedChapters: [],
+      importance: type === 'rule' ? 80 : 60,
+    };
+  }
+
+  private static mapRole(role: string = ''): CharacterInfo['role'] {
+    if (role.includes('主角')) return 'protagonist';
+    if (role.includes('反派')) return 'antagonist';
+    if (role.includes('配角')) return 'supporting';
+    return 'minor';
+  }
+
+  private static isSameMemory(a: NovelMemory, b: NovelMemory): boolean {
+    return a.maxRecentChapters === b.maxRecentChapters &&
+      a.core === b.core &&
+      JSON.stringify([a.recent, a.longterm]) === JSON.stringify([b.recent, b.longterm]);
+  }
+}
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Chapter, Novel } from '../../../types';
+import { hashContent } from '../../rag/chunking';
+import { NovelMemoryService } from '../NovelMemoryService';
+
+const chapter = (n: number, content: string = `第${n}章，林凡在青云城修炼，终于突破了瓶颈。`): Chapter => ({
+  id: `c${n}`,
+  title: `第${n}章`,
+  content,
+  wordCount: content.length,
+});
+
+const createNovel = (chapters: Chapter[]): Novel => ({
+  id: 'n1',
+  title: '天道',
+  description: '',
+  wordCount: 0,
+  status: 'ongoing',
+  updatedAt: '',
+  tags: [],
+  chapters,
+  characters: [
+    { id: 'ch1', name: '林凡', role: '主角', personality: '坚韧，寡言', description: '少年剑修', traits: ['剑心'], createdAt: '' },
+    { id: 'ch2', name: '苏瑶', role: '反派', description: '魔宗圣女', traits: [], createdAt: '' },
+  ],
+  worldviews: [
+    { id: 'w1', title: '青云宗', category: '宗门势力', content: '东域第一剑宗', createdAt: '' },
+  ],
+  characterRelations: [
+    { id: 'r1', sourceId: 'ch1', targetId: 'ch2', relationType: '宿敌', description: '', createdAt: '' },
+  ],
+});
+
+describe('NovelMemoryService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should promote chapters beyond the recent window to long-term memory', () => {
+    const novel = createNovel([1, 2, 3, 4].map(n => chapter(n)));
+    const memory = NovelMemoryService.refresh(novel, NovelMemoryService.createEmpty('n1', 2));
+
+    expect(memory.recent.map(m => m.chapterId)).toEqual(['c4', 'c3']);
+    expect(memory.longterm.map(m => m.chapterId)).toEqual(['c1', 'c2']);
+    expect(memory.longterm[0]).toMatchObject({ chapterNumber: 1, chapterTitle: '第1章' });
+    expect(memory.longterm[0].keywords).toContain('青云城');
+  });
+
+  it('should sync characters and world settings from the novel', () => {
+    const memory = NovelMemoryService.refresh(createNovel([chapter(1)]), null);
+    const [linFan, suYao] = memory.core.characters;
+
+    expect(linFan).toMatchObject({
+      role: 'protagonist',
+      personality: ['坚韧', '寡言'],
+      abilities: ['剑心'],
+      relationships: { 苏瑶: '宿敌' },
+      firstAppearance: 1,
+    });
+    expect(suYao).toMatchObject({ role: 'antagonist', firstAppearance: 0 });
+    expect(memory.core.worldSettings[0]).toMatchObject({ type: 'organization', name: '青云宗' });
+  });
+
+  it('should only re-extract changed chapters and return the same memory when nothing changed', () => {
+    const novel = createNovel([chapter(1), chapter(2)]);
+    const memory = NovelMemoryService.refresh(novel, null);
+
+    expect(NovelMemoryService.refresh(novel, memory)).toBe(memory);
+
+    const edited = createNovel([chapter(1), chapter(2, '苏瑶离开了魔宗，来到青云城。')]);
+    const updated = NovelMemoryService.refresh(edited, memory);
+
+    expect(updated).not.toBe(memory);
+    expect(updated.recent.find(m => m.chapterId === 'c1')).toEqual(memory.recent.find(m => m.chapterId === 'c1'));
+    expect(updated.recent.find(m => m.chapterId === 'c2')?.summary).toContain('苏瑶离开了魔宗');
+  });
+
+  it('should use fresh AI chapter summaries instead of extracted memory', () => {
+    const plain = chapter(1);
+    const memory = NovelMemoryService.refresh(createNovel([plain]), null);
+    const summarized: Chapter = {
+      ...plain,
+      summary: {
+        brief: '林凡突破瓶颈',
+        detailed: '林凡在青云城苦修，终于突破了困扰多年的瓶颈。',
+        keyCharacters: ['林凡'],
+        keyEvents: ['突破瓶颈'],
+        keyLocations: ['青云城'],
+        plotTags: ['修炼'],
+        contentHash: hashContent(plain.content),
+        generatedAt: '2026-01-01T00:00:00.000Z',
+      },
+    };
+
+    const updated = NovelMemoryService.refresh(createNovel([summarized]), memory);
+    expect(updated.recent[0]).toMatchObject({
+      summary: '林凡在青云城苦修，终于突破了困扰多年的瓶颈。',
+      keyEvents: ['突破瓶颈'],
+      characters: ['林凡'],
+    });
+    expect(NovelMemoryService.refresh(createNovel([summarized]), updated)).toBe(updated);
+
+    const edited = createNovel([{ ...summarized, content: '林凡离开了青云城。' }]);
+    expect(NovelMemoryService.refresh(edited, updated).recent[0].summary).toContain('林凡离开了青云城');
+  });
+
+  it('should keep author corrections when the chapter changes', () => {
+    const novel = createNovel([chapter(1), chapter(2)]);
+    const memory = NovelMemoryService.updateChapterMemory(
+      NovelMemoryService.refresh(novel, null),
+      'c1',
+      { summary: '林凡拜入青云宗。' }
+    );
+
+    const changed = createNovel([chapter(1, '完全重写的第一章。'), chapter(2)]);
+    const refreshed = NovelMemoryService.refresh(changed, memory);
+    expect(refreshed.recent.find(m => m.chapterId === 'c1')).toMatchObject({ summary: '林凡拜入青云宗。', edited: true });
+
+    const reset = NovelMemoryService.resetChapterMemory(changed, refreshed, 'c1');
+    expect(reset.recent.find(m => m.chapterId === 'c1')).toMatchObject({ summary: '完全重写的第一章。' });
+    expect(reset.recent.find(m => m.chapterId === 'c1')?.edited).toBeUndefined();
+  });
+
+  it('should drop deleted chapters and renumber the rest', () => {
+    const memory = NovelMemoryService.refresh(createNovel([1, 2, 3].map(n => chapter(n))), null);
+    const updated = NovelMemoryService.refresh(createNovel([chapter(1), chapter(3)]), memory);
+
+    expect(updated.recent.map(m => [m.chapterId, m.chapterNumber])).toEqual([['c3', 2], ['c1', 1]]);
+  });
+
+  it('should persist memory per novel and keep author-maintained core memory', () => {
+    const novel = createNovel([chapter(1)]);
+    const memory = NovelMemoryService.updateCore(NovelMemoryService.sync(novel), {
+      powerSystem: { levels: ['炼气', '筑基'], rules: ['越级挑战需付出代价'], limitations: [] },
+    });
+    NovelMemoryService.save(memory);
+
+    const synced = NovelMemoryService.sync({ ...novel, characters: [] });
+    expect(synced.core.powerSystem.levels).toEqual(['炼气', '筑基']);
+    expect(synced.core.characters).toEqual([]);
+    expect(NovelMemoryService.load('n1')).toEqual(synced);
+
+    NovelMemoryService.remove('n1');
+    expect(NovelMemoryService.load('n1')).toBeNull();
+  });
+
+  it('should format plot, recent and relevant long-term memory for prompts', () => {
+    const chapters = [
+      chapter(1, '林凡在落霞山得到一枚玉佩。'),
+      chapter(2, '林凡来到青云城。'),
+      chapter(3, '林凡在青云城修炼。'),
+    ];
+    const novel = createNovel(chapters);
+    const memory = NovelMemoryService.updateCore(
+      NovelMemoryService.refresh(novel, NovelMemoryService.createEmpty('n1', 1)),
+      { mainPlot: [{ chapterNumber: 1, type: 'setup', description: '玉佩的来历', relatedCharacters: [], importance: 90 }] }
+    );
+
+    const prompt = NovelMemoryService.formatForPrompt(memory, {
+      recentContent: '他又想起了落霞山。',
+      excludeChapterIds: ['c3'],
+      maxLongTerm: 1,
+    });
+
+    expect(prompt).toContain('主线剧情\n第1章：玉佩的来历');
+    expect(prompt).toContain('相关往事\n[第1章] 林凡在落霞山得到一枚玉佩。');
+    expect(prompt).not.toContain('近期剧情');
+    expect(NovelMemoryService.formatForPrompt(null)).toBe('');
+  });
+});
@@ -1,4 +1,6 @@
 import { OutlineNode, Chapter, Novel } from '../../types/novel';
+import { hashContent } from '../rag/chunking';
+import { ChapterSummaryService } from '../summary/ChapterSummaryService';
 
 export class OutlineChapterLinkService {
   /**
@@ -82,6 +84,36 @@ export class OutlineChapterLinkService {
     return { ...novel, outlineNodes: updatedNodes };
   }
 
+  /**
+   * 用章节的 AI 摘要回写已关联的章节节点内容
+   * 只覆盖内容为空或仍是上次回写结果的节点，作者手写的大纲保持不变
+   *
+   * @returns 没有节点需要更新时返回原数组
+   */
+  static syncChapterSummaries(outlineNodes: OutlineNode[], chapters: Chapter[]): OutlineNode[] {
+    let changed = false;
+    const updatedNodes = outlineNodes.map(node => {
+      if (node.type !== 'chapter' || !node.chapterId) return node;
+
+      const chapter = chapters.find(c => c.id === node.chapterId);
+      const summary = chapter && ChapterSummaryService.getFreshSummary(chapter);
+      if (!summary || node.content === summary.detailed) return node;
+
+      const untouched = !node.content.trim() || node.summaryHash === hashContent(node.content);
+      if (!untouched) return node;
+
+      changed = true;
+      return {
+        ...node,
+        content: summary.detailed,
+        summaryHash: hashContent(summary.detailed),
+        updatedAt: new Date().toISOString()
+      };
+    });
+
+    return changed ? updatedNodes : outlineNodes;
+  }
+
   /**
    * 批量关联章节
    * 自动匹配标题相同的大纲节点和章节
@@ -1,4 +1,5 @@
-import { OutlineNode } from '../../types/novel';
+import { Chapter, OutlineNode } from '../../types/novel';
+import { countWords, DEFAULT_WORD_COUNT_MODE, type WordCountMode } from '../../utils/wordCount';
 
 export interface OutlineStats {
   totalNodes: number;
@@ -84,6 +85,23 @@ export class OutlineStatsService {
     return stats;
   }
 
+  /**
+   * 用关联章节的正文字数填充节点的实际字数
+   *
+   * 统计前调用，使大纲进度与章节字数采用同一统计口径；未关联章节的节点保持原值。
+   */
+  static withChapterWords(
+    outlineNodes: OutlineNode[],
+    chapters: Chapter[],
+    mode: WordCountMode = DEFAULT_WORD_COUNT_MODE
+  ): OutlineNode[] {
+    const chapterMap = new Map(chapters.map(c => [c.id, c]));
+    return outlineNodes.map(node => {
+      const chapter = node.chapterId ? chapterMap.get(node.chapterId) : undefined;
+      return chapter ? { ...node, actualWords: countWords(chapter.content, mode) } as OutlineNode : node;
+    });
+  }
+
   /**
    * 计算单个节点的详细统计
    */
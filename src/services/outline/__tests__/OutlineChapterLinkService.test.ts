@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { OutlineChapterLinkService } from '../OutlineChapterLinkService';
 import { Novel, OutlineNode, Chapter } from '../../../types/novel';
+import { hashContent } from '../../rag/chunking';
 
 describe('OutlineChapterLinkService', () => {
   const createMockNovel = (): Novel => ({
@@ -301,4 +302,42 @@ describe('OutlineChapterLinkService', () => {
       expect(node2?.chapterId).toBeUndefined(); // 清除断开关联
     });
   });
+
+  describe('syncChapterSummaries', () => {
+    const summarize = (chapter: Chapter, detailed: string): Chapter => ({
+      ...chapter,
+      summary: {
+        brief: detailed,
+        detailed,
+        keyCharacters: [],
+        keyEvents: [],
+        keyLocations: [],
+        plotTags: [],
+        contentHash: hashContent(chapter.content),
+        generatedAt: new Date().toISOString()
+      }
+    });
+
+    it('应该用摘要回写空白或上次回写的节点', () => {
+      const novel = createMockNovel();
+      const nodes = novel.outlineNodes!.map(n => ({ ...n, content: '', chapterId: n.id === 'node_1' ? 'chapter_1' : 'chapter_2' }));
+      const chapters = [summarize(novel.chapters![0], '少年拜入山门'), novel.chapters![1]];
+
+      const synced = OutlineChapterLinkService.syncChapterSummaries(nodes, chapters);
+      expect(synced[0].content).toBe('少年拜入山门');
+      expect(synced[1]).toBe(nodes[1]); // 没有摘要的章节不变
+
+      const resummarized = [summarize(novel.chapters![0], '少年拜入山门，得到玉佩'), novel.chapters![1]];
+      expect(OutlineChapterLinkService.syncChapterSummaries(synced, resummarized)[0].content).toBe('少年拜入山门，得到玉佩');
+      expect(OutlineChapterLinkService.syncChapterSummaries(synced, chapters)).toBe(synced);
+    });
+
+    it('不应该覆盖作者手写的大纲', () => {
+      const novel = createMockNovel();
+      const linked = OutlineChapterLinkService.linkChapter('node_1', 'chapter_1', novel);
+      const chapters = [summarize(novel.chapters![0], '少年拜入山门'), novel.chapters![1]];
+
+      expect(OutlineChapterLinkService.syncChapterSummaries(linked.outlineNodes!, chapters)).toBe(linked.outlineNodes);
+    });
+  });
 });
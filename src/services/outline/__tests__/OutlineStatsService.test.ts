@@ -107,6 +107,23 @@ describe('OutlineStatsService', () => {
     });
   });
 
+  describe('withChapterWords', () => {
+    it('应该按统计口径使用关联章节的字数', () => {
+      const nodes = createMockNodes();
+      const chapters = [
+        { id: 'chapter_1', title: '第一章', content: '天地玄黄，宇宙洪荒。', wordCount: 0 },
+        { id: 'chapter_2', title: '第二章', content: 'Hello 世界', wordCount: 0 },
+      ];
+
+      const linked = OutlineStatsService.withChapterWords(nodes, chapters, 'cjk');
+      expect((linked[1] as any).actualWords).toBe(8);
+      expect((linked[2] as any).actualWords).toBe(2);
+      expect(linked[3]).toBe(nodes[3]);
+      expect(OutlineStatsService.calculate(linked).actualWords).toBe(10);
+      expect((OutlineStatsService.withChapterWords(nodes, chapters)[1] as any).actualWords).toBe(10);
+    });
+  });
+
   describe('calculateNodeStats', () => {
     it('应该计算单个节点的统计信息', () => {
       const nodes = createMockNodes();
@@ -0,0 +1,260 @@
+/**
+ * @fileoverview 文本向量（Embedding）服务
+ * @module services/rag/EmbeddingProvider
+ * @description 把文本转换为向量，供语义检索使用
+ *
+ * - 远程：调用当前服务商的 Embedding 接口（OpenAI 兼容 / Gemini / Cohere），模型见 PROVIDER_EMBEDDING_MODELS
+ * - 本地：特征哈希（中文字、双字和英文单词散列到固定维度），不联网、结果确定，用于离线或服务商不支持时
+ *
+ * 不同服务商、模型生成的向量不在同一个空间，用 key 区分，索引和查询必须使用同一个 key。
+ * 远程请求的 token 用量记入用量账本（功能为 embedding），服务商未返回用量时按字数估算。
+ *
+ * @example
+ * const provider = getEmbeddingProvider();
+ * const [vector] = await provider.embed(['少年登上山门'], { inputType: 'query' });
+ */
+
+import { API_PROVIDERS, getApiSettings, PROVIDER_EMBEDDING_MODELS, type ApiSettings } from '../../config/apiConfig';
+import { ApiError, apiErrorCodeFromStatus, parseRetryAfter } from '../../utils/errors';
+import { fetchWithTimeout, type HttpRequestSpec } from '../api/providers';
+import { UsageService } from '../usage/UsageService';
+import { tokenize } from './ranking';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 文本用途：document 为建索引的正文，query 为检索查询
+ *
+ * 部分服务商（Cohere、Gemini）对两者使用不同的编码方式。
+ */
+export type EmbeddingInputType = 'document' | 'query';
+
+export interface EmbedOptions {
+  /** 默认 document */
+  inputType?: EmbeddingInputType;
+  signal?: AbortSignal;
+  /** 用量归属的作品 */
+  novelId?: string;
+}
+
+export interface EmbeddingProvider {
+  /** 向量空间标识，如 local-hash-512、openai:text-embedding-3-small */
+  key: string;
+  /** 是否为本地向量 */
+  local: boolean;
+  /** 批量生成向量，返回单位向量，顺序与输入一致 */
+  embed: (texts: string[], options?: EmbedOptions) => Promise<number[][]>;
+}
+
+/**
+ * 服务商 Embedding 接口规格
+ */
+interface EmbeddingEndpointSpec {
+  buildRequest: (options: RemoteEmbeddingOptions, texts: string[], inputType: EmbeddingInputType) => HttpRequestSpec;
+  parseResponse: (data: any) => number[][];
+  /** 响应中的输入 token 数，没有时返回 undefined */
+  parseUsage?: (data: any) => number | undefined;
+}
+
+export interface RemoteEmbeddingOptions {
+  providerId: string;
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+  /** 每次请求的文本数，默认按服务商的上限（PROVIDER_EMBEDDING_BATCH_SIZES），其余为 64 */
+  batchSize?: number;
+  timeoutMs?: number;
+}
+
+// ==================== 常量 ====================
+
+/** 本地向量维度 */
+export const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+const DEFAULT_BATCH_SIZE = 64;
+
+/** 单次请求的文本数上限低于默认值的服务商 */
+export const PROVIDER_EMBEDDING_BATCH_SIZES: Record<string, number> = {
+  aliyun: 10,
+};
+const EMBEDDING_TIMEOUT_MS = 30000;
+
+// ==================== 工具函数 ====================
+
+/**
+ * 归一化为单位向量，零向量原样返回
+ */
+export const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+};
+
+/** FNV-1a 32 位哈希 */
+const hashFeature = (feature: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * 特征哈希向量：每个特征按哈希落到一个维度，符号由另一位决定以抵消冲突，词频取对数
+ */
+const hashEmbedding = (text: string, dimensions: number): number[] => {
+  const counts = new Map<number, number>();
+  for (const feature of tokenize(text)) {
+    const hash = hashFeature(feature);
+    const index = hash % dimensions;
+    const sign = (hash >>> 31) === 0 ? 1 : -1;
+    // 双字比单字更有区分度
+    counts.set(index, (counts.get(index) ?? 0) + sign * (feature.length > 1 ? 1.5 : 1));
+  }
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, index) => {
+    vector[index] = Math.sign(count) * Math.log1p(Math.abs(count));
+  });
+  return normalizeVector(vector);
+};
+
+// ==================== 服务商接口 ====================
+
+const openaiEmbeddingSpec: EmbeddingEndpointSpec = {
+  buildRequest: ({ baseUrl, apiKey, model }, texts) => ({
+    url: `${baseUrl.replace(/\/$/, '')}/embeddings`,
+    headers: { Authorization: `Bearer ${apiKey}` },
+    body: { model, input: texts },
+  }),
+  parseResponse: (data) =>
+    [...(data?.data ?? [])]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding),
+  parseUsage: (data) => data?.usage?.prompt_tokens,
+};
+
+const googleEmbeddingSpec: EmbeddingEndpointSpec = {
+  buildRequest: ({ apiKey, model }, texts, inputType) => ({
+    url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents`,
+    headers: { 'x-goog-api-key': apiKey },
+    body: {
+      requests: texts.map(text => ({
+        model: `models/${model}`,
+        content: { parts: [{ text }] },
+        taskType: inputType === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+      })),
+    },
+  }),
+  parseResponse: (data) => (data?.embeddings ?? []).map((item: { values: number[] }) => item.values),
+};
+
+const cohereEmbeddingSpec: EmbeddingEndpointSpec = {
+  buildRequest: ({ baseUrl, apiKey, model }, texts, inputType) => ({
+    url: `${baseUrl.replace(/\/$/, '')}/embed`,
+    headers: { Authorization: `Bearer ${apiKey}` },
+    body: { model, texts, input_type: inputType === 'query' ? 'search_query' : 'search_document' },
+  }),
+  parseResponse: (data) => data?.embeddings ?? [],
+  parseUsage: (data) => data?.meta?.billed_units?.input_tokens,
+};
+
+const ENDPOINT_SPECS: Record<string, EmbeddingEndpointSpec> = {
+  google: googleEmbeddingSpec,
+  cohere: cohereEmbeddingSpec,
+};
+
+// ==================== 工厂函数 ====================
+
+/**
+ * 创建本地向量服务
+ */
+export const createLocalEmbeddingProvider = (dimensions: number = LOCAL_EMBEDDING_DIMENSIONS): EmbeddingProvider => ({
+  key: `local-hash-${dimensions}`,
+  local: true,
+  embed: async texts => texts.map(text => hashEmbedding(text, dimensions)),
+});
+
+export const localEmbeddingProvider = createLocalEmbeddingProvider();
+
+/**
+ * 创建调用服务商接口的向量服务，未单独适配的服务商按 OpenAI 兼容接口调用
+ *
+ * @throws {ApiError} 接口返回错误或返回的向量数量不符
+ */
+export const createRemoteEmbeddingProvider = (options: RemoteEmbeddingOptions): EmbeddingProvider => {
+  const spec = ENDPOINT_SPECS[options.providerId] ?? openaiEmbeddingSpec;
+  const batchSize = options.batchSize ?? PROVIDER_EMBEDDING_BATCH_SIZES[options.providerId] ?? DEFAULT_BATCH_SIZE;
+
+  const embedBatch = async (texts: string[], embedOptions: EmbedOptions): Promise<number[][]> => {
+    const { url, headers, body } = spec.buildRequest(options, texts, embedOptions.inputType ?? 'document');
+    const response = await fetchWithTimeout(
+      url,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      },
+      options.timeoutMs ?? EMBEDDING_TIMEOUT_MS,
+      embedOptions.signal
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new ApiError(
+        errorData?.error?.message || errorData?.message || `Embedding 请求失败 (${response.status})`,
+        apiErrorCodeFromStatus(response.status),
+        response.status,
+        {
+          retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+          context: { provider: options.providerId, model: options.model },
+        }
+      );
+    }
+
+    const data = await response.json();
+    const promptTokens = spec.parseUsage?.(data);
+    UsageService.record({
+      provider: options.providerId,
+      model: options.model,
+      feature: 'embedding',
+      novelId: embedOptions.novelId,
+      usage: {
+        promptTokens: promptTokens ?? texts.reduce((sum, text) => sum + UsageService.estimateTokens(text), 0),
+        completionTokens: 0,
+      },
+      estimated: promptTokens === undefined,
+    });
+
+    const vectors = spec.parseResponse(data);
+    if (vectors.length !== texts.length) {
+      throw new ApiError(`Embedding 返回 ${vectors.length} 条结果，预期 ${texts.length} 条`);
+    }
+    return vectors.map(normalizeVector);
+  };
+
+  return {
+    key: `${options.providerId}:${options.model}`,
+    local: false,
+    embed: async (texts, embedOptions = {}) => {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += batchSize) {
+        vectors.push(...await embedBatch(texts.slice(i, i + batchSize), embedOptions));
+      }
+      return vectors;
+    },
+  };
+};
+
+/**
+ * 按当前 API 设置选择向量服务
+ *
+ * 会员模式、未配置 API Key 或服务商没有 Embedding 模型时使用本地向量。
+ */
+export const getEmbeddingProvider = (settings: ApiSettings = getApiSettings()): EmbeddingProvider => {
+  const model = PROVIDER_EMBEDDING_MODELS[settings.provider];
+  if (settings.apiMode === 'membership' || !settings.apiKey || !model) {
+    return localEmbeddingProvider;
+  }
+  const baseUrl = API_PROVIDERS.find(provider => provider.id === settings.provider)?.baseUrl || settings.baseUrl || '';
+  return createRemoteEmbeddingProvider({ providerId: settings.provider, model, apiKey: settings.apiKey, baseUrl });
+};
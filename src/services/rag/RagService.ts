@@ -1,10 +1,39 @@
 /**
  * @fileoverview RAG 记忆服务
  * @module services/rag/RagService
- * @description 提供基于向量相似度的记忆检索功能，让 AI 能够记住全书内容
- * 由于浏览器环境限制，使用简化的 TF-IDF + 余弦相似度实现
+ * @description 提供全书内容的检索功能，让 AI 能够记住前文
+ *
+ * - 章节按段落 / 场景切成带重叠的片段（chunking）
+ * - 片段通过 EmbeddingProvider 转换为向量，保存在 IndexedDB（VectorStore）
+ * - 检索时 BM25 关键词分数和向量相似度混合排序（ranking）
+ * - 增量索引：只有正文哈希变化的章节才重新切块、生成向量
+ * - 远程向量暂时失败时保留已有的远程索引，变化的章节下次索引时重试；还没有远程索引时才改用本地向量
+ * - 章节有与正文一致的 AI 摘要时，摘要（formatSummaryForRAG）作为一个额外片段一起索引
+ *
+ * @example
+ * await ragService.indexNovel(novel.id, novel.chapters);
+ * const results = await ragService.searchContext('师父留下的玉佩', novel.id, 5);
+ * const context = ragService.formatContextForPrompt(results);
  */
 
+import type { ChapterSummaryRecord } from '../../types';
+import { formatSummaryForRAG } from '../../utils/chapterSummaryGenerator';
+import { ChapterSummaryService } from '../summary/ChapterSummaryService';
+import { chunkText, hashContent, type ChunkOptions } from './chunking';
+import { getEmbeddingProvider, localEmbeddingProvider, type EmbeddingProvider } from './EmbeddingProvider';
+import { Bm25Index, cosineSimilarity, fuseScores } from './ranking';
+import {
+  createEmptyIndex,
+  decodeVector,
+  encodeVector,
+  LEGACY_STORAGE_KEYS,
+  VectorStore,
+  type NovelVectorIndex,
+  type StoredChunk,
+} from './VectorStore';
+
+// ==================== 类型定义 ====================
+
 // 记忆条目接口
 export interface MemoryEntry {
   id: string;
@@ -12,266 +41,392 @@ export interface MemoryEntry {
   chapterId: string;
   chapterTitle: string;
   content: string;
-  lineIndex: number;
-  vector?: number[];
-  createdAt: string;
+  /** 片段在章节中的序号 */
+  chunkIndex: number;
+  /** 片段在章节正文中的起止位置 */
+  start: number;
+  end: number;
+  /** 章节摘要片段 */
+  summary?: boolean;
 }
 
 // 检索结果接口
 export interface RetrievalResult {
   entry: MemoryEntry;
+  /** 混合分数（0~1） */
   score: number;
+  /** 归一化后的 BM25 分数 */
+  keywordScore: number;
+  /** 向量相似度，仅关键词检索时为 0 */
+  vectorScore: number;
 }
 
-// 存储 Key
-const MEMORY_STORAGE_KEY = 'tiandao_rag_memory';
-const VOCABULARY_KEY = 'tiandao_rag_vocabulary';
-
 /**
- * 简单的文本分词（中文按字符，英文按单词）
+ * 需要索引的章节（Chapter 的子集）
  */
-const tokenize = (text: string): string[] => {
-  const tokens: string[] = [];
-  // 匹配中文字符、英文单词和数字
-  const regex = /[\u4e00-\u9fa5]|[a-zA-Z]+|[0-9]+/g;
-  let match;
-  while ((match = regex.exec(text)) !== null) {
-    tokens.push(match[0].toLowerCase());
-  }
-  return tokens;
-};
-
-/**
- * 计算 TF-IDF 向量
- */
-const computeTfIdf = (tokens: string[], vocabulary: Map<string, number>, idf: Map<string, number>): number[] => {
-  const tf = new Map<string, number>();
-  tokens.forEach(token => {
-    tf.set(token, (tf.get(token) || 0) + 1);
-  });
-
-  const vector: number[] = new Array(vocabulary.size).fill(0);
-  tf.forEach((count, token) => {
-    const idx = vocabulary.get(token);
-    if (idx !== undefined) {
-      vector[idx] = (count / tokens.length) * (idf.get(token) || 1);
-    }
-  });
+export interface IndexableChapter {
+  id: string;
+  title: string;
+  content: string;
+  wordCount?: number;
+  summary?: ChapterSummaryRecord;
+}
 
-  return vector;
-};
+export interface IndexOptions {
+  signal?: AbortSignal;
+  /** 生成向量的进度 */
+  onProgress?: (done: number, total: number) => void;
+}
 
 /**
- * 计算余弦相似度
+ * 一次索引的结果
  */
-const cosineSimilarity = (a: number[], b: number[]): number => {
-  if (a.length !== b.length) return 0;
+export interface IndexReport {
+  /** 重新切块、生成向量的章节 */
+  indexedChapters: string[];
+  /** 从索引中移除的章节 */
+  removedChapters: string[];
+  /** 新生成向量的片段数 */
+  embeddedChunks: number;
+  /** 实际使用的向量空间 */
+  embeddingKey: string;
+  /** 远程向量失败，改用了本地向量 */
+  fellBackToLocal: boolean;
+  /** 远程向量失败、暂未更新的章节（沿用原有片段，下次索引时重试） */
+  staleChapters: string[];
+}
 
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
+export interface RagServiceOptions {
+  /** 向量服务，默认按当前 API 设置选择 */
+  getEmbeddingProvider?: () => EmbeddingProvider;
+  store?: VectorStore;
+  chunkOptions?: ChunkOptions;
+  /** 低于该混合分数的结果丢弃 */
+  minScore?: number;
+}
 
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
+// ==================== 常量 ====================
 
-  if (normA === 0 || normB === 0) return 0;
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-};
+const DEFAULT_MIN_SCORE = 0.1;
+
+// ==================== RAG 服务 ====================
 
 /**
  * RAG 记忆服务类
  */
-class RagService {
-  private memories: MemoryEntry[] = [];
-  private vocabulary: Map<string, number> = new Map();
-  private idf: Map<string, number> = new Map();
-  private documentFrequency: Map<string, number> = new Map();
-  private isInitialized: boolean = false;
-
-  constructor() {
-    this.loadFromStorage();
+export class RagService {
+  private readonly store: VectorStore;
+  private readonly resolveProvider: () => EmbeddingProvider;
+  private readonly chunkOptions: ChunkOptions;
+  private readonly minScore: number;
+  /** 章节对象 → 正文哈希，正文未变时跳过重复计算 */
+  private readonly hashCache = new WeakMap<IndexableChapter, { content: string; hash: string }>();
+  /** 作品 → BM25 索引，索引更新后重建 */
+  private readonly keywordIndexes = new Map<string, { source: NovelVectorIndex; bm25: Bm25Index }>();
+  /** 同一作品的索引任务串行执行 */
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  constructor(options: RagServiceOptions = {}) {
+    this.store = options.store ?? new VectorStore();
+    this.resolveProvider = options.getEmbeddingProvider ?? (() => getEmbeddingProvider());
+    this.chunkOptions = options.chunkOptions ?? {};
+    this.minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+    this.removeLegacyMemory();
   }
 
   /**
-   * 从 localStorage 加载记忆
+   * 清理旧版保存在 localStorage 的 TF-IDF 记忆
    */
-  private loadFromStorage(): void {
+  private removeLegacyMemory(): void {
     try {
-      const saved = localStorage.getItem(MEMORY_STORAGE_KEY);
-      if (saved) {
-        this.memories = JSON.parse(saved);
-      }
-      const vocabSaved = localStorage.getItem(VOCABULARY_KEY);
-      if (vocabSaved) {
-        const { vocabulary, idf, documentFrequency } = JSON.parse(vocabSaved);
-        this.vocabulary = new Map(vocabulary);
-        this.idf = new Map(idf);
-        this.documentFrequency = new Map(documentFrequency);
-      }
-      this.isInitialized = true;
-      console.log(`[RAG] 已加载 ${this.memories.length} 条记忆`);
-    } catch (e) {
-      console.error('[RAG] 加载记忆失败:', e);
-      this.memories = [];
+      LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
+    } catch {
+      // localStorage 不可用时忽略
     }
   }
 
+  private contentHash(chapter: IndexableChapter): string {
+    const cached = this.hashCache.get(chapter);
+    if (cached && cached.content === chapter.content) return cached.hash;
+    const hash = hashContent(chapter.content);
+    this.hashCache.set(chapter, { content: chapter.content, hash });
+    return hash;
+  }
+
   /**
-   * 保存到 localStorage
+   * 与正文一致的摘要，格式化为检索文本
    */
-  private saveToStorage(): void {
-    try {
-      localStorage.setItem(MEMORY_STORAGE_KEY, JSON.stringify(this.memories));
-      localStorage.setItem(VOCABULARY_KEY, JSON.stringify({
-        vocabulary: Array.from(this.vocabulary.entries()),
-        idf: Array.from(this.idf.entries()),
-        documentFrequency: Array.from(this.documentFrequency.entries()),
-      }));
-    } catch (e) {
-      console.error('[RAG] 保存记忆失败:', e);
-    }
+  private summaryText(chapter: IndexableChapter): string | null {
+    const { summary } = chapter;
+    if (!summary || summary.contentHash !== this.contentHash(chapter)) return null;
+    return formatSummaryForRAG(ChapterSummaryService.toChapterSummary({ ...chapter, wordCount: chapter.wordCount ?? 0 }, summary));
   }
 
   /**
-   * 重建词汇表和 IDF
+   * 索引用的章节哈希：正文哈希，有摘要时附加摘要的生成时间（摘要生成后重新索引）
    */
-  private rebuildVocabulary(): void {
-    this.vocabulary.clear();
-    this.documentFrequency.clear();
-    this.idf.clear();
-
-    // 收集所有文档的词汇
-    const allTokens = new Set<string>();
-    const docTokenSets: Set<string>[] = [];
-
-    this.memories.forEach(memory => {
-      const tokens = tokenize(memory.content);
-      const tokenSet = new Set(tokens);
-      docTokenSets.push(tokenSet);
-      tokens.forEach(token => allTokens.add(token));
-    });
-
-    // 构建词汇表
-    let idx = 0;
-    allTokens.forEach(token => {
-      this.vocabulary.set(token, idx++);
-    });
+  private chapterHash(chapter: IndexableChapter): string {
+    const hash = this.contentHash(chapter);
+    return this.summaryText(chapter) ? `${hash}@${chapter.summary!.generatedAt}` : hash;
+  }
 
-    // 计算文档频率
-    docTokenSets.forEach(tokenSet => {
-      tokenSet.forEach(token => {
-        this.documentFrequency.set(token, (this.documentFrequency.get(token) || 0) + 1);
-      });
-    });
+  /**
+   * 同一作品的任务排队执行，避免并发索引互相覆盖
+   */
+  private exclusive<T>(novelId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.pending.get(novelId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.pending.set(novelId, next);
+    next.finally(() => {
+      if (this.pending.get(novelId) === next) this.pending.delete(novelId);
+    }).catch(() => undefined);
+    return next;
+  }
 
-    // 计算 IDF
-    const totalDocs = this.memories.length || 1;
-    this.documentFrequency.forEach((df, token) => {
-      this.idf.set(token, Math.log(totalDocs / (df + 1)) + 1);
+  /**
+   * 切块并生成向量
+   */
+  private async embedChapters(
+    novelId: string,
+    chapters: IndexableChapter[],
+    provider: EmbeddingProvider,
+    options: IndexOptions
+  ): Promise<{ chunks: StoredChunk[]; dimensions: number }> {
+    const pieces = chapters.flatMap(chapter => {
+      const summary = this.summaryText(chapter);
+      return [
+        ...(summary ? [{ chapter, chunk: { index: -1, start: 0, end: 0, content: summary }, summary: true }] : []),
+        ...chunkText(chapter.content, this.chunkOptions).map(chunk => ({ chapter, chunk, summary: false })),
+      ];
     });
+    if (pieces.length === 0) return { chunks: [], dimensions: 0 };
 
-    // 重新计算所有记忆的向量
-    this.memories.forEach(memory => {
-      const tokens = tokenize(memory.content);
-      memory.vector = computeTfIdf(tokens, this.vocabulary, this.idf);
+    options.onProgress?.(0, pieces.length);
+    const vectors = await provider.embed(pieces.map(piece => piece.chunk.content), {
+      inputType: 'document',
+      signal: options.signal,
+      novelId,
     });
+    options.onProgress?.(pieces.length, pieces.length);
+
+    const chunks = pieces.map(({ chapter, chunk, summary }, i) => ({
+      id: summary ? `${chapter.id}:summary` : `${chapter.id}:${chunk.index}`,
+      chapterId: chapter.id,
+      chunkIndex: chunk.index,
+      start: chunk.start,
+      end: chunk.end,
+      content: chunk.content,
+      vector: encodeVector(vectors[i]),
+      ...(summary && { summary: true }),
+    }));
+    return { chunks, dimensions: vectors[0]?.length ?? 0 };
   }
 
   /**
-   * 索引章节内容
+   * 计算在某个向量空间下需要重新生成向量的章节和可沿用的片段
+   *
+   * @param partial 只更新传入的章节，其余章节保持原样
    */
-  indexChapter(novelId: string, chapterId: string, chapterTitle: string, content: string): void {
-    if (!content.trim()) return;
+  private planIndex(
+    existing: NovelVectorIndex | null,
+    provider: EmbeddingProvider,
+    chapters: IndexableChapter[],
+    partial: boolean
+  ) {
+    // 向量空间变了（换了服务商或模型）就整本重建
+    const base = existing?.embeddingKey === provider.key ? existing : null;
+    const previous = base?.chapters ?? {};
+    const currentIds = new Set(chapters.map(chapter => chapter.id));
+    const toEmbed = chapters.filter(chapter => previous[chapter.id]?.hash !== this.chapterHash(chapter));
+    const embedIds = new Set(toEmbed.map(chapter => chapter.id));
+    const keep = (chapterId: string) => !embedIds.has(chapterId) && (partial || currentIds.has(chapterId));
+
+    // 部分更新且向量空间变了时，未传入的章节没有可用片段，不记入索引，下次整本索引时补上
+    const metadata: NovelVectorIndex['chapters'] = partial ? { ...previous } : {};
+    chapters.forEach(chapter => {
+      metadata[chapter.id] = { hash: this.chapterHash(chapter), title: chapter.title };
+    });
 
-    // 删除该章节的旧记忆
-    this.memories = this.memories.filter(m => !(m.novelId === novelId && m.chapterId === chapterId));
+    return {
+      base,
+      toEmbed,
+      metadata,
+      keptChunks: (base?.chunks ?? []).filter(chunk => keep(chunk.chapterId)),
+      removedChapters: partial ? [] : Object.keys(previous).filter(id => !currentIds.has(id)),
+      titleChanged: chapters.some(chapter => previous[chapter.id] && previous[chapter.id].title !== chapter.title),
+    };
+  }
 
-    // 按段落分割，过滤短段落
-    const segments = content.split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 10);
+  private async indexNow(
+    novelId: string,
+    chapters: IndexableChapter[],
+    options: IndexOptions,
+    partial: boolean
+  ): Promise<IndexReport> {
+    let provider = this.resolveProvider();
+    const existing = await this.store.load(novelId);
+    let plan = this.planIndex(existing, provider, chapters, partial);
+
+    const report: IndexReport = {
+      indexedChapters: plan.toEmbed.map(chapter => chapter.id),
+      removedChapters: plan.removedChapters,
+      embeddedChunks: 0,
+      embeddingKey: provider.key,
+      fellBackToLocal: false,
+      staleChapters: [],
+    };
+    if (plan.base && plan.toEmbed.length === 0 && plan.removedChapters.length === 0 && !plan.titleChanged) {
+      return report;
+    }
 
-    if (segments.length === 0) return;
+    let embedded: { chunks: StoredChunk[]; dimensions: number };
+    try {
+      embedded = await this.embedChapters(novelId, plan.toEmbed, provider, options);
+    } catch (error) {
+      if (provider.local || options.signal?.aborted) throw error;
+      // 已有远程索引时，一次失败（离线、限流）不值得整本换成本地向量重建
+      if (existing && existing.embeddingKey !== localEmbeddingProvider.key) {
+        console.warn('[RAG] 远程向量生成失败，保留现有索引:', error);
+        return this.keepStaleIndex(existing, chapters, partial, report);
+      }
+      // 还没有远程索引时改用本地向量，索引内始终只有一个向量空间
+      console.warn('[RAG] 远程向量生成失败，改用本地向量:', error);
+      provider = localEmbeddingProvider;
+      plan = this.planIndex(existing, provider, chapters, partial);
+      embedded = await this.embedChapters(novelId, plan.toEmbed, provider, options);
+      report.indexedChapters = plan.toEmbed.map(chapter => chapter.id);
+      report.embeddingKey = provider.key;
+      report.fellBackToLocal = true;
+    }
 
-    // 创建新的记忆条目
-    const newEntries: MemoryEntry[] = segments.map((segment, index) => ({
-      id: `${novelId}_${chapterId}_${index}`,
-      novelId,
-      chapterId,
-      chapterTitle,
-      content: segment,
-      lineIndex: index,
-      createdAt: new Date().toISOString(),
-    }));
+    const index = createEmptyIndex(novelId, provider.key, embedded.dimensions || plan.base?.dimensions || 0);
+    index.chapters = plan.metadata;
+    const order = new Map(Object.keys(index.chapters).map((id, i) => [id, i]));
+    index.chunks = [...plan.keptChunks, ...embedded.chunks].sort((a, b) =>
+      (order.get(a.chapterId)! - order.get(b.chapterId)!) || a.chunkIndex - b.chunkIndex
+    );
+    report.embeddedChunks = embedded.chunks.length;
 
-    this.memories.push(...newEntries);
+    await this.store.save(index);
+    console.log(`[RAG] 索引更新：${report.indexedChapters.length} 章重新索引，${report.embeddedChunks} 个片段`);
+    return report;
+  }
 
-    // 重建词汇表（增量更新会更高效，但这里简化处理）
-    this.rebuildVocabulary();
-    this.saveToStorage();
+  /**
+   * 远程向量生成失败时保留现有索引：移除已删除的章节、更新标题，
+   * 变化的章节沿用原有片段和哈希，下次索引时重新生成
+   */
+  private async keepStaleIndex(
+    existing: NovelVectorIndex,
+    chapters: IndexableChapter[],
+    partial: boolean,
+    report: IndexReport
+  ): Promise<IndexReport> {
+    const currentIds = new Set(chapters.map(chapter => chapter.id));
+    const keep = (chapterId: string) => partial || currentIds.has(chapterId);
+    const metadata: NovelVectorIndex['chapters'] = {};
+    Object.entries(existing.chapters).forEach(([id, chapter]) => {
+      if (keep(id)) metadata[id] = chapter;
+    });
+    chapters.forEach(chapter => {
+      if (metadata[chapter.id]) metadata[chapter.id] = { ...metadata[chapter.id], title: chapter.title };
+    });
 
-    console.log(`[RAG] 已记忆章节 "${chapterTitle}" (${newEntries.length} 条)`);
+    await this.store.save({
+      ...existing,
+      chapters: metadata,
+      chunks: existing.chunks.filter(chunk => keep(chunk.chapterId)),
+      updatedAt: new Date().toISOString(),
+    });
+    return {
+      ...report,
+      indexedChapters: [],
+      removedChapters: Object.keys(existing.chapters).filter(id => !keep(id)),
+      staleChapters: report.indexedChapters,
+      embeddingKey: existing.embeddingKey,
+    };
   }
 
   /**
-   * 索引整本小说
+   * 索引整本小说（增量）
+   *
+   * 只有新增或正文变化的章节会重新切块、生成向量，已删除的章节从索引移除。
    */
-  indexNovel(novelId: string, chapters: { id: string; title: string; content: string }[]): void {
-    console.log(`[RAG] 开始索引小说，共 ${chapters.length} 章...`);
-
-    // 清除该小说的所有旧记忆
-    this.memories = this.memories.filter(m => m.novelId !== novelId);
+  indexNovel(novelId: string, chapters: IndexableChapter[], options: IndexOptions = {}): Promise<IndexReport> {
+    return this.exclusive(novelId, () => this.indexNow(novelId, chapters, options, false));
+  }
 
-    // 索引所有章节
-    chapters.forEach(chapter => {
-      const segments = chapter.content.split('\n')
-        .map(line => line.trim())
-        .filter(line => line.length > 10);
-
-      segments.forEach((segment, index) => {
-        this.memories.push({
-          id: `${novelId}_${chapter.id}_${index}`,
-          novelId,
-          chapterId: chapter.id,
-          chapterTitle: chapter.title,
-          content: segment,
-          lineIndex: index,
-          createdAt: new Date().toISOString(),
-        });
-      });
-    });
+  /**
+   * 索引单个章节，其余章节保持原样
+   */
+  indexChapter(novelId: string, chapter: IndexableChapter, options: IndexOptions = {}): Promise<IndexReport> {
+    return this.exclusive(novelId, () => this.indexNow(novelId, [chapter], options, true));
+  }
 
-    this.rebuildVocabulary();
-    this.saveToStorage();
+  private getKeywordIndex(index: NovelVectorIndex): Bm25Index {
+    const cached = this.keywordIndexes.get(index.novelId);
+    if (cached && cached.source === index) return cached.bm25;
+    const bm25 = new Bm25Index(index.chunks.map(chunk => chunk.content));
+    this.keywordIndexes.set(index.novelId, { source: index, bm25 });
+    return bm25;
+  }
 
-    console.log(`[RAG] 索引完成，共 ${this.memories.length} 条记忆`);
+  /**
+   * 查询向量；向量空间与索引不一致或生成失败时返回 null（只用关键词检索）
+   */
+  private async embedQuery(query: string, index: NovelVectorIndex): Promise<number[] | null> {
+    const provider = this.resolveProvider();
+    const candidates = provider.key === index.embeddingKey
+      ? [provider]
+      : localEmbeddingProvider.key === index.embeddingKey ? [localEmbeddingProvider] : [];
+    for (const candidate of candidates) {
+      try {
+        const [vector] = await candidate.embed([query], { inputType: 'query', novelId: index.novelId });
+        if (vector?.length === index.dimensions) return vector;
+      } catch (error) {
+        console.warn('[RAG] 查询向量生成失败，仅使用关键词检索:', error);
+      }
+    }
+    return null;
   }
 
   /**
-   * 搜索相关上下文
+   * 搜索相关上下文（BM25 + 向量混合排序）
+   *
+   * 需要先调用 indexNovel，未索引的作品返回空结果。
    */
-  searchContext(query: string, novelId: string, topK: number = 5): RetrievalResult[] {
-    if (!query.trim() || this.memories.length === 0) return [];
-
-    // 过滤当前小说的记忆
-    const novelMemories = this.memories.filter(m => m.novelId === novelId);
-    if (novelMemories.length === 0) return [];
-
-    // 计算查询向量
-    const queryTokens = tokenize(query);
-    const queryVector = computeTfIdf(queryTokens, this.vocabulary, this.idf);
-
-    // 计算相似度
-    const results: RetrievalResult[] = novelMemories
-      .filter(m => m.vector && m.vector.length > 0)
-      .map(entry => ({
-        entry,
-        score: cosineSimilarity(queryVector, entry.vector!),
-      }))
-      .filter(r => r.score > 0.1) // 过滤低相关性结果
+  async searchContext(query: string, novelId: string, topK: number = 5): Promise<RetrievalResult[]> {
+    if (!query.trim()) return [];
+    await this.pending.get(novelId)?.catch(() => undefined);
+
+    const index = await this.store.load(novelId);
+    if (!index || index.chunks.length === 0) return [];
+
+    const keywordScores = this.getKeywordIndex(index).score(query);
+    const queryVector = await this.embedQuery(query, index);
+    const vectorScores = queryVector
+      ? index.chunks.map(chunk => cosineSimilarity(queryVector, decodeVector(chunk.vector)))
+      : null;
+
+    const results: RetrievalResult[] = fuseScores(keywordScores, vectorScores)
+      .map((scores, i) => {
+        const chunk = index.chunks[i];
+        return {
+          entry: {
+            id: `${novelId}_${chunk.id}`,
+            novelId,
+            chapterId: chunk.chapterId,
+            chapterTitle: index.chapters[chunk.chapterId]?.title ?? '',
+            content: chunk.content,
+            chunkIndex: chunk.chunkIndex,
+            start: chunk.start,
+            end: chunk.end,
+            ...(chunk.summary && { summary: true }),
+          },
+          ...scores,
+        };
+      })
+      .filter(r => r.score >= this.minScore)
       .sort((a, b) => b.score - a.score)
       .slice(0, topK);
 
@@ -285,7 +440,7 @@ class RagService {
   formatContextForPrompt(results: RetrievalResult[]): string {
     if (results.length === 0) return '';
 
-    const contextLines = results.map((r, i) =>
+    const contextLines = results.map(r =>
       `[${r.entry.chapterTitle}] ${r.entry.content}`
     );
 
@@ -298,37 +453,27 @@ ${contextLines.join('\n')}
   /**
    * 删除小说的所有记忆
    */
-  deleteNovelMemory(novelId: string): void {
-    const before = this.memories.length;
-    this.memories = this.memories.filter(m => m.novelId !== novelId);
-    this.rebuildVocabulary();
-    this.saveToStorage();
-    console.log(`[RAG] 已清除小说 ${novelId} 的 ${before - this.memories.length} 条记忆`);
+  async deleteNovelMemory(novelId: string): Promise<void> {
+    await this.exclusive(novelId, async () => {
+      await this.store.remove(novelId);
+      this.keywordIndexes.delete(novelId);
+    });
+    console.log(`[RAG] 已清除小说 ${novelId} 的记忆`);
   }
 
   /**
    * 获取小说的记忆统计
    */
-  getNovelMemoryStats(novelId: string): { totalEntries: number; chapters: string[] } {
-    const novelMemories = this.memories.filter(m => m.novelId === novelId);
-    const chapters = [...new Set(novelMemories.map(m => m.chapterTitle))];
+  async getNovelMemoryStats(novelId: string): Promise<{ totalEntries: number; chapters: string[]; embeddingKey: string | null }> {
+    const index = await this.store.load(novelId);
+    if (!index) return { totalEntries: 0, chapters: [], embeddingKey: null };
+    const chapterIds = [...new Set(index.chunks.map(chunk => chunk.chapterId))];
     return {
-      totalEntries: novelMemories.length,
-      chapters,
+      totalEntries: index.chunks.length,
+      chapters: chapterIds.map(id => index.chapters[id]?.title ?? ''),
+      embeddingKey: index.embeddingKey,
     };
   }
-
-  /**
-   * 清除所有记忆
-   */
-  clearAll(): void {
-    this.memories = [];
-    this.vocabulary.clear();
-    this.idf.clear();
-    this.documentFrequency.clear();
-    this.saveToStorage();
-    console.log('[RAG] 已清除所有记忆');
-  }
 }
 
 // 导出单例
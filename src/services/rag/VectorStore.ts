@@ -0,0 +1,148 @@
+/**
+ * @fileoverview 向量索引存储
+ * @module services/rag/VectorStore
+ * @description 每部作品一份检索索引，保存在 IndexedDB（StorageService）
+ *
+ * 向量量化为 int8 后以 base64 保存，体积约为 JSON 浮点数组的 1/10，
+ * 单位向量量化后余弦相似度的误差在 1% 以内。
+ */
+
+import { storageService } from '../storage/StorageService';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 索引中的一个片段
+ */
+export interface StoredChunk {
+  /** `${chapterId}:${chunkIndex}` */
+  id: string;
+  chapterId: string;
+  chunkIndex: number;
+  start: number;
+  end: number;
+  content: string;
+  /** int8 量化向量（base64） */
+  vector: string;
+  /** 章节摘要片段（chunkIndex 为 -1，不对应正文位置） */
+  summary?: boolean;
+}
+
+/**
+ * 已索引章节的记录
+ */
+export interface IndexedChapter {
+  /** 正文哈希，变化时重新切块和生成向量 */
+  hash: string;
+  title: string;
+}
+
+/**
+ * 一部作品的检索索引
+ */
+export interface NovelVectorIndex {
+  version: number;
+  novelId: string;
+  /** 生成向量所用的向量空间（EmbeddingProvider.key） */
+  embeddingKey: string;
+  dimensions: number;
+  chapters: Record<string, IndexedChapter>;
+  chunks: StoredChunk[];
+  updatedAt: string;
+}
+
+// ==================== 常量 ====================
+
+export const VECTOR_INDEX_VERSION = 1;
+
+const INDEX_KEY_PREFIX = 'tiandao_rag_index_';
+
+/** 已不再使用的旧版 TF-IDF 记忆（localStorage） */
+export const LEGACY_STORAGE_KEYS = ['tiandao_rag_memory', 'tiandao_rag_vocabulary'];
+
+// ==================== 向量编码 ====================
+
+/**
+ * 单位向量量化为 int8 并编码为 base64
+ */
+export const encodeVector = (vector: ArrayLike<number>): string => {
+  const bytes = new Uint8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    const quantized = Math.round(Math.max(-1, Math.min(1, vector[i])) * 127);
+    bytes[i] = quantized & 0xff;
+  }
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+/**
+ * 解码 encodeVector 的结果，返回值按 1/127 缩放（余弦相似度不受影响）
+ */
+export const decodeVector = (encoded: string): Int8Array => {
+  const binary = atob(encoded);
+  const vector = new Int8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    vector[i] = (binary.charCodeAt(i) << 24) >> 24;
+  }
+  return vector;
+};
+
+// ==================== 存储 ====================
+
+const indexKey = (novelId: string): string => `${INDEX_KEY_PREFIX}${novelId}`;
+
+/**
+ * 创建空索引
+ */
+export const createEmptyIndex = (novelId: string, embeddingKey: string, dimensions: number = 0): NovelVectorIndex => ({
+  version: VECTOR_INDEX_VERSION,
+  novelId,
+  embeddingKey,
+  dimensions,
+  chapters: {},
+  chunks: [],
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * 向量索引存储，读过的索引缓存在内存中
+ */
+export class VectorStore {
+  private readonly cache = new Map<string, NovelVectorIndex | null>();
+
+  /**
+   * 读取作品的索引，不存在或版本不符时返回 null
+   */
+  async load(novelId: string): Promise<NovelVectorIndex | null> {
+    if (this.cache.has(novelId)) {
+      return this.cache.get(novelId) ?? null;
+    }
+    const stored = await storageService.get<NovelVectorIndex | null>(indexKey(novelId), null);
+    const index = stored && stored.version === VECTOR_INDEX_VERSION ? stored : null;
+    this.cache.set(novelId, index);
+    return index;
+  }
+
+  async save(index: NovelVectorIndex): Promise<void> {
+    this.cache.set(index.novelId, index);
+    await storageService.set(indexKey(index.novelId), index);
+  }
+
+  async remove(novelId: string): Promise<void> {
+    this.cache.set(novelId, null);
+    await storageService.remove(indexKey(novelId));
+  }
+
+  /** 清空内存缓存（不删除已保存的索引） */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /** 已加载过的作品 */
+  getCachedNovelIds(): string[] {
+    return [...this.cache.keys()];
+  }
+}
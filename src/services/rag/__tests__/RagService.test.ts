@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { hashContent } from '../chunking';
+import { createLocalEmbeddingProvider, type EmbeddingProvider } from '../EmbeddingProvider';
+import { RagService } from '../RagService';
+import { VectorStore } from '../VectorStore';
+
+const storedIndexes = new Map<string, unknown>();
+
+vi.mock('../../storage/StorageService', () => ({
+  storageService: {
+    get: async (key: string, defaultValue: unknown) => storedIndexes.has(key) ? storedIndexes.get(key) : defaultValue,
+    set: async (key: string, value: unknown) => { storedIndexes.set(key, value); },
+    remove: async (key: string) => { storedIndexes.delete(key); },
+  },
+}));
+
+/** 记录每次 embed 调用的向量服务 */
+const spyProvider = (key: string = 'spy') => {
+  const local = createLocalEmbeddingProvider(64);
+  const calls: string[][] = [];
+  const provider: EmbeddingProvider = {
+    key,
+    local: false,
+    embed: async texts => {
+      calls.push(texts);
+      return local.embed(texts);
+    },
+  };
+  return { provider, calls };
+};
+
+const failingProvider: EmbeddingProvider = {
+  key: 'remote:broken',
+  local: false,
+  embed: async () => { throw new Error('offline'); },
+};
+
+const chapters = () => [
+  { id: 'c1', title: '第一章 山门', content: '少年在山门外等了一夜，雪落满肩。\n师父推门出来，只问了一句：你为何修道？' },
+  { id: 'c2', title: '第二章 玉佩', content: '临行前，师父把一枚青色玉佩交给少年，说这是他父母留下的唯一遗物。' },
+  { id: 'c3', title: '第三章 酒楼', content: '城里的酒楼今天格外热闹，说书人正讲到剑仙斩蛟的故事。' },
+];
+
+describe('RagService', () => {
+  beforeEach(() => {
+    storedIndexes.clear();
+    localStorage.clear();
+  });
+
+  it('should only re-embed chapters whose content changed', async () => {
+    const { provider, calls } = spyProvider();
+    const service = new RagService({ getEmbeddingProvider: () => provider });
+    const novel = chapters();
+
+    const first = await service.indexNovel('n1', novel);
+    expect(first.indexedChapters).toEqual(['c1', 'c2', 'c3']);
+
+    const unchanged = await service.indexNovel('n1', chapters());
+    expect(unchanged.indexedChapters).toEqual([]);
+    expect(calls).toHaveLength(1);
+
+    const edited = chapters();
+    edited[1] = { ...edited[1], content: `${edited[1].content}少年把玉佩贴身收好。` };
+    const second = await service.indexNovel('n1', edited.slice(0, 2));
+
+    expect(second.indexedChapters).toEqual(['c2']);
+    expect(second.removedChapters).toEqual(['c3']);
+    expect(calls[1].every(text => text.includes('玉佩'))).toBe(true);
+    expect((await service.getNovelMemoryStats('n1')).chapters).toEqual(['第一章 山门', '第二章 玉佩']);
+  });
+
+  it('should rebuild the index when the embedding model changes', async () => {
+    let current = spyProvider('model-a');
+    const service = new RagService({ getEmbeddingProvider: () => current.provider });
+    await service.indexNovel('n1', chapters());
+
+    current = spyProvider('model-b');
+    const report = await service.indexNovel('n1', chapters());
+
+    expect(report.indexedChapters).toHaveLength(3);
+    expect((await service.getNovelMemoryStats('n1')).embeddingKey).toBe('model-b');
+  });
+
+  it('should find passages by keyword and rank them first', async () => {
+    const { provider } = spyProvider();
+    const service = new RagService({ getEmbeddingProvider: () => provider });
+    await service.indexNovel('n1', chapters());
+
+    const results = await service.searchContext('玉佩是谁留下的', 'n1', 2);
+
+    expect(results[0].entry).toMatchObject({ chapterId: 'c2', chapterTitle: '第二章 玉佩' });
+    expect(results[0].keywordScore).toBe(1);
+    expect(results[0].vectorScore).toBeGreaterThan(0);
+    expect(service.formatContextForPrompt(results)).toContain('[第二章 玉佩]');
+    expect(await service.searchContext('玉佩', 'unknown')).toEqual([]);
+  });
+
+  it('should fall back to local vectors when the remote provider fails', async () => {
+    const service = new RagService({ getEmbeddingProvider: () => failingProvider });
+    const report = await service.indexNovel('n1', chapters());
+
+    expect(report.fellBackToLocal).toBe(true);
+    expect(report.embeddingKey).toMatch(/^local-hash-/);
+
+    const results = await service.searchContext('师父的玉佩', 'n1', 1);
+    expect(results[0].entry.chapterId).toBe('c2');
+    expect(results[0].vectorScore).toBeGreaterThan(0);
+  });
+
+  it('should keep an existing remote index and retry changed chapters after a remote failure', async () => {
+    const { provider, calls } = spyProvider();
+    let offline = false;
+    const flaky: EmbeddingProvider = {
+      ...provider,
+      embed: async (texts, options) => {
+        if (offline) throw new Error('rate limited');
+        return provider.embed(texts, options);
+      },
+    };
+    const service = new RagService({ getEmbeddingProvider: () => flaky });
+    await service.indexNovel('n1', chapters());
+
+    const edited = chapters();
+    edited[1] = { ...edited[1], content: `${edited[1].content}少年把玉佩贴身收好。` };
+    offline = true;
+    const failed = await service.indexNovel('n1', edited.slice(0, 2));
+
+    expect(failed).toMatchObject({ fellBackToLocal: false, embeddingKey: 'spy', indexedChapters: [], staleChapters: ['c2'], removedChapters: ['c3'] });
+    const stats = await service.getNovelMemoryStats('n1');
+    expect(stats.embeddingKey).toBe('spy');
+    expect(stats.chapters).toEqual(['第一章 山门', '第二章 玉佩']);
+
+    offline = false;
+    const retried = await service.indexNovel('n1', edited.slice(0, 2));
+    expect(retried.indexedChapters).toEqual(['c2']);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should update a single chapter and keep the rest', async () => {
+    const { provider, calls } = spyProvider();
+    const service = new RagService({ getEmbeddingProvider: () => provider });
+    await service.indexNovel('n1', chapters());
+
+    const report = await service.indexChapter('n1', { id: 'c4', title: '第四章 下山', content: '少年背着剑下山，回头望了一眼云里的山门。' });
+
+    expect(report.indexedChapters).toEqual(['c4']);
+    expect(calls[1]).toHaveLength(1);
+    expect((await service.getNovelMemoryStats('n1')).chapters).toHaveLength(4);
+  });
+
+  it('should index fresh chapter summaries as an extra passage', async () => {
+    const { provider, calls } = spyProvider();
+    const service = new RagService({ getEmbeddingProvider: () => provider });
+    const [first, second] = chapters();
+    await service.indexNovel('n1', [first, second]);
+
+    const summary = {
+      brief: '师父赠予少年玉佩',
+      detailed: '临行前，师父把父母遗留的青色玉佩交给少年。',
+      keyCharacters: ['少年', '师父'],
+      keyEvents: ['赠送玉佩'],
+      keyLocations: [],
+      plotTags: ['身世'],
+      contentHash: hashContent(second.content),
+      generatedAt: '2026-01-01T00:00:00.000Z',
+    };
+    const report = await service.indexNovel('n1', [first, { ...second, summary }]);
+
+    expect(report.indexedChapters).toEqual(['c2']);
+    expect(calls[1][0]).toContain('师父赠予少年玉佩');
+    const results = await service.searchContext('父母遗留的玉佩', 'n1', 5);
+    expect(results.find(r => r.entry.summary)?.entry).toMatchObject({ id: 'n1_c2:summary', chunkIndex: -1 });
+
+    // 正文改动后摘要过期，不再索引
+    const stale = { ...second, content: `${second.content}少年收好玉佩。`, summary };
+    await service.indexNovel('n1', [first, stale]);
+    expect((await service.searchContext('父母遗留的玉佩', 'n1', 5)).some(r => r.entry.summary)).toBe(false);
+  });
+
+  it('should persist indexes and drop the legacy memory', async () => {
+    localStorage.setItem('tiandao_rag_memory', '[]');
+    const { provider } = spyProvider();
+    const service = new RagService({ getEmbeddingProvider: () => provider });
+    await service.indexNovel('n1', chapters());
+
+    expect(localStorage.getItem('tiandao_rag_memory')).toBeNull();
+    const reloaded = new RagService({ getEmbeddingProvider: () => provider, store: new VectorStore() });
+    expect((await reloaded.getNovelMemoryStats('n1')).totalEntries).toBeGreaterThan(0);
+
+    await reloaded.deleteNovelMemory('n1');
+    expect(await reloaded.searchContext('玉佩', 'n1')).toEqual([]);
+  });
+});
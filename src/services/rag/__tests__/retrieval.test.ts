@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UsageService } from '../../usage/UsageService';
+import { chunkText, hashContent } from '../chunking';
+import { createLocalEmbeddingProvider, createRemoteEmbeddingProvider } from '../EmbeddingProvider';
+import { Bm25Index, cosineSimilarity, fuseScores, tokenize } from '../ranking';
+import { decodeVector, encodeVector } from '../VectorStore';
+
+const paragraph = (label: string, length: number) => `${label}${'山'.repeat(length - label.length - 1)}。`;
+
+describe('chunkText', () => {
+  it('should group paragraphs up to the target size and overlap neighbours', () => {
+    const content = ['甲', '乙', '丙', '丁', '戊'].map(label => paragraph(label, 60)).join('\n');
+    const chunks = chunkText(content, { targetSize: 150, maxSize: 300, overlap: 70 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(content.slice(chunk.start, chunk.end)).toBe(chunk.content));
+    // 每个片段的开头是上一个片段的最后一段
+    expect(chunks[1].content.startsWith(chunks[0].content.split('\n').pop()!)).toBe(true);
+    expect(chunks[chunks.length - 1].content.endsWith(paragraph('戊', 60))).toBe(true);
+  });
+
+  it('should always cut at scene breaks without overlap', () => {
+    const content = `${paragraph('前', 40)}\n\n* * *\n\n${paragraph('后', 40)}`;
+    const chunks = chunkText(content, { targetSize: 400 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([paragraph('前', 40), paragraph('后', 40)]);
+  });
+
+  it('should split overlong paragraphs by sentence', () => {
+    const content = Array.from({ length: 10 }, (_, i) => paragraph(`句${i}`, 50)).join('');
+    const chunks = chunkText(content, { targetSize: 120, maxSize: 160, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach(chunk => expect(chunk.content.length).toBeLessThanOrEqual(160));
+  });
+
+  it('should hash content deterministically', () => {
+    expect(hashContent('第一章')).toBe(hashContent('第一章'));
+    expect(hashContent('第一章')).not.toBe(hashContent('第二章'));
+  });
+});
+
+describe('ranking', () => {
+  it('should tokenize Chinese into characters and bigrams', () => {
+    expect(tokenize('玉佩 Jade 42')).toEqual(['玉', '玉佩', '佩', 'jade', '42']);
+  });
+
+  it('should rank documents containing rare query terms first', () => {
+    const index = new Bm25Index([
+      '少年在山门外等了一夜',
+      '师父把玉佩交给少年',
+      '山门外的雪下了一夜',
+    ]);
+    const scores = index.score('玉佩');
+
+    expect(scores[1]).toBeGreaterThan(0);
+    expect(scores[0]).toBe(0);
+    expect(scores[2]).toBe(0);
+  });
+
+  it('should blend normalized keyword scores with vector scores', () => {
+    const fused = fuseScores([4, 2, 0], [0.1, 0.9, -0.5], 0.5);
+
+    expect(fused[0]).toMatchObject({ keywordScore: 1, vectorScore: 0.1 });
+    expect(fused[1].score).toBeCloseTo(0.7);
+    expect(fused[2].score).toBe(0);
+    expect(fuseScores([4, 2], null).map(s => s.score)).toEqual([1, 0.5]);
+  });
+});
+
+describe('local embedding', () => {
+  it('should produce deterministic unit vectors that favour similar text', async () => {
+    const provider = createLocalEmbeddingProvider(256);
+    const [query, similar, unrelated, again] = await provider.embed([
+      '师父留下的玉佩',
+      '他摸着师父给的玉佩',
+      '城里的酒楼今天很热闹',
+      '师父留下的玉佩',
+    ]);
+
+    expect(query).toHaveLength(256);
+    expect(query).toEqual(again);
+    expect(cosineSimilarity(query, query)).toBeCloseTo(1);
+    expect(cosineSimilarity(query, similar)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('should survive int8 quantization', async () => {
+    const [a, b] = await createLocalEmbeddingProvider().embed(['山门外的雪', '山门外下着雪']);
+    const exact = cosineSimilarity(a, b);
+
+    expect(cosineSimilarity(decodeVector(encodeVector(a)), decodeVector(encodeVector(b)))).toBeCloseTo(exact, 1);
+  });
+});
+
+describe('remote embedding', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  const cohere = createRemoteEmbeddingProvider({
+    providerId: 'cohere',
+    model: 'embed-multilingual-v3.0',
+    apiKey: 'key',
+    baseUrl: 'https://api.cohere.ai/v1',
+  });
+
+  it('should tell Cohere whether it is embedding documents or a query', async () => {
+    const fetchSpy = vi.fn(async (_url: string, init: RequestInit) => {
+      const { texts } = JSON.parse(init.body as string);
+      return new Response(JSON.stringify({ embeddings: texts.map(() => [3, 4]) }));
+    });
+    vi.stubGlobal('fetch', fetchSpy);
+
+    await cohere.embed(['山门外的雪']);
+    await cohere.embed(['雪'], { inputType: 'query' });
+
+    const inputTypes = fetchSpy.mock.calls.map(([, init]) => JSON.parse(init.body as string).input_type);
+    expect(inputTypes).toEqual(['search_document', 'search_query']);
+  });
+
+  it('should split requests to the provider\'s batch limit', async () => {
+    const fetchSpy = vi.fn(async (_url: string, init: RequestInit) => {
+      const { input } = JSON.parse(init.body as string);
+      return new Response(JSON.stringify({ data: input.map((_: string, index: number) => ({ index, embedding: [1, 0] })) }));
+    });
+    vi.stubGlobal('fetch', fetchSpy);
+    const aliyun = createRemoteEmbeddingProvider({
+      providerId: 'aliyun',
+      model: 'text-embedding-v3',
+      apiKey: 'key',
+      baseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+    });
+
+    const vectors = await aliyun.embed(Array.from({ length: 25 }, (_, i) => `第${i}段`));
+
+    expect(vectors).toHaveLength(25);
+    expect(fetchSpy.mock.calls.map(([, init]) => JSON.parse(init.body as string).input.length)).toEqual([10, 10, 5]);
+  });
+
+  it('should record reported or estimated token usage', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      embeddings: [[1, 0]],
+      meta: { billed_units: { input_tokens: 7 } },
+    }))));
+    await cohere.embed(['山门外的雪'], { novelId: 'n1' });
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ embeddings: [[1, 0]] }))));
+    await cohere.embed(['山门外的雪']);
+
+    expect(UsageService.getRecords()).toEqual([
+      expect.objectContaining({ feature: 'embedding', novelId: 'n1', promptTokens: 7, completionTokens: 0, estimated: false }),
+      expect.objectContaining({ feature: 'embedding', promptTokens: 5, estimated: true }),
+    ]);
+  });
+});
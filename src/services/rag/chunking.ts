@@ -0,0 +1,170 @@
+/**
+ * @fileoverview 章节切块
+ * @module services/rag/chunking
+ * @description 把章节正文切成段落、场景大小的检索片段，相邻片段有少量重叠
+ *
+ * - 以段落为单位累积到目标长度；过长的段落按句子再切
+ * - 场景分隔行（***、---、◆ 等）总是切断，且不跨场景重叠
+ * - 新片段以上一片段结尾的若干段落 / 句子开头，避免关键信息落在切口上
+ */
+
+// ==================== 类型定义 ====================
+
+export interface TextChunk {
+  /** 在章节中的序号 */
+  index: number;
+  /** 在正文中的起止位置 */
+  start: number;
+  end: number;
+  content: string;
+}
+
+export interface ChunkOptions {
+  /** 片段达到该长度即结束，默认 400 字 */
+  targetSize?: number;
+  /** 片段最大长度，默认 800 字 */
+  maxSize?: number;
+  /** 相邻片段的最大重叠长度，默认 100 字 */
+  overlap?: number;
+  /** 短于该长度的片段丢弃，默认 10 字 */
+  minSize?: number;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  sceneBreak?: boolean;
+}
+
+// ==================== 常量 ====================
+
+const DEFAULT_CHUNK_OPTIONS: Required<ChunkOptions> = {
+  targetSize: 400,
+  maxSize: 800,
+  overlap: 100,
+  minSize: 10,
+};
+
+/** 场景分隔行：只由 * - = ~ ◆ ◇ ※ # 等符号组成 */
+const SCENE_BREAK_PATTERN = /^[\s*＊\-—=~～◆◇※#·•]{3,}$/;
+
+/** 句末标点（含紧随的引号） */
+const SENTENCE_END_PATTERN = /[。！？!?…；;]+[”’」』"')）]*/g;
+
+// ==================== 工具函数 ====================
+
+/**
+ * 正文哈希（FNV-1a 32 位 + 长度），用于判断章节是否需要重新索引
+ */
+export const hashContent = (content: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${content.length}`;
+};
+
+/**
+ * 把一段文字按句子切开，单句仍超长时按长度硬切
+ */
+const splitSentences = (content: string, start: number, end: number, maxSize: number): Segment[] => {
+  const segments: Segment[] = [];
+  const text = content.slice(start, end);
+  let from = 0;
+  const push = (to: number) => {
+    for (let s = from; s < to; s += maxSize) {
+      segments.push({ start: start + s, end: start + Math.min(to, s + maxSize) });
+    }
+    from = to;
+  };
+  for (const match of text.matchAll(SENTENCE_END_PATTERN)) {
+    push(match.index! + match[0].length);
+  }
+  if (from < text.length) push(text.length);
+  return segments;
+};
+
+/**
+ * 切出段落（过长的段落再按句子切）和场景分隔
+ */
+const splitSegments = (content: string, maxSize: number): Segment[] => {
+  const segments: Segment[] = [];
+  let offset = 0;
+  for (const line of content.split('\n')) {
+    const start = offset + (line.length - line.trimStart().length);
+    const end = offset + line.trimEnd().length;
+    offset += line.length + 1;
+    if (end <= start) continue;
+
+    if (SCENE_BREAK_PATTERN.test(line.trim())) {
+      segments.push({ start, end, sceneBreak: true });
+    } else if (end - start > maxSize) {
+      segments.push(...splitSentences(content, start, end, maxSize));
+    } else {
+      segments.push({ start, end });
+    }
+  }
+  return segments;
+};
+
+// ==================== 切块 ====================
+
+/**
+ * 把章节正文切成检索片段
+ *
+ * @example
+ * chunkText('第一段……\n第二段……\n***\n另一个场景……', { targetSize: 300 });
+ */
+export const chunkText = (content: string, options: ChunkOptions = {}): TextChunk[] => {
+  const { targetSize, maxSize, overlap, minSize } = { ...DEFAULT_CHUNK_OPTIONS, ...options };
+  const chunks: TextChunk[] = [];
+  let current: Segment[] = [];
+  /** current 开头有几个段是从上一片段带过来的重叠 */
+  let carried = 0;
+
+  const length = (segments: Segment[]) =>
+    segments.length === 0 ? 0 : segments[segments.length - 1].end - segments[0].start;
+
+  const flush = (keepOverlap: boolean) => {
+    if (current.length > carried) {
+      const start = current[0].start;
+      const end = current[current.length - 1].end;
+      if (end - start >= minSize) {
+        chunks.push({ index: chunks.length, start, end, content: content.slice(start, end) });
+      }
+    }
+
+    const tail: Segment[] = [];
+    if (keepOverlap) {
+      for (let i = current.length - 1; i > 0; i--) {
+        if (current[current.length - 1].end - current[i].start > overlap) break;
+        tail.unshift(current[i]);
+      }
+    }
+    current = tail;
+    carried = tail.length;
+  };
+
+  for (const segment of splitSegments(content, maxSize)) {
+    if (segment.sceneBreak) {
+      flush(false);
+      continue;
+    }
+    if (current.length > carried && segment.end - current[0].start > maxSize) {
+      flush(true);
+    }
+    // 带过来的重叠加上新段仍超长时放弃重叠
+    if (current.length > 0 && segment.end - current[0].start > maxSize) {
+      current = [];
+      carried = 0;
+    }
+    current.push(segment);
+    if (length(current) >= targetSize) {
+      flush(true);
+    }
+  }
+  flush(false);
+
+  return chunks;
+};
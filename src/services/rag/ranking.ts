@@ -0,0 +1,156 @@
+/**
+ * @fileoverview 检索排序
+ * @module services/rag/ranking
+ * @description BM25 关键词打分、向量相似度，以及两者的混合排序
+ *
+ * 关键词检索擅长人名、地名、道具名等专有名词，向量检索擅长意思相近但用词不同的情节，
+ * 两者分数归一化后加权相加。
+ */
+
+// ==================== 类型定义 ====================
+
+export interface Bm25Options {
+  /** 词频饱和参数，默认 1.2 */
+  k1?: number;
+  /** 长度归一化参数，默认 0.75 */
+  b?: number;
+}
+
+export interface HybridScore {
+  /** 混合分数（0~1） */
+  score: number;
+  /** 归一化后的 BM25 分数（0~1） */
+  keywordScore: number;
+  /** 余弦相似度，没有向量时为 0 */
+  vectorScore: number;
+}
+
+// ==================== 常量 ====================
+
+/** 有向量时向量分数的权重 */
+export const DEFAULT_VECTOR_WEIGHT = 0.6;
+
+// ==================== 分词 ====================
+
+/**
+ * 检索分词：中文取单字和相邻双字，英文按单词（小写），数字整体
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  const runs = text.toLowerCase().match(/[\u4e00-\u9fa5]+|[a-z]+|[0-9]+/g) ?? [];
+  for (const run of runs) {
+    if (!/[\u4e00-\u9fa5]/.test(run)) {
+      tokens.push(run);
+      continue;
+    }
+    for (let i = 0; i < run.length; i++) {
+      tokens.push(run[i]);
+      if (i + 1 < run.length) tokens.push(run.slice(i, i + 2));
+    }
+  }
+  return tokens;
+};
+
+// ==================== 相似度 ====================
+
+/**
+ * 余弦相似度，维度不同时为 0
+ */
+export const cosineSimilarity = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+// ==================== BM25 ====================
+
+/**
+ * BM25 倒排索引，文档一次性传入，查询时只遍历含查询词的文档
+ */
+export class Bm25Index {
+  private readonly postings = new Map<string, Map<number, number>>();
+  private readonly lengths: number[];
+  private readonly averageLength: number;
+  private readonly k1: number;
+  private readonly b: number;
+
+  constructor(documents: readonly string[], options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.lengths = documents.map((document, docIndex) => {
+      const tokens = tokenize(document);
+      for (const token of tokens) {
+        let posting = this.postings.get(token);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(token, posting);
+        }
+        posting.set(docIndex, (posting.get(docIndex) ?? 0) + 1);
+      }
+      return tokens.length;
+    });
+    const total = this.lengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = this.lengths.length > 0 ? total / this.lengths.length : 0;
+  }
+
+  get size(): number {
+    return this.lengths.length;
+  }
+
+  /**
+   * 计算查询与每个文档的 BM25 分数，顺序与构造时的文档一致
+   */
+  score(query: string): number[] {
+    const scores = new Array<number>(this.lengths.length).fill(0);
+    const documentCount = this.lengths.length;
+    for (const token of new Set(tokenize(query))) {
+      const posting = this.postings.get(token);
+      if (!posting) continue;
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+      posting.forEach((frequency, docIndex) => {
+        const lengthRatio = this.averageLength > 0 ? this.lengths[docIndex] / this.averageLength : 1;
+        scores[docIndex] += idf * (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * lengthRatio));
+      });
+    }
+    return scores;
+  }
+}
+
+// ==================== 混合排序 ====================
+
+/**
+ * 混合关键词分数和向量分数
+ *
+ * BM25 分数按本次查询的最高分归一化；没有向量分数（离线或向量空间不一致）时只看关键词。
+ *
+ * @param keywordScores BM25 原始分数
+ * @param vectorScores 余弦相似度，与 keywordScores 一一对应；null 表示不使用向量
+ */
+export const fuseScores = (
+  keywordScores: readonly number[],
+  vectorScores: readonly number[] | null,
+  vectorWeight: number = DEFAULT_VECTOR_WEIGHT
+): HybridScore[] => {
+  const maxKeyword = Math.max(0, ...keywordScores);
+  const weight = vectorScores ? vectorWeight : 0;
+  return keywordScores.map((raw, i) => {
+    const keywordScore = maxKeyword > 0 ? raw / maxKeyword : 0;
+    const vectorScore = vectorScores ? Math.max(0, vectorScores[i] ?? 0) : 0;
+    return {
+      score: weight * vectorScore + (1 - weight) * keywordScore,
+      keywordScore,
+      vectorScore,
+    };
+  });
+};
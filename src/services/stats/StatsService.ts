@@ -6,6 +6,7 @@
 import { WritingStats, DailyStat, WritingSession } from '../../types/stats';
 import { Novel } from '../../types/novel';
 import { createId } from '../../utils/id';
+import { countWords, getWordCountMode } from '../../utils/wordCount';
 
 const STATS_STORAGE_KEY = 'tiandao_writing_stats';
 const GOALS_STORAGE_KEY = 'tiandao_writing_goals';
@@ -47,13 +48,17 @@ export class StatsService {
    * 计算总字数
    */
   static getTotalWords(novels: Novel[]): number {
-    return novels.reduce((total, novel) => {
-      const novelWords = novel.wordCount || 0;
-      const chaptersWords = (novel.chapters || []).reduce((sum, chapter) => 
-        sum + (chapter.wordCount || 0), 0
-      );
-      return total + Math.max(novelWords, chaptersWords);
-    }, 0);
+    return novels.reduce((total, novel) => total + this.getNovelWords(novel), 0);
+  }
+
+  /**
+   * 按作品的统计口径计算字数，没有章节内容时使用作品记录的字数
+   */
+  static getNovelWords(novel: Novel): number {
+    const chapters = novel.chapters || [];
+    if (chapters.length === 0) return novel.wordCount || 0;
+    const mode = getWordCountMode(novel);
+    return chapters.reduce((sum, chapter) => sum + countWords(chapter.content, mode), 0);
   }
 
   /**
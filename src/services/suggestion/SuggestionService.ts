@@ -0,0 +1,285 @@
+/**
+ * @fileoverview 修订建议（修订模式）
+ * @module services/suggestion/SuggestionService
+ * @description 修订模式下对正文的修改不直接写入，而是记录为一条条待处理的修订建议，
+ * 作者逐条接受或拒绝。
+ *
+ * 每条建议把锚点处的原文替换为新文字：
+ * - 插入：原文为空
+ * - 删除：新文字为空
+ * - 替换：两者都有
+ *
+ * 锚点与批注相同（原文 + 前后文），正文修改后重新定位。与批注不同的是，
+ * 原文被改写后建议不再适用，只能拒绝（标记为「已过时」），不会套用到改写后的文字上。
+ * 建议平铺存放在 Novel.suggestions 中，同步时按 id 合并。
+ */
+
+import type { ChapterSuggestion } from '../../types';
+import { createSuggestionId } from '../../utils/id';
+import { diffSequences } from '../../utils/versionComparison';
+import { CommentService, type CommentAuthor } from '../comment/CommentService';
+
+// ==================== 类型定义 ====================
+
+export type SuggestionKind = 'insert' | 'delete' | 'replace';
+
+/**
+ * 建议在当前正文中的位置
+ */
+export interface LocatedSuggestion {
+  suggestion: ChapterSuggestion;
+  kind: SuggestionKind;
+  start: number;
+  end: number;
+  /** 原文已被改写，建议无法再应用 */
+  stale: boolean;
+}
+
+/**
+ * 一次修订生成建议的参数
+ */
+export interface RevisionParams {
+  chapterId: string;
+  /** 当前正文 */
+  content: string;
+  /** 修改后的文字，替换正文中 [start, end) 的部分 */
+  revised: string;
+  /** 默认为整章 */
+  start?: number;
+  end?: number;
+  author: CommentAuthor;
+  source: ChapterSuggestion['source'];
+  label?: string;
+}
+
+/**
+ * 应用建议后的正文和剩余建议
+ */
+export interface AcceptResult {
+  content: string;
+  suggestions: ChapterSuggestion[];
+  /** 实际应用的建议数 */
+  accepted: number;
+}
+
+// ==================== 常量 ====================
+
+/** 分句的标点：先按句比较，再在改动的句子内去掉相同的首尾 */
+const CLAUSE_BREAK = /(?<=[，。！？；：、,.!?;:\n])/;
+
+/** 插入位置前后文失配时用来定位的前后文长度 */
+const FALLBACK_CONTEXT_LENGTH = 12;
+
+// ==================== 工具函数 ====================
+
+interface Hunk {
+  /** 在原文中的位置 */
+  start: number;
+  end: number;
+  text: string;
+}
+
+const findAll = (content: string, needle: string): number[] => {
+  const result: number[] = [];
+  if (!needle) return result;
+  for (let i = content.indexOf(needle); i !== -1; i = content.indexOf(needle, i + 1)) {
+    result.push(i);
+  }
+  return result;
+};
+
+/**
+ * 去掉相同的首尾字符，得到最小的改动范围
+ */
+const trimHunk = (original: string, revised: string, offset: number): Hunk | null => {
+  if (original === revised) return null;
+  let head = 0;
+  while (head < original.length && head < revised.length && original[head] === revised[head]) head++;
+  let tail = 0;
+  while (
+    tail < original.length - head &&
+    tail < revised.length - head &&
+    original[original.length - 1 - tail] === revised[revised.length - 1 - tail]
+  ) tail++;
+  return {
+    start: offset + head,
+    end: offset + original.length - tail,
+    text: revised.slice(head, revised.length - tail),
+  };
+};
+
+/**
+ * 比较两段文字，得到改动片段（位置相对 original）
+ */
+const diffHunks = (original: string, revised: string): Hunk[] => {
+  const a = original.split(CLAUSE_BREAK).filter(Boolean);
+  const b = revised.split(CLAUSE_BREAK).filter(Boolean);
+  const offsets = [0];
+  a.forEach(clause => offsets.push(offsets[offsets.length - 1] + clause.length));
+
+  const hunks: Hunk[] = [];
+  const ops = diffSequences(a, b);
+  for (let i = 0; i < ops.length; i++) {
+    if (ops[i].type === 'equal') continue;
+    // 连续的删除和新增合成一处改动
+    const first = ops[i];
+    let last = first;
+    while (i + 1 < ops.length && ops[i + 1].type !== 'equal') last = ops[++i];
+    const hunk = trimHunk(
+      a.slice(first.oldStart, last.oldEnd).join(''),
+      b.slice(first.newStart, last.newEnd).join(''),
+      offsets[first.oldStart]
+    );
+    if (hunk) hunks.push(hunk);
+  }
+  return hunks;
+};
+
+const kindOf = (suggestion: ChapterSuggestion): SuggestionKind => {
+  if (!suggestion.anchor.quote) return 'insert';
+  return suggestion.text ? 'replace' : 'delete';
+};
+
+// ==================== 服务 ====================
+
+export class SuggestionService {
+  /**
+   * 比较修改前后的文字，把每处改动记为一条建议
+   *
+   * @example
+   * SuggestionService.createFromRevision({
+   *   chapterId, content, revised: polished, start, end, author, source: 'ai', label: 'AI 润色',
+   * });
+   */
+  static createFromRevision(params: RevisionParams): ChapterSuggestion[] {
+    const { chapterId, content, revised, author, source, label } = params;
+    const start = params.start ?? 0;
+    const end = params.end ?? content.length;
+    const createdAt = new Date().toISOString();
+
+    return diffHunks(content.slice(start, end), revised).map(hunk => ({
+      id: createSuggestionId(),
+      chapterId,
+      anchor: CommentService.createAnchor(content, start + hunk.start, start + hunk.end),
+      text: hunk.text,
+      authorId: author.id,
+      authorName: author.name,
+      source,
+      ...(label ? { label } : {}),
+      createdAt,
+    }));
+  }
+
+  static getKind(suggestion: ChapterSuggestion): SuggestionKind {
+    return kindOf(suggestion);
+  }
+
+  /**
+   * 在当前正文中定位建议
+   */
+  static locate(content: string, suggestion: ChapterSuggestion): LocatedSuggestion {
+    const { anchor } = suggestion;
+    const kind = kindOf(suggestion);
+    const located = (start: number, end: number, stale = false): LocatedSuggestion =>
+      ({ suggestion, kind, start, end, stale });
+
+    if (anchor.quote) {
+      const position = CommentService.resolveAnchor(content, anchor);
+      return position.detached || position.quote !== anchor.quote
+        ? located(position.start, position.start, true)
+        : located(position.start, position.end);
+    }
+
+    // 插入：前后文仍紧挨在一起的位置
+    const { prefix, suffix } = anchor;
+    if (content.slice(anchor.start - prefix.length, anchor.start) === prefix && content.startsWith(suffix, anchor.start)) {
+      return located(anchor.start, anchor.start);
+    }
+    for (const [before, after] of [
+      [prefix, suffix],
+      [prefix.slice(-FALLBACK_CONTEXT_LENGTH), suffix.slice(0, FALLBACK_CONTEXT_LENGTH)],
+    ]) {
+      const candidates = findAll(content, before + after).map(pos => pos + before.length);
+      if (candidates.length > 0) {
+        const at = candidates.reduce((best, pos) =>
+          Math.abs(pos - anchor.start) < Math.abs(best - anchor.start) ? pos : best
+        );
+        return located(at, at);
+      }
+    }
+    const at = Math.min(anchor.start, content.length);
+    return located(at, at, !(content === '' && !prefix && !suffix));
+  }
+
+  /**
+   * 定位某章的全部建议，按位置排序
+   */
+  static locateAll(content: string, suggestions: ChapterSuggestion[] = [], chapterId: string): LocatedSuggestion[] {
+    return suggestions
+      .filter(suggestion => suggestion.chapterId === chapterId)
+      .map(suggestion => this.locate(content, suggestion))
+      .sort((a, b) => a.start - b.start || a.end - b.end || a.suggestion.createdAt.localeCompare(b.suggestion.createdAt));
+  }
+
+  /**
+   * 接受一条建议：写入正文并移除该建议
+   *
+   * 建议已过时时返回 null，正文不变。
+   */
+  static accept(content: string, suggestions: ChapterSuggestion[], id: string): AcceptResult | null {
+    const suggestion = suggestions.find(item => item.id === id);
+    if (!suggestion) return null;
+    const located = this.locate(content, suggestion);
+    if (located.stale) return null;
+    return {
+      content: content.slice(0, located.start) + suggestion.text + content.slice(located.end),
+      suggestions: suggestions.filter(item => item.id !== id),
+      accepted: 1,
+    };
+  }
+
+  /**
+   * 接受某章的全部建议
+   *
+   * 从后往前应用，已过时或与已接受的建议重叠的建议保留，留给作者单独处理。
+   */
+  static acceptAll(content: string, suggestions: ChapterSuggestion[], chapterId: string): AcceptResult {
+    const located = this.locateAll(content, suggestions, chapterId).filter(item => !item.stale);
+    const applied = new Set<string>();
+    let next = content;
+    let limit = Infinity;
+    for (const item of [...located].reverse()) {
+      // 同一位置的插入按时间先后排列，因此从后往前时也要允许 end === limit
+      if (item.end > limit) continue;
+      next = next.slice(0, item.start) + item.suggestion.text + next.slice(item.end);
+      applied.add(item.suggestion.id);
+      limit = item.start;
+    }
+    return {
+      content: next,
+      suggestions: suggestions.filter(item => !applied.has(item.id)),
+      accepted: applied.size,
+    };
+  }
+
+  /**
+   * 拒绝（撤回）一条建议
+   */
+  static reject(suggestions: ChapterSuggestion[], id: string): ChapterSuggestion[] {
+    return suggestions.filter(item => item.id !== id);
+  }
+
+  /**
+   * 拒绝某章的全部建议；删除章节时也用它清理该章的建议
+   */
+  static removeChapterSuggestions(suggestions: ChapterSuggestion[], chapterId: string): ChapterSuggestion[] {
+    return suggestions.filter(item => item.chapterId !== chapterId);
+  }
+
+  /**
+   * 某章待处理的建议数量
+   */
+  static count(suggestions: ChapterSuggestion[] = [], chapterId?: string): number {
+    return suggestions.filter(item => !chapterId || item.chapterId === chapterId).length;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { SuggestionService } from '../SuggestionService';
+
+const TEXT = '山门初开，少年登山。\n雾起时，他看见了那座塔。\n塔下有人。';
+
+const author = { id: 'u1', name: '阿青' };
+
+const suggest = (revised: string, content = TEXT, range: { start?: number; end?: number } = {}) =>
+  SuggestionService.createFromRevision({ chapterId: 'c1', content, revised, ...range, author, source: 'manual' });
+
+describe('SuggestionService revisions', () => {
+  it('should record each changed clause as its own insertion, deletion or replacement', () => {
+    const revised = '山门初开，少年独自登山。\n雾起时，他望见了那座塔。\n';
+    const suggestions = suggest(revised);
+
+    expect(suggestions.map(s => [SuggestionService.getKind(s), s.anchor.quote, s.text])).toEqual([
+      ['insert', '', '独自'],
+      ['replace', '看', '望'],
+      ['delete', '塔下有人。', ''],
+    ]);
+    expect(suggestions[0]).toMatchObject({ chapterId: 'c1', authorId: 'u1', authorName: '阿青', source: 'manual' });
+    expect(SuggestionService.acceptAll(TEXT, suggestions, 'c1')).toMatchObject({ content: revised, suggestions: [], accepted: 3 });
+  });
+
+  it('should offset suggestions made on a selection', () => {
+    const start = TEXT.indexOf('他看见了那座塔');
+    const [suggestion] = suggest('他望见远处的塔', TEXT, { start, end: start + '他看见了那座塔'.length });
+
+    expect(suggestion.anchor.quote).toBe('看见了那座');
+    expect(SuggestionService.accept(TEXT, [suggestion], suggestion.id)!.content)
+      .toBe(TEXT.replace('他看见了那座塔', '他望见远处的塔'));
+  });
+
+  it('should return no suggestions when nothing changed', () => {
+    expect(suggest(TEXT)).toEqual([]);
+  });
+});
+
+describe('SuggestionService review', () => {
+  it('should follow the original text when the chapter is edited elsewhere', () => {
+    const [insertion, replacement] = suggest('山门初开，少年独自登山。\n雾起时，他望见了那座塔。\n塔下有人。');
+    const edited = `第一章\n${TEXT}`;
+
+    const located = SuggestionService.locateAll(edited, [replacement, insertion], 'c1');
+    expect(located.map(item => [item.suggestion.id, item.stale])).toEqual([[insertion.id, false], [replacement.id, false]]);
+    expect(SuggestionService.acceptAll(edited, [insertion, replacement], 'c1').content)
+      .toBe('第一章\n山门初开，少年独自登山。\n雾起时，他望见了那座塔。\n塔下有人。');
+  });
+
+  it('should mark a suggestion stale instead of applying it to rewritten text', () => {
+    const [suggestion] = suggest(TEXT.replace('那座塔', '那座高塔'));
+    const rewritten = TEXT.replace('他看见了那座塔', '他什么也没看见');
+
+    expect(SuggestionService.locate(rewritten, suggestion).stale).toBe(true);
+    expect(SuggestionService.accept(rewritten, [suggestion], suggestion.id)).toBeNull();
+    expect(SuggestionService.acceptAll(rewritten, [suggestion], 'c1')).toMatchObject({ content: rewritten, accepted: 0 });
+  });
+
+  it('should skip overlapping suggestions when accepting all and keep them pending', () => {
+    const mine = suggest(TEXT.replace('他看见了那座塔', '他望见了那座塔'));
+    const theirs = SuggestionService.createFromRevision({
+      chapterId: 'c1', content: TEXT, revised: TEXT.replace('看见了', '瞥见了'), author: { id: 'u2', name: 'Mia' }, source: 'ai',
+    });
+
+    const result = SuggestionService.acceptAll(TEXT, [...mine, ...theirs], 'c1');
+    expect(result.accepted).toBe(1);
+    expect(result.suggestions).toHaveLength(1);
+    expect(SuggestionService.count(result.suggestions, 'c1')).toBe(1);
+  });
+
+  it('should reject single suggestions and clear a chapter', () => {
+    const suggestions = [...suggest('山门初开。'), ...SuggestionService.createFromRevision({
+      chapterId: 'c2', content: 'a', revised: 'b', author, source: 'ai', label: 'AI 润色',
+    })];
+
+    expect(SuggestionService.reject(suggestions, suggestions[0].id)).toHaveLength(suggestions.length - 1);
+    expect(SuggestionService.removeChapterSuggestions(suggestions, 'c1')).toEqual([suggestions[suggestions.length - 1]]);
+    expect(suggestions[suggestions.length - 1].label).toBe('AI 润色');
+  });
+});
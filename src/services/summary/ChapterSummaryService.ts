@@ -0,0 +1,244 @@
+/**
+ * @fileoverview AI 章节摘要
+ * @module services/summary/ChapterSummaryService
+ * @description 用当前配置的模型为章节生成结构化摘要，保存在 Chapter.summary 上。
+ *
+ * - 摘要记录生成时的正文哈希，正文改动后视为过期（getFreshSummary 返回 null），由编辑器在后台重新生成
+ * - 模型输出无法解析时退回规则提取（utils/chapterSummaryGenerator）
+ * - 摘要供续写提示词、RAG 索引、分层记忆、大纲回写和前情回顾使用
+ */
+
+import type { Chapter, ChapterSummaryRecord } from '../../types';
+import { clipChapter, createTextGenerator, type TextGenerator } from '../api/textGeneration';
+import { hashContent } from '../rag/chunking';
+import { generateChapterSummary, type ChapterSummary } from '../../utils/chapterSummaryGenerator';
+
+// ==================== 类型定义 ====================
+
+export interface SummaryGenerateOptions {
+  model: string;
+  novelId?: string;
+  signal?: AbortSignal;
+  /** 上一章的简短摘要，帮助模型理解前情 */
+  previousBrief?: string;
+  generateText?: TextGenerator;
+}
+
+/**
+ * 前情回顾中的一章
+ */
+export interface StorySoFarEntry {
+  chapter: Chapter;
+  /** 章节序号（从 1 开始） */
+  chapterNumber: number;
+  /** 与正文一致的摘要，没有或已过期时为 null */
+  summary: ChapterSummaryRecord | null;
+  /** 有摘要但正文已改动 */
+  stale: boolean;
+}
+
+// ==================== 常量 ====================
+
+/** 正文少于该字数的章节不生成摘要 */
+export const MIN_SUMMARY_CHARS = 200;
+
+const AUTO_SUMMARY_STORAGE_KEY = 'tiandao_auto_chapter_summary';
+
+const SYSTEM_INSTRUCTION = '你是小说编辑，负责为章节撰写准确、客观的剧情摘要。只根据正文内容概括，不要推测或补充正文没有的情节。';
+
+// ==================== 工具函数 ====================
+
+const toStringList = (value: unknown, limit: number): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim()).slice(0, limit)
+    : [];
+
+const defaultGenerateText = createTextGenerator('摘要生成已取消');
+
+// ==================== 服务 ====================
+
+export class ChapterSummaryService {
+  /**
+   * 是否在编辑后自动生成摘要（默认关闭，每章都会调用一次模型）
+   */
+  static isAutoSummaryEnabled(): boolean {
+    try {
+      return localStorage.getItem(AUTO_SUMMARY_STORAGE_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  static setAutoSummaryEnabled(enabled: boolean): void {
+    try {
+      localStorage.setItem(AUTO_SUMMARY_STORAGE_KEY, String(enabled));
+    } catch (error) {
+      console.error('保存自动摘要设置失败:', error);
+    }
+  }
+
+  /**
+   * 与当前正文一致的摘要；没有摘要或正文已改动时返回 null
+   */
+  static getFreshSummary(chapter: Chapter): ChapterSummaryRecord | null {
+    const { summary } = chapter;
+    return summary && summary.contentHash === hashContent(chapter.content ?? '') ? summary : null;
+  }
+
+  /**
+   * 正文是否足够生成摘要
+   */
+  static canSummarize(chapter: Chapter): boolean {
+    return (chapter.content ?? '').trim().length >= MIN_SUMMARY_CHARS;
+  }
+
+  /**
+   * 章节是否需要（重新）生成摘要
+   */
+  static needsSummary(chapter: Chapter): boolean {
+    return this.canSummarize(chapter) && !this.getFreshSummary(chapter);
+  }
+
+  /**
+   * 生成摘要的提示词，要求模型输出 JSON
+   */
+  static buildPrompt(chapter: Chapter, previousBrief?: string): string {
+    return [
+      previousBrief ? `上一章概要：${previousBrief}\n` : '',
+      `请为下面的章节撰写摘要。\n\n章节标题：${chapter.title}\n正文：\n${clipChapter(chapter.content)}\n`,
+      '只输出一个 JSON 对象，不要输出其他内容，字段如下：',
+      '{',
+      '  "brief": "1-2 句话概括本章主要剧情（60 字以内）",',
+      '  "detailed": "3-5 句话按顺序概括本章情节、冲突和结果（300 字以内）",',
+      '  "keyCharacters": ["本章出场的重要人物，最多 6 个"],',
+      '  "keyEvents": ["本章的关键事件，每条一句话，最多 5 条"],',
+      '  "keyLocations": ["本章出现的重要地点，最多 4 个"],',
+      '  "plotTags": ["情节标签，如 战斗、修炼、感情、转折，最多 4 个"],',
+      '  "emotionalTone": "本章的情绪基调，如 紧张、温馨、悲伤"',
+      '}',
+    ].filter(Boolean).join('\n');
+  }
+
+  /**
+   * 解析模型输出；允许包裹在代码块或前后带有说明文字，无法解析时返回 null
+   */
+  static parseResponse(text: string): Omit<ChapterSummaryRecord, 'contentHash' | 'generatedAt' | 'model'> | null {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start < 0 || end <= start) return null;
+
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(text.slice(start, end + 1));
+    } catch {
+      return null;
+    }
+    const brief = typeof data.brief === 'string' ? data.brief.trim() : '';
+    if (!brief) return null;
+
+    return {
+      brief,
+      detailed: typeof data.detailed === 'string' && data.detailed.trim() ? data.detailed.trim() : brief,
+      keyCharacters: toStringList(data.keyCharacters, 6),
+      keyEvents: toStringList(data.keyEvents, 5),
+      keyLocations: toStringList(data.keyLocations, 4),
+      plotTags: toStringList(data.plotTags, 4),
+      ...(typeof data.emotionalTone === 'string' && data.emotionalTone.trim() && { emotionalTone: data.emotionalTone.trim() }),
+    };
+  }
+
+  /**
+   * 规则提取的摘要（不调用模型）
+   */
+  static extractSummary(chapter: Chapter, now: Date = new Date()): ChapterSummaryRecord {
+    const { brief, detailed, keyCharacters, keyEvents, keyLocations, plotTags, emotionalTone } =
+      generateChapterSummary(chapter.title, chapter.content);
+    return {
+      brief,
+      detailed,
+      keyCharacters,
+      keyEvents,
+      keyLocations,
+      plotTags,
+      emotionalTone,
+      contentHash: hashContent(chapter.content),
+      generatedAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * 调用模型生成摘要；模型输出无法解析时改用规则提取
+   *
+   * @throws {ApiError | NetworkError} 模型调用失败时抛出；取消时抛出 AbortError
+   */
+  static async generate(chapter: Chapter, options: SummaryGenerateOptions): Promise<ChapterSummaryRecord> {
+    const { model, novelId, signal, previousBrief, generateText = defaultGenerateText } = options;
+    const contentHash = hashContent(chapter.content);
+    const text = await generateText(this.buildPrompt(chapter, previousBrief), model, {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      temperature: 0.3,
+      signal,
+      usage: { feature: 'summary', novelId },
+    });
+
+    const parsed = this.parseResponse(text);
+    if (!parsed) {
+      console.warn(`[Summary] 无法解析「${chapter.title}」的摘要，改用规则提取`);
+      return { ...this.extractSummary(chapter), contentHash };
+    }
+    return { ...parsed, contentHash, generatedAt: new Date().toISOString(), model };
+  }
+
+  /**
+   * 把生成好的摘要写回章节；生成期间正文又改动过的章节不写入（下次重新生成）
+   *
+   * @returns 没有任何章节被更新时返回原数组
+   */
+  static applySummaries(chapters: Chapter[], summaries: Record<string, ChapterSummaryRecord>): Chapter[] {
+    let changed = false;
+    const next = chapters.map(chapter => {
+      const summary = summaries[chapter.id];
+      if (!summary || summary.contentHash !== hashContent(chapter.content ?? '')) return chapter;
+      changed = true;
+      return { ...chapter, summary };
+    });
+    return changed ? next : chapters;
+  }
+
+  /**
+   * 转为 utils/chapterSummaryGenerator 的摘要格式（用于 formatSummaryForRAG 等）
+   */
+  static toChapterSummary(chapter: Chapter, summary: ChapterSummaryRecord): ChapterSummary {
+    return {
+      title: chapter.title,
+      brief: summary.brief,
+      detailed: summary.detailed,
+      keyCharacters: summary.keyCharacters,
+      keyEvents: summary.keyEvents,
+      keyLocations: summary.keyLocations,
+      plotTags: summary.plotTags,
+      emotionalTone: summary.emotionalTone ?? '',
+      wordCount: chapter.wordCount,
+    };
+  }
+
+  /**
+   * 前情回顾：第 1 章到 uptoIndex（含）各章的摘要状态
+   */
+  static getStorySoFar(chapters: Chapter[], uptoIndex: number = chapters.length - 1): StorySoFarEntry[] {
+    return chapters.slice(0, Math.max(0, uptoIndex + 1)).map((chapter, index) => {
+      const summary = this.getFreshSummary(chapter);
+      return { chapter, chapterNumber: index + 1, summary, stale: !summary && Boolean(chapter.summary) };
+    });
+  }
+
+  /**
+   * 前情回顾的纯文本（用于复制或导出）
+   */
+  static formatStorySoFar(entries: StorySoFarEntry[], detailed: boolean = false): string {
+    return entries
+      .filter(entry => entry.summary)
+      .map(entry => `第${entry.chapterNumber}章 ${entry.chapter.title}\n${detailed ? entry.summary!.detailed : entry.summary!.brief}`)
+      .join('\n\n');
+  }
+}
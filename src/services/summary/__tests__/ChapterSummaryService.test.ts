@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Chapter } from '../../../types';
+import { hashContent } from '../../rag/chunking';
+import type { TextGenerator } from '../../api/textGeneration';
+import { ChapterSummaryService, MIN_SUMMARY_CHARS } from '../ChapterSummaryService';
+
+const content = '林凡在青云城外的山谷中修炼，终于突破了炼气九层的瓶颈。'.repeat(8);
+
+const chapter = (id: string, text: string = content): Chapter => ({
+  id,
+  title: `第${id}章`,
+  content: text,
+  wordCount: text.length,
+});
+
+const modelOutput = JSON.stringify({
+  brief: '林凡突破炼气九层',
+  detailed: '林凡在青云城外苦修，终于突破瓶颈。',
+  keyCharacters: ['林凡', ''],
+  keyEvents: ['突破炼气九层'],
+  keyLocations: ['青云城'],
+  plotTags: ['修炼'],
+  emotionalTone: '振奋',
+});
+
+describe('ChapterSummaryService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should parse model output wrapped in code fences', () => {
+    const parsed = ChapterSummaryService.parseResponse(`好的：\n\`\`\`json\n${modelOutput}\n\`\`\``);
+
+    expect(parsed).toMatchObject({
+      brief: '林凡突破炼气九层',
+      keyCharacters: ['林凡'],
+      emotionalTone: '振奋',
+    });
+    expect(ChapterSummaryService.parseResponse('{"detailed": "没有简要"}')).toBeNull();
+    expect(ChapterSummaryService.parseResponse('无法生成')).toBeNull();
+  });
+
+  it('should generate a summary bound to the chapter content', async () => {
+    const generateText = vi.fn<TextGenerator>(async () => modelOutput);
+    const summary = await ChapterSummaryService.generate(chapter('1'), {
+      model: 'test-model',
+      novelId: 'n1',
+      previousBrief: '林凡拜入青云宗',
+      generateText,
+    });
+
+    expect(summary).toMatchObject({ brief: '林凡突破炼气九层', model: 'test-model', contentHash: hashContent(content) });
+    const [prompt, model, options] = generateText.mock.calls[0];
+    expect(prompt).toContain('上一章概要：林凡拜入青云宗');
+    expect(model).toBe('test-model');
+    expect(options.usage).toEqual({ feature: 'summary', novelId: 'n1' });
+  });
+
+  it('should fall back to rule-based extraction when the output cannot be parsed', async () => {
+    const summary = await ChapterSummaryService.generate(chapter('1'), {
+      model: 'test-model',
+      generateText: async () => '抱歉，我无法完成。',
+    });
+
+    expect(summary.brief).toBeTruthy();
+    expect(summary.model).toBeUndefined();
+    expect(summary.contentHash).toBe(hashContent(content));
+  });
+
+  it('should treat summaries as stale once the content changes', async () => {
+    const summary = await ChapterSummaryService.generate(chapter('1'), { model: 'm', generateText: async () => modelOutput });
+    const summarized = { ...chapter('1'), summary };
+
+    expect(ChapterSummaryService.getFreshSummary(summarized)).toBe(summary);
+    expect(ChapterSummaryService.needsSummary(summarized)).toBe(false);
+
+    const edited = { ...summarized, content: `${content}他转身离开。` };
+    expect(ChapterSummaryService.getFreshSummary(edited)).toBeNull();
+    expect(ChapterSummaryService.needsSummary(edited)).toBe(true);
+    expect(ChapterSummaryService.needsSummary(chapter('2', '太短'.repeat(MIN_SUMMARY_CHARS / 4)))).toBe(false);
+  });
+
+  it('should only apply summaries whose content still matches', async () => {
+    const chapters = [chapter('1'), chapter('2', `${content}他转身离开。`)];
+    const summary = await ChapterSummaryService.generate(chapters[0], { model: 'm', generateText: async () => modelOutput });
+
+    const applied = ChapterSummaryService.applySummaries(chapters, { '1': summary, '2': summary });
+    expect(applied[0].summary).toBe(summary);
+    expect(applied[1]).toBe(chapters[1]);
+
+    const edited = [{ ...chapters[0], content: '改过的正文' }];
+    expect(ChapterSummaryService.applySummaries(edited, { '1': summary })).toBe(edited);
+  });
+
+  it('should build the story so far up to a chapter', async () => {
+    const summary = await ChapterSummaryService.generate(chapter('1'), { model: 'm', generateText: async () => modelOutput });
+    const chapters = [
+      { ...chapter('1'), summary },
+      { ...chapter('2', `${content}另一章`), summary },
+      chapter('3'),
+    ];
+
+    const entries = ChapterSummaryService.getStorySoFar(chapters, 1);
+    expect(entries.map(e => [e.chapterNumber, Boolean(e.summary), e.stale])).toEqual([[1, true, false], [2, false, true]]);
+    expect(ChapterSummaryService.formatStorySoFar(entries)).toBe('第1章 第1章\n林凡突破炼气九层');
+    expect(ChapterSummaryService.isAutoSummaryEnabled()).toBe(false);
+    ChapterSummaryService.setAutoSummaryEnabled(true);
+    expect(ChapterSummaryService.isAutoSummaryEnabled()).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview REST 同步传输层
+ * @module services/sync/RestSyncTransport
+ * @description 对接自建同步服务器（参考实现见 server/sync-server.mjs）
+ *
+ * 接口约定：
+ * - `POST {baseUrl}/sync/push`，body 为 `{ changes: SyncPushChange[] }`，返回 `SyncPushResponse`
+ * - `GET  {baseUrl}/sync/pull?since=<ISO 时间>`，返回 `SyncPullResponse`
+ * - 错误返回 `{ error: { code, message } }`
+ * - 鉴权使用 `Authorization: Bearer <令牌>`，令牌同时决定数据所属的空间；
+ *   设备标识通过 `X-Device-Id` 传递，写入记录的 deviceId
+ *
+ * @example
+ * syncService.setTransport(new RestSyncTransport({
+ *   baseUrl: 'https://sync.example.com',
+ *   token: 'team-secret',
+ *   deviceId: getSyncDeviceId(),
+ * }));
+ */
+
+import { ApiError, apiErrorCodeFromStatus, parseRetryAfter } from '../../utils/errors';
+import { fetchWithTimeout, DEFAULT_TIMEOUT_MS } from '../api/providers/httpAdapter';
+import type { SyncPullResponse, SyncPushChange, SyncPushResponse, SyncTransport } from './SyncTransport';
+
+/**
+ * REST 传输层配置
+ */
+export interface RestSyncTransportOptions {
+  /** 同步服务器地址，如 `http://localhost:8787` */
+  baseUrl: string;
+  /** 访问令牌 */
+  token?: string;
+  /** 本机设备标识 */
+  deviceId?: string;
+  /** 请求超时（毫秒），默认 60 秒 */
+  timeoutMs?: number;
+}
+
+export class RestSyncTransport implements SyncTransport {
+  readonly name = 'rest';
+  readonly remote = true;
+
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: RestSyncTransportOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  async push(changes: SyncPushChange[], signal?: AbortSignal): Promise<SyncPushResponse> {
+    const response = await this.send('/sync/push', { method: 'POST', body: JSON.stringify({ changes }) }, signal);
+    return response.json();
+  }
+
+  async pull(since?: string, signal?: AbortSignal): Promise<SyncPullResponse> {
+    const query = since ? `?since=${encodeURIComponent(since)}` : '';
+    const response = await this.send(`/sync/pull${query}`, { method: 'GET' }, signal);
+    return response.json();
+  }
+
+  private async send(path: string, init: RequestInit, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.token) {
+      headers['Authorization'] = `Bearer ${this.options.token}`;
+    }
+    if (this.options.deviceId) {
+      headers['X-Device-Id'] = this.options.deviceId;
+    }
+
+    const response = await fetchWithTimeout(
+      `${this.baseUrl}${path}`,
+      { ...init, headers },
+      this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      signal
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new ApiError(
+        errorData?.error?.message || `同步服务器请求失败: HTTP ${response.status}`,
+        apiErrorCodeFromStatus(response.status),
+        response.status,
+        { retryAfterMs: parseRetryAfter(response.headers.get('retry-after')), context: { transport: this.name } }
+      );
+    }
+    return response;
+  }
+}
+
+export default RestSyncTransport;
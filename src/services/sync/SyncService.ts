@@ -1,11 +1,15 @@
 /**
  * @fileoverview 离线数据同步服务
  * @module services/sync/SyncService
- * @description 提供离线数据检测、队列管理和自动同步功能
- * @version 1.0.0
+ * @description 提供离线数据检测、队列管理和多设备同步功能
+ * @version 2.0.0
  */
 
 import { createId } from '../../utils/id';
+import { LocalSyncTransport } from './SyncTransport';
+import type { SyncPushChange, SyncPushResponse, SyncRecord, SyncTransport } from './SyncTransport';
+import { RestSyncTransport } from './RestSyncTransport';
+import { storageService } from '../storage/StorageService';
 
 // localStorage 简单存储辅助函数
 const localStorageHelper = {
@@ -39,7 +43,7 @@ export type SyncOperationType = 'create' | 'update' | 'delete';
 /**
  * 同步状态
  */
-export type SyncStatus = 'pending' | 'syncing' | 'completed' | 'failed';
+export type SyncStatus = 'pending' | 'syncing' | 'completed' | 'failed' | 'conflict';
 
 /**
  * 同步项目接口
@@ -63,6 +67,8 @@ export interface SyncItem {
   lastAttemptAt?: string;
   /** 错误信息 */
   errorMessage?: string;
+  /** 冲突时服务端的当前记录 */
+  remote?: SyncRecord;
 }
 
 /**
@@ -75,22 +81,73 @@ export interface SyncQueueState {
   syncingCount: number;
   /** 失败项目数 */
   failedCount: number;
+  /** 冲突项目数 */
+  conflictCount: number;
   /** 是否在线 */
   isOnline: boolean;
-  /** 最后同步时间 */
+  /** 是否已连接同步服务器 */
+  remoteEnabled: boolean;
+  /** 最后同步时间（服务端时间） */
   lastSyncAt?: string;
 }
 
+/**
+ * 同步服务器配置
+ */
+export interface SyncSettings {
+  /** 是否启用多设备同步 */
+  enabled: boolean;
+  /** 同步服务器地址 */
+  serverUrl: string;
+  /** 访问令牌 */
+  token: string;
+}
+
+/**
+ * 同步进度
+ */
+export interface SyncProgress {
+  /** 当前阶段 */
+  phase: 'push' | 'pull';
+  /** 已处理数 */
+  completed: number;
+  /** 总数 */
+  total: number;
+}
+
+/**
+ * 一次同步的结果
+ */
+export interface SyncResult {
+  /** 推送成功数 */
+  success: number;
+  /** 推送失败（已达重试上限）数 */
+  failed: number;
+  /** 新增冲突数 */
+  conflicts: number;
+  /** 拉取并应用的远端记录数 */
+  pulled: number;
+  state: SyncQueueState;
+}
+
+/**
+ * 冲突的处理方式：保留本地、采用远端，或提交合并后的数据
+ */
+export type SyncConflictResolution = 'local' | 'remote' | { data: unknown };
+
 /**
  * 同步事件类型
  */
 export type SyncEventType =
-  | 'online'      // 恢复在线
-  | 'offline'     // 变为离线
-  | 'syncStart'   // 开始同步
-  | 'syncComplete'// 同步完成
-  | 'syncFailed'  // 同步失败
-  | 'queueChange';// 队列变化
+  | 'online'       // 恢复在线
+  | 'offline'      // 变为离线
+  | 'syncStart'    // 开始同步
+  | 'syncProgress' // 同步进度（SyncProgress）
+  | 'syncComplete' // 同步完成（SyncResult）
+  | 'syncFailed'   // 同步失败
+  | 'queueChange'  // 队列变化
+  | 'remoteChange' // 拉取到远端变更（{ records: SyncRecord[] }），由调用方写回应用状态
+  | 'conflict';    // 出现冲突（{ item: SyncItem }）
 
 /**
  * 同步事件回调
@@ -100,13 +157,72 @@ export type SyncEventCallback = (event: {
   data?: unknown;
 }) => void;
 
+/**
+ * 三方合并函数
+ *
+ * @param base - 两边共同的上一个版本（最近一次推送成功或拉取到的数据），未知时为 undefined
+ * @returns 合并结果，conflicts 为空时自动采用 merged
+ */
+export type SyncMerger = (base: unknown, local: unknown, remote: unknown) => {
+  merged: unknown;
+  conflicts: unknown[];
+};
+
+/**
+ * 持久化的同步状态
+ */
+interface PersistedSyncState {
+  /** 上次拉取的服务端时间 */
+  lastSyncAt?: string;
+  /** 各数据键本地所基于的服务端修订号 */
+  revisions: Record<string, number>;
+}
+
 // ==================== 常量定义 ====================
 
 const SYNC_QUEUE_KEY = 'tiandao_sync_queue';
 const SYNC_STATE_KEY = 'tiandao_sync_state';
+const SYNC_SETTINGS_KEY = 'tiandao_sync_settings';
+const SYNC_DEVICE_KEY = 'tiandao_sync_device_id';
+/** 各数据键共同祖先的存储键前缀 */
+const SYNC_BASE_PREFIX = 'tiandao_sync_base:';
 const MAX_RETRY_COUNT = 3;
 const RETRY_DELAY_MS = 5000;
 const SYNC_BATCH_SIZE = 10;
+/** 连接同步服务器时定期拉取的间隔 */
+const PULL_INTERVAL_MS = 60000;
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  serverUrl: '',
+  token: '',
+};
+
+/**
+ * 获取本机设备标识（首次调用时生成）
+ */
+export const getSyncDeviceId = (): string => {
+  let deviceId = localStorage.getItem(SYNC_DEVICE_KEY);
+  if (!deviceId) {
+    deviceId = createId();
+    localStorage.setItem(SYNC_DEVICE_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+/**
+ * 根据配置创建传输层，未启用或未填写服务器时使用本地传输层
+ */
+export const createSyncTransport = (settings: SyncSettings): SyncTransport => {
+  if (!settings.enabled || !settings.serverUrl.trim()) {
+    return new LocalSyncTransport();
+  }
+  return new RestSyncTransport({
+    baseUrl: settings.serverUrl.trim(),
+    token: settings.token.trim() || undefined,
+    deviceId: getSyncDeviceId(),
+  });
+};
 
 // ==================== 同步服务类 ====================
 
@@ -120,26 +236,36 @@ const SYNC_BATCH_SIZE = 10;
  * 3. 恢复在线时自动同步
  * 4. 同步失败重试机制
  * 5. 同步状态事件通知
+ * 6. 通过 SyncTransport 推送到远端，并按 lastSyncAt 增量拉取其他设备的变更
+ * 7. 服务端修订号已前进时先用注册的合并函数三方合并，无法自动合并时标记冲突，交由用户处理
  *
  * @example
  * // 初始化同步服务
  * await syncService.init();
  *
+ * // 连接同步服务器
+ * syncService.configure({ enabled: true, serverUrl: 'http://localhost:8787', token: 'team' });
+ *
  * // 监听同步事件
  * syncService.on('syncComplete', (event) => {
  *   console.log('同步完成', event.data);
  * });
  *
  * // 添加待同步项
- * syncService.addToQueue('novels', 'update', novelData);
+ * syncService.addToQueue('novels/123', 'update', novelData);
  */
-class SyncService {
+export class SyncService {
   private queue: SyncItem[] = [];
   private isOnline: boolean = navigator.onLine;
   private isSyncing: boolean = false;
   private eventListeners: Map<SyncEventType, Set<SyncEventCallback>> = new Map();
   private initialized: boolean = false;
   private syncTimeout: ReturnType<typeof setTimeout> | null = null;
+  private pullTimer: ReturnType<typeof setInterval> | null = null;
+  private settings: SyncSettings = DEFAULT_SYNC_SETTINGS;
+  private transport: SyncTransport = new LocalSyncTransport();
+  private syncState: PersistedSyncState = { revisions: {} };
+  private mergers: Map<string, SyncMerger> = new Map();
 
   /**
    * 初始化同步服务
@@ -147,27 +273,120 @@ class SyncService {
   async init(): Promise<void> {
     if (this.initialized) return;
 
-    // 加载持久化的队列
+    // 加载持久化的队列和同步状态
     await this.loadQueue();
+    this.syncState = localStorageHelper.get<PersistedSyncState>(SYNC_STATE_KEY, { revisions: {} });
+    this.settings = { ...DEFAULT_SYNC_SETTINGS, ...localStorageHelper.get<Partial<SyncSettings>>(SYNC_SETTINGS_KEY, {}) };
+    this.transport = createSyncTransport(this.settings);
 
     // 设置在线状态监听
     this.setupOnlineListeners();
 
     // 初始状态检查
     this.isOnline = navigator.onLine;
+    this.initialized = true;
+    this.setupPullTimer();
 
-    // 如果在线且有待同步项，开始同步
-    if (this.isOnline && this.getPendingItems().length > 0) {
+    // 如果在线且有待同步项或连接了服务器，开始同步
+    if (this.isOnline && (this.getPendingItems().length > 0 || this.transport.remote)) {
       this.scheduleSync();
     }
 
-    this.initialized = true;
     console.log('[SyncService] 初始化完成', {
       isOnline: this.isOnline,
+      transport: this.transport.name,
       pendingItems: this.getPendingItems().length
     });
   }
 
+  /**
+   * 获取同步服务器配置
+   */
+  getSettings(): SyncSettings {
+    return this.settings;
+  }
+
+  /**
+   * 更新同步服务器配置
+   *
+   * 更换服务器或令牌时清空修订号和 lastSyncAt，下次同步从头拉取。
+   */
+  configure(settings: SyncSettings): void {
+    const previous = this.settings;
+    this.settings = settings;
+    localStorageHelper.set(SYNC_SETTINGS_KEY, settings);
+
+    if (previous.serverUrl !== settings.serverUrl || previous.token !== settings.token) {
+      this.syncState = { revisions: {} };
+      this.saveState();
+    }
+
+    this.setTransport(createSyncTransport(settings));
+  }
+
+  /**
+   * 替换传输层
+   */
+  setTransport(transport: SyncTransport): void {
+    this.transport = transport;
+    this.setupPullTimer();
+    this.emit('queueChange', this.getQueueState());
+
+    if (this.isOnline && (transport.remote || this.getPendingItems().length > 0)) {
+      this.scheduleSync(100);
+    }
+  }
+
+  /**
+   * 是否已连接同步服务器
+   */
+  isRemoteEnabled(): boolean {
+    return this.transport.remote;
+  }
+
+  /**
+   * 获取数据键本地所基于的服务端修订号，从未同步过为 0
+   */
+  getRevision(key: string): number {
+    return this.syncState.revisions[key] ?? 0;
+  }
+
+  /**
+   * 注册合并函数，键以 prefix 开头的冲突先尝试自动合并
+   *
+   * @returns 取消注册的函数
+   */
+  registerMerger(prefix: string, merger: SyncMerger): () => void {
+    this.mergers.set(prefix, merger);
+    return () => {
+      if (this.mergers.get(prefix) === merger) {
+        this.mergers.delete(prefix);
+      }
+    };
+  }
+
+  /**
+   * 读取数据键的共同祖先：最近一次推送成功或从远端拉取到的数据
+   */
+  async loadBase(key: string): Promise<unknown> {
+    return storageService.get<unknown>(`${SYNC_BASE_PREFIX}${key}`, undefined);
+  }
+
+  /**
+   * 记录数据键的共同祖先，删除时一并清除
+   */
+  private async saveBase(key: string, data: unknown): Promise<void> {
+    try {
+      if (data === null || data === undefined) {
+        await storageService.remove(`${SYNC_BASE_PREFIX}${key}`);
+      } else {
+        await storageService.set(`${SYNC_BASE_PREFIX}${key}`, data);
+      }
+    } catch (error) {
+      console.warn('[SyncService] 保存同步基准失败:', key, error);
+    }
+  }
+
   /**
    * 设置在线状态监听器
    */
@@ -183,6 +402,23 @@ class SyncService {
     });
   }
 
+  /**
+   * 连接服务器时定期拉取其他设备的变更
+   */
+  private setupPullTimer(): void {
+    if (this.pullTimer) {
+      clearInterval(this.pullTimer);
+      this.pullTimer = null;
+    }
+    if (this.initialized && this.transport.remote) {
+      this.pullTimer = setInterval(() => {
+        if (this.isOnline && document.visibilityState !== 'hidden') {
+          this.performSync();
+        }
+      }, PULL_INTERVAL_MS);
+    }
+  }
+
   /**
    * 处理在线事件
    */
@@ -216,7 +452,8 @@ class SyncService {
   private async loadQueue(): Promise<void> {
     try {
       const savedQueue = localStorageHelper.get<SyncItem[]>(SYNC_QUEUE_KEY, []);
-      this.queue = savedQueue;
+      // 上次同步中途关闭页面的项目重新排队
+      this.queue = savedQueue.map(item => item.status === 'syncing' ? { ...item, status: 'pending' } : item);
     } catch (error) {
       console.error('[SyncService] 加载队列失败:', error);
       this.queue = [];
@@ -234,6 +471,13 @@ class SyncService {
     }
   }
 
+  /**
+   * 保存同步状态
+   */
+  private saveState(): void {
+    localStorageHelper.set(SYNC_STATE_KEY, this.syncState);
+  }
+
   /**
    * 添加项目到同步队列
    *
@@ -252,13 +496,13 @@ class SyncService {
       retryCount: 0
     };
 
-    // 检查是否有相同 key 的待处理项，进行合并
+    // 检查是否有相同 key 的待处理项（或未解决的冲突项），进行合并
     const existingIndex = this.queue.findIndex(
-      q => q.key === key && q.status === 'pending'
+      q => q.key === key && (q.status === 'pending' || q.status === 'conflict')
     );
 
     if (existingIndex !== -1) {
-      // 更新现有项
+      // 更新现有项，冲突项保持冲突状态，等待用户处理
       this.queue[existingIndex] = {
         ...this.queue[existingIndex],
         operation: operation === 'delete' ? 'delete' : this.queue[existingIndex].operation === 'create' ? 'create' : 'update',
@@ -277,7 +521,7 @@ class SyncService {
       this.scheduleSync(100);
     }
 
-    return item.id;
+    return existingIndex !== -1 ? this.queue[existingIndex].id : item.id;
   }
 
   /**
@@ -295,60 +539,55 @@ class SyncService {
   }
 
   /**
-   * 执行同步
+   * 执行同步：先分批推送本地变更，再拉取远端变更
    */
   private async performSync(): Promise<void> {
     if (this.isSyncing || !this.isOnline) return;
 
     const pendingItems = this.getPendingItems();
-    if (pendingItems.length === 0) return;
+    if (pendingItems.length === 0 && !this.transport.remote) return;
 
     this.isSyncing = true;
-    this.emit('syncStart', { count: pendingItems.length });
+    this.emit('syncStart', { count: pendingItems.length, transport: this.transport.name });
 
-    const batch = pendingItems.slice(0, SYNC_BATCH_SIZE);
-    const results: { success: number; failed: number } = { success: 0, failed: 0 };
-
-    for (const item of batch) {
-      try {
-        // 更新状态为同步中
-        item.status = 'syncing';
-        item.lastAttemptAt = new Date().toISOString();
+    const results = { success: 0, failed: 0, conflicts: 0, pulled: 0 };
+    let error: unknown = null;
 
-        // 执行实际的数据保存
-        await this.syncItem(item);
-
-        // 标记为完成并从队列移除
-        item.status = 'completed';
-        this.queue = this.queue.filter(q => q.id !== item.id);
-        results.success++;
-
-      } catch (error) {
-        item.retryCount++;
-        item.errorMessage = error instanceof Error ? error.message : '未知错误';
-
-        if (item.retryCount >= MAX_RETRY_COUNT) {
-          item.status = 'failed';
-          results.failed++;
-        } else {
-          item.status = 'pending';
-        }
+    try {
+      for (let i = 0; i < pendingItems.length; i += SYNC_BATCH_SIZE) {
+        const batch = pendingItems.slice(i, i + SYNC_BATCH_SIZE);
+        await this.pushBatch(batch, results);
+        this.emit('syncProgress', {
+          phase: 'push',
+          completed: Math.min(i + SYNC_BATCH_SIZE, pendingItems.length),
+          total: pendingItems.length,
+        });
+      }
 
-        console.error('[SyncService] 同步项失败:', item.key, error);
+      if (this.transport.remote) {
+        await this.pull(results);
+      } else {
+        this.syncState.lastSyncAt = new Date().toISOString();
       }
+    } catch (err) {
+      error = err;
+      console.error('[SyncService] 同步失败:', err);
     }
 
     await this.saveQueue();
+    this.saveState();
     this.isSyncing = false;
 
-    // 更新同步状态
     const state = this.getQueueState();
-    state.lastSyncAt = new Date().toISOString();
+    const result: SyncResult = { ...results, state };
 
-    if (results.failed > 0) {
-      this.emit('syncFailed', { ...results, state });
+    if (error || results.failed > 0) {
+      this.emit('syncFailed', {
+        ...result,
+        error: error instanceof Error ? error.message : error ? String(error) : undefined,
+      });
     } else {
-      this.emit('syncComplete', { ...results, state });
+      this.emit('syncComplete', result);
     }
 
     this.emit('queueChange', state);
@@ -360,20 +599,197 @@ class SyncService {
   }
 
   /**
-   * 同步单个项目
+   * 推送一批项目
+   *
+   * 请求本身失败时整批计一次重试并向上抛出，停止本轮同步。
    */
-  private async syncItem(item: SyncItem): Promise<void> {
-    // 这里执行实际的数据同步逻辑
-    // 在纯前端场景，主要是确保数据已保存到 localStorage
+  private async pushBatch(batch: SyncItem[], results: { success: number; failed: number; conflicts: number }): Promise<void> {
+    const attemptAt = new Date().toISOString();
+    const changes: SyncPushChange[] = batch.map(item => {
+      item.status = 'syncing';
+      item.lastAttemptAt = attemptAt;
+      return {
+        key: item.key,
+        operation: item.operation,
+        data: item.operation === 'delete' ? null : item.data,
+        baseRevision: this.getRevision(item.key),
+      };
+    });
 
-    switch (item.operation) {
-      case 'create':
-      case 'update':
-        localStorageHelper.set(item.key, item.data);
-        break;
-      case 'delete':
-        localStorage.removeItem(item.key);
-        break;
+    let response: SyncPushResponse;
+    try {
+      response = await this.transport.push(changes);
+    } catch (error) {
+      batch.forEach(item => {
+        if (this.markRetry(item, error)) results.failed++;
+      });
+      throw error;
+    }
+
+    const resultByKey = new Map(response.results.map(r => [r.key, r]));
+    for (const item of batch) {
+      const result = resultByKey.get(item.key);
+      if (!result) {
+        if (this.markRetry(item, new Error('同步服务器未返回该项的结果'))) results.failed++;
+        continue;
+      }
+
+      if (result.status === 'applied') {
+        item.status = 'completed';
+        this.syncState.revisions[item.key] = result.record.revision;
+        this.queue = this.queue.filter(q => q.id !== item.id);
+        await this.saveBase(item.key, result.record.data);
+        results.success++;
+      } else if (!(await this.tryAutoMerge(item, result.record))) {
+        this.markConflict(item, result.record);
+        results.conflicts++;
+      }
+    }
+  }
+
+  /**
+   * 增量拉取 lastSyncAt 之后的远端变更
+   *
+   * 本机已知的修订（包括刚推送的）直接跳过；本地还有未推送修改的键标记为冲突，不覆盖本地。
+   */
+  private async pull(results: { conflicts: number; pulled: number }): Promise<void> {
+    const response = await this.transport.pull(this.syncState.lastSyncAt);
+    const applied: SyncRecord[] = [];
+
+    for (const [index, record] of response.records.entries()) {
+      if (this.getRevision(record.key) < record.revision) {
+        const local = this.queue.find(q => q.key === record.key && (q.status === 'pending' || q.status === 'conflict'));
+        if (local) {
+          // 推送时已发现的同一冲突不重复通知
+          if (
+            (local.status !== 'conflict' || (local.remote?.revision ?? 0) < record.revision)
+            && !(await this.tryAutoMerge(local, record))
+          ) {
+            this.markConflict(local, record);
+            results.conflicts++;
+          }
+        } else {
+          this.syncState.revisions[record.key] = record.revision;
+          await this.saveBase(record.key, record.data);
+          applied.push(record);
+        }
+      }
+      this.emit('syncProgress', { phase: 'pull', completed: index + 1, total: response.records.length });
+    }
+
+    this.syncState.lastSyncAt = response.serverTime;
+    results.pulled += applied.length;
+
+    if (applied.length > 0) {
+      this.emit('remoteChange', { records: applied });
+    }
+  }
+
+  /**
+   * 记录一次失败，达到重试上限时标记为失败
+   *
+   * @returns 是否已达重试上限
+   */
+  private markRetry(item: SyncItem, error: unknown): boolean {
+    item.retryCount++;
+    item.errorMessage = error instanceof Error ? error.message : '未知错误';
+    console.error('[SyncService] 同步项失败:', item.key, error);
+
+    if (item.retryCount >= MAX_RETRY_COUNT) {
+      item.status = 'failed';
+      return true;
+    }
+    item.status = 'pending';
+    return false;
+  }
+
+  /**
+   * 用注册的合并函数三方合并冲突项
+   *
+   * 合并成功时本地数据换成合并结果、基于远端修订重新排队，
+   * 并通过 remoteChange 事件把合并结果写回应用状态。任一边为删除时不自动合并。
+   *
+   * @returns 是否已自动合并
+   */
+  private async tryAutoMerge(item: SyncItem, remote: SyncRecord): Promise<boolean> {
+    const merger = [...this.mergers].find(([prefix]) => item.key.startsWith(prefix))?.[1];
+    if (!merger || remote.deleted || item.operation === 'delete') return false;
+
+    try {
+      const { merged, conflicts } = merger(await this.loadBase(item.key), item.data, remote.data);
+      if (conflicts.length > 0) return false;
+
+      item.data = merged;
+      item.operation = 'update';
+      item.status = 'pending';
+      item.retryCount = 0;
+      item.remote = undefined;
+      item.errorMessage = undefined;
+      this.syncState.revisions[item.key] = remote.revision;
+      await this.saveBase(item.key, remote.data);
+      this.emit('remoteChange', { records: [{ ...remote, data: merged }] });
+      return true;
+    } catch (error) {
+      console.warn('[SyncService] 自动合并失败:', item.key, error);
+      return false;
+    }
+  }
+
+  /**
+   * 标记冲突
+   */
+  private markConflict(item: SyncItem, remote: SyncRecord): void {
+    const isNew = item.status !== 'conflict';
+    item.status = 'conflict';
+    item.remote = remote;
+    item.errorMessage = undefined;
+    if (isNew) {
+      console.warn('[SyncService] 同步冲突:', item.key, `远端修订 ${remote.revision}`);
+    }
+    this.emit('conflict', { item });
+  }
+
+  /**
+   * 处理冲突
+   *
+   * - local：以本地数据覆盖远端
+   * - remote：放弃本地修改，通过 remoteChange 事件写回远端数据
+   * - { data }：以合并后的数据覆盖远端，并通过 remoteChange 事件写回应用状态
+   */
+  async resolveConflict(itemId: string, resolution: SyncConflictResolution): Promise<void> {
+    const item = this.queue.find(q => q.id === itemId && q.status === 'conflict');
+    if (!item) return;
+
+    const remote = item.remote;
+    if (remote) {
+      this.syncState.revisions[item.key] = remote.revision;
+      this.saveState();
+      await this.saveBase(item.key, remote.data);
+    }
+
+    if (resolution === 'remote') {
+      this.queue = this.queue.filter(q => q.id !== itemId);
+      if (remote) {
+        this.emit('remoteChange', { records: [remote] });
+      }
+    } else {
+      if (typeof resolution === 'object') {
+        item.data = resolution.data;
+        item.operation = 'update';
+        if (remote) {
+          this.emit('remoteChange', { records: [{ ...remote, data: resolution.data, deleted: false }] });
+        }
+      }
+      item.status = 'pending';
+      item.retryCount = 0;
+      item.remote = undefined;
+    }
+
+    await this.saveQueue();
+    this.emit('queueChange', this.getQueueState());
+
+    if (this.isOnline && this.getPendingItems().length > 0) {
+      this.scheduleSync(100);
     }
   }
 
@@ -392,7 +808,10 @@ class SyncService {
       pendingCount: this.queue.filter(q => q.status === 'pending').length,
       syncingCount: this.queue.filter(q => q.status === 'syncing').length,
       failedCount: this.queue.filter(q => q.status === 'failed').length,
-      isOnline: this.isOnline
+      conflictCount: this.queue.filter(q => q.status === 'conflict').length,
+      isOnline: this.isOnline,
+      remoteEnabled: this.transport.remote,
+      lastSyncAt: this.syncState.lastSyncAt
     };
   }
 
@@ -403,6 +822,13 @@ class SyncService {
     return this.queue.filter(item => item.status === 'failed');
   }
 
+  /**
+   * 获取冲突的项目
+   */
+  getConflicts(): SyncItem[] {
+    return this.queue.filter(item => item.status === 'conflict');
+  }
+
   /**
    * 重试失败的项目
    */
@@ -440,6 +866,10 @@ class SyncService {
       throw new Error('当前处于离线状态，无法同步');
     }
 
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout);
+      this.syncTimeout = null;
+    }
     await this.performSync();
   }
 
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview 同步传输层接口
+ * @module services/sync/SyncTransport
+ * @description 定义 SyncService 与远端之间的推送/拉取协议，以及未配置服务器时使用的本地实现
+ *
+ * 协议约定：
+ * - 每个数据键（如 `novels/<id>`）在服务端有一个从 1 开始递增的修订号
+ * - 推送时携带本地所基于的修订号 baseRevision，服务端修订号已前进则返回冲突，不覆盖
+ * - 拉取时携带上次同步的服务端时间 since，只返回此后变更的记录（删除以墓碑记录表示）
+ */
+
+// ==================== 类型定义 ====================
+
+/**
+ * 服务端保存的一条记录
+ */
+export interface SyncRecord {
+  /** 数据键名 */
+  key: string;
+  /** 修订号，每次写入加一 */
+  revision: number;
+  /** 数据内容，已删除时为 null */
+  data: unknown;
+  /** 是否已删除（墓碑记录） */
+  deleted?: boolean;
+  /** 服务端写入时间 */
+  updatedAt: string;
+  /** 写入该修订的设备 */
+  deviceId?: string;
+}
+
+/**
+ * 推送的一项变更
+ */
+export interface SyncPushChange {
+  key: string;
+  operation: 'create' | 'update' | 'delete';
+  data: unknown;
+  /** 本地所基于的修订号，从未同步过为 0 */
+  baseRevision: number;
+}
+
+/**
+ * 单项推送结果
+ */
+export type SyncPushResult =
+  | { key: string; status: 'applied'; record: SyncRecord }
+  | { key: string; status: 'conflict'; record: SyncRecord };
+
+/**
+ * 推送响应
+ */
+export interface SyncPushResponse {
+  results: SyncPushResult[];
+  serverTime: string;
+}
+
+/**
+ * 拉取响应
+ */
+export interface SyncPullResponse {
+  /** since 之后变更的记录，按 updatedAt 升序 */
+  records: SyncRecord[];
+  /** 服务端当前时间，作为下次拉取的 since */
+  serverTime: string;
+}
+
+/**
+ * 同步传输层
+ */
+export interface SyncTransport {
+  /** 传输层名称（用于日志和状态展示） */
+  readonly name: string;
+  /** 是否连接远端（本地实现为 false，不参与拉取轮询） */
+  readonly remote: boolean;
+  /** 推送变更 */
+  push(changes: SyncPushChange[], signal?: AbortSignal): Promise<SyncPushResponse>;
+  /** 拉取 since 之后的变更，since 为空时拉取全部 */
+  pull(since?: string, signal?: AbortSignal): Promise<SyncPullResponse>;
+}
+
+// ==================== 本地实现 ====================
+
+/**
+ * 本地传输层
+ *
+ * 未配置同步服务器时使用：变更直接写入 localStorage，拉取始终为空，
+ * 保持离线队列在单机上的原有行为。
+ */
+export class LocalSyncTransport implements SyncTransport {
+  readonly name = 'local';
+  readonly remote = false;
+
+  async push(changes: SyncPushChange[]): Promise<SyncPushResponse> {
+    const serverTime = new Date().toISOString();
+    const results: SyncPushResult[] = changes.map(change => {
+      if (change.operation === 'delete') {
+        localStorage.removeItem(change.key);
+      } else {
+        localStorage.setItem(change.key, JSON.stringify(change.data));
+      }
+      return {
+        key: change.key,
+        status: 'applied',
+        record: {
+          key: change.key,
+          revision: change.baseRevision + 1,
+          data: change.operation === 'delete' ? null : change.data,
+          deleted: change.operation === 'delete' || undefined,
+          updatedAt: serverTime,
+        },
+      };
+    });
+    return { results, serverTime };
+  }
+
+  async pull(): Promise<SyncPullResponse> {
+    return { records: [], serverTime: new Date().toISOString() };
+  }
+}
@@ -0,0 +1,258 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSyncStore, handleSyncRequest } from '../../../../server/sync-server.mjs';
+import { ApiError } from '../../../utils/errors';
+import { RestSyncTransport } from '../RestSyncTransport';
+import { SyncService, type SyncItem, type SyncProgress } from '../SyncService';
+import type { SyncRecord } from '../SyncTransport';
+
+const BASE_URL = 'http://sync.test';
+
+const storedBases = new Map<string, unknown>();
+
+vi.mock('../../storage/StorageService', () => ({
+  storageService: {
+    get: async (key: string, defaultValue: unknown) => storedBases.has(key) ? storedBases.get(key) : defaultValue,
+    set: async (key: string, value: unknown) => { storedBases.set(key, structuredClone(value)); },
+    remove: async (key: string) => { storedBases.delete(key); },
+  },
+}));
+
+/**
+ * 把 fetch 请求转给参考服务器的请求处理函数
+ */
+const createServerFetch = (store: ReturnType<typeof createSyncStore>, tokens?: string[]): typeof fetch =>
+  (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(String(input));
+    const headers = Object.fromEntries(
+      Object.entries((init.headers ?? {}) as Record<string, string>).map(([k, v]) => [k.toLowerCase(), v])
+    );
+    const { status, body } = handleSyncRequest(
+      store,
+      { method: init.method ?? 'GET', url: `${url.pathname}${url.search}`, headers, body: init.body as string | undefined },
+      { tokens }
+    );
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+
+const createDevice = (deviceId: string, token = 'team') => {
+  const service = new SyncService();
+  service.setTransport(new RestSyncTransport({ baseUrl: BASE_URL, token, deviceId }));
+  const remoteChanges: SyncRecord[] = [];
+  service.on('remoteChange', (event) => {
+    remoteChanges.push(...(event.data as { records: SyncRecord[] }).records);
+  });
+  return { service, remoteChanges };
+};
+
+describe('server/sync-server', () => {
+  it('should assign revisions and report conflicts when the base revision is stale', () => {
+    const store = createSyncStore();
+
+    const first = store.push('team', [{ key: 'novels/1', operation: 'create', data: { title: 'A' }, baseRevision: 0 }], 'pc');
+    expect(first.results[0]).toMatchObject({ status: 'applied', record: { revision: 1, deviceId: 'pc' } });
+
+    const second = store.push('team', [{ key: 'novels/1', operation: 'update', data: { title: 'B' }, baseRevision: 1 }]);
+    expect(second.results[0]).toMatchObject({ status: 'applied', record: { revision: 2, data: { title: 'B' } } });
+
+    const stale = store.push('team', [{ key: 'novels/1', operation: 'update', data: { title: 'C' }, baseRevision: 1 }]);
+    expect(stale.results[0]).toMatchObject({ status: 'conflict', record: { revision: 2, data: { title: 'B' } } });
+
+    const removed = store.push('team', [{ key: 'novels/1', operation: 'delete', data: null, baseRevision: 2 }]);
+    expect(removed.results[0].record).toMatchObject({ revision: 3, deleted: true, data: null });
+  });
+
+  it('should pull only records written after since, even within the same millisecond', () => {
+    const store = createSyncStore({ now: () => 1_700_000_000_000 });
+
+    store.push('team', [{ key: 'a', operation: 'create', data: 1, baseRevision: 0 }]);
+    const { serverTime } = store.pull('team');
+    store.push('team', [{ key: 'b', operation: 'create', data: 2, baseRevision: 0 }]);
+
+    expect(store.pull('team').records.map(r => r.key)).toEqual(['a', 'b']);
+    expect(store.pull('team', serverTime).records.map(r => r.key)).toEqual(['b']);
+    expect(store.pull('other').records).toEqual([]);
+  });
+
+  it('should validate tokens and request bodies', () => {
+    const store = createSyncStore();
+    const request = (headers: Record<string, string>, body?: string) =>
+      handleSyncRequest(store, { method: 'POST', url: '/sync/push', headers, body }, { tokens: ['team'] });
+
+    expect(request({}).status).toBe(401);
+    expect(request({ authorization: 'Bearer guest' }).status).toBe(401);
+    expect(request({ authorization: 'Bearer team' }, '{not json').status).toBe(400);
+    expect(request({ authorization: 'Bearer team' }, JSON.stringify({ changes: [{ key: 'a', operation: 'rename' }] })).status).toBe(400);
+    expect(request({ authorization: 'Bearer team' }, JSON.stringify({ changes: [] })).status).toBe(200);
+    expect(handleSyncRequest(store, { method: 'GET', url: '/health', headers: {} }).status).toBe(200);
+  });
+});
+
+describe('SyncService', () => {
+  let store: ReturnType<typeof createSyncStore>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    store = createSyncStore();
+    vi.stubGlobal('fetch', createServerFetch(store));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    localStorage.clear();
+    storedBases.clear();
+  });
+
+  it('should push queued changes and pull them incrementally on another device', async () => {
+    const pc = createDevice('pc');
+    const laptop = createDevice('laptop');
+    const progress: SyncProgress[] = [];
+    pc.service.on('syncProgress', (event) => progress.push(event.data as SyncProgress));
+
+    await pc.service.addToQueue('novels/1', 'create', { title: '天道' });
+    await pc.service.forceSync();
+
+    expect(pc.service.getRevision('novels/1')).toBe(1);
+    expect(pc.service.getQueueState()).toMatchObject({ pendingCount: 0, remoteEnabled: true });
+    expect(progress).toContainEqual({ phase: 'push', completed: 1, total: 1 });
+    // 自己推送的修订不会作为远端变更再写回
+    expect(pc.remoteChanges).toEqual([]);
+
+    await laptop.service.forceSync();
+    expect(laptop.remoteChanges).toHaveLength(1);
+    expect(laptop.remoteChanges[0]).toMatchObject({ key: 'novels/1', revision: 1, data: { title: '天道' }, deviceId: 'pc' });
+
+    // 再次同步只拉取 lastSyncAt 之后的变更
+    await laptop.service.forceSync();
+    expect(laptop.remoteChanges).toHaveLength(1);
+
+    await pc.service.addToQueue('novels/1', 'update', { title: '天道·修订' });
+    await pc.service.forceSync();
+    await laptop.service.forceSync();
+    expect(laptop.remoteChanges).toHaveLength(2);
+    expect(laptop.service.getRevision('novels/1')).toBe(2);
+  });
+
+  it('should mark a conflict when the server revision moved and resolve it', async () => {
+    const pc = createDevice('pc');
+    const laptop = createDevice('laptop');
+
+    await pc.service.addToQueue('novels/1', 'create', { title: '初稿' });
+    await pc.service.forceSync();
+    await laptop.service.forceSync();
+
+    await pc.service.addToQueue('novels/1', 'update', { title: '台式机修改' });
+    await pc.service.forceSync();
+
+    const conflicts: SyncItem[] = [];
+    laptop.service.on('conflict', (event) => conflicts.push((event.data as { item: SyncItem }).item));
+    await laptop.service.addToQueue('novels/1', 'update', { title: '笔记本修改' });
+    await laptop.service.forceSync();
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].remote).toMatchObject({ revision: 2, data: { title: '台式机修改' } });
+    expect(laptop.service.getQueueState().conflictCount).toBe(1);
+    expect(store.pull('team').records[0].data).toEqual({ title: '台式机修改' });
+
+    // 继续编辑不会覆盖冲突状态
+    await laptop.service.addToQueue('novels/1', 'update', { title: '笔记本再修改' });
+    expect(laptop.service.getConflicts()).toHaveLength(1);
+
+    await laptop.service.resolveConflict(conflicts[0].id, { data: { title: '合并稿' } });
+    await laptop.service.forceSync();
+
+    expect(laptop.service.getQueueState().conflictCount).toBe(0);
+    expect(store.pull('team').records[0]).toMatchObject({ revision: 3, data: { title: '合并稿' }, deviceId: 'laptop' });
+  });
+
+  it('should discard the local change when resolving with the remote copy', async () => {
+    const pc = createDevice('pc');
+    const laptop = createDevice('laptop');
+
+    await pc.service.addToQueue('novels/1', 'create', { title: '台式机' });
+    await pc.service.forceSync();
+
+    await laptop.service.addToQueue('novels/1', 'create', { title: '笔记本' });
+    await laptop.service.forceSync();
+    const [conflict] = laptop.service.getConflicts();
+    expect(conflict).toBeDefined();
+
+    await laptop.service.resolveConflict(conflict.id, 'remote');
+
+    expect(laptop.service.getConflicts()).toEqual([]);
+    expect(laptop.remoteChanges.at(-1)).toMatchObject({ key: 'novels/1', data: { title: '台式机' } });
+    expect(laptop.service.getRevision('novels/1')).toBe(1);
+  });
+
+  it('should auto-merge conflicts with a registered merger using the common ancestor', async () => {
+    const laptop = createDevice('laptop');
+    const merger = vi.fn((base: unknown, local: unknown, remote: unknown) => {
+      const [b, l, r] = [base, local, remote] as Record<string, string>[];
+      const merged = { ...l };
+      Object.keys(r).forEach(field => {
+        if (r[field] !== b?.[field]) merged[field] = r[field];
+      });
+      return { merged, conflicts: [] };
+    });
+    laptop.service.registerMerger('novels/', merger);
+
+    store.push('team', [{ key: 'novels/1', operation: 'create', data: { title: '初稿', outline: '大纲' }, baseRevision: 0 }], 'pc');
+    await laptop.service.forceSync();
+    expect(await laptop.service.loadBase('novels/1')).toEqual({ title: '初稿', outline: '大纲' });
+
+    store.push('team', [{ key: 'novels/1', operation: 'update', data: { title: '台式机标题', outline: '大纲' }, baseRevision: 1 }], 'pc');
+    await laptop.service.addToQueue('novels/1', 'update', { title: '初稿', outline: '笔记本大纲' });
+    await laptop.service.forceSync();
+
+    expect(merger).toHaveBeenCalledWith(
+      { title: '初稿', outline: '大纲' },
+      { title: '初稿', outline: '笔记本大纲' },
+      { title: '台式机标题', outline: '大纲' }
+    );
+    expect(laptop.service.getConflicts()).toEqual([]);
+    expect(laptop.remoteChanges.at(-1)).toMatchObject({ data: { title: '台式机标题', outline: '笔记本大纲' } });
+
+    await laptop.service.forceSync();
+    expect(store.pull('team').records[0]).toMatchObject({ revision: 3, data: { title: '台式机标题', outline: '笔记本大纲' } });
+  });
+
+  it('should keep items queued and report failure when the server is unreachable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: { message: '维护中' } }), { status: 503 })));
+    const pc = createDevice('pc');
+    const failed = vi.fn();
+    pc.service.on('syncFailed', failed);
+
+    await pc.service.addToQueue('novels/1', 'create', { title: '天道' });
+    await pc.service.forceSync();
+
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ error: '维护中' }) }));
+    expect(pc.service.getQueueState().pendingCount).toBe(1);
+    expect(pc.service.getRevision('novels/1')).toBe(0);
+  });
+});
+
+describe('RestSyncTransport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the token and device id and surface server errors', async () => {
+    const store = createSyncStore();
+    vi.stubGlobal('fetch', createServerFetch(store, ['team']));
+
+    const transport = new RestSyncTransport({ baseUrl: `${BASE_URL}/`, token: 'team', deviceId: 'pc' });
+    const pushed = await transport.push([{ key: 'k', operation: 'create', data: 'v', baseRevision: 0 }]);
+    expect(pushed.results[0]).toMatchObject({ status: 'applied', record: { deviceId: 'pc' } });
+    expect((await transport.pull()).records).toHaveLength(1);
+    expect((await transport.pull(pushed.serverTime)).records).toHaveLength(0);
+
+    const guest = new RestSyncTransport({ baseUrl: BASE_URL, token: 'guest' });
+    const error = await guest.pull().catch(e => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ statusCode: 401, message: '访问令牌无效' });
+  });
+});
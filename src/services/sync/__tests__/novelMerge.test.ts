@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import type { Character, Chapter, ChapterComment, Novel } from '../../../types';
+import { hashContent } from '../../rag/chunking';
+import { chooseNovelSide, mergeNovel, mergeNovelLists, resolveNovelMerge } from '../novelMerge';
+
+const chapter = (id: string, content: string, title = `第${id}章`): Chapter => ({
+  id,
+  title,
+  content,
+  wordCount: content.replace(/\s/g, '').length,
+});
+
+const character = (id: string, name: string, role = '主角'): Character => ({
+  id,
+  name,
+  role,
+  description: '',
+  traits: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+const base: Novel = {
+  id: 'n1',
+  title: '天道',
+  description: '简介',
+  wordCount: 12,
+  status: 'ongoing',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  tags: [],
+  chapters: [chapter('1', '山门初开\n少年登山\n雾起'), chapter('2', '夜雨')],
+  characters: [character('c1', '林逸'), character('c2', '苏晴', '配角')],
+};
+
+const edit = (patch: Partial<Novel>): Novel => ({ ...base, ...patch, updatedAt: '2026-02-01T00:00:00.000Z' });
+
+describe('novelMerge', () => {
+  it('should merge edits to different paragraphs, chapters and codex entries', () => {
+    const local = edit({
+      chapters: [chapter('1', '山门初开（改）\n少年登山\n雾起'), chapter('2', '夜雨'), chapter('3', '新章')],
+      characters: [character('c1', '林逸尘'), character('c2', '苏晴', '配角')],
+    });
+    const remote = edit({
+      description: '新简介',
+      chapters: [chapter('1', '山门初开\n少年登山\n雾散'), chapter('2', '夜雨', '雨夜')],
+      characters: [character('c1', '林逸'), character('c2', '苏晴', '女主')],
+    });
+
+    const { merged, conflicts } = mergeNovel(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.description).toBe('新简介');
+    expect(merged.chapters!.map(c => [c.title, c.content])).toEqual([
+      ['第1章', '山门初开（改）\n少年登山\n雾散'],
+      ['雨夜', '夜雨'],
+      ['第3章', '新章'],
+    ]);
+    expect(merged.characters!.map(c => [c.name, c.role])).toEqual([['林逸尘', '主角'], ['苏晴', '女主']]);
+    expect(merged.wordCount).toBe(merged.chapters!.reduce((sum, c) => sum + c.wordCount, 0));
+  });
+
+  it('should report conflicting fields and paragraphs and resolve them by choice', () => {
+    const local = edit({
+      chapters: [chapter('1', '山门初开\n少年独自登山\n雾起'), chapter('2', '夜雨')],
+      characters: [character('c1', '林逸', '反派'), character('c2', '苏晴', '配角')],
+    });
+    const remote = edit({
+      chapters: [chapter('1', '山门初开\n少年与师兄登山\n雾起'), chapter('2', '夜雨')],
+      characters: [character('c1', '林逸', '导师'), character('c2', '苏晴', '配角')],
+    });
+
+    const result = mergeNovel(base, local, remote);
+    expect(result.conflicts.map(c => c.id)).toEqual(['content:1', 'characters:c1:role']);
+    expect(result.conflicts[1]).toMatchObject({ kind: 'field', label: '人物「林逸」', local: '反派', remote: '导师' });
+
+    const resolved = resolveNovelMerge(result, { 'content:1#0': 'remote', 'characters:c1:role': 'remote' });
+    const first = resolved.chapters![0];
+    expect(first.content).toBe('山门初开\n少年与师兄登山\n雾起');
+    expect(resolved.characters![0].role).toBe('导师');
+    // 被舍弃的本机正文保存为历史版本
+    expect(first.versions).toHaveLength(1);
+    expect(first.versions![0]).toMatchObject({ chapterId: '1', content: local.chapters![0].content, note: '同步冲突：本机的版本' });
+
+    // 未选择时保留本机
+    expect(resolveNovelMerge(result).characters![0].role).toBe('反派');
+  });
+
+  it('should keep the losing side of every conflict as a version when choosing one side', () => {
+    const local = edit({
+      chapters: [chapter('1', '山门初开\n少年独自登山\n雾起'), chapter('2', '夜雨')],
+      characters: [character('c1', '林逸', '反派'), character('c2', '苏晴', '配角')],
+    });
+    const remote = edit({
+      chapters: [chapter('1', '山门初开\n少年与师兄登山\n雾起'), chapter('2', '夜雨\n雷鸣')],
+      characters: [character('c1', '林逸', '导师'), character('c2', '苏晴', '配角')],
+    });
+
+    const result = mergeNovel(base, local, remote);
+    const resolved = resolveNovelMerge(result, chooseNovelSide(result, 'remote'));
+    const [first, second] = resolved.chapters!;
+    expect(first.content).toBe(remote.chapters![0].content);
+    expect(first.versions!.map(v => [v.content, v.trigger])).toEqual([[local.chapters![0].content, 'sync']]);
+    expect(second.content).toBe('夜雨\n雷鸣');
+    expect(resolved.characters![0].role).toBe('导师');
+
+    const kept = resolveNovelMerge(result, chooseNovelSide(result, 'local'));
+    expect(kept.chapters![0].content).toBe(local.chapters![0].content);
+    expect(kept.chapters![0].versions!.map(v => v.content)).toEqual([remote.chapters![0].content]);
+  });
+
+  it('should keep both copies of a paragraph when choosing both', () => {
+    const local = edit({ chapters: [chapter('1', '甲'), chapter('2', '夜雨')] });
+    const remote = edit({ chapters: [chapter('1', '乙'), chapter('2', '夜雨')] });
+
+    const result = mergeNovel(undefined, local, remote);
+    const resolved = resolveNovelMerge(result, { 'content:1#0': 'both' });
+    expect(resolved.chapters![0].content).toBe('甲\n乙');
+    expect(resolved.chapters![0].versions!.map(v => v.note)).toEqual(['同步冲突：另一设备的版本', '同步冲突：本机的版本']);
+  });
+
+  it('should keep the chapter summary that matches the merged content', () => {
+    const summarized = (c: Chapter, brief: string): Chapter => ({
+      ...c,
+      summary: {
+        brief,
+        detailed: brief,
+        keyCharacters: [],
+        keyEvents: [],
+        keyLocations: [],
+        plotTags: [],
+        contentHash: hashContent(c.content),
+        generatedAt: '2026-02-01T00:00:00.000Z',
+      },
+    });
+    const local = edit({ chapters: [summarized(base.chapters![0], '旧摘要'), chapter('2', '夜雨')] });
+    const remote = edit({ chapters: [base.chapters![0], summarized(chapter('2', '夜雨\n雷鸣'), '雷雨夜')] });
+
+    const { merged, conflicts } = mergeNovel(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.chapters![0].summary?.brief).toBe('旧摘要');
+    expect(merged.chapters![1].summary?.brief).toBe('雷雨夜');
+  });
+
+  it('should merge comments, replies and resolutions from both devices', () => {
+    const comment = (id: string, patch: Partial<ChapterComment> = {}): ChapterComment => ({
+      id,
+      chapterId: '1',
+      authorId: 'u1',
+      authorName: '阿青',
+      content: '这里节奏太快',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      ...patch,
+    });
+    const ancestor = { ...base, comments: [comment('k1')] };
+    const local = { ...ancestor, comments: [comment('k1', { resolved: true }), comment('k2', { parentId: 'k1' })] };
+    const remote = { ...ancestor, comments: [comment('k1'), comment('k3', { parentId: 'k1', authorId: 'u2' })] };
+
+    const result = mergeNovel(ancestor, local, remote);
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.comments!.map(c => c.id).sort()).toEqual(['k1', 'k2', 'k3']);
+    expect(result.merged.comments!.find(c => c.id === 'k1')!.resolved).toBe(true);
+  });
+
+  it('should merge novel lists saved by two tabs', () => {
+    const other: Novel = { ...base, id: 'n2', title: '另一本', chapters: [] };
+    const local = [edit({ title: '天道·改' })];
+    const remote = [base, other];
+
+    const merged = mergeNovelLists([base], local, remote);
+    expect(merged.map(n => n.title)).toEqual(['天道·改', '另一本']);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview 作品三方合并
+ * @module services/sync/novelMerge
+ * @description 同一作品在两台设备（或两个标签页）上同时修改时，以共同祖先为参照合并
+ *
+ * - 章节正文按段落合并，作品信息、章节标题和设定（人物、世界观、地点、道具、伏笔等）按字段合并
+ * - 无法自动合并的部分生成冲突，由用户逐项选择；未选择的冲突默认保留本机
+ * - 正文冲突处理后，被舍弃的一方整章保存为章节历史版本，不会丢失
+ */
+
+import type { Chapter, ChapterVersion, Novel } from '../../types';
+import { createVersionId } from '../../utils/id';
+import { hashContent } from '../rag/chunking';
+import { countWords, getWordCountMode, sumWordCount } from '../../utils/wordCount';
+import {
+  deepEqual,
+  mergeById,
+  mergeFields,
+  mergeText,
+  resolveTextHunks,
+  type FieldConflict,
+  type MergeChoice,
+  type TextMergeHunk,
+} from '../../utils/threeWayMerge';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 按 id 合并的作品集合及其显示名称
+ */
+export const NOVEL_COLLECTION_LABELS = {
+  characters: '人物',
+  worldviews: '世界观',
+  locations: '地点',
+  items: '道具',
+  foreshadowings: '伏笔',
+  volumes: '分卷',
+  timelineEvents: '事件',
+  references: '素材',
+  mindMaps: '思维导图',
+  outlineNodes: '大纲',
+  characterRelations: '人物关系',
+  writingGoals: '写作目标',
+  writingRecords: '写作记录',
+  chapterTemplates: '章节模板',
+  comments: '批注',
+  suggestions: '修订建议',
+  codexProposals: '设定提取建议',
+} as const;
+
+export type NovelCollection = keyof typeof NOVEL_COLLECTION_LABELS;
+
+const COLLECTIONS = Object.keys(NOVEL_COLLECTION_LABELS) as NovelCollection[];
+
+/** 不参与冲突判断的作品字段：集合单独合并，字数和更新时间合并后重新计算 */
+const NOVEL_IGNORED_FIELDS = ['chapters', ...COLLECTIONS, 'wordCount', 'updatedAt'];
+
+/** 不参与字段合并的章节字段：正文按段落合并，版本取并集，摘要取与合并后正文一致的一方 */
+const CHAPTER_IGNORED_FIELDS = ['content', 'wordCount', 'versions', 'summary'];
+
+/**
+ * 章节正文冲突
+ */
+export interface ChapterContentConflict {
+  /** 冲突标识，正文片段的取舍键为 `${id}#${片段序号}` */
+  id: string;
+  kind: 'content';
+  chapterId: string;
+  label: string;
+  hunks: TextMergeHunk[];
+  /** 本机整章正文 */
+  local: string;
+  /** 另一设备整章正文 */
+  remote: string;
+}
+
+/**
+ * 字段冲突
+ */
+export interface NovelFieldConflict extends FieldConflict {
+  id: string;
+  kind: 'field';
+  /** 所在集合，作品本身的字段为 novel */
+  collection: NovelCollection | 'chapters' | 'novel';
+  entityId?: string;
+  label: string;
+}
+
+export type NovelMergeConflict = ChapterContentConflict | NovelFieldConflict;
+
+/**
+ * 作品合并结果，冲突处暂取本机内容
+ */
+export interface NovelMergeResult {
+  merged: Novel;
+  conflicts: NovelMergeConflict[];
+}
+
+/**
+ * 冲突取舍：字段冲突以冲突 id 为键，正文冲突以 `${id}#${片段序号}` 为键
+ */
+export type NovelMergeChoices = Record<string, MergeChoice>;
+
+// ==================== 合并 ====================
+
+const entityLabel = (collection: NovelCollection, entity: Record<string, unknown>): string => {
+  const name = entity.name ?? entity.title ?? entity.relationType ?? entity.date ?? entity.authorName ?? entity.id;
+  return `${NOVEL_COLLECTION_LABELS[collection]}「${String(name)}」`;
+};
+
+const withWordCount = (chapter: Chapter, novel: Novel): Chapter => {
+  const wordCount = countWords(chapter.content, getWordCountMode(novel));
+  return wordCount === chapter.wordCount ? chapter : { ...chapter, wordCount };
+};
+
+/**
+ * 三方合并作品
+ *
+ * @param base - 两边共同的上一个版本，未知时传 undefined
+ */
+export function mergeNovel(base: Novel | undefined, local: Novel, remote: Novel): NovelMergeResult {
+  if (deepEqual(local, remote) || (base && deepEqual(base, remote))) {
+    return { merged: local, conflicts: [] };
+  }
+  if (base && deepEqual(base, local)) {
+    return { merged: remote, conflicts: [] };
+  }
+
+  const conflicts: NovelMergeConflict[] = [];
+
+  const novelFields = mergeFields(base, local, remote, NOVEL_IGNORED_FIELDS);
+  novelFields.conflicts.forEach(conflict => {
+    conflicts.push({ ...conflict, id: `novel:${conflict.field}`, kind: 'field', collection: 'novel', label: '作品信息' });
+  });
+  const merged: Novel = { ...novelFields.merged };
+
+  // 章节：标题等按字段合并，正文按段落合并
+  if (local.chapters || remote.chapters) {
+    merged.chapters = mergeById(base?.chapters, local.chapters, remote.chapters, (b, l, r) => {
+      const label = `章节「${l.title || r.title}」`;
+      const fields = mergeFields(b, l, r, CHAPTER_IGNORED_FIELDS);
+      fields.conflicts.forEach(conflict => {
+        conflicts.push({ ...conflict, id: `chapters:${l.id}:${conflict.field}`, kind: 'field', collection: 'chapters', entityId: l.id, label });
+      });
+
+      const content = mergeText(b?.content, l.content, r.content);
+      if (content.conflicts > 0) {
+        conflicts.push({
+          id: `content:${l.id}`,
+          kind: 'content',
+          chapterId: l.id,
+          label,
+          hunks: content.hunks,
+          local: l.content,
+          remote: r.content,
+        });
+      }
+
+      const versions = mergeById<ChapterVersion>(b?.versions, l.versions, r.versions, (_, lv) => lv);
+      const mergedContent = content.merged ?? l.content;
+      // 两边都过期时保留本机摘要，编辑器会在后台重新生成
+      const contentHash = hashContent(mergedContent);
+      const summary = [l.summary, r.summary].find(s => s?.contentHash === contentHash) ?? l.summary;
+      return {
+        ...fields.merged,
+        content: mergedContent,
+        ...(versions.length > 0 ? { versions } : {}),
+        ...(summary ? { summary } : {}),
+      };
+    }).map(chapter => withWordCount(chapter, merged));
+  }
+
+  // 设定及其他集合：按字段合并
+  COLLECTIONS.forEach(collection => {
+    const localItems = local[collection] as { id: string }[] | undefined;
+    const remoteItems = remote[collection] as { id: string }[] | undefined;
+    if (!localItems && !remoteItems) return;
+
+    const items = mergeById(base?.[collection] as { id: string }[] | undefined, localItems, remoteItems, (b, l, r) => {
+      const fields = mergeFields(b, l, r);
+      const label = entityLabel(collection, l as Record<string, unknown>);
+      fields.conflicts.forEach(conflict => {
+        conflicts.push({ ...conflict, id: `${collection}:${l.id}:${conflict.field}`, kind: 'field', collection, entityId: l.id, label });
+      });
+      return fields.merged;
+    });
+    (merged as unknown as Record<string, unknown>)[collection] = items;
+  });
+
+  merged.wordCount = merged.chapters ? sumWordCount(merged.chapters) : local.wordCount;
+  merged.updatedAt = local.updatedAt;
+
+  return { merged, conflicts };
+}
+
+/**
+ * 按取舍生成最终作品
+ *
+ * 未给出取舍的冲突保留本机；正文冲突处理后与最终正文不同的一方（本机或另一设备）
+ * 保存为该章节的历史版本。
+ */
+export function resolveNovelMerge(result: NovelMergeResult, choices: NovelMergeChoices = {}): Novel {
+  let novel: Novel = { ...result.merged };
+  const now = new Date().toISOString();
+
+  const updateEntity = (collection: NovelCollection | 'chapters', id: string, update: (entity: any) => any) => {
+    const items = (novel as unknown as Record<string, { id: string }[] | undefined>)[collection];
+    if (!items) return;
+    (novel as unknown as Record<string, unknown>)[collection] = items.map(item => item.id === id ? update(item) : item);
+  };
+
+  result.conflicts.forEach(conflict => {
+    if (conflict.kind === 'field') {
+      if ((choices[conflict.id] ?? 'local') !== 'remote') return;
+      const apply = (entity: Record<string, unknown>) => {
+        const next = { ...entity };
+        if (conflict.remote === undefined) {
+          delete next[conflict.field];
+        } else {
+          next[conflict.field] = conflict.remote;
+        }
+        return next;
+      };
+      if (conflict.collection === 'novel') {
+        novel = apply(novel as unknown as Record<string, unknown>) as unknown as Novel;
+      } else {
+        updateEntity(conflict.collection, conflict.entityId!, apply);
+      }
+      return;
+    }
+
+    const content = resolveTextHunks(conflict.hunks, index => choices[`${conflict.id}#${index}`] ?? 'local');
+    const mode = getWordCountMode(novel);
+    const losing: ChapterVersion[] = [
+      { content: conflict.remote, note: '同步冲突：另一设备的版本' },
+      { content: conflict.local, note: '同步冲突：本机的版本' },
+    ]
+      .filter(side => side.content !== content)
+      .map(side => ({
+        id: createVersionId(),
+        chapterId: conflict.chapterId,
+        content: side.content,
+        wordCount: countWords(side.content, mode),
+        createdAt: now,
+        note: side.note,
+        trigger: 'sync' as const,
+      }));
+
+    updateEntity('chapters', conflict.chapterId, (chapter: Chapter) => ({
+      ...chapter,
+      content,
+      wordCount: countWords(content, mode),
+      versions: [...losing, ...(chapter.versions ?? [])],
+    }));
+  });
+
+  if (novel.chapters) {
+    novel.wordCount = sumWordCount(novel.chapters);
+  }
+  return novel;
+}
+
+/**
+ * 所有冲突统一取同一方，用于整体“保留本机”或“使用云端”
+ *
+ * 与逐项合并走同一流程，另一方的正文冲突章节仍会保存为历史版本。
+ */
+export function chooseNovelSide(result: NovelMergeResult, side: MergeChoice): NovelMergeChoices {
+  const choices: NovelMergeChoices = {};
+  result.conflicts.forEach(conflict => {
+    if (conflict.kind === 'field') {
+      choices[conflict.id] = side;
+      return;
+    }
+    conflict.hunks
+      .filter(hunk => hunk.type === 'conflict')
+      .forEach((_, index) => {
+        choices[`${conflict.id}#${index}`] = side;
+      });
+  });
+  return choices;
+}
+
+/**
+ * 合并两个标签页各自保存的作品列表，冲突保留当前标签页的修改
+ */
+export function mergeNovelLists(base: Novel[] | undefined, local: Novel[], remote: Novel[]): Novel[] {
+  return mergeById(base, local, remote, (b, l, r) => resolveNovelMerge(mergeNovel(b, l, r)));
+}
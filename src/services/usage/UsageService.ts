@@ -0,0 +1,362 @@
+/**
+ * @fileoverview AI 用量与费用账本服务
+ * @module services/usage/UsageService
+ * @description 记录每次 AI 调用的 token 用量、模型、功能和作品，按日/作品/功能/模型汇总，并提供预算检查
+ */
+
+import {
+  AiFeature,
+  BudgetCheckResult,
+  TokenUsage,
+  UsageBreakdownItem,
+  UsageBudget,
+  UsageRecord,
+  UsageTotals,
+} from '../../types/usage';
+import { ApiSettings, getApiSettings, getModelInfo, ModelPricing } from '../../config/apiConfig';
+import { createId } from '../../utils/id';
+
+const USAGE_STORAGE_KEY = 'tiandao_ai_usage';
+const BUDGET_STORAGE_KEY = 'tiandao_ai_budget';
+const PRICING_STORAGE_KEY = 'tiandao_model_pricing';
+
+/** 账本最多保留的记录数 */
+const MAX_RECORDS = 5000;
+
+const DEFAULT_BUDGET: UsageBudget = { dailyLimit: 0, novelLimit: 0, mode: 'warn' };
+
+/**
+ * 功能显示名称
+ */
+export const AI_FEATURE_LABELS: Record<AiFeature, string> = {
+  chat: 'AI 对话',
+  continue_writing: '续写',
+  batch_draft: '批量草稿',
+  refinement: '精修',
+  outline: '大纲设定',
+  book_breaker: '拆书',
+  short_novel: '短篇创作',
+  writing_tool: '写作工具',
+  summary: '章节摘要',
+  codex: '设定提取',
+  embedding: '向量索引',
+  other: '其他',
+};
+
+/**
+ * 估算费用使用的服务商和模型
+ */
+export interface CostTarget {
+  provider: string;
+  model: string;
+}
+
+/**
+ * 新增记录的参数
+ */
+export interface RecordUsageInput {
+  provider: string;
+  model: string;
+  feature: AiFeature;
+  novelId?: string;
+  usage: TokenUsage;
+  estimated?: boolean;
+}
+
+/** 本地日期 YYYY-MM-DD，与用户看到的日期一致 */
+const localDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const today = (): string => localDate(new Date());
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 });
+
+const addToTotals = (totals: UsageTotals, record: UsageRecord): void => {
+  totals.calls += 1;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.cost += record.cost;
+};
+
+export class UsageService {
+  /**
+   * 估算文本的 token 数
+   *
+   * 中日韩字符约 1 token/字，其余字符约 4 字符/token。
+   */
+  static estimateTokens(text: string): number {
+    if (!text) return 0;
+    const cjk = (text.match(/[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/g) || []).length;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+  }
+
+  /**
+   * 获取用户自定义的模型单价
+   */
+  static getCustomPricing(): Record<string, ModelPricing> {
+    try {
+      const data = localStorage.getItem(PRICING_STORAGE_KEY);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('获取模型单价失败:', error);
+      return {};
+    }
+  }
+
+  /**
+   * 设置模型单价，传 null 恢复默认
+   */
+  static setCustomPricing(modelId: string, pricing: ModelPricing | null): void {
+    try {
+      const custom = this.getCustomPricing();
+      if (pricing) {
+        custom[modelId] = pricing;
+      } else {
+        delete custom[modelId];
+      }
+      localStorage.setItem(PRICING_STORAGE_KEY, JSON.stringify(custom));
+    } catch (error) {
+      console.error('设置模型单价失败:', error);
+    }
+  }
+
+  /**
+   * 获取模型单价（自定义优先，其次 PROVIDER_MODELS 中的默认值）
+   */
+  static getPricing(provider: string, modelId: string): ModelPricing | undefined {
+    return this.getCustomPricing()[modelId] ?? getModelInfo(provider, modelId)?.pricing;
+  }
+
+  /**
+   * 计算费用（美元），未知单价的模型按 0 计
+   */
+  static calculateCost(provider: string, modelId: string, usage: TokenUsage): number {
+    const pricing = this.getPricing(provider, modelId);
+    if (!pricing) return 0;
+    return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+  }
+
+  /**
+   * 记录一次调用
+   */
+  static record(input: RecordUsageInput): UsageRecord {
+    const now = new Date();
+    const record: UsageRecord = {
+      id: createId(),
+      timestamp: now.toISOString(),
+      date: localDate(now),
+      provider: input.provider,
+      model: input.model,
+      feature: input.feature,
+      novelId: input.novelId,
+      promptTokens: input.usage.promptTokens,
+      completionTokens: input.usage.completionTokens,
+      cost: this.calculateCost(input.provider, input.model, input.usage),
+      estimated: input.estimated ?? false,
+    };
+
+    try {
+      const records = [...this.getRecords(), record].slice(-MAX_RECORDS);
+      localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(records));
+    } catch (error) {
+      console.error('记录 AI 用量失败:', error);
+    }
+
+    return record;
+  }
+
+  /**
+   * 获取用量记录
+   */
+  static getRecords(filter: { novelId?: string; since?: string } = {}): UsageRecord[] {
+    let records: UsageRecord[];
+    try {
+      const data = localStorage.getItem(USAGE_STORAGE_KEY);
+      // 早期记录的 date 为 UTC 日期，统一按调用时间换算为本地日期
+      records = (data ? JSON.parse(data) as UsageRecord[] : []).map(r => ({ ...r, date: localDate(new Date(r.timestamp)) }));
+    } catch (error) {
+      console.error('获取 AI 用量失败:', error);
+      return [];
+    }
+
+    return records.filter(r =>
+      (filter.novelId === undefined || r.novelId === filter.novelId) &&
+      (filter.since === undefined || r.date >= filter.since)
+    );
+  }
+
+  /**
+   * 汇总用量
+   */
+  static getTotals(records: UsageRecord[] = this.getRecords()): UsageTotals {
+    const totals = emptyTotals();
+    records.forEach(r => addToTotals(totals, r));
+    return totals;
+  }
+
+  /**
+   * 按日汇总最近 N 天（含无调用的日期）
+   */
+  static getDailyBreakdown(days: number = 30): UsageBreakdownItem[] {
+    const result: UsageBreakdownItem[] = [];
+    const byDate = new Map<string, UsageBreakdownItem>();
+    const now = new Date();
+
+    for (let i = days - 1; i >= 0; i--) {
+      const date = new Date(now);
+      date.setDate(now.getDate() - i);
+      const key = localDate(date);
+      const item = { key, ...emptyTotals() };
+      byDate.set(key, item);
+      result.push(item);
+    }
+
+    this.getRecords({ since: result[0]?.key }).forEach(r => {
+      const item = byDate.get(r.date);
+      if (item) addToTotals(item, r);
+    });
+
+    return result;
+  }
+
+  /**
+   * 按作品、功能或模型汇总，按费用降序
+   *
+   * 未关联作品的调用 key 为空字符串。
+   */
+  static getBreakdown(
+    by: 'novel' | 'feature' | 'model',
+    records: UsageRecord[] = this.getRecords()
+  ): UsageBreakdownItem[] {
+    const groups = new Map<string, UsageBreakdownItem>();
+
+    records.forEach(r => {
+      const key = by === 'novel' ? (r.novelId ?? '') : by === 'feature' ? r.feature : `${r.provider}/${r.model}`;
+      let item = groups.get(key);
+      if (!item) {
+        item = { key, ...emptyTotals() };
+        groups.set(key, item);
+      }
+      addToTotals(item, r);
+    });
+
+    return Array.from(groups.values()).sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+  }
+
+  /**
+   * 获取预算设置
+   */
+  static getBudget(): UsageBudget {
+    try {
+      const data = localStorage.getItem(BUDGET_STORAGE_KEY);
+      return data ? { ...DEFAULT_BUDGET, ...JSON.parse(data) } : DEFAULT_BUDGET;
+    } catch (error) {
+      console.error('获取用量预算失败:', error);
+      return DEFAULT_BUDGET;
+    }
+  }
+
+  /**
+   * 保存预算设置
+   */
+  static setBudget(budget: UsageBudget): void {
+    try {
+      localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+    } catch (error) {
+      console.error('设置用量预算失败:', error);
+    }
+  }
+
+  /**
+   * 估算一次调用的费用
+   */
+  static estimateCost(provider: string, modelId: string, promptText: string, expectedOutputTokens: number): number {
+    return this.calculateCost(provider, modelId, {
+      promptTokens: this.estimateTokens(promptText),
+      completionTokens: expectedOutputTokens,
+    });
+  }
+
+  /**
+   * 按设置得到调用可能使用的服务商和模型：主服务商，以及启用的备用服务商
+   *
+   * 会员模式按积分计费，不计入美元预算，返回空数组。
+   */
+  static getCostTargets(settings: ApiSettings = getApiSettings()): CostTarget[] {
+    if (settings.apiMode === 'membership') return [];
+    const targets: CostTarget[] = [{ provider: settings.provider || 'google', model: settings.selectedModel }];
+    const fallback = settings.fallback;
+    if (fallback?.enabled && fallback.model && fallback.apiKey) {
+      targets.push({ provider: fallback.provider, model: fallback.model });
+    }
+    return targets;
+  }
+
+  /**
+   * 估算一批调用的总费用
+   *
+   * 主服务商失败时会改用备用服务商，每项按其中较贵的一个估算。
+   */
+  static estimateBatchCost(
+    items: { prompt: string; expectedOutputTokens: number }[],
+    targets: CostTarget[] = this.getCostTargets()
+  ): number {
+    return items.reduce(
+      (sum, item) => sum + Math.max(
+        0,
+        ...targets.map(t => this.estimateCost(t.provider, t.model, item.prompt, item.expectedOutputTokens))
+      ),
+      0
+    );
+  }
+
+  /**
+   * 检查加上预计费用后是否超出预算
+   *
+   * mode 为 'warn' 时超出也允许继续，只返回提示信息。
+   * 会员模式按积分计费，由会员服务检查余额，不检查美元预算。
+   */
+  static checkBudget(
+    options: { novelId?: string; estimatedCost?: number; settings?: ApiSettings } = {}
+  ): BudgetCheckResult {
+    const budget = this.getBudget();
+    const estimatedCost = options.estimatedCost ?? 0;
+    const projectedDaily = this.getTotals(this.getRecords({ since: today() })).cost + estimatedCost;
+    const projectedNovel = options.novelId
+      ? this.getTotals(this.getRecords({ novelId: options.novelId })).cost + estimatedCost
+      : 0;
+
+    if ((options.settings ?? getApiSettings()).apiMode === 'membership') {
+      return { allowed: true, exceeded: null, projectedDaily, projectedNovel };
+    }
+
+    let exceeded: BudgetCheckResult['exceeded'] = null;
+    let message: string | undefined;
+    if (budget.dailyLimit > 0 && projectedDaily > budget.dailyLimit) {
+      exceeded = 'daily';
+      message = `今日 AI 费用预计 $${projectedDaily.toFixed(4)}，超出每日预算 $${budget.dailyLimit}`;
+    } else if (options.novelId && budget.novelLimit > 0 && projectedNovel > budget.novelLimit) {
+      exceeded = 'novel';
+      message = `本作品 AI 费用预计 $${projectedNovel.toFixed(4)}，超出单部作品预算 $${budget.novelLimit}`;
+    }
+
+    return {
+      allowed: !exceeded || budget.mode === 'warn',
+      exceeded,
+      message,
+      projectedDaily,
+      projectedNovel,
+    };
+  }
+
+  /**
+   * 清空用量记录
+   */
+  static clear(): void {
+    try {
+      localStorage.removeItem(USAGE_STORAGE_KEY);
+    } catch (error) {
+      console.error('清空 AI 用量失败:', error);
+    }
+  }
+}
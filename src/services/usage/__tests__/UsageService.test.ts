@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getDefaultApiSettings } from '../../../config/apiConfig';
+import { UsageService } from '../UsageService';
+
+describe('UsageService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should estimate tokens for Chinese and Latin text', () => {
+    expect(UsageService.estimateTokens('')).toBe(0);
+    expect(UsageService.estimateTokens('天道酬勤')).toBe(4);
+    expect(UsageService.estimateTokens('abcdefgh')).toBe(2);
+  });
+
+  it('should calculate cost from PROVIDER_MODELS pricing', () => {
+    const cost = UsageService.calculateCost('openai', 'gpt-4o', { promptTokens: 1_000_000, completionTokens: 1_000_000 });
+    expect(cost).toBeCloseTo(12.5);
+  });
+
+  it('should prefer custom pricing over defaults', () => {
+    UsageService.setCustomPricing('gpt-4o', { input: 1, output: 1 });
+    expect(UsageService.calculateCost('openai', 'gpt-4o', { promptTokens: 500_000, completionTokens: 500_000 })).toBeCloseTo(1);
+
+    UsageService.setCustomPricing('gpt-4o', null);
+    expect(UsageService.getPricing('openai', 'gpt-4o')).toEqual({ input: 2.5, output: 10 });
+  });
+
+  it('should treat unknown models as free', () => {
+    expect(UsageService.calculateCost('custom', 'my-model', { promptTokens: 1000, completionTokens: 1000 })).toBe(0);
+  });
+
+  it('should record usage and break it down by novel, feature and model', () => {
+    UsageService.record({ provider: 'openai', model: 'gpt-4o', feature: 'chat', novelId: 'n1', usage: { promptTokens: 100, completionTokens: 50 } });
+    UsageService.record({ provider: 'openai', model: 'gpt-4o', feature: 'continue_writing', novelId: 'n1', usage: { promptTokens: 200, completionTokens: 100 } });
+    UsageService.record({ provider: 'deepseek', model: 'deepseek-chat', feature: 'chat', usage: { promptTokens: 10, completionTokens: 10 }, estimated: true });
+
+    expect(UsageService.getTotals()).toMatchObject({ calls: 3, promptTokens: 310, completionTokens: 160 });
+
+    const byNovel = UsageService.getBreakdown('novel');
+    expect(byNovel.find(i => i.key === 'n1')?.calls).toBe(2);
+    expect(byNovel.find(i => i.key === '')?.calls).toBe(1);
+
+    expect(UsageService.getBreakdown('feature').find(i => i.key === 'chat')?.calls).toBe(2);
+    expect(UsageService.getBreakdown('model').map(i => i.key)).toContain('deepseek/deepseek-chat');
+    expect(UsageService.getRecords({ novelId: 'n1' })).toHaveLength(2);
+  });
+
+  it('should fill empty days in the daily breakdown', () => {
+    UsageService.record({ provider: 'openai', model: 'gpt-4o', feature: 'chat', usage: { promptTokens: 1, completionTokens: 1 } });
+
+    const daily = UsageService.getDailyBreakdown(7);
+    expect(daily).toHaveLength(7);
+    expect(daily[6].calls).toBe(1);
+    expect(daily.slice(0, 6).every(d => d.calls === 0)).toBe(true);
+  });
+
+  it('should bucket records by local date', () => {
+    const record = UsageService.record({ provider: 'openai', model: 'gpt-4o', feature: 'chat', usage: { promptTokens: 1, completionTokens: 1 } });
+    const now = new Date(record.timestamp);
+    const local = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+    expect(record.date).toBe(local);
+    expect(UsageService.getDailyBreakdown(1)[0]).toMatchObject({ key: local, calls: 1 });
+  });
+
+  describe('estimateBatchCost', () => {
+    const items = [{ prompt: '天'.repeat(1_000_000), expectedOutputTokens: 0 }];
+    const settings = { ...getDefaultApiSettings(), provider: 'openai', selectedModel: 'gpt-4o-mini' };
+
+    it('should price each item at the dearer of the primary and fallback models', () => {
+      expect(UsageService.estimateBatchCost(items, UsageService.getCostTargets(settings))).toBeCloseTo(0.15);
+
+      const withFallback = { ...settings, fallback: { enabled: true, provider: 'openai', model: 'gpt-4o', apiKey: 'sk' } };
+      expect(UsageService.estimateBatchCost(items, UsageService.getCostTargets(withFallback))).toBeCloseTo(2.5);
+    });
+
+    it('should not estimate USD costs in membership mode', () => {
+      const membership = { ...settings, apiMode: 'membership' as const };
+      expect(UsageService.getCostTargets(membership)).toEqual([]);
+      expect(UsageService.estimateBatchCost(items, UsageService.getCostTargets(membership))).toBe(0);
+    });
+  });
+
+  describe('checkBudget', () => {
+    beforeEach(() => {
+      UsageService.record({ provider: 'openai', model: 'gpt-4o', feature: 'chat', novelId: 'n1', usage: { promptTokens: 400_000, completionTokens: 0 } });
+    });
+
+    it('should allow everything without limits', () => {
+      expect(UsageService.checkBudget({ novelId: 'n1', estimatedCost: 100 })).toMatchObject({ allowed: true, exceeded: null });
+    });
+
+    it('should warn but allow when mode is warn', () => {
+      UsageService.setBudget({ dailyLimit: 1.5, novelLimit: 0, mode: 'warn' });
+      const result = UsageService.checkBudget({ estimatedCost: 1 });
+      expect(result.exceeded).toBe('daily');
+      expect(result.allowed).toBe(true);
+      expect(result.message).toBeTruthy();
+    });
+
+    it('should block when mode is block', () => {
+      UsageService.setBudget({ dailyLimit: 0, novelLimit: 1.2, mode: 'block' });
+      expect(UsageService.checkBudget({ novelId: 'n1', estimatedCost: 0.5 })).toMatchObject({ allowed: false, exceeded: 'novel' });
+      expect(UsageService.checkBudget({ novelId: 'n2', estimatedCost: 0.5 }).allowed).toBe(true);
+    });
+
+    it('should skip the USD budget in membership mode', () => {
+      UsageService.setBudget({ dailyLimit: 0.1, novelLimit: 0, mode: 'block' });
+      const settings = { ...getDefaultApiSettings(), apiMode: 'membership' as const };
+      expect(UsageService.checkBudget({ estimatedCost: 1, settings })).toMatchObject({ allowed: true, exceeded: null });
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @fileoverview 章节版本快照与保留策略
+ * @module services/version/VersionService
+ * @description 自动为章节创建版本快照，并按时间段清理旧版本。
+ *
+ * 快照时机：
+ * - 写作会话结束（切换章节、离开编辑器、关闭页面）
+ * - AI 覆盖或写入正文之前
+ * - 批量操作（批量精修、全部替换等）之前
+ * - 自上个版本以来字数变化达到阈值
+ *
+ * 版本只保存相对前一个版本的增量（见 utils/versionComparison 的增量存储），
+ * 保留策略：24 小时内全部保留，一周内每小时保留最新一个，更早的每天保留最新一个；
+ * 命名的里程碑版本始终保留。
+ */
+
+import type { Chapter, ChapterVersion, ResolvedChapterVersion, VersionTrigger, WordCountMode } from '../../types';
+import { createVersionId } from '../../utils/id';
+import { countWords, DEFAULT_WORD_COUNT_MODE } from '../../utils/wordCount';
+import {
+  createVersionResolver,
+  dropVersions,
+  encodeVersionContent,
+  resolveVersions,
+} from '../../utils/versionComparison';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 版本保留策略（毫秒）
+ */
+export interface RetentionPolicy {
+  /** 这段时间内的版本全部保留 */
+  keepAllFor: number;
+  /** 这段时间内的版本每小时保留一个，更早的每天保留一个 */
+  keepHourlyFor: number;
+}
+
+/**
+ * 创建快照的参数
+ */
+export interface SnapshotOptions {
+  trigger: VersionTrigger;
+  note?: string;
+  /** 命名的里程碑版本，不会被自动清理 */
+  milestone?: boolean;
+  /** 快照的内容，默认为章节当前正文 */
+  content?: string;
+  wordCountMode?: WordCountMode;
+  retention?: RetentionPolicy;
+  now?: Date;
+}
+
+/**
+ * 按字数变化自动快照的参数
+ */
+export interface WordChangePolicy {
+  /** 与上个版本相比字数变化达到该值时创建快照 */
+  wordThreshold?: number;
+  wordCountMode?: WordCountMode;
+  retention?: RetentionPolicy;
+  now?: Date;
+}
+
+// ==================== 常量 ====================
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  keepAllFor: DAY,
+  keepHourlyFor: 7 * DAY,
+};
+
+/** 默认每变化 500 字自动快照一次 */
+export const DEFAULT_SNAPSHOT_WORD_THRESHOLD = 500;
+
+export const VERSION_TRIGGER_LABELS: Record<VersionTrigger, string> = {
+  manual: '手动保存',
+  session: '会话结束',
+  ai: 'AI 写入前',
+  batch: '批量操作前',
+  words: '自动保存',
+  sync: '同步冲突',
+};
+
+// ==================== 工具函数 ====================
+
+const timeOf = (version: ChapterVersion): number => new Date(version.createdAt).getTime();
+
+/** 按本地日期分组，作者感知的「一天」以本地时间为准 */
+const dayKey = (time: number): string => {
+  const date = new Date(time);
+  return `d${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+};
+
+// ==================== 服务 ====================
+
+export class VersionService {
+  /**
+   * 最新的版本
+   */
+  static getLatest(versions: readonly ChapterVersion[] = []): ChapterVersion | null {
+    return versions.reduce<ChapterVersion | null>(
+      (latest, version) => (!latest || timeOf(version) > timeOf(latest) ? version : latest),
+      null
+    );
+  }
+
+  /**
+   * 还原全部版本的完整内容，按时间倒序
+   */
+  static resolveAll(versions: readonly ChapterVersion[] = []): ResolvedChapterVersion[] {
+    return resolveVersions(versions).sort((a, b) => timeOf(b) - timeOf(a));
+  }
+
+  /**
+   * 还原单个版本的完整内容
+   */
+  static getContent(versions: readonly ChapterVersion[] = [], versionId: string): string | null {
+    return createVersionResolver(versions)(versionId);
+  }
+
+  /**
+   * 为章节创建一个版本快照
+   *
+   * 内容与最新版本相同时不重复创建；此时若要求里程碑，则把最新版本标为里程碑。
+   *
+   * @example
+   * // AI 覆盖正文之前
+   * const saved = VersionService.snapshot(chapter, { trigger: 'ai', note: 'AI 润色前' });
+   * updateChapter(chapter.id, { content: polished, versions: saved.versions });
+   */
+  static snapshot(chapter: Chapter, options: SnapshotOptions): Chapter {
+    const {
+      trigger,
+      note,
+      milestone,
+      content = chapter.content,
+      wordCountMode = DEFAULT_WORD_COUNT_MODE,
+      retention = DEFAULT_RETENTION_POLICY,
+      now = new Date(),
+    } = options;
+    const versions = chapter.versions ?? [];
+    const latest = this.getLatest(versions);
+    const latestContent = latest ? this.getContent(versions, latest.id) : null;
+
+    if (latest && latestContent === content) {
+      if (!milestone) return chapter;
+      return {
+        ...chapter,
+        versions: versions.map(version =>
+          version.id === latest.id ? { ...version, milestone: true, ...(note ? { note } : {}) } : version
+        ),
+      };
+    }
+    if (!latest && !content) return chapter;
+
+    const version: ChapterVersion = {
+      id: createVersionId(),
+      chapterId: chapter.id,
+      ...encodeVersionContent(
+        content,
+        latest && latestContent !== null ? { id: latest.id, content: latestContent } : null,
+        versions
+      ),
+      wordCount: countWords(content, wordCountMode),
+      createdAt: now.toISOString(),
+      trigger,
+      ...(note ? { note } : {}),
+      ...(milestone ? { milestone: true } : {}),
+    };
+
+    return {
+      ...chapter,
+      versions: this.applyRetention([version, ...versions], now, retention),
+    };
+  }
+
+  /**
+   * 批量操作前为多个章节创建快照
+   */
+  static snapshotChapters(chapters: Chapter[], chapterIds: readonly string[], options: SnapshotOptions): Chapter[] {
+    const ids = new Set(chapterIds);
+    return chapters.map(chapter => (ids.has(chapter.id) ? this.snapshot(chapter, options) : chapter));
+  }
+
+  /**
+   * 编辑后检查字数变化，达到阈值时为当前正文创建快照
+   *
+   * 比较的是与最新版本的字数差，章节还没有版本时与空章节比较。
+   */
+  static snapshotOnWordChange(chapter: Chapter, policy: WordChangePolicy = {}): Chapter {
+    const {
+      wordThreshold = DEFAULT_SNAPSHOT_WORD_THRESHOLD,
+      wordCountMode = DEFAULT_WORD_COUNT_MODE,
+      ...rest
+    } = policy;
+    if (wordThreshold <= 0) return chapter;
+    const latest = this.getLatest(chapter.versions);
+    const words = countWords(chapter.content, wordCountMode);
+    if (Math.abs(words - (latest?.wordCount ?? 0)) < wordThreshold) return chapter;
+    return this.snapshot(chapter, { trigger: 'words', wordCountMode, ...rest });
+  }
+
+  /**
+   * 按保留策略清理旧版本
+   *
+   * 同一小时（或同一天）内只保留最新的版本，里程碑版本不占名额也不会被清理。
+   */
+  static applyRetention(
+    versions: readonly ChapterVersion[],
+    now: Date = new Date(),
+    policy: RetentionPolicy = DEFAULT_RETENTION_POLICY
+  ): ChapterVersion[] {
+    const buckets = new Set<string>();
+    const removed = new Set<string>();
+
+    [...versions].sort((a, b) => timeOf(b) - timeOf(a)).forEach((version) => {
+      if (version.milestone) return;
+      const time = timeOf(version);
+      const age = now.getTime() - time;
+      if (age < policy.keepAllFor) return;
+      const bucket = age < policy.keepHourlyFor ? `h${Math.floor(time / HOUR)}` : dayKey(time);
+      if (buckets.has(bucket)) {
+        removed.add(version.id);
+      } else {
+        buckets.add(bucket);
+      }
+    });
+
+    return dropVersions(versions, removed);
+  }
+
+  /**
+   * 删除一个版本，依赖它的增量版本会重新编码
+   */
+  static remove(versions: readonly ChapterVersion[], versionId: string): ChapterVersion[] {
+    return dropVersions(versions, new Set([versionId]));
+  }
+
+  /**
+   * 把版本设为（或取消）命名的里程碑
+   */
+  static setMilestone(versions: readonly ChapterVersion[], versionId: string, note?: string): ChapterVersion[] {
+    return versions.map((version) => {
+      if (version.id !== versionId) return version;
+      if (note === undefined) {
+        const { milestone: _milestone, ...rest } = version;
+        return rest;
+      }
+      return { ...version, milestone: true, ...(note ? { note } : {}) };
+    });
+  }
+
+  /**
+   * 恢复到指定版本：先为当前正文留一个快照，再用版本内容替换正文
+   */
+  static restore(chapter: Chapter, versionId: string, wordCountMode: WordCountMode = DEFAULT_WORD_COUNT_MODE): Chapter | null {
+    const content = this.getContent(chapter.versions, versionId);
+    if (content === null) return null;
+    const saved = this.snapshot(chapter, { trigger: 'manual', note: '恢复前自动保存', wordCountMode });
+    return { ...saved, content, wordCount: countWords(content, wordCountMode) };
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { Chapter, ChapterVersion } from '../../../types';
+import { VersionService } from '../VersionService';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const chapter = (content: string, versions: ChapterVersion[] = []): Chapter => ({
+  id: 'c1',
+  title: '第一章',
+  content,
+  wordCount: content.length,
+  versions,
+});
+
+const versionAt = (id: string, hoursAgo: number, extra: Partial<ChapterVersion> = {}): ChapterVersion => ({
+  id,
+  chapterId: 'c1',
+  content: id,
+  wordCount: 1,
+  createdAt: new Date(NOW.getTime() - hoursAgo * HOUR).toISOString(),
+  ...extra,
+});
+
+describe('VersionService snapshots', () => {
+  it('should store later snapshots as deltas against the previous version', () => {
+    const long = '山门初开，少年登山。\n'.repeat(50);
+    const first = VersionService.snapshot(chapter(long), { trigger: 'manual', now: NOW });
+    const second = VersionService.snapshot({ ...first, content: long + '塔下有人。' }, { trigger: 'ai', now: NOW });
+
+    const [latest, previous] = second.versions!;
+    expect(previous.content).toBe(long);
+    expect(latest).toMatchObject({ trigger: 'ai', baseVersionId: previous.id });
+    expect(latest.content).toBeUndefined();
+    expect(VersionService.getContent(second.versions, latest.id)).toBe(long + '塔下有人。');
+  });
+
+  it('should not duplicate unchanged content but can name the latest version', () => {
+    const first = VersionService.snapshot(chapter('正文'), { trigger: 'manual', now: NOW });
+    expect(VersionService.snapshot(first, { trigger: 'session', now: NOW })).toBe(first);
+
+    const named = VersionService.snapshot(first, { trigger: 'manual', note: '初稿', milestone: true, now: NOW });
+    expect(named.versions).toHaveLength(1);
+    expect(named.versions![0]).toMatchObject({ milestone: true, note: '初稿' });
+  });
+
+  it('should snapshot once enough words have changed', () => {
+    const base = VersionService.snapshot(chapter('一二三'), { trigger: 'manual', now: NOW });
+    const policy = { wordThreshold: 5, wordCountMode: 'characters' as const, now: NOW };
+
+    expect(VersionService.snapshotOnWordChange({ ...base, content: '一二三四' }, policy).versions).toHaveLength(1);
+    const grown = VersionService.snapshotOnWordChange({ ...base, content: '一二三四五六七八' }, policy);
+    expect(grown.versions).toHaveLength(2);
+    expect(VersionService.getLatest(grown.versions)).toMatchObject({ trigger: 'words', wordCount: 8 });
+  });
+
+  it('should restore a version after saving the current content', () => {
+    const saved = VersionService.snapshot(chapter('旧内容'), { trigger: 'manual', now: NOW });
+    const restored = VersionService.restore({ ...saved, content: '新内容' }, saved.versions![0].id)!;
+
+    expect(restored.content).toBe('旧内容');
+    expect(VersionService.resolveAll(restored.versions).map(v => v.content)).toEqual(['新内容', '旧内容']);
+  });
+});
+
+describe('VersionService retention', () => {
+  it('should keep everything for a day, hourly for a week and daily after that', () => {
+    const versions = [
+      versionAt('recent-1', 1),
+      versionAt('recent-2', 1.5),
+      versionAt('hour-new', 30.1),
+      versionAt('hour-old', 30.6),
+      versionAt('other-hour', 40),
+      versionAt('day-new', 24 * 10 + 1),
+      versionAt('day-old', 24 * 10 + 2),
+      versionAt('milestone', 24 * 10 + 3, { milestone: true }),
+    ];
+    const kept = VersionService.applyRetention(versions, NOW).map(v => v.id);
+
+    expect(kept).toEqual(['recent-1', 'recent-2', 'hour-new', 'other-hour', 'day-new', 'milestone']);
+  });
+
+  it('should rebase deltas when their base version is pruned', () => {
+    const versions: ChapterVersion[] = [
+      versionAt('v3', 47.5, { content: undefined, baseVersionId: 'v2', delta: [2, '丙'] }),
+      versionAt('v2', 47.7, { content: undefined, baseVersionId: 'v1', delta: [2, '乙'] }),
+      versionAt('v1', 47.9, { content: '开头' }),
+    ];
+    const kept = VersionService.applyRetention(versions, NOW);
+
+    expect(kept.map(v => v.id)).toEqual(['v3']);
+    expect(VersionService.getContent(kept, 'v3')).toBe('开头丙');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * 测试用 TrueType 字体
+ *
+ * 仓库不附带字体文件，PDF 和字体子集的测试使用此处按需构造的最小字体。
+ */
+
+export interface TestGlyph {
+  codePoint?: number;
+  advance: number;
+  /** 简单字形的唯一点的 x 坐标，用于识别字形 */
+  marker?: number;
+  /** 复合字形引用的部件 */
+  components?: number[];
+}
+
+const u16 = (v: number) => [(v >> 8) & 0xff, v & 0xff];
+const u32 = (v: number) => [...u16(v >>> 16), ...u16(v & 0xffff)];
+
+/**
+ * 构造最小的 TrueType 字体（短格式 loca，最后一个字形只有 lsb）
+ */
+export const buildTestFont = (glyphs: TestGlyph[]): Uint8Array => {
+  const glyphData = glyphs.map((glyph, index) => {
+    if (index === 0) return [];
+    if (glyph.components) {
+      const bytes = [...u16(0xffff), ...u16(0), ...u16(0), ...u16(1000), ...u16(1000)];
+      glyph.components.forEach((component, i) => {
+        const more = i < glyph.components!.length - 1 ? 0x0020 : 0;
+        bytes.push(...u16(0x0001 | more), ...u16(component), ...u16(0), ...u16(0));
+      });
+      return bytes;
+    }
+    const x = glyph.marker ?? index;
+    return [...u16(1), ...u16(x), ...u16(0), ...u16(x), ...u16(0), ...u16(0), ...u16(0), 0x01, ...u16(x), ...u16(0)];
+  }).map(bytes => (bytes.length % 2 ? [...bytes, 0] : bytes));
+
+  const loca: number[] = [];
+  let offset = 0;
+  glyphData.forEach(bytes => {
+    loca.push(...u16(offset / 2));
+    offset += bytes.length;
+  });
+  loca.push(...u16(offset / 2));
+
+  const numberOfHMetrics = glyphs.length - 1;
+  const hmtx: number[] = [];
+  glyphs.forEach((glyph, index) => {
+    if (index < numberOfHMetrics) hmtx.push(...u16(glyph.advance), ...u16(0));
+    else hmtx.push(...u16(7)); // lsb
+  });
+
+  const mapped = glyphs.map((g, gid) => [g.codePoint, gid] as const).filter(([cp]) => cp !== undefined) as [number, number][];
+  mapped.sort((a, b) => a[0] - b[0]);
+  const segments = [...mapped.map(([cp, gid]) => ({ start: cp, end: cp, delta: (gid - cp) & 0xffff })), { start: 0xffff, end: 0xffff, delta: 1 }];
+  const segX2 = segments.length * 2;
+  const format4 = [
+    ...u16(4), ...u16(16 + segments.length * 8), ...u16(0), ...u16(segX2), ...u16(0), ...u16(0), ...u16(0),
+    ...segments.flatMap(s => u16(s.end)), ...u16(0),
+    ...segments.flatMap(s => u16(s.start)),
+    ...segments.flatMap(s => u16(s.delta)),
+    ...segments.flatMap(() => u16(0)),
+  ];
+  const cmap = [...u16(0), ...u16(1), ...u16(3), ...u16(1), ...u32(12), ...format4];
+
+  const psName = 'Test Sans';
+  const name = [...u16(0), ...u16(1), ...u16(18), ...u16(3), ...u16(1), ...u16(0x409), ...u16(6), ...u16(psName.length * 2), ...u16(0),
+    ...Array.from(psName).flatMap(c => u16(c.charCodeAt(0)))];
+
+  const head = [...u32(0x00010000), ...u32(0x00010000), ...u32(0), ...u32(0x5f0f3cf5), ...u16(0), ...u16(1000),
+    ...new Array(16).fill(0), ...u16(0), ...u16(0xff88), ...u16(1000), ...u16(880), ...u16(0), ...u16(8), ...u16(2), ...u16(0), ...u16(0)];
+  const hhea = [...u32(0x00010000), ...u16(880), ...u16(0xff88), ...u16(0), ...new Array(24).fill(0), ...u16(numberOfHMetrics)];
+  const maxp = [...u32(0x00005000), ...u16(glyphs.length)];
+
+  const tables: [string, number[]][] = [
+    ['cmap', cmap], ['glyf', glyphData.flat()], ['head', head], ['hhea', hhea],
+    ['hmtx', hmtx], ['loca', loca], ['maxp', maxp], ['name', name],
+  ];
+  const bytes = [...u32(0x00010000), ...u16(tables.length), ...u16(0), ...u16(0), ...u16(0)];
+  let position = 12 + tables.length * 16;
+  const body: number[] = [];
+  tables.forEach(([tag, data]) => {
+    bytes.push(...Array.from(tag).map(c => c.charCodeAt(0)), ...u32(0), ...u32(position), ...u32(data.length));
+    const padded = [...data, ...new Array((4 - (data.length % 4)) % 4).fill(0)];
+    body.push(...padded);
+    position += padded.length;
+  });
+  return new Uint8Array([...bytes, ...body]);
+};
+
+export const TEST_GLYPHS: TestGlyph[] = [
+  { advance: 500 },
+  { codePoint: 0x5929, advance: 1000, marker: 11 }, // 天
+  { codePoint: 0x9053, advance: 1000, marker: 22 }, // 道
+  { codePoint: 0x41, advance: 600, marker: 33 }, // A
+  { codePoint: 0xe9, advance: 550, components: [3, 5] }, // é
+  { advance: 0, marker: 55 }, // 重音符，无字符映射
+];
@@ -0,0 +1,68 @@
+/**
+ * 测试用 PDF 读取工具
+ *
+ * 按交叉引用表读取对象并解压流，只覆盖 utils/pdf 生成的文件结构。
+ */
+
+import { expect } from 'vitest';
+
+export interface ParsedPdf {
+  trailer: string;
+  objects: Map<number, string>;
+  stream: (id: number) => Promise<Uint8Array>;
+}
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  });
+  const reader = source.pipeThrough(new DecompressionStream('deflate') as TransformStream<Uint8Array, Uint8Array>).getReader();
+  const chunks: number[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(...value);
+  }
+  return new Uint8Array(chunks);
+};
+
+/**
+ * 按交叉引用表读取所有对象，校验偏移量
+ */
+export const parsePdf = (bytes: Uint8Array): ParsedPdf => {
+  const text = Array.from(bytes, b => String.fromCharCode(b)).join('');
+  const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+  const xref = text.slice(startxref).split('\n');
+  expect(xref[0]).toBe('xref');
+  const count = Number(xref[1].split(' ')[1]);
+  const objects = new Map<number, string>();
+  const offsets = new Map<number, number>();
+  for (let id = 1; id < count; id++) {
+    const offset = Number(xref[2 + id].slice(0, 10));
+    expect(text.startsWith(`${id} 0 obj\n`, offset)).toBe(true);
+    offsets.set(id, offset);
+    objects.set(id, text.slice(offset, text.indexOf('\nendobj', offset)));
+  }
+  return {
+    trailer: text.slice(text.indexOf('trailer', startxref)),
+    objects,
+    stream: async (id) => {
+      const body = objects.get(id)!;
+      const length = Number(body.match(/\/Length (\d+)/)![1]);
+      const start = offsets.get(id)! + body.indexOf('stream\n') + 7;
+      const raw = bytes.slice(start, start + length);
+      return body.includes('/FlateDecode') ? inflate(raw) : raw;
+    },
+  };
+};
+
+export const findObject = (pdf: ParsedPdf, pattern: RegExp): [number, string] => {
+  const found = [...pdf.objects].find(([, body]) => pattern.test(body));
+  expect(found, String(pattern)).toBeDefined();
+  return found!;
+};
+
+export const ref = (body: string, key: string): number => Number(body.match(new RegExp(`/${key} (\\d+) 0 R`))![1]);
@@ -6,3 +6,4 @@ export * from './prompt';
 export * from './template';
 export * from './tag';
 export * from './stats';
+export * from './usage';
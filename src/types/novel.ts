@@ -1,3 +1,12 @@
+/**
+ * 字数统计口径
+ * - cjk: 仅统计汉字（起点等平台口径）
+ * - cjk-words: 汉字 + 英文单词/数字
+ * - standard: 汉字 + 英文单词 + 标点符号（Word/WPS 字数）
+ * - characters: 所有非空白字符
+ */
+export type WordCountMode = 'cjk' | 'cjk-words' | 'standard' | 'characters';
+
 export interface Chapter {
   id: string;
   title: string;
@@ -5,16 +14,83 @@ export interface Chapter {
   wordCount: number;
   volumeId?: string; // 所属卷 ID
   versions?: ChapterVersion[]; // 版本历史
+  summary?: ChapterSummaryRecord; // AI 生成的章节摘要
+}
+
+// AI 生成的章节摘要；contentHash 与当前正文不一致时视为过期，需要重新生成
+export interface ChapterSummaryRecord {
+  brief: string; // 简短摘要（1-2 句）
+  detailed: string; // 详细摘要（3-5 句）
+  keyCharacters: string[];
+  keyEvents: string[];
+  keyLocations: string[];
+  plotTags: string[];
+  emotionalTone?: string;
+  contentHash: string; // 生成时的正文哈希
+  generatedAt: string;
+  model?: string; // 生成所用模型，规则提取时为空
 }
 
-// 章节版本历史
+// 版本的创建原因：手动保存、写作会话结束、AI 覆盖正文前、批量操作前、累计改动达到字数阈值、同步冲突
+export type VersionTrigger = 'manual' | 'session' | 'ai' | 'batch' | 'words' | 'sync';
+
+// 版本内容增量：正数为沿用基准版本的若干字符，负数为跳过基准版本的若干字符，字符串为新插入的文字
+export type VersionDelta = Array<number | string>;
+
+// 章节版本历史：完整快照存 content，增量版本存相对 baseVersionId 的 delta
 export interface ChapterVersion {
   id: string;
   chapterId: string;
-  content: string;
+  content?: string; // 完整快照；增量版本为空
+  baseVersionId?: string; // 增量版本的基准版本（时间上的前一个版本）
+  delta?: VersionDelta;
   wordCount: number;
   createdAt: string;
   note?: string; // 版本备注
+  trigger?: VersionTrigger;
+  milestone?: boolean; // 命名的里程碑版本，不会被自动清理
+}
+
+// 还原出完整内容的版本，供预览、对比和恢复使用
+export type ResolvedChapterVersion = ChapterVersion & { content: string };
+
+// 批注锚点：记录被批注的原文及前后文，正文修改后据此重新定位
+export interface CommentAnchor {
+  start: number; // 创建（或上次定位）时的起始位置
+  end: number;
+  quote: string; // 被批注的原文
+  prefix: string; // 原文之前的一小段文字
+  suffix: string; // 原文之后的一小段文字
+}
+
+// 章节批注：顶层批注锚定到正文，回复通过 parentId 挂在顶层批注下
+export interface ChapterComment {
+  id: string;
+  chapterId: string;
+  parentId?: string; // 所属批注ID，顶层批注为空
+  anchor?: CommentAnchor; // 仅顶层批注有
+  authorId: string;
+  authorName: string;
+  content: string;
+  mentions?: string[]; // 被 @ 的协作者ID
+  resolved?: boolean; // 仅顶层批注有
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 修订建议：把锚点处的原文替换为 text（插入时原文为空，删除时 text 为空），作者接受后才写入正文
+export interface ChapterSuggestion {
+  id: string;
+  chapterId: string;
+  anchor: CommentAnchor; // 被修改的原文及前后文
+  text: string; // 建议改成的文字
+  authorId: string;
+  authorName: string;
+  source: 'manual' | 'ai';
+  label?: string; // 来源说明，如「AI 润色」「批量精修」
+  createdAt: string;
 }
 
 // 大纲节点接口
@@ -27,6 +103,7 @@ export interface OutlineNode {
   order: number; // 排序
   chapterId?: string; // 关联的章节ID
   status: 'planned' | 'writing' | 'completed'; // 状态
+  summaryHash?: string; // 上次从章节摘要回写的内容哈希，内容被作者改过后不再覆盖
   createdAt: string;
   updatedAt: string;
 }
@@ -101,6 +178,7 @@ export interface Character {
   description: string;
   background?: string; // 背景故事
   traits: string[];
+  firstChapterId?: string; // 首次出场章节
   createdAt: string;
 }
 
@@ -149,6 +227,7 @@ export interface Location {
   features?: string; // 特色描述
   significance?: string; // 剧情重要性
   relatedCharacters?: string[]; // 关联人物ID
+  firstChapterId?: string; // 首次出现章节
   createdAt: string;
 }
 
@@ -163,6 +242,27 @@ export interface Item {
   origin?: string; // 来源
   owner?: string; // 拥有者人物ID
   relatedCharacters?: string[]; // 关联人物ID
+  firstChapterId?: string; // 首次出现章节
+  createdAt: string;
+}
+
+// 设定提取建议的内容：人物、道具按名称引用，批准时再对应到设定中的条目
+export type CodexProposalChange =
+  | { kind: 'character'; name: string; role: string; description: string; traits: string[] } // 新人物
+  | { kind: 'traits'; name: string; traits: string[] } // 已有人物的新特征
+  | { kind: 'location'; name: string; type: string; description: string } // 新地点
+  | { kind: 'item'; name: string; type: Item['type']; description: string; owner?: string } // 新道具
+  | { kind: 'owner'; item: string; owner: string } // 道具易主
+  | { kind: 'relation'; source: string; target: string; relationType: string; description: string } // 新关系或关系变化
+  | { kind: 'event'; title: string; description: string; characters: string[]; location?: string }; // 新事件
+
+// 设定提取建议：扫描章节得到的设定修改，作者逐条批准后才写入设定
+export interface CodexProposal {
+  id: string;
+  change: CodexProposalChange;
+  chapterId: string; // 首次出现的章节
+  evidence?: string; // 原文依据
+  source: 'ai' | 'rule'; // 模型提取或规则提取
   createdAt: string;
 }
 
@@ -203,6 +303,7 @@ export interface Novel {
   targetWordCount?: number;
   cover?: string;
   wordCount: number;
+  wordCountMode?: WordCountMode; // 字数统计口径，默认 standard
   status: 'ongoing' | 'completed' | 'draft';
   updatedAt: string;
   tags: string[];
@@ -232,6 +333,12 @@ export interface Novel {
   items?: Item[];
   // 新增：章节模板
   chapterTemplates?: ChapterTemplate[];
+  // 新增：章节批注
+  comments?: ChapterComment[];
+  // 新增：修订建议
+  suggestions?: ChapterSuggestion[];
+  // 新增：设定提取建议
+  codexProposals?: CodexProposal[];
 }
 
 export interface ShortWork {
@@ -242,6 +349,7 @@ export interface ShortWork {
   content: string;
   wordCount: number;
   model: string;
+  interrupted?: boolean; // 生成被中止，仅保存了部分内容
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview AI 用量与费用类型定义
+ * @module types/usage
+ */
+
+/**
+ * 调用 AI 的功能模块
+ */
+export type AiFeature =
+  | 'chat'              // AI 助手对话
+  | 'continue_writing'  // 续写
+  | 'batch_draft'       // 批量草稿
+  | 'refinement'        // 精修 / 批量精修
+  | 'outline'           // 大纲与设定生成
+  | 'book_breaker'      // 拆书
+  | 'short_novel'       // 短篇创作
+  | 'writing_tool'      // 写作工具
+  | 'summary'           // 章节摘要
+  | 'codex'             // 设定提取
+  | 'embedding'         // 向量索引与检索
+  | 'other';
+
+/**
+ * 单次调用的 token 用量
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * 用量账本中的一条记录
+ */
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  date: string; // YYYY-MM-DD
+  provider: string;
+  model: string;
+  feature: AiFeature;
+  novelId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // 美元
+  estimated: boolean; // 服务商未返回用量时按字数估算
+}
+
+/**
+ * 用量汇总
+ */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+/**
+ * 按维度分组的用量汇总
+ */
+export interface UsageBreakdownItem extends UsageTotals {
+  key: string;
+}
+
+/**
+ * 用量预算
+ */
+export interface UsageBudget {
+  dailyLimit: number;  // 每日费用上限（美元），0 表示不限
+  novelLimit: number;  // 单部作品累计费用上限（美元），0 表示不限
+  mode: 'warn' | 'block'; // 超出时仅提醒还是阻止
+}
+
+/**
+ * 预算检查结果
+ */
+export interface BudgetCheckResult {
+  allowed: boolean;
+  exceeded: 'daily' | 'novel' | null;
+  message?: string;
+  projectedDaily: number;
+  projectedNovel: number;
+}
@@ -129,6 +129,7 @@ export {
   retryFailedTasks,
   generatePipelineReport,
   exportRefinementResults,
+  exportRefinementSuggestions,
   DEFAULT_REFINEMENT_PROMPTS,
   type RefinementStage,
   type RefinementTask,
@@ -180,6 +181,8 @@ export {
   type PowerSystemInfo,
   type RecentMemory,
   type LongTermMemory,
+  type ChapterMemorySource,
+  type LayeredMemorySnapshot,
   type MemoryQuery,
   type MemorySearchResult,
 } from './layeredMemorySystem';
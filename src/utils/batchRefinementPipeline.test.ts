@@ -14,6 +14,7 @@ import {
   retryFailedTasks,
   generatePipelineReport,
   exportRefinementResults,
+  exportRefinementSuggestions,
   DEFAULT_REFINEMENT_PROMPTS,
   type RefinementStage,
   type RefinementPromptConfig,
@@ -417,4 +418,22 @@ describe('batchRefinementPipeline', () => {
       expect(results[0].completedStages).toContain('增强张力');
     });
   });
+
+  describe('exportRefinementSuggestions', () => {
+    it('should turn completed tasks into suggestions against the original content', () => {
+      const pipeline = createRefinementPipeline(sampleChapters, { stages: ['remove-ai-flavor'] });
+      pipeline.tasks[0] = completeTaskStage(pipeline.tasks[0], '这是第一章的正文。', pipeline);
+
+      const suggestions = exportRefinementSuggestions(pipeline, { id: 'u1', name: '阿青' });
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({
+        chapterId: 'ch1',
+        text: '正文',
+        source: 'ai',
+        label: '批量精修（去 AI 味）',
+        anchor: { quote: '内容' },
+      });
+    });
+  });
 });
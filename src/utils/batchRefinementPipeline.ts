@@ -3,6 +3,9 @@
  * 支持多轮精修：去 AI 味 → 张力 → 人物 → 手法
  */
 
+import type { ChapterSuggestion } from '../types';
+import { SuggestionService } from '../services/suggestion/SuggestionService';
+
 export type RefinementStage = 
   | 'remove-ai-flavor'  // 去 AI 味
   | 'enhance-tension'   // 增强张力
@@ -455,3 +458,22 @@ export function exportRefinementResults(pipeline: RefinementPipeline): Array<{
       completedStages: task.completedStages.map(getStageName),
     }));
 }
+
+/**
+ * 把精修结果导出为修订建议，由作者逐条接受或拒绝，而不是直接覆盖原章节
+ */
+export function exportRefinementSuggestions(
+  pipeline: RefinementPipeline,
+  author: { id: string; name: string }
+): ChapterSuggestion[] {
+  return exportRefinementResults(pipeline).flatMap(result =>
+    SuggestionService.createFromRevision({
+      chapterId: result.chapterId,
+      content: result.originalContent,
+      revised: result.refinedContent,
+      author,
+      source: 'ai',
+      label: `批量精修（${result.completedStages.join('、')}）`,
+    })
+  );
+}
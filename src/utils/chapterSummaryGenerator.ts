@@ -3,6 +3,8 @@
  * 用于 AI 自动生成每章摘要，增强 RAG 检索效果
  */
 
+import { countWords } from './wordCount';
+
 export interface ChapterSummary {
   /** 章节标题 */
   title: string;
@@ -253,7 +255,7 @@ export function generateChapterSummary(
     maxLength = 300,
   } = options;
   
-  const wordCount = content.length;
+  const wordCount = countWords(content);
   const brief = generateBriefSummary(content, 100);
   const detailed = includeDetailed ? generateDetailedSummary(content, maxLength) : '';
   
@@ -6,6 +6,8 @@ import {
   passwordNeedsUpgrade,
   encryptApiKey,
   decryptApiKey,
+  encryptWithPassphrase,
+  decryptWithPassphrase,
 } from './crypto';
 
 describe('utils/crypto - Password Hashing', () => {
@@ -155,3 +157,29 @@ describe('utils/crypto - API Key Encryption', () => {
     expect(encrypted1).not.toEqual(encrypted2);
   });
 });
+
+describe('utils/crypto - Passphrase Encryption', () => {
+  it('should round-trip with the same passphrase', async () => {
+    const encrypted = await encryptWithPassphrase('第一章 山门', '正确的口令');
+
+    expect(encrypted.startsWith('p1:')).toBe(true);
+    expect(encrypted.split(':')).toHaveLength(5);
+    expect(await decryptWithPassphrase(encrypted, '正确的口令')).toBe('第一章 山门');
+  });
+
+  it('should use a fresh salt for every encryption', async () => {
+    const a = await encryptWithPassphrase('same', 'secret');
+    const b = await encryptWithPassphrase('same', 'secret');
+    expect(a).not.toEqual(b);
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const encrypted = await encryptWithPassphrase('机密内容', 'secret');
+    await expect(decryptWithPassphrase(encrypted, 'guess')).rejects.toMatchObject({ code: 'WRONG_PASSPHRASE' });
+  });
+
+  it('should reject an empty passphrase and unknown formats', async () => {
+    await expect(encryptWithPassphrase('text', '')).rejects.toMatchObject({ code: 'EMPTY_PASSPHRASE' });
+    await expect(decryptWithPassphrase('v2:abc:def', 'secret')).rejects.toMatchObject({ code: 'UNKNOWN_FORMAT' });
+  });
+});
@@ -4,6 +4,7 @@
  * 功能：
  * 1. 密码哈希 - 使用 PBKDF2 (SHA-256)
  * 2. API 密钥加密 - 使用 AES-GCM
+ * 2.1 口令加密 - PBKDF2 派生密钥 + AES-GCM（用于加密备份）
  * 3. XSS 防护 - 使用 DOMPurify
  * 4. 安全随机数生成
  *
@@ -471,6 +472,116 @@ export function apiKeyNeedsReencryption(encryptedKey: string): boolean {
   return false;
 }
 
+// ==================== 口令加密 ====================
+
+// 口令加密格式版本
+const PASSPHRASE_FORMAT = 'p1';
+
+/**
+ * 从口令派生 AES-GCM 密钥
+ */
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: salt,
+      iterations: iterations,
+      hash: 'SHA-256'
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Base64 转字节数组（直接传给 Web Crypto，不经过 ArrayBuffer）
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * 用口令加密文本
+ *
+ * 每次加密使用随机盐和 IV，不依赖设备指纹，换设备后凭口令即可解密。
+ * 返回格式：p1:{iterations}:{salt}:{iv}:{ciphertext}（都是 base64）
+ */
+export async function encryptWithPassphrase(plaintext: string, passphrase: string): Promise<string> {
+  if (!passphrase) {
+    throw new EncryptionError('请输入加密口令', 'EMPTY_PASSPHRASE');
+  }
+  if (!crypto?.subtle) {
+    throw new EncryptionError(
+      '您的浏览器不支持安全加密功能，请使用现代浏览器（Chrome、Firefox、Safari、Edge）',
+      'CRYPTO_NOT_SUPPORTED'
+    );
+  }
+
+  try {
+    const salt = getRandomBytes(SALT_LENGTH);
+    const iv = getRandomBytes(IV_LENGTH);
+    const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: iv },
+      key,
+      new TextEncoder().encode(plaintext)
+    );
+
+    return [
+      PASSPHRASE_FORMAT,
+      PBKDF2_ITERATIONS,
+      arrayBufferToBase64(salt.buffer),
+      arrayBufferToBase64(iv.buffer),
+      arrayBufferToBase64(ciphertext),
+    ].join(':');
+  } catch (error) {
+    console.error('[Security] 口令加密失败:', error);
+    throw new EncryptionError('加密失败，请检查浏览器安全设置', 'ENCRYPTION_FAILED');
+  }
+}
+
+/**
+ * 用口令解密 encryptWithPassphrase 的结果
+ *
+ * 口令错误或数据被篡改时抛出 WRONG_PASSPHRASE（AES-GCM 无法区分两者）。
+ */
+export async function decryptWithPassphrase(encrypted: string, passphrase: string): Promise<string> {
+  if (!crypto?.subtle) {
+    throw new EncryptionError('您的浏览器不支持安全加密功能', 'CRYPTO_NOT_SUPPORTED');
+  }
+
+  const parts = encrypted.split(':');
+  const iterations = parseInt(parts[1], 10);
+  if (parts.length !== 5 || parts[0] !== PASSPHRASE_FORMAT || isNaN(iterations)) {
+    throw new EncryptionError('未知的加密格式', 'UNKNOWN_FORMAT');
+  }
+
+  try {
+    const [, , saltBase64, ivBase64, ciphertextBase64] = parts;
+    const key = await derivePassphraseKey(passphrase, base64ToBytes(saltBase64), iterations);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(ivBase64) },
+      key,
+      base64ToBytes(ciphertextBase64)
+    );
+
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    console.error('[Security] 口令解密失败:', error);
+    throw new EncryptionError('口令错误或数据已损坏', 'WRONG_PASSPHRASE');
+  }
+}
+
 // ==================== XSS 防护 ====================
 
 /**
@@ -606,6 +717,10 @@ export default {
   decryptApiKey,
   apiKeyNeedsReencryption,
 
+  // 口令加密
+  encryptWithPassphrase,
+  decryptWithPassphrase,
+
   // XSS 防护
   sanitizeHtml,
   sanitizeRichText,
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ApiError,
+  ErrorCode,
+  NetworkError,
+  apiErrorCodeFromStatus,
+  parseRetryAfter,
+  withRetry,
+} from './errors';
+
+describe('utils/errors', () => {
+  describe('apiErrorCodeFromStatus', () => {
+    it('should map HTTP status codes to error codes', () => {
+      expect(apiErrorCodeFromStatus(401)).toBe(ErrorCode.API_INVALID_KEY);
+      expect(apiErrorCodeFromStatus(403)).toBe(ErrorCode.AUTH_PERMISSION_DENIED);
+      expect(apiErrorCodeFromStatus(404)).toBe(ErrorCode.API_MODEL_NOT_FOUND);
+      expect(apiErrorCodeFromStatus(429)).toBe(ErrorCode.API_RATE_LIMITED);
+      expect(apiErrorCodeFromStatus(503)).toBe(ErrorCode.API_SERVER_ERROR);
+      expect(apiErrorCodeFromStatus(400)).toBe(ErrorCode.API_ERROR);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delay seconds', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+      expect(parseRetryAfter('0.5')).toBe(500);
+    });
+
+    it('should parse HTTP dates relative to now', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000);
+      expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('')).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('ApiError', () => {
+    it('should be retryable only for rate limits and server errors', () => {
+      expect(new ApiError('limited', ErrorCode.API_RATE_LIMITED, 429).retryable).toBe(true);
+      expect(new ApiError('down', ErrorCode.API_SERVER_ERROR, 503).retryable).toBe(true);
+      expect(new ApiError('bad key', ErrorCode.API_INVALID_KEY, 401).retryable).toBe(false);
+    });
+
+    it('should carry retryAfterMs', () => {
+      const error = new ApiError('limited', ErrorCode.API_RATE_LIMITED, 429, { retryAfterMs: 2000 });
+      expect(error.retryAfterMs).toBe(2000);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry retryable errors until success', async () => {
+      const fn = vi.fn()
+        .mockRejectedValueOnce(new NetworkError('offline'))
+        .mockResolvedValueOnce('ok');
+
+      const result = await withRetry(fn, { initialDelay: 1, maxDelay: 5 });
+
+      expect(result).toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const fn = vi.fn().mockRejectedValue(new ApiError('bad key', ErrorCode.API_INVALID_KEY, 401));
+
+      await expect(withRetry(fn, { initialDelay: 1 })).rejects.toThrow('bad key');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use getRetryDelay capped by maxDelay', async () => {
+      const onRetry = vi.fn();
+      const fn = vi.fn()
+        .mockRejectedValueOnce(new ApiError('limited', ErrorCode.API_RATE_LIMITED, 429))
+        .mockResolvedValueOnce('ok');
+
+      await withRetry(fn, {
+        initialDelay: 1,
+        maxDelay: 10,
+        getRetryDelay: () => 60000,
+        onRetry,
+      });
+
+      expect(onRetry).toHaveBeenCalledWith(1, expect.any(ApiError), 10);
+    });
+
+    it('should stop retrying once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const fn = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw new NetworkError('offline');
+      });
+
+      await expect(withRetry(fn, { initialDelay: 1, signal: controller.signal })).rejects.toThrow('offline');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -145,26 +145,67 @@ export class NetworkError extends AppError {
   }
 }
 
+/**
+ * API 错误选项
+ */
+export interface ApiErrorOptions extends AppErrorOptions {
+  /** 服务端要求的重试等待时间（毫秒），来自 Retry-After 响应头 */
+  retryAfterMs?: number;
+}
+
 /**
  * API 错误
  */
 export class ApiError extends AppError {
   public readonly statusCode?: number;
+  public readonly retryAfterMs?: number;
 
   constructor(
     message: string,
     code: ErrorCode = ErrorCode.API_ERROR,
     statusCode?: number,
-    options?: AppErrorOptions
+    options?: ApiErrorOptions
   ) {
     const retryable = statusCode ? statusCode >= 500 || statusCode === 429 : false;
     super(message, code, { retryable, ...options });
     this.name = 'ApiError';
     this.statusCode = statusCode;
+    this.retryAfterMs = options?.retryAfterMs;
     Object.setPrototypeOf(this, ApiError.prototype);
   }
 }
 
+/**
+ * 根据 HTTP 状态码推断 API 错误码
+ */
+export function apiErrorCodeFromStatus(statusCode: number): ErrorCode {
+  if (statusCode === 401) return ErrorCode.API_INVALID_KEY;
+  if (statusCode === 403) return ErrorCode.AUTH_PERMISSION_DENIED;
+  if (statusCode === 404) return ErrorCode.API_MODEL_NOT_FOUND;
+  if (statusCode === 429) return ErrorCode.API_RATE_LIMITED;
+  if (statusCode >= 500) return ErrorCode.API_SERVER_ERROR;
+  return ErrorCode.API_ERROR;
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期），返回毫秒
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
 /**
  * 验证错误
  */
@@ -240,6 +281,10 @@ export interface RetryConfig {
   retryCondition?: (error: Error) => boolean;
   /** 重试前回调 */
   onRetry?: (attempt: number, error: Error, delay: number) => void;
+  /** 自定义重试延迟（如服务端 Retry-After），返回 undefined 时使用指数退避 */
+  getRetryDelay?: (error: Error, attempt: number) => number | undefined;
+  /** 取消信号，中止后不再重试 */
+  signal?: AbortSignal;
 }
 
 /**
@@ -277,10 +322,16 @@ function calculateDelay(attempt: number, config: RetryConfig): number {
 }
 
 /**
- * 延迟执行
+ * 延迟执行（可被取消信号提前结束）
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
 }
 
 /**
@@ -302,14 +353,21 @@ export async function withRetry<T>(
       // 检查是否应该重试
       if (
         attempt < finalConfig.maxRetries &&
+        !finalConfig.signal?.aborted &&
         finalConfig.retryCondition?.(lastError)
       ) {
-        const delay = calculateDelay(attempt, finalConfig);
+        const customDelay = finalConfig.getRetryDelay?.(lastError, attempt);
+        const delay = customDelay !== undefined
+          ? Math.min(customDelay, finalConfig.maxDelay)
+          : calculateDelay(attempt, finalConfig);
 
         // 触发重试回调
         finalConfig.onRetry?.(attempt + 1, lastError, delay);
 
-        await sleep(delay);
+        await sleep(delay, finalConfig.signal);
+        if (finalConfig.signal?.aborted) {
+          throw lastError;
+        }
         continue;
       }
 
@@ -377,6 +435,8 @@ export default {
   NetworkError,
   ApiError,
   ValidationError,
+  apiErrorCodeFromStatus,
+  parseRetryAfter,
   withRetry,
   fromError,
   tryCatch,
@@ -27,6 +27,11 @@ export type IdPrefix =
   | 'item'       // 道具
   | 'template'   // 模板
   | 'version'    // 版本
+  | 'comment'    // 批注
+  | 'suggestion' // 修订建议
+  | 'proposal'   // 设定提取建议
+  | 'history'    // 操作历史
+  | 'backup'     // 备份
   | 'work'       // 作品
   | 'prompt'     // 提示词
   | 'invite'     // 邀请
@@ -262,6 +267,36 @@ export const createTemplateId = () => createPrefixedId('template');
  */
 export const createVersionId = () => createPrefixedId('version');
 
+/**
+ * 创建批注 ID
+ * @returns {string} 格式为 "comment_xxx" 的唯一 ID
+ */
+export const createCommentId = () => createPrefixedId('comment');
+
+/**
+ * 创建修订建议 ID
+ * @returns {string} 格式为 "suggestion_xxx" 的唯一 ID
+ */
+export const createSuggestionId = () => createPrefixedId('suggestion');
+
+/**
+ * 创建设定提取建议 ID
+ * @returns {string} 格式为 "proposal_xxx" 的唯一 ID
+ */
+export const createProposalId = () => createPrefixedId('proposal');
+
+/**
+ * 创建操作历史条目 ID
+ * @returns {string} 格式为 "history_xxx" 的唯一 ID
+ */
+export const createHistoryEntryId = () => createPrefixedId('history');
+
+/**
+ * 创建备份 ID
+ * @returns {string} 格式为 "backup_xxx" 的唯一 ID
+ */
+export const createBackupId = () => createPrefixedId('backup');
+
 /**
  * 创建作品 ID
  * @returns {string} 格式为 "work_xxx" 的唯一 ID
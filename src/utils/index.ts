@@ -32,6 +32,18 @@ export {
 } from './crypto';
 export type { PasswordHashResult } from './crypto';
 
+// 字数统计
+export {
+  DEFAULT_WORD_COUNT_MODE,
+  WORD_COUNT_MODES,
+  analyzeWordCount,
+  countWords,
+  getWordCountMode,
+  sumWordCount,
+  recountChapters,
+} from './wordCount';
+export type { WordCountMode, WordCountBreakdown } from './wordCount';
+
 // 专有名词检查
 export {
   checkProperNouns,
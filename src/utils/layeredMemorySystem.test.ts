@@ -222,6 +222,29 @@ describe('LayeredMemorySystem', () => {
       expect(recent).toHaveLength(1);
       expect(recent[0].summary).toBe('更新后的摘要');
     });
+
+    it('should keep one long term memory per chapter with its source', () => {
+      const smallSystem = new LayeredMemorySystem(1);
+      const chapter = (summary: string): RecentMemory => ({
+        chapterNumber: 1,
+        summary,
+        keyEvents: [],
+        characters: [],
+        locations: [],
+        timestamp: Date.now(),
+        chapterId: 'c1',
+        chapterTitle: '第一章',
+      });
+
+      smallSystem.addRecentMemory(chapter('旧摘要'));
+      smallSystem.addRecentMemory({ ...chapter('第二章'), chapterNumber: 2, chapterId: 'c2' });
+      smallSystem.addRecentMemory(chapter('新摘要'));
+      smallSystem.addRecentMemory({ ...chapter('第二章'), chapterNumber: 2, chapterId: 'c2' });
+
+      const longTerm = smallSystem.getLongTermMemory();
+      expect(longTerm).toHaveLength(1);
+      expect(longTerm[0]).toMatchObject({ chapterNumber: 1, summary: '新摘要', chapterId: 'c1', chapterTitle: '第一章' });
+    });
   });
 
   describe('Memory Search', () => {
@@ -407,6 +430,14 @@ describe('LayeredMemorySystem', () => {
       expect(core.characters[0].name).toBe('李四');
     });
 
+    it('should restore from a snapshot', () => {
+      system.setPowerSystem({ levels: ['炼气', '筑基'], rules: [], limitations: [] });
+      const restored = LayeredMemorySystem.fromSnapshot(system.getSnapshot(), 5);
+
+      expect(restored.getCoreMemory().powerSystem.levels).toEqual(['炼气', '筑基']);
+      expect(restored.getStats().recentChapters).toBe(0);
+    });
+
     it('should throw error on invalid import data', () => {
       expect(() => system.import('invalid json')).toThrow();
     });
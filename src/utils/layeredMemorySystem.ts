@@ -49,7 +49,17 @@ export interface PowerSystemInfo {
   limitations: string[];
 }
 
-export interface RecentMemory {
+/**
+ * 记忆对应的章节（持久化到作品时使用）
+ */
+export interface ChapterMemorySource {
+  chapterId?: string;
+  chapterTitle?: string;
+  contentHash?: string; // 提取记忆时的正文哈希，正文变化后重新提取
+  edited?: boolean; // 作者修改过，自动更新时保留
+}
+
+export interface RecentMemory extends ChapterMemorySource {
   chapterNumber: number;
   summary: string;
   keyEvents: string[];
@@ -58,7 +68,7 @@ export interface RecentMemory {
   timestamp: number;
 }
 
-export interface LongTermMemory {
+export interface LongTermMemory extends ChapterMemorySource {
   chapterNumber: number;
   summary: string;
   embedding?: number[]; // 用于相似度检索
@@ -66,6 +76,12 @@ export interface LongTermMemory {
   importance: number;
 }
 
+export interface LayeredMemorySnapshot {
+  core: CoreMemory;
+  recent: RecentMemory[];
+  longterm: LongTermMemory[];
+}
+
 export interface MemoryQuery {
   query: string;
   type?: 'character' | 'plot' | 'world' | 'all';
@@ -101,6 +117,24 @@ export class LayeredMemorySystem {
     };
   }
 
+  /**
+   * 从快照恢复
+   */
+  static fromSnapshot(snapshot: LayeredMemorySnapshot, maxRecentChapters: number = 10): LayeredMemorySystem {
+    const system = new LayeredMemorySystem(maxRecentChapters);
+    system.coreMemory = snapshot.core;
+    system.recentMemory = [...snapshot.recent];
+    system.longTermMemory = [...snapshot.longterm];
+    return system;
+  }
+
+  /**
+   * 替换核心记忆
+   */
+  setCoreMemory(core: CoreMemory): void {
+    this.coreMemory = core;
+  }
+
   /**
    * 添加核心记忆 - 人物
    */
@@ -168,6 +202,19 @@ export class LayeredMemorySystem {
     }
   }
 
+  /**
+   * 添加长期记忆，同一章节只保留一条
+   */
+  addLongTermMemory(memory: LongTermMemory): void {
+    const existing = this.longTermMemory.findIndex(m => m.chapterNumber === memory.chapterNumber);
+    if (existing >= 0) {
+      this.longTermMemory[existing] = memory;
+    } else {
+      this.longTermMemory.push(memory);
+    }
+    this.longTermMemory.sort((a, b) => a.chapterNumber - b.chapterNumber);
+  }
+
   /**
    * 归档到长期记忆
    */
@@ -178,7 +225,9 @@ export class LayeredMemorySystem {
       keywords: [...recent.characters, ...recent.locations, ...recent.keyEvents.slice(0, 3)],
       importance: this.calculateImportance(recent),
     };
-    this.longTermMemory.push(longTerm);
+    // 章节信息随记忆一起归档
+    const { chapterId, chapterTitle, contentHash, edited } = recent;
+    this.addLongTermMemory(chapterId ? { ...longTerm, chapterId, chapterTitle, contentHash, edited } : longTerm);
   }
 
   /**
@@ -414,14 +463,21 @@ export class LayeredMemorySystem {
   }
 
   /**
-   * 导出记忆数据
+   * 获取快照（用于持久化）
    */
-  export(): string {
-    return JSON.stringify({
+  getSnapshot(): LayeredMemorySnapshot {
+    return {
       core: this.coreMemory,
       recent: this.recentMemory,
       longterm: this.longTermMemory,
-    }, null, 2);
+    };
+  }
+
+  /**
+   * 导出记忆数据
+   */
+  export(): string {
+    return JSON.stringify(this.getSnapshot(), null, 2);
   }
 
   /**
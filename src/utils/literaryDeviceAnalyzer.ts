@@ -12,6 +12,8 @@
  * 8. 伏笔/呼应检测
  */
 
+import { countWords } from './wordCount';
+
 // ============ 类型定义 ============
 
 export type RhetoricalDevice = 
@@ -439,7 +441,7 @@ export function analyzeLiteraryDevices(text: string): LiteraryDeviceAnalysis {
   ];
   
   // 计算统计数据
-  const wordCount = text.length;
+  const wordCount = countWords(text);
   const density = (instances.length / wordCount) * 1000; // 每千字
   
   const deviceTypes = new Set(instances.map(i => i.type));
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { PdfDocument, pdfTextString } from './pdf';
+import { parseTrueType } from './truetype';
+import { buildTestFont, TEST_GLYPHS } from '../test/fontFixture';
+import { findObject, parsePdf, ref } from '../test/pdfReader';
+
+describe('utils/pdf', () => {
+  const font = buildTestFont(TEST_GLYPHS);
+
+  it('should write a header, cross-reference table and trailer', async () => {
+    const doc = new PdfDocument({ width: 200, height: 300, title: '天道', author: '佚名', language: 'zh-CN' });
+    doc.addPage();
+    doc.addPage();
+    const bytes = await doc.save();
+
+    expect(String.fromCharCode(...bytes.slice(0, 8))).toBe('%PDF-1.7');
+    const pdf = parsePdf(bytes);
+    const [, catalog] = findObject(pdf, /\/Type \/Catalog/);
+    expect(catalog).toContain(`/Lang ${pdfTextString('zh-CN')}`);
+    expect(pdf.objects.get(ref(catalog, 'Pages'))).toContain('/Count 2');
+    expect(pdf.objects.get(ref(pdf.trailer, 'Info'))).toContain(`/Title ${pdfTextString('天道')}`);
+    expect(findObject(pdf, /\/Type \/Page /)[1]).toContain('/MediaBox [0 0 200 300]');
+  });
+
+  it('should embed a font subset with widths and a ToUnicode map', async () => {
+    const doc = new PdfDocument({ width: 200, height: 200, font });
+    const page = doc.addPage();
+    doc.drawText(page, '道天A道', 10, 100, 12);
+    const pdf = parsePdf(await doc.save());
+
+    const [, type0] = findObject(pdf, /\/Subtype \/Type0/);
+    expect(type0).toMatch(/\/BaseFont \/[A-Z]{6}\+TestSans/);
+    expect(type0).toContain('/Encoding /Identity-H');
+    const cidFont = pdf.objects.get(Number(type0.match(/\/DescendantFonts \[(\d+) 0 R\]/)![1]))!;
+    expect(cidFont).toContain('/CIDToGIDMap /Identity');
+    expect(cidFont).toContain('/W [1 [1000 1000 600]]');
+
+    const descriptor = pdf.objects.get(ref(cidFont, 'FontDescriptor'))!;
+    const subset = parseTrueType(await pdf.stream(ref(descriptor, 'FontFile2')));
+    expect(subset.numGlyphs).toBe(4);
+    expect(subset.advanceWidth(3)).toBe(600);
+
+    const toUnicode = new TextDecoder().decode(await pdf.stream(ref(type0, 'ToUnicode')));
+    expect(toUnicode).toContain('<0001> <9053>');
+    expect(toUnicode).toContain('<0002> <5929>');
+
+    const [, pageObject] = findObject(pdf, /\/Type \/Page /);
+    const content = new TextDecoder().decode(await pdf.stream(ref(pageObject, 'Contents')));
+    expect(content).toContain('<0001000200030001> Tj');
+  });
+
+  it('should measure text with the font metrics', () => {
+    const doc = new PdfDocument({ width: 200, height: 200, font });
+    expect(doc.measureText('天A', 10)).toBe(16);
+    expect(new PdfDocument({ width: 200, height: 200 }).measureText('天A', 10)).toBe(15);
+  });
+
+  it('should wrap Chinese by character, keep words whole and hang closing punctuation', () => {
+    const doc = new PdfDocument({ width: 200, height: 200 });
+
+    expect(doc.wrapText('天地玄黄宇宙洪荒', 10, 30)).toEqual(['天地玄', '黄宇宙', '洪荒']);
+    expect(doc.wrapText('天地玄黄宇宙', 10, 30, 20)).toEqual(['天', '地玄黄', '宇宙']);
+    expect(doc.wrapText('天地玄。黄', 10, 30)).toEqual(['天地玄。', '黄']);
+    expect(doc.wrapText('ab hello', 10, 30)).toEqual(['ab', 'hello']);
+    expect(doc.wrapText('abcdefgh', 10, 30)).toEqual(['abcdef', 'gh']);
+    expect(doc.wrapText('', 10, 30)).toEqual(['']);
+  });
+
+  it('should write nested outlines and link annotations', async () => {
+    const doc = new PdfDocument({ width: 200, height: 200 });
+    const first = doc.addPage();
+    const second = doc.addPage();
+    const volume = doc.addOutline('第一卷', first, 180);
+    doc.addOutline('第一章', first, 150, volume);
+    doc.addOutline('第二章', second, 180, volume);
+    doc.addOutline('后记', second, 100);
+    doc.addLink(first, [10, 10, 100, 30], second, 180);
+    const pdf = parsePdf(await doc.save());
+
+    const [, catalog] = findObject(pdf, /\/Type \/Catalog/);
+    expect(catalog).toContain('/PageMode /UseOutlines');
+    const outlines = pdf.objects.get(ref(catalog, 'Outlines'))!;
+    expect(outlines).toContain('/Count 4');
+
+    const volumeItem = pdf.objects.get(ref(outlines, 'First'))!;
+    expect(volumeItem).toContain(`/Title ${pdfTextString('第一卷')}`);
+    expect(volumeItem).toContain('/Count 2');
+    const chapterTwo = pdf.objects.get(ref(volumeItem, 'Last'))!;
+    expect(chapterTwo).toContain(`/Title ${pdfTextString('第二章')}`);
+
+    const pageIds = pdf.objects.get(ref(catalog, 'Pages'))!.match(/(\d+) 0 R/g)!.map(s => parseInt(s, 10));
+    expect(chapterTwo).toContain(`/Dest [${pageIds[1]} 0 R /XYZ 0 180 0]`);
+    expect(pdf.objects.get(ref(volumeItem, 'Next'))).toContain(`/Title ${pdfTextString('后记')}`);
+
+    const [, link] = findObject(pdf, /\/Subtype \/Link/);
+    expect(link).toContain('/Rect [10 10 100 30]');
+    expect(link).toContain(`/Dest [${pageIds[1]} 0 R /XYZ 0 180 0]`);
+  });
+
+  it('should fall back to the standard Chinese font without embedding', async () => {
+    const doc = new PdfDocument({ width: 200, height: 200 });
+    expect(doc.embedsFont).toBe(false);
+    doc.drawText(doc.addPage(), '天A', 10, 100, 12);
+    const pdf = parsePdf(await doc.save());
+
+    const [, type0] = findObject(pdf, /\/Subtype \/Type0/);
+    expect(type0).toContain('/BaseFont /STSong-Light /Encoding /UniGB-UCS2-H');
+    expect([...pdf.objects.values()].some(body => body.includes('FontFile'))).toBe(false);
+  });
+});
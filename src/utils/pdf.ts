@@ -0,0 +1,512 @@
+/**
+ * @fileoverview PDF 文档生成
+ * @module utils/pdf
+ * @description 生成 PDF 1.7 文件：文字排版、内嵌 TrueType 字体子集、书签大纲和页内链接
+ *
+ * 坐标使用 PDF 默认的点（1/72 英寸），原点在页面左下角。
+ * 提供 TrueType 字体时以 CIDFontType2 + Identity-H 嵌入子集；
+ * 未提供时使用 Adobe 预置的 STSong-Light（不嵌入，依赖阅读器的中文字体包）。
+ *
+ * @example
+ * const doc = new PdfDocument({ width: 595.28, height: 841.89, font: ttfBytes, title: '天道' });
+ * const page = doc.addPage();
+ * doc.drawText(page, '第一章', 72, 760, 18);
+ * doc.addOutline('第一章', page, 760);
+ * const bytes = await doc.save();
+ */
+
+import { deflate, isDeflateSupported } from './zip';
+import { parseTrueType, subsetTrueType, type TrueTypeFont } from './truetype';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 文档选项
+ */
+export interface PdfDocumentOptions {
+  /** 页面宽度（pt） */
+  width: number;
+  /** 页面高度（pt） */
+  height: number;
+  /** TrueType 字体文件，用于嵌入子集 */
+  font?: Uint8Array;
+  title?: string;
+  author?: string;
+  subject?: string;
+  /** 文档语言，如 zh-CN */
+  language?: string;
+}
+
+/**
+ * 文字绘制选项
+ */
+export interface PdfTextOptions {
+  /** 灰度填充色，0 为黑，1 为白，默认 0 */
+  gray?: number;
+  /** 逆时针旋转角度（度），以 (x, y) 为原点 */
+  angle?: number;
+}
+
+/**
+ * 书签
+ */
+export interface PdfOutlineItem {
+  title: string;
+  pageIndex: number;
+  /** 跳转后页面顶部对齐的纵坐标 */
+  y: number;
+  children: PdfOutlineItem[];
+}
+
+interface PdfLink {
+  rect: [number, number, number, number];
+  pageIndex: number;
+  y: number;
+}
+
+interface PdfPage {
+  content: string[];
+  links: PdfLink[];
+}
+
+/**
+ * 字体资源
+ */
+interface PdfFontResource {
+  /** 码点的前进宽度（1/1000 em） */
+  advance(codePoint: number): number;
+  /** 编码为 Tj 使用的十六进制串 */
+  encode(text: string): string;
+  /** 写出字体对象，Type0 字体写入预留的编号 */
+  write(writer: PdfObjectWriter, id: number): Promise<void>;
+}
+
+// ==================== 辅助函数 ====================
+
+const encoder = new TextEncoder();
+
+/** 不能出现在行首的标点（避头点），排版时挂在上一行末尾 */
+const NO_LINE_START = /^[，。、；：？！）」』》〉】〕’”…—·,.;:?!)\]}%]$/;
+
+/**
+ * 格式化数字（最多两位小数）
+ */
+const num = (value: number): string => {
+  const fixed = Number(value.toFixed(2));
+  return Object.is(fixed, -0) ? '0' : String(fixed);
+};
+
+const hex4 = (value: number): string => value.toString(16).toUpperCase().padStart(4, '0');
+
+/**
+ * 码点转为 UTF-16BE 十六进制
+ */
+const utf16Hex = (codePoint: number): string => {
+  if (codePoint < 0x10000) return hex4(codePoint);
+  const offset = codePoint - 0x10000;
+  return hex4(0xd800 + (offset >> 10)) + hex4(0xdc00 + (offset & 0x3ff));
+};
+
+/**
+ * PDF 文本字符串（UTF-16BE，带 BOM）
+ */
+export const pdfTextString = (text: string): string => {
+  let result = '<FEFF';
+  for (const char of text) result += utf16Hex(char.codePointAt(0)!);
+  return `${result}>`;
+};
+
+/**
+ * PDF 日期字符串
+ */
+const pdfDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `(D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z)`;
+};
+
+/**
+ * 将文字拆分为排版单元：连续的西文字符作为整词，其余逐字
+ */
+const tokenize = (text: string): string[] => text.match(/[\x21-\x7eÀ-ɏ]+|\s+|[\s\S]/gu) || [];
+
+// ==================== 对象写出 ====================
+
+/**
+ * PDF 对象表
+ */
+class PdfObjectWriter {
+  private objects: (Uint8Array | null)[] = [];
+
+  /** 预留对象编号 */
+  reserve(): number {
+    this.objects.push(null);
+    return this.objects.length;
+  }
+
+  /** 写入对象，未指定编号时新分配 */
+  set(body: string | Uint8Array, id: number = this.reserve()): number {
+    const bytes = typeof body === 'string' ? encoder.encode(body) : body;
+    this.objects[id - 1] = concat([encoder.encode(`${id} 0 obj\n`), bytes, encoder.encode('\nendobj\n')]);
+    return id;
+  }
+
+  /** 写入流对象，支持时使用 FlateDecode 压缩 */
+  async stream(dict: string, data: string | Uint8Array, id?: number): Promise<number> {
+    const raw = typeof data === 'string' ? encoder.encode(data) : data;
+    const compress = isDeflateSupported() && raw.length > 0;
+    const body = compress ? await deflate(raw) : raw;
+    const entries = [dict, compress ? '/Filter /FlateDecode' : '', `/Length ${body.length}`].filter(Boolean);
+    const header = `<< ${entries.join(' ')} >>\nstream\n`;
+    return this.set(concat([encoder.encode(header), body, encoder.encode('\nendstream')]), id);
+  }
+
+  /** 生成文件 */
+  finish(rootId: number, infoId: number): Uint8Array {
+    const header = concat([encoder.encode('%PDF-1.7\n%'), new Uint8Array([0xe2, 0xe3, 0xcf, 0xd3, 0x0a])]);
+    const offsets: number[] = [];
+    let position = header.length;
+    this.objects.forEach((object, index) => {
+      if (!object) throw new Error(`PDF 对象 ${index + 1} 未写入`);
+      offsets.push(position);
+      position += object.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${this.objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${this.objects.length + 1} /Root ${rootId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(position),
+      '%%EOF',
+    ].join('\n');
+
+    return concat([header, ...(this.objects as Uint8Array[]), encoder.encode(`${xref}\n`)]);
+  }
+}
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * ToUnicode CMap：字形编号 → Unicode，用于复制和搜索
+ */
+const buildToUnicode = (entries: [number, number][]): string => {
+  const lines: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const block = entries.slice(i, i + 100);
+    lines.push(`${block.length} beginbfchar`);
+    block.forEach(([code, codePoint]) => lines.push(`<${hex4(code)}> <${utf16Hex(codePoint)}>`));
+    lines.push('endbfchar');
+  }
+  return `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def
+/CMapName /Adobe-Identity-UCS def
+/CMapType 2 def
+1 begincodespacerange
+<0000> <FFFF>
+endcodespacerange
+${lines.join('\n')}
+endcmap
+CMapName currentdict /CMap defineresource pop
+end
+end`;
+};
+
+// ==================== 字体 ====================
+
+/**
+ * 内嵌 TrueType 字体子集
+ */
+class EmbeddedFont implements PdfFontResource {
+  private font: TrueTypeFont;
+  /** 原字形 ID → 子集字形 ID（按首次使用顺序从 1 开始编号） */
+  private used = new Map<number, number>();
+  private unicode = new Map<number, number>();
+
+  constructor(private readonly data: Uint8Array) {
+    this.font = parseTrueType(data);
+  }
+
+  advance(codePoint: number): number {
+    return this.font.advanceWidth(this.font.glyphId(codePoint)) * 1000 / this.font.unitsPerEm;
+  }
+
+  encode(text: string): string {
+    let result = '';
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!;
+      const glyph = this.font.glyphId(codePoint);
+      if (glyph === 0) {
+        result += '0000';
+        continue;
+      }
+      let code = this.used.get(glyph);
+      if (code === undefined) {
+        code = this.used.size + 1;
+        this.used.set(glyph, code);
+        this.unicode.set(code, codePoint);
+      }
+      result += hex4(code);
+    }
+    return result;
+  }
+
+  async write(writer: PdfObjectWriter, id: number): Promise<void> {
+    const { data, glyphMap } = subsetTrueType(this.data, this.used.keys());
+    const { font } = this;
+    const scale = 1000 / font.unitsPerEm;
+    // 子集标签：6 个大写字母，由使用的字形决定
+    let hash = 0;
+    for (const gid of this.used.keys()) hash = (hash * 31 + gid) >>> 0;
+    const tag = Array.from({ length: 6 }, (_, i) => String.fromCharCode(65 + Math.floor(hash / 26 ** i) % 26)).join('');
+    const baseFont = `${tag}+${font.postScriptName}`;
+
+    const widths: number[] = [];
+    for (const [glyph, code] of glyphMap) {
+      if (code > 0 && code <= this.used.size) widths[code - 1] = Math.round(font.advanceWidth(glyph) * scale);
+    }
+
+    const fontFile = await writer.stream(`/Length1 ${data.length}`, data);
+    const descriptor = writer.set(`<< /Type /FontDescriptor /FontName /${baseFont} /Flags 4 ` +
+      `/FontBBox [${font.bbox.map(v => Math.round(v * scale)).join(' ')}] /ItalicAngle 0 ` +
+      `/Ascent ${Math.round(font.ascent * scale)} /Descent ${Math.round(font.descent * scale)} ` +
+      `/CapHeight ${Math.round(font.capHeight * scale)} /StemV 80 /FontFile2 ${fontFile} 0 R >>`);
+    const cidFont = writer.set(`<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont} ` +
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ' +
+      `/FontDescriptor ${descriptor} 0 R /DW 1000 /W [1 [${widths.join(' ')}]] /CIDToGIDMap /Identity >>`);
+    const toUnicode = await writer.stream('', buildToUnicode([...this.unicode.entries()]));
+    writer.set(`<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H ` +
+      `/DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`, id);
+  }
+}
+
+/**
+ * Adobe 预置中文字体（不嵌入）
+ */
+class StandardCjkFont implements PdfFontResource {
+  advance(codePoint: number): number {
+    return codePoint < 0x7f ? 500 : 1000;
+  }
+
+  encode(text: string): string {
+    let result = '';
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!;
+      // UCS-2 编码无法表示辅助平面字符
+      result += hex4(codePoint < 0x10000 ? codePoint : 0x3f);
+    }
+    return result;
+  }
+
+  async write(writer: PdfObjectWriter, id: number): Promise<void> {
+    const descriptor = writer.set('<< /Type /FontDescriptor /FontName /STSong-Light /Flags 6 ' +
+      '/FontBBox [-25 -254 1000 880] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>');
+    const cidFont = writer.set('<< /Type /Font /Subtype /CIDFontType0 /BaseFont /STSong-Light ' +
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 4 >> ' +
+      `/FontDescriptor ${descriptor} 0 R /DW 1000 /W [1 95 500] >>`);
+    writer.set('<< /Type /Font /Subtype /Type0 /BaseFont /STSong-Light /Encoding /UniGB-UCS2-H ' +
+      `/DescendantFonts [${cidFont} 0 R] >>`, id);
+  }
+}
+
+// ==================== 文档 ====================
+
+/**
+ * PDF 文档
+ */
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  /** 是否嵌入了字体 */
+  readonly embedsFont: boolean;
+  private pages: PdfPage[] = [];
+  private outlines: PdfOutlineItem[] = [];
+  private font: PdfFontResource;
+
+  /**
+   * @throws {Error} 字体不是有效的 TrueType 字体
+   */
+  constructor(private readonly options: PdfDocumentOptions) {
+    this.width = options.width;
+    this.height = options.height;
+    this.embedsFont = !!options.font;
+    this.font = options.font ? new EmbeddedFont(options.font) : new StandardCjkFont();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * 新增页面，返回页码（从 0 开始）
+   */
+  addPage(): number {
+    this.pages.push({ content: [], links: [] });
+    return this.pages.length - 1;
+  }
+
+  /**
+   * 测量文字宽度（pt）
+   */
+  measureText(text: string, size: number): number {
+    let width = 0;
+    for (const char of text) width += this.font.advance(char.codePointAt(0)!);
+    return width * size / 1000;
+  }
+
+  /**
+   * 在 (x, y) 处绘制一行文字，y 为基线
+   */
+  drawText(pageIndex: number, text: string, x: number, y: number, size: number, options: PdfTextOptions = {}): void {
+    if (!text) return;
+    const radians = (options.angle ?? 0) * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    this.pages[pageIndex].content.push(
+      `BT /F1 ${num(size)} Tf ${num(options.gray ?? 0)} g ` +
+      `${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${num(x)} ${num(y)} Tm <${this.font.encode(text)}> Tj ET`
+    );
+  }
+
+  /**
+   * 按宽度折行
+   *
+   * 中文逐字折行，西文按词折行（超长的词按字符拆开），避头点挂在上一行末尾。
+   *
+   * @param firstLineIndent - 首行缩进（pt）
+   */
+  wrapText(text: string, size: number, maxWidth: number, firstLineIndent: number = 0): string[] {
+    const lines: string[] = [];
+    let line = '';
+    let width = 0;
+    let limit = maxWidth - firstLineIndent;
+
+    const place = (token: string, tokenWidth: number) => {
+      if (line && width + tokenWidth > limit && !NO_LINE_START.test(token)) {
+        lines.push(line.trimEnd());
+        line = '';
+        width = 0;
+        limit = maxWidth;
+        if (/^\s+$/.test(token)) return;
+      }
+      line += token;
+      width += tokenWidth;
+    };
+
+    for (const token of tokenize(text)) {
+      const tokenWidth = this.measureText(token, size);
+      if (tokenWidth > maxWidth) {
+        for (const char of token) place(char, this.measureText(char, size));
+      } else {
+        place(token, tokenWidth);
+      }
+    }
+    if (line || lines.length === 0) lines.push(line.trimEnd());
+    return lines;
+  }
+
+  /**
+   * 添加书签
+   *
+   * @param parent - 上级书签，省略时为顶级
+   */
+  addOutline(title: string, pageIndex: number, y: number, parent?: PdfOutlineItem): PdfOutlineItem {
+    const item: PdfOutlineItem = { title, pageIndex, y, children: [] };
+    (parent ? parent.children : this.outlines).push(item);
+    return item;
+  }
+
+  /**
+   * 添加页内链接
+   *
+   * @param rect - 点击区域 [x1, y1, x2, y2]
+   */
+  addLink(pageIndex: number, rect: [number, number, number, number], targetPage: number, targetY: number): void {
+    this.pages[pageIndex].links.push({ rect, pageIndex: targetPage, y: targetY });
+  }
+
+  /**
+   * 生成 PDF 文件
+   */
+  async save(): Promise<Uint8Array> {
+    const writer = new PdfObjectWriter();
+    const catalogId = writer.reserve();
+    const pagesId = writer.reserve();
+    const fontId = writer.reserve();
+    const pageIds = this.pages.map(() => writer.reserve());
+    const destination = (pageIndex: number, y: number) => `[${pageIds[pageIndex]} 0 R /XYZ 0 ${num(y)} 0]`;
+
+    for (let i = 0; i < this.pages.length; i++) {
+      const page = this.pages[i];
+      const contentId = await writer.stream('', page.content.join('\n'));
+      const annots = page.links.map(link => writer.set(
+        `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(num).join(' ')}] /Border [0 0 0] ` +
+        `/Dest ${destination(link.pageIndex, link.y)} >>`
+      ));
+      writer.set(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${contentId} 0 R` +
+        `${annots.length ? ` /Annots [${annots.map(id => `${id} 0 R`).join(' ')}]` : ''} >>`,
+        pageIds[i]
+      );
+    }
+
+    // 字体在所有页面编码完成后写出，子集才完整
+    await this.font.write(writer, fontId);
+
+    writer.set(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, pagesId);
+
+    let outlinesRef = '';
+    if (this.outlines.length > 0) {
+      const outlinesId = writer.reserve();
+      const writeItems = (items: PdfOutlineItem[], parentId: number): { first: number; last: number; count: number } => {
+        const ids = items.map(() => writer.reserve());
+        let count = items.length;
+        items.forEach((item, index) => {
+          const children = item.children.length > 0 ? writeItems(item.children, ids[index]) : null;
+          if (children) count += children.count;
+          writer.set(
+            `<< /Title ${pdfTextString(item.title)} /Parent ${parentId} 0 R` +
+            `${index > 0 ? ` /Prev ${ids[index - 1]} 0 R` : ''}` +
+            `${index < ids.length - 1 ? ` /Next ${ids[index + 1]} 0 R` : ''}` +
+            `${children ? ` /First ${children.first} 0 R /Last ${children.last} 0 R /Count ${children.count}` : ''}` +
+            ` /Dest ${destination(item.pageIndex, item.y)} >>`,
+            ids[index]
+          );
+        });
+        return { first: ids[0], last: ids[ids.length - 1], count };
+      };
+      const { first, last, count } = writeItems(this.outlines, outlinesId);
+      writer.set(`<< /Type /Outlines /First ${first} 0 R /Last ${last} 0 R /Count ${count} >>`, outlinesId);
+      outlinesRef = ` /Outlines ${outlinesId} 0 R /PageMode /UseOutlines`;
+    }
+
+    const { title, author, subject, language } = this.options;
+    writer.set(
+      `<< /Type /Catalog /Pages ${pagesId} 0 R${outlinesRef}` +
+      `${language ? ` /Lang ${pdfTextString(language)}` : ''} >>`,
+      catalogId
+    );
+    const infoId = writer.set(
+      `<< /Producer ${pdfTextString('天道AI写作')} /CreationDate ${pdfDate(new Date())}` +
+      `${title ? ` /Title ${pdfTextString(title)}` : ''}` +
+      `${author ? ` /Author ${pdfTextString(author)}` : ''}` +
+      `${subject ? ` /Subject ${pdfTextString(subject)}` : ''} >>`
+    );
+
+    return writer.finish(catalogId, infoId);
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { deepEqual, mergeById, mergeFields, mergeText, resolveTextHunks } from './threeWayMerge';
+
+const text = (...lines: string[]) => lines.join('\n');
+
+describe('utils/threeWayMerge', () => {
+  describe('mergeText', () => {
+    const base = text('第一段', '第二段', '第三段', '第四段');
+
+    it('should merge non-overlapping paragraph edits', () => {
+      const local = text('第一段（本机改）', '第二段', '第三段', '第四段');
+      const remote = text('第一段', '第二段', '第三段', '新增段落', '第四段（远端改）');
+
+      const result = mergeText(base, local, remote);
+      expect(result.conflicts).toBe(0);
+      expect(result.merged).toBe(text('第一段（本机改）', '第二段', '第三段', '新增段落', '第四段（远端改）'));
+    });
+
+    it('should apply one-sided deletions and identical edits', () => {
+      const local = text('第一段', '第三段', '第四段');
+      const remote = text('第一段', '第二段', '第三段', '第四段！');
+      expect(mergeText(base, local, remote).merged).toBe(text('第一段', '第三段', '第四段！'));
+
+      const same = text('第一段', '改', '第三段', '第四段');
+      expect(mergeText(base, same, same).merged).toBe(same);
+    });
+
+    it('should report overlapping edits as conflicts and resolve them by choice', () => {
+      const local = text('第一段', '本机的第二段', '第三段', '第四段');
+      const remote = text('第一段', '远端的第二段', '第三段', '第四段');
+
+      const result = mergeText(base, local, remote);
+      expect(result.conflicts).toBe(1);
+      expect(result.merged).toBeNull();
+      expect(result.hunks[1]).toEqual({ type: 'conflict', base: ['第二段'], local: ['本机的第二段'], remote: ['远端的第二段'] });
+
+      expect(resolveTextHunks(result.hunks, () => 'remote')).toBe(remote);
+      expect(resolveTextHunks(result.hunks, () => 'both')).toBe(text('第一段', '本机的第二段', '远端的第二段', '第三段', '第四段'));
+    });
+
+    it('should treat all differences as conflicts without a common ancestor', () => {
+      const result = mergeText(undefined, text('甲', '乙', '丙'), text('甲', '丙', '丁'));
+      expect(result.conflicts).toBe(2);
+      expect(result.hunks[0]).toEqual({ type: 'stable', lines: ['甲'] });
+    });
+  });
+
+  describe('mergeFields', () => {
+    const base = { id: 'c1', name: '林逸', role: '主角', traits: ['冷静'] };
+
+    it('should take the changed side of each field', () => {
+      const local = { ...base, name: '林逸尘' };
+      const remote = { ...base, traits: ['冷静', '果断'], age: '十八' };
+
+      expect(mergeFields(base, local, remote)).toEqual({
+        merged: { id: 'c1', name: '林逸尘', role: '主角', traits: ['冷静', '果断'], age: '十八' },
+        conflicts: [],
+      });
+    });
+
+    it('should report a field changed differently on both sides', () => {
+      const result = mergeFields(base, { ...base, role: '配角' }, { ...base, role: '反派' });
+      expect(result.conflicts).toEqual([{ field: 'role', base: '主角', local: '配角', remote: '反派' }]);
+      expect(result.merged.role).toBe('配角');
+    });
+
+    it('should skip ignored fields', () => {
+      expect(mergeFields(base, { ...base, role: 'a' }, { ...base, role: 'b' }, ['role']).conflicts).toEqual([]);
+    });
+  });
+
+  describe('mergeById', () => {
+    const merge = <T extends { id: string }>(b: T | undefined, l: T, r: T) => mergeFields(b, l, r).merged;
+
+    it('should keep additions from both sides and apply unconflicted deletions', () => {
+      const base = [{ id: 'a', v: 1 }, { id: 'b', v: 1 }];
+      const local = [{ id: 'a', v: 2 }, { id: 'c', v: 1 }];
+      const remote = [{ id: 'a', v: 1 }, { id: 'b', v: 1 }, { id: 'd', v: 1 }];
+
+      expect(mergeById(base, local, remote, merge)).toEqual([{ id: 'a', v: 2 }, { id: 'c', v: 1 }, { id: 'd', v: 1 }]);
+    });
+
+    it('should keep an item deleted on one side but modified on the other', () => {
+      const base = [{ id: 'a', v: 1 }];
+      expect(mergeById(base, [], [{ id: 'a', v: 2 }], merge)).toEqual([{ id: 'a', v: 2 }]);
+      expect(mergeById(base, [{ id: 'a', v: 3 }], [], merge)).toEqual([{ id: 'a', v: 3 }]);
+    });
+  });
+
+  it('deepEqual should ignore key order', () => {
+    expect(deepEqual({ a: 1, b: [1, { c: 2 }] }, { b: [1, { c: 2 }], a: 1 })).toBe(true);
+    expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(true);
+    expect(deepEqual([1], { 0: 1 })).toBe(false);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * 三方合并
+ *
+ * 以共同祖先（base）为参照合并本地（local）和远端（remote）两份修改：
+ * - mergeText：按段落合并正文，两边改动互不重叠时自动合并
+ * - mergeFields：按字段合并对象，同一字段两边改成不同值时记为冲突
+ * - mergeById：按 id 合并列表，一边新增/删除的项目直接采用
+ *
+ * 没有共同祖先（base 为 undefined）时退化为两方比较，两边不同的部分都记为冲突。
+ */
+
+// ============ 类型定义 ============
+
+/**
+ * 正文合并片段
+ */
+export type TextMergeHunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'conflict'; base: string[]; local: string[]; remote: string[] };
+
+/**
+ * 正文合并结果
+ */
+export interface TextMergeResult {
+  hunks: TextMergeHunk[];
+  /** 冲突片段数 */
+  conflicts: number;
+  /** 无冲突时的合并结果，有冲突时为 null */
+  merged: string | null;
+}
+
+/**
+ * 冲突片段的取舍：本地、远端，或两者都保留（本地在前）
+ */
+export type MergeChoice = 'local' | 'remote' | 'both';
+
+/**
+ * 字段冲突
+ */
+export interface FieldConflict {
+  field: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+/**
+ * 字段合并结果，冲突字段暂取本地值
+ */
+export interface FieldMergeResult<T> {
+  merged: T;
+  conflicts: FieldConflict[];
+}
+
+// ============ 工具函数 ============
+
+/**
+ * 深比较（按 JSON 语义，对象键顺序无关）
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => deepEqual(item, other[i]));
+  }
+  const objA = a as Record<string, unknown>;
+  const objB = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(objA), ...Object.keys(objB)]);
+  for (const key of keys) {
+    if (!deepEqual(objA[key], objB[key])) return false;
+  }
+  return true;
+}
+
+/**
+ * 最长公共子序列，返回 a 下标 → b 下标 的匹配
+ *
+ * 先去掉公共前后缀，只对中间部分做动态规划。
+ */
+function lcsMatches(a: string[], b: string[]): Map<number, number> {
+  const matches = new Map<number, number>();
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches.set(start, start);
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches.set(endA, endB);
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0) return matches;
+
+  // dp[i][j]：a[start+i..] 与 b[start+j..] 的 LCS 长度
+  const dp: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      dp[i][j] = a[start + i] === b[start + j]
+        ? dp[i + 1][j + 1] + 1
+        : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      matches.set(start + i, start + j);
+      i++;
+      j++;
+    } else if (dp[i + 1][j] >= dp[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * 两份文本的公共段落（按顺序）
+ */
+function commonLines(a: string[], b: string[]): string[] {
+  return [...lcsMatches(a, b).keys()].sort((x, y) => x - y).map(i => a[i]);
+}
+
+const sameLines = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((line, i) => line === b[i]);
+
+// ============ 正文合并 ============
+
+/**
+ * 按段落三方合并正文（diff3）
+ *
+ * 三份文本按换行切分为段落，base 中在两边都保留的段落作为同步点，
+ * 同步点之间只有一边改动时采用该边，两边改成相同内容时直接采用，否则记为冲突。
+ */
+export function mergeText(base: string | undefined, local: string, remote: string): TextMergeResult {
+  if (local === remote) {
+    return { hunks: [{ type: 'stable', lines: local.split('\n') }], conflicts: 0, merged: local };
+  }
+  if (base !== undefined) {
+    if (base === local) return { hunks: [{ type: 'stable', lines: remote.split('\n') }], conflicts: 0, merged: remote };
+    if (base === remote) return { hunks: [{ type: 'stable', lines: local.split('\n') }], conflicts: 0, merged: local };
+  }
+
+  const localLines = local.split('\n');
+  const remoteLines = remote.split('\n');
+  // 没有共同祖先时以两边的公共段落对齐，两边不同的部分都记为冲突
+  const baseLines = base !== undefined ? base.split('\n') : commonLines(localLines, remoteLines);
+  const toLocal = lcsMatches(baseLines, localLines);
+  const toRemote = lcsMatches(baseLines, remoteLines);
+
+  const hunks: TextMergeHunk[] = [];
+  const pushStable = (line: string) => {
+    const last = hunks[hunks.length - 1];
+    if (last?.type === 'stable') {
+      last.lines.push(line);
+    } else {
+      hunks.push({ type: 'stable', lines: [line] });
+    }
+  };
+  const pushLines = (lines: string[]) => lines.forEach(pushStable);
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (i < baseLines.length || j < localLines.length || k < remoteLines.length) {
+    // 三边一致的段落
+    if (i < baseLines.length && toLocal.get(i) === j && toRemote.get(i) === k) {
+      pushStable(baseLines[i]);
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    // 下一个两边都保留的 base 段落
+    let next = i;
+    while (next < baseLines.length && (toLocal.get(next) === undefined || toRemote.get(next) === undefined)) {
+      next++;
+    }
+    const endLocal = next < baseLines.length ? toLocal.get(next)! : localLines.length;
+    const endRemote = next < baseLines.length ? toRemote.get(next)! : remoteLines.length;
+
+    const baseChunk = baseLines.slice(i, next);
+    const localChunk = localLines.slice(j, endLocal);
+    const remoteChunk = remoteLines.slice(k, endRemote);
+    const hasBase = base !== undefined;
+
+    if (hasBase && sameLines(baseChunk, localChunk)) {
+      pushLines(remoteChunk);
+    } else if (hasBase && sameLines(baseChunk, remoteChunk)) {
+      pushLines(localChunk);
+    } else if (sameLines(localChunk, remoteChunk)) {
+      pushLines(localChunk);
+    } else {
+      hunks.push({ type: 'conflict', base: baseChunk, local: localChunk, remote: remoteChunk });
+    }
+
+    i = next;
+    j = endLocal;
+    k = endRemote;
+  }
+
+  const conflicts = hunks.filter(h => h.type === 'conflict').length;
+  return {
+    hunks,
+    conflicts,
+    merged: conflicts === 0 ? resolveTextHunks(hunks, () => 'local') : null,
+  };
+}
+
+/**
+ * 按取舍拼出合并后的正文
+ *
+ * @param choose - 第 index 个冲突片段的取舍
+ */
+export function resolveTextHunks(hunks: TextMergeHunk[], choose: (index: number) => MergeChoice): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+  hunks.forEach(hunk => {
+    if (hunk.type === 'stable') {
+      lines.push(...hunk.lines);
+      return;
+    }
+    const choice = choose(conflictIndex++);
+    if (choice !== 'remote') lines.push(...hunk.local);
+    if (choice !== 'local') lines.push(...hunk.remote);
+  });
+  return lines.join('\n');
+}
+
+// ============ 字段与列表合并 ============
+
+/**
+ * 按字段三方合并对象
+ *
+ * @param ignore - 不参与冲突判断的字段（合并结果取本地值）
+ */
+export function mergeFields<T extends object>(
+  base: T | undefined,
+  local: T,
+  remote: T,
+  ignore: string[] = []
+): FieldMergeResult<T> {
+  const merged: Record<string, unknown> = { ...(local as Record<string, unknown>) };
+  const conflicts: FieldConflict[] = [];
+  const baseObj = (base ?? {}) as Record<string, unknown>;
+  const localObj = local as Record<string, unknown>;
+  const remoteObj = remote as Record<string, unknown>;
+  const fields = new Set([...Object.keys(localObj), ...Object.keys(remoteObj)]);
+
+  fields.forEach(field => {
+    if (ignore.includes(field)) return;
+    const l = localObj[field];
+    const r = remoteObj[field];
+    if (deepEqual(l, r)) return;
+
+    if (base !== undefined && deepEqual(baseObj[field], l)) {
+      if (r === undefined) {
+        delete merged[field];
+      } else {
+        merged[field] = r;
+      }
+    } else if (base === undefined || !deepEqual(baseObj[field], r)) {
+      conflicts.push({ field, base: baseObj[field], local: l, remote: r });
+    }
+  });
+
+  return { merged: merged as T, conflicts };
+}
+
+/**
+ * 按 id 三方合并列表
+ *
+ * - 两边都有的项目交给 mergeItem 合并
+ * - 只在一边新增的项目直接加入（远端新增的排在本地列表之后）
+ * - 一边删除、另一边未改的项目删除；一边删除、另一边改过的项目保留改过的版本，避免丢失修改
+ */
+export function mergeById<T extends { id: string }>(
+  base: T[] | undefined,
+  local: T[] = [],
+  remote: T[] = [],
+  mergeItem: (base: T | undefined, local: T, remote: T) => T
+): T[] {
+  const baseById = new Map((base ?? []).map(item => [item.id, item]));
+  const localById = new Map(local.map(item => [item.id, item]));
+  const remoteById = new Map(remote.map(item => [item.id, item]));
+  const result: T[] = [];
+
+  local.forEach(item => {
+    const remoteItem = remoteById.get(item.id);
+    const baseItem = baseById.get(item.id);
+    if (remoteItem) {
+      result.push(mergeItem(baseItem, item, remoteItem));
+    } else if (!baseItem || !deepEqual(baseItem, item)) {
+      // 本地新增，或远端删除但本地改过
+      result.push(item);
+    }
+  });
+
+  remote.forEach(item => {
+    if (localById.has(item.id)) return;
+    const baseItem = baseById.get(item.id);
+    if (!baseItem || !deepEqual(baseItem, item)) {
+      // 远端新增，或本地删除但远端改过
+      result.push(item);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { parseTrueType, subsetTrueType } from './truetype';
+import { buildTestFont, TEST_GLYPHS } from '../test/fontFixture';
+
+describe('utils/truetype', () => {
+  const font = buildTestFont(TEST_GLYPHS);
+
+  it('should read metrics, names and the character map', () => {
+    const parsed = parseTrueType(font);
+
+    expect(parsed.postScriptName).toBe('TestSans');
+    expect(parsed.unitsPerEm).toBe(1000);
+    expect(parsed.ascent).toBe(880);
+    expect(parsed.descent).toBe(-120);
+    expect(parsed.numGlyphs).toBe(6);
+    expect(parsed.glyphId(0x9053)).toBe(2);
+    expect(parsed.glyphId(0x4e00)).toBe(0);
+    expect(parsed.advanceWidth(3)).toBe(600);
+    // 超出 numberOfHMetrics 的字形沿用最后一个宽度
+    expect(parsed.advanceWidth(5)).toBe(550);
+  });
+
+  it('should reject CFF fonts', () => {
+    const otf = font.slice();
+    otf.set([0x4f, 0x54, 0x54, 0x4f], 0);
+    expect(() => parseTrueType(otf)).toThrow('TrueType');
+  });
+
+  it('should keep only requested glyphs and renumber them in order', () => {
+    const { data, glyphMap } = subsetTrueType(font, [2, 1]);
+    const subset = parseTrueType(data);
+
+    expect([...glyphMap]).toEqual([[0, 0], [2, 1], [1, 2]]);
+    expect(subset.numGlyphs).toBe(3);
+    expect(subset.advanceWidth(1)).toBe(1000);
+    expect(data.length).toBeLessThan(font.length);
+  });
+
+  it('should pull in and remap composite glyph components', () => {
+    const { data, glyphMap } = subsetTrueType(font, [4]);
+    expect([...glyphMap]).toEqual([[0, 0], [4, 1], [3, 2], [5, 3]]);
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const tables = new Map<string, number>();
+    for (let i = 0; i < view.getUint16(4); i++) {
+      const tag = String.fromCharCode(...data.slice(12 + i * 16, 16 + i * 16));
+      tables.set(tag, view.getUint32(12 + i * 16 + 8));
+    }
+    const glyf = tables.get('glyf')!;
+    const loca = tables.get('loca')!;
+    const composite = glyf + view.getUint32(loca + 4);
+    expect(view.getInt16(composite)).toBe(-1);
+    expect(view.getUint16(composite + 12)).toBe(2);
+    expect(view.getUint16(composite + 12 + 8)).toBe(3);
+    // 部件的轮廓原样保留
+    expect(view.getInt16(glyf + view.getUint32(loca + 12) + 2)).toBe(55);
+    expect(parseTrueType(data).advanceWidth(3)).toBe(550);
+  });
+
+  it('should write a valid checksum adjustment', () => {
+    const { data } = subsetTrueType(font, [1, 3]);
+    const padded = new Uint8Array((data.length + 3) & ~3);
+    padded.set(data);
+    const view = new DataView(padded.buffer);
+    let sum = 0;
+    for (let i = 0; i < padded.length; i += 4) sum = (sum + view.getUint32(i)) >>> 0;
+    expect(sum).toBe(0xb1b0afba);
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * @fileoverview TrueType 字体解析与子集化
+ * @module utils/truetype
+ * @description 读取 TrueType（glyf 轮廓）字体的度量和字符映射，并按使用到的字形生成子集，供 PDF 嵌入
+ */
+
+/**
+ * 已解析的 TrueType 字体
+ */
+export interface TrueTypeFont {
+  /** PostScript 名称（name 表 nameID 6），缺失时为 'EmbeddedFont' */
+  postScriptName: string;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  /** 字形包围盒 [xMin, yMin, xMax, yMax] */
+  bbox: [number, number, number, number];
+  numGlyphs: number;
+  /** 码点对应的字形 ID，字体中没有时为 0（.notdef） */
+  glyphId: (codePoint: number) => number;
+  /** 字形的前进宽度（字体单位） */
+  advanceWidth: (glyphId: number) => number;
+}
+
+/**
+ * 字体子集
+ */
+export interface TrueTypeSubset {
+  /** 子集字体文件 */
+  data: Uint8Array;
+  /** 原字形 ID → 子集字形 ID（传入的字形按顺序编号，复合字形引用的部件排在最后） */
+  glyphMap: Map<number, number>;
+}
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+/** 子集中原样保留的 hinting 表 */
+const HINTING_TABLES = ['cvt ', 'fpgm', 'prep'];
+
+// 复合字形标志位
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+/**
+ * 读取表目录
+ */
+const readTables = (view: DataView): Map<string, TableRecord> => {
+  const tables = new Map<string, TableRecord>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const base = 12 + i * 16;
+    const tag = String.fromCharCode(
+      view.getUint8(base), view.getUint8(base + 1), view.getUint8(base + 2), view.getUint8(base + 3)
+    );
+    tables.set(tag, { offset: view.getUint32(base + 8), length: view.getUint32(base + 12) });
+  }
+  return tables;
+};
+
+/**
+ * 读取 PostScript 名称
+ */
+const readPostScriptName = (view: DataView, table?: TableRecord): string | null => {
+  if (!table) return null;
+  const count = view.getUint16(table.offset + 2);
+  const storage = table.offset + view.getUint16(table.offset + 4);
+  for (let i = 0; i < count; i++) {
+    const record = table.offset + 6 + i * 12;
+    const platformId = view.getUint16(record);
+    if (view.getUint16(record + 6) !== 6) continue;
+    const length = view.getUint16(record + 8);
+    const start = storage + view.getUint16(record + 10);
+    let name = '';
+    if (platformId === 3 || platformId === 0) {
+      for (let j = 0; j + 1 < length; j += 2) name += String.fromCharCode(view.getUint16(start + j));
+    } else {
+      for (let j = 0; j < length; j++) name += String.fromCharCode(view.getUint8(start + j));
+    }
+    // PDF 名称中只保留安全字符
+    name = name.replace(/[^A-Za-z0-9_-]/g, '');
+    if (name) return name;
+  }
+  return null;
+};
+
+/**
+ * 读取字符映射（优先 Unicode 全平面的 format 12，其次 BMP 的 format 4）
+ */
+const readCmap = (view: DataView, table?: TableRecord): Map<number, number> => {
+  const map = new Map<number, number>();
+  if (!table) return map;
+
+  const numSubtables = view.getUint16(table.offset + 2);
+  let format4 = -1;
+  let format12 = -1;
+  for (let i = 0; i < numSubtables; i++) {
+    const record = table.offset + 4 + i * 8;
+    const platformId = view.getUint16(record);
+    const encodingId = view.getUint16(record + 2);
+    const offset = table.offset + view.getUint32(record + 4);
+    const isUnicode = platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+    if (!isUnicode) continue;
+    const format = view.getUint16(offset);
+    if (format === 12 && format12 < 0) format12 = offset;
+    if (format === 4 && format4 < 0) format4 = offset;
+  }
+
+  if (format12 >= 0) {
+    const groups = view.getUint32(format12 + 12);
+    for (let i = 0; i < groups; i++) {
+      const group = format12 + 16 + i * 12;
+      const start = view.getUint32(group);
+      const end = view.getUint32(group + 4);
+      const startGlyph = view.getUint32(group + 8);
+      for (let c = start; c <= end; c++) map.set(c, startGlyph + c - start);
+    }
+    return map;
+  }
+
+  if (format4 >= 0) {
+    const segCount = view.getUint16(format4 + 6) / 2;
+    const endCodes = format4 + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    for (let i = 0; i < segCount; i++) {
+      const start = view.getUint16(startCodes + i * 2);
+      const end = view.getUint16(endCodes + i * 2);
+      const delta = view.getInt16(idDeltas + i * 2);
+      const rangeOffset = view.getUint16(idRangeOffsets + i * 2);
+      for (let c = start; c <= end && c !== 0xffff; c++) {
+        let glyph: number;
+        if (rangeOffset === 0) {
+          glyph = (c + delta) & 0xffff;
+        } else {
+          glyph = view.getUint16(idRangeOffsets + i * 2 + rangeOffset + (c - start) * 2);
+          if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+        }
+        if (glyph !== 0) map.set(c, glyph);
+      }
+    }
+  }
+  return map;
+};
+
+/**
+ * 解析 TrueType 字体
+ *
+ * @throws {Error} 不是 TrueType 字体（如 CFF 轮廓的 OTF、字体集合 TTC）或缺少必要的表
+ */
+export function parseTrueType(data: Uint8Array): TrueTypeFont {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint32(0);
+  if (version !== 0x00010000 && version !== 0x74727565 /* 'true' */) {
+    throw new Error('仅支持 TrueType 轮廓的字体（.ttf），不支持 CFF 字体或字体集合');
+  }
+
+  const tables = readTables(view);
+  for (const tag of ['head', 'hhea', 'maxp', 'hmtx', 'loca', 'glyf']) {
+    if (!tables.has(tag)) throw new Error(`字体缺少 ${tag} 表`);
+  }
+
+  const head = tables.get('head')!.offset;
+  const hhea = tables.get('hhea')!.offset;
+  const unitsPerEm = view.getUint16(head + 18);
+  const numGlyphs = view.getUint16(tables.get('maxp')!.offset + 4);
+  const numberOfHMetrics = view.getUint16(hhea + 34);
+  const hmtx = tables.get('hmtx')!.offset;
+  const ascent = view.getInt16(hhea + 4);
+
+  const os2 = tables.get('OS/2');
+  const capHeight = os2 && os2.length >= 90 && view.getUint16(os2.offset) >= 2
+    ? view.getInt16(os2.offset + 88)
+    : ascent;
+
+  const cmap = readCmap(view, tables.get('cmap'));
+
+  return {
+    postScriptName: readPostScriptName(view, tables.get('name')) || 'EmbeddedFont',
+    unitsPerEm,
+    ascent,
+    descent: view.getInt16(hhea + 6),
+    capHeight,
+    bbox: [view.getInt16(head + 36), view.getInt16(head + 38), view.getInt16(head + 40), view.getInt16(head + 42)],
+    numGlyphs,
+    glyphId: (codePoint) => cmap.get(codePoint) ?? 0,
+    advanceWidth: (glyphId) => {
+      const index = Math.min(glyphId, numberOfHMetrics - 1);
+      return view.getUint16(hmtx + index * 4);
+    },
+  };
+}
+
+/**
+ * 计算表校验和
+ */
+const tableChecksum = (data: Uint8Array): number => {
+  const padded = new Uint8Array((data.length + 3) & ~3);
+  padded.set(data);
+  const view = new DataView(padded.buffer);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) {
+    sum = (sum + view.getUint32(i)) >>> 0;
+  }
+  return sum;
+};
+
+/**
+ * 生成字体子集
+ *
+ * 只保留传入的字形（以及复合字形引用的部件），字形重新编号；.notdef 固定为 0。
+ * 子集不含 cmap，PDF 中以 Identity 编码直接引用子集字形 ID。
+ *
+ * @param data - 原字体文件
+ * @param glyphIds - 需要保留的原字形 ID
+ */
+export function subsetTrueType(data: Uint8Array, glyphIds: Iterable<number>): TrueTypeSubset {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tables = readTables(view);
+  const head = tables.get('head')!;
+  const hhea = tables.get('hhea')!;
+  const maxp = tables.get('maxp')!;
+  const glyf = tables.get('glyf')!.offset;
+  const loca = tables.get('loca')!.offset;
+  const hmtx = tables.get('hmtx')!.offset;
+  const longLoca = view.getInt16(head.offset + 50) === 1;
+  const numberOfHMetrics = view.getUint16(hhea.offset + 34);
+
+  const glyphRange = (gid: number): [number, number] => longLoca
+    ? [view.getUint32(loca + gid * 4), view.getUint32(loca + gid * 4 + 4)]
+    : [view.getUint16(loca + gid * 2) * 2, view.getUint16(loca + gid * 2 + 2) * 2];
+
+  // 收集字形及复合字形的部件
+  const glyphMap = new Map<number, number>([[0, 0]]);
+  const order: number[] = [0];
+  const add = (gid: number) => {
+    if (!glyphMap.has(gid)) {
+      glyphMap.set(gid, order.length);
+      order.push(gid);
+    }
+  };
+  for (const gid of glyphIds) add(gid);
+  for (let i = 0; i < order.length; i++) {
+    const [start, end] = glyphRange(order[i]);
+    if (end - start < 10 || view.getInt16(glyf + start) >= 0) continue;
+    let pointer = glyf + start + 10;
+    let flags: number;
+    do {
+      flags = view.getUint16(pointer);
+      add(view.getUint16(pointer + 2));
+      pointer += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+      if (flags & WE_HAVE_A_SCALE) pointer += 2;
+      else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) pointer += 4;
+      else if (flags & WE_HAVE_A_TWO_BY_TWO) pointer += 8;
+    } while (flags & MORE_COMPONENTS);
+  }
+
+  // 重建 glyf / loca / hmtx
+  const glyphs = order.map(gid => {
+    const [start, end] = glyphRange(gid);
+    const glyph = data.slice(glyf + start, glyf + end);
+    const gv = new DataView(glyph.buffer);
+    if (glyph.length >= 10 && gv.getInt16(0) < 0) {
+      let pointer = 10;
+      let flags: number;
+      do {
+        flags = gv.getUint16(pointer);
+        gv.setUint16(pointer + 2, glyphMap.get(gv.getUint16(pointer + 2))!);
+        pointer += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+        if (flags & WE_HAVE_A_SCALE) pointer += 2;
+        else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) pointer += 4;
+        else if (flags & WE_HAVE_A_TWO_BY_TWO) pointer += 8;
+      } while (flags & MORE_COMPONENTS);
+    }
+    return glyph;
+  });
+
+  const glyfSize = glyphs.reduce((sum, g) => sum + ((g.length + 3) & ~3), 0);
+  const newGlyf = new Uint8Array(glyfSize);
+  const newLoca = new Uint8Array((order.length + 1) * 4);
+  const newHmtx = new Uint8Array(order.length * 4);
+  const locaView = new DataView(newLoca.buffer);
+  const hmtxView = new DataView(newHmtx.buffer);
+  let offset = 0;
+  order.forEach((gid, index) => {
+    locaView.setUint32(index * 4, offset);
+    newGlyf.set(glyphs[index], offset);
+    offset += (glyphs[index].length + 3) & ~3;
+
+    const metric = Math.min(gid, numberOfHMetrics - 1);
+    hmtxView.setUint16(index * 4, view.getUint16(hmtx + metric * 4));
+    const lsb = gid < numberOfHMetrics
+      ? view.getInt16(hmtx + gid * 4 + 2)
+      : view.getInt16(hmtx + numberOfHMetrics * 4 + (gid - numberOfHMetrics) * 2);
+    hmtxView.setInt16(index * 4 + 2, lsb);
+  });
+  locaView.setUint32(order.length * 4, offset);
+
+  const newHead = data.slice(head.offset, head.offset + head.length);
+  const headView = new DataView(newHead.buffer);
+  headView.setUint32(8, 0); // checkSumAdjustment 最后回填
+  headView.setInt16(50, 1); // 长格式 loca
+
+  const newHhea = data.slice(hhea.offset, hhea.offset + hhea.length);
+  new DataView(newHhea.buffer).setUint16(34, order.length);
+
+  const newMaxp = data.slice(maxp.offset, maxp.offset + maxp.length);
+  new DataView(newMaxp.buffer).setUint16(4, order.length);
+
+  const output = new Map<string, Uint8Array>([
+    ['glyf', newGlyf],
+    ['head', newHead],
+    ['hhea', newHhea],
+    ['hmtx', newHmtx],
+    ['loca', newLoca],
+    ['maxp', newMaxp],
+  ]);
+  HINTING_TABLES.forEach(tag => {
+    const table = tables.get(tag);
+    if (table) output.set(tag, data.slice(table.offset, table.offset + table.length));
+  });
+
+  // 写出字体文件，表按标签排序
+  const tags = [...output.keys()].sort();
+  const headerSize = 12 + tags.length * 16;
+  const totalSize = tags.reduce((sum, tag) => sum + ((output.get(tag)!.length + 3) & ~3), headerSize);
+  const font = new Uint8Array(totalSize);
+  const fontView = new DataView(font.buffer);
+  const searchPower = 2 ** Math.floor(Math.log2(tags.length));
+  fontView.setUint32(0, 0x00010000);
+  fontView.setUint16(4, tags.length);
+  fontView.setUint16(6, searchPower * 16);
+  fontView.setUint16(8, Math.log2(searchPower));
+  fontView.setUint16(10, tags.length * 16 - searchPower * 16);
+
+  let position = headerSize;
+  let headPosition = 0;
+  tags.forEach((tag, index) => {
+    const table = output.get(tag)!;
+    const record = 12 + index * 16;
+    for (let i = 0; i < 4; i++) fontView.setUint8(record + i, tag.charCodeAt(i));
+    fontView.setUint32(record + 4, tableChecksum(table));
+    fontView.setUint32(record + 8, position);
+    fontView.setUint32(record + 12, table.length);
+    font.set(table, position);
+    if (tag === 'head') headPosition = position;
+    position += (table.length + 3) & ~3;
+  });
+  fontView.setUint32(headPosition + 8, (0xb1b0afba - tableChecksum(font)) >>> 0);
+
+  return { data: font, glyphMap };
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffSequences,
+  diffChars,
+  calculateDiff,
+  getInlineSegments,
+  buildSideBySideRows,
+  compareVersions,
+  exportDiffAsMarkdown,
+  exportDiffAsHTML,
+  encodeVersionDelta,
+  applyVersionDelta,
+  resolveVersions,
+  dropVersions,
+  cleanOldVersions,
+} from './versionComparison';
+import type { ChapterVersion, ResolvedChapterVersion } from '../types';
+
+const version = (id: string, content: string): ResolvedChapterVersion => ({
+  id,
+  chapterId: 'c1',
+  content,
+  wordCount: content.length,
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('diffSequences', () => {
+  it('should produce the shortest edit script', () => {
+    const ops = diffSequences(['a', 'b', 'c'], ['a', 'c', 'd']);
+    expect(ops.map(op => op.type)).toEqual(['equal', 'delete', 'equal', 'insert']);
+    expect(ops[1]).toMatchObject({ oldStart: 1, oldEnd: 2 });
+    expect(ops[3]).toMatchObject({ newStart: 2, newEnd: 3 });
+  });
+
+  it('should fall back to delete + insert when the edit cost is too high', () => {
+    const ops = diffSequences(['a', 'b', 'x'], ['c', 'd', 'x'], { maxCost: 1 });
+    expect(ops.map(op => op.type)).toEqual(['delete', 'insert', 'equal']);
+  });
+});
+
+describe('diffChars', () => {
+  it('should refine a changed paragraph character by character', () => {
+    expect(diffChars('他看见了那座塔。', '他望见了那座高塔。')).toEqual([
+      { type: 'equal', text: '他' },
+      { type: 'delete', text: '看' },
+      { type: 'insert', text: '望' },
+      { type: 'equal', text: '见了那座' },
+      { type: 'insert', text: '高' },
+      { type: 'equal', text: '塔。' },
+    ]);
+  });
+
+  it('should absorb single equal characters between two changes', () => {
+    expect(diffChars('甲乙丙', '丁乙戊')).toEqual([
+      { type: 'delete', text: '甲乙丙' },
+      { type: 'insert', text: '丁乙戊' },
+    ]);
+  });
+});
+
+describe('calculateDiff', () => {
+  it('should not mark following paragraphs as changed when a paragraph is inserted', () => {
+    const diff = calculateDiff('第一段\n第二段\n第三段', '序章\n第一段\n第二段\n第三段');
+
+    expect(diff.lines.map(line => line.type)).toEqual(['added', 'unchanged', 'unchanged', 'unchanged']);
+    expect(diff.stats).toMatchObject({ added: 1, removed: 0, unchanged: 3, modified: 0 });
+  });
+
+  it('should pair a rewritten paragraph as modified with character segments', () => {
+    const diff = calculateDiff('山门初开。\n他看见了那座塔。', '山门初开。\n他望见了那座塔。');
+    const modified = diff.lines[1];
+
+    expect(modified).toMatchObject({
+      type: 'modified',
+      content: '他望见了那座塔。',
+      oldContent: '他看见了那座塔。',
+      oldLineNumber: 2,
+      newLineNumber: 2,
+    });
+    expect(getInlineSegments(modified).filter(s => s.type !== 'equal')).toEqual([
+      { type: 'delete', text: '看' },
+      { type: 'insert', text: '望' },
+    ]);
+  });
+
+  it('should record unrelated paragraphs as removed and added', () => {
+    const diff = calculateDiff('山门初开。', '风雪夜归人。');
+    expect(diff.lines.map(line => line.type)).toEqual(['removed', 'added']);
+  });
+
+  it('should detect relocated paragraphs as moves', () => {
+    const diff = calculateDiff('甲段落\n乙段落\n丙段落', '乙段落\n丙段落\n甲段落');
+    const moved = diff.lines.filter(line => line.type === 'moved');
+
+    expect(moved).toEqual([
+      expect.objectContaining({ content: '甲段落', oldLineNumber: 1, movedTo: 3 }),
+      expect.objectContaining({ content: '甲段落', newLineNumber: 3, movedFrom: 1 }),
+    ]);
+    expect(diff.stats).toMatchObject({ moved: 1, added: 0, removed: 0 });
+    expect(diff.similarity).toBe(100);
+  });
+});
+
+describe('buildSideBySideRows', () => {
+  it('should align removed and added paragraphs and split modified segments by side', () => {
+    const diff = calculateDiff('开头\n旧的一段话\n他看见了塔', '开头\n全新的内容出现\n他望见了塔');
+    const rows = buildSideBySideRows(diff);
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0].left?.content).toBe('开头');
+    expect(rows[1]).toMatchObject({ left: { type: 'removed' }, right: { type: 'added' } });
+    expect(rows[2].left?.segments?.some(s => s.type === 'insert')).toBe(false);
+    expect(rows[2].right?.segments?.some(s => s.type === 'delete')).toBe(false);
+  });
+});
+
+describe('export', () => {
+  const comparison = compareVersions(
+    version('v1', '甲段落\n他看见了那座塔。\n乙段落'),
+    version('v2', '他望见了那座塔。\n乙段落\n甲段落')
+  );
+
+  it('should export moves and in-paragraph changes as Markdown', () => {
+    const markdown = exportDiffAsMarkdown(comparison);
+    expect(markdown).toContain('移至第 3 段');
+    expect(markdown).toContain('~~看~~**望**');
+  });
+
+  it('should export in-paragraph changes as HTML', () => {
+    const html = exportDiffAsHTML(comparison);
+    expect(html).toContain('<del>看</del><ins>望</ins>');
+    expect(html).toContain('class="diff-line moved"');
+  });
+});
+
+describe('version delta storage', () => {
+  it('should store only the changed characters and replay them', () => {
+    const base = '第一段。\n他看见了那座塔。\n第三段。';
+    const target = '第一段。\n他望见了那座塔。\n新的一段。\n第三段。';
+    const delta = encodeVersionDelta(base, target);
+
+    // 只存「望」和新段落的文字
+    expect(delta.filter(op => typeof op === 'string').join('')).toHaveLength('望新的一段。\n'.length);
+    expect(applyVersionDelta(base, delta)).toBe(target);
+    expect(applyVersionDelta(base, encodeVersionDelta(base, ''))).toBe('');
+    expect(applyVersionDelta('', encodeVersionDelta('', target))).toBe(target);
+  });
+
+  const chain: ChapterVersion[] = [
+    { id: 'v3', chapterId: 'c1', baseVersionId: 'v2', delta: [10, '丙'], wordCount: 11, createdAt: '2026-01-03T00:00:00.000Z' },
+    { id: 'v2', chapterId: 'c1', baseVersionId: 'v1', delta: [9, '乙'], wordCount: 10, createdAt: '2026-01-02T00:00:00.000Z' },
+    { id: 'v1', chapterId: 'c1', content: '很久很久以前的开头', wordCount: 9, createdAt: '2026-01-01T00:00:00.000Z' },
+  ];
+
+  it('should resolve versions through the delta chain', () => {
+    expect(resolveVersions(chain).map(v => v.content)).toEqual(['很久很久以前的开头乙丙', '很久很久以前的开头乙', '很久很久以前的开头']);
+    expect(resolveVersions(chain.slice(0, 2))).toEqual([]);
+  });
+
+  it('should rebase versions whose base is dropped', () => {
+    const kept = dropVersions(chain, new Set(['v2']));
+
+    expect(kept.map(v => v.id)).toEqual(['v3', 'v1']);
+    expect(kept[0].baseVersionId).toBe('v1');
+    expect(resolveVersions(kept).map(v => v.content)).toEqual(['很久很久以前的开头乙丙', '很久很久以前的开头']);
+  });
+
+  it('should keep milestones when cleaning old versions', () => {
+    const chapter = { id: 'c1', title: '第一章', content: '很久很久以前的开头乙丙', wordCount: 11, versions: chain.map(v => (v.id === 'v1' ? { ...v, milestone: true } : v)) };
+    const cleaned = cleanOldVersions(chapter, 1);
+
+    expect(cleaned.versions!.map(v => v.id)).toEqual(['v3', 'v1']);
+    expect(resolveVersions(cleaned.versions!)[0].content).toBe('很久很久以前的开头乙丙');
+  });
+});
@@ -2,24 +2,48 @@
  * 版本对比工具 - 章节版本历史对比和差异分析
  * 
  * 核心能力：
- * 1. 版本差异对比（diff）
- * 2. 版本历史管理
- * 3. 版本回滚
- * 4. 差异可视化
+ * 1. 版本差异对比（diff）：段落级 Myers 差异 + 段内逐字差异（中文没有词间空格）+ 段落移动检测
+ * 2. 版本增量存储：版本只保存相对前一个版本的增量，定期存一份完整快照
+ * 3. 版本历史管理
+ * 4. 版本回滚
+ * 5. 差异可视化
  */
 
-import type { Chapter, ChapterVersion } from '../types';
+import type { Chapter, ChapterVersion, ResolvedChapterVersion, VersionDelta } from '../types';
 
 // ============ 类型定义 ============
 
-export type DiffType = 'added' | 'removed' | 'unchanged' | 'modified';
+/**
+ * 段落差异类型
+ * - modified：段落被改写，segments 中是段内逐字差异
+ * - moved：段落原样移到了别处，旧位置和新位置各有一条
+ */
+export type DiffType = 'added' | 'removed' | 'unchanged' | 'modified' | 'moved';
+
+/**
+ * 段内差异片段
+ */
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
 
 export interface DiffLine {
   type: DiffType;
+  /** 段落内容（modified 为新内容） */
   content: string;
+  /** 新版本中的段落序号，已删除或移走的段落为旧版本中的序号 */
   lineNumber: number;
   oldLineNumber?: number;
   newLineNumber?: number;
+  /** modified：旧内容 */
+  oldContent?: string;
+  /** modified：段内逐字差异 */
+  segments?: DiffSegment[];
+  /** moved（旧位置）：移到了新版本的第几段 */
+  movedTo?: number;
+  /** moved（新位置）：从旧版本的第几段移来 */
+  movedFrom?: number;
 }
 
 export interface DiffResult {
@@ -31,103 +55,447 @@ export interface DiffResult {
     removed: number;
     unchanged: number;
     modified: number;
+    /** 移动的段落数（每段只计一次） */
+    moved: number;
   };
   similarity: number; // 相似度 0-100
 }
 
 export interface VersionComparison {
-  version1: ChapterVersion;
-  version2: ChapterVersion;
+  version1: ResolvedChapterVersion;
+  version2: ResolvedChapterVersion;
   diff: DiffResult;
   summary: string;
 }
 
+/**
+ * 序列差异操作，区间为左闭右开
+ */
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+}
+
+/**
+ * 并排视图中的一侧
+ */
+export interface DiffCell {
+  type: DiffType;
+  lineNumber: number;
+  content: string;
+  /** 该侧需要标出的段内差异（左侧只含 equal/delete，右侧只含 equal/insert） */
+  segments?: DiffSegment[];
+  movedTo?: number;
+  movedFrom?: number;
+}
+
+/**
+ * 并排视图的一行：左侧为旧版本，右侧为新版本，没有对应段落的一侧为 null
+ */
+export interface SideBySideRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
 // ============ 差异计算 ============
 
+/** 编辑距离超过该值时不再细算，中间部分整体记为删除 + 新增 */
+const MAX_EDIT_COST = 2000;
+
+/** 两段相似度达到该值才视为同一段被改写，否则记为删除 + 新增 */
+const MODIFIED_SIMILARITY = 0.4;
+
+/** 配对改写段落时最多向后查找的段数 */
+const PAIR_LOOKAHEAD = 3;
+
+/**
+ * Myers 差异算法：求两个序列之间最短的编辑脚本
+ *
+ * 先去掉相同的首尾，中间部分按 O(ND) 求解；编辑距离超过 maxCost 时把中间部分整体记为删除 + 新增。
+ *
+ * @example
+ * diffSequences(['a', 'b', 'c'], ['a', 'c', 'd']);
+ * // [equal 0-1, delete 1-2, equal 2-3, insert 2-3]
+ */
+export function diffSequences<T>(
+  a: readonly T[],
+  b: readonly T[],
+  options: { maxCost?: number } = {}
+): DiffOp[] {
+  const { maxCost = MAX_EDIT_COST } = options;
+
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (
+    tail < a.length - head &&
+    tail < b.length - head &&
+    a[a.length - 1 - tail] === b[b.length - 1 - tail]
+  ) tail++;
+
+  const n = a.length - head - tail;
+  const m = b.length - head - tail;
+  // 中间部分的编辑步骤（每步一个元素），坐标相对 head
+  const steps: Array<'equal' | 'insert' | 'delete'> = [];
+
+  if (n === 0 || m === 0) {
+    for (let i = 0; i < n; i++) steps.push('delete');
+    for (let j = 0; j < m; j++) steps.push('insert');
+  } else {
+    const script = myers(a, b, head, n, m, maxCost);
+    if (script) {
+      steps.push(...script);
+    } else {
+      for (let i = 0; i < n; i++) steps.push('delete');
+      for (let j = 0; j < m; j++) steps.push('insert');
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  const push = (type: DiffOp['type'], oldCount: number, newCount: number, oldStart: number, newStart: number) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) {
+      last.oldEnd += oldCount;
+      last.newEnd += newCount;
+    } else {
+      ops.push({ type, oldStart, oldEnd: oldStart + oldCount, newStart, newEnd: newStart + newCount });
+    }
+  };
+
+  let x = 0;
+  let y = 0;
+  if (head > 0) push('equal', head, head, 0, 0);
+  x = y = head;
+  steps.forEach(step => {
+    if (step === 'equal') {
+      push('equal', 1, 1, x, y);
+      x++;
+      y++;
+    } else if (step === 'delete') {
+      push('delete', 1, 0, x, y);
+      x++;
+    } else {
+      push('insert', 0, 1, x, y);
+      y++;
+    }
+  });
+  if (tail > 0) push('equal', tail, tail, x, y);
+  return ops;
+}
+
+/**
+ * Myers 算法主体，只处理 a[offset, offset+n) 与 b[offset, offset+m)
+ */
+function myers<T>(
+  a: readonly T[],
+  b: readonly T[],
+  offset: number,
+  n: number,
+  m: number,
+  maxCost: number
+): Array<'equal' | 'insert' | 'delete'> | null {
+  const max = Math.min(n + m, maxCost);
+  const center = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] 保存第 d 步开始前 k ∈ [-d-1, d+1] 的 v，用于回溯
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(center - d - 1, center + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[center + k - 1] < v[center + k + 1])
+        ? v[center + k + 1]
+        : v[center + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[offset + x] === b[offset + y]) {
+        x++;
+        y++;
+      }
+      v[center + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Array<'equal' | 'insert' | 'delete'> {
+  const steps: Array<'equal' | 'insert' | 'delete'> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      steps.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      steps.push(x === prevX ? 'insert' : 'delete');
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return steps.reverse();
+}
+
+/**
+ * 逐字比较两段文字
+ *
+ * 中文没有词间空格，所以按字比较；夹在两处改动之间的单个相同字并入改动，避免结果过碎。
+ */
+export function diffChars(oldText: string, newText: string): DiffSegment[] {
+  const a = Array.from(oldText);
+  const b = Array.from(newText);
+  const raw: DiffSegment[] = diffSequences(a, b).map(op => ({
+    type: op.type,
+    text: op.type === 'insert' ? b.slice(op.newStart, op.newEnd).join('') : a.slice(op.oldStart, op.oldEnd).join(''),
+  }));
+
+  const absorbed: DiffSegment[] = [];
+  raw.forEach((segment, i) => {
+    const isGap = segment.type === 'equal' && Array.from(segment.text).length === 1
+      && i > 0 && i < raw.length - 1;
+    if (isGap) {
+      absorbed.push({ type: 'delete', text: segment.text }, { type: 'insert', text: segment.text });
+    } else {
+      absorbed.push(segment);
+    }
+  });
+
+  // 把相邻改动中的删除集中在前、新增集中在后，再合并同类片段
+  const merged: DiffSegment[] = [];
+  let deleted = '';
+  let inserted = '';
+  const flush = () => {
+    if (deleted) merged.push({ type: 'delete', text: deleted });
+    if (inserted) merged.push({ type: 'insert', text: inserted });
+    deleted = inserted = '';
+  };
+  absorbed.forEach(segment => {
+    if (segment.type === 'delete') deleted += segment.text;
+    else if (segment.type === 'insert') inserted += segment.text;
+    else {
+      flush();
+      const last = merged[merged.length - 1];
+      if (last?.type === 'equal') last.text += segment.text;
+      else merged.push({ ...segment });
+    }
+  });
+  flush();
+  return merged;
+}
+
+/**
+ * 两段文字的相似度（0-1），按相同的字数计算
+ */
+function segmentSimilarity(segments: DiffSegment[], oldText: string, newText: string): number {
+  const total = oldText.length + newText.length;
+  if (total === 0) return 1;
+  const equal = segments.filter(s => s.type === 'equal').reduce((sum, s) => sum + s.text.length, 0);
+  return (2 * equal) / total;
+}
+
 /**
  * 计算两个文本的差异
+ *
+ * 先按段落（换行）求最短编辑脚本，再：
+ * 1. 删除与新增中内容相同的段落记为移动
+ * 2. 同一处改动中相似的删除段与新增段配成一对，记为修改并逐字比较
  */
 export function calculateDiff(oldText: string, newText: string): DiffResult {
   const oldLines = oldText.split('\n');
   const newLines = newText.split('\n');
-  
+  const ops = diffSequences(oldLines, newLines);
+
+  // 移动：被删除的段落原样出现在新增段落中（忽略空段）
+  const movedTo = new Map<number, number>();
+  const movedFrom = new Map<number, number>();
+  const addedByText = new Map<string, number[]>();
+  ops.filter(op => op.type === 'insert').forEach(op => {
+    for (let j = op.newStart; j < op.newEnd; j++) {
+      const key = newLines[j].trim();
+      if (!key) continue;
+      addedByText.set(key, [...(addedByText.get(key) ?? []), j]);
+    }
+  });
+  ops.filter(op => op.type === 'delete').forEach(op => {
+    for (let i = op.oldStart; i < op.oldEnd; i++) {
+      const candidates = addedByText.get(oldLines[i].trim());
+      const j = candidates?.shift();
+      if (j !== undefined) {
+        movedTo.set(i, j);
+        movedFrom.set(j, i);
+      }
+    }
+  });
+
   const lines: DiffLine[] = [];
-  const stats = {
-    added: 0,
-    removed: 0,
-    unchanged: 0,
-    modified: 0,
+  const stats = { added: 0, removed: 0, unchanged: 0, modified: 0, moved: movedTo.size };
+  // 已输出的新版本段落
+  const emitted = new Set<number>();
+  let equalChars = 0;
+
+  const emitRemoved = (i: number) => {
+    const to = movedTo.get(i);
+    lines.push(to === undefined
+      ? { type: 'removed', content: oldLines[i], lineNumber: i + 1, oldLineNumber: i + 1 }
+      : { type: 'moved', content: oldLines[i], lineNumber: i + 1, oldLineNumber: i + 1, movedTo: to + 1 });
+    if (to === undefined) stats.removed++;
+  };
+  const emitAdded = (j: number) => {
+    emitted.add(j);
+    const from = movedFrom.get(j);
+    lines.push(from === undefined
+      ? { type: 'added', content: newLines[j], lineNumber: j + 1, newLineNumber: j + 1 }
+      : { type: 'moved', content: newLines[j], lineNumber: j + 1, newLineNumber: j + 1, movedFrom: from + 1 });
+    if (from === undefined) stats.added++;
+    else equalChars += newLines[j].length * 2;
   };
 
-  // 简单的逐行对比（可以使用更复杂的 diff 算法）
-  const maxLen = Math.max(oldLines.length, newLines.length);
-  
-  for (let i = 0; i < maxLen; i++) {
-    const oldLine = oldLines[i];
-    const newLine = newLines[i];
-
-    if (oldLine === undefined) {
-      // 新增行
-      lines.push({
-        type: 'added',
-        content: newLine,
-        lineNumber: i + 1,
-        newLineNumber: i + 1,
-      });
-      stats.added++;
-    } else if (newLine === undefined) {
-      // 删除行
-      lines.push({
-        type: 'removed',
-        content: oldLine,
-        lineNumber: i + 1,
-        oldLineNumber: i + 1,
-      });
-      stats.removed++;
-    } else if (oldLine === newLine) {
-      // 未变化
-      lines.push({
-        type: 'unchanged',
-        content: oldLine,
-        lineNumber: i + 1,
-        oldLineNumber: i + 1,
-        newLineNumber: i + 1,
-      });
-      stats.unchanged++;
-    } else {
-      // 修改行
-      lines.push({
-        type: 'modified',
-        content: newLine,
-        lineNumber: i + 1,
-        oldLineNumber: i + 1,
-        newLineNumber: i + 1,
-      });
-      stats.modified++;
+  for (let index = 0; index < ops.length; index++) {
+    const op = ops[index];
+    if (op.type === 'equal') {
+      for (let i = op.oldStart, j = op.newStart; i < op.oldEnd; i++, j++) {
+        lines.push({ type: 'unchanged', content: newLines[j], lineNumber: j + 1, oldLineNumber: i + 1, newLineNumber: j + 1 });
+        stats.unchanged++;
+        equalChars += newLines[j].length * 2;
+      }
+      continue;
+    }
+
+    // 一处改动：连续的删除和新增
+    const removed: number[] = [];
+    const added: number[] = [];
+    for (; index < ops.length && ops[index].type !== 'equal'; index++) {
+      const change = ops[index];
+      for (let i = change.oldStart; i < change.oldEnd; i++) removed.push(i);
+      for (let j = change.newStart; j < change.newEnd; j++) added.push(j);
     }
+    index--;
+
+    // 按顺序把相似的删除段和新增段配对
+    const pool = added.filter(j => !movedFrom.has(j));
+    let cursor = 0;
+    removed.forEach(i => {
+      if (movedTo.has(i)) {
+        emitRemoved(i);
+        return;
+      }
+      for (let p = cursor; p < Math.min(pool.length, cursor + PAIR_LOOKAHEAD); p++) {
+        const j = pool[p];
+        const segments = diffChars(oldLines[i], newLines[j]);
+        const similarity = segmentSimilarity(segments, oldLines[i], newLines[j]);
+        if (similarity >= MODIFIED_SIMILARITY) {
+          // 配对段之前未配对的新增段先输出
+          added.filter(k => k < j && !emitted.has(k)).forEach(emitAdded);
+          emitted.add(j);
+          lines.push({
+            type: 'modified',
+            content: newLines[j],
+            lineNumber: j + 1,
+            oldLineNumber: i + 1,
+            newLineNumber: j + 1,
+            oldContent: oldLines[i],
+            segments,
+          });
+          stats.modified++;
+          equalChars += similarity * (oldLines[i].length + newLines[j].length);
+          cursor = p + 1;
+          return;
+        }
+      }
+      emitRemoved(i);
+    });
+    added.filter(j => !emitted.has(j)).forEach(emitAdded);
   }
 
-  // 计算相似度
-  const totalLines = Math.max(oldLines.length, newLines.length);
-  const similarity = totalLines > 0
-    ? Math.floor((stats.unchanged / totalLines) * 100)
-    : 100;
+  const total = [...oldLines, ...newLines].reduce((sum, line) => sum + line.length, 0);
+  const similarity = total > 0 ? Math.floor((equalChars / total) * 100) : 100;
 
   return {
     oldVersion: oldText,
     newVersion: newText,
     lines,
     stats,
-    similarity,
+    similarity: Math.min(100, similarity),
   };
 }
 
+/**
+ * 段落的行内视图片段：新增/删除的整段、修改段的逐字差异、其他段原文
+ */
+export function getInlineSegments(line: DiffLine): DiffSegment[] {
+  switch (line.type) {
+    case 'added':
+      return [{ type: 'insert', text: line.content }];
+    case 'removed':
+      return [{ type: 'delete', text: line.content }];
+    case 'modified':
+      return line.segments ?? [{ type: 'delete', text: line.oldContent ?? '' }, { type: 'insert', text: line.content }];
+    default:
+      return [{ type: 'equal', text: line.content }];
+  }
+}
+
+/**
+ * 把差异整理为并排视图
+ *
+ * 相邻的删除段和新增段排在同一行，左右对照；修改段左侧标出删除的字，右侧标出新增的字。
+ */
+export function buildSideBySideRows(diff: DiffResult): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  const lefts: DiffCell[] = [];
+  const rights: DiffCell[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(lefts.length, rights.length); i++) {
+      rows.push({ left: lefts[i] ?? null, right: rights[i] ?? null });
+    }
+    lefts.length = 0;
+    rights.length = 0;
+  };
+
+  diff.lines.forEach(line => {
+    const { type, content, oldLineNumber, newLineNumber } = line;
+    if (type === 'removed' || (type === 'moved' && line.movedTo)) {
+      lefts.push({ type, lineNumber: oldLineNumber!, content, movedTo: line.movedTo });
+    } else if (type === 'added' || (type === 'moved' && line.movedFrom)) {
+      rights.push({ type, lineNumber: newLineNumber!, content, movedFrom: line.movedFrom });
+    } else if (type === 'modified') {
+      flush();
+      const segments = line.segments ?? [];
+      rows.push({
+        left: { type, lineNumber: oldLineNumber!, content: line.oldContent ?? '', segments: segments.filter(s => s.type !== 'insert') },
+        right: { type, lineNumber: newLineNumber!, content, segments: segments.filter(s => s.type !== 'delete') },
+      });
+    } else {
+      flush();
+      rows.push({
+        left: { type, lineNumber: oldLineNumber!, content },
+        right: { type, lineNumber: newLineNumber!, content },
+      });
+    }
+  });
+  flush();
+  return rows;
+}
+
 /**
  * 比较两个版本
  */
 export function compareVersions(
-  version1: ChapterVersion,
-  version2: ChapterVersion
+  version1: ResolvedChapterVersion,
+  version2: ResolvedChapterVersion
 ): VersionComparison {
   const diff = calculateDiff(version1.content, version2.content);
   const summary = generateComparisonSummary(version1, version2, diff);
@@ -166,25 +534,42 @@ function generateComparisonSummary(
   parts.push(`相似度 ${diff.similarity}%`);
 
   if (diff.stats.added > 0) {
-    parts.push(`新增 ${diff.stats.added} 行`);
+    parts.push(`新增 ${diff.stats.added} 段`);
   }
 
   if (diff.stats.removed > 0) {
-    parts.push(`删除 ${diff.stats.removed} 行`);
+    parts.push(`删除 ${diff.stats.removed} 段`);
   }
 
   if (diff.stats.modified > 0) {
-    parts.push(`修改 ${diff.stats.modified} 行`);
+    parts.push(`修改 ${diff.stats.modified} 段`);
+  }
+
+  if (diff.stats.moved > 0) {
+    parts.push(`移动 ${diff.stats.moved} 段`);
   }
 
   return parts.join('，');
 }
 
+/**
+ * 段内差异的 Markdown 表示：删除用删除线，新增加粗
+ */
+function segmentsToMarkdown(segments: DiffSegment[]): string {
+  return segments.map(segment => {
+    if (!segment.text.trim()) return segment.text;
+    if (segment.type === 'delete') return `~~${segment.text}~~`;
+    if (segment.type === 'insert') return `**${segment.text}**`;
+    return segment.text;
+  }).join('');
+}
+
 /**
  * 导出差异为 Markdown
  */
 export function exportDiffAsMarkdown(comparison: VersionComparison): string {
   const lines: string[] = [];
+  const { diff } = comparison;
 
   lines.push('# 版本对比\n');
   lines.push(`**版本1：** ${comparison.version1.note || '无备注'}`);
@@ -192,16 +577,17 @@ export function exportDiffAsMarkdown(comparison: VersionComparison): string {
   lines.push(`**摘要：** ${comparison.summary}\n`);
 
   lines.push('## 统计信息\n');
-  lines.push(`- 新增行数：${comparison.diff.stats.added}`);
-  lines.push(`- 删除行数：${comparison.diff.stats.removed}`);
-  lines.push(`- 修改行数：${comparison.diff.stats.modified}`);
-  lines.push(`- 未变化行数：${comparison.diff.stats.unchanged}`);
-  lines.push(`- 相似度：${comparison.diff.similarity}%\n`);
+  lines.push(`- 新增段落：${diff.stats.added}`);
+  lines.push(`- 删除段落：${diff.stats.removed}`);
+  lines.push(`- 修改段落：${diff.stats.modified}`);
+  lines.push(`- 移动段落：${diff.stats.moved}`);
+  lines.push(`- 未变化段落：${diff.stats.unchanged}`);
+  lines.push(`- 相似度：${diff.similarity}%\n`);
 
   lines.push('## 差异详情\n');
   lines.push('```diff');
 
-  comparison.diff.lines.forEach(line => {
+  diff.lines.forEach(line => {
     switch (line.type) {
       case 'added':
         lines.push(`+ ${line.content}`);
@@ -210,7 +596,13 @@ export function exportDiffAsMarkdown(comparison: VersionComparison): string {
         lines.push(`- ${line.content}`);
         break;
       case 'modified':
-        lines.push(`! ${line.content}`);
+        lines.push(`- ${line.oldContent ?? ''}`);
+        lines.push(`+ ${line.content}`);
+        break;
+      case 'moved':
+        lines.push(line.movedTo
+          ? `! ${line.content}（移至第 ${line.movedTo} 段）`
+          : `! ${line.content}（移自第 ${line.movedFrom} 段）`);
         break;
       case 'unchanged':
         lines.push(`  ${line.content}`);
@@ -220,6 +612,14 @@ export function exportDiffAsMarkdown(comparison: VersionComparison): string {
 
   lines.push('```');
 
+  const modified = diff.lines.filter(line => line.type === 'modified');
+  if (modified.length > 0) {
+    lines.push('\n## 段内修改\n');
+    modified.forEach(line => {
+      lines.push(`- 第 ${line.newLineNumber} 段：${segmentsToMarkdown(line.segments ?? [])}`);
+    });
+  }
+
   return lines.join('\n');
 }
 
@@ -235,11 +635,15 @@ export function exportDiffAsHTML(comparison: VersionComparison): string {
   lines.push('<meta charset="UTF-8">');
   lines.push('<title>版本对比</title>');
   lines.push('<style>');
-  lines.push('.diff-line { font-family: monospace; padding: 2px 5px; }');
+  lines.push('.diff-line { padding: 2px 5px; white-space: pre-wrap; }');
   lines.push('.added { background-color: #d4edda; color: #155724; }');
   lines.push('.removed { background-color: #f8d7da; color: #721c24; }');
   lines.push('.modified { background-color: #fff3cd; color: #856404; }');
+  lines.push('.moved { background-color: #e2e3f3; color: #383d71; }');
   lines.push('.unchanged { color: #6c757d; }');
+  lines.push('del { background-color: #f8d7da; color: #721c24; }');
+  lines.push('ins { background-color: #d4edda; color: #155724; text-decoration: none; }');
+  lines.push('.note { font-size: 12px; opacity: 0.7; }');
   lines.push('</style>');
   lines.push('</head>');
   lines.push('<body>');
@@ -248,15 +652,24 @@ export function exportDiffAsHTML(comparison: VersionComparison): string {
   lines.push('<div>');
 
   comparison.diff.lines.forEach(line => {
-    const className = line.type;
-    const prefix = {
-      added: '+',
-      removed: '-',
-      modified: '!',
-      unchanged: ' ',
-    }[line.type];
-
-    lines.push(`<div class="diff-line ${className}">${prefix} ${escapeHTML(line.content)}</div>`);
+    let body: string;
+    if (line.type === 'modified') {
+      body = getInlineSegments(line).map(segment => {
+        const text = escapeHTML(segment.text);
+        if (segment.type === 'delete') return `<del>${text}</del>`;
+        if (segment.type === 'insert') return `<ins>${text}</ins>`;
+        return text;
+      }).join('');
+    } else {
+      body = escapeHTML(line.content);
+    }
+    if (line.type === 'moved') {
+      body += line.movedTo
+        ? ` <span class="note">（移至第 ${line.movedTo} 段）</span>`
+        : ` <span class="note">（移自第 ${line.movedFrom} 段）</span>`;
+    }
+
+    lines.push(`<div class="diff-line ${line.type}">${body}</div>`);
   });
 
   lines.push('</div>');
@@ -278,6 +691,216 @@ function escapeHTML(text: string): string {
     .replace(/'/g, '&#039;');
 }
 
+// ============ 增量存储 ============
+
+/** 按段落切分，保留换行符，拼接后与原文一致 */
+const PARAGRAPH_BREAK = /(?<=\n)/;
+
+/** 增量链的最大长度：超过后存一份完整快照，避免还原时逐级回放太多版本 */
+export const VERSION_KEYFRAME_INTERVAL = 20;
+
+/** 增量大小超过正文的这个比例时直接存完整快照 */
+const KEYFRAME_DELTA_RATIO = 0.5;
+
+const pushDeltaOp = (delta: VersionDelta, op: number | string): void => {
+  if (op === 0 || op === '') return;
+  const last = delta[delta.length - 1];
+  if (typeof op === 'string' && typeof last === 'string') {
+    delta[delta.length - 1] = last + op;
+  } else if (typeof op === 'number' && typeof last === 'number' && Math.sign(op) === Math.sign(last)) {
+    delta[delta.length - 1] = last + op;
+  } else {
+    delta.push(op);
+  }
+};
+
+/**
+ * 计算从 base 到 target 的增量
+ *
+ * 先按段落求差异，再在改动的段落内逐字比较，只保存真正改动的文字。
+ *
+ * @example
+ * encodeVersionDelta('第一段\n第二段', '第一段\n第二段改')
+ * // [7, '改']
+ */
+export function encodeVersionDelta(base: string, target: string): VersionDelta {
+  const a = base.split(PARAGRAPH_BREAK);
+  const b = target.split(PARAGRAPH_BREAK);
+  const delta: VersionDelta = [];
+  const ops = diffSequences(a, b);
+
+  for (let i = 0; i < ops.length; i++) {
+    const first = ops[i];
+    if (first.type === 'equal') {
+      pushDeltaOp(delta, a.slice(first.oldStart, first.oldEnd).join('').length);
+      continue;
+    }
+    // 连续的删除和新增合成一处改动
+    let last = first;
+    while (i + 1 < ops.length && ops[i + 1].type !== 'equal') last = ops[++i];
+    const removed = a.slice(first.oldStart, last.oldEnd).join('');
+    const inserted = b.slice(first.newStart, last.newEnd).join('');
+    diffChars(removed, inserted).forEach((segment) => {
+      if (segment.type === 'equal') pushDeltaOp(delta, segment.text.length);
+      else if (segment.type === 'delete') pushDeltaOp(delta, -segment.text.length);
+      else pushDeltaOp(delta, segment.text);
+    });
+  }
+
+  return delta;
+}
+
+/**
+ * 在 base 上回放增量，得到目标文字
+ */
+export function applyVersionDelta(base: string, delta: VersionDelta): string {
+  let result = '';
+  let cursor = 0;
+  for (const op of delta) {
+    if (typeof op === 'string') {
+      result += op;
+    } else if (op > 0) {
+      result += base.slice(cursor, cursor + op);
+      cursor += op;
+    } else {
+      cursor -= op;
+    }
+  }
+  return result;
+}
+
+/**
+ * 增量的存储大小（按字符估算，数字按位数计）
+ */
+export function measureVersionDelta(delta: VersionDelta): number {
+  return delta.reduce<number>((size, op) => size + (typeof op === 'string' ? op.length : String(op).length + 1), 0);
+}
+
+/**
+ * 创建版本内容还原器：按 baseVersionId 逐级回放增量，结果缓存
+ *
+ * 基准版本缺失或出现循环引用时返回 null。
+ */
+export function createVersionResolver(versions: readonly ChapterVersion[]): (versionId: string) => string | null {
+  const byId = new Map(versions.map(version => [version.id, version]));
+  const cache = new Map<string, string | null>();
+
+  return (versionId) => {
+    const chain: ChapterVersion[] = [];
+    const seen = new Set<string>();
+    let content: string | null = null;
+
+    for (let id: string | undefined = versionId; ;) {
+      if (cache.has(id)) {
+        content = cache.get(id)!;
+        break;
+      }
+      const version = byId.get(id);
+      if (!version || seen.has(id)) break;
+      seen.add(id);
+      if (version.content !== undefined || !version.delta || !version.baseVersionId) {
+        content = version.content ?? '';
+        cache.set(id, content);
+        break;
+      }
+      chain.push(version);
+      id = version.baseVersionId;
+    }
+
+    for (let i = chain.length - 1; i >= 0; i--) {
+      content = content === null ? null : applyVersionDelta(content, chain[i].delta!);
+      cache.set(chain[i].id, content);
+    }
+    return cache.get(versionId) ?? content;
+  };
+}
+
+/**
+ * 还原全部版本的完整内容，无法还原的版本被跳过
+ */
+export function resolveVersions(versions: readonly ChapterVersion[]): ResolvedChapterVersion[] {
+  const resolve = createVersionResolver(versions);
+  return versions.flatMap((version) => {
+    const content = resolve(version.id);
+    return content === null ? [] : [{ ...version, content }];
+  });
+}
+
+/**
+ * 增量链长度：完整快照为 0
+ */
+const chainDepth = (versions: readonly ChapterVersion[], versionId: string): number => {
+  const byId = new Map(versions.map(version => [version.id, version]));
+  let depth = 0;
+  for (let version = byId.get(versionId); version?.baseVersionId && version.content === undefined; depth++) {
+    version = byId.get(version.baseVersionId);
+    if (depth > versions.length) break;
+  }
+  return depth;
+};
+
+/**
+ * 把一份内容编码为新版本的存储形式：相对 base 的增量，或在增量链过长、增量过大时存完整快照
+ *
+ * @param versions base 所在的版本列表，用于计算增量链长度
+ */
+export function encodeVersionContent(
+  content: string,
+  base: { id: string; content: string } | null,
+  versions: readonly ChapterVersion[] = []
+): Pick<ChapterVersion, 'content' | 'baseVersionId' | 'delta'> {
+  if (!base || chainDepth(versions, base.id) + 1 >= VERSION_KEYFRAME_INTERVAL) {
+    return { content };
+  }
+  const delta = encodeVersionDelta(base.content, content);
+  if (measureVersionDelta(delta) > content.length * KEYFRAME_DELTA_RATIO) {
+    return { content };
+  }
+  return { baseVersionId: base.id, delta };
+}
+
+/**
+ * 按创建时间从旧到新排序，时间相同保持原顺序
+ */
+const sortOldestFirst = (versions: readonly ChapterVersion[]): ChapterVersion[] =>
+  versions
+    .map((version, index) => ({ version, index }))
+    .sort((a, b) =>
+      new Date(a.version.createdAt).getTime() - new Date(b.version.createdAt).getTime() ||
+      b.index - a.index
+    )
+    .map(({ version }) => version);
+
+/**
+ * 删除若干版本；以被删版本为基准的增量版本改为相对更早的保留版本重新编码
+ */
+export function dropVersions(versions: readonly ChapterVersion[], ids: ReadonlySet<string>): ChapterVersion[] {
+  if (!versions.some(version => ids.has(version.id))) return [...versions];
+
+  const resolve = createVersionResolver(versions);
+  const kept = versions.filter(version => !ids.has(version.id));
+  const keptIds = new Set(kept.map(version => version.id));
+  const ordered = sortOldestFirst(kept);
+  const rebased = new Map<string, ChapterVersion>();
+
+  ordered.forEach((version, index) => {
+    if (!version.baseVersionId || keptIds.has(version.baseVersionId)) return;
+    const content = resolve(version.id);
+    if (content === null) return;
+    const previous = ordered[index - 1];
+    const previousContent = previous ? resolve(previous.id) : null;
+    const encoded = encodeVersionContent(
+      content,
+      previous && previousContent !== null ? { id: previous.id, content: previousContent } : null,
+      kept.map(item => rebased.get(item.id) ?? item)
+    );
+    const { content: _content, baseVersionId: _base, delta: _delta, ...meta } = version;
+    rebased.set(version.id, { ...meta, ...encoded });
+  });
+
+  return kept.map(version => rebased.get(version.id) ?? version);
+}
+
 // ============ 版本管理 ============
 
 /**
@@ -302,7 +925,7 @@ export function createVersion(
  */
 export function rollbackToVersion(
   chapter: Chapter,
-  version: ChapterVersion
+  version: ResolvedChapterVersion
 ): Chapter {
   return {
     ...chapter,
@@ -325,7 +948,9 @@ export function getVersionHistory(chapter: Chapter): ChapterVersion[] {
 }
 
 /**
- * 清理旧版本（保留最近N个）
+ * 清理旧版本（保留最近N个，里程碑版本始终保留）
+ *
+ * 按时间段保留的策略见 VersionService.applyRetention。
  */
 export function cleanOldVersions(
   chapter: Chapter,
@@ -335,24 +960,28 @@ export function cleanOldVersions(
     return chapter;
   }
 
-  const sorted = getVersionHistory(chapter);
-  const kept = sorted.slice(0, keepCount);
+  const removed = getVersionHistory(chapter)
+    .filter(v => !v.milestone)
+    .slice(keepCount)
+    .map(v => v.id);
 
   return {
     ...chapter,
-    versions: kept,
+    versions: dropVersions(chapter.versions, new Set(removed)),
   };
 }
 
 /**
- * 查找版本
+ * 查找版本并还原其完整内容
  */
 export function findVersion(
   chapter: Chapter,
   versionId: string
-): ChapterVersion | null {
-  if (!chapter.versions) return null;
-  return chapter.versions.find(v => v.id === versionId) || null;
+): ResolvedChapterVersion | null {
+  const version = chapter.versions?.find(v => v.id === versionId);
+  if (!version) return null;
+  const content = createVersionResolver(chapter.versions!)(versionId);
+  return content === null ? null : { ...version, content };
 }
 
 /**
@@ -375,7 +1004,7 @@ export function generateVersionHistoryReport(chapter: Chapter): string {
   lines.push('## 版本列表\n');
 
   versions.forEach((version, idx) => {
-    lines.push(`### ${idx + 1}. ${version.note || '无备注'}`);
+    lines.push(`### ${idx + 1}. ${version.milestone ? '🏁 ' : ''}${version.note || '无备注'}`);
     lines.push(`- **创建时间：** ${new Date(version.createdAt).toLocaleString('zh-CN')}`);
     lines.push(`- **字数：** ${version.wordCount}`);
     lines.push(`- **版本ID：** ${version.id}`);
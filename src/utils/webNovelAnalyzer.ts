@@ -9,6 +9,8 @@
  * 5. 伏笔回收：前后呼应的闭环设计
  */
 
+import { countWords } from './wordCount';
+
 // ============ 类型定义 ============
 
 export interface WebNovelPattern {
@@ -399,7 +401,7 @@ export function analyzeCoolPointDensity(content: string): {
   }
   
   // 计算密度（每万字）
-  const wordCount = content.length;
+  const wordCount = countWords(content);
   const density = wordCount > 0 ? (coolPoints.length / wordCount) * 10000 : 0;
   
   // 评分：理想密度是每万字3-5个爽点
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeWordCount,
+  countWords,
+  getWordCountMode,
+  recountChapters,
+  sumWordCount,
+} from './wordCount';
+
+describe('utils/wordCount', () => {
+  const text = '　　他说：“Hello, world! 我们 don\'t 在 2024 年见。”\n\n😀';
+
+  it('should classify CJK, words, punctuation and characters', () => {
+    expect(analyzeWordCount(text)).toEqual({
+      cjk: 7,
+      words: 4,
+      punctuation: 7,
+      characters: 33,
+    });
+    expect(analyzeWordCount('')).toEqual({ cjk: 0, words: 0, punctuation: 0, characters: 0 });
+  });
+
+  it('should count by mode', () => {
+    expect(countWords(text, 'cjk')).toBe(7);
+    expect(countWords(text, 'cjk-words')).toBe(11);
+    expect(countWords(text, 'standard')).toBe(18);
+    expect(countWords(text, 'characters')).toBe(33);
+    expect(countWords(text)).toBe(18);
+  });
+
+  it('should ignore whitespace including the ideographic space', () => {
+    expect(countWords('　　天 地\t玄\n黄', 'characters')).toBe(4);
+    expect(countWords('   ', 'standard')).toBe(0);
+  });
+
+  it('should count Japanese kana and Korean as CJK characters', () => {
+    expect(countWords('ひらがなカタカナ한국어', 'cjk')).toBe(11);
+  });
+
+  it('should keep hyphenated words and decimals as one word', () => {
+    expect(analyzeWordCount('e-mail 3.14 U.S.A').words).toBe(3);
+  });
+
+  it('should resolve the novel mode with a default', () => {
+    expect(getWordCountMode({ wordCountMode: 'cjk' })).toBe('cjk');
+    expect(getWordCountMode({})).toBe('standard');
+    expect(getWordCountMode(null)).toBe('standard');
+  });
+
+  it('should recount chapters and keep unchanged ones', () => {
+    const same = { id: 'a', title: 'A', content: '天地', wordCount: 2 };
+    const stale = { id: 'b', title: 'B', content: '天地，玄黄。', wordCount: 99 };
+    const result = recountChapters([same, stale], 'cjk');
+
+    expect(result[0]).toBe(same);
+    expect(result[1]).toEqual({ ...stale, wordCount: 4 });
+    expect(sumWordCount(result)).toBe(6);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * 字数统计
+ *
+ * 全站统一的字数计算，支持多种统计口径以对齐各连载平台：
+ * - cjk: 仅汉字（含日文假名、韩文）
+ * - cjk-words: 汉字 + 英文单词（连续的字母或数字计一字）
+ * - standard: 汉字 + 英文单词 + 标点符号，与 Word/WPS 的“字数”一致
+ * - characters: 所有非空白字符
+ *
+ * 作品通过 Novel.wordCountMode 选择口径，章节字数、作品总字数、写作目标和统计都按同一口径计算。
+ */
+
+import type { Chapter, Novel, WordCountMode } from '../types';
+
+export type { WordCountMode };
+
+/** 默认口径 */
+export const DEFAULT_WORD_COUNT_MODE: WordCountMode = 'standard';
+
+/** 可选口径（用于设置界面） */
+export const WORD_COUNT_MODES: { value: WordCountMode; label: string; description: string }[] = [
+  { value: 'standard', label: '标准', description: '汉字、英文单词和标点，与 Word/WPS 一致' },
+  { value: 'cjk', label: '仅汉字', description: '只统计汉字，与起点等平台一致' },
+  { value: 'cjk-words', label: '汉字 + 单词', description: '汉字和英文单词，不含标点' },
+  { value: 'characters', label: '字符数', description: '所有非空白字符' },
+];
+
+/**
+ * 各类字符的数量
+ */
+export interface WordCountBreakdown {
+  /** 汉字（含日文假名、韩文） */
+  cjk: number;
+  /** 英文单词及数字串 */
+  words: number;
+  /** 标点和符号 */
+  punctuation: number;
+  /** 非空白字符总数 */
+  characters: number;
+}
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+/** 单词内允许出现撇号、连字符和小数点，如 don't、e-mail、3.14 */
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}]+(?:['’.-][\p{L}\p{N}\p{M}]+)*/gu;
+const PUNCTUATION_PATTERN = /[\p{P}\p{S}]/gu;
+const WHITESPACE_PATTERN = /\s/gu;
+
+const countMatches = (text: string, pattern: RegExp): number => text.match(pattern)?.length ?? 0;
+
+/**
+ * 统计非空白字符数（按 Unicode 码点计，emoji 等算一个字符）
+ */
+const countCharacters = (text: string): number => Array.from(text.replace(WHITESPACE_PATTERN, '')).length;
+
+/**
+ * 分类统计文本中的字符
+ */
+export function analyzeWordCount(text: string): WordCountBreakdown {
+  if (!text) return { cjk: 0, words: 0, punctuation: 0, characters: 0 };
+
+  const cjk = countMatches(text, CJK_PATTERN);
+  const withoutCjk = text.replace(CJK_PATTERN, ' ');
+  const words = countMatches(withoutCjk, WORD_PATTERN);
+  const punctuation = countMatches(withoutCjk.replace(WORD_PATTERN, ' '), PUNCTUATION_PATTERN);
+
+  return { cjk, words, punctuation, characters: countCharacters(text) };
+}
+
+/**
+ * 按指定口径统计字数
+ */
+export function countWords(text: string, mode: WordCountMode = DEFAULT_WORD_COUNT_MODE): number {
+  if (!text) return 0;
+  if (mode === 'characters') return countCharacters(text);
+  if (mode === 'cjk') return countMatches(text, CJK_PATTERN);
+
+  const { cjk, words, punctuation } = analyzeWordCount(text);
+  return mode === 'cjk-words' ? cjk + words : cjk + words + punctuation;
+}
+
+/**
+ * 获取作品的统计口径
+ */
+export function getWordCountMode(novel?: Pick<Novel, 'wordCountMode'> | null): WordCountMode {
+  return novel?.wordCountMode ?? DEFAULT_WORD_COUNT_MODE;
+}
+
+/**
+ * 汇总章节字数
+ */
+export function sumWordCount(chapters: Pick<Chapter, 'wordCount'>[]): number {
+  return chapters.reduce((sum, chapter) => sum + (chapter.wordCount || 0), 0);
+}
+
+/**
+ * 按口径重新统计章节字数，字数未变的章节保持原对象
+ */
+export function recountChapters<T extends Pick<Chapter, 'content' | 'wordCount'>>(chapters: T[], mode: WordCountMode): T[] {
+  return chapters.map(chapter => {
+    const wordCount = countWords(chapter.content, mode);
+    return wordCount === chapter.wordCount ? chapter : { ...chapter, wordCount };
+  });
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip, zipEntryText } from './zip';
+
+describe('utils/zip', () => {
+  it('should compute standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should round-trip stored and deflated entries', async () => {
+    const text = '天道酬勤，'.repeat(200);
+    const zip = await createZip([
+      { name: 'mimetype', data: 'application/epub+zip', compress: false },
+      { name: '目录/正文.txt', data: text },
+      { name: 'empty.bin', data: new Uint8Array() },
+    ]);
+
+    const entries = await readZip(zip);
+    expect(entries.map(e => e.name)).toEqual(['mimetype', '目录/正文.txt', 'empty.bin']);
+    expect(entries[0].method).toBe(0);
+    expect(entries[1].method).toBe(8);
+    expect(zipEntryText(entries[1])).toBe(text);
+    expect(entries[2].data.length).toBe(0);
+    // 压缩后明显小于原文
+    expect(zip.length).toBeLessThan(new TextEncoder().encode(text).length);
+  });
+
+  it('should reject data that is not a zip', async () => {
+    await expect(readZip(new TextEncoder().encode('not a zip file at all, definitely not'))).rejects.toThrow('ZIP');
+  });
+});
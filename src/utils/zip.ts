@@ -0,0 +1,264 @@
+/**
+ * @fileoverview ZIP 打包与解包工具
+ * @module utils/zip
+ * @description 生成和读取 ZIP 容器（EPUB、DOCX 均为 ZIP），压缩使用浏览器原生的 CompressionStream
+ */
+
+/** 压缩方式：0 = 存储，8 = Deflate */
+export type ZipMethod = 0 | 8;
+
+/**
+ * 待打包的文件
+ */
+export interface ZipEntryInput {
+  /** 包内路径，使用 `/` 分隔 */
+  name: string;
+  /** 文件内容，字符串按 UTF-8 编码 */
+  data: Uint8Array | string;
+  /** 是否压缩，默认 true（EPUB 的 mimetype 必须为 false） */
+  compress?: boolean;
+}
+
+/**
+ * 读取出的文件
+ */
+export interface ZipEntry {
+  name: string;
+  method: ZipMethod;
+  data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+/** 通用标志位 bit 11：文件名使用 UTF-8 */
+const UTF8_FLAG = 0x0800;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+};
+
+/**
+ * 计算 CRC-32
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const pipeThrough = async (data: Uint8Array, transform: GenericTransformStream): Promise<Uint8Array> => {
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  });
+  const reader = source.pipeThrough(transform as TransformStream<Uint8Array, Uint8Array>).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+  return concatBytes(chunks, length);
+};
+
+/**
+ * 拼接字节数组
+ */
+const concatBytes = (chunks: Uint8Array[], length: number = chunks.reduce((sum, c) => sum + c.length, 0)): Uint8Array => {
+  const result = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * 当前环境是否支持原生 Deflate 压缩
+ */
+export function isDeflateSupported(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+/**
+ * Deflate 压缩（不含 zlib 头）
+ */
+export async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  return pipeThrough(data, new CompressionStream('deflate-raw'));
+}
+
+/**
+ * Deflate 解压（不含 zlib 头）
+ */
+export async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  return pipeThrough(data, new DecompressionStream('deflate-raw'));
+}
+
+/**
+ * zlib 格式的 Deflate 压缩（PDF 的 FlateDecode 使用此格式）
+ */
+export async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  return pipeThrough(data, new CompressionStream('deflate'));
+}
+
+/**
+ * 转换为 DOS 日期时间
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * 打包为 ZIP
+ *
+ * 文件按传入顺序写入；不支持原生压缩的环境下全部以存储方式写入。
+ */
+export async function createZip(entries: ZipEntryInput[], modifiedAt: Date = new Date()): Promise<Uint8Array> {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const canDeflate = isDeflateSupported();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const raw = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const method: ZipMethod = entry.compress !== false && canDeflate && raw.length > 0 ? 8 : 0;
+    const body = method === 8 ? await deflateRaw(raw) : raw;
+    const crc = crc32(raw);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_FILE_HEADER, true);
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, method, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, body.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true); // extra length
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true); // version needed
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, method, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, body.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    chunks.push(local, body);
+    central.push(header);
+    offset += local.length + body.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return concatBytes([...chunks, ...central, end]);
+}
+
+/**
+ * 读取 ZIP，按中央目录顺序返回文件
+ *
+ * @throws {Error} 不是有效的 ZIP、使用了不支持的压缩方式或 CRC 校验失败
+ */
+export async function readZip(data: Uint8Array): Promise<ZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // 从末尾向前查找中央目录结束记录（最长 65535 字节注释）
+  let endOffset = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('不是有效的 ZIP 文件');
+  }
+
+  const count = view.getUint16(endOffset + 10, true);
+  let pointer = view.getUint32(endOffset + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pointer, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('ZIP 中央目录已损坏');
+    }
+    const method = view.getUint16(pointer + 10, true);
+    const crc = view.getUint32(pointer + 16, true);
+    const compressedSize = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const name = decoder.decode(data.subarray(pointer + 46, pointer + 46 + nameLength));
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`ZIP 文件头已损坏: ${name}`);
+    }
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const body = data.subarray(start, start + compressedSize);
+
+    if (method !== 0 && method !== 8) {
+      throw new Error(`不支持的压缩方式 ${method}: ${name}`);
+    }
+    const content = method === 8 ? await inflateRaw(body) : body.slice();
+    if (crc32(content) !== crc) {
+      throw new Error(`CRC 校验失败: ${name}`);
+    }
+    entries.push({ name, method, data: content });
+  }
+
+  return entries;
+}
+
+/**
+ * 按 UTF-8 解码文件内容
+ */
+export function zipEntryText(entry: ZipEntry): string {
+  return decoder.decode(entry.data);
+}